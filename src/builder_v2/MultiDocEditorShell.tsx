@@ -10,37 +10,67 @@
  * - Preview restrictions (no structure tree, no inspector, read-only canvas)
  * - Publish/Unpublish UI controls
  *
+ * Publish history: each publish is recorded as a release with a note; older
+ * releases can be previewed, compared and rolled back to.
+ *
+ * Leads: a document is linked to the funnel that receives its runtime leads
+ * (the shell's funnelId, or one linked by hand); publishing stamps it into
+ * the snapshot.
+ *
  * This preserves all existing editor behavior (canvas, inspector, structure tree)
  * while adding document-level management on top.
  */
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 
 import './EditorLayout.css';
 import { CanvasEditor } from './canvas/CanvasEditor';
 import { PreviewCanvas } from './canvas/PreviewCanvas';
 import { DocumentSwitcher } from './components/DocumentSwitcher';
+import { PublishHistoryPanel } from './components/PublishHistoryPanel';
 import { editorModes } from './editorMode';
 import { Inspector } from './inspector/Inspector';
 import { EditorStoreAdapter } from './state/editorStoreAdapter';
 import { MultiDocumentProvider, useMultiDocumentStore } from './state/multiDocStore';
+import type { DocumentSyncStatus } from './state/serverPersistence';
 import { StructureTree } from './structure/StructureTree';
 
+const SYNC_STATUS_LABELS: Record<DocumentSyncStatus, string> = {
+  local: 'Local only',
+  syncing: 'Saving…',
+  synced: 'Saved',
+  offline: 'Offline – saved locally',
+  error: 'Sync failed – saved locally',
+};
+
 /**
  * Main editor shell with multi-document support.
  * Use this instead of EditorShell for multi-document workflows.
+ * With a teamId, documents are stored on the server for that team and
+ * localStorage acts as the offline cache.
  */
-export function MultiDocEditorShell() {
+export function MultiDocEditorShell({
+  teamId,
+  userId,
+  authorName,
+  funnelId,
+}: {
+  teamId?: string | null;
+  userId?: string | null;
+  authorName?: string | null;
+  /** Funnel that published documents submit leads to */
+  funnelId?: string | null;
+} = {}) {
   return (
-    <MultiDocumentProvider>
+    <MultiDocumentProvider teamId={teamId} userId={userId} authorName={authorName} funnelId={funnelId}>
       <EditorStoreAdapter>
-        <MultiDocEditorShellContent />
+        <MultiDocEditorShellContent funnelId={funnelId} />
       </EditorStoreAdapter>
     </MultiDocumentProvider>
   );
 }
 
-function MultiDocEditorShellContent() {
+function MultiDocEditorShellContent({ funnelId }: { funnelId?: string | null }) {
   const {
     pages,
     activePageId,
@@ -59,8 +89,13 @@ function MultiDocEditorShellContent() {
     isPublished,
     publishDocument,
     unpublishDocument,
+    linkFunnel,
+    releases,
+    activeDocumentId,
     // Phase 26: Highlighted nodes for suggestion feedback
     highlightedNodeIds,
+    syncStatus,
+    migrationFailures,
   } = useMultiDocumentStore();
 
   const activePage = pages.find((page) => page.id === activePageId) ?? null;
@@ -68,6 +103,41 @@ function MultiDocEditorShellContent() {
   // Phase 14: Determine if we're in preview mode
   const isPreviewMode = mode === 'preview';
 
+  // Release shown in preview instead of the live version
+  const [previewReleaseId, setPreviewReleaseId] = useState<string | null>(null);
+  const previewRelease = releases.find((release) => release.id === previewReleaseId) ?? null;
+
+  useEffect(() => {
+    setPreviewReleaseId(null);
+  }, [activeDocumentId]);
+
+  const handlePreviewRelease = (releaseId: string | null) => {
+    setPreviewReleaseId(releaseId);
+    if (releaseId) {
+      setMode('preview');
+    }
+  };
+
+  const linkedFunnelId = currentDocument.funnelId ?? funnelId ?? null;
+
+  const handleLinkFunnel = () => {
+    const value = window.prompt('Funnel ID that receives this document\'s leads', linkedFunnelId ?? '');
+    if (value === null) return;
+    linkFunnel(value.trim() || null);
+  };
+
+  const handlePublish = () => {
+    if (
+      !linkedFunnelId &&
+      !window.confirm("This document isn't linked to a funnel, so visitors can't submit their answers. Publish anyway?")
+    ) {
+      return;
+    }
+    const note = window.prompt('Release note (optional)', '');
+    if (note === null) return;
+    publishDocument(note);
+  };
+
   // Prevent body scroll when editor is mounted
   useEffect(() => {
     const previousBodyOverflow = document.body.style.overflow;
@@ -126,9 +196,37 @@ function MultiDocEditorShellContent() {
             fontWeight: 400,
           }}>
             {currentDocument.name}
+            {syncStatus !== 'local' && ` · ${SYNC_STATUS_LABELS[syncStatus]}`}
           </span>
         </header>
         <div className="builder-v2-panel-scroll">
+          {/* Documents that failed to upgrade are kept with backups */}
+          {migrationFailures.length > 0 && (
+            <div
+              role="alert"
+              style={{
+                margin: '0 0 12px',
+                padding: '8px 10px',
+                borderRadius: 8,
+                fontSize: 12,
+                background: 'rgba(239, 68, 68, 0.12)',
+                border: '1px solid rgba(239, 68, 68, 0.5)',
+                color: '#fecaca',
+              }}
+            >
+              {migrationFailures.length === 1
+                ? '1 saved item could not be upgraded'
+                : `${migrationFailures.length} saved items could not be upgraded`}
+              {' '}and {migrationFailures.length === 1 ? 'was' : 'were'} left unchanged.
+              {migrationFailures.map((failure) => (
+                <div key={failure.source} style={{ opacity: 0.8, marginTop: 4 }}>
+                  {failure.source}: {failure.message}
+                  {failure.backupKey && ` (backup: ${failure.backupKey})`}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Document Switcher */}
           <DocumentSwitcher />
           
@@ -208,8 +306,18 @@ function MultiDocEditorShellContent() {
                 <span style={{ fontSize: 12, opacity: 0.7 }}>
                   {isPublished ? '✓ Published' : 'Not published'}
                 </span>
+                <span style={{ fontSize: 12, opacity: 0.7 }}>
+                  {linkedFunnelId ? `Leads → funnel ${linkedFunnelId}` : 'No funnel linked'}
+                </span>
+                <button type="button" onClick={handleLinkFunnel} style={styles.headerButton}>
+                  {linkedFunnelId ? 'Change funnel' : 'Link funnel'}
+                </button>
               </div>
             )}
+            <PublishHistoryPanel
+              previewReleaseId={previewRelease?.id ?? null}
+              onPreviewRelease={handlePreviewRelease}
+            />
             {isPreviewMode && (
               <p style={{ opacity: 0.6, fontSize: 13 }}>
                 Preview mode - Structure tree disabled
@@ -225,6 +333,11 @@ function MultiDocEditorShellContent() {
       <section className="builder-v2-panel builder-v2-panel--center">
         <header className="builder-v2-panel-header">
           {isPreviewMode ? 'Preview' : 'Canvas'}
+          {isPreviewMode && previewRelease && (
+            <span style={{ marginLeft: 8, fontSize: 11, opacity: 0.7 }}>
+              Release #{previewRelease.number} (not live)
+            </span>
+          )}
           {/* Phase 14: Publish button in header */}
           {!isPreviewMode && (
             <div style={{ marginLeft: 'auto', display: 'flex', gap: 8 }}>
@@ -232,7 +345,7 @@ function MultiDocEditorShellContent() {
                 <>
                   <button
                     type="button"
-                    onClick={publishDocument}
+                    onClick={handlePublish}
                     style={styles.headerButton}
                   >
                     Re-publish
@@ -248,7 +361,7 @@ function MultiDocEditorShellContent() {
               ) : (
                 <button
                   type="button"
-                  onClick={publishDocument}
+                  onClick={handlePublish}
                   style={{ ...styles.headerButton, ...styles.headerButtonPrimary }}
                 >
                   Publish
@@ -275,7 +388,7 @@ function MultiDocEditorShellContent() {
           
           {/* Phase 14: Preview mode - renders published snapshot only */}
           <div className={isPreviewMode ? '' : 'builder-v2-hidden'}>
-            <PreviewCanvas publishedSnapshot={publishedSnapshot} />
+            <PreviewCanvas publishedSnapshot={previewRelease?.snapshot ?? publishedSnapshot} />
           </div>
           
           {/* Structure mode - canvas hidden */}
@@ -330,6 +443,7 @@ const styles: Record<string, React.CSSProperties> = {
   },
   publishControls: {
     display: 'flex',
+    flexWrap: 'wrap',
     alignItems: 'center',
     gap: 8,
     marginTop: 8,
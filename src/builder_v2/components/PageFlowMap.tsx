@@ -0,0 +1,135 @@
+/**
+ * PageFlowMap - Where each page leads, shown under the pages list
+ * Lists every page's routing rules, its fallback and any dead ends or broken
+ * routes, so the funnel's branches can be checked at a glance
+ */
+
+import { useMemo } from 'react';
+import { AlertTriangle, ArrowRight, CircleStop, Flag } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Page } from '../types';
+import {
+  buildPageFlow,
+  collectAnswerFields,
+  describeCondition,
+  getChoiceLabels,
+  type ChoiceLabels,
+  type PageExit,
+} from '../runtime/pageRouting';
+
+interface PageFlowMapProps {
+  pages: Page[];
+  activePageId: string;
+  onSelectPage: (id: string) => void;
+}
+
+function describeExit(exit: PageExit, choiceLabels: ChoiceLabels): string {
+  switch (exit.kind) {
+    case 'rule': {
+      const conditions = exit.rule?.conditions ?? [];
+      if (conditions.length === 0) return 'If (no conditions)';
+      const joiner = exit.rule?.match === 'any' ? ' or ' : ' and ';
+      return `If ${conditions.map((condition) => describeCondition(condition, choiceLabels)).join(joiner)}`;
+    }
+    case 'fallback':
+      return 'Otherwise';
+    case 'next':
+      return 'Next';
+    case 'end':
+      return 'Ends funnel';
+  }
+}
+
+export function PageFlowMap({ pages, activePageId, onSelectPage }: PageFlowMapProps) {
+  const flow = useMemo(() => buildPageFlow(pages), [pages]);
+  const choiceLabels = useMemo(() => getChoiceLabels(collectAnswerFields(pages)), [pages]);
+
+  const errorCount = flow.reduce(
+    (count, entry) => count + entry.issues.filter((issue) => issue.severity === 'error').length,
+    0,
+  );
+  const pageNumber = (pageId: string | null) => pages.findIndex((page) => page.id === pageId) + 1;
+
+  return (
+    <div className="flex flex-col min-h-0 border-t border-slate-100">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3">
+        <h3 className="text-sm font-semibold text-slate-900">Flow</h3>
+        {errorCount > 0 && (
+          <span className="flex items-center gap-1 text-xs font-medium text-red-600">
+            <AlertTriangle size={12} />
+            {errorCount} {errorCount === 1 ? 'problem' : 'problems'}
+          </span>
+        )}
+      </div>
+
+      {/* Pages with their exits */}
+      <div className="flex-1 overflow-auto px-2 pb-2 space-y-1.5">
+        {flow.map(({ page, index, isEntry, exits, issues }) => (
+          <div
+            key={page.id}
+            onClick={() => onSelectPage(page.id)}
+            className={cn(
+              "rounded-lg border px-2 py-1.5 cursor-pointer transition-all",
+              page.id === activePageId ? "border-slate-300 bg-slate-50" : "border-slate-100 hover:bg-slate-50",
+              issues.some((issue) => issue.severity === 'error') && "border-red-200"
+            )}
+          >
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-medium text-slate-400 min-w-[20px]">{index + 1}</span>
+              <span className="flex-1 text-xs font-medium text-slate-700 truncate">{page.name}</span>
+              {isEntry && (
+                <span title="Entry page">
+                  <Flag size={12} className="text-slate-400" />
+                </span>
+              )}
+              {issues.length > 0 && (
+                <span title={issues.map((issue) => issue.message).join('\n')}>
+                  <AlertTriangle
+                    size={12}
+                    className={issues.some((issue) => issue.severity === 'error') ? "text-red-500" : "text-amber-500"}
+                  />
+                </span>
+              )}
+            </div>
+
+            <ul className="mt-1 space-y-0.5 pl-7">
+              {exits.map((exit, exitIndex) => {
+                const target = exit.targetPageId ? pages.find((p) => p.id === exit.targetPageId) : null;
+                return (
+                  <li
+                    key={exit.rule?.id ?? `${exit.kind}-${exitIndex}`}
+                    className="flex items-center gap-1 text-[11px] text-slate-500"
+                  >
+                    {exit.kind === 'end' ? (
+                      <>
+                        <CircleStop size={10} className="shrink-0 text-slate-400" />
+                        <span className={cn(page.type !== 'thank_you' && "text-amber-600")}>
+                          {describeExit(exit, choiceLabels)}
+                        </span>
+                      </>
+                    ) : (
+                      <>
+                        <span className="min-w-0 truncate" title={describeExit(exit, choiceLabels)}>
+                          {describeExit(exit, choiceLabels)}
+                        </span>
+                        <ArrowRight size={10} className="shrink-0 text-slate-400" />
+                        {target ? (
+                          <span className="shrink-0 max-w-[50%] truncate font-medium text-slate-600">
+                            {pageNumber(target.id)}. {target.name}
+                          </span>
+                        ) : (
+                          <span className="shrink-0 font-medium text-red-600">Missing page</span>
+                        )}
+                      </>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
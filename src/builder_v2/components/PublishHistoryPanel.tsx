@@ -0,0 +1,338 @@
+/**
+ * Publish History Panel
+ *
+ * Lists the active document's releases, newest first, and provides:
+ * - Live release indicator
+ * - Preview of any release (rendered by the shell's PreviewCanvas)
+ * - Page/node-level comparison between two releases
+ * - Rollback of the live version (the draft is untouched)
+ * - Opening a release as a new draft document
+ */
+
+import { useMemo, useState } from 'react';
+
+import type { DocumentRelease } from '../state/documentTypes';
+import { useMultiDocumentStore } from '../state/multiDocStore';
+import { diffSnapshots, type NodeChangeKind, type PageDiff } from '../state/releases';
+
+type PublishHistoryPanelProps = {
+  /** Release currently shown in preview, or null for the live version */
+  previewReleaseId: string | null;
+  onPreviewRelease: (releaseId: string | null) => void;
+};
+
+const NODE_CHANGE_LABELS: Record<NodeChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Edited',
+  moved: 'Moved',
+};
+
+function formatReleaseTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function releaseLabel(release: DocumentRelease): string {
+  return `#${release.number}`;
+}
+
+export function PublishHistoryPanel({ previewReleaseId, onPreviewRelease }: PublishHistoryPanelProps) {
+  const {
+    releases,
+    publishedSnapshot,
+    setActiveDocument,
+    rollbackToRelease,
+    openReleaseAsDocument,
+  } = useMultiDocumentStore();
+
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const newestFirst = useMemo(() => [...releases].reverse(), [releases]);
+  const liveReleaseId = publishedSnapshot
+    ? releases.find((release) => release.snapshot.publishedAt === publishedSnapshot.publishedAt)?.id ?? null
+    : null;
+
+  // Compare the older of the two picked releases against the newer one
+  const comparison = useMemo(() => {
+    if (compareIds.length !== 2) return null;
+    const [before, after] = releases
+      .filter((release) => compareIds.includes(release.id))
+      .sort((a, b) => a.number - b.number);
+    if (!before || !after) return null;
+    return { before, after, diff: diffSnapshots(before.snapshot, after.snapshot) };
+  }, [compareIds, releases]);
+
+  const toggleCompare = (releaseId: string) => {
+    setCompareIds((current) => {
+      if (current.includes(releaseId)) {
+        return current.filter((id) => id !== releaseId);
+      }
+      // Keep the most recent pick when a third is chosen
+      return [...current.slice(-1), releaseId];
+    });
+  };
+
+  const handleRollback = (release: DocumentRelease) => {
+    const message =
+      `Make release ${releaseLabel(release)} live again?\n\n` +
+      'This publishes it as a new release. Your draft is not changed.';
+    if (window.confirm(message)) {
+      rollbackToRelease(release.id);
+      onPreviewRelease(null);
+    }
+  };
+
+  const handleOpenAsDraft = (release: DocumentRelease) => {
+    const newDocumentId = openReleaseAsDocument(release.id);
+    if (newDocumentId) {
+      onPreviewRelease(null);
+      setActiveDocument(newDocumentId);
+    }
+  };
+
+  if (releases.length === 0) {
+    return (
+      <div style={styles.container}>
+        <div style={styles.header}>
+          <span style={styles.headerTitle}>Publish History</span>
+        </div>
+        <p style={styles.empty}>No releases yet. Each publish is recorded here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>Publish History</span>
+        {previewReleaseId && (
+          <button type="button" style={styles.actionButton} onClick={() => onPreviewRelease(null)}>
+            Back to live
+          </button>
+        )}
+      </div>
+
+      <div style={styles.list}>
+        {newestFirst.map((release) => {
+          const isLive = release.id === liveReleaseId;
+          const isPreviewing = release.id === previewReleaseId;
+          const isCompared = compareIds.includes(release.id);
+
+          return (
+            <div
+              key={release.id}
+              style={{ ...styles.item, ...(isPreviewing ? styles.itemActive : {}) }}
+            >
+              <div style={styles.itemTitle}>
+                <span>Release {releaseLabel(release)}</span>
+                {isLive && <span style={styles.liveBadge}>Live</span>}
+              </div>
+              {release.note && <div style={styles.note}>{release.note}</div>}
+              <div style={styles.meta}>
+                {formatReleaseTime(release.publishedAt)}
+                {release.authorName && ` · ${release.authorName}`}
+              </div>
+              <div style={styles.actions}>
+                <button
+                  type="button"
+                  style={styles.actionButton}
+                  aria-pressed={isPreviewing}
+                  onClick={() => onPreviewRelease(isPreviewing ? null : release.id)}
+                >
+                  Preview
+                </button>
+                <button
+                  type="button"
+                  style={{ ...styles.actionButton, ...(isCompared ? styles.actionButtonActive : {}) }}
+                  aria-pressed={isCompared}
+                  onClick={() => toggleCompare(release.id)}
+                  title="Pick two releases to compare"
+                >
+                  Compare
+                </button>
+                {!isLive && (
+                  <button type="button" style={styles.actionButton} onClick={() => handleRollback(release)}>
+                    Roll back
+                  </button>
+                )}
+                <button
+                  type="button"
+                  style={styles.actionButton}
+                  onClick={() => handleOpenAsDraft(release)}
+                  title="Copy this release into a new document"
+                >
+                  Open copy
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {compareIds.length === 1 && (
+        <p style={styles.empty}>Pick one more release to compare.</p>
+      )}
+
+      {comparison && (
+        <div style={styles.diff}>
+          <div style={styles.diffTitle}>
+            {releaseLabel(comparison.before)} → {releaseLabel(comparison.after)}
+          </div>
+          {comparison.diff.identical ? (
+            <p style={styles.empty}>These releases are identical.</p>
+          ) : (
+            <>
+              {comparison.diff.pageOrderChanged && <div style={styles.meta}>Page order changed</div>}
+              {comparison.diff.activePageChanged && <div style={styles.meta}>Start page changed</div>}
+              {comparison.diff.pages.map((page) => (
+                <PageDiffRow key={page.pageId} page={page} />
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PageDiffRow({ page }: { page: PageDiff }) {
+  return (
+    <div style={styles.diffPage}>
+      <div style={styles.itemTitle}>
+        <span>{page.name}</span>
+        <span style={styles.meta}>{page.change}</span>
+      </div>
+      {page.fields.length > 0 && (
+        <div style={styles.meta}>Page settings: {page.fields.join(', ')}</div>
+      )}
+      {page.change !== 'removed' &&
+        page.nodes.map((node) => (
+          <div key={`${node.nodeId}-${node.change}`} style={styles.diffNode}>
+            {NODE_CHANGE_LABELS[node.change]} {node.type}
+            {node.props && node.props.length > 0 && (
+              <span style={{ opacity: 0.6 }}> ({node.props.join(', ')})</span>
+            )}
+          </div>
+        ))}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    background: 'rgba(255, 255, 255, 0.02)',
+    borderRadius: '8px',
+    border: '1px solid rgba(255, 255, 255, 0.08)',
+    marginTop: '12px',
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '10px 12px',
+    borderBottom: '1px solid rgba(255, 255, 255, 0.08)',
+  },
+  headerTitle: {
+    fontSize: '13px',
+    fontWeight: 600,
+    color: 'rgba(255, 255, 255, 0.8)',
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+  },
+  list: {
+    maxHeight: '320px',
+    overflowY: 'auto',
+    padding: '4px',
+  },
+  item: {
+    padding: '8px 10px',
+    borderRadius: '6px',
+    border: '1px solid transparent',
+    marginBottom: '2px',
+  },
+  itemActive: {
+    background: 'rgba(99, 102, 241, 0.15)',
+    border: '1px solid rgba(99, 102, 241, 0.3)',
+  },
+  itemTitle: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '8px',
+    fontSize: '13px',
+    fontWeight: 500,
+    color: 'rgba(255, 255, 255, 0.9)',
+  },
+  liveBadge: {
+    padding: '1px 6px',
+    fontSize: '10px',
+    fontWeight: 600,
+    borderRadius: '4px',
+    background: 'rgba(34, 197, 94, 0.2)',
+    border: '1px solid rgba(34, 197, 94, 0.5)',
+    color: 'rgb(134, 239, 172)',
+  },
+  note: {
+    fontSize: '12px',
+    color: 'rgba(255, 255, 255, 0.75)',
+    marginTop: '2px',
+  },
+  meta: {
+    fontSize: '11px',
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: '2px',
+  },
+  actions: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '4px',
+    marginTop: '6px',
+  },
+  actionButton: {
+    padding: '2px 8px',
+    fontSize: '11px',
+    background: 'rgba(255, 255, 255, 0.05)',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    borderRadius: '4px',
+    color: 'rgba(255, 255, 255, 0.8)',
+    cursor: 'pointer',
+  },
+  actionButtonActive: {
+    background: 'rgba(99, 102, 241, 0.2)',
+    borderColor: 'rgba(99, 102, 241, 0.5)',
+    color: 'rgba(165, 180, 252, 1)',
+  },
+  empty: {
+    fontSize: '12px',
+    color: 'rgba(255, 255, 255, 0.5)',
+    padding: '8px 12px',
+    margin: 0,
+  },
+  diff: {
+    borderTop: '1px solid rgba(255, 255, 255, 0.08)',
+    padding: '8px 12px',
+  },
+  diffTitle: {
+    fontSize: '12px',
+    fontWeight: 600,
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginBottom: '4px',
+  },
+  diffPage: {
+    padding: '6px 0',
+    borderBottom: '1px solid rgba(255, 255, 255, 0.05)',
+  },
+  diffNode: {
+    fontSize: '11px',
+    color: 'rgba(255, 255, 255, 0.7)',
+    paddingLeft: '8px',
+    marginTop: '2px',
+  },
+};
@@ -6,7 +6,9 @@
 
 import { cn } from '@/lib/utils';
 import { CheckCircle, Mail, Phone, Image, Video, Calendar, Square, AlignLeft } from 'lucide-react';
-import type { CSSProperties, ReactNode } from 'react';
+import type { ChangeEvent, CSSProperties, ReactNode } from 'react';
+
+import { useRuntimeForm } from '../../runtime/runtimeFormContext';
 
 // ============================================================================
 // STYLE HELPERS
@@ -54,6 +56,36 @@ function getShadowClass(shadow?: string): string {
   }
 }
 
+/**
+ * Validation message under a runtime input (interactive runtime only).
+ */
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="builder-input-error" role="alert">{message}</p>;
+}
+
+/**
+ * Value/onChange for an input primitive. Outside the interactive runtime the
+ * input stays a read-only placeholder.
+ */
+function useInputBinding(fieldName: string | undefined) {
+  const form = useRuntimeForm();
+  if (!form || !fieldName) {
+    return { inputProps: { readOnly: true }, error: undefined };
+  }
+
+  const value = form.answers[fieldName];
+  return {
+    inputProps: {
+      value: typeof value === 'string' ? value : '',
+      name: fieldName,
+      onChange: (event: ChangeEvent<HTMLInputElement>) => form.setAnswer(fieldName, event.target.value),
+      'aria-invalid': form.errors[fieldName] ? true : undefined,
+    },
+    error: form.errors[fieldName],
+  };
+}
+
 // ============================================================================
 // FRAME - Top-level page container
 // ============================================================================
@@ -246,6 +278,7 @@ interface CtaButtonProps {
 export function CtaButton({ 
   label = 'Continue', 
   variant = 'primary', 
+  action = 'next',
   size = 'default',
   fullWidth = true,
   className,
@@ -254,6 +287,7 @@ export function CtaButton({
   borderRadius,
   shadow,
 }: CtaButtonProps) {
+  const form = useRuntimeForm();
   const style: CSSProperties = {};
   if (backgroundColor && backgroundColor !== 'transparent') style.background = backgroundColor;
   if (color) style.color = color;
@@ -277,6 +311,8 @@ export function CtaButton({
         className
       )}
       style={style}
+      onClick={form ? () => form.runAction(action) : undefined}
+      disabled={form?.isSubmitting}
     >
       {label}
     </button>
@@ -319,6 +355,7 @@ interface TextInputProps {
 
 export function TextInput({ 
   placeholder = 'Type here...', 
+  fieldName,
   className,
   borderRadius,
   backgroundColor,
@@ -329,14 +366,19 @@ export function TextInput({
   if (backgroundColor && backgroundColor !== 'transparent') style.backgroundColor = backgroundColor;
   if (color) style.color = color;
 
+  const { inputProps, error } = useInputBinding(fieldName);
+
   return (
-    <input
-      type="text"
-      placeholder={placeholder}
-      className={cn('builder-input builder-input--text', className)}
-      style={style}
-      readOnly
-    />
+    <>
+      <input
+        type="text"
+        placeholder={placeholder}
+        className={cn('builder-input builder-input--text', error && 'builder-input--invalid', className)}
+        style={style}
+        {...inputProps}
+      />
+      <FieldError message={error} />
+    </>
   );
 }
 
@@ -356,6 +398,7 @@ interface EmailInputProps {
 
 export function EmailInput({ 
   placeholder = 'you@example.com', 
+  fieldName,
   className,
   borderRadius,
   backgroundColor,
@@ -366,17 +409,23 @@ export function EmailInput({
   if (backgroundColor && backgroundColor !== 'transparent') style.backgroundColor = backgroundColor;
   if (color) style.color = color;
 
+  const { inputProps, error } = useInputBinding(fieldName);
+
   return (
-    <div className={cn('builder-input-wrapper', className)}>
-      <Mail className="builder-input-icon" size={18} />
-      <input
-        type="email"
-        placeholder={placeholder}
-        className="builder-input builder-input--email"
-        style={style}
-        readOnly
-      />
-    </div>
+    <>
+      <div className={cn('builder-input-wrapper', className)}>
+        <Mail className="builder-input-icon" size={18} />
+        <input
+          type="email"
+          autoComplete="email"
+          placeholder={placeholder}
+          className={cn('builder-input builder-input--email', error && 'builder-input--invalid')}
+          style={style}
+          {...inputProps}
+        />
+      </div>
+      <FieldError message={error} />
+    </>
   );
 }
 
@@ -395,6 +444,7 @@ interface PhoneInputProps {
 
 export function PhoneInput({ 
   placeholder = '(555) 123-4567', 
+  fieldName,
   className,
   borderRadius,
   backgroundColor,
@@ -405,17 +455,23 @@ export function PhoneInput({
   if (backgroundColor && backgroundColor !== 'transparent') style.backgroundColor = backgroundColor;
   if (color) style.color = color;
 
+  const { inputProps, error } = useInputBinding(fieldName);
+
   return (
-    <div className={cn('builder-input-wrapper', className)}>
-      <Phone className="builder-input-icon" size={18} />
-      <input
-        type="tel"
-        placeholder={placeholder}
-        className="builder-input builder-input--phone"
-        style={style}
-        readOnly
-      />
-    </div>
+    <>
+      <div className={cn('builder-input-wrapper', className)}>
+        <Phone className="builder-input-icon" size={18} />
+        <input
+          type="tel"
+          autoComplete="tel"
+          placeholder={placeholder}
+          className={cn('builder-input builder-input--phone', error && 'builder-input--invalid')}
+          style={style}
+          {...inputProps}
+        />
+      </div>
+      <FieldError message={error} />
+    </>
   );
 }
 
@@ -514,6 +570,7 @@ export function CalendarEmbed({
 interface OptionGridProps {
   options?: Array<{ id: string; label: string; emoji?: string }>;
   autoAdvance?: boolean;
+  fieldName?: string;
   layout?: 'stack' | 'grid-2' | 'grid-3';
   className?: string;
   borderRadius?: number;
@@ -522,11 +579,15 @@ interface OptionGridProps {
 
 export function OptionGrid({ 
   options = [], 
+  autoAdvance = false,
+  fieldName,
   layout = 'stack',
   className,
   borderRadius,
   backgroundColor,
 }: OptionGridProps) {
+  const form = useRuntimeForm();
+
   if (options.length === 0) {
     return (
       <div className={cn('builder-option-placeholder', className)}>
@@ -546,20 +607,28 @@ export function OptionGrid({
   if (borderRadius !== undefined) style.borderRadius = `${borderRadius}px`;
   if (backgroundColor && backgroundColor !== 'transparent') style.backgroundColor = backgroundColor;
 
+  const selected = form && fieldName ? form.answers[fieldName] : undefined;
+  const error = form && fieldName ? form.errors[fieldName] : undefined;
+
   return (
-    <div className={cn('builder-option-grid', layoutClasses[layout], className)}>
-      {options.map((opt) => (
-        <button 
-          key={opt.id} 
-          type="button" 
-          className="builder-option-item"
-          style={style}
-        >
-          {opt.emoji && <span className="builder-option-emoji">{opt.emoji}</span>}
-          <span className="builder-option-label">{opt.label}</span>
-        </button>
-      ))}
-    </div>
+    <>
+      <div className={cn('builder-option-grid', layoutClasses[layout], className)}>
+        {options.map((opt) => (
+          <button 
+            key={opt.id} 
+            type="button" 
+            className={cn('builder-option-item', selected === opt.id && 'builder-option-item--selected')}
+            style={style}
+            aria-pressed={form ? selected === opt.id : undefined}
+            onClick={form && fieldName ? () => form.selectOption(fieldName, opt.id, autoAdvance) : undefined}
+          >
+            {opt.emoji && <span className="builder-option-emoji">{opt.emoji}</span>}
+            <span className="builder-option-label">{opt.label}</span>
+          </button>
+        ))}
+      </div>
+      <FieldError message={error} />
+    </>
   );
 }
 
@@ -686,16 +755,36 @@ export function ConsentCheckbox({
   label = 'I agree to receive communications', 
   linkText = 'Privacy Policy',
   linkUrl = '/privacy',
+  fieldName = 'consent',
   className 
 }: ConsentCheckboxProps) {
+  const form = useRuntimeForm();
+  const error = form ? form.errors[fieldName] ?? form.errors.consent : undefined;
+
   return (
-    <label className={cn('builder-consent', className)}>
-      <input type="checkbox" className="builder-consent-checkbox" readOnly />
-      <span className="builder-consent-text">
-        {label}{' '}
-        <a href={linkUrl} className="builder-consent-link">{linkText}</a>
-      </span>
-    </label>
+    <>
+      <label className={cn('builder-consent', className)}>
+        {form ? (
+          <input
+            type="checkbox"
+            className="builder-consent-checkbox"
+            name={fieldName}
+            checked={form.consentGiven}
+            onChange={(event) => form.setConsent(event.target.checked)}
+            aria-invalid={error ? true : undefined}
+          />
+        ) : (
+          <input type="checkbox" className="builder-consent-checkbox" readOnly />
+        )}
+        <span className="builder-consent-text">
+          {label}{' '}
+          <a href={linkUrl} className="builder-consent-link" target={form ? '_blank' : undefined} rel="noreferrer">
+            {linkText}
+          </a>
+        </span>
+      </label>
+      <FieldError message={error} />
+    </>
   );
 }
 
@@ -13,6 +13,7 @@ export type { EditorStoreContextValue } from './state/editorStore';
 export { MultiDocEditorShell } from './MultiDocEditorShell';
 export { MultiDocumentProvider, useMultiDocumentStore } from './state/multiDocStore';
 export type { MultiDocumentStoreContextValue } from './state/multiDocStore';
+export type { DocumentSyncStatus } from './state/serverPersistence';
 
 // Document types
 export type {
@@ -31,7 +32,19 @@ export {
 } from './state/documentTypes';
 
 // Canvas types
-export type { CanvasNode, Page, PageType, EditorState, RuntimeState, LayoutPersonality } from './types';
+export type {
+  CanvasNode,
+  Page,
+  PageType,
+  EditorState,
+  RuntimeState,
+  LayoutPersonality,
+  AnswerCondition,
+  ConditionOperator,
+  NodeVisibility,
+  PageRoute,
+  PageRouting,
+} from './types';
 
 // Canvas components
 export { PreviewCanvas } from './canvas/PreviewCanvas';
@@ -40,6 +53,7 @@ export type { RenderOptions } from './canvas/renderNode';
 
 // Document Switcher UI component
 export { DocumentSwitcher } from './components/DocumentSwitcher';
+export { PublishHistoryPanel } from './components/PublishHistoryPanel';
 
 // Phase 27: Layout Personality System
 export {
@@ -1,6 +1,6 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
-import type { CanvasNode } from '../types';
+import type { CanvasNode, PageRouting } from '../types';
 import { ComponentRegistry, fallbackComponent } from '../registry/componentRegistry';
 import { useEditorStore } from '../state/editorStore';
 import { InspectorField } from './InspectorField';
@@ -98,6 +98,12 @@ export function Inspector() {
     }
   }, [page, updatePageProps]);
 
+  const handleUpdateRouting = useCallback((routing: PageRouting | undefined) => {
+    if (page) {
+      updatePageProps(page.id, { routing });
+    }
+  }, [page, updatePageProps]);
+
   // No page selected
   if (!page) {
     return (
@@ -109,7 +115,14 @@ export function Inspector() {
 
   // No node selected - show page inspector
   if (!selectedNodeId) {
-    return <PageInspector page={page} onUpdatePersonality={handleUpdatePersonality} />;
+    return (
+      <PageInspector
+        page={page}
+        pages={pages}
+        onUpdatePersonality={handleUpdatePersonality}
+        onUpdateRouting={handleUpdateRouting}
+      />
+    );
   }
 
   const selectedNode = findNodeById(page.canvasRoot, selectedNodeId);
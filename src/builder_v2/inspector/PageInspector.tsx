@@ -1,14 +1,22 @@
 /**
  * Page Inspector - shown when no element is selected
- * Displays page-level settings with Framer-style layout
+ * Displays page-level settings with Framer-style layout, including the
+ * page's answer-based routing
  */
 
-import type { LayoutPersonality, Page } from '../types';
+import { useMemo } from 'react';
+
+import type { LayoutPersonality, Page, PageRouting } from '../types';
 import { getPersonalityOptions } from '../layout/personalityResolver';
+import { collectAnswerFields, validateRouting } from '../runtime/pageRouting';
+import { PageRoutingControl } from './controls/ConditionControl';
 
 export interface PageInspectorProps {
   page: Page;
+  /** All pages in the document, for routing targets and answer fields */
+  pages: Page[];
   onUpdatePersonality: (personality: LayoutPersonality) => void;
+  onUpdateRouting: (routing: PageRouting | undefined) => void;
 }
 
 function PersonalitySelector({
@@ -38,8 +46,13 @@ function PersonalitySelector({
   );
 }
 
-export function PageInspector({ page, onUpdatePersonality }: PageInspectorProps) {
+export function PageInspector({ page, pages, onUpdatePersonality, onUpdateRouting }: PageInspectorProps) {
   const currentPersonality = page.layoutPersonality ?? 'clean';
+  const fields = useMemo(() => collectAnswerFields(pages), [pages]);
+  const issues = useMemo(
+    () => validateRouting(pages).filter((issue) => issue.pageId === page.id),
+    [pages, page.id],
+  );
 
   return (
     <div className="builder-inspector">
@@ -61,6 +74,21 @@ export function PageInspector({ page, onUpdatePersonality }: PageInspectorProps)
           </div>
         </div>
       </section>
+
+      <section className="builder-inspector-section">
+        <div className="builder-inspector-section-header builder-inspector-section-header--static">
+          <span className="builder-inspector-section-title">Routing</span>
+        </div>
+        <div className="builder-inspector-section-content">
+          <PageRoutingControl
+            page={page}
+            pages={pages}
+            fields={fields}
+            issues={issues}
+            onChange={onUpdateRouting}
+          />
+        </div>
+      </section>
     </div>
   );
 }
@@ -4,7 +4,7 @@
  * Framer-style comprehensive editing with layout, style, and typography controls
  */
 
-import { useState, useRef, type ReactNode } from 'react';
+import { useMemo, useState, useRef, type ReactNode } from 'react';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
@@ -36,6 +36,8 @@ import {
   Layout,
   Type as TypeIcon,
   Settings2,
+  Eye,
+  GitBranch,
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import type { CanvasNode, Page } from '../types';
@@ -44,11 +46,15 @@ import { ColorControl } from './controls/ColorControl';
 import { AlignmentControl } from './controls/AlignmentControl';
 import { ShadowControl } from './controls/ShadowControl';
 import { FontSizeControl, FontWeightControl } from './controls/FontControl';
+import { PageRoutingControl, VisibilityControl } from './controls/ConditionControl';
+import { collectAnswerFields, validateRouting } from '../runtime/pageRouting';
 import { cn } from '@/lib/utils';
 
 interface PropertyEditorProps {
   selectedNode: CanvasNode | null;
   selectedPage: Page | null;
+  /** All pages in the document, for routing and visibility conditions */
+  pages?: Page[];
   onUpdateNode: (nodeId: string, props: Record<string, unknown>) => void;
   onUpdatePage: (pageId: string, updates: Partial<Page>) => void;
   onDeleteNode: (nodeId: string) => void;
@@ -820,11 +826,22 @@ function getElementDisplayName(type: string): string {
 export function PropertyEditor({
   selectedNode,
   selectedPage,
+  pages,
   onUpdateNode,
   onUpdatePage,
   onDeleteNode,
   onMoveNode,
 }: PropertyEditorProps) {
+  const documentPages = useMemo(
+    () => pages ?? (selectedPage ? [selectedPage] : []),
+    [pages, selectedPage],
+  );
+  const answerFields = useMemo(() => collectAnswerFields(documentPages), [documentPages]);
+  const pageIssues = useMemo(
+    () => (selectedPage ? validateRouting(documentPages).filter((issue) => issue.pageId === selectedPage.id) : []),
+    [documentPages, selectedPage],
+  );
+
   // Page settings (no element selected)
   if (!selectedNode && selectedPage) {
     return (
@@ -857,6 +874,15 @@ export function PropertyEditor({
                 </SelectContent>
               </Select>
             </PropertyField>
+            <PropertySection title="Routing" icon={<GitBranch size={14} />}>
+              <PageRoutingControl
+                page={selectedPage}
+                pages={documentPages}
+                fields={answerFields}
+                issues={pageIssues}
+                onChange={(routing) => onUpdatePage(selectedPage.id, { routing })}
+              />
+            </PropertySection>
           </div>
         </ScrollArea>
       </div>
@@ -926,6 +952,16 @@ export function PropertyEditor({
       <ScrollArea className="flex-1">
         <div className="p-4">
           {getPropertyEditor(selectedNode, handleUpdate)}
+          {!isFrame && (
+            <PropertySection title="Visibility" icon={<Eye size={14} />} defaultOpen={false}>
+              <VisibilityControl
+                node={selectedNode}
+                fields={answerFields}
+                issues={pageIssues.filter((issue) => issue.nodeId === selectedNode.id)}
+                onChange={(visibility) => handleUpdate({ visibility })}
+              />
+            </PropertySection>
+          )}
         </div>
       </ScrollArea>
     </div>
@@ -0,0 +1,422 @@
+/**
+ * ConditionControl - Answer-based page routing and node visibility editors
+ *
+ * Conditions reference answers by fieldName; the choices come from every input
+ * in the document (collectAnswerFields). Option grid answers are compared by
+ * option, so their value is picked from the grid's options.
+ */
+
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type {
+  AnswerCondition,
+  CanvasNode,
+  ConditionMatch,
+  ConditionOperator,
+  NodeVisibility,
+  Page,
+  PageRoute,
+  PageRouting,
+} from '../../types';
+import {
+  OPERATOR_LABELS,
+  VALUELESS_OPERATORS,
+  getNodeVisibility,
+  getPageRouting,
+  type AnswerField,
+  type RoutingIssue,
+} from '../../runtime/pageRouting';
+
+/** Select values for the non-page fallback choices */
+const NEXT_PAGE = '__next';
+const END_FUNNEL = '__end';
+
+const TEXT_OPERATORS: ConditionOperator[] = ['equals', 'not_equals', 'contains', 'gt', 'gte', 'lt', 'lte', 'is_set', 'is_empty'];
+const CHOICE_OPERATORS: ConditionOperator[] = ['equals', 'not_equals', 'gt', 'gte', 'lt', 'lte', 'is_set', 'is_empty'];
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+}
+
+function createCondition(fields: AnswerField[]): AnswerCondition {
+  return { id: createId('cond'), field: fields[0]?.fieldName ?? '', operator: 'equals', value: '' };
+}
+
+// ============================================================================
+// CONDITION LIST
+// ============================================================================
+
+interface ConditionListControlProps {
+  conditions: AnswerCondition[];
+  match: ConditionMatch;
+  fields: AnswerField[];
+  onChange: (conditions: AnswerCondition[], match: ConditionMatch) => void;
+}
+
+function ConditionRow({
+  condition,
+  fields,
+  onChange,
+  onRemove,
+}: {
+  condition: AnswerCondition;
+  fields: AnswerField[];
+  onChange: (updates: Partial<AnswerCondition>) => void;
+  onRemove: () => void;
+}) {
+  const field = fields.find((f) => f.fieldName === condition.field);
+  const operators = field?.kind === 'choice' ? CHOICE_OPERATORS : TEXT_OPERATORS;
+  const needsValue = !VALUELESS_OPERATORS.includes(condition.operator);
+  // Numeric comparisons on a choice compare the option labels' numbers, so they take typed values
+  const picksOptionFor = (operator: ConditionOperator) =>
+    field?.kind === 'choice' && (operator === 'equals' || operator === 'not_equals');
+  const picksOption = picksOptionFor(condition.operator);
+
+  const handleOperatorChange = (operator: ConditionOperator) => {
+    // An option ID isn't a meaningful typed value, and vice versa
+    onChange(picksOptionFor(operator) === picksOption ? { operator } : { operator, value: '' });
+  };
+
+  return (
+    <div className="space-y-1.5 rounded-md border border-slate-200 p-2">
+      <div className="flex items-center gap-1.5">
+        <Select value={condition.field || undefined} onValueChange={(value) => onChange({ field: value, value: '' })}>
+          <SelectTrigger className="h-8 flex-1 text-xs">
+            <SelectValue placeholder="Choose an answer" />
+          </SelectTrigger>
+          <SelectContent>
+            {/* Keep a reference to a removed input visible so it can be fixed */}
+            {condition.field && !field && (
+              <SelectItem value={condition.field}>{condition.field} (missing)</SelectItem>
+            )}
+            {fields.map((f) => (
+              <SelectItem key={f.fieldName} value={f.fieldName}>
+                {f.fieldName} · {f.pageName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0 text-slate-400 hover:text-red-500"
+          onClick={onRemove}
+        >
+          <Trash2 size={14} />
+        </Button>
+      </div>
+      <div className="flex items-center gap-1.5">
+        <Select
+          value={condition.operator}
+          onValueChange={(value) => handleOperatorChange(value as ConditionOperator)}
+        >
+          <SelectTrigger className="h-8 w-28 shrink-0 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {operators.map((operator) => (
+              <SelectItem key={operator} value={operator}>
+                {OPERATOR_LABELS[operator]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {needsValue && (picksOption && field ? (
+          <Select value={condition.value || undefined} onValueChange={(value) => onChange({ value })}>
+            <SelectTrigger className="h-8 flex-1 text-xs">
+              <SelectValue placeholder="Option" />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            value={condition.value}
+            onChange={(e) => onChange({ value: e.target.value })}
+            className="h-8 flex-1 text-xs"
+            placeholder={['gt', 'gte', 'lt', 'lte'].includes(condition.operator) ? '5000 or 5k' : 'Value'}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function ConditionListControl({ conditions, match, fields, onChange }: ConditionListControlProps) {
+  const updateCondition = (index: number, updates: Partial<AnswerCondition>) => {
+    onChange(conditions.map((c, i) => (i === index ? { ...c, ...updates } : c)), match);
+  };
+
+  const removeCondition = (index: number) => {
+    onChange(conditions.filter((_, i) => i !== index), match);
+  };
+
+  if (fields.length === 0 && conditions.length === 0) {
+    return (
+      <p className="text-xs text-slate-500">
+        Add an input or multiple choice element to a page to build conditions.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {conditions.length > 1 && (
+        <div className="flex items-center gap-2 text-xs text-slate-600">
+          <span>Match</span>
+          <Select value={match} onValueChange={(value) => onChange(conditions, value as ConditionMatch)}>
+            <SelectTrigger className="h-7 w-20 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">all</SelectItem>
+              <SelectItem value="any">any</SelectItem>
+            </SelectContent>
+          </Select>
+          <span>of these</span>
+        </div>
+      )}
+      {conditions.map((condition, index) => (
+        <ConditionRow
+          key={condition.id}
+          condition={condition}
+          fields={fields}
+          onChange={(updates) => updateCondition(index, updates)}
+          onRemove={() => removeCondition(index)}
+        />
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="w-full"
+        onClick={() => onChange([...conditions, createCondition(fields)], match)}
+      >
+        <Plus size={14} className="mr-1" />
+        Add Condition
+      </Button>
+    </div>
+  );
+}
+
+// ============================================================================
+// ISSUES
+// ============================================================================
+
+export function RoutingIssueList({ issues }: { issues: RoutingIssue[] }) {
+  if (issues.length === 0) return null;
+
+  return (
+    <ul className="space-y-1">
+      {issues.map((issue, index) => (
+        <li
+          key={`${issue.code}-${issue.ruleId ?? issue.nodeId ?? ''}-${index}`}
+          className={cn(
+            'rounded px-2 py-1 text-xs',
+            issue.severity === 'error' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-700'
+          )}
+        >
+          {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// ============================================================================
+// PAGE ROUTING
+// ============================================================================
+
+interface PageRoutingControlProps {
+  page: Page;
+  pages: Page[];
+  fields: AnswerField[];
+  /** Validation issues for this page */
+  issues: RoutingIssue[];
+  onChange: (routing: PageRouting | undefined) => void;
+}
+
+export function PageRoutingControl({ page, pages, fields, issues, onChange }: PageRoutingControlProps) {
+  const routing = getPageRouting(page);
+  const pageIndex = pages.findIndex((p) => p.id === page.id);
+  const nextPage = pageIndex >= 0 ? pages[pageIndex + 1] : undefined;
+
+  // Plain linear routing is stored as no routing at all
+  const commit = (rules: PageRoute[], fallbackPageId: string | null | undefined) => {
+    onChange(rules.length === 0 && fallbackPageId === undefined ? undefined : { rules, fallbackPageId });
+  };
+
+  const updateRule = (index: number, updates: Partial<PageRoute>) => {
+    commit(routing.rules.map((r, i) => (i === index ? { ...r, ...updates } : r)), routing.fallbackPageId);
+  };
+
+  const addRule = () => {
+    const target = pages.find((p) => p.id !== page.id && p.id !== nextPage?.id) ?? nextPage ?? pages[0];
+    const rule: PageRoute = {
+      id: createId('route'),
+      match: 'all',
+      conditions: [createCondition(fields)],
+      targetPageId: target?.id ?? '',
+    };
+    commit([...routing.rules, rule], routing.fallbackPageId);
+  };
+
+  const fallbackValue =
+    routing.fallbackPageId === null ? END_FUNNEL : routing.fallbackPageId ?? NEXT_PAGE;
+
+  const handleFallbackChange = (value: string) => {
+    const fallbackPageId = value === NEXT_PAGE ? undefined : value === END_FUNNEL ? null : value;
+    commit(routing.rules, fallbackPageId);
+  };
+
+  const pageTargetItems = pages
+    .filter((p) => p.id !== page.id)
+    .map((p) => (
+      <SelectItem key={p.id} value={p.id}>
+        {pages.indexOf(p) + 1}. {p.name}
+      </SelectItem>
+    ));
+
+  return (
+    <div className="space-y-3">
+      {routing.rules.map((rule, index) => (
+        <div key={rule.id} className="space-y-2 rounded-lg border border-slate-200 bg-slate-50/60 p-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-slate-700">
+              {index === 0 ? 'If' : 'Else if'}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-slate-400 hover:text-red-500"
+              onClick={() => commit(routing.rules.filter((_, i) => i !== index), routing.fallbackPageId)}
+            >
+              <Trash2 size={14} />
+            </Button>
+          </div>
+          <ConditionListControl
+            conditions={rule.conditions}
+            match={rule.match}
+            fields={fields}
+            onChange={(conditions, match) => updateRule(index, { conditions, match })}
+          />
+          <div className="flex items-center gap-2">
+            <span className="shrink-0 text-xs text-slate-600">Go to</span>
+            <Select value={rule.targetPageId || undefined} onValueChange={(value) => updateRule(index, { targetPageId: value })}>
+              <SelectTrigger className="h-8 flex-1 text-xs">
+                <SelectValue placeholder="Choose a page" />
+              </SelectTrigger>
+              <SelectContent>
+                {rule.targetPageId && !pages.some((p) => p.id === rule.targetPageId) && (
+                  <SelectItem value={rule.targetPageId}>Deleted page</SelectItem>
+                )}
+                {pageTargetItems}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" className="w-full" onClick={addRule}>
+        <Plus size={14} className="mr-1" />
+        Add Rule
+      </Button>
+
+      <div className="flex items-center gap-2">
+        <span className="shrink-0 text-xs text-slate-600">
+          {routing.rules.length > 0 ? 'Otherwise' : 'Then'} go to
+        </span>
+        <Select value={fallbackValue} onValueChange={handleFallbackChange}>
+          <SelectTrigger className="h-8 flex-1 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NEXT_PAGE}>
+              {nextPage ? `Next page (${nextPage.name})` : 'Next page (none)'}
+            </SelectItem>
+            {typeof routing.fallbackPageId === 'string' && !pages.some((p) => p.id === routing.fallbackPageId) && (
+              <SelectItem value={routing.fallbackPageId}>Deleted page</SelectItem>
+            )}
+            {pageTargetItems}
+            <SelectItem value={END_FUNNEL}>End funnel</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <RoutingIssueList issues={issues.filter((issue) => !issue.nodeId)} />
+    </div>
+  );
+}
+
+// ============================================================================
+// NODE VISIBILITY
+// ============================================================================
+
+type VisibilityMode = 'always' | NodeVisibility['action'];
+
+interface VisibilityControlProps {
+  node: CanvasNode;
+  fields: AnswerField[];
+  /** Validation issues for this node */
+  issues?: RoutingIssue[];
+  onChange: (visibility: NodeVisibility | undefined) => void;
+}
+
+export function VisibilityControl({ node, fields, issues = [], onChange }: VisibilityControlProps) {
+  const visibility = getNodeVisibility(node);
+  const mode: VisibilityMode = visibility ? visibility.action : 'always';
+
+  const handleModeChange = (value: VisibilityMode) => {
+    if (value === 'always') {
+      onChange(undefined);
+      return;
+    }
+    onChange({
+      action: value,
+      match: visibility?.match ?? 'all',
+      conditions: visibility?.conditions.length ? visibility.conditions : [createCondition(fields)],
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Select value={mode} onValueChange={(value) => handleModeChange(value as VisibilityMode)}>
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="always">Always show</SelectItem>
+          <SelectItem value="show">Show only when</SelectItem>
+          <SelectItem value="hide">Hide when</SelectItem>
+        </SelectContent>
+      </Select>
+      {visibility && (
+        <ConditionListControl
+          conditions={visibility.conditions}
+          match={visibility.match}
+          fields={fields}
+          onChange={(conditions, match) =>
+            onChange(conditions.length === 0 ? undefined : { ...visibility, conditions, match })
+          }
+        />
+      )}
+      <RoutingIssueList issues={issues} />
+    </div>
+  );
+}
@@ -7,3 +7,4 @@ export { AlignmentControl } from './AlignmentControl';
 export { SpacingControl } from './SpacingControl';
 export { ShadowControl } from './ShadowControl';
 export { FontSizeControl, FontWeightControl, LineHeightControl } from './FontControl';
+export { ConditionListControl, PageRoutingControl, VisibilityControl, RoutingIssueList } from './ConditionControl';
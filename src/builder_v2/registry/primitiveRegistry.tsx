@@ -311,6 +311,7 @@ export const PrimitiveRegistry: Record<string, ComponentDefinition> = {
       <OptionGrid 
         options={props.options as Array<{ id: string; label: string; emoji?: string }>}
         autoAdvance={props.autoAdvance as boolean}
+        fieldName={props.fieldName as string}
       />
     ),
     inspectorSchema: [],
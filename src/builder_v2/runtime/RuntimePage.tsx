@@ -3,13 +3,16 @@
  *
  * This is the route handler for /runtime/:documentId
  * It handles:
- * - Loading the document from persistence
+ * - Loading the published snapshot from the server, falling back to the
+ *   local cache when the server can't be reached or doesn't have it
  * - Error states (not found, not published, invalid snapshot)
- * - Rendering the published snapshot via RuntimeRenderer
+ * - Rendering the published snapshot via RuntimeRenderer, which collects
+ *   answers and submits leads to snapshot.metadata.funnelId
  *
  * This component is fully decoupled from the editor and only imports:
  * - RuntimeRenderer (public renderer)
  * - Persistence functions (read-only)
+ * - The public snapshot endpoint (serverPersistence.fetchPublishedSnapshot)
  * - Type definitions
  */
 
@@ -17,7 +20,8 @@ import { useEffect, useState } from 'react';
 import { useParams } from 'react-router-dom';
 
 import { loadDocument } from '../state/multiDocPersistence';
-import type { EditorDocument, PublishedDocumentSnapshot } from '../state/documentTypes';
+import { fetchPublishedSnapshot } from '../state/serverPersistence';
+import type { PublishedDocumentSnapshot } from '../state/documentTypes';
 import {
   RuntimeRenderer,
   RuntimeNotFound,
@@ -94,6 +98,36 @@ function validateSnapshot(
   return { valid: true };
 }
 
+/**
+ * Resolves a document from the local cache (author's browser / offline).
+ */
+function resolveCachedDocument(documentId: string): RuntimePageState {
+  const document = loadDocument(documentId);
+
+  // Document not found
+  if (!document) {
+    return { status: 'not-found', documentId };
+  }
+
+  // Document exists but never published
+  if (!document.published) {
+    return { status: 'not-published', documentId };
+  }
+
+  // Validate the published snapshot
+  const validation = validateSnapshot(document.published);
+  if (!validation.valid) {
+    return {
+      status: 'invalid-snapshot',
+      documentId,
+      reason: (validation as { valid: false; reason: string }).reason,
+    };
+  }
+
+  // All good - ready to render
+  return { status: 'ready', snapshot: document.published };
+}
+
 // ============================================================================
 // RUNTIME PAGE COMPONENT
 // ============================================================================
@@ -101,7 +135,7 @@ function validateSnapshot(
 /**
  * RuntimePage - Route handler for /runtime/:documentId
  *
- * Loads a document from persistence and renders its published snapshot.
+ * Loads a document's published snapshot and renders it.
  * Handles all error states gracefully.
  */
 export function RuntimePage() {
@@ -109,6 +143,8 @@ export function RuntimePage() {
   const [state, setState] = useState<RuntimePageState>({ status: 'loading' });
 
   useEffect(() => {
+    let cancelled = false;
+
     // Reset to loading state when document ID changes
     setState({ status: 'loading' });
 
@@ -118,34 +154,32 @@ export function RuntimePage() {
       return;
     }
 
-    // Load document from persistence
-    const document = loadDocument(documentId);
+    fetchPublishedSnapshot(documentId).then((result) => {
+      if (cancelled) return;
 
-    // Document not found
-    if (!document) {
-      setState({ status: 'not-found', documentId });
-      return;
-    }
+      if (result.status === 'ready') {
+        setState({ status: 'ready', snapshot: result.snapshot });
+        return;
+      }
 
-    // Document exists but never published
-    if (!document.published) {
-      setState({ status: 'not-published', documentId });
-      return;
-    }
+      if (result.status === 'not-published') {
+        setState({ status: 'not-published', documentId });
+        return;
+      }
 
-    // Validate the published snapshot
-    const validation = validateSnapshot(document.published);
-    if (!validation.valid) {
-      setState({
-        status: 'invalid-snapshot',
-        documentId,
-        reason: (validation as { valid: false; reason: string }).reason,
-      });
-      return;
-    }
+      if (result.status === 'invalid-snapshot') {
+        setState({ status: 'invalid-snapshot', documentId, reason: 'Published snapshot failed validation' });
+        return;
+      }
+
+      // Not on the server (local-only document) or server unreachable:
+      // fall back to this browser's cache
+      setState(resolveCachedDocument(documentId));
+    });
 
-    // All good - ready to render
-    setState({ status: 'ready', snapshot: document.published });
+    return () => {
+      cancelled = true;
+    };
   }, [documentId]);
 
   // Render based on current state
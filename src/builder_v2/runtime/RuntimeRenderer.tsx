@@ -8,6 +8,9 @@
  * - Match preview output exactly
  * - Have no interactive editor affordances (selection, hover, drag)
  *
+ * Visitor interaction (inputs, options, consent, CTAs) is live: the renderer
+ * runs a runtime session and exposes it to primitives via RuntimeFormContext.
+ *
  * Allowed imports:
  * - Component registry (pure component definitions)
  * - Canvas render utilities (pure rendering functions)
@@ -28,6 +31,9 @@ import { resolveFunnelLayout } from '../layout/funnelLayout';
 import { RuntimeLayout } from './RuntimeLayout';
 import { StepBoundary } from './StepBoundary';
 import { StepStack } from './StepStack';
+import { withFieldNames } from './runtimeForm';
+import { RuntimeFormContext } from './runtimeFormContext';
+import { useRuntimeSession } from './useRuntimeSession';
 import './runtime.css';
 
 // ============================================================================
@@ -45,8 +51,19 @@ export type RuntimeError =
 export interface RuntimeRendererProps {
   /** The published snapshot to render */
   snapshot: PublishedDocumentSnapshot;
-  /** Optional: specific page ID to render (defaults to activePageId in snapshot) */
+  /** Optional: specific page ID to start on (defaults to activePageId in snapshot) */
   pageId?: string;
+  /**
+   * Optional: funnel that receives submitted leads.
+   * Defaults to snapshot.metadata.funnelId (stamped on publish); without
+   * either, answers are validated but submitting shows an error.
+   */
+  funnelId?: string | null;
+}
+
+function getSnapshotFunnelId(snapshot: PublishedDocumentSnapshot): string | null {
+  const funnelId = snapshot.metadata?.funnelId;
+  return typeof funnelId === 'string' && funnelId.length > 0 ? funnelId : null;
 }
 
 /**
@@ -67,22 +84,22 @@ function EmptySnapshotState() {
 /**
  * Public Runtime Renderer
  *
- * Renders a published document snapshot in read-only mode.
+ * Renders a published document snapshot for visitors.
  * This is the public-facing output that matches preview exactly.
  *
  * Features:
- * - Renders active page from snapshot
+ * - Starts on the active page from snapshot
  * - Falls back to first page if active page not found
- * - No editor affordances or interactivity
+ * - Collects answers across pages, validates them and submits leads
+ * - No editor affordances
  * - Clean, minimal DOM structure
  */
-export function RuntimeRenderer({ snapshot, pageId }: RuntimeRendererProps) {
-  // Determine which page to render
-  const targetPageId = pageId ?? snapshot.activePageId;
-  const activePage = snapshot.pages.find((page) => page.id === targetPageId);
-
-  // Fallback to first page if target page not found
-  const pageToRender = activePage ?? snapshot.pages[0];
+export function RuntimeRenderer({ snapshot, pageId, funnelId }: RuntimeRendererProps) {
+  const { page: pageToRender, submitError, form } = useRuntimeSession({
+    snapshot,
+    initialPageId: pageId,
+    funnelId: funnelId ?? getSnapshotFunnelId(snapshot),
+  });
 
   // No pages available - show empty state
   if (!pageToRender?.canvasRoot) {
@@ -92,13 +109,18 @@ export function RuntimeRenderer({ snapshot, pageId }: RuntimeRendererProps) {
   const layout = resolveFunnelLayout(pageToRender);
 
   return (
-    <RuntimeLayout mode="runtime" layout={layout}>
-      <StepStack layout={layout} mode="runtime">
-        <StepBoundary motionMode="runtime" stepId={pageToRender.id}>
-          {renderTree(pageToRender.canvasRoot, { readonly: true })}
-        </StepBoundary>
-      </StepStack>
-    </RuntimeLayout>
+    <RuntimeFormContext.Provider value={form}>
+      <RuntimeLayout mode="runtime" layout={layout}>
+        <StepStack layout={layout} mode="runtime">
+          <StepBoundary motionMode="runtime" stepId={pageToRender.id}>
+            {renderTree(withFieldNames(pageToRender.canvasRoot), { readonly: true })}
+            {submitError && (
+              <p className="runtime-submit-error" role="alert">{submitError}</p>
+            )}
+          </StepBoundary>
+        </StepStack>
+      </RuntimeLayout>
+    </RuntimeFormContext.Provider>
   );
 }
 
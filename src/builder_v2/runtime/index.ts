@@ -13,3 +13,16 @@ export { RuntimeLayout } from './RuntimeLayout';
 export { StepBoundary } from './StepBoundary';
 export { RuntimePage } from './RuntimePage';
 export type { RuntimeRendererProps, RuntimeError } from './RuntimeRenderer';
+export { useRuntimeSession } from './useRuntimeSession';
+export type { RuntimeSession, RuntimeSessionOptions } from './useRuntimeSession';
+export { RuntimeFormContext, useRuntimeForm } from './runtimeFormContext';
+export type { RuntimeAction, RuntimeFormContextValue } from './runtimeFormContext';
+export {
+  buildPageFlow,
+  collectAnswerFields,
+  evaluateConditions,
+  resolveNextPageId,
+  validateRouting,
+  withVisibleNodes,
+} from './pageRouting';
+export type { AnswerField, FlowPage, PageExit, RoutingIssue } from './pageRouting';
@@ -0,0 +1,114 @@
+/**
+ * Runtime Lead Submission
+ *
+ * Posts runtime answers to the submit-funnel-lead edge function, the same
+ * endpoint the legacy FunnelRenderer uses:
+ * - draft: progressive save, never triggers workflows
+ * - submit: the real opt-in; triggers automations and requires consent
+ *
+ * submit-funnel-lead attaches leads to a funnel, so submissions need the ID
+ * of the funnel the document publishes for (snapshot.metadata.funnelId).
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+import type { RuntimeAnswers } from './runtimeForm';
+
+export type SubmitMode = 'draft' | 'submit';
+
+export interface LeadSubmission {
+  funnelId: string;
+  leadId: string | null;
+  answers: RuntimeAnswers;
+  submitMode: SubmitMode;
+  pageId: string;
+  stepType: string | null;
+  utm: { source: string | null; medium: string | null; campaign: string | null };
+}
+
+export type LeadSubmissionResult =
+  | { status: 'saved'; leadId: string | null }
+  | { status: 'consent-required' }
+  | { status: 'error'; message: string };
+
+/**
+ * UTM parameters from the current URL.
+ */
+export function readUtmParams(search: string): LeadSubmission['utm'] {
+  const params = new URLSearchParams(search);
+  return {
+    source: params.get('utm_source'),
+    medium: params.get('utm_medium'),
+    campaign: params.get('utm_campaign'),
+  };
+}
+
+/**
+ * Stable request ID per funnel page for submits, so a retried submit is
+ * deduplicated server-side. Drafts get a fresh ID each time.
+ */
+function getClientRequestId(submission: LeadSubmission): string {
+  if (submission.submitMode !== 'submit') {
+    return crypto.randomUUID();
+  }
+
+  const key = `submitReq:${submission.funnelId}:${submission.pageId}`;
+  try {
+    const existing = sessionStorage.getItem(key);
+    if (existing) return existing;
+    const created = crypto.randomUUID();
+    sessionStorage.setItem(key, created);
+    return created;
+  } catch {
+    return crypto.randomUUID();
+  }
+}
+
+/**
+ * Error code from a non-2xx function response body, if any.
+ */
+async function readErrorCode(error: unknown): Promise<string | null> {
+  const response = (error as { context?: unknown }).context;
+  if (!(response instanceof Response)) return null;
+  try {
+    const body = await response.clone().json();
+    return typeof body?.code === 'string' ? body.code : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function submitLead(submission: LeadSubmission): Promise<LeadSubmissionResult> {
+  try {
+    const { data, error } = await supabase.functions.invoke('submit-funnel-lead', {
+      body: {
+        funnel_id: submission.funnelId,
+        lead_id: submission.leadId,
+        answers: submission.answers,
+        utm_source: submission.utm.source,
+        utm_medium: submission.utm.medium,
+        utm_campaign: submission.utm.campaign,
+        submitMode: submission.submitMode,
+        clientRequestId: getClientRequestId(submission),
+        step_id: submission.pageId,
+        step_type: submission.stepType,
+        step_intent: submission.submitMode === 'submit' ? 'capture' : 'collect',
+      },
+    });
+
+    if (data?.code === 'CONSENT_REQUIRED' || (error && (await readErrorCode(error)) === 'CONSENT_REQUIRED')) {
+      return { status: 'consent-required' };
+    }
+
+    if (error) {
+      console.error('[Runtime] Failed to save lead:', error);
+      return { status: 'error', message: error.message ?? 'Could not save your answers' };
+    }
+
+    const leadId = data?.lead_id ?? data?.lead?.id ?? null;
+    return { status: 'saved', leadId };
+  } catch (error) {
+    console.error('[Runtime] Error saving lead:', error);
+    return { status: 'error', message: 'Could not save your answers' };
+  }
+}
@@ -0,0 +1,518 @@
+/**
+ * Page Routing & Conditional Visibility
+ *
+ * Pure helpers for answer-based logic in builder_v2 documents:
+ * - Conditions: compare a collected answer with an authored value
+ * - Routing: pick the page after a completed page (rules → fallback → next page)
+ * - Visibility: drop nodes whose show/hide conditions say so
+ * - Validation: dead ends, broken targets, unknown fields, unreachable pages
+ * - Flow: the page graph the editor draws next to the pages list
+ *
+ * The runtime and the editor both use these, so a route shown in the flow map
+ * is exactly the route a visitor takes.
+ */
+
+import type {
+  AnswerCondition,
+  CanvasNode,
+  ConditionMatch,
+  ConditionOperator,
+  NodeVisibility,
+  Page,
+  PageRoute,
+  PageRouting,
+} from '../types';
+import { collectPageFields, resolveProps, type RuntimeAnswers, type RuntimeFieldKind } from './runtimeForm';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** An answer that conditions can reference */
+export interface AnswerField {
+  fieldName: string;
+  kind: Exclude<RuntimeFieldKind, 'consent'>;
+  /** First page that collects it */
+  pageId: string;
+  pageName: string;
+  /** Choices for option grids */
+  options: Array<{ id: string; label: string }>;
+}
+
+/** Option labels per choice field: fieldName → option ID → label */
+export type ChoiceLabels = Record<string, Record<string, string>>;
+
+export type PageExitKind = 'rule' | 'fallback' | 'next' | 'end';
+
+/** One way out of a page */
+export interface PageExit {
+  kind: PageExitKind;
+  /** Null for 'end' */
+  targetPageId: string | null;
+  rule?: PageRoute;
+}
+
+export type RoutingIssueCode =
+  | 'dead-end'
+  | 'missing-target'
+  | 'empty-rule'
+  | 'unknown-field'
+  | 'unreachable'
+  | 'no-way-out';
+
+export interface RoutingIssue {
+  code: RoutingIssueCode;
+  severity: 'error' | 'warning';
+  pageId: string;
+  /** Set when the issue belongs to a routing rule */
+  ruleId?: string;
+  /** Set when the issue belongs to a node's visibility conditions */
+  nodeId?: string;
+  message: string;
+}
+
+export interface FlowPage {
+  page: Page;
+  index: number;
+  isEntry: boolean;
+  exits: PageExit[];
+  issues: RoutingIssue[];
+}
+
+export const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  contains: 'contains',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  is_set: 'is answered',
+  is_empty: 'is not answered',
+};
+
+/** Operators that don't compare against an authored value */
+export const VALUELESS_OPERATORS: ConditionOperator[] = ['is_set', 'is_empty'];
+
+// ============================================================================
+// ANSWER FIELDS
+// ============================================================================
+
+/**
+ * Answers collected anywhere in the document, in page order. A field name
+ * used on several pages is listed once, on the first page that collects it.
+ */
+export function collectAnswerFields(pages: Page[]): AnswerField[] {
+  const fields: AnswerField[] = [];
+  const seen = new Set<string>();
+
+  for (const page of pages) {
+    for (const field of collectPageFields(page)) {
+      if (field.kind === 'consent' || seen.has(field.fieldName)) continue;
+      seen.add(field.fieldName);
+
+      const node = findNode(page.canvasRoot, field.nodeId);
+      const rawOptions = node && field.kind === 'choice' ? resolveProps(node).options : undefined;
+      const options = Array.isArray(rawOptions)
+        ? rawOptions
+            .filter((option): option is { id: string; label?: unknown } => typeof option?.id === 'string')
+            .map((option) => ({ id: option.id, label: typeof option.label === 'string' ? option.label : option.id }))
+        : [];
+
+      fields.push({ fieldName: field.fieldName, kind: field.kind, pageId: page.id, pageName: page.name, options });
+    }
+  }
+
+  return fields;
+}
+
+export function getChoiceLabels(fields: AnswerField[]): ChoiceLabels {
+  const labels: ChoiceLabels = {};
+  for (const field of fields) {
+    if (field.options.length > 0) {
+      labels[field.fieldName] = Object.fromEntries(field.options.map((option) => [option.id, option.label]));
+    }
+  }
+  return labels;
+}
+
+function findNode(node: CanvasNode, nodeId: string): CanvasNode | null {
+  if (node.id === nodeId) return node;
+  for (const child of node.children) {
+    const found = findNode(child, nodeId);
+    if (found) return found;
+  }
+  return null;
+}
+
+// ============================================================================
+// CONDITIONS
+// ============================================================================
+
+/**
+ * First number in an answer, with k/m suffixes and thousands separators
+ * understood ("$5,000" → 5000, "Under 5k" → 5000, "1.5m" → 1500000).
+ */
+export function parseAnswerNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const match = value
+    .replace(/(\d),(?=\d{3})/g, '$1')
+    .match(/((?<![\w-])-)?(\d+(?:\.\d+)?)\s*(?:([km])(?![a-z]))?/i);
+  if (!match) return null;
+
+  // A hyphen inside a word ("opt-3") isn't a minus sign
+  const sign = match[1] ? -1 : 1;
+  const multiplier = match[3] ? (match[3].toLowerCase() === 'k' ? 1000 : 1000000) : 1;
+  return sign * Number(match[2]) * multiplier;
+}
+
+function isEmptyAnswer(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length === 0;
+  return value === undefined || value === null || (typeof value === 'string' && value.trim().length === 0);
+}
+
+/**
+ * The authored value as text. Stored documents are validated on load; this
+ * keeps a number or a missing value from throwing anywhere else.
+ */
+function conditionValue(condition: AnswerCondition): string {
+  return typeof condition.value === 'string' ? condition.value : String(condition.value ?? '');
+}
+
+/**
+ * Text forms of one answer value, option label first for choices.
+ */
+function answerTexts(value: unknown, labels: Record<string, string> | undefined): string[] {
+  const raw = String(value).trim();
+  const label = labels?.[raw];
+  return label !== undefined ? [label.trim(), raw] : [raw];
+}
+
+function compareNumbers(operator: ConditionOperator, answer: number, expected: number): boolean {
+  switch (operator) {
+    case 'gt':
+      return answer > expected;
+    case 'gte':
+      return answer >= expected;
+    case 'lt':
+      return answer < expected;
+    case 'lte':
+      return answer <= expected;
+    default:
+      return false;
+  }
+}
+
+export function evaluateCondition(
+  condition: AnswerCondition,
+  answers: RuntimeAnswers,
+  choiceLabels: ChoiceLabels = {},
+): boolean {
+  const answer = answers[condition.field];
+
+  if (condition.operator === 'is_set') return !isEmptyAnswer(answer);
+  if (condition.operator === 'is_empty') return isEmptyAnswer(answer);
+  if (isEmptyAnswer(answer)) {
+    // An unanswered field never equals or exceeds anything
+    return condition.operator === 'not_equals';
+  }
+
+  const expected = conditionValue(condition).trim().toLowerCase();
+  const values = (Array.isArray(answer) ? answer : [answer]).map((value) =>
+    answerTexts(value, choiceLabels[condition.field]).map((text) => text.toLowerCase()),
+  );
+
+  switch (condition.operator) {
+    case 'equals':
+      return values.some((texts) => texts.includes(expected));
+    case 'not_equals':
+      return !values.some((texts) => texts.includes(expected));
+    case 'contains':
+      return values.some((texts) => texts.some((text) => text.includes(expected)));
+    default: {
+      const expectedNumber = parseAnswerNumber(conditionValue(condition));
+      if (expectedNumber === null) return false;
+      return values.some((texts) => {
+        const answerNumber = texts.map(parseAnswerNumber).find((number) => number !== null);
+        return answerNumber != null && compareNumbers(condition.operator, answerNumber, expectedNumber);
+      });
+    }
+  }
+}
+
+/**
+ * Whether a condition group holds. An empty group never matches.
+ */
+export function evaluateConditions(
+  conditions: AnswerCondition[],
+  match: ConditionMatch,
+  answers: RuntimeAnswers,
+  choiceLabels: ChoiceLabels = {},
+): boolean {
+  if (conditions.length === 0) return false;
+  const test = (condition: AnswerCondition) => evaluateCondition(condition, answers, choiceLabels);
+  return match === 'any' ? conditions.some(test) : conditions.every(test);
+}
+
+/**
+ * Short readable form, e.g. "budget < 5k" or "goal is Grow revenue".
+ */
+export function describeCondition(condition: AnswerCondition, choiceLabels: ChoiceLabels = {}): string {
+  const operator = OPERATOR_LABELS[condition.operator];
+  if (VALUELESS_OPERATORS.includes(condition.operator)) {
+    return `${condition.field} ${operator}`;
+  }
+  const value = choiceLabels[condition.field]?.[conditionValue(condition)] ?? conditionValue(condition);
+  return `${condition.field} ${operator} ${value || '…'}`;
+}
+
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+/**
+ * A page's routing with missing parts filled in.
+ */
+export function getPageRouting(page: Page): PageRouting {
+  return {
+    rules: Array.isArray(page.routing?.rules) ? page.routing.rules : [],
+    fallbackPageId: page.routing?.fallbackPageId,
+  };
+}
+
+/**
+ * Every way out of a page: its rules in order, then what happens when no
+ * rule matches.
+ */
+export function getPageExits(pages: Page[], page: Page): PageExit[] {
+  const routing = getPageRouting(page);
+  const exits: PageExit[] = routing.rules.map((rule) => ({ kind: 'rule', targetPageId: rule.targetPageId, rule }));
+
+  if (routing.fallbackPageId === null) {
+    exits.push({ kind: 'end', targetPageId: null });
+  } else if (typeof routing.fallbackPageId === 'string') {
+    exits.push({ kind: 'fallback', targetPageId: routing.fallbackPageId });
+  } else {
+    const index = pages.findIndex((p) => p.id === page.id);
+    const nextPage = index >= 0 ? pages[index + 1] : undefined;
+    exits.push(nextPage ? { kind: 'next', targetPageId: nextPage.id } : { kind: 'end', targetPageId: null });
+  }
+
+  return exits;
+}
+
+/**
+ * The page a visitor goes to after completing `pageId`, or null when the
+ * funnel ends there. Rules pointing at deleted pages are skipped.
+ */
+export function resolveNextPageId(
+  pages: Page[],
+  pageId: string,
+  answers: RuntimeAnswers,
+  choiceLabels: ChoiceLabels = getChoiceLabels(collectAnswerFields(pages)),
+): string | null {
+  const page = pages.find((p) => p.id === pageId);
+  if (!page) return null;
+
+  const pageIds = new Set(pages.map((p) => p.id));
+  for (const exit of getPageExits(pages, page)) {
+    if (exit.kind === 'end') return null;
+    if (!exit.targetPageId || !pageIds.has(exit.targetPageId)) continue;
+    if (exit.kind !== 'rule') return exit.targetPageId;
+    if (exit.rule && evaluateConditions(exit.rule.conditions, exit.rule.match, answers, choiceLabels)) {
+      return exit.targetPageId;
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// VISIBILITY
+// ============================================================================
+
+/**
+ * A node's visibility conditions, or null when it's always shown.
+ */
+export function getNodeVisibility(node: CanvasNode): NodeVisibility | null {
+  const visibility = node.props.visibility as Partial<NodeVisibility> | undefined;
+  if (!visibility || !Array.isArray(visibility.conditions) || visibility.conditions.length === 0) {
+    return null;
+  }
+  return {
+    action: visibility.action === 'hide' ? 'hide' : 'show',
+    match: visibility.match === 'any' ? 'any' : 'all',
+    conditions: visibility.conditions,
+  };
+}
+
+export function isNodeVisible(node: CanvasNode, answers: RuntimeAnswers, choiceLabels: ChoiceLabels = {}): boolean {
+  const visibility = getNodeVisibility(node);
+  if (!visibility) return true;
+  const matches = evaluateConditions(visibility.conditions, visibility.match, answers, choiceLabels);
+  return visibility.action === 'show' ? matches : !matches;
+}
+
+/**
+ * Copies a tree without the nodes the current answers hide. The root itself
+ * is always kept.
+ */
+export function withVisibleNodes(root: CanvasNode, answers: RuntimeAnswers, choiceLabels: ChoiceLabels = {}): CanvasNode {
+  const visit = (node: CanvasNode): CanvasNode => ({
+    ...node,
+    children: node.children.filter((child) => isNodeVisible(child, answers, choiceLabels)).map(visit),
+  });
+  return visit(root);
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function reachableFrom(startIds: string[], edges: Map<string, string[]>): Set<string> {
+  const reached = new Set<string>(startIds);
+  const queue = [...startIds];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    for (const next of edges.get(id) ?? []) {
+      if (!reached.has(next)) {
+        reached.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return reached;
+}
+
+function validateConditions(
+  conditions: AnswerCondition[],
+  knownFields: Set<string>,
+  issue: Omit<RoutingIssue, 'code' | 'severity' | 'message'>,
+): RoutingIssue[] {
+  return conditions
+    .filter((condition) => !knownFields.has(condition.field))
+    .map((condition) => ({
+      ...issue,
+      code: 'unknown-field' as const,
+      severity: 'error' as const,
+      message: condition.field
+        ? `"${condition.field}" isn't collected by any page.`
+        : 'A condition has no answer selected.',
+    }));
+}
+
+/**
+ * Problems with a document's routing and visibility conditions. The first
+ * page is treated as the entry point.
+ */
+export function validateRouting(pages: Page[]): RoutingIssue[] {
+  const issues: RoutingIssue[] = [];
+  const pageIds = new Set(pages.map((page) => page.id));
+  const knownFields = new Set(collectAnswerFields(pages).map((field) => field.fieldName));
+  const forward = new Map<string, string[]>();
+  const backward = new Map<string, string[]>();
+  const endingPageIds: string[] = [];
+
+  for (const page of pages) {
+    const exits = getPageExits(pages, page);
+    const hasRules = exits.some((exit) => exit.kind === 'rule');
+
+    for (const exit of exits) {
+      if (exit.kind === 'end') {
+        endingPageIds.push(page.id);
+        if (page.type !== 'thank_you') {
+          issues.push({
+            code: 'dead-end',
+            severity: hasRules ? 'error' : 'warning',
+            pageId: page.id,
+            message: hasRules
+              ? "Visitors who match no rule have nowhere to go. Add an 'otherwise' page."
+              : "The funnel ends here, but this isn't a thank-you page.",
+          });
+        }
+        continue;
+      }
+
+      if (!exit.targetPageId || !pageIds.has(exit.targetPageId)) {
+        issues.push({
+          code: 'missing-target',
+          severity: 'error',
+          pageId: page.id,
+          ruleId: exit.rule?.id,
+          message: exit.rule ? 'A rule points to a page that no longer exists.' : "The 'otherwise' page no longer exists.",
+        });
+        continue;
+      }
+
+      if (exit.rule) {
+        if (exit.rule.conditions.length === 0) {
+          issues.push({
+            code: 'empty-rule',
+            severity: 'warning',
+            pageId: page.id,
+            ruleId: exit.rule.id,
+            message: 'A rule has no conditions and will never match.',
+          });
+          continue;
+        }
+        issues.push(...validateConditions(exit.rule.conditions, knownFields, { pageId: page.id, ruleId: exit.rule.id }));
+      }
+
+      forward.set(page.id, [...(forward.get(page.id) ?? []), exit.targetPageId]);
+      backward.set(exit.targetPageId, [...(backward.get(exit.targetPageId) ?? []), page.id]);
+    }
+
+    const visitNode = (node: CanvasNode) => {
+      const visibility = getNodeVisibility(node);
+      if (visibility) {
+        issues.push(...validateConditions(visibility.conditions, knownFields, { pageId: page.id, nodeId: node.id }));
+      }
+      node.children.forEach(visitNode);
+    };
+    visitNode(page.canvasRoot);
+  }
+
+  if (pages.length === 0) return issues;
+
+  const reachable = reachableFrom([pages[0].id], forward);
+  const canFinish = reachableFrom(endingPageIds, backward);
+
+  for (const page of pages) {
+    if (!reachable.has(page.id)) {
+      issues.push({
+        code: 'unreachable',
+        severity: 'warning',
+        pageId: page.id,
+        message: 'No route leads to this page.',
+      });
+    } else if (!canFinish.has(page.id)) {
+      issues.push({
+        code: 'no-way-out',
+        severity: 'error',
+        pageId: page.id,
+        message: 'Visitors who reach this page loop forever and can never finish.',
+      });
+    }
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// FLOW
+// ============================================================================
+
+/**
+ * Pages with their exits and issues, in document order.
+ */
+export function buildPageFlow(pages: Page[]): FlowPage[] {
+  const issues = validateRouting(pages);
+  return pages.map((page, index) => ({
+    page,
+    index,
+    isEntry: index === 0,
+    exits: getPageExits(pages, page),
+    issues: issues.filter((issue) => issue.pageId === page.id),
+  }));
+}
@@ -0,0 +1,250 @@
+/**
+ * Runtime Form Logic
+ *
+ * Pure helpers behind the interactive runtime: which inputs a page collects,
+ * how they're validated, whether the page needs consent, and how answers are
+ * shaped for submit-funnel-lead.
+ *
+ * Validation reuses the legacy step rules (src/lib/funnel/stepDefinitions.ts)
+ * and consent reuses the legacy consent rules
+ * (src/components/funnel-public/consent.ts), so a builder_v2 page behaves
+ * like the equivalent FunnelRenderer step.
+ *
+ * Answers are keyed by each input's fieldName ("email", "phone", "name", ...),
+ * which is what submit-funnel-lead reads contact details from.
+ */
+
+import {
+  getConsentMode,
+  resolvePrivacyPolicyUrl,
+  shouldShowConsentCheckbox,
+  type ConsentMode,
+  type ConsentStep,
+} from '@/components/funnel-public/consent';
+import { getStepDefinition } from '@/lib/funnel/stepDefinitions';
+
+import { ComponentRegistry } from '../registry/componentRegistry';
+import type { CanvasNode, Page } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RuntimeFieldKind = 'text' | 'email' | 'phone' | 'choice' | 'consent';
+
+export interface RuntimeField {
+  nodeId: string;
+  kind: RuntimeFieldKind;
+  /** Answer key */
+  fieldName: string;
+  required: boolean;
+}
+
+export interface PageConsent {
+  /** Legacy step type the page is treated as ('opt_in', 'email_capture', ...) */
+  stepType: string | null;
+  termsUrl: string;
+  consentMode: ConsentMode;
+  /** Consent must be given before this page can submit */
+  requireConsent: boolean;
+}
+
+export type RuntimeAnswers = Record<string, unknown>;
+
+// ============================================================================
+// FIELDS
+// ============================================================================
+
+const FIELD_KINDS: Record<string, RuntimeFieldKind> = {
+  text_input: 'text',
+  email_input: 'email',
+  phone_input: 'phone',
+  option_grid: 'choice',
+  consent_checkbox: 'consent',
+};
+
+/** Legacy step type whose validator applies to each field kind */
+const FIELD_STEP_TYPES: Record<Exclude<RuntimeFieldKind, 'consent'>, string> = {
+  text: 'text_question',
+  email: 'email_capture',
+  phone: 'phone_capture',
+  choice: 'multi_choice',
+};
+
+const FIELD_ERRORS: Record<RuntimeFieldKind, string> = {
+  text: 'This field is required.',
+  email: 'Enter a valid email address.',
+  phone: 'Enter a valid phone number.',
+  choice: 'Choose an option to continue.',
+  consent: 'You must accept the privacy policy to continue.',
+};
+
+/**
+ * A node's props as rendered (registry defaults + stored props).
+ */
+export function resolveProps(node: CanvasNode): Record<string, unknown> {
+  return { ...ComponentRegistry[node.type]?.defaultProps, ...node.props };
+}
+
+/**
+ * Answer key for an input node. Option grids have no field name by default,
+ * so they fall back to their node ID.
+ */
+export function getFieldName(node: CanvasNode): string {
+  const fieldName = resolveProps(node).fieldName;
+  if (typeof fieldName === 'string' && fieldName.trim().length > 0) {
+    return fieldName.trim();
+  }
+  return node.id;
+}
+
+/**
+ * Copies a tree with every input's answer key written to props.fieldName,
+ * so rendered primitives use the same keys as collectPageFields.
+ */
+export function withFieldNames(node: CanvasNode): CanvasNode {
+  const children = node.children.map(withFieldNames);
+  const props = FIELD_KINDS[node.type] ? { ...node.props, fieldName: getFieldName(node) } : node.props;
+  return { ...node, props, children };
+}
+
+function isFieldRequired(node: CanvasNode, kind: RuntimeFieldKind): boolean {
+  // Text inputs are optional unless marked; everything else is required unless unmarked
+  const { required } = resolveProps(node);
+  return kind === 'text' ? required === true : required !== false;
+}
+
+/**
+ * Inputs on a page, in document order.
+ */
+export function collectPageFields(page: Page): RuntimeField[] {
+  const fields: RuntimeField[] = [];
+  const visit = (node: CanvasNode) => {
+    const kind = FIELD_KINDS[node.type];
+    if (kind) {
+      fields.push({ nodeId: node.id, kind, fieldName: getFieldName(node), required: isFieldRequired(node, kind) });
+    }
+    node.children.forEach(visit);
+  };
+  visit(page.canvasRoot);
+  return fields;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim().length === 0);
+}
+
+/**
+ * Returns an error message, or null when the value is acceptable.
+ */
+export function validateField(field: RuntimeField, value: unknown, consentGiven: boolean): string | null {
+  if (field.kind === 'consent') {
+    return field.required && !consentGiven ? FIELD_ERRORS.consent : null;
+  }
+
+  if (isEmpty(value)) {
+    return field.required ? FIELD_ERRORS[field.kind] : null;
+  }
+
+  const validator = getStepDefinition(FIELD_STEP_TYPES[field.kind])?.validation.inputValidator;
+  const normalized = typeof value === 'string' ? value.trim() : value;
+  return validator && !validator(normalized) ? FIELD_ERRORS[field.kind] : null;
+}
+
+/**
+ * Validates every field on a page. Returns errors keyed by fieldName.
+ */
+export function validatePage(page: Page, answers: RuntimeAnswers, consentGiven: boolean): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const field of collectPageFields(page)) {
+    const error = validateField(field, answers[field.fieldName], consentGiven);
+    if (error && !errors[field.fieldName]) {
+      errors[field.fieldName] = error;
+    }
+  }
+  return errors;
+}
+
+// ============================================================================
+// CONSENT
+// ============================================================================
+
+/**
+ * The legacy step type a page's inputs correspond to, for consent rules and
+ * the step_type sent with submissions.
+ */
+export function getPageStepType(page: Page): string | null {
+  const fields = collectPageFields(page);
+  const has = (kind: RuntimeFieldKind) => fields.some((field) => field.kind === kind);
+  const hasName = fields.some((field) => field.kind === 'text' && field.fieldName === 'name');
+
+  if (has('email') && has('phone')) return hasName ? 'opt_in' : 'contact_capture';
+  if (has('email')) return 'email_capture';
+  if (has('phone')) return 'phone_capture';
+  if (has('choice')) return 'multi_choice';
+  if (has('text')) return 'text_question';
+  return null;
+}
+
+function findConsentNode(node: CanvasNode): CanvasNode | null {
+  if (node.type === 'consent_checkbox') return node;
+  for (const child of node.children) {
+    const found = findConsentNode(child);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Consent requirements for a page, resolved with the same rules the legacy
+ * funnel runtime applies to a step. The page's consent checkbox supplies the
+ * privacy link and the "required" setting.
+ */
+export function resolvePageConsent(page: Page): PageConsent {
+  const stepType = getPageStepType(page);
+  const checkboxNode = findConsentNode(page.canvasRoot);
+  const checkbox = checkboxNode ? resolveProps(checkboxNode) : null;
+  const step: ConsentStep = {
+    step_type: stepType ?? undefined,
+    content: {
+      privacy_link: checkbox?.linkUrl,
+      show_consent_checkbox: checkbox != null,
+      requires_consent: checkbox != null && checkbox.required !== false,
+    },
+  };
+
+  const termsUrl = resolvePrivacyPolicyUrl(step, undefined, undefined);
+
+  return {
+    stepType,
+    termsUrl,
+    consentMode: getConsentMode(step, termsUrl),
+    requireConsent: shouldShowConsentCheckbox(step, termsUrl),
+  };
+}
+
+/**
+ * Adds the consent record submit-funnel-lead expects (answers.legal).
+ */
+export function withConsent(answers: RuntimeAnswers, consent: PageConsent, pageId: string): RuntimeAnswers {
+  const existingLegal = (answers.legal as Record<string, unknown> | undefined) ?? {};
+  return {
+    ...answers,
+    opt_in: true,
+    legal: {
+      ...existingLegal,
+      accepted: true,
+      accepted_at: new Date().toISOString(),
+      privacy_policy_url: consent.termsUrl,
+      consent_mode: consent.consentMode,
+      step_id: pageId,
+    },
+  };
+}
+
+/**
+ * Whether a page collected anything worth a draft save.
+ */
+export function hasPageAnswers(page: Page, answers: RuntimeAnswers): boolean {
+  return collectPageFields(page).some((field) => field.kind !== 'consent' && !isEmpty(answers[field.fieldName]));
+}
@@ -0,0 +1,35 @@
+/**
+ * Runtime Form Context
+ *
+ * Provided only by the interactive runtime. Input primitives read it to
+ * become live, controlled fields; without it (editor canvas, preview) they
+ * render as static placeholders, exactly as before.
+ */
+
+import { createContext, useContext } from 'react';
+
+import type { RuntimeAnswers } from './runtimeForm';
+
+export type RuntimeAction = 'next' | 'submit' | 'link';
+
+export interface RuntimeFormContextValue {
+  answers: RuntimeAnswers;
+  /** Validation errors for the current page, keyed by fieldName */
+  errors: Record<string, string>;
+  consentGiven: boolean;
+  isSubmitting: boolean;
+  setAnswer: (fieldName: string, value: unknown) => void;
+  setConsent: (checked: boolean) => void;
+  /** Stores the choice, and continues when the grid auto-advances */
+  selectOption: (fieldName: string, optionId: string, autoAdvance: boolean) => void;
+  runAction: (action: RuntimeAction) => void;
+}
+
+export const RuntimeFormContext = createContext<RuntimeFormContextValue | null>(null);
+
+/**
+ * Live form state, or null outside the interactive runtime.
+ */
+export function useRuntimeForm(): RuntimeFormContextValue | null {
+  return useContext(RuntimeFormContext);
+}
@@ -0,0 +1,243 @@
+/**
+ * Runtime Session
+ *
+ * Holds a visitor's RuntimeState (current page, answers, consent) while they
+ * move through a published document, and turns CTA clicks into navigation,
+ * validation and lead saves:
+ * - next: validate the page, draft-save any answers, go to the next page
+ * - submit: validate, enforce consent, submit the lead, go to the next page
+ * - link: no runtime behavior (handled by the button's own markup)
+ *
+ * The next page comes from the page's routing rules (see pageRouting.ts), and
+ * nodes hidden by their visibility conditions are neither rendered nor
+ * validated. Answers persist across pages for the whole session.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import type { PublishedDocumentSnapshot } from '../state/documentTypes';
+import type { Page, RuntimeState } from '../types';
+import {
+  getPageStepType,
+  hasPageAnswers,
+  resolvePageConsent,
+  validatePage,
+  withConsent,
+  type RuntimeAnswers,
+} from './runtimeForm';
+import type { RuntimeAction, RuntimeFormContextValue } from './runtimeFormContext';
+import { readUtmParams, submitLead, type SubmitMode } from './leadSubmission';
+import { collectAnswerFields, getChoiceLabels, resolveNextPageId, withVisibleNodes } from './pageRouting';
+
+export interface RuntimeSessionOptions {
+  snapshot: PublishedDocumentSnapshot;
+  /** Page to start on (defaults to the snapshot's active page) */
+  initialPageId?: string;
+  /** Funnel that receives leads; without one, drafts are skipped and submits fail */
+  funnelId?: string | null;
+}
+
+export interface RuntimeSession {
+  /** Current page, without the nodes its conditions hide */
+  page: Page | null;
+  state: RuntimeState;
+  /** Submission failure for the current page */
+  submitError: string | null;
+  form: RuntimeFormContextValue;
+}
+
+function resolveStartPageId(snapshot: PublishedDocumentSnapshot, initialPageId?: string): string {
+  const preferred = initialPageId ?? snapshot.activePageId;
+  return snapshot.pages.some((page) => page.id === preferred) ? preferred : snapshot.pages[0]?.id ?? '';
+}
+
+export function useRuntimeSession({ snapshot, initialPageId, funnelId }: RuntimeSessionOptions): RuntimeSession {
+  const [state, setState] = useState<RuntimeState>(() => ({
+    currentPageId: resolveStartPageId(snapshot, initialPageId),
+    answers: {},
+    consentGiven: false,
+  }));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const leadIdRef = useRef<string | null>(null);
+  const inFlightRef = useRef(false);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // Restart when a different snapshot or start page is served
+  useEffect(() => {
+    setState({ currentPageId: resolveStartPageId(snapshot, initialPageId), answers: {}, consentGiven: false });
+    setErrors({});
+    setSubmitError(null);
+    leadIdRef.current = null;
+  }, [snapshot, initialPageId]);
+
+  const choiceLabels = useMemo(() => getChoiceLabels(collectAnswerFields(snapshot.pages)), [snapshot.pages]);
+
+  const withVisibleContent = useCallback(
+    (currentPage: Page, answers: RuntimeAnswers): Page => ({
+      ...currentPage,
+      canvasRoot: withVisibleNodes(currentPage.canvasRoot, answers, choiceLabels),
+    }),
+    [choiceLabels],
+  );
+
+  const page = useMemo(() => {
+    const currentPage = snapshot.pages.find((p) => p.id === state.currentPageId);
+    return currentPage ? withVisibleContent(currentPage, state.answers) : null;
+  }, [snapshot.pages, state.currentPageId, state.answers, withVisibleContent]);
+
+  const goToNextPage = useCallback(
+    (pageId: string, answers: RuntimeAnswers) => {
+      const nextPageId = resolveNextPageId(snapshot.pages, pageId, answers, choiceLabels);
+      if (!nextPageId) return;
+      // Consent is given per page, like the legacy runtime
+      setState((current) => ({ ...current, currentPageId: nextPageId, consentGiven: false }));
+      setErrors({});
+      setSubmitError(null);
+    },
+    [snapshot.pages, choiceLabels],
+  );
+
+  const saveAnswers = useCallback(
+    async (currentPage: Page, answers: RuntimeAnswers, submitMode: SubmitMode) => {
+      if (!funnelId) {
+        // Drafts are best-effort, but a submit must never look successful
+        if (submitMode === 'submit') {
+          console.error('[Runtime] No funnel is linked to this document; answers were not submitted');
+          return { status: 'error' as const, message: 'This form is not connected to a funnel.' };
+        }
+        return { status: 'saved' as const, leadId: null };
+      }
+
+      const result = await submitLead({
+        funnelId,
+        leadId: leadIdRef.current,
+        answers,
+        submitMode,
+        pageId: currentPage.id,
+        stepType: getPageStepType(currentPage),
+        utm: readUtmParams(window.location.search),
+      });
+
+      if (result.status === 'saved' && result.leadId) {
+        leadIdRef.current = result.leadId;
+      }
+      return result;
+    },
+    [funnelId],
+  );
+
+  const advance = useCallback(
+    async (action: RuntimeAction, answers: RuntimeAnswers) => {
+      const { currentPageId, consentGiven } = stateRef.current;
+      const storedPage = snapshot.pages.find((p) => p.id === currentPageId);
+      if (!storedPage || action === 'link' || inFlightRef.current) return;
+
+      // Hidden fields aren't validated, required or submitted as this page's step
+      const currentPage = withVisibleContent(storedPage, answers);
+
+      const pageErrors = validatePage(currentPage, answers, consentGiven);
+      const consent = resolvePageConsent(currentPage);
+
+      if (action === 'submit') {
+        // Opt-in pages can't collect consent without a privacy policy link
+        if (consent.stepType === 'opt_in' && !consent.termsUrl) {
+          setSubmitError('This form is missing a privacy policy link.');
+          return;
+        }
+        if (consent.requireConsent && !consentGiven) {
+          pageErrors.consent = 'You must accept the privacy policy to continue.';
+        }
+      }
+
+      setErrors(pageErrors);
+      if (Object.keys(pageErrors).length > 0) return;
+
+      inFlightRef.current = true;
+      setIsSubmitting(true);
+      setSubmitError(null);
+
+      try {
+        if (action === 'submit') {
+          const submitAnswers = consent.requireConsent ? withConsent(answers, consent, currentPage.id) : answers;
+          setState((current) => ({ ...current, answers: submitAnswers }));
+
+          const result = await saveAnswers(currentPage, submitAnswers, 'submit');
+          if (result.status === 'consent-required') {
+            setErrors({ consent: 'You must accept the privacy policy to continue.' });
+            return;
+          }
+          if (result.status === 'error') {
+            setSubmitError(funnelId ? 'Something went wrong. Please try again.' : result.message);
+            return;
+          }
+        } else if (hasPageAnswers(currentPage, answers)) {
+          // Draft saves never block navigation
+          await saveAnswers(currentPage, answers, 'draft');
+        }
+
+        goToNextPage(currentPage.id, answers);
+      } finally {
+        inFlightRef.current = false;
+        setIsSubmitting(false);
+      }
+    },
+    [snapshot.pages, funnelId, withVisibleContent, saveAnswers, goToNextPage],
+  );
+
+  const setAnswer = useCallback((fieldName: string, value: unknown) => {
+    setState((current) => ({ ...current, answers: { ...current.answers, [fieldName]: value } }));
+    setErrors((current) => {
+      if (!current[fieldName]) return current;
+      const { [fieldName]: _cleared, ...rest } = current;
+      return rest;
+    });
+  }, []);
+
+  const setConsent = useCallback((checked: boolean) => {
+    setState((current) => ({ ...current, consentGiven: checked }));
+    if (checked) {
+      setErrors((current) => {
+        const { consent: _cleared, ...rest } = current;
+        return rest;
+      });
+    }
+  }, []);
+
+  const selectOption = useCallback(
+    (fieldName: string, optionId: string, autoAdvance: boolean) => {
+      setAnswer(fieldName, optionId);
+      if (autoAdvance) {
+        // State hasn't updated yet; advance with the new answer directly
+        void advance('next', { ...stateRef.current.answers, [fieldName]: optionId });
+      }
+    },
+    [setAnswer, advance],
+  );
+
+  const runAction = useCallback(
+    (action: RuntimeAction) => {
+      void advance(action, stateRef.current.answers);
+    },
+    [advance],
+  );
+
+  const form = useMemo<RuntimeFormContextValue>(
+    () => ({
+      answers: state.answers,
+      errors,
+      consentGiven: state.consentGiven,
+      isSubmitting,
+      setAnswer,
+      setConsent,
+      selectOption,
+      runAction,
+    }),
+    [state.answers, state.consentGiven, errors, isSubmitting, setAnswer, setConsent, selectOption, runAction],
+  );
+
+  return { page, state, submitError, form };
+}
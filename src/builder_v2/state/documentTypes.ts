@@ -20,7 +20,7 @@
  * - Draft state remains unchanged by publish operations
  */
 
-import type { Page } from '../types';
+import type { AnswerCondition, NodeVisibility, Page } from '../types';
 
 /**
  * Current document structure version.
@@ -28,6 +28,12 @@ import type { Page } from '../types';
  */
 export const DOCUMENT_VERSION = 1;
 
+/**
+ * Current document index structure version.
+ * Indexes saved before this field existed are treated as version 1.
+ */
+export const INDEX_VERSION = 1;
+
 // ============================================================================
 // PUBLISHED SNAPSHOT (Phase 14)
 // ============================================================================
@@ -57,6 +63,41 @@ export interface PublishedDocumentSnapshot {
   metadata?: Record<string, unknown> | null;
 }
 
+// ============================================================================
+// RELEASE HISTORY
+// ============================================================================
+
+/**
+ * One entry in a document's publish history.
+ *
+ * Every publish (and every rollback) appends a release; releases are never
+ * edited or removed. The live version is whichever release's snapshot is
+ * currently in EditorDocument.published.
+ */
+export interface DocumentRelease {
+  /** Unique identifier for this release */
+  id: string;
+  /** 1-based, in publish order */
+  number: number;
+  /** Author's note, e.g. "New headline" */
+  note: string;
+  authorId: string | null;
+  authorName: string | null;
+  /** Same as snapshot.publishedAt (epoch ms) */
+  publishedAt: number;
+  /** Release number this one restored, when created by a rollback */
+  rolledBackFrom?: number | null;
+  snapshot: PublishedDocumentSnapshot;
+}
+
+/**
+ * Who is publishing; stored on the release.
+ */
+export interface ReleaseAuthor {
+  id?: string | null;
+  name?: string | null;
+}
+
 // ============================================================================
 // EDITOR DOCUMENT
 // ============================================================================
@@ -89,6 +130,16 @@ export interface EditorDocument {
    * - Preview mode renders this, not the draft state
    */
   published?: PublishedDocumentSnapshot | null;
+  /**
+   * Publish history, oldest first (append-only).
+   * Documents published before history existed have none until their next publish.
+   */
+  releases?: DocumentRelease[];
+  /**
+   * Funnel that receives the published runtime's leads. Stamped into
+   * snapshot.metadata.funnelId on every publish.
+   */
+  funnelId?: string | null;
 }
 
 /**
@@ -102,6 +153,8 @@ export interface EditorDocument {
  * Storage key: builder_v2:index
  */
 export interface EditorDocumentIndex {
+  /** Structure version for migration support (missing on older indexes) */
+  version?: number;
   /** Currently active document ID */
   activeDocumentId: string;
   /** Map of document ID to document metadata (not full content) */
@@ -128,8 +181,10 @@ export type DocumentAction =
   | { type: 'DUPLICATE_DOCUMENT'; sourceDocumentId: string; newDocument: EditorDocument }
   | { type: 'SET_ACTIVE_DOCUMENT'; documentId: string }
   | { type: 'RENAME_DOCUMENT'; documentId: string; newName: string }
-  | { type: 'PUBLISH_DOCUMENT' }
-  | { type: 'UNPUBLISH_DOCUMENT' };
+  | { type: 'PUBLISH_DOCUMENT'; note?: string; author?: ReleaseAuthor; funnelId?: string | null }
+  | { type: 'LINK_FUNNEL'; funnelId: string | null }
+  | { type: 'UNPUBLISH_DOCUMENT' }
+  | { type: 'ROLLBACK_TO_RELEASE'; releaseId: string; author?: ReleaseAuthor };
 
 /**
  * Generates a unique document ID.
@@ -205,8 +260,40 @@ export function cloneDocumentWithNewIds(
       type: page.type,
       layoutIntent: page.layoutIntent,
       canvasRoot: cloneNode(page.canvasRoot),
+      routing: page.routing,
     };
   });
+
+  // Point routing and visibility conditions at the cloned pages, and at
+  // cloned option grids whose answers are keyed by node ID
+  const remapId = (id: string) => idMap.get(id) ?? id;
+  const remapConditions = (conditions: AnswerCondition[]) =>
+    conditions.map((condition) => ({ ...condition, field: remapId(condition.field) }));
+
+  function remapVisibility(node: import('../types').CanvasNode) {
+    const visibility = node.props.visibility as NodeVisibility | undefined;
+    if (visibility && Array.isArray(visibility.conditions)) {
+      node.props.visibility = { ...visibility, conditions: remapConditions(visibility.conditions) };
+    }
+    node.children.forEach(remapVisibility);
+  }
+
+  for (const page of clonedPages) {
+    remapVisibility(page.canvasRoot);
+    if (page.routing) {
+      page.routing = {
+        rules: page.routing.rules.map((rule) => ({
+          ...rule,
+          targetPageId: remapId(rule.targetPageId),
+          conditions: remapConditions(rule.conditions),
+        })),
+        fallbackPageId:
+          typeof page.routing.fallbackPageId === 'string'
+            ? remapId(page.routing.fallbackPageId)
+            : page.routing.fallbackPageId,
+      };
+    }
+  }
   
   // Resolve new active page ID
   const newActivePageId = idMap.get(source.activePageId) ?? clonedPages[0]?.id;
@@ -226,6 +313,7 @@ export function cloneDocumentWithNewIds(
  */
 export function createInitialDocumentIndex(defaultDocument: EditorDocument): EditorDocumentIndex {
   return {
+    version: INDEX_VERSION,
     activeDocumentId: defaultDocument.id,
     documents: {
       [defaultDocument.id]: {
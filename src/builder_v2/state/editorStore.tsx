@@ -18,7 +18,7 @@ import type { CanvasNode, EditorState, Page } from '../types';
 import {
   createDebouncedSave,
   extractDocument,
-  loadFromStorage,
+  loadEditorDocument,
   shouldPersistAfterAction,
   type EditorDocument,
 } from './persistence';
@@ -1155,7 +1155,16 @@ export function EditorProvider({ children, initialDocument }: EditorProviderProp
     }
     hasHydratedRef.current = true;
 
-    const storedDocument = loadFromStorage();
+    const stored = loadEditorDocument();
+    const storedDocument = stored.status === 'ok' ? stored.value : null;
+    
+    if (stored.status === 'migration-failed') {
+      // Starting fresh; the original stays recoverable from its backup
+      console.error(
+        `[Persistence] Stored document could not be upgraded: ${stored.error.message}`,
+        stored.error.backupKey ? `Backup: ${stored.error.backupKey}` : 'No backup could be written',
+      );
+    }
     
     if (storedDocument) {
       console.debug('[Persistence] Hydrating editor from stored document');
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadStoredPayload, migratePayload, type Migration, type MigrationRegistry } from './migrations';
+
+const addTitle: Migration = (payload) => ({ ...payload, title: payload.name ?? 'Untitled' });
+
+const registry = (steps: Partial<Record<'editor-document' | 'snapshot', Migration>> = {}): MigrationRegistry => ({
+  migrations: {
+    'editor-document': steps['editor-document'] ? { 1: steps['editor-document'] } : {},
+    document: { 1: (payload) => payload },
+    snapshot: steps.snapshot ? { 1: steps.snapshot } : {},
+    index: {},
+  },
+  currentVersion: () => 2,
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+describe('migratePayload', () => {
+  it('runs each step up to the current version without touching the input', () => {
+    const raw = { version: 1, name: 'Landing' };
+    const result = migratePayload('editor-document', raw, 'doc', registry({ 'editor-document': addTitle }));
+
+    expect(result).toEqual({ ok: true, payload: { version: 2, name: 'Landing', title: 'Landing' }, fromVersion: 1, migrated: true });
+    expect(raw).toEqual({ version: 1, name: 'Landing' });
+  });
+
+  it('leaves current payloads and payloads without a version alone', () => {
+    const steps = registry({ 'editor-document': addTitle });
+    expect(migratePayload('editor-document', { version: 2 }, 'doc', steps)).toEqual({
+      ok: true,
+      payload: { version: 2 },
+      fromVersion: 2,
+      migrated: false,
+    });
+    expect(migratePayload('editor-document', { name: 'x' }, 'doc', steps)).toMatchObject({ ok: true, migrated: false });
+    expect(migratePayload('editor-document', 'nope', 'doc', steps)).toMatchObject({ ok: true, payload: 'nope' });
+  });
+
+  it('reports the step that threw', () => {
+    const result = migratePayload(
+      'editor-document',
+      { version: 1 },
+      'doc',
+      registry({
+        'editor-document': () => {
+          throw new Error('pages missing');
+        },
+      }),
+    );
+
+    expect(result).toEqual({
+      ok: false,
+      error: {
+        target: 'editor-document',
+        source: 'doc',
+        fromVersion: 1,
+        toVersion: 2,
+        step: 'migrate_v1_to_v2',
+        message: 'pages missing',
+        backupKey: null,
+      },
+    });
+  });
+
+  it('fails when a version has no step registered', () => {
+    const result = migratePayload('editor-document', { version: 1 }, 'doc', registry());
+    expect(result).toMatchObject({
+      ok: false,
+      error: { step: 'migrate_v1_to_v2', message: 'No editor-document migration registered from v1' },
+    });
+  });
+
+  it('refuses payloads from a newer version', () => {
+    const result = migratePayload('editor-document', { version: 3 }, 'doc', registry({ 'editor-document': addTitle }));
+    expect(result).toMatchObject({
+      ok: false,
+      error: {
+        fromVersion: 3,
+        toVersion: 2,
+        step: null,
+        message: 'Saved by a newer builder (v3); this version reads up to v2',
+      },
+    });
+  });
+
+  it('migrates a document’s published snapshot and release snapshots', () => {
+    const result = migratePayload(
+      'document',
+      {
+        version: 1,
+        published: { version: 1, name: 'Live' },
+        releases: [{ id: 'r1', snapshot: { version: 1, name: 'First' } }, { id: 'r2', snapshot: null }],
+      },
+      'doc',
+      registry({ snapshot: addTitle }),
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      fromVersion: 1,
+      migrated: true,
+      payload: {
+        version: 2,
+        published: { version: 2, name: 'Live', title: 'Live' },
+        releases: [{ id: 'r1', snapshot: { version: 2, name: 'First', title: 'First' } }, { id: 'r2', snapshot: null }],
+      },
+    });
+  });
+
+  it('fails the document when a release snapshot can’t be migrated', () => {
+    const result = migratePayload(
+      'document',
+      { version: 2, releases: [{ id: 'r1', snapshot: { version: 1 } }] },
+      'doc',
+      registry(),
+    );
+    expect(result).toMatchObject({
+      ok: false,
+      error: { target: 'snapshot', source: 'doc#release:r1', step: 'migrate_v1_to_v2' },
+    });
+  });
+});
+
+describe('loadStoredPayload', () => {
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    storage = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => void storage.set(key, value),
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('backs up the old payload and saves the migrated one', () => {
+    const raw = JSON.stringify({ version: 1, name: 'Landing' });
+    storage.set('doc', raw);
+
+    const result = loadStoredPayload('editor-document', 'doc', isObject, registry({ 'editor-document': addTitle }));
+
+    expect(result).toEqual({ status: 'ok', value: { version: 2, name: 'Landing', title: 'Landing' } });
+    expect(storage.get('builder_v2:backup:doc@v1')).toBe(raw);
+    expect(JSON.parse(storage.get('doc')!)).toEqual({ version: 2, name: 'Landing', title: 'Landing' });
+  });
+
+  it('keeps the stored payload and points at the backup when a step throws', () => {
+    const raw = JSON.stringify({ version: 1 });
+    storage.set('doc', raw);
+
+    const result = loadStoredPayload(
+      'editor-document',
+      'doc',
+      isObject,
+      registry({
+        'editor-document': () => {
+          throw new Error('pages missing');
+        },
+      }),
+    );
+
+    expect(result).toMatchObject({
+      status: 'migration-failed',
+      error: { step: 'migrate_v1_to_v2', message: 'pages missing', backupKey: 'builder_v2:backup:doc@v1' },
+    });
+    expect(storage.get('doc')).toBe(raw);
+    expect(storage.get('builder_v2:backup:doc@v1')).toBe(raw);
+  });
+});
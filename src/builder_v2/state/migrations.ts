@@ -0,0 +1,367 @@
+/**
+ * Document Schema Migrations
+ *
+ * Every stored builder_v2 payload carries a `version`. When a payload is
+ * behind the current version, it's upgraded on load by a chain of pure
+ * migrate_vN_to_vN+1 functions, one step at a time:
+ * - editor-document: single-document editor state (persistence.ts)
+ * - document: multi-document EditorDocument (documentTypes.ts); its
+ *   published snapshot is migrated with the snapshot chain
+ * - snapshot: PublishedDocumentSnapshot, including ones served to /runtime
+ * - index: EditorDocumentIndex (unversioned indexes are v1)
+ *
+ * Adding a migration:
+ * 1. Bump the target's version constant (EDITOR_DOC_VERSION, DOCUMENT_VERSION
+ *    or INDEX_VERSION).
+ * 2. Write `function migrate_v1_to_v2(payload) { ... }` - pure, no storage,
+ *    returns a new object, throws when the payload can't be upgraded.
+ * 3. Register it below under the version it upgrades from: `1: migrate_v1_to_v2`.
+ *
+ * Invariants:
+ * - The pre-migration payload is backed up before a migrated one is saved
+ * - A failed migration never overwrites or discards the stored payload
+ * - Payloads from a newer version than this build are reported, not loaded
+ */
+
+import { DOCUMENT_VERSION, INDEX_VERSION } from './documentTypes';
+import { EDITOR_DOC_VERSION } from './persistence';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MigrationTarget = 'editor-document' | 'document' | 'snapshot' | 'index';
+
+type StoredPayload = Record<string, unknown>;
+export type Migration = (payload: StoredPayload) => StoredPayload;
+
+/**
+ * The migration steps per target, keyed by the version each upgrades from,
+ * and the version each target is currently at. Tests pass their own.
+ */
+export interface MigrationRegistry {
+  migrations: Record<MigrationTarget, Record<number, Migration>>;
+  currentVersion: (target: MigrationTarget) => number;
+}
+
+/**
+ * A migration that couldn't complete. The stored payload is untouched and a
+ * copy is kept under backupKey, so the document can be recovered once the
+ * migration is fixed (see restoreMigrationBackup).
+ */
+export interface MigrationFailure {
+  target: MigrationTarget;
+  /** Storage key or document ID the payload came from */
+  source: string;
+  fromVersion: number;
+  toVersion: number;
+  /** The step that failed, e.g. "migrate_v1_to_v2"; null when no step could run */
+  step: string | null;
+  message: string;
+  backupKey: string | null;
+}
+
+export type MigrationResult =
+  | { ok: true; payload: unknown; fromVersion: number | null; migrated: boolean }
+  | { ok: false; error: MigrationFailure };
+
+/**
+ * Outcome of reading a stored payload.
+ * - invalid: unreadable or fails structural validation
+ */
+export type StoredLoadResult<T> =
+  | { status: 'ok'; value: T }
+  | { status: 'missing' }
+  | { status: 'invalid' }
+  | { status: 'migration-failed'; error: MigrationFailure };
+
+// ============================================================================
+// MIGRATION REGISTRY
+// ============================================================================
+
+/**
+ * Migration chains, keyed by the version each step upgrades from.
+ * Every version below the current one needs an entry.
+ */
+const MIGRATIONS: Record<MigrationTarget, Record<number, Migration>> = {
+  'editor-document': {},
+  document: {},
+  snapshot: {},
+  index: {},
+};
+
+/**
+ * Current version per target. Read at call time: persistence.ts imports this
+ * module, so its constant isn't available while this one initializes.
+ */
+function getCurrentVersion(target: MigrationTarget): number {
+  switch (target) {
+    case 'editor-document':
+      return EDITOR_DOC_VERSION;
+    case 'index':
+      return INDEX_VERSION;
+    case 'document':
+    case 'snapshot':
+      return DOCUMENT_VERSION;
+  }
+}
+
+const DEFAULT_REGISTRY: MigrationRegistry = {
+  migrations: MIGRATIONS,
+  currentVersion: getCurrentVersion,
+};
+
+function readVersion(target: MigrationTarget, payload: StoredPayload): number | null {
+  if (target === 'index' && payload.version === undefined) {
+    return 1;
+  }
+  return typeof payload.version === 'number' && Number.isInteger(payload.version) ? payload.version : null;
+}
+
+function deepClone<T>(value: T): T {
+  if (typeof structuredClone === 'function') {
+    return structuredClone(value);
+  }
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+// ============================================================================
+// MIGRATION RUNNER
+// ============================================================================
+
+/**
+ * Brings a parsed payload to the current version.
+ *
+ * Payloads that aren't objects or have no usable version are returned
+ * unchanged for the caller's validation to reject. Pure function - no side
+ * effects; backups are handled by loadStoredPayload.
+ */
+export function migratePayload(
+  target: MigrationTarget,
+  raw: unknown,
+  source: string,
+  registry: MigrationRegistry = DEFAULT_REGISTRY,
+): MigrationResult {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { ok: true, payload: raw, fromVersion: null, migrated: false };
+  }
+
+  const toVersion = registry.currentVersion(target);
+  const fromVersion = readVersion(target, raw as StoredPayload);
+
+  if (fromVersion === null) {
+    return { ok: true, payload: raw, fromVersion: null, migrated: false };
+  }
+
+  const fail = (step: string | null, message: string): MigrationResult => ({
+    ok: false,
+    error: { target, source, fromVersion, toVersion, step, message, backupKey: null },
+  });
+
+  if (fromVersion > toVersion) {
+    return fail(null, `Saved by a newer builder (v${fromVersion}); this version reads up to v${toVersion}`);
+  }
+
+  let payload = raw as StoredPayload;
+
+  for (let version = fromVersion; version < toVersion; version++) {
+    const stepName = `migrate_v${version}_to_v${version + 1}`;
+    const migrate = registry.migrations[target][version];
+
+    if (!migrate) {
+      return fail(stepName, `No ${target} migration registered from v${version}`);
+    }
+
+    try {
+      payload = { ...migrate(deepClone(payload)), version: version + 1 };
+    } catch (error) {
+      return fail(stepName, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  let migrated = fromVersion !== toVersion;
+
+  // Documents carry their published snapshot and release history, whose
+  // snapshots have their own chain
+  if (target === 'document') {
+    if (payload.published != null) {
+      const snapshot = migratePayload('snapshot', payload.published, `${source}#published`, registry);
+      if (snapshot.ok === false) {
+        return snapshot;
+      }
+      if (snapshot.migrated) {
+        payload = { ...payload, published: snapshot.payload };
+        migrated = true;
+      }
+    }
+
+    if (Array.isArray(payload.releases)) {
+      const releases: unknown[] = [];
+      let releasesMigrated = false;
+      for (const release of payload.releases) {
+        if (typeof release !== 'object' || release === null || (release as StoredPayload).snapshot == null) {
+          releases.push(release);
+          continue;
+        }
+        const entry = release as StoredPayload;
+        const snapshot = migratePayload('snapshot', entry.snapshot, `${source}#release:${String(entry.id)}`, registry);
+        if (snapshot.ok === false) {
+          return snapshot;
+        }
+        releasesMigrated = releasesMigrated || snapshot.migrated;
+        releases.push(snapshot.migrated ? { ...entry, snapshot: snapshot.payload } : entry);
+      }
+      if (releasesMigrated) {
+        payload = { ...payload, releases };
+        migrated = true;
+      }
+    }
+  }
+
+  return { ok: true, payload, fromVersion, migrated };
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+const BACKUP_KEY_PREFIX = 'builder_v2:backup:';
+
+function getBackupKey(storageKey: string, version: number): string {
+  return `${BACKUP_KEY_PREFIX}${storageKey}@v${version}`;
+}
+
+/**
+ * Copies the raw payload to its backup key. Returns null when storage refuses.
+ */
+function backupPayload(storageKey: string, version: number, raw: string): string | null {
+  const backupKey = getBackupKey(storageKey, version);
+  try {
+    localStorage.setItem(backupKey, raw);
+    return backupKey;
+  } catch (error) {
+    console.error(`[Migrations] Could not back up ${storageKey}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Reads a stored payload, migrating it when it's behind the current version.
+ *
+ * Whenever a migration runs, the raw payload is first copied to a backup
+ * key. A successful migration is validated and written back in place; a
+ * failed one leaves storage as it was and returns the failure.
+ */
+export function loadStoredPayload<T>(
+  target: MigrationTarget,
+  storageKey: string,
+  isValid: (value: unknown) => value is T,
+  registry: MigrationRegistry = DEFAULT_REGISTRY,
+): StoredLoadResult<T> {
+  const raw = localStorage.getItem(storageKey);
+
+  if (!raw) {
+    return { status: 'missing' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    console.warn(`[Migrations] ${storageKey} is not valid JSON:`, error);
+    return { status: 'invalid' };
+  }
+
+  const result = migratePayload(target, parsed, storageKey, registry);
+
+  if (result.ok === false) {
+    const error = { ...result.error, backupKey: backupPayload(storageKey, result.error.fromVersion, raw) };
+    console.error(`[Migrations] ${storageKey}: ${error.step ?? 'migration'} failed - ${error.message}`);
+    return { status: 'migration-failed', error };
+  }
+
+  if (!result.migrated) {
+    return isValid(result.payload) ? { status: 'ok', value: result.payload } : { status: 'invalid' };
+  }
+
+  const fromVersion = result.fromVersion ?? 0;
+  const backupKey = backupPayload(storageKey, fromVersion, raw);
+  const failure = (message: string): StoredLoadResult<T> => ({
+    status: 'migration-failed',
+    error: {
+      target,
+      source: storageKey,
+      fromVersion,
+      toVersion: registry.currentVersion(target),
+      step: null,
+      message,
+      backupKey,
+    },
+  });
+
+  if (!isValid(result.payload)) {
+    console.error(`[Migrations] ${storageKey} failed validation after migrating from v${fromVersion}`);
+    return failure('Migrated payload failed validation');
+  }
+
+  // Without a backup, don't rewrite the only copy; the next load migrates again
+  if (backupKey) {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(result.payload));
+      console.debug(`[Migrations] ${storageKey} migrated from v${fromVersion}`);
+    } catch (error) {
+      console.error(`[Migrations] Could not save migrated ${storageKey}:`, error);
+    }
+  }
+
+  return { status: 'ok', value: result.payload };
+}
+
+/**
+ * Lists pre-migration backups, newest version first per source.
+ */
+export function listMigrationBackups(): Array<{ backupKey: string; storageKey: string; version: number }> {
+  const backups: Array<{ backupKey: string; storageKey: string; version: number }> = [];
+
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      const match = key?.startsWith(BACKUP_KEY_PREFIX) ? /^(.*)@v(\d+)$/.exec(key.slice(BACKUP_KEY_PREFIX.length)) : null;
+      if (match) {
+        backups.push({ backupKey: key!, storageKey: match[1], version: Number(match[2]) });
+      }
+    }
+  } catch (error) {
+    console.error('[Migrations] Failed to list backups:', error);
+  }
+
+  return backups.sort((a, b) => a.storageKey.localeCompare(b.storageKey) || b.version - a.version);
+}
+
+/**
+ * Puts a backed-up payload back under its original key. It is migrated
+ * again on the next load.
+ */
+export function restoreMigrationBackup(backupKey: string): boolean {
+  const match = backupKey.startsWith(BACKUP_KEY_PREFIX)
+    ? /^(.*)@v\d+$/.exec(backupKey.slice(BACKUP_KEY_PREFIX.length))
+    : null;
+
+  if (!match) {
+    console.warn(`[Migrations] ${backupKey} is not a migration backup`);
+    return false;
+  }
+
+  try {
+    const raw = localStorage.getItem(backupKey);
+    if (!raw) {
+      return false;
+    }
+    localStorage.setItem(match[1], raw);
+    console.debug(`[Migrations] Restored ${match[1]} from ${backupKey}`);
+    return true;
+  } catch (error) {
+    console.error(`[Migrations] Failed to restore ${backupKey}:`, error);
+    return false;
+  }
+}
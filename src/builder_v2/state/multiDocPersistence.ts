@@ -13,6 +13,8 @@
  * - Index stores only metadata, not full document content
  * - Documents are loaded on-demand when switching
  * - Invalid documents are ignored (not loaded)
+ * - Older versions are migrated on load (migrations.ts); documents whose
+ *   migration fails are reported and left in storage, never cleared
  * - At least one document always exists
  */
 
@@ -25,6 +27,8 @@ import {
   type EditorDocument,
   type EditorDocumentIndex,
 } from './documentTypes';
+import { loadStoredPayload, type MigrationFailure, type StoredLoadResult } from './migrations';
+import { isValidNodeVisibility, isValidPageRouting } from './routingValidation';
 
 // ============================================================================
 // STORAGE KEYS
@@ -106,7 +110,7 @@ function isValidDocumentIndexEntry(value: unknown): value is DocumentIndexEntry
 /**
  * Validates a full document structure.
  */
-function isValidDocument(value: unknown): value is EditorDocument {
+export function isValidDocument(value: unknown): value is EditorDocument {
   if (typeof value !== 'object' || value === null) {
     return false;
   }
@@ -122,7 +126,7 @@ function isValidDocument(value: unknown): value is EditorDocument {
     return false;
   }
 
-  // Version check
+  // Version check (older versions are migrated before validation)
   if (typeof obj.version !== 'number' || obj.version !== DOCUMENT_VERSION) {
     console.warn(
       `[MultiDocPersistence] Document version mismatch: stored=${obj.version}, current=${DOCUMENT_VERSION}`,
@@ -168,13 +172,45 @@ function isValidDocument(value: unknown): value is EditorDocument {
     }
   }
 
+  // Validate release history if present
+  if (obj.releases !== undefined) {
+    if (!Array.isArray(obj.releases) || !obj.releases.every(isValidRelease)) {
+      console.warn('[MultiDocPersistence] Invalid release history');
+      return false;
+    }
+  }
+
+  // Linked funnel is optional
+  if (obj.funnelId !== undefined && obj.funnelId !== null && typeof obj.funnelId !== 'string') {
+    return false;
+  }
+
   return true;
 }
 
+/**
+ * Validates a release history entry.
+ */
+function isValidRelease(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const obj = value as Record<string, unknown>;
+
+  return (
+    typeof obj.id === 'string' &&
+    typeof obj.number === 'number' &&
+    typeof obj.note === 'string' &&
+    typeof obj.publishedAt === 'number' &&
+    isValidPublishedSnapshot(obj.snapshot)
+  );
+}
+
 /**
  * Phase 14: Validates a published snapshot structure.
  */
-function isValidPublishedSnapshot(
+export function isValidPublishedSnapshot(
   value: unknown,
   validPageIds?: Set<string>,
 ): boolean {
@@ -254,6 +290,10 @@ function isValidPage(value: unknown): value is Page {
     return false;
   }
 
+  if (typeof obj.routing !== 'undefined' && !isValidPageRouting(obj.routing)) {
+    return false;
+  }
+
   return true;
 }
 
@@ -283,6 +323,11 @@ function isValidCanvasNode(value: unknown): boolean {
     return false;
   }
 
+  const visibility = (obj.props as Record<string, unknown>).visibility;
+  if (typeof visibility !== 'undefined' && !isValidNodeVisibility(visibility)) {
+    return false;
+  }
+
   for (const child of obj.children) {
     if (!isValidCanvasNode(child)) {
       return false;
@@ -312,31 +357,32 @@ export function saveDocumentIndex(index: EditorDocumentIndex): boolean {
 }
 
 /**
- * Loads the document index from localStorage.
- * Returns null if no index exists or validation fails.
+ * Loads the document index from localStorage, migrating older versions.
  */
-export function loadDocumentIndex(): EditorDocumentIndex | null {
+export function loadDocumentIndexResult(): StoredLoadResult<EditorDocumentIndex> {
   try {
-    const raw = localStorage.getItem(INDEX_STORAGE_KEY);
-    
-    if (!raw) {
-      return null;
-    }
-
-    const parsed = JSON.parse(raw) as unknown;
+    const result = loadStoredPayload('index', INDEX_STORAGE_KEY, isValidDocumentIndex);
 
-    if (!isValidDocumentIndex(parsed)) {
+    if (result.status === 'invalid') {
       console.warn('[MultiDocPersistence] Invalid index structure, ignoring');
-      return null;
     }
 
-    return parsed;
+    return result;
   } catch (error) {
     console.error('[MultiDocPersistence] Failed to load index:', error);
-    return null;
+    return { status: 'invalid' };
   }
 }
 
+/**
+ * Loads the document index from localStorage.
+ * Returns null if no index exists, validation fails or migration fails.
+ */
+export function loadDocumentIndex(): EditorDocumentIndex | null {
+  const result = loadDocumentIndexResult();
+  return result.status === 'ok' ? result.value : null;
+}
+
 // ============================================================================
 // DOCUMENT OPERATIONS
 // ============================================================================
@@ -358,33 +404,35 @@ export function saveDocument(document: EditorDocument): boolean {
 }
 
 /**
- * Loads a document from localStorage by ID.
- * Returns null if document doesn't exist or validation fails.
+ * Loads a document from localStorage by ID, migrating older versions.
+ * A failed migration comes back as 'migration-failed' with the backup key.
  */
-export function loadDocument(documentId: string): EditorDocument | null {
+export function loadDocumentResult(documentId: string): StoredLoadResult<EditorDocument> {
   try {
-    const key = getDocumentStorageKey(documentId);
-    const raw = localStorage.getItem(key);
+    const result = loadStoredPayload('document', getDocumentStorageKey(documentId), isValidDocument);
 
-    if (!raw) {
+    if (result.status === 'missing') {
       console.warn(`[MultiDocPersistence] Document ${documentId} not found`);
-      return null;
-    }
-
-    const parsed = JSON.parse(raw) as unknown;
-
-    if (!isValidDocument(parsed)) {
+    } else if (result.status === 'invalid') {
       console.warn(`[MultiDocPersistence] Invalid document structure for ${documentId}`);
-      return null;
     }
 
-    return parsed;
+    return result;
   } catch (error) {
     console.error(`[MultiDocPersistence] Failed to load document ${documentId}:`, error);
-    return null;
+    return { status: 'invalid' };
   }
 }
 
+/**
+ * Loads a document from localStorage by ID.
+ * Returns null if document doesn't exist, validation fails or migration fails.
+ */
+export function loadDocument(documentId: string): EditorDocument | null {
+  const result = loadDocumentResult(documentId);
+  return result.status === 'ok' ? result.value : null;
+}
+
 /**
  * Deletes a document from localStorage.
  */
@@ -406,14 +454,28 @@ export function deleteDocumentFromStorage(documentId: string): boolean {
 
 /**
  * Loads the complete multi-document state.
- * Returns the index and the active document.
+ * Returns the index, the active document and any migration failures.
  * Falls back to creating initial state if nothing is stored.
  */
 export function loadMultiDocumentState(): {
   index: EditorDocumentIndex;
   activeDocument: EditorDocument;
+  migrationFailures: MigrationFailure[];
 } {
-  const index = loadDocumentIndex();
+  const migrationFailures: MigrationFailure[] = [];
+  const loadTracked = (documentId: string): EditorDocument | null => {
+    const result = loadDocumentResult(documentId);
+    if (result.status === 'migration-failed') {
+      migrationFailures.push(result.error);
+    }
+    return result.status === 'ok' ? result.value : null;
+  };
+
+  const indexResult = loadDocumentIndexResult();
+  if (indexResult.status === 'migration-failed') {
+    migrationFailures.push(indexResult.error);
+  }
+  const index = indexResult.status === 'ok' ? indexResult.value : null;
 
   if (!index) {
     // No index found, create initial state
@@ -425,18 +487,19 @@ export function loadMultiDocumentState(): {
     saveDocumentIndex(newIndex);
     saveDocument(defaultDoc);
     
-    return { index: newIndex, activeDocument: defaultDoc };
+    return { index: newIndex, activeDocument: defaultDoc, migrationFailures };
   }
 
   // Try to load active document
-  let activeDocument = loadDocument(index.activeDocumentId);
+  let activeDocument = loadTracked(index.activeDocumentId);
 
   if (!activeDocument) {
     // Active document is invalid, try to find another valid document
     console.warn('[MultiDocPersistence] Active document invalid, finding fallback');
     
     for (const docId of Object.keys(index.documents)) {
-      const doc = loadDocument(docId);
+      if (docId === index.activeDocumentId) continue;
+      const doc = loadTracked(docId);
       if (doc) {
         activeDocument = doc;
         // Update index with new active document
@@ -453,16 +516,19 @@ export function loadMultiDocumentState(): {
     const defaultDoc = createEmptyDocument('My First Funnel');
     const newIndex = createInitialDocumentIndex(defaultDoc);
     
-    // Clean up old invalid document storage
-    clearAllDocumentStorage();
+    // Clean up old invalid document storage, unless some of it is only
+    // waiting on a migration fix
+    if (migrationFailures.length === 0) {
+      clearAllDocumentStorage();
+    }
     
     saveDocumentIndex(newIndex);
     saveDocument(defaultDoc);
     
-    return { index: newIndex, activeDocument: defaultDoc };
+    return { index: newIndex, activeDocument: defaultDoc, migrationFailures };
   }
 
-  return { index, activeDocument };
+  return { index, activeDocument, migrationFailures };
 }
 
 /**
@@ -502,6 +568,7 @@ export function removeDocumentFromIndex(
   }
   
   return {
+    ...index,
     activeDocumentId: newActiveDocumentId,
     documents: remainingDocuments,
   };
@@ -646,6 +713,8 @@ export const DOCUMENT_PERSIST_ACTIONS = new Set([
   // Phase 14: Publish actions (persist snapshot with document)
   'PUBLISH_DOCUMENT',
   'UNPUBLISH_DOCUMENT',
+  'ROLLBACK_TO_RELEASE',
+  'LINK_FUNNEL',
 ]);
 
 /**
@@ -7,6 +7,8 @@
  * - Document switching with history reset
  * - Document CRUD operations
  * - Multi-document persistence
+ * - Server sync per team (serverPersistence.ts), with localStorage as the
+ *   offline cache
  *
  * Invariants:
  * - At least one document must always exist
@@ -23,6 +25,7 @@ import {
   useMemo,
   useReducer,
   useRef,
+  useState,
   type Dispatch,
   type ReactNode,
 } from 'react';
@@ -31,14 +34,22 @@ import type { CanvasNode, EditorState, Page } from '../types';
 import {
   cloneDocumentWithNewIds,
   createEmptyDocument,
-  createPublishedSnapshot,
+  createInitialDocumentIndex,
   DOCUMENT_VERSION,
   type DocumentAction,
   type DocumentIndexEntry,
   type EditorDocument,
   type EditorDocumentIndex,
+  type DocumentRelease,
   type PublishedDocumentSnapshot,
+  type ReleaseAuthor,
 } from './documentTypes';
+import {
+  createDocumentFromRelease,
+  getDocumentReleases,
+  publishRelease,
+  rollbackToRelease as applyRollback,
+} from './releases';
 import {
   createMultiDocDebouncedSave,
   deleteDocumentFromStorage,
@@ -51,6 +62,13 @@ import {
   shouldPersistIndex,
   updateDocumentIndexEntry,
 } from './multiDocPersistence';
+import type { MigrationFailure } from './migrations';
+import {
+  createServerDocumentSync,
+  isCachedForOtherTeam,
+  reconcileDocuments,
+  type DocumentSyncStatus,
+} from './serverPersistence';
 import { ComponentRegistry, fallbackComponent } from '../registry/componentRegistry';
 import { applyIntentDefaults } from '../registry/creationHelpers';
 import { DEFAULT_PERSONALITY } from '../layout/personalityResolver';
@@ -500,6 +518,22 @@ function cloneSnapshot(snapshot: DocumentSnapshot): DocumentSnapshot {
   return JSON.parse(JSON.stringify(snapshot)) as DocumentSnapshot;
 }
 
+/**
+ * Publishing isn't an edit, so undo/redo restore the draft but keep the
+ * current live snapshot, release history and linked funnel.
+ */
+function keepPublishState(snapshot: DocumentSnapshot, current: DocumentSnapshot): DocumentSnapshot {
+  return {
+    ...snapshot,
+    document: {
+      ...snapshot.document,
+      published: current.document.published,
+      releases: current.document.releases,
+      funnelId: current.document.funnelId,
+    },
+  };
+}
+
 // ============================================================================
 // DOCUMENT REDUCER (handles content changes within a document)
 // ============================================================================
@@ -704,7 +738,7 @@ function multiDocReducer(state: MultiDocumentState, action: MultiDocAction): Mul
       ...state,
       history: {
         past: state.history.past.slice(0, -1),
-        present: { ...cloneSnapshot(previous), highlightedNodeIds: [] },
+        present: { ...keepPublishState(cloneSnapshot(previous), state.history.present), highlightedNodeIds: [] },
         future: [cloneSnapshot(state.history.present), ...state.history.future],
       },
     };
@@ -719,7 +753,7 @@ function multiDocReducer(state: MultiDocumentState, action: MultiDocAction): Mul
       ...state,
       history: {
         past: [...state.history.past, cloneSnapshot(state.history.present)],
-        present: { ...cloneSnapshot(next), highlightedNodeIds: [] },
+        present: { ...keepPublishState(cloneSnapshot(next), state.history.present), highlightedNodeIds: [] },
         future: rest,
       },
     };
@@ -855,20 +889,14 @@ function multiDocReducer(state: MultiDocumentState, action: MultiDocAction): Mul
   // ============================================================================
 
   if (action.type === 'PUBLISH_DOCUMENT') {
-    const currentDoc = state.history.present.document;
-    
-    // Create a deep-cloned published snapshot from current draft
-    const publishedSnapshot = createPublishedSnapshot(
-      currentDoc.pages,
-      currentDoc.activePageId,
-    );
+    const storedDoc = state.history.present.document;
+    // Documents published from a funnel's editor are linked to that funnel
+    const currentDoc =
+      action.funnelId && !storedDoc.funnelId ? { ...storedDoc, funnelId: action.funnelId } : storedDoc;
     
-    // Update document with published snapshot
-    const publishedDoc: EditorDocument = {
-      ...currentDoc,
-      published: publishedSnapshot,
-      updatedAt: Date.now(),
-    };
+    // Deep-clone the draft into a published snapshot and append it to the
+    // release history
+    const publishedDoc = publishRelease(currentDoc, action.note, action.author);
     
     // Update index with new timestamp
     const newIndex = updateDocumentIndexEntry(state.index, publishedDoc);
@@ -890,6 +918,27 @@ function multiDocReducer(state: MultiDocumentState, action: MultiDocAction): Mul
     };
   }
 
+  if (action.type === 'LINK_FUNNEL') {
+    const currentDoc = state.history.present.document;
+    const linkedDoc: EditorDocument = {
+      ...currentDoc,
+      funnelId: action.funnelId,
+      updatedAt: Date.now(),
+    };
+
+    // Like publishing, linking isn't an undoable edit
+    return {
+      index: updateDocumentIndexEntry(state.index, linkedDoc),
+      history: {
+        ...state.history,
+        present: {
+          ...state.history.present,
+          document: linkedDoc,
+        },
+      },
+    };
+  }
+
   if (action.type === 'UNPUBLISH_DOCUMENT') {
     const currentDoc = state.history.present.document;
     
@@ -898,10 +947,12 @@ function multiDocReducer(state: MultiDocumentState, action: MultiDocAction): Mul
       return state;
     }
     
-    // Clear published snapshot, draft remains untouched
+    // Clear published snapshot, draft remains untouched.
+    // Release history is kept (a pre-history publish is recorded first).
     const unpublishedDoc: EditorDocument = {
       ...currentDoc,
       published: null,
+      releases: getDocumentReleases(currentDoc),
       updatedAt: Date.now(),
     };
     
@@ -920,6 +971,32 @@ function multiDocReducer(state: MultiDocumentState, action: MultiDocAction): Mul
     };
   }
 
+  if (action.type === 'ROLLBACK_TO_RELEASE') {
+    const currentDoc = state.history.present.document;
+    
+    // Republish the release's snapshot as a new release; draft pages and
+    // undo/redo history are untouched
+    const rolledBackDoc = applyRollback(currentDoc, action.releaseId, action.author);
+    
+    if (!rolledBackDoc) {
+      console.warn(`[MultiDocStore] Release not found: ${action.releaseId}`);
+      return state;
+    }
+    
+    const newIndex = updateDocumentIndexEntry(state.index, rolledBackDoc);
+    
+    return {
+      index: newIndex,
+      history: {
+        ...state.history,
+        present: {
+          ...state.history.present,
+          document: rolledBackDoc,
+        },
+      },
+    };
+  }
+
   // Handle page-level actions
   const isPageAction = [
     'SET_ACTIVE_PAGE',
@@ -1018,6 +1095,15 @@ export type MultiDocumentStoreContextValue = {
   publishedSnapshot: PublishedDocumentSnapshot | null;
   isPublished: boolean;
   
+  // Publish history, oldest first
+  releases: DocumentRelease[];
+  
+  // Server sync ('local' when no team is set)
+  syncStatus: DocumentSyncStatus;
+  
+  // Stored documents that couldn't be upgraded on load (kept, with backups)
+  migrationFailures: MigrationFailure[];
+  
   // Phase 26: Highlighted nodes for suggestion feedback
   highlightedNodeIds: string[];
   
@@ -1032,8 +1118,13 @@ export type MultiDocumentStoreContextValue = {
   renameDocument: (documentId: string, newName: string) => void;
   
   // Phase 14: Publish actions
-  publishDocument: () => void;
+  publishDocument: (note?: string) => void;
   unpublishDocument: () => void;
+  /** Links the active document to the funnel that receives its leads */
+  linkFunnel: (funnelId: string | null) => void;
+  rollbackToRelease: (releaseId: string) => void;
+  /** Copies a release into a new draft document; returns its ID */
+  openReleaseAsDocument: (releaseId: string) => string | null;
   
   // Page/Node actions (same as before)
   selectNode: (nodeId: string | null) => void;
@@ -1056,19 +1147,40 @@ export type MultiDocumentStoreContextValue = {
 
 const MultiDocumentStoreContext = createContext<MultiDocumentStoreContextValue | undefined>(undefined);
 
-export function MultiDocumentProvider({ children }: { children: ReactNode }) {
+export function MultiDocumentProvider({
+  children,
+  teamId,
+  userId,
+  authorName,
+  funnelId,
+}: {
+  children: ReactNode;
+  /** Syncs documents to this team's server storage; local-only when omitted */
+  teamId?: string | null;
+  userId?: string | null;
+  /** Shown on releases this user publishes */
+  authorName?: string | null;
+  /** Funnel this editor publishes for; unlinked documents are linked to it on publish */
+  funnelId?: string | null;
+}) {
   const [state, dispatch] = useReducer(multiDocReducer, null, createInitialState);
+  const [syncStatus, setSyncStatus] = useState<DocumentSyncStatus>(teamId ? 'syncing' : 'local');
+  const [migrationFailures, setMigrationFailures] = useState<MigrationFailure[]>([]);
 
   const hasHydratedRef = useRef(false);
   const debouncedSaveRef = useRef(createMultiDocDebouncedSave(750));
+  const serverSyncRef = useRef<ReturnType<typeof createServerDocumentSync> | null>(null);
   const lastActionRef = useRef<string | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
 
   // Hydrate on mount
   useEffect(() => {
     if (hasHydratedRef.current) return;
     hasHydratedRef.current = true;
 
-    const { index, activeDocument } = loadMultiDocumentState();
+    const { index, activeDocument, migrationFailures: failures } = loadMultiDocumentState();
+    setMigrationFailures(failures);
     
     dispatch({
       type: 'HYDRATE_MULTI_DOC',
@@ -1077,6 +1189,82 @@ export function MultiDocumentProvider({ children }: { children: ReactNode }) {
     });
   }, []);
 
+  // Server sync: reconcile the local cache on mount and whenever the
+  // browser comes back online, then push edits through the debounced writer
+  useEffect(() => {
+    if (!teamId) {
+      setSyncStatus('local');
+      return;
+    }
+
+    let cancelled = false;
+    const serverSync = createServerDocumentSync({ teamId, userId, onStatusChange: setSyncStatus });
+    serverSyncRef.current = serverSync;
+
+    const reconcile = async () => {
+      setSyncStatus('syncing');
+      // Reconcile reads the cache, so write out anything still debounced
+      debouncedSaveRef.current.flushPending();
+      try {
+        const index = await reconcileDocuments(teamId, stateRef.current.index, userId);
+        if (cancelled) return;
+        setSyncStatus('synced');
+        if (!index) {
+          // The team has no documents left on the server; the open one becomes
+          // its first unless it belongs to another team
+          const openDocument = stateRef.current.history.present.document;
+          if (!isCachedForOtherTeam(teamId, openDocument.id)) {
+            serverSync.scheduleDocumentPush(openDocument);
+            return;
+          }
+          const firstDocument = createEmptyDocument('My First Funnel');
+          const firstIndex = createInitialDocumentIndex(firstDocument);
+          saveDocument(firstDocument);
+          saveDocumentIndex(firstIndex);
+          serverSync.scheduleDocumentPush(firstDocument);
+          lastActionRef.current = 'HYDRATE_MULTI_DOC';
+          dispatch({ type: 'HYDRATE_MULTI_DOC', index: firstIndex, activeDocument: firstDocument });
+          return;
+        }
+
+        // Only re-hydrate (which resets undo history) when something changed
+        debouncedSaveRef.current.flushPending();
+        const current = stateRef.current;
+        const activeDocument = loadDocument(index.activeDocumentId);
+        const sameDocuments =
+          Object.keys(index.documents).sort().join() === Object.keys(current.index.documents).sort().join();
+        if (
+          activeDocument &&
+          (!sameDocuments ||
+            activeDocument.id !== current.history.present.document.id ||
+            activeDocument.updatedAt !== current.history.present.document.updatedAt)
+        ) {
+          lastActionRef.current = 'HYDRATE_MULTI_DOC';
+          dispatch({ type: 'HYDRATE_MULTI_DOC', index, activeDocument });
+        }
+      } catch (error) {
+        if (cancelled) return;
+        console.error('[MultiDocStore] Server sync failed, working from local cache:', error);
+        setSyncStatus(typeof navigator !== 'undefined' && !navigator.onLine ? 'offline' : 'error');
+      }
+    };
+
+    const handleOnline = () => void reconcile();
+    const handleOffline = () => setSyncStatus('offline');
+
+    void reconcile();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      void serverSync.flushPending();
+      serverSyncRef.current = null;
+    };
+  }, [teamId, userId]);
+
   // Persistence effect
   useEffect(() => {
     if (!hasHydratedRef.current) return;
@@ -1089,6 +1277,7 @@ export function MultiDocumentProvider({ children }: { children: ReactNode }) {
     // Document content changed - persist document and index
     if (shouldPersistDocument(actionType)) {
       debouncedSaveRef.current.scheduleDocumentSave(present.document, state.index);
+      serverSyncRef.current?.scheduleDocumentPush(present.document);
     }
 
     // Index-only change
@@ -1137,6 +1326,7 @@ export function MultiDocumentProvider({ children }: { children: ReactNode }) {
     (name: string = 'New Document') => {
       const newDoc = createEmptyDocument(name);
       saveDocument(newDoc); // Persist immediately
+      serverSyncRef.current?.scheduleDocumentPush(newDoc);
       wrappedDispatch({ type: 'CREATE_DOCUMENT', document: newDoc });
     },
     [wrappedDispatch],
@@ -1145,6 +1335,7 @@ export function MultiDocumentProvider({ children }: { children: ReactNode }) {
   const deleteDocument = useCallback(
     (documentId: string) => {
       deleteDocumentFromStorage(documentId);
+      serverSyncRef.current?.scheduleDocumentDelete(documentId);
       wrappedDispatch({ type: 'DELETE_DOCUMENT', documentId });
     },
     [wrappedDispatch],
@@ -1163,6 +1354,7 @@ export function MultiDocumentProvider({ children }: { children: ReactNode }) {
 
       const newDoc = cloneDocumentWithNewIds(sourceDoc, `${sourceDoc.name} (Copy)`);
       saveDocument(newDoc); // Persist immediately
+      serverSyncRef.current?.scheduleDocumentPush(newDoc);
       wrappedDispatch({ type: 'DUPLICATE_DOCUMENT', sourceDocumentId: documentId, newDocument: newDoc });
     },
     [wrappedDispatch, state.index.activeDocumentId, state.history.present.document],
@@ -1188,14 +1380,52 @@ export function MultiDocumentProvider({ children }: { children: ReactNode }) {
   );
 
   // Phase 14: Publish/Unpublish actions
-  const publishDocument = useCallback(() => {
-    wrappedDispatch({ type: 'PUBLISH_DOCUMENT' });
-  }, [wrappedDispatch]);
+  const author = useMemo<ReleaseAuthor>(() => ({ id: userId, name: authorName }), [userId, authorName]);
+
+  const publishDocument = useCallback(
+    (note?: string) => {
+      wrappedDispatch({ type: 'PUBLISH_DOCUMENT', note, author, funnelId });
+    },
+    [wrappedDispatch, author, funnelId],
+  );
 
   const unpublishDocument = useCallback(() => {
     wrappedDispatch({ type: 'UNPUBLISH_DOCUMENT' });
   }, [wrappedDispatch]);
 
+  const linkFunnel = useCallback(
+    (linkedFunnelId: string | null) => {
+      wrappedDispatch({ type: 'LINK_FUNNEL', funnelId: linkedFunnelId });
+    },
+    [wrappedDispatch],
+  );
+
+  const rollbackToRelease = useCallback(
+    (releaseId: string) => {
+      wrappedDispatch({ type: 'ROLLBACK_TO_RELEASE', releaseId, author });
+    },
+    [wrappedDispatch, author],
+  );
+
+  const openReleaseAsDocument = useCallback(
+    (releaseId: string) => {
+      const sourceDoc = state.history.present.document;
+      const release = getDocumentReleases(sourceDoc).find((r) => r.id === releaseId);
+
+      if (!release) {
+        console.warn(`[MultiDocStore] Cannot open release: ${releaseId} not found`);
+        return null;
+      }
+
+      const newDoc = createDocumentFromRelease(sourceDoc, release);
+      saveDocument(newDoc); // Persist immediately
+      serverSyncRef.current?.scheduleDocumentPush(newDoc);
+      wrappedDispatch({ type: 'DUPLICATE_DOCUMENT', sourceDocumentId: sourceDoc.id, newDocument: newDoc });
+      return newDoc.id;
+    },
+    [wrappedDispatch, state.history.present.document],
+  );
+
   // Page/Node actions
   const selectNode = useCallback(
     (nodeId: string | null) => wrappedDispatch({ type: 'SELECT_NODE', nodeId }),
@@ -1288,6 +1518,8 @@ export function MultiDocumentProvider({ children }: { children: ReactNode }) {
     [state.index.documents],
   );
 
+  const releases = useMemo(() => getDocumentReleases(document), [document]);
+
   const editorState = useMemo<EditorState>(
     () => ({
       selectedPageId: document.activePageId,
@@ -1318,6 +1550,10 @@ export function MultiDocumentProvider({ children }: { children: ReactNode }) {
       // Phase 14: Published state
       publishedSnapshot: document.published ?? null,
       isPublished: document.published != null,
+      releases,
+      
+      syncStatus,
+      migrationFailures,
       
       // Dispatch
       dispatch: wrappedDispatch,
@@ -1332,6 +1568,9 @@ export function MultiDocumentProvider({ children }: { children: ReactNode }) {
       // Phase 14: Publish actions
       publishDocument,
       unpublishDocument,
+      linkFunnel,
+      rollbackToRelease,
+      openReleaseAsDocument,
       
       // Page/Node actions
       selectNode,
@@ -1360,6 +1599,8 @@ export function MultiDocumentProvider({ children }: { children: ReactNode }) {
       present.selectedNodeId,
       present.mode,
       present.highlightedNodeIds,
+      syncStatus,
+      migrationFailures,
       editorState,
       wrappedDispatch,
       createDocument,
@@ -1369,6 +1610,10 @@ export function MultiDocumentProvider({ children }: { children: ReactNode }) {
       renameDocument,
       publishDocument,
       unpublishDocument,
+      linkFunnel,
+      rollbackToRelease,
+      openReleaseAsDocument,
+      releases,
       selectNode,
       setMode,
       setActivePage,
@@ -10,6 +10,8 @@ export type {
   EditorDocumentIndex,
   DocumentIndexEntry,
   DocumentAction,
+  DocumentRelease,
+  ReleaseAuthor,
 } from './documentTypes';
 
 export {
@@ -24,8 +26,10 @@ export {
 export {
   saveDocumentIndex,
   loadDocumentIndex,
+  loadDocumentIndexResult,
   saveDocument,
   loadDocument,
+  loadDocumentResult,
   deleteDocumentFromStorage,
   loadMultiDocumentState,
   updateDocumentIndexEntry,
@@ -38,6 +42,21 @@ export {
   INDEX_PERSIST_ACTIONS,
 } from './multiDocPersistence';
 
+// Schema migrations
+export type { MigrationFailure, MigrationRegistry, MigrationTarget, StoredLoadResult } from './migrations';
+export { migratePayload, listMigrationBackups, restoreMigrationBackup } from './migrations';
+
+// Publish history
+export type { ReleaseDiff, PageDiff, NodeChange, NodeChangeKind } from './releases';
+export {
+  getDocumentReleases,
+  getLiveRelease,
+  publishRelease,
+  rollbackToRelease,
+  createDocumentFromRelease,
+  diffSnapshots,
+} from './releases';
+
 // Multi-document store
 export type {
   DocumentSnapshot,
@@ -5,11 +5,14 @@
  * It saves and restores the canonical editor state safely, ensuring:
  * - Only history-committed actions are persisted (not drag/hover/selection-only changes)
  * - Debounced writes to avoid excessive storage operations
- * - Version-aware serialization for future migration support
+ * - Version-aware serialization; older documents are upgraded on load by
+ *   the migration chain in migrations.ts
  * - Clean separation from ephemeral UI state
  */
 
 import type { Page } from '../types';
+import { loadStoredPayload, migratePayload, type StoredLoadResult } from './migrations';
+import { isValidNodeVisibility, isValidPageRouting } from './routingValidation';
 
 // ============================================================================
 // VERSION CONSTANT
@@ -17,8 +20,8 @@ import type { Page } from '../types';
 
 /**
  * Current editor document version.
- * Increment this when making breaking changes to the document structure.
- * Structure code so future migrations are possible.
+ * Increment this when making breaking changes to the document structure,
+ * and register the matching migrate_vN_to_vN+1 step in migrations.ts.
  */
 export const EDITOR_DOC_VERSION = 1;
 
@@ -81,8 +84,9 @@ export function serializeDocument(document: EditorDocument): string {
 }
 
 /**
- * Attempts to parse and validate a stored document string.
- * Returns null if invalid or incompatible version.
+ * Attempts to parse, migrate and validate a stored document string.
+ * Returns null if invalid or if migration fails; use loadEditorDocument to
+ * get the failure details.
  * Pure function - no side effects.
  */
 export function parseDocument(raw: string | null): EditorDocument | null {
@@ -91,7 +95,14 @@ export function parseDocument(raw: string | null): EditorDocument | null {
   }
 
   try {
-    const parsed = JSON.parse(raw) as unknown;
+    const migration = migratePayload('editor-document', JSON.parse(raw) as unknown, STORAGE_KEY);
+
+    if (migration.ok === false) {
+      console.error('[Persistence] Document migration failed:', migration.error.message);
+      return null;
+    }
+
+    const parsed = migration.payload;
 
     if (!isValidDocument(parsed)) {
       console.warn('[Persistence] Invalid document structure, ignoring stored data');
@@ -116,8 +127,8 @@ function isValidDocument(value: unknown): value is EditorDocument {
 
   const obj = value as Record<string, unknown>;
 
-  // Version check - must match current version
-  // Future: Add migration logic here when version changes
+  // Version check - older versions are migrated before validation,
+  // so anything else here is unsupported
   if (typeof obj.version !== 'number') {
     return false;
   }
@@ -126,7 +137,6 @@ function isValidDocument(value: unknown): value is EditorDocument {
     console.warn(
       `[Persistence] Document version mismatch: stored=${obj.version}, current=${EDITOR_DOC_VERSION}`,
     );
-    // Future: Implement migration from older versions
     return false;
   }
 
@@ -183,6 +193,10 @@ function isValidPage(value: unknown): value is Page {
     return false;
   }
 
+  if (typeof obj.routing !== 'undefined' && !isValidPageRouting(obj.routing)) {
+    return false;
+  }
+
   return true;
 }
 
@@ -212,6 +226,11 @@ function isValidCanvasNode(value: unknown): boolean {
     return false;
   }
 
+  const visibility = (obj.props as Record<string, unknown>).visibility;
+  if (typeof visibility !== 'undefined' && !isValidNodeVisibility(visibility)) {
+    return false;
+  }
+
   // Recursively validate children
   for (const child of obj.children) {
     if (!isValidCanvasNode(child)) {
@@ -243,19 +262,28 @@ export function saveToStorage(document: EditorDocument): boolean {
 }
 
 /**
- * Loads the editor document from localStorage.
- * Returns null if no document exists or if validation fails.
+ * Loads the editor document from localStorage, migrating older versions.
+ * A failed migration is returned as 'migration-failed' with the backup key
+ * of the untouched original.
  */
-export function loadFromStorage(): EditorDocument | null {
+export function loadEditorDocument(): StoredLoadResult<EditorDocument> {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    return parseDocument(raw);
+    return loadStoredPayload('editor-document', STORAGE_KEY, isValidDocument);
   } catch (error) {
     console.error('[Persistence] Failed to load document:', error);
-    return null;
+    return { status: 'invalid' };
   }
 }
 
+/**
+ * Loads the editor document from localStorage.
+ * Returns null if no document exists, validation fails or migration fails.
+ */
+export function loadFromStorage(): EditorDocument | null {
+  const result = loadEditorDocument();
+  return result.status === 'ok' ? result.value : null;
+}
+
 /**
  * Clears the stored editor document.
  * Useful for testing or "New Document" functionality.
@@ -0,0 +1,334 @@
+/**
+ * Publish History (Releases)
+ *
+ * Helpers for EditorDocument.releases: appending a release on publish or
+ * rollback, page/node-level diffs between two releases, and turning an old
+ * release back into an editable document.
+ *
+ * Invariants:
+ * - Releases are append-only; rollback appends a new release
+ * - Rollback replaces the live snapshot only, never the draft pages
+ * - All functions are pure - no storage, no side effects
+ */
+
+import type { CanvasNode, Page } from '../types';
+import {
+  cloneDocumentWithNewIds,
+  createPublishedSnapshot,
+  type DocumentRelease,
+  type EditorDocument,
+  type PublishedDocumentSnapshot,
+  type ReleaseAuthor,
+} from './documentTypes';
+
+// ============================================================================
+// RELEASE CREATION
+// ============================================================================
+
+function generateReleaseId(): string {
+  return `release-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Returns a document's releases, oldest first.
+ *
+ * A document published before release history existed gets its current
+ * snapshot as release 1, so it shows up in (and can be rolled back to).
+ */
+export function getDocumentReleases(document: EditorDocument): DocumentRelease[] {
+  if (document.releases?.length) {
+    return document.releases;
+  }
+
+  if (!document.published) {
+    return [];
+  }
+
+  return [
+    {
+      id: `release-legacy-${document.published.publishedAt}`,
+      number: 1,
+      note: 'Published before release history',
+      authorId: null,
+      authorName: null,
+      publishedAt: document.published.publishedAt,
+      snapshot: document.published,
+    },
+  ];
+}
+
+/**
+ * The release currently live, or null when unpublished.
+ */
+export function getLiveRelease(document: EditorDocument): DocumentRelease | null {
+  if (!document.published) {
+    return null;
+  }
+  const { publishedAt } = document.published;
+  return getDocumentReleases(document).find((release) => release.snapshot.publishedAt === publishedAt) ?? null;
+}
+
+function appendRelease(
+  document: EditorDocument,
+  snapshot: PublishedDocumentSnapshot,
+  details: { note: string; author?: ReleaseAuthor; rolledBackFrom?: number },
+): EditorDocument {
+  const releases = getDocumentReleases(document);
+  const release: DocumentRelease = {
+    id: generateReleaseId(),
+    number: (releases[releases.length - 1]?.number ?? 0) + 1,
+    note: details.note,
+    authorId: details.author?.id ?? null,
+    authorName: details.author?.name ?? null,
+    publishedAt: snapshot.publishedAt,
+    rolledBackFrom: details.rolledBackFrom ?? null,
+    snapshot,
+  };
+
+  return {
+    ...document,
+    published: snapshot,
+    releases: [...releases, release],
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Snapshot metadata with the document's linked funnel, if it has one.
+ */
+function withLinkedFunnel(
+  document: EditorDocument,
+  metadata: Record<string, unknown> | null | undefined,
+): Record<string, unknown> | null | undefined {
+  return document.funnelId ? { ...metadata, funnelId: document.funnelId } : metadata;
+}
+
+/**
+ * Publishes the current draft as a new release. Snapshot metadata carries
+ * over from the last release, and the document's linked funnel is stamped in
+ * as metadata.funnelId for the runtime to submit leads to.
+ */
+export function publishRelease(
+  document: EditorDocument,
+  note?: string,
+  author?: ReleaseAuthor,
+): EditorDocument {
+  const releases = getDocumentReleases(document);
+  const previous = document.published ?? releases[releases.length - 1]?.snapshot;
+  const snapshot = createPublishedSnapshot(
+    document.pages,
+    document.activePageId,
+    withLinkedFunnel(document, previous?.metadata),
+  );
+  return appendRelease(document, snapshot, { note: note?.trim() ?? '', author });
+}
+
+/**
+ * Makes an earlier release live again by publishing a fresh copy of its
+ * snapshot as a new release. The draft pages are left as they are.
+ * Returns null when the release doesn't exist.
+ */
+export function rollbackToRelease(
+  document: EditorDocument,
+  releaseId: string,
+  author?: ReleaseAuthor,
+): EditorDocument | null {
+  const target = getDocumentReleases(document).find((release) => release.id === releaseId);
+  if (!target) {
+    return null;
+  }
+
+  const snapshot = createPublishedSnapshot(
+    target.snapshot.pages,
+    target.snapshot.activePageId,
+    withLinkedFunnel(document, target.snapshot.metadata),
+  );
+
+  return appendRelease(document, snapshot, {
+    note: `Rolled back to release #${target.number}`,
+    author,
+    rolledBackFrom: target.number,
+  });
+}
+
+/**
+ * Creates a new, unpublished document from a release's pages (new IDs, no
+ * history), so an old version can be edited without touching this one.
+ */
+export function createDocumentFromRelease(
+  document: EditorDocument,
+  release: DocumentRelease,
+): EditorDocument {
+  return cloneDocumentWithNewIds(
+    {
+      ...document,
+      pages: release.snapshot.pages,
+      activePageId: release.snapshot.activePageId,
+      published: null,
+      releases: [],
+    },
+    `${document.name} (release #${release.number})`,
+  );
+}
+
+// ============================================================================
+// RELEASE DIFF
+// ============================================================================
+
+export type NodeChangeKind = 'added' | 'removed' | 'changed' | 'moved';
+
+export interface NodeChange {
+  nodeId: string;
+  type: string;
+  change: NodeChangeKind;
+  /** Props that differ (changed nodes only) */
+  props?: string[];
+}
+
+export interface PageDiff {
+  pageId: string;
+  /** Name in the newer release (older one for removed pages) */
+  name: string;
+  change: 'added' | 'removed' | 'changed';
+  /** Page-level fields that differ: name, type, layoutIntent, layoutPersonality, routing */
+  fields: string[];
+  nodes: NodeChange[];
+}
+
+export interface ReleaseDiff {
+  pages: PageDiff[];
+  pageOrderChanged: boolean;
+  activePageChanged: boolean;
+  /** True when the two snapshots render the same */
+  identical: boolean;
+}
+
+interface FlatNode {
+  node: CanvasNode;
+  parentId: string | null;
+}
+
+function flattenTree(root: CanvasNode): Map<string, FlatNode> {
+  const nodes = new Map<string, FlatNode>();
+  const visit = (node: CanvasNode, parentId: string | null) => {
+    nodes.set(node.id, { node, parentId });
+    node.children.forEach((child) => visit(child, node.id));
+  };
+  visit(root, null);
+  return nodes;
+}
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Child order among the children both versions share, so an insert or
+ * removal doesn't mark every later sibling as moved.
+ */
+function sharedChildOrder(node: CanvasNode, shared: Map<string, FlatNode>): string[] {
+  return node.children.map((child) => child.id).filter((id) => shared.has(id));
+}
+
+function diffPageNodes(before: Page, after: Page): NodeChange[] {
+  const beforeNodes = flattenTree(before.canvasRoot);
+  const afterNodes = flattenTree(after.canvasRoot);
+  const changes: NodeChange[] = [];
+
+  for (const [nodeId, { node, parentId }] of afterNodes) {
+    const previous = beforeNodes.get(nodeId);
+
+    if (!previous) {
+      changes.push({ nodeId, type: node.type, change: 'added' });
+      continue;
+    }
+
+    const propKeys = new Set([...Object.keys(previous.node.props), ...Object.keys(node.props)]);
+    const changedProps = [...propKeys].filter((key) => !isEqual(previous.node.props[key], node.props[key]));
+
+    if (previous.node.type !== node.type || changedProps.length > 0) {
+      changes.push({ nodeId, type: node.type, change: 'changed', props: changedProps });
+    }
+
+    if (previous.parentId !== parentId) {
+      changes.push({ nodeId, type: node.type, change: 'moved' });
+    }
+  }
+
+  for (const [nodeId, { node }] of beforeNodes) {
+    if (!afterNodes.has(nodeId)) {
+      changes.push({ nodeId, type: node.type, change: 'removed' });
+    }
+  }
+
+  // Reordered children under the same parent
+  for (const [nodeId, { node }] of afterNodes) {
+    const previous = beforeNodes.get(nodeId);
+    if (!previous) continue;
+
+    const beforeOrder = sharedChildOrder(previous.node, afterNodes);
+    const afterOrder = sharedChildOrder(node, beforeNodes).filter((id) => beforeOrder.includes(id));
+    const comparableBefore = beforeOrder.filter((id) => afterOrder.includes(id));
+
+    comparableBefore.forEach((childId, index) => {
+      const alreadyMoved = changes.some((c) => c.nodeId === childId && c.change === 'moved');
+      if (afterOrder[index] !== childId && !alreadyMoved) {
+        changes.push({ nodeId: childId, type: afterNodes.get(childId)!.node.type, change: 'moved' });
+      }
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Page and node level differences going from `before` to `after`.
+ * Nodes are matched by ID, which publishing preserves.
+ */
+export function diffSnapshots(
+  before: PublishedDocumentSnapshot,
+  after: PublishedDocumentSnapshot,
+): ReleaseDiff {
+  const beforePages = new Map(before.pages.map((page) => [page.id, page]));
+  const afterPages = new Map(after.pages.map((page) => [page.id, page]));
+  const pages: PageDiff[] = [];
+
+  for (const page of after.pages) {
+    const previous = beforePages.get(page.id);
+
+    if (!previous) {
+      const nodes = [...flattenTree(page.canvasRoot).values()].map(({ node }) => ({
+        nodeId: node.id,
+        type: node.type,
+        change: 'added' as const,
+      }));
+      pages.push({ pageId: page.id, name: page.name, change: 'added', fields: [], nodes });
+      continue;
+    }
+
+    const fields = (['name', 'type', 'layoutIntent', 'layoutPersonality', 'routing'] as const).filter(
+      (field) => JSON.stringify(previous[field]) !== JSON.stringify(page[field]),
+    );
+    const nodes = diffPageNodes(previous, page);
+
+    if (fields.length > 0 || nodes.length > 0) {
+      pages.push({ pageId: page.id, name: page.name, change: 'changed', fields, nodes });
+    }
+  }
+
+  for (const page of before.pages) {
+    if (!afterPages.has(page.id)) {
+      pages.push({ pageId: page.id, name: page.name, change: 'removed', fields: [], nodes: [] });
+    }
+  }
+
+  const sharedBefore = before.pages.map((p) => p.id).filter((id) => afterPages.has(id));
+  const sharedAfter = after.pages.map((p) => p.id).filter((id) => beforePages.has(id));
+  const pageOrderChanged = !isEqual(sharedBefore, sharedAfter);
+  const activePageChanged = before.activePageId !== after.activePageId;
+
+  return {
+    pages,
+    pageOrderChanged,
+    activePageChanged,
+    identical: pages.length === 0 && !pageOrderChanged && !activePageChanged,
+  };
+}
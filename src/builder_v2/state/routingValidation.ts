@@ -0,0 +1,107 @@
+/**
+ * Routing & Visibility Shape Checks
+ *
+ * Stored documents are validated before they're loaded (persistence.ts,
+ * multiDocPersistence.ts). These checks cover the answer-based logic a
+ * document can carry: page routing rules and node visibility. Anything that
+ * passes is safe for the helpers in runtime/pageRouting.ts to evaluate.
+ */
+
+import type { ConditionOperator } from '../types';
+
+const CONDITION_OPERATORS: ConditionOperator[] = [
+  'equals',
+  'not_equals',
+  'contains',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'is_set',
+  'is_empty',
+];
+
+/** is_set / is_empty don't compare against a value, so it may be left out */
+const VALUELESS_OPERATORS: ConditionOperator[] = ['is_set', 'is_empty'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isValidMatch(value: unknown): boolean {
+  return typeof value === 'undefined' || value === 'all' || value === 'any';
+}
+
+/**
+ * Validates one answer condition: an id, a field, a known operator and a
+ * string value.
+ */
+export function isValidAnswerCondition(value: unknown): boolean {
+  if (!isObject(value)) {
+    return false;
+  }
+
+  if (typeof value.id !== 'string' || typeof value.field !== 'string') {
+    return false;
+  }
+
+  if (!CONDITION_OPERATORS.includes(value.operator as ConditionOperator)) {
+    return false;
+  }
+
+  if (typeof value.value === 'string') {
+    return true;
+  }
+  return typeof value.value === 'undefined' && VALUELESS_OPERATORS.includes(value.operator as ConditionOperator);
+}
+
+function isValidConditionList(value: unknown): boolean {
+  return Array.isArray(value) && value.every(isValidAnswerCondition);
+}
+
+/**
+ * Validates a page's routing: rules need an id, a target and valid
+ * conditions; the fallback is a page ID, null or left out.
+ */
+export function isValidPageRouting(value: unknown): boolean {
+  if (!isObject(value) || !Array.isArray(value.rules)) {
+    return false;
+  }
+
+  for (const rule of value.rules) {
+    if (!isObject(rule)) {
+      return false;
+    }
+    if (typeof rule.id !== 'string' || typeof rule.targetPageId !== 'string') {
+      return false;
+    }
+    if (!isValidMatch(rule.match) || !isValidConditionList(rule.conditions)) {
+      return false;
+    }
+  }
+
+  if (
+    typeof value.fallbackPageId !== 'undefined' &&
+    value.fallbackPageId !== null &&
+    typeof value.fallbackPageId !== 'string'
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Validates a node's props.visibility: show or hide, and valid conditions.
+ */
+export function isValidNodeVisibility(value: unknown): boolean {
+  if (!isObject(value)) {
+    return false;
+  }
+
+  if (typeof value.action !== 'undefined' && value.action !== 'show' && value.action !== 'hide') {
+    return false;
+  }
+
+  return isValidMatch(value.match) && isValidConditionList(value.conditions);
+}
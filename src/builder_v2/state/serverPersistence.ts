@@ -0,0 +1,420 @@
+/**
+ * Server-backed document storage
+ *
+ * Documents are stored per team in the builder_documents table so published
+ * funnels can be served to real visitors (see RuntimePage and the
+ * builder-document edge function). multiDocPersistence's localStorage layer
+ * stays in front of it as an offline cache:
+ *
+ * - Every local save marks the document dirty for its team, then a debounced
+ *   push writes it to the server and clears the flag.
+ * - Pushes that fail (offline, server error) leave the document dirty; the
+ *   next reconcile (on load or when the browser comes back online) retries.
+ * - Reconcile is last-writer-wins on EditorDocument.updatedAt: newer server
+ *   copies replace the cache, newer dirty copies are pushed.
+ *
+ * Storage key: builder_v2:sync:{teamId} - the team's cached, dirty and
+ * deleted document IDs
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type {
+  EditorDocument,
+  EditorDocumentIndex,
+  PublishedDocumentSnapshot,
+} from './documentTypes';
+import {
+  isValidDocument,
+  isValidPublishedSnapshot,
+  loadDocument,
+  saveDocument,
+  saveDocumentIndex,
+} from './multiDocPersistence';
+import { migratePayload } from './migrations';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Server sync state shown in the editor.
+ * - local: no team, documents only live in this browser
+ */
+export type DocumentSyncStatus = 'local' | 'syncing' | 'synced' | 'offline' | 'error';
+
+interface TeamSyncState {
+  /** The team's documents cached in this browser; keeps teams' caches apart */
+  documents: string[];
+  /** Documents saved locally but not yet confirmed by the server */
+  dirty: string[];
+  /** Documents deleted locally whose server rows still need removing */
+  deleted: string[];
+  /** Set after the first successful reconcile for this team in this browser */
+  initialized: boolean;
+}
+
+export type PublishedSnapshotResult =
+  | { status: 'ready'; snapshot: PublishedDocumentSnapshot }
+  | { status: 'not-found' }
+  | { status: 'not-published' }
+  | { status: 'invalid-snapshot' }
+  | { status: 'unavailable' };
+
+// ============================================================================
+// SYNC STATE
+// ============================================================================
+
+const SYNC_STORAGE_KEY_PREFIX = 'builder_v2:sync:';
+
+function loadSyncState(teamId: string): TeamSyncState {
+  try {
+    const raw = localStorage.getItem(`${SYNC_STORAGE_KEY_PREFIX}${teamId}`);
+    const parsed = raw ? (JSON.parse(raw) as Partial<TeamSyncState>) : {};
+    return {
+      documents: Array.isArray(parsed.documents) ? parsed.documents : [],
+      dirty: Array.isArray(parsed.dirty) ? parsed.dirty : [],
+      deleted: Array.isArray(parsed.deleted) ? parsed.deleted : [],
+      initialized: parsed.initialized === true,
+    };
+  } catch (error) {
+    console.error('[ServerPersistence] Failed to load sync state:', error);
+    return { documents: [], dirty: [], deleted: [], initialized: false };
+  }
+}
+
+function updateSyncState(teamId: string, update: (state: TeamSyncState) => TeamSyncState): void {
+  try {
+    const next = update(loadSyncState(teamId));
+    localStorage.setItem(`${SYNC_STORAGE_KEY_PREFIX}${teamId}`, JSON.stringify(next));
+  } catch (error) {
+    console.error('[ServerPersistence] Failed to save sync state:', error);
+  }
+}
+
+/** Document IDs cached for teams other than teamId in this browser. */
+function getOtherTeamDocumentIds(teamId: string): Set<string> {
+  const ids = new Set<string>();
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(SYNC_STORAGE_KEY_PREFIX) || key === `${SYNC_STORAGE_KEY_PREFIX}${teamId}`) continue;
+      loadSyncState(key.slice(SYNC_STORAGE_KEY_PREFIX.length)).documents.forEach((id) => ids.add(id));
+    }
+  } catch (error) {
+    console.error('[ServerPersistence] Failed to read other teams\' sync state:', error);
+  }
+  return ids;
+}
+
+/** Whether a cached document belongs to a team other than teamId. */
+export function isCachedForOtherTeam(teamId: string, documentId: string): boolean {
+  return getOtherTeamDocumentIds(teamId).has(documentId);
+}
+
+const withId = (ids: string[], id: string) => (ids.includes(id) ? ids : [...ids, id]);
+const withoutId = (ids: string[], id: string) => ids.filter((existing) => existing !== id);
+
+// ============================================================================
+// SERVER OPERATIONS
+// ============================================================================
+
+/**
+ * Loads every document for a team, migrating older versions in memory (the
+ * migrated copy is written back on the next push). Invalid rows and failed
+ * migrations are skipped; the server rows stay as they were.
+ * Throws when the server can't be reached.
+ */
+export async function fetchTeamDocuments(teamId: string): Promise<EditorDocument[]> {
+  const { data, error } = await supabase
+    .from('builder_documents')
+    .select('id, document')
+    .eq('team_id', teamId)
+    .order('client_updated_at', { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  return (data ?? []).flatMap((row) => {
+    const migration = migratePayload('document', row.document, row.id);
+    if (migration.ok === false) {
+      console.error(`[ServerPersistence] Server document ${row.id} could not be upgraded:`, migration.error.message);
+      return [];
+    }
+    if (!isValidDocument(migration.payload)) {
+      console.warn(`[ServerPersistence] Invalid server document ${row.id}, ignoring`);
+      return [];
+    }
+    return [migration.payload];
+  });
+}
+
+/**
+ * Writes a document to the server unless the server copy is newer.
+ * Returns 'stale' in that case so the caller can pull instead.
+ */
+export async function pushDocument(
+  teamId: string,
+  document: EditorDocument,
+  userId?: string | null,
+): Promise<'pushed' | 'stale'> {
+  const { data: existing, error: lookupError } = await supabase
+    .from('builder_documents')
+    .select('client_updated_at')
+    .eq('id', document.id)
+    .maybeSingle();
+
+  if (lookupError) throw new Error(lookupError.message);
+  if (existing && existing.client_updated_at > document.updatedAt) return 'stale';
+
+  const row = {
+    name: document.name,
+    version: document.version,
+    document: document as unknown as Json,
+    published_snapshot: (document.published ?? null) as unknown as Json,
+    published_at: document.published ? new Date(document.published.publishedAt).toISOString() : null,
+    client_updated_at: document.updatedAt,
+    updated_by: userId ?? null,
+  };
+
+  const { error } = existing
+    ? await supabase.from('builder_documents').update(row).eq('id', document.id)
+    : await supabase
+        .from('builder_documents')
+        .insert({ ...row, id: document.id, team_id: teamId, created_by: userId ?? null });
+
+  if (error) throw new Error(error.message);
+  return 'pushed';
+}
+
+/**
+ * Which of the given document IDs already have a server row (in any team the
+ * user can see). Throws when the server can't be reached.
+ */
+async function fetchExistingDocumentIds(documentIds: string[]): Promise<Set<string>> {
+  if (documentIds.length === 0) return new Set();
+  const { data, error } = await supabase.from('builder_documents').select('id').in('id', documentIds);
+  if (error) throw new Error(error.message);
+  return new Set((data ?? []).map((row) => row.id));
+}
+
+export async function deleteServerDocument(documentId: string): Promise<void> {
+  const { error } = await supabase.from('builder_documents').delete().eq('id', documentId);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Reconciles the local cache with the team's server documents.
+ *
+ * Pending deletes go out first, newer server copies overwrite the cache,
+ * remaining dirty documents are pushed, and the local index is rebuilt from
+ * the team's documents (other teams' cached documents stay in storage). On
+ * the first sync for a team with nothing on the server yet, the documents
+ * in this browser are adopted into the team, except those cached for
+ * another team or already on the server.
+ *
+ * Returns the new index (also saved locally), or null when the team has no
+ * documents at all. Throws when the server can't be reached.
+ */
+export async function reconcileDocuments(
+  teamId: string,
+  localIndex: EditorDocumentIndex,
+  userId?: string | null,
+): Promise<EditorDocumentIndex | null> {
+  const remote = await fetchTeamDocuments(teamId);
+  let state = loadSyncState(teamId);
+
+  if (!state.initialized && remote.length === 0) {
+    const otherTeams = getOtherTeamDocumentIds(teamId);
+    const candidates = Object.keys(localIndex.documents).filter((id) => !otherTeams.has(id));
+    const onServer = await fetchExistingDocumentIds(candidates);
+    const adopted = candidates.filter((id) => !onServer.has(id));
+    state = { ...state, dirty: [...new Set([...state.dirty, ...adopted])] };
+  }
+
+  const deletedIds = state.deleted;
+  for (const documentId of deletedIds) {
+    await deleteServerDocument(documentId);
+    state = { ...state, deleted: withoutId(state.deleted, documentId) };
+  }
+
+  const teamDocuments = new Map<string, EditorDocument>();
+  for (const document of remote) {
+    if (deletedIds.includes(document.id)) continue;
+    const cached = loadDocument(document.id);
+    if (!cached || document.updatedAt > cached.updatedAt) {
+      saveDocument(document);
+      teamDocuments.set(document.id, document);
+      // The server copy is newer than any unsynced local edit
+      state = { ...state, dirty: withoutId(state.dirty, document.id) };
+    } else {
+      teamDocuments.set(document.id, cached);
+    }
+  }
+
+  for (const documentId of state.dirty) {
+    const cached = loadDocument(documentId);
+    if (!cached) {
+      state = { ...state, dirty: withoutId(state.dirty, documentId) };
+      continue;
+    }
+    const result = await pushDocument(teamId, cached, userId);
+    if (result === 'pushed') teamDocuments.set(documentId, cached);
+    state = { ...state, dirty: withoutId(state.dirty, documentId) };
+  }
+
+  updateSyncState(teamId, () => ({ ...state, documents: [...teamDocuments.keys()], initialized: true }));
+
+  if (teamDocuments.size === 0) return null;
+
+  const documents = Object.fromEntries(
+    [...teamDocuments.values()].map((document) => [
+      document.id,
+      { id: document.id, name: document.name, updatedAt: document.updatedAt },
+    ]),
+  );
+  const activeDocumentId =
+    localIndex.activeDocumentId in documents
+      ? localIndex.activeDocumentId
+      : [...teamDocuments.values()].sort((a, b) => b.updatedAt - a.updatedAt)[0].id;
+
+  const index: EditorDocumentIndex = { ...localIndex, activeDocumentId, documents };
+  saveDocumentIndex(index);
+
+  return index;
+}
+
+// ============================================================================
+// DEBOUNCED SERVER SYNC
+// ============================================================================
+
+/**
+ * Creates the debounced server writer used by MultiDocumentProvider.
+ * Documents are marked dirty as soon as they're scheduled, so edits made
+ * offline survive a reload and are pushed by the next reconcile.
+ */
+export function createServerDocumentSync(options: {
+  teamId: string;
+  userId?: string | null;
+  delayMs?: number;
+  onStatusChange: (status: DocumentSyncStatus) => void;
+}): {
+  scheduleDocumentPush: (document: EditorDocument) => void;
+  scheduleDocumentDelete: (documentId: string) => void;
+  flushPending: () => Promise<void>;
+  cancelPending: () => void;
+} {
+  const { teamId, userId, delayMs = 1500, onStatusChange } = options;
+  const pending = new Map<string, EditorDocument>();
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  function reportFailure(error: unknown): void {
+    console.error('[ServerPersistence] Sync failed:', error);
+    onStatusChange(typeof navigator !== 'undefined' && !navigator.onLine ? 'offline' : 'error');
+  }
+
+  async function pushPending(): Promise<void> {
+    timeoutId = null;
+    if (pending.size === 0) return;
+
+    const documents = [...pending.values()];
+    pending.clear();
+    onStatusChange('syncing');
+
+    try {
+      for (const document of documents) {
+        const result = await pushDocument(teamId, document, userId);
+        if (result === 'stale') {
+          console.warn(`[ServerPersistence] Server copy of ${document.id} is newer; keeping it`);
+        }
+        updateSyncState(teamId, (state) => ({ ...state, dirty: withoutId(state.dirty, document.id) }));
+      }
+      onStatusChange('synced');
+    } catch (error) {
+      reportFailure(error);
+    }
+  }
+
+  function scheduleDocumentPush(document: EditorDocument): void {
+    updateSyncState(teamId, (state) => ({
+      ...state,
+      documents: withId(state.documents, document.id),
+      dirty: withId(state.dirty, document.id),
+    }));
+    pending.set(document.id, document);
+
+    if (timeoutId !== null) {
+      clearTimeout(timeoutId);
+    }
+    timeoutId = setTimeout(() => void pushPending(), delayMs);
+  }
+
+  function scheduleDocumentDelete(documentId: string): void {
+    pending.delete(documentId);
+    updateSyncState(teamId, (state) => ({
+      ...state,
+      documents: withoutId(state.documents, documentId),
+      dirty: withoutId(state.dirty, documentId),
+      deleted: withId(state.deleted, documentId),
+    }));
+
+    deleteServerDocument(documentId)
+      .then(() =>
+        updateSyncState(teamId, (state) => ({ ...state, deleted: withoutId(state.deleted, documentId) })),
+      )
+      .catch(reportFailure);
+  }
+
+  function flushPending(): Promise<void> {
+    if (timeoutId !== null) {
+      clearTimeout(timeoutId);
+    }
+    return pushPending();
+  }
+
+  function cancelPending(): void {
+    if (timeoutId !== null) {
+      clearTimeout(timeoutId);
+      timeoutId = null;
+    }
+    pending.clear();
+  }
+
+  return { scheduleDocumentPush, scheduleDocumentDelete, flushPending, cancelPending };
+}
+
+// ============================================================================
+// PUBLIC READ
+// ============================================================================
+
+/**
+ * Loads a document's published snapshot through the public builder-document
+ * endpoint. 'unavailable' means the server couldn't be reached, so callers
+ * can fall back to the local cache.
+ */
+export async function fetchPublishedSnapshot(documentId: string): Promise<PublishedSnapshotResult> {
+  let response: { data: { snapshot?: unknown } | null; error: Error | null };
+  try {
+    response = await supabase.functions.invoke('builder-document', { body: { documentId } });
+  } catch (error) {
+    console.error('[ServerPersistence] Failed to load published snapshot:', error);
+    return { status: 'unavailable' };
+  }
+
+  const { data, error } = response;
+  if (error) {
+    const status = (error as { context?: Response }).context?.status;
+    if (status === 404) return { status: 'not-found' };
+    console.error('[ServerPersistence] Failed to load published snapshot:', error);
+    return { status: 'unavailable' };
+  }
+
+  if (!data?.snapshot) return { status: 'not-published' };
+
+  const migration = migratePayload('snapshot', data.snapshot, documentId);
+  if (migration.ok === false) {
+    console.error('[ServerPersistence] Published snapshot could not be upgraded:', migration.error.message);
+    return { status: 'invalid-snapshot' };
+  }
+  if (!isValidPublishedSnapshot(migration.payload)) return { status: 'invalid-snapshot' };
+  return { status: 'ready', snapshot: migration.payload as PublishedDocumentSnapshot };
+}
@@ -61,6 +61,65 @@ export interface Page {
    * Pages may not have multiple roots to ensure deterministic layout and rendering.
    */
   canvasRoot: CanvasNode;
+  /**
+   * Optional answer-based routing. Pages without it continue to the next
+   * page in order.
+   */
+  routing?: PageRouting;
+}
+
+/**
+ * Answer-based routing and visibility conditions.
+ *
+ * Conditions compare a collected answer (keyed by the input's fieldName) with
+ * an authored value. Routing is evaluated by the runtime when a page is
+ * completed; node visibility is stored as CanvasNode.props.visibility so nodes
+ * stay pure data.
+ */
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'is_set'
+  | 'is_empty';
+
+export type ConditionMatch = 'all' | 'any';
+
+export interface AnswerCondition {
+  id: string;
+  /** Answer key (input fieldName) */
+  field: string;
+  operator: ConditionOperator;
+  value: string;
+}
+
+export interface PageRoute {
+  id: string;
+  match: ConditionMatch;
+  conditions: AnswerCondition[];
+  targetPageId: string;
+}
+
+export interface PageRouting {
+  /** Checked in order; the first matching rule wins */
+  rules: PageRoute[];
+  /**
+   * Where to go when no rule matches:
+   * - undefined: the next page in order
+   * - page ID: that page
+   * - null: the funnel ends here
+   */
+  fallbackPageId?: string | null;
+}
+
+export interface NodeVisibility {
+  action: 'show' | 'hide';
+  match: ConditionMatch;
+  conditions: AnswerCondition[];
 }
 
 /**
@@ -8,6 +8,7 @@ import { Calendar, Mail, User, Clock, History, ArrowRight, AlertTriangle, Refres
 import { EditAppointmentDialog } from "./EditAppointmentDialog";
 import { RescheduleHistory } from "./RescheduleHistory";
 import { CollapsibleNotes } from "./CollapsibleNotes";
+import { UpcomingReminders } from "./UpcomingReminders";
 import { Textarea } from "@/components/ui/textarea";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
@@ -76,6 +77,9 @@ export function AppointmentCard({
   const [updateNote, setUpdateNote] = useState("");
   const [savingUpdate, setSavingUpdate] = useState(false);
   const formattedDate = formatDateTimeWithTimezone(appointment.start_at_utc);
+  const isUpcoming =
+    new Date(appointment.start_at_utc) > new Date() &&
+    !["CANCELLED", "RESCHEDULED", "NO_SHOW", "SHOWED", "CLOSED"].includes(appointment.status);
 
   // Check if this is a rescheduled appointment
   const isRescheduled = appointment.status === 'RESCHEDULED' || appointment.pipeline_stage === 'rescheduled';
@@ -281,6 +285,8 @@ export function AppointmentCard({
           </a>
         )}
 
+        {isUpcoming && <UpcomingReminders appointmentId={appointment.id} />}
+
         <div className="flex items-center gap-2 text-sm flex-wrap">
           {appointment.setter_name ? (
             <div className="flex items-center gap-1.5 px-2.5 py-1.5 bg-info/10 border border-info/30 rounded-md">
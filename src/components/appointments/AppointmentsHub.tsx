@@ -33,6 +33,7 @@ import { SetterEODReport } from "./SetterEODReport";
 import { CloserEODReport } from "./CloserEODReport";
 import { UnassignedAppointments } from "./UnassignedAppointments";
 import { SetterBookingLinks } from "@/components/SetterBookingLinks";
+import { PowerDialerView } from "@/components/dialer/PowerDialerView";
 import { supabase } from "@/integrations/supabase/client";
 import { useEffect } from "react";
 import { useLocation } from "react-router-dom";
@@ -343,6 +344,9 @@ export function AppointmentsHub({
                   </Badge>
                 )}
               </TabsTrigger>
+              <TabsTrigger value="dialer" className="text-[10px] sm:text-base whitespace-nowrap px-2 sm:px-3">
+                Dialer
+              </TabsTrigger>
               <TabsTrigger value="my-assets" className="text-[10px] sm:text-base whitespace-nowrap px-2 sm:px-3">
                 My Assets
               </TabsTrigger>
@@ -408,6 +412,10 @@ export function AppointmentsHub({
             <UnifiedTasksView teamId={teamId} />
           </TabsContent>
 
+          <TabsContent value="dialer" className="mt-6">
+            <PowerDialerView teamId={teamId} />
+          </TabsContent>
+
           <TabsContent value="my-assets" className="mt-6">
             <div className="space-y-6">
               <div>
@@ -692,6 +700,9 @@ export function AppointmentsHub({
                 </Badge>
               )}
             </TabsTrigger>
+            <TabsTrigger value="dialer" className="text-[10px] sm:text-base whitespace-nowrap px-2 sm:px-3">
+              Dialer
+            </TabsTrigger>
           </TabsList>
         </div>
 
@@ -743,6 +754,10 @@ export function AppointmentsHub({
         <TabsContent value="tasks" className="mt-6">
           <UnifiedTasksView teamId={teamId} />
         </TabsContent>
+
+        <TabsContent value="dialer" className="mt-6">
+          <PowerDialerView teamId={teamId} />
+        </TabsContent>
       </Tabs>
 
       <PipelineStageManager 
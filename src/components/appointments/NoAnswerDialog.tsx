@@ -13,6 +13,8 @@ interface NoAnswerDialogProps {
   onConfirm: (callbackMinutes: number, notes: string) => void;
   dealName: string;
   callbackOptions?: number[]; // minutes
+  /** e.g. "Voicemail" when the power dialer reuses this for another retrying outcome */
+  outcomeLabel?: string;
 }
 
 export function NoAnswerDialog({
@@ -20,7 +22,8 @@ export function NoAnswerDialog({
   onOpenChange,
   onConfirm,
   dealName,
-  callbackOptions = [15, 30, 60, 120]
+  callbackOptions = [15, 30, 60, 120],
+  outcomeLabel = "No Answer"
 }: NoAnswerDialogProps) {
   const [selectedOption, setSelectedOption] = useState<string>("double_dial");
   const [customMinutes, setCustomMinutes] = useState<number>(30);
@@ -57,7 +60,7 @@ export function NoAnswerDialog({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <PhoneOff className="h-5 w-5 text-warning" />
-            No Answer - {dealName}
+            {outcomeLabel} - {dealName}
           </DialogTitle>
         </DialogHeader>
 
@@ -126,7 +129,7 @@ export function NoAnswerDialog({
           </Button>
           <Button onClick={handleConfirm}>
             <PhoneOff className="h-4 w-4 mr-2" />
-            Log No Answer
+            Log {outcomeLabel}
           </Button>
         </DialogFooter>
       </DialogContent>
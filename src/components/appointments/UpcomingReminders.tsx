@@ -0,0 +1,35 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { BellRing, Mail, MessageSquare } from "lucide-react";
+import { describeReminderOffset, getAppointmentReminders } from "@/lib/notifications/sendReminder";
+
+interface UpcomingRemindersProps {
+  appointmentId: string;
+}
+
+/** Reminders still due for an appointment, so setters know what the lead will receive. */
+export function UpcomingReminders({ appointmentId }: UpcomingRemindersProps) {
+  const { data: reminders = [] } = useQuery({
+    queryKey: ["appointment-reminders", appointmentId],
+    queryFn: () => getAppointmentReminders(appointmentId),
+    staleTime: 60_000,
+  });
+
+  const upcoming = reminders.filter((r) => r.status === "scheduled" || r.status === "sending");
+  if (upcoming.length === 0) return null;
+
+  return (
+    <div className="flex items-start gap-2 text-xs text-muted-foreground">
+      <BellRing className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+      <div className="flex flex-wrap gap-x-3 gap-y-1">
+        {upcoming.map((reminder) => (
+          <span key={reminder.id} className="flex items-center gap-1">
+            {reminder.channel === "email" ? <Mail className="w-3 h-3" /> : <MessageSquare className="w-3 h-3" />}
+            {describeReminderOffset(reminder.offset_minutes)}
+            <span className="opacity-70">· {format(parseISO(reminder.send_at), "EEE h:mm a")}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BellRing, Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DEFAULT_REMINDER_CONFIG,
+  createReminderStepKey,
+  describeReminderOffset,
+  getTeamReminderConfig,
+  renderReminderPreview,
+  saveTeamReminderConfig,
+  validateReminderConfig,
+  type AppointmentReminderConfig,
+  type ReminderStep,
+} from "@/lib/notifications/sendReminder";
+
+interface AppointmentRemindersCardProps {
+  teamId: string;
+}
+
+type OffsetUnit = "minutes" | "hours";
+
+const UNIT_MINUTES: Record<OffsetUnit, number> = { minutes: 1, hours: 60 };
+
+function defaultUnit(offsetMinutes: number): OffsetUnit {
+  return offsetMinutes % 60 === 0 ? "hours" : "minutes";
+}
+
+export function AppointmentRemindersCard({ teamId }: AppointmentRemindersCardProps) {
+  const queryClient = useQueryClient();
+  const [config, setConfig] = useState<AppointmentReminderConfig>(DEFAULT_REMINDER_CONFIG);
+  const [units, setUnits] = useState<Record<string, OffsetUnit>>({});
+
+  const { data: savedConfig, isLoading } = useQuery({
+    queryKey: ["appointment-reminder-config", teamId],
+    queryFn: () => getTeamReminderConfig(teamId),
+  });
+
+  const { data: team } = useQuery({
+    queryKey: ["reminder-team", teamId],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("teams").select("id, name, timezone").eq("id", teamId).single();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    if (savedConfig) setConfig(savedConfig);
+  }, [savedConfig]);
+
+  const problems = useMemo(() => validateReminderConfig(config), [config]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveTeamReminderConfig(teamId, config),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["appointment-reminder-config", teamId] });
+      toast.success("Reminder sequence saved");
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to save reminders");
+    },
+  });
+
+  const updateStep = (key: string, patch: Partial<ReminderStep>) => {
+    setConfig((prev) => ({ ...prev, steps: prev.steps.map((s) => (s.key === key ? { ...s, ...patch } : s)) }));
+  };
+
+  const addStep = () => {
+    setConfig((prev) => {
+      const offsetMinutes = 120;
+      return {
+        ...prev,
+        steps: [
+          ...prev.steps,
+          {
+            key: createReminderStepKey(offsetMinutes, prev.steps),
+            offsetMinutes,
+            channel: "sms",
+            template: "Reminder: your call with {{team.name}} is {{appointment.start_at_utc | datetime}}.",
+          },
+        ],
+      };
+    });
+  };
+
+  const removeStep = (key: string) => {
+    setConfig((prev) => ({ ...prev, steps: prev.steps.filter((s) => s.key !== key) }));
+  };
+
+  const sortedSteps = [...config.steps].sort((a, b) => b.offsetMinutes - a.offsetMinutes);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Appointment Reminders
+        </CardTitle>
+        <CardDescription>
+          Sent relative to each booked call's start time, in the invitee's timezone. Reminders follow the call when it's
+          rescheduled and stop when it's cancelled. Quiet hours don't apply to them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Send reminders</Label>
+                <p className="text-xs text-muted-foreground">Applies to every upcoming appointment booked after it is turned on</p>
+              </div>
+              <Switch
+                checked={config.enabled}
+                onCheckedChange={(enabled) => setConfig((prev) => ({ ...prev, enabled }))}
+              />
+            </div>
+
+            {sortedSteps.map((step) => {
+              const unit = units[step.key] ?? defaultUnit(step.offsetMinutes);
+              return (
+                <div key={step.key} className="border rounded-lg p-3 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-20"
+                      value={step.offsetMinutes / UNIT_MINUTES[unit]}
+                      onChange={(e) =>
+                        updateStep(step.key, {
+                          offsetMinutes: Math.round((parseFloat(e.target.value) || 0) * UNIT_MINUTES[unit]),
+                        })
+                      }
+                    />
+                    <Select
+                      value={unit}
+                      onValueChange={(value: OffsetUnit) => {
+                        setUnits((prev) => ({ ...prev, [step.key]: value }));
+                        updateStep(step.key, {
+                          offsetMinutes: Math.round((step.offsetMinutes / UNIT_MINUTES[unit]) * UNIT_MINUTES[value]),
+                        });
+                      }}
+                    >
+                      <SelectTrigger className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="minutes">minutes</SelectItem>
+                        <SelectItem value="hours">hours</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <span className="text-sm text-muted-foreground">before, by</span>
+                    <Select
+                      value={step.channel}
+                      onValueChange={(channel: ReminderStep["channel"]) => updateStep(step.key, { channel })}
+                    >
+                      <SelectTrigger className="w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="sms">SMS</SelectItem>
+                        <SelectItem value="email">Email</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="ml-auto h-8 w-8"
+                      title="Remove reminder"
+                      onClick={() => removeStep(step.key)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {step.channel === "email" && (
+                    <Input
+                      value={step.subject ?? ""}
+                      onChange={(e) => updateStep(step.key, { subject: e.target.value })}
+                      placeholder="Subject (defaults to the call name and time)"
+                    />
+                  )}
+                  <Textarea
+                    value={step.template}
+                    onChange={(e) => updateStep(step.key, { template: e.target.value })}
+                    rows={3}
+                  />
+                  <p className="text-xs text-muted-foreground whitespace-pre-wrap">
+                    <span className="font-medium">{describeReminderOffset(step.offsetMinutes)}:</span>{" "}
+                    {renderReminderPreview(step, team ?? null)}
+                  </p>
+                </div>
+              );
+            })}
+
+            <p className="text-xs text-muted-foreground">
+              Use {"{{appointment.meeting_link}}"} and {"{{appointment.reschedule_url}}"} to include the join and
+              reschedule links.
+            </p>
+
+            {problems.length > 0 && (
+              <ul className="text-xs text-destructive list-disc pl-4">
+                {problems.map((problem) => (
+                  <li key={problem}>{problem}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={addStep}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add reminder
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || problems.length > 0}
+              >
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save reminders
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,278 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2 } from "lucide-react";
+import {
+  ATTRIBUTION_WINDOW_OPTIONS,
+  REPLY_WINDOW_DAYS,
+  loadAutomationAnalytics,
+} from "@/lib/automations/analytics";
+import type { AutomationStep } from "@/lib/automations/types";
+
+interface AutomationAnalyticsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  automation: { id: string; name: string; definition: { steps?: AutomationStep[] } } | null;
+}
+
+const RANGE_OPTIONS = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+];
+
+const formatPercent = (value: number | null) => (value === null ? "—" : `${Math.round(value * 1000) / 10}%`);
+const formatCurrency = (value: number) =>
+  value.toLocaleString(undefined, { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+
+function Stat({ label, value, hint }: { label: string; value: string | number; hint?: string }) {
+  return (
+    <div className="rounded-md border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-xl font-semibold">{value}</p>
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+    </div>
+  );
+}
+
+function SectionTitle({ children }: { children: React.ReactNode }) {
+  return <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{children}</p>;
+}
+
+export function AutomationAnalyticsDialog({ open, onOpenChange, teamId, automation }: AutomationAnalyticsDialogProps) {
+  const [rangeDays, setRangeDays] = useState("30");
+  const [windowDays, setWindowDays] = useState("7");
+
+  useEffect(() => {
+    if (!open) return;
+    setRangeDays("30");
+    setWindowDays("7");
+  }, [open, automation?.id]);
+
+  const steps: AutomationStep[] = automation?.definition?.steps ?? [];
+
+  const { data: analytics, isLoading, error } = useQuery({
+    queryKey: ["automation-analytics", automation?.id, rangeDays, windowDays],
+    enabled: open && !!automation,
+    // "Since" is rounded to the day so reopening the dialog hits the cache
+    queryFn: () =>
+      loadAutomationAnalytics({
+        teamId,
+        automationId: automation!.id,
+        steps,
+        since: subDays(new Date(new Date().setHours(0, 0, 0, 0)), Number(rangeDays)),
+        windowDays: Number(windowDays),
+      }),
+  });
+
+  const entered = analytics?.entered ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Analytics: {automation?.name}</DialogTitle>
+          <DialogDescription>
+            Bookings, shows and revenue count toward the most recent enrollment of the same contact within the
+            attribution window.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Select value={rangeDays} onValueChange={setRangeDays}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={windowDays} onValueChange={setWindowDays}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ATTRIBUTION_WINDOW_OPTIONS.map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  {days}-day attribution
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex flex-1 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">
+            {error instanceof Error ? error.message : "Failed to load analytics"}
+          </p>
+        ) : analytics ? (
+          <ScrollArea className="flex-1 pr-3">
+            <div className="space-y-6">
+              {analytics.truncated.length > 0 && (
+                <p className="text-xs text-amber-600">
+                  Only the most recent {analytics.truncated.join(", ")} are included; narrow the date range for full
+                  numbers.
+                </p>
+              )}
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <Stat label="Entered" value={entered} hint={`${analytics.uniqueContacts} unique contacts`} />
+                <Stat label="Completed" value={analytics.statusCounts.success ?? 0} />
+                <Stat
+                  label="In progress"
+                  value={(analytics.statusCounts.running ?? 0) + (analytics.statusCounts.waiting ?? 0)}
+                  hint={analytics.statusCounts.exited ? `${analytics.statusCounts.exited} exited early` : undefined}
+                />
+                <Stat label="Failed" value={analytics.statusCounts.error ?? 0} />
+              </div>
+
+              <div className="space-y-2">
+                <SectionTitle>Step funnel</SectionTitle>
+                {analytics.steps.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">This automation has no steps.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Step</TableHead>
+                        <TableHead className="w-[30%]">Reached</TableHead>
+                        <TableHead className="text-right">Done</TableHead>
+                        <TableHead className="text-right">Conditions not met</TableHead>
+                        <TableHead className="text-right">Other skips</TableHead>
+                        <TableHead className="text-right">Failed</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {analytics.steps.map((step, index) => (
+                        <TableRow key={step.stepId}>
+                          <TableCell className="font-medium">
+                            {step.removed ? "" : `${index + 1}. `}
+                            {step.label}
+                            {step.removed && <Badge variant="outline" className="ml-2">Removed</Badge>}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <Progress value={entered ? (step.reached / entered) * 100 : 0} className="h-2" />
+                              <span className="text-xs tabular-nums w-10 text-right">{step.reached}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">{step.completed}</TableCell>
+                          <TableCell className="text-right tabular-nums">{step.skippedByConditions}</TableCell>
+                          <TableCell className="text-right tabular-nums">{step.skippedOther}</TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {step.failed > 0 ? <span className="text-destructive">{step.failed}</span> : 0}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <SectionTitle>Messages</SectionTitle>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <Stat
+                    label="Sent"
+                    value={analytics.messages.sent}
+                    hint={analytics.messages.suppressed ? `${analytics.messages.suppressed} suppressed` : undefined}
+                  />
+                  <Stat
+                    label="Delivery rate"
+                    value={formatPercent(analytics.messages.deliveryRate)}
+                    hint={`${analytics.messages.delivered} delivered, ${analytics.messages.failed} failed`}
+                  />
+                  <Stat
+                    label="SMS reply rate"
+                    value={formatPercent(analytics.messages.replyRate)}
+                    hint={`${analytics.messages.replied} of ${analytics.messages.smsRecipients} within ${REPLY_WINDOW_DAYS} days`}
+                  />
+                  <Stat label="Total logged" value={analytics.messages.total} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <SectionTitle>Outcomes ({analytics.outcomes.windowDays}-day window)</SectionTitle>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <Stat
+                    label="Booked"
+                    value={analytics.outcomes.appointmentsBooked}
+                    hint={`${formatPercent(entered ? analytics.outcomes.bookedRuns / entered : null)} of enrollments`}
+                  />
+                  <Stat
+                    label="Showed"
+                    value={analytics.outcomes.appointmentsShowed}
+                    hint={`${formatPercent(entered ? analytics.outcomes.showedRuns / entered : null)} of enrollments`}
+                  />
+                  <Stat
+                    label="Revenue"
+                    value={formatCurrency(analytics.outcomes.revenue)}
+                    hint={`${analytics.outcomes.paidRuns} paying contacts`}
+                  />
+                  <Stat
+                    label="Revenue / enrollment"
+                    value={
+                      analytics.outcomes.revenuePerEnrollment === null
+                        ? "—"
+                        : formatCurrency(analytics.outcomes.revenuePerEnrollment)
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <SectionTitle>Failures</SectionTitle>
+                {analytics.failures.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No failures in this period.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Error</TableHead>
+                        <TableHead>Source</TableHead>
+                        <TableHead className="text-right">Count</TableHead>
+                        <TableHead>Last seen</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {analytics.failures.slice(0, 20).map((failure) => (
+                        <TableRow key={`${failure.source}:${failure.message}`}>
+                          <TableCell className="text-xs max-w-[320px] break-words">
+                            {failure.message}
+                            {failure.exampleRunId && (
+                              <p className="font-mono text-muted-foreground">run {failure.exampleRunId.slice(0, 8)}</p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            {analytics.steps.find((s) => s.stepId === failure.source)?.label ?? failure.source}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">{failure.count}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {format(new Date(failure.lastSeen), "MMM d, h:mm a")}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </div>
+          </ScrollArea>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,211 @@
+import { useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, Loader2, Sparkles, Wand2 } from "lucide-react";
+import { toast } from "sonner";
+import type { AiRewriteTemplateRequest } from "@/lib/ai/types";
+import {
+  findMessageTemplates,
+  requestTemplateRewrite,
+  requestWorkflowSuggestion,
+  type MessageTemplateRef,
+  type ValidatedWorkflowSuggestion,
+} from "@/lib/ai/workflowAssistant";
+
+interface AutomationAssistantPanelProps {
+  teamId: string;
+  /** Current contents of the JSON editor; may be mid-edit and invalid */
+  definitionJson: string;
+  onApplySuggestion: (suggestion: ValidatedWorkflowSuggestion) => void;
+  onReplaceTemplate: (id: string, template: string) => void;
+}
+
+type Tone = AiRewriteTemplateRequest["tone"];
+
+const TONES: { value: Tone; label: string }[] = [
+  { value: "casual", label: "Casual" },
+  { value: "professional", label: "Professional" },
+  { value: "soft", label: "Soft" },
+  { value: "aggressive", label: "Urgent" },
+];
+
+export function AutomationAssistantPanel({
+  teamId,
+  definitionJson,
+  onApplySuggestion,
+  onReplaceTemplate,
+}: AutomationAssistantPanelProps) {
+  const [niche, setNiche] = useState("");
+  const [goal, setGoal] = useState("");
+  const [messageId, setMessageId] = useState("");
+  const [tone, setTone] = useState<Tone>("casual");
+  const [audience, setAudience] = useState("");
+
+  const messages = useMemo(() => {
+    try {
+      return findMessageTemplates(JSON.parse(definitionJson));
+    } catch {
+      return [];
+    }
+  }, [definitionJson]);
+  const message = messages.find((m) => m.id === messageId) ?? messages[0];
+
+  const suggestMutation = useMutation({
+    mutationFn: () => requestWorkflowSuggestion({ task: "suggest_workflow", teamId, niche, goal }),
+    onError: (err) => toast.error(err instanceof Error ? err.message : "Couldn't suggest a flow"),
+  });
+
+  const rewriteMutation = useMutation({
+    mutationFn: (target: MessageTemplateRef) =>
+      requestTemplateRewrite({
+        task: "rewrite_message_template",
+        channel: target.channel,
+        tone,
+        currentTemplate: target.template,
+        targetAvatarDescription: audience,
+      }),
+    onError: (err) => toast.error(err instanceof Error ? err.message : "Couldn't rewrite the message"),
+  });
+
+  const suggestion = suggestMutation.data;
+  const rewrite = rewriteMutation.data;
+  // The message the rewrite was made for, even if the selection changed since
+  const rewriteTarget = rewriteMutation.variables;
+
+  return (
+    <div className="space-y-4 rounded-lg border bg-muted/20 p-4">
+      <div className="space-y-3">
+        <div>
+          <p className="text-sm font-medium">Suggest a flow</p>
+          <p className="text-xs text-muted-foreground">Describe the business and the goal; review the steps before using them.</p>
+        </div>
+        <div className="grid grid-cols-[1fr_1fr_auto] gap-2">
+          <Input value={niche} onChange={(e) => setNiche(e.target.value)} placeholder="Niche, e.g. fitness coaching" />
+          <Input value={goal} onChange={(e) => setGoal(e.target.value)} placeholder="Goal, e.g. recover no-shows" />
+          <Button
+            type="button"
+            size="sm"
+            className="h-10"
+            onClick={() => suggestMutation.mutate()}
+            disabled={!goal.trim() || suggestMutation.isPending}
+          >
+            {suggestMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+            Suggest
+          </Button>
+        </div>
+
+        {suggestion && (
+          <div className="rounded-md border bg-background p-3 space-y-2">
+            <div>
+              <p className="text-sm font-medium">{suggestion.title}</p>
+              {suggestion.description && <p className="text-xs text-muted-foreground">{suggestion.description}</p>}
+            </div>
+            <ol className="space-y-1 text-xs">
+              {suggestion.suggestedSteps.map((step, i) => (
+                <li key={i}>
+                  <span className="text-muted-foreground">{i + 1}.</span> <span className="font-medium">{step.label}</span>
+                  {step.explanation && <span className="text-muted-foreground"> – {step.explanation}</span>}
+                </li>
+              ))}
+            </ol>
+            {suggestion.warnings?.map((warning, i) => (
+              <p key={i} className="flex items-start gap-1.5 text-xs text-amber-600">
+                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                {warning}
+              </p>
+            ))}
+            <div className="flex justify-end">
+              <Button type="button" size="sm" variant="outline" onClick={() => onApplySuggestion(suggestion)}>
+                Use this flow
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3 border-t pt-4">
+        <div>
+          <p className="text-sm font-medium">Rewrite a message</p>
+          <p className="text-xs text-muted-foreground">Variables like {"{{lead.first_name}}"} are kept.</p>
+        </div>
+        {messages.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No send-message steps with a template in the definition.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={message?.id} onValueChange={setMessageId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Message" />
+                </SelectTrigger>
+                <SelectContent>
+                  {messages.map((m) => (
+                    <SelectItem key={m.id} value={m.id}>
+                      {m.label} ({m.channel})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={tone} onValueChange={(v) => setTone(v as Tone)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TONES.map((t) => (
+                    <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-[1fr_auto] gap-2">
+              <Input
+                value={audience}
+                onChange={(e) => setAudience(e.target.value)}
+                placeholder="Who it's for, e.g. busy moms looking to get fit"
+              />
+              <Button
+                type="button"
+                size="sm"
+                className="h-10"
+                onClick={() => rewriteMutation.mutate(message!)}
+                disabled={!message || rewriteMutation.isPending}
+              >
+                {rewriteMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wand2 className="h-4 w-4 mr-2" />}
+                Rewrite
+              </Button>
+            </div>
+            {message && <p className="text-xs text-muted-foreground font-mono break-words">{message.template}</p>}
+
+            {rewrite && (
+              <div className="rounded-md border bg-background p-3 space-y-2">
+                <p className="text-xs text-muted-foreground">Rewrite of {rewriteTarget?.label}</p>
+                <p className="text-sm font-mono break-words">{rewrite.improvedTemplate}</p>
+                {rewrite.rationale && <p className="text-xs text-muted-foreground">{rewrite.rationale}</p>}
+                <div className="flex justify-end">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      onReplaceTemplate(rewriteTarget!.id, rewrite.improvedTemplate);
+                      rewriteMutation.reset();
+                    }}
+                  >
+                    Replace message
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
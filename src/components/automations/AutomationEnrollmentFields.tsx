@@ -0,0 +1,119 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type {
+  AutomationEnrollmentSettings,
+  AutomationGoal,
+  EnrollmentMode,
+  TriggerType,
+} from "@/lib/automations/types";
+
+interface AutomationEnrollmentFieldsProps {
+  value: AutomationEnrollmentSettings;
+  onChange: (patch: Partial<AutomationEnrollmentSettings>) => void;
+}
+
+/** Events that make sense as "the contact reached the goal" */
+const GOAL_TRIGGERS: { value: TriggerType; label: string }[] = [
+  { value: "appointment_booked", label: "Books an appointment" },
+  { value: "appointment_rescheduled", label: "Reschedules" },
+  { value: "appointment_completed", label: "Shows up / closes" },
+  { value: "appointment_cancelled", label: "Cancels" },
+  { value: "pipeline_stage_changed", label: "Changes pipeline stage" },
+  { value: "payment_received", label: "Pays" },
+  { value: "deposit_collected", label: "Pays a deposit" },
+  { value: "message_received", label: "Replies" },
+  { value: "lead_tag_added", label: "Gets a tag" },
+];
+
+/**
+ * Enrollment policy, goals and exclusion group for an automation. Goal
+ * conditions can only be edited in the definition JSON; toggling a trigger
+ * here keeps any conditions already on it.
+ */
+export function AutomationEnrollmentFields({ value, onChange }: AutomationEnrollmentFieldsProps) {
+  const mode: EnrollmentMode = value.enrollment?.mode ?? "every_event";
+  const goals = value.goals ?? [];
+
+  const toggleGoal = (trigger: TriggerType, checked: boolean) => {
+    const next: AutomationGoal[] = checked
+      ? [...goals, { trigger }]
+      : goals.filter((goal) => goal.trigger !== trigger);
+    onChange({ goals: next });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <Label className="text-xs">Enrollment</Label>
+        <div className="flex items-center gap-2">
+          <Select
+            value={mode}
+            onValueChange={(next: EnrollmentMode) =>
+              onChange({
+                enrollment:
+                  next === "once_per_period"
+                    ? { mode: next, periodDays: value.enrollment?.periodDays ?? 30 }
+                    : { mode: next },
+              })
+            }
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="every_event">Every time the trigger fires</SelectItem>
+              <SelectItem value="once_per_contact">Once per contact, ever</SelectItem>
+              <SelectItem value="once_per_period">Once per contact every…</SelectItem>
+            </SelectContent>
+          </Select>
+          {mode === "once_per_period" && (
+            <>
+              <Input
+                type="number"
+                min={1}
+                className="h-8 w-20"
+                value={value.enrollment?.periodDays ?? 30}
+                onChange={(e) =>
+                  onChange({ enrollment: { mode, periodDays: Math.max(1, parseInt(e.target.value, 10) || 1) } })
+                }
+              />
+              <span className="text-xs text-muted-foreground">days</span>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">Exclusion group</Label>
+        <Input
+          className="h-8"
+          value={value.exclusionGroup ?? ""}
+          onChange={(e) => onChange({ exclusionGroup: e.target.value || null })}
+          placeholder="e.g. nurture"
+        />
+        <p className="text-xs text-muted-foreground">
+          A contact already in another automation of this group won't be enrolled.
+        </p>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">Stop early when the contact…</Label>
+        <div className="grid grid-cols-2 gap-1.5">
+          {GOAL_TRIGGERS.map((trigger) => {
+            const goal = goals.find((g) => g.trigger === trigger.value);
+            return (
+              <label key={trigger.value} className="flex items-center gap-2 text-xs cursor-pointer">
+                <Checkbox checked={!!goal} onCheckedChange={(checked) => toggleGoal(trigger.value, checked === true)} />
+                {trigger.label}
+                {goal?.conditions?.length ? <span className="text-muted-foreground">(filtered)</span> : null}
+              </label>
+            );
+          })}
+        </div>
+        <p className="text-xs text-muted-foreground">Runs waiting on a delay end and skip their remaining steps.</p>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import {
   Dialog,
   DialogContent,
@@ -20,8 +21,21 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Loader2 } from "lucide-react";
-import type { TriggerType } from "@/lib/automations/types";
+import { FlaskConical, Loader2, Sparkles } from "lucide-react";
+import type {
+  AutomationDefinition,
+  AutomationEnrollmentSettings,
+  AutomationGoal,
+  AutomationStep,
+  TriggerType,
+} from "@/lib/automations/types";
+import { validateStepTemplates } from "@/lib/automations/templateUtils";
+import { compileWorkflow } from "@/lib/workflows/serializer";
+import type { WorkflowDefinition } from "@/lib/workflows/types";
+import { AutomationTestPanel } from "./AutomationTestPanel";
+import { AutomationEnrollmentFields } from "./AutomationEnrollmentFields";
+import { AutomationAssistantPanel } from "./AutomationAssistantPanel";
+import { replaceMessageTemplate, type ValidatedWorkflowSuggestion } from "@/lib/ai/workflowAssistant";
 
 interface AutomationFormDialogProps {
   open: boolean;
@@ -43,7 +57,12 @@ const TRIGGER_TYPES: { value: TriggerType; label: string }[] = [
   { value: "appointment_rescheduled", label: "Appointment Rescheduled" },
   { value: "appointment_no_show", label: "Appointment No Show" },
   { value: "appointment_completed", label: "Appointment Completed" },
+  { value: "appointment_cancelled", label: "Appointment Cancelled" },
+  { value: "pipeline_stage_changed", label: "Pipeline Stage Changed" },
+  { value: "task_overdue", label: "Task Overdue" },
   { value: "payment_received", label: "Payment Received" },
+  { value: "deposit_collected", label: "Deposit Collected" },
+  { value: "message_received", label: "Message Received" },
   { value: "time_delay", label: "Time Delay" },
 ];
 
@@ -83,6 +102,9 @@ export function AutomationFormDialog({
   const [description, setDescription] = useState("");
   const [triggerType, setTriggerType] = useState<TriggerType>("appointment_booked");
   const [definitionJson, setDefinitionJson] = useState("");
+  const [showTest, setShowTest] = useState(false);
+  const [showAssistant, setShowAssistant] = useState(false);
+  const [enrollment, setEnrollment] = useState<AutomationEnrollmentSettings>({});
 
   useEffect(() => {
     if (automation) {
@@ -90,32 +112,114 @@ export function AutomationFormDialog({
       setDescription(automation.description || "");
       setTriggerType(automation.trigger_type as TriggerType);
       setDefinitionJson(JSON.stringify(automation.definition, null, 2));
+      setEnrollment({
+        enrollment: automation.definition?.enrollment,
+        goals: automation.definition?.goals,
+        exclusionGroup: automation.definition?.exclusionGroup ?? null,
+      });
     } else {
       setName("");
       setDescription("");
       setTriggerType("appointment_booked");
       setDefinitionJson(JSON.stringify(SAMPLE_DEFINITION, null, 2));
+      setEnrollment({});
     }
+    setShowTest(false);
+    setShowAssistant(false);
   }, [automation, open]);
 
-  const saveMutation = useMutation({
-    mutationFn: async () => {
-      let parsedDefinition: Record<string, any>;
-      try {
-        parsedDefinition = JSON.parse(definitionJson);
-      } catch {
-        throw new Error("Invalid JSON in definition");
+  // The suggestion goes in as a workflow graph; buildDefinition compiles it on save
+  const applySuggestion = (suggestion: ValidatedWorkflowSuggestion) => {
+    if (!name.trim()) setName(suggestion.title);
+    if (!description.trim()) setDescription(suggestion.description);
+    setTriggerType(suggestion.automation.trigger.type);
+    setDefinitionJson(
+      JSON.stringify({ nodes: suggestion.workflowDefinition.nodes, edges: suggestion.workflowDefinition.edges }, null, 2),
+    );
+    toast.success("Suggested flow added to the definition");
+  };
+
+  const replaceTemplate = (id: string, template: string) => {
+    try {
+      setDefinitionJson(JSON.stringify(replaceMessageTemplate(JSON.parse(definitionJson), id, template), null, 2));
+    } catch {
+      toast.error("Fix the definition JSON before replacing a message");
+    }
+  };
+
+  /**
+   * Parses the JSON editor into the definition that gets stored (and dry-run).
+   * Throws with a readable message when the JSON or workflow is invalid.
+   */
+  const buildDefinition = (): { definition: Partial<AutomationDefinition>; triggerType: TriggerType } => {
+    let parsedDefinition: Partial<AutomationDefinition>;
+    try {
+      parsedDefinition = JSON.parse(definitionJson);
+    } catch {
+      throw new Error("Invalid JSON in definition");
+    }
+
+    // A WorkflowDefinition graph (nodes + edges) is validated and compiled
+    // into an executable definition before it is stored.
+    let effectiveTriggerType = triggerType;
+    if (Array.isArray(parsedDefinition.nodes) && Array.isArray(parsedDefinition.edges)) {
+      const { automation: compiled, errors } = compileWorkflow({
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        ...parsedDefinition,
+        id: automation?.id || parsedDefinition.id || crypto.randomUUID(),
+        teamId,
+        name,
+        isActive: true,
+      } as WorkflowDefinition);
+
+      if (!compiled) {
+        throw new Error(`Workflow is invalid:\n${errors.map((e) => `• ${e.message}`).join("\n")}`);
       }
 
-      // Update the definition with form values
-      parsedDefinition.id = automation?.id || crypto.randomUUID();
-      parsedDefinition.teamId = teamId;
-      parsedDefinition.name = name;
-      parsedDefinition.description = description;
-      parsedDefinition.trigger = {
-        ...parsedDefinition.trigger,
-        type: triggerType,
+      effectiveTriggerType = compiled.trigger.type;
+      parsedDefinition = {
+        ...parsedDefinition,
+        trigger: compiled.trigger,
+        steps: compiled.steps,
+        entryStepId: compiled.entryStepId,
       };
+    }
+
+    // Unknown variables would otherwise go out as blanks in real messages
+    const templateProblems = (Array.isArray(parsedDefinition.steps) ? parsedDefinition.steps : []).flatMap(
+      (step: AutomationStep) =>
+        validateStepTemplates(step.type, step.config).map((problem) => `${step.id}: ${problem}`),
+    );
+    if (templateProblems.length > 0) {
+      throw new Error(`Message templates have problems:\n${templateProblems.map((p) => `• ${p}`).join("\n")}`);
+    }
+
+    // Update the definition with form values
+    parsedDefinition.id = automation?.id || crypto.randomUUID();
+    parsedDefinition.teamId = teamId;
+    parsedDefinition.name = name;
+    parsedDefinition.description = description;
+    parsedDefinition.trigger = {
+      config: {},
+      ...parsedDefinition.trigger,
+      type: effectiveTriggerType,
+    };
+
+    // Goal triggers come from the form; conditions on them can only be written in the JSON
+    const jsonGoals: AutomationGoal[] = Array.isArray(parsedDefinition.goals) ? parsedDefinition.goals : [];
+    parsedDefinition.enrollment = enrollment.enrollment ?? { mode: "every_event" };
+    parsedDefinition.goals = (enrollment.goals ?? []).map(
+      (goal) => jsonGoals.find((g) => g.trigger === goal.trigger) ?? goal,
+    );
+    parsedDefinition.exclusionGroup = enrollment.exclusionGroup?.trim() || null;
+
+    return { definition: parsedDefinition, triggerType: effectiveTriggerType };
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const { definition: parsedDefinition, triggerType: effectiveTriggerType } = buildDefinition();
 
       if (isEditing && automation) {
         const { error } = await supabase
@@ -123,8 +227,8 @@ export function AutomationFormDialog({
           .update({
             name,
             description,
-            trigger_type: triggerType,
-            definition: parsedDefinition,
+            trigger_type: effectiveTriggerType,
+            definition: parsedDefinition as unknown as Json,
             updated_at: new Date().toISOString(),
           })
           .eq("id", automation.id);
@@ -135,8 +239,8 @@ export function AutomationFormDialog({
           team_id: teamId,
           name,
           description,
-          trigger_type: triggerType,
-          definition: parsedDefinition,
+          trigger_type: effectiveTriggerType,
+          definition: parsedDefinition as unknown as Json,
           is_active: true,
         });
 
@@ -210,11 +314,18 @@ export function AutomationFormDialog({
             </Select>
           </div>
 
+          <div className="space-y-2 rounded-md border p-3">
+            <AutomationEnrollmentFields
+              value={enrollment}
+              onChange={(patch) => setEnrollment((prev) => ({ ...prev, ...patch }))}
+            />
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="definition">
               Definition (JSON)
               <span className="text-xs text-muted-foreground ml-2">
-                Full AutomationDefinition structure
+                AutomationDefinition, or a workflow graph with nodes and edges
               </span>
             </Label>
             <Textarea
@@ -226,7 +337,37 @@ export function AutomationFormDialog({
             />
           </div>
 
+          {showAssistant && (
+            <AutomationAssistantPanel
+              teamId={teamId}
+              definitionJson={definitionJson}
+              onApplySuggestion={applySuggestion}
+              onReplaceTemplate={replaceTemplate}
+            />
+          )}
+
+          {showTest && (
+            <AutomationTestPanel
+              teamId={teamId}
+              triggerType={triggerType}
+              buildDefinition={() => buildDefinition().definition as AutomationDefinition}
+            />
+          )}
+
           <DialogFooter>
+            <Button
+              type="button"
+              variant="ghost"
+              className="sm:mr-auto"
+              onClick={() => setShowTest((v) => !v)}
+            >
+              <FlaskConical className="h-4 w-4 mr-2" />
+              {showTest ? "Hide test" : "Test this automation"}
+            </Button>
+            <Button type="button" variant="ghost" onClick={() => setShowAssistant((v) => !v)}>
+              <Sparkles className="h-4 w-4 mr-2" />
+              {showAssistant ? "Hide assistant" : "AI assistant"}
+            </Button>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
             </Button>
@@ -2,14 +2,19 @@ import { useEffect, useMemo, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { getOpenJobsForRuns, type ScheduledAutomationJob } from "@/lib/automations/scheduler";
 
 type AutomationRunRow = {
   id: string;
   team_id: string;
   automation_id: string | null;
   trigger_type: string;
-  status: "success" | "error" | string;
+  status: "success" | "error" | "running" | "waiting" | "exited" | string;
   error_message: string | null;
+  /** Why an exited run ended early (its automation's goal was met) */
+  exit_reason: string | null;
+  /** Definition version the run started on */
+  automation_versions: { version_number: number } | null;
   steps_executed: any;
   context_snapshot: any;
   created_at: string;
@@ -27,6 +32,7 @@ export default function AutomationRunsList({ teamId }: { teamId: string }) {
   const [rows, setRows] = useState<AutomationRunRow[]>([]);
   const [loading, setLoading] = useState(false);
   const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [waitingJobs, setWaitingJobs] = useState<Record<string, ScheduledAutomationJob>>({});
 
   const load = async () => {
     setLoading(true);
@@ -34,7 +40,7 @@ export default function AutomationRunsList({ teamId }: { teamId: string }) {
     const { data, error } = await supabase
       .from("automation_runs")
       .select(
-        "id, team_id, automation_id, trigger_type, status, error_message, steps_executed, context_snapshot, created_at",
+        "id, team_id, automation_id, trigger_type, status, error_message, exit_reason, automation_versions(version_number), steps_executed, context_snapshot, created_at",
       )
       .eq("team_id", teamId)
       .order("created_at", { ascending: false })
@@ -47,7 +53,9 @@ export default function AutomationRunsList({ teamId }: { teamId: string }) {
       return;
     }
 
-    setRows((data as AutomationRunRow[]) ?? []);
+    const runs = (data as unknown as AutomationRunRow[]) ?? [];
+    setRows(runs);
+    setWaitingJobs(await getOpenJobsForRuns(runs.filter((r) => r.status === "waiting").map((r) => r.id)));
     setLoading(false);
   };
 
@@ -81,11 +89,13 @@ export default function AutomationRunsList({ teamId }: { teamId: string }) {
           <div className="space-y-2">
             {displayRows.map((r) => {
               const open = !!expanded[r.id];
+              const waitingJob = waitingJobs[r.id];
               return (
                 <div key={r.id} className="rounded-lg border border-white/10 bg-black/20 p-3">
                   <div className="flex flex-wrap items-center gap-2">
                     <span className="text-xs text-white/70">
                       {r.automation_id ? r.automation_id.slice(0, 8) : "Template Automation"}
+                      {r.automation_versions ? ` · v${r.automation_versions.version_number}` : ""}
                     </span>
                     <span className="text-xs rounded-full bg-white/10 px-2 py-1">{r.trigger_type}</span>
                     <span
@@ -96,10 +106,16 @@ export default function AutomationRunsList({ teamId }: { teamId: string }) {
                             ? "bg-red-500/20 text-red-200"
                             : r.status === "running"
                               ? "bg-yellow-500/20 text-yellow-200"
-                              : "bg-white/10 text-white/80"
+                              : r.status === "waiting"
+                                ? "bg-sky-500/20 text-sky-200"
+                                : r.status === "exited"
+                                  ? "bg-violet-500/20 text-violet-200"
+                                  : "bg-white/10 text-white/80"
                       }`}
                     >
-                      {r.status}
+                      {r.status === "waiting" && waitingJob
+                        ? `waiting until ${new Date(waitingJob.runAt).toLocaleString()}`
+                        : r.status}
                     </span>
 
                     <span className="text-xs text-white/50">{new Date(r.created_at).toLocaleString()}</span>
@@ -116,6 +132,12 @@ export default function AutomationRunsList({ teamId }: { teamId: string }) {
                   </div>
 
                   {r.error_message ? <div className="mt-2 text-xs text-red-200/90">{r.error_message}</div> : null}
+                  {r.exit_reason ? <div className="mt-2 text-xs text-violet-200/90">{r.exit_reason}</div> : null}
+                  {waitingJob?.lastError ? (
+                    <div className="mt-2 text-xs text-yellow-200/90">
+                      Retry {waitingJob.attempts}/{waitingJob.maxAttempts}: {waitingJob.lastError}
+                    </div>
+                  ) : null}
 
                   {open ? (
                     <div className="mt-3 grid gap-3 md:grid-cols-2">
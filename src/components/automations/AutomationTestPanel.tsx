@@ -0,0 +1,259 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Play, GitBranch, CheckCircle2, XCircle, MinusCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { AutomationDefinition, TriggerType } from "@/lib/automations/types";
+import type { ConditionTrace } from "@/lib/automations/conditions";
+import {
+  dryRunAutomation,
+  type AutomationTriggerPayload,
+  type StepExecutionLog,
+} from "@/lib/automations/triggerHelper";
+import {
+  getRecentAppointmentPayloads,
+  getRecentLeadPayloads,
+  getSamplePayload,
+} from "@/lib/automations/samplePayloads";
+
+interface AutomationTestPanelProps {
+  teamId: string;
+  triggerType: TriggerType;
+  /** Builds the definition currently in the editor; throws if it is invalid */
+  buildDefinition: () => AutomationDefinition;
+}
+
+type PayloadSource = "sample" | "lead" | "appointment";
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  if (typeof value === "string") return `"${value}"`;
+  return JSON.stringify(value);
+}
+
+function ConditionTraceView({ trace, depth = 0 }: { trace: ConditionTrace; depth?: number }) {
+  const icon = trace.passed ? (
+    <CheckCircle2 className="h-3.5 w-3.5 text-emerald-600 flex-shrink-0" />
+  ) : (
+    <XCircle className="h-3.5 w-3.5 text-destructive flex-shrink-0" />
+  );
+
+  if ("results" in trace) {
+    return (
+      <div className={cn("space-y-1", depth > 0 && "pl-4 border-l")}>
+        <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          {icon}
+          <span>{trace.logic === "OR" ? "Any of" : "All of"}</span>
+        </div>
+        {trace.results.map((result, i) => (
+          <ConditionTraceView key={i} trace={result} depth={depth + 1} />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-start gap-1.5 text-xs font-mono">
+      {icon}
+      <span>
+        {trace.field} <span className="text-muted-foreground">{trace.operator}</span> {formatValue(trace.expected)}
+        <span className="text-muted-foreground"> (actual: {formatValue(trace.actual)})</span>
+      </span>
+    </div>
+  );
+}
+
+function StepTrace({ log, index }: { log: StepExecutionLog; index: number }) {
+  const status = log.error ? "error" : log.skipped ? "skipped" : "ran";
+
+  return (
+    <div className="border rounded-md p-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">{index + 1}.</span>
+        {log.actionType === "condition" ? (
+          <GitBranch className="h-4 w-4 text-muted-foreground" />
+        ) : status === "skipped" ? (
+          <MinusCircle className="h-4 w-4 text-muted-foreground" />
+        ) : status === "error" ? (
+          <XCircle className="h-4 w-4 text-destructive" />
+        ) : (
+          <CheckCircle2 className="h-4 w-4 text-emerald-600" />
+        )}
+        <span className="font-medium">{log.actionType}</span>
+        <span className="text-xs text-muted-foreground font-mono">{log.stepId}</span>
+        {log.branchTaken && (
+          <Badge variant="outline" className="ml-auto text-xs">
+            took "{log.branchTaken}" branch
+          </Badge>
+        )}
+        {log.skipped && (
+          <Badge variant="outline" className="ml-auto text-xs">
+            skipped: {log.skipReason}
+          </Badge>
+        )}
+      </div>
+
+      {log.conditionTrace && log.conditionTrace.results.length > 0 && (
+        <ConditionTraceView trace={log.conditionTrace} />
+      )}
+
+      {log.to && (
+        <p className="text-xs">
+          <span className="text-muted-foreground">To:</span> {log.to}
+          {log.channel && <span className="text-muted-foreground"> via {log.channel}</span>}
+        </p>
+      )}
+      {log.renderedBody && (
+        <pre className="text-xs whitespace-pre-wrap bg-muted/50 rounded p-2">{log.renderedBody}</pre>
+      )}
+      {log.tag && <p className="text-xs"><span className="text-muted-foreground">Tag:</span> {log.tag}</p>}
+      {log.ownerId && <p className="text-xs"><span className="text-muted-foreground">Owner:</span> {log.ownerId}</p>}
+      {log.stageId && <p className="text-xs"><span className="text-muted-foreground">Stage:</span> {log.stageId}</p>}
+      {log.waitUntil && (
+        <p className="text-xs text-muted-foreground">Would wait until {new Date(log.waitUntil).toLocaleString()}</p>
+      )}
+      {log.deferredUntil && (
+        <p className="text-xs text-muted-foreground">
+          Quiet hours: would send at {new Date(log.deferredUntil).toLocaleString()}
+        </p>
+      )}
+      {log.error && <p className="text-xs text-destructive">{log.error}</p>}
+    </div>
+  );
+}
+
+export function AutomationTestPanel({ teamId, triggerType, buildDefinition }: AutomationTestPanelProps) {
+  const [source, setSource] = useState<PayloadSource>("sample");
+  const [recordId, setRecordId] = useState<string>("");
+  const [payloadJson, setPayloadJson] = useState(() => JSON.stringify(getSamplePayload(triggerType), null, 2));
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [logs, setLogs] = useState<StepExecutionLog[] | null>(null);
+
+  const { data: records = [] } = useQuery({
+    queryKey: ["automation-test-records", teamId, source],
+    queryFn: () => (source === "lead" ? getRecentLeadPayloads(teamId) : getRecentAppointmentPayloads(teamId)),
+    enabled: source !== "sample",
+  });
+
+  useEffect(() => {
+    if (source === "sample") {
+      setPayloadJson(JSON.stringify(getSamplePayload(triggerType), null, 2));
+    }
+  }, [source, triggerType]);
+
+  useEffect(() => {
+    const record = records.find((r) => r.id === recordId);
+    if (record) setPayloadJson(JSON.stringify(record.payload, null, 2));
+  }, [records, recordId]);
+
+  const runTest = async () => {
+    setError(null);
+    setLogs(null);
+
+    let eventPayload: AutomationTriggerPayload["eventPayload"];
+    let automation: AutomationDefinition;
+    try {
+      eventPayload = JSON.parse(payloadJson);
+    } catch {
+      setError("Test payload is not valid JSON");
+      return;
+    }
+    try {
+      automation = buildDefinition();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Definition is invalid");
+      return;
+    }
+
+    setIsRunning(true);
+    const response = await dryRunAutomation({ teamId, triggerType, automation, eventPayload });
+    setIsRunning(false);
+
+    if (response.status === "error") {
+      setError(response.error || "Dry run failed");
+      return;
+    }
+    setLogs(response.stepsExecuted);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-muted/20 p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium">Test this automation</p>
+          <p className="text-xs text-muted-foreground">Dry run – nothing is sent or saved.</p>
+        </div>
+        <Button type="button" size="sm" onClick={runTest} disabled={isRunning}>
+          {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+          Run test
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Select
+          value={source}
+          onValueChange={(v) => {
+            setSource(v as PayloadSource);
+            setRecordId("");
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="sample">Sample data</SelectItem>
+            <SelectItem value="lead">A real lead</SelectItem>
+            <SelectItem value="appointment">A real appointment</SelectItem>
+          </SelectContent>
+        </Select>
+        {source !== "sample" && (
+          <Select value={recordId} onValueChange={setRecordId}>
+            <SelectTrigger>
+              <SelectValue placeholder={records.length ? "Pick one…" : "None found"} />
+            </SelectTrigger>
+            <SelectContent>
+              {records.map((r) => (
+                <SelectItem key={r.id} value={r.id}>
+                  {r.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Event payload</Label>
+        <Textarea
+          value={payloadJson}
+          onChange={(e) => setPayloadJson(e.target.value)}
+          className="font-mono text-xs"
+          rows={6}
+        />
+      </div>
+
+      {error && <p className="text-sm text-destructive whitespace-pre-wrap">{error}</p>}
+
+      {logs && (
+        <div className="space-y-2">
+          {logs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No steps ran.</p>
+          ) : (
+            logs.map((log, i) => <StepTrace key={`${log.stepId}-${i}`} log={log} index={i} />)
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { useTeamRole } from "@/hooks/useTeamRole";
+import {
+  diffAutomationVersions,
+  formatDiffValue,
+  listAutomationVersions,
+  rollbackAutomation,
+  type AutomationVersion,
+  type FieldChange,
+} from "@/lib/automations/versions";
+
+interface AutomationVersionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  automation: { id: string; name: string; current_version_id: string | null } | null;
+}
+
+type CompareMode = "previous" | "current";
+
+function ChangeList({ changes }: { changes: FieldChange[] }) {
+  return (
+    <div className="space-y-1">
+      {changes.map((change) => (
+        <div key={change.path} className="grid grid-cols-[10rem_1fr] gap-2 text-xs">
+          <span className="font-mono text-muted-foreground truncate" title={change.path}>{change.path}</span>
+          <div className="min-w-0 space-y-0.5">
+            <div className="text-red-500 line-through break-words">{formatDiffValue(change.path, change.before)}</div>
+            <div className="text-emerald-600 break-words">{formatDiffValue(change.path, change.after)}</div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function DiffSection({ title, changes }: { title: string; changes: FieldChange[] }) {
+  if (changes.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{title}</p>
+      <ChangeList changes={changes} />
+    </div>
+  );
+}
+
+export function AutomationVersionsDialog({ open, onOpenChange, teamId, automation }: AutomationVersionsDialogProps) {
+  const queryClient = useQueryClient();
+  const { isAdmin } = useTeamRole(teamId);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>("previous");
+  const [confirmRollback, setConfirmRollback] = useState(false);
+
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ["automation-versions", automation?.id],
+    enabled: open && !!automation,
+    queryFn: () => listAutomationVersions(automation!.id),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setSelectedId(null);
+    setCompareMode("previous");
+  }, [open, automation?.id]);
+
+  const currentId = automation?.current_version_id ?? versions[0]?.id ?? null;
+  const selected = versions.find((v) => v.id === selectedId) ?? versions[0] ?? null;
+  const isCurrent = !!selected && selected.id === currentId;
+
+  // Versions are newest first, so the one saved before `selected` is next in the list
+  const base: AutomationVersion | null = useMemo(() => {
+    if (!selected) return null;
+    if (compareMode === "current" && !isCurrent) return versions.find((v) => v.id === currentId) ?? null;
+    return versions[versions.findIndex((v) => v.id === selected.id) + 1] ?? null;
+  }, [selected, compareMode, isCurrent, versions, currentId]);
+
+  // Against current, this reads as what a rollback would change
+  const diff = useMemo(
+    () => (selected && base ? diffAutomationVersions(base, selected) : null),
+    [selected, base],
+  );
+
+  const rollbackMutation = useMutation({
+    mutationFn: () => rollbackAutomation(selected!.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["automation-versions", automation?.id] });
+      queryClient.invalidateQueries({ queryKey: ["automations", teamId] });
+      toast.success(`Rolled back to version ${selected?.version_number}`);
+      setSelectedId(null);
+      setConfirmRollback(false);
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to roll back");
+      setConfirmRollback(false);
+    },
+  });
+
+  const versionNumber = (id: string | null) => versions.find((v) => v.id === id)?.version_number;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Version history{automation ? ` · ${automation.name}` : ""}</DialogTitle>
+          <DialogDescription>
+            Every save is kept as a version. Runs record the version they started on.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex flex-1 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">No versions yet</div>
+        ) : (
+          <div className="flex flex-1 min-h-0 gap-4">
+            <ScrollArea className="w-56 shrink-0 border rounded-md">
+              <div className="p-1">
+                {versions.map((version) => (
+                  <button
+                    key={version.id}
+                    type="button"
+                    onClick={() => setSelectedId(version.id)}
+                    className={`w-full rounded px-3 py-2 text-left hover:bg-muted ${
+                      selected?.id === version.id ? "bg-muted" : ""
+                    }`}
+                  >
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      v{version.version_number}
+                      {version.id === currentId && <Badge variant="secondary" className="text-[10px]">Current</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {format(new Date(version.created_at), "MMM d, yyyy h:mm a")}
+                    </div>
+                    {version.restored_from_version_id && (
+                      <div className="text-xs text-muted-foreground">
+                        Rollback to v{versionNumber(version.restored_from_version_id) ?? "?"}
+                      </div>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex-1 min-w-0 flex flex-col gap-3">
+              {selected && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">Version {selected.version_number}</span>
+                  {!isCurrent && (
+                    <div className="flex rounded-md border p-0.5 text-xs">
+                      {(["previous", "current"] as CompareMode[]).map((mode) => (
+                        <button
+                          key={mode}
+                          type="button"
+                          onClick={() => setCompareMode(mode)}
+                          className={`rounded px-2 py-1 ${compareMode === mode ? "bg-muted font-medium" : ""}`}
+                        >
+                          {mode === "previous" ? "Changes in this version" : "Compared to current"}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {!isCurrent && isAdmin && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="ml-auto"
+                      onClick={() => setConfirmRollback(true)}
+                      disabled={rollbackMutation.isPending}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Roll back to v{selected.version_number}
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              <ScrollArea className="flex-1 border rounded-md">
+                <div className="p-4 space-y-5">
+                  {!base ? (
+                    <p className="text-sm text-muted-foreground">First version — nothing to compare against.</p>
+                  ) : !diff?.hasChanges ? (
+                    <p className="text-sm text-muted-foreground">
+                      No differences from v{base.version_number}.
+                    </p>
+                  ) : (
+                    <>
+                      <p className="text-xs text-muted-foreground">
+                        {compareMode === "current" && !isCurrent
+                          ? `What rolling back would change, from v${base.version_number} (current) to v${selected?.version_number}`
+                          : `Changes from v${base.version_number} to v${selected?.version_number}`}
+                      </p>
+                      <DiffSection title="Details" changes={diff.details} />
+                      <DiffSection title="Trigger" changes={diff.trigger} />
+                      {diff.steps.length > 0 && (
+                        <div className="space-y-2">
+                          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Steps</p>
+                          {diff.steps.map((step) => (
+                            <div key={step.stepId} className="rounded-md border p-2 space-y-2">
+                              <div className="flex items-center gap-2 text-sm">
+                                <Badge
+                                  variant={step.kind === "removed" ? "destructive" : "outline"}
+                                  className={step.kind === "added" ? "text-emerald-600" : ""}
+                                >
+                                  {step.kind}
+                                </Badge>
+                                <span className="font-mono text-xs">{step.stepId}</span>
+                                <span className="text-xs text-muted-foreground">{step.type}</span>
+                              </div>
+                              {step.changes.length > 0 && <ChangeList changes={step.changes} />}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <DiffSection title="Enrollment & goals" changes={diff.settings} />
+                    </>
+                  )}
+                </div>
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+
+        <AlertDialog open={confirmRollback} onOpenChange={setConfirmRollback}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Roll back to version {selected?.version_number}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                New runs will use this version. It's saved as a new version, so you can roll forward again. Runs
+                already waiting on a delay finish on the version they started with.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => rollbackMutation.mutate()}>Roll back</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,11 +6,16 @@ import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Play, Pencil, Loader2 } from "lucide-react";
+import { Plus, Play, Pencil, Loader2, Workflow, History, Download, Upload, BarChart3 } from "lucide-react";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { AutomationFormDialog } from "./AutomationFormDialog";
+import { WorkflowCanvasEditor } from "./WorkflowCanvasEditor";
+import { AutomationVersionsDialog } from "./AutomationVersionsDialog";
+import { WorkflowImportDialog } from "./WorkflowImportDialog";
+import { AutomationAnalyticsDialog } from "./AutomationAnalyticsDialog";
 import { runAutomationsForEvent } from "@/lib/automations/triggerHelper";
+import { downloadWorkflowExport, exportTeamAutomations } from "@/lib/workflows/transfer";
 import type { TriggerType } from "@/lib/automations/types";
 
 interface AutomationsListProps {
@@ -25,6 +30,7 @@ interface Automation {
   trigger_type: string;
   is_active: boolean;
   definition: Record<string, any>;
+  current_version_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -34,6 +40,11 @@ export function AutomationsList({ teamId }: AutomationsListProps) {
   const [editingAutomation, setEditingAutomation] = useState<Automation | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [testingTrigger, setTestingTrigger] = useState(false);
+  const [canvasAutomation, setCanvasAutomation] = useState<Automation | null>(null);
+  const [isCanvasOpen, setIsCanvasOpen] = useState(false);
+  const [historyAutomationId, setHistoryAutomationId] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [analyticsAutomationId, setAnalyticsAutomationId] = useState<string | null>(null);
 
   const { data: automations, isLoading } = useQuery({
     queryKey: ["automations", teamId],
@@ -113,6 +124,24 @@ export function AutomationsList({ teamId }: AutomationsListProps) {
     setIsDialogOpen(true);
   };
 
+  const openCanvas = (automation: Automation | null) => {
+    setCanvasAutomation(automation);
+    setIsCanvasOpen(true);
+  };
+
+  const handleExport = async (automation?: Automation) => {
+    try {
+      const file = await exportTeamAutomations(teamId, automation ? [automation.id] : undefined);
+      const name = automation
+        ? automation.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "workflow"
+        : `automations-${format(new Date(), "yyyy-MM-dd")}`;
+      downloadWorkflowExport(file, `${name}.json`);
+    } catch (err) {
+      toast.error("Export failed");
+      console.error(err);
+    }
+  };
+
   const handleDialogClose = () => {
     setIsDialogOpen(false);
     setEditingAutomation(null);
@@ -125,7 +154,12 @@ export function AutomationsList({ teamId }: AutomationsListProps) {
     appointment_rescheduled: "Rescheduled",
     appointment_no_show: "No Show",
     appointment_completed: "Completed",
+    appointment_cancelled: "Cancelled",
+    pipeline_stage_changed: "Stage Changed",
+    task_overdue: "Task Overdue",
     payment_received: "Payment Received",
+    deposit_collected: "Deposit Collected",
+    message_received: "Message Received",
     time_delay: "Time Delay",
   };
 
@@ -153,6 +187,18 @@ export function AutomationsList({ teamId }: AutomationsListProps) {
               )}
               Test Trigger
             </Button>
+            <Button variant="outline" size="sm" onClick={() => setIsImportOpen(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport()} disabled={!automations?.length}>
+              <Download className="h-4 w-4 mr-2" />
+              Export All
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => openCanvas(null)}>
+              <Workflow className="h-4 w-4 mr-2" />
+              New Workflow
+            </Button>
             <Button size="sm" onClick={handleCreate}>
               <Plus className="h-4 w-4 mr-2" />
               New Automation
@@ -177,7 +223,7 @@ export function AutomationsList({ teamId }: AutomationsListProps) {
                 <TableHead>Trigger</TableHead>
                 <TableHead>Active</TableHead>
                 <TableHead>Created</TableHead>
-                <TableHead className="w-[80px]"></TableHead>
+                <TableHead className="w-[220px]"></TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -208,13 +254,48 @@ export function AutomationsList({ teamId }: AutomationsListProps) {
                     {format(new Date(automation.created_at), "MMM d, yyyy")}
                   </TableCell>
                   <TableCell>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleEdit(automation)}
-                    >
-                      <Pencil className="h-4 w-4" />
-                    </Button>
+                    <div className="flex">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Open in canvas"
+                        onClick={() => openCanvas(automation)}
+                      >
+                        <Workflow className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Edit JSON"
+                        onClick={() => handleEdit(automation)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Analytics"
+                        onClick={() => setAnalyticsAutomationId(automation.id)}
+                      >
+                        <BarChart3 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Version history"
+                        onClick={() => setHistoryAutomationId(automation.id)}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Export JSON"
+                        onClick={() => handleExport(automation)}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    </div>
                   </TableCell>
                 </TableRow>
               ))}
@@ -229,6 +310,29 @@ export function AutomationsList({ teamId }: AutomationsListProps) {
         teamId={teamId}
         automation={editingAutomation}
       />
+
+      <WorkflowCanvasEditor
+        open={isCanvasOpen}
+        onOpenChange={setIsCanvasOpen}
+        teamId={teamId}
+        automation={canvasAutomation}
+      />
+
+      <AutomationVersionsDialog
+        open={!!historyAutomationId}
+        onOpenChange={(open) => !open && setHistoryAutomationId(null)}
+        teamId={teamId}
+        automation={automations?.find((a) => a.id === historyAutomationId) ?? null}
+      />
+
+      <AutomationAnalyticsDialog
+        open={!!analyticsAutomationId}
+        onOpenChange={(open) => !open && setAnalyticsAutomationId(null)}
+        teamId={teamId}
+        automation={automations?.find((a) => a.id === analyticsAutomationId) ?? null}
+      />
+
+      <WorkflowImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} teamId={teamId} />
     </Card>
   );
 }
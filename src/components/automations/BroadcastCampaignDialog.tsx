@@ -0,0 +1,422 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Send, Users } from "lucide-react";
+import { toast } from "sonner";
+import {
+  BROADCAST_MERGE_FIELDS,
+  previewBroadcastAudience,
+  renderBroadcastPreview,
+  saveBroadcastCampaign,
+  scheduleBroadcastCampaign,
+  sendBroadcastNow,
+  validateBroadcastDraft,
+  type BroadcastAudience,
+  type BroadcastCampaign,
+  type BroadcastDraft,
+} from "@/lib/notifications/sendBroadcast";
+
+interface BroadcastCampaignDialogProps {
+  teamId: string;
+  campaign: BroadcastCampaign | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const APPOINTMENT_STATUSES = ["NEW", "CONFIRMED", "SHOWED", "NO_SHOW", "CLOSED", "CANCELLED", "RESCHEDULED"];
+
+const EMPTY_DRAFT: BroadcastDraft = {
+  name: "",
+  channel: "sms",
+  subject: "",
+  body: "",
+  audience: { optIn: "not_opted_out" },
+  throttlePerMinute: 60,
+};
+
+function toDraft(campaign: BroadcastCampaign | null): BroadcastDraft {
+  if (!campaign) return EMPTY_DRAFT;
+  return {
+    name: campaign.name,
+    channel: campaign.channel as BroadcastDraft["channel"],
+    subject: campaign.subject ?? "",
+    body: campaign.body,
+    audience: (campaign.audience ?? {}) as BroadcastAudience,
+    throttlePerMinute: campaign.throttle_per_minute,
+  };
+}
+
+function splitList(value: string): string[] {
+  return value.split(",").map((v) => v.trim()).filter(Boolean);
+}
+
+function toggle(list: string[] | undefined, value: string, on: boolean): string[] {
+  const current = list ?? [];
+  return on ? [...current, value] : current.filter((v) => v !== value);
+}
+
+/** Debounces the audience so typing tags doesn't run a count per keystroke */
+function useDebounced<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+  return debounced;
+}
+
+export function BroadcastCampaignDialog({ teamId, campaign, open, onOpenChange, onSaved }: BroadcastCampaignDialogProps) {
+  const [draft, setDraft] = useState<BroadcastDraft>(EMPTY_DRAFT);
+  const [tagsInput, setTagsInput] = useState("");
+  const [sourcesInput, setSourcesInput] = useState("");
+  const [timing, setTiming] = useState<"now" | "schedule">("now");
+  const [scheduledAt, setScheduledAt] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [confirmSend, setConfirmSend] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const next = toDraft(campaign);
+    setDraft(next);
+    setTagsInput((next.audience.tags ?? []).join(", "));
+    setSourcesInput((next.audience.sources ?? []).join(", "));
+    setTiming(campaign?.status === "scheduled" ? "schedule" : "now");
+    setScheduledAt(campaign?.scheduled_at ? format(new Date(campaign.scheduled_at), "yyyy-MM-dd'T'HH:mm") : "");
+  }, [open, campaign]);
+
+  const setAudience = (patch: Partial<BroadcastAudience>) =>
+    setDraft((d) => ({ ...d, audience: { ...d.audience, ...patch } }));
+
+  const { data: funnels } = useQuery({
+    queryKey: ["broadcast-funnels", teamId],
+    enabled: open,
+    queryFn: async () => {
+      const { data, error } = await supabase.from("funnels").select("id, name").eq("team_id", teamId).order("name");
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const { data: team } = useQuery({
+    queryKey: ["broadcast-team", teamId],
+    enabled: open,
+    queryFn: async () => {
+      const { data, error } = await supabase.from("teams").select("id, name, timezone").eq("id", teamId).single();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const audienceKey = useDebounced(JSON.stringify({ channel: draft.channel, audience: draft.audience }), 400);
+  const { data: audience, isFetching: countingAudience } = useQuery({
+    queryKey: ["broadcast-audience", teamId, audienceKey],
+    enabled: open,
+    queryFn: () => {
+      const { channel, audience } = JSON.parse(audienceKey);
+      return previewBroadcastAudience(teamId, channel, audience);
+    },
+  });
+
+  const problems = useMemo(() => validateBroadcastDraft(draft), [draft]);
+  const preview = renderBroadcastPreview(draft, audience?.sample[0] ?? null, team ?? null);
+
+  const save = async (): Promise<BroadcastCampaign | null> => {
+    if (problems.length > 0) {
+      toast.error(problems[0]);
+      return null;
+    }
+    return saveBroadcastCampaign(teamId, draft, campaign?.id);
+  };
+
+  const run = async (action: "draft" | "schedule" | "send") => {
+    setSaving(true);
+    try {
+      if (action === "schedule" && !scheduledAt) throw new Error("Pick a date and time");
+      const saved = await save();
+      if (!saved) return;
+
+      if (action === "draft") {
+        if (saved.status === "scheduled") await scheduleBroadcastCampaign(saved.id, null);
+        toast.success("Campaign saved as draft");
+      } else if (action === "schedule") {
+        const when = new Date(scheduledAt);
+        await scheduleBroadcastCampaign(saved.id, when);
+        toast.success(`Campaign scheduled for ${format(when, "MMM d, h:mm a")}`);
+      } else {
+        const result = await sendBroadcastNow(saved.id);
+        toast.success(
+          result.status === "sent" ? `Campaign sent to ${result.sent} recipient(s)` : `Sending started (${result.sent} so far)`,
+        );
+      }
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save campaign");
+    } finally {
+      setSaving(false);
+      setConfirmSend(false);
+    }
+  };
+
+  const addMergeField = (field: string) => setDraft((d) => ({ ...d, body: `${d.body}{{${field}}}` }));
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{campaign ? "Edit Broadcast" : "New Broadcast"}</DialogTitle>
+            <DialogDescription>Send one SMS or email to a segment of your contacts</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-6 md:grid-cols-2">
+            {/* Message */}
+            <div className="space-y-4">
+              <div className="space-y-1.5">
+                <Label>Name</Label>
+                <Input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Spring promo"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label>Channel</Label>
+                <Select
+                  value={draft.channel}
+                  onValueChange={(value) => setDraft({ ...draft, channel: value as BroadcastDraft["channel"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="sms">SMS</SelectItem>
+                    <SelectItem value="email">Email</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {draft.channel === "email" && (
+                <div className="space-y-1.5">
+                  <Label>Subject</Label>
+                  <Input value={draft.subject ?? ""} onChange={(e) => setDraft({ ...draft, subject: e.target.value })} />
+                </div>
+              )}
+              <div className="space-y-1.5">
+                <Label>Message</Label>
+                <Textarea
+                  value={draft.body}
+                  onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                  placeholder="Hey {{lead.first_name}}, ..."
+                  rows={6}
+                />
+                <div className="flex flex-wrap gap-1">
+                  {BROADCAST_MERGE_FIELDS.map((field) => (
+                    <Badge
+                      key={field}
+                      variant="outline"
+                      className="cursor-pointer font-mono text-[10px]"
+                      onClick={() => addMergeField(field)}
+                    >
+                      {field}
+                    </Badge>
+                  ))}
+                </div>
+                {draft.channel === "sms" && (
+                  <p className="text-xs text-muted-foreground">{preview.body.length} characters</p>
+                )}
+              </div>
+
+              <div className="rounded-md border bg-muted/30 p-3 space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">
+                  Preview{audience?.sample[0]?.name ? ` for ${audience.sample[0].name}` : ""}
+                </p>
+                {draft.channel === "email" && <p className="text-sm font-medium">{preview.subject || "(no subject)"}</p>}
+                <p className="text-sm whitespace-pre-wrap">{preview.body || "Your message will appear here"}</p>
+              </div>
+            </div>
+
+            {/* Audience + delivery */}
+            <div className="space-y-4">
+              <div className="space-y-1.5">
+                <Label>Tags (any of)</Label>
+                <Input
+                  value={tagsInput}
+                  onChange={(e) => setTagsInput(e.target.value)}
+                  onBlur={() => setAudience({ tags: splitList(tagsInput) })}
+                  placeholder="vip, webinar"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label>Sources (any of)</Label>
+                <Input
+                  value={sourcesInput}
+                  onChange={(e) => setSourcesInput(e.target.value)}
+                  onBlur={() => setAudience({ sources: splitList(sourcesInput) })}
+                  placeholder="funnel, calendly"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label>Consent</Label>
+                <Select
+                  value={draft.audience.optIn ?? "not_opted_out"}
+                  onValueChange={(value) => setAudience({ optIn: value as BroadcastAudience["optIn"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="opted_in">Only contacts who opted in</SelectItem>
+                    <SelectItem value="not_opted_out">Everyone except opted-out contacts</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {funnels && funnels.length > 0 && (
+                <div className="space-y-1.5">
+                  <Label>Came from funnel</Label>
+                  <div className="max-h-28 overflow-y-auto space-y-1.5 rounded-md border p-2">
+                    {funnels.map((funnel) => (
+                      <label key={funnel.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={draft.audience.funnelIds?.includes(funnel.id) ?? false}
+                          onCheckedChange={(checked) =>
+                            setAudience({ funnelIds: toggle(draft.audience.funnelIds, funnel.id, checked === true) })
+                          }
+                        />
+                        {funnel.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="space-y-1.5">
+                <Label>Has an appointment that is</Label>
+                <div className="grid grid-cols-2 gap-1.5">
+                  {APPOINTMENT_STATUSES.map((status) => (
+                    <label key={status} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={draft.audience.appointmentStatuses?.includes(status) ?? false}
+                        onCheckedChange={(checked) =>
+                          setAudience({
+                            appointmentStatuses: toggle(draft.audience.appointmentStatuses, status, checked === true),
+                          })
+                        }
+                      />
+                      {status.replace("_", " ").toLowerCase()}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2 rounded-md border p-3 text-sm">
+                <Users className="h-4 w-4 text-muted-foreground" />
+                {countingAudience ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <span>
+                    <span className="font-semibold">{audience?.count ?? 0}</span> contact(s) with{" "}
+                    {draft.channel === "email" ? "an email address" : "a phone number"}
+                  </span>
+                )}
+              </div>
+
+              <div className="space-y-1.5">
+                <Label>Send rate (messages per minute)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={draft.throttlePerMinute}
+                  onChange={(e) => setDraft({ ...draft, throttlePerMinute: Number(e.target.value) })}
+                />
+              </div>
+              <RadioGroup value={timing} onValueChange={(value) => setTiming(value as "now" | "schedule")}>
+                <label className="flex items-center gap-2 text-sm">
+                  <RadioGroupItem value="now" />
+                  Send now
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <RadioGroupItem value="schedule" />
+                  Schedule for later
+                </label>
+              </RadioGroup>
+              {timing === "schedule" && (
+                <Input type="datetime-local" value={scheduledAt} onChange={(e) => setScheduledAt(e.target.value)} />
+              )}
+            </div>
+          </div>
+
+          {problems.length > 0 && (
+            <ul className="text-xs text-destructive list-disc pl-4">
+              {problems.map((problem) => (
+                <li key={problem}>{problem}</li>
+              ))}
+            </ul>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => run("draft")} disabled={saving}>
+              Save Draft
+            </Button>
+            {timing === "schedule" ? (
+              <Button onClick={() => run("schedule")} disabled={saving || problems.length > 0}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Schedule
+              </Button>
+            ) : (
+              <Button onClick={() => setConfirmSend(true)} disabled={saving || problems.length > 0 || !audience?.count}>
+                <Send className="h-4 w-4 mr-2" />
+                Send Now
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmSend} onOpenChange={setConfirmSend}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Send to {audience?.count ?? 0} contact(s)?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Messages go out at up to {draft.throttlePerMinute} per minute. Opted-out contacts and quiet hours are
+              respected automatically.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={saving}
+              onClick={(e) => {
+                e.preventDefault();
+                run("send");
+              }}
+            >
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Ban, Loader2, Mail, Megaphone, Pencil, Phone, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { BroadcastCampaignDialog } from "./BroadcastCampaignDialog";
+import {
+  cancelBroadcastCampaign,
+  deleteBroadcastCampaign,
+  listBroadcastCampaigns,
+  type BroadcastCampaign,
+} from "@/lib/notifications/sendBroadcast";
+
+interface BroadcastCampaignsListProps {
+  teamId: string;
+}
+
+function percent(part: number, total: number): string {
+  return total > 0 ? `${Math.round((part / total) * 100)}%` : "–";
+}
+
+function StatusBadge({ campaign }: { campaign: BroadcastCampaign }) {
+  switch (campaign.status) {
+    case "scheduled":
+      return <Badge variant="secondary">Scheduled</Badge>;
+    case "sending":
+      return <Badge className="bg-blue-500/20 text-blue-400 border-blue-500/30">Sending</Badge>;
+    case "sent":
+      return <Badge className="bg-green-500/20 text-green-400 border-green-500/30">Sent</Badge>;
+    case "cancelled":
+      return <Badge variant="outline" className="text-muted-foreground">Cancelled</Badge>;
+    case "failed":
+      return <Badge variant="destructive" title={campaign.error_message ?? undefined}>Failed</Badge>;
+    default:
+      return <Badge variant="outline">Draft</Badge>;
+  }
+}
+
+function Stat({ label, value, hint }: { label: string; value: number; hint?: string }) {
+  return (
+    <div className="text-center">
+      <div className="text-sm font-semibold">{value}</div>
+      <div className="text-[10px] uppercase text-muted-foreground">{label}</div>
+      {hint && <div className="text-[10px] text-muted-foreground">{hint}</div>}
+    </div>
+  );
+}
+
+export function BroadcastCampaignsList({ teamId }: BroadcastCampaignsListProps) {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<BroadcastCampaign | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: campaigns, isLoading } = useQuery({
+    queryKey: ["broadcast-campaigns", teamId],
+    queryFn: () => listBroadcastCampaigns(teamId),
+    // Totals move while a campaign is going out
+    refetchInterval: (query) =>
+      query.state.data?.some((c) => c.status === "sending" || c.status === "scheduled") ? 15_000 : false,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["broadcast-campaigns", teamId] });
+
+  const cancelMutation = useMutation({
+    mutationFn: cancelBroadcastCampaign,
+    onSuccess: () => {
+      invalidate();
+      toast.success("Campaign cancelled");
+    },
+    onError: (error: Error) => toast.error(error.message || "Failed to cancel campaign"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteBroadcastCampaign,
+    onSuccess: () => {
+      invalidate();
+      toast.success("Campaign deleted");
+    },
+    onError: (error: Error) => toast.error(error.message || "Failed to delete campaign"),
+  });
+
+  const openEditor = (campaign: BroadcastCampaign | null) => {
+    setEditing(campaign);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Megaphone className="h-5 w-5" />
+            Broadcasts
+          </CardTitle>
+          <CardDescription>One-off SMS and email campaigns to a segment of your contacts</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openEditor(null)}>
+          <Plus className="h-4 w-4 mr-1" />
+          New Broadcast
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !campaigns || campaigns.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Megaphone className="h-12 w-12 mx-auto mb-3 opacity-30" />
+            <p>No broadcasts yet</p>
+            <p className="text-sm">Create one to message a group of contacts at once</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Campaign</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Results</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {campaigns.map((campaign) => {
+                const processed = campaign.sent_count + campaign.failed_count + campaign.suppressed_count;
+                const editable = campaign.status === "draft" || campaign.status === "scheduled";
+                return (
+                  <TableRow key={campaign.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2 font-medium">
+                        {campaign.channel === "email" ? (
+                          <Mail className="h-4 w-4 text-muted-foreground" />
+                        ) : (
+                          <Phone className="h-4 w-4 text-muted-foreground" />
+                        )}
+                        {campaign.name}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {campaign.status === "scheduled" && campaign.scheduled_at
+                          ? `Sends ${format(new Date(campaign.scheduled_at), "MMM d, h:mm a")}`
+                          : campaign.started_at
+                            ? `Started ${format(new Date(campaign.started_at), "MMM d, h:mm a")}`
+                            : `Created ${format(new Date(campaign.created_at), "MMM d")}`}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <StatusBadge campaign={campaign} />
+                      {campaign.status === "sending" && campaign.recipient_count > 0 && (
+                        <Progress value={(processed / campaign.recipient_count) * 100} className="h-1.5 mt-2 w-24" />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {campaign.recipient_count > 0 ? (
+                        <div className="flex gap-4">
+                          <Stat label="Recipients" value={campaign.recipient_count} />
+                          <Stat label="Sent" value={campaign.sent_count} />
+                          <Stat
+                            label="Delivered"
+                            value={campaign.delivered_count}
+                            hint={percent(campaign.delivered_count, campaign.sent_count)}
+                          />
+                          <Stat label="Failed" value={campaign.failed_count} />
+                          {campaign.channel === "sms" && (
+                            <Stat
+                              label="Replied"
+                              value={campaign.replied_count}
+                              hint={percent(campaign.replied_count, campaign.sent_count)}
+                            />
+                          )}
+                          <Stat label="Opted out" value={campaign.opted_out_count} />
+                          {campaign.suppressed_count > 0 && <Stat label="Skipped" value={campaign.suppressed_count} />}
+                        </div>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">–</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        {editable && (
+                          <Button variant="ghost" size="icon" title="Edit" onClick={() => openEditor(campaign)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {(campaign.status === "scheduled" || campaign.status === "sending") && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Cancel"
+                            disabled={cancelMutation.isPending}
+                            onClick={() => cancelMutation.mutate(campaign.id)}
+                          >
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {campaign.status !== "sending" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Delete"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => deleteMutation.mutate(campaign.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <BroadcastCampaignDialog
+        teamId={teamId}
+        campaign={editing}
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        onSaved={invalidate}
+      />
+    </Card>
+  );
+}
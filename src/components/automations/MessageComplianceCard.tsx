@@ -0,0 +1,319 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Ban, Loader2, Mail, Phone, ShieldCheck, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  DEFAULT_COMPLIANCE_CONFIG,
+  addManualSuppression,
+  resolveComplianceConfig,
+  type MessageComplianceConfig,
+} from "@/lib/messaging/compliance";
+
+interface SuppressionRow {
+  id: string;
+  channel: string;
+  address: string;
+  reason: string;
+  source: string | null;
+  created_at: string;
+}
+
+interface MessageComplianceCardProps {
+  teamId: string;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  opt_out_reply: "STOP reply",
+  unsubscribe_link: "Unsubscribed",
+  manual: "Manual",
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => ({
+  value: String(hour),
+  label: format(new Date(2000, 0, 1, hour), "h a"),
+}));
+
+function capToInput(value: number | null): string {
+  return value === null ? "" : String(value);
+}
+
+function inputToCap(value: string): number | null {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+export function MessageComplianceCard({ teamId }: MessageComplianceCardProps) {
+  const queryClient = useQueryClient();
+  const [config, setConfig] = useState<MessageComplianceConfig>(DEFAULT_COMPLIANCE_CONFIG);
+  const [dailyCap, setDailyCap] = useState("");
+  const [weeklyCap, setWeeklyCap] = useState("");
+  const [address, setAddress] = useState("");
+  const [note, setNote] = useState("");
+
+  const { data: savedConfig } = useQuery({
+    queryKey: ["message-compliance-config", teamId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("teams")
+        .select("message_compliance_config")
+        .eq("id", teamId)
+        .single();
+
+      if (error) throw error;
+      return resolveComplianceConfig(data.message_compliance_config);
+    },
+  });
+
+  useEffect(() => {
+    if (!savedConfig) return;
+    setConfig(savedConfig);
+    setDailyCap(capToInput(savedConfig.daily_cap));
+    setWeeklyCap(capToInput(savedConfig.weekly_cap));
+  }, [savedConfig]);
+
+  const { data: suppressions = [], isLoading } = useQuery({
+    queryKey: ["message-suppressions", teamId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("message_suppressions")
+        .select("id, channel, address, reason, source, created_at")
+        .eq("team_id", teamId)
+        .order("created_at", { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      return data as SuppressionRow[];
+    },
+  });
+
+  const saveConfigMutation = useMutation({
+    mutationFn: async () => {
+      const next: MessageComplianceConfig = {
+        ...config,
+        daily_cap: inputToCap(dailyCap),
+        weekly_cap: inputToCap(weeklyCap),
+      };
+      const { error } = await supabase
+        .from("teams")
+        .update({ message_compliance_config: next as unknown as Json })
+        .eq("id", teamId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["message-compliance-config", teamId] });
+      toast.success("Compliance settings saved");
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to save settings");
+    },
+  });
+
+  const addMutation = useMutation({
+    mutationFn: () => addManualSuppression(teamId, address.trim(), note),
+    onSuccess: () => {
+      setAddress("");
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: ["message-suppressions", teamId] });
+      toast.success("Address suppressed");
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to add suppression");
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("message_suppressions").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["message-suppressions", teamId] });
+      toast.success("Suppression removed");
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to remove suppression");
+    },
+  });
+
+  const quietHoursEnabled = config.quiet_hours_start !== null && config.quiet_hours_end !== null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Compliance
+        </CardTitle>
+        <CardDescription>
+          Every SMS and email is checked against the suppression list and the contact's opt-in before it goes out.
+          Messages during quiet hours wait until the contact's morning; messages over a cap are dropped.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Quiet hours</Label>
+              <p className="text-xs text-muted-foreground">In the contact's timezone, falling back to the team's</p>
+            </div>
+            <Switch
+              checked={quietHoursEnabled}
+              onCheckedChange={(checked) =>
+                setConfig((prev) => ({
+                  ...prev,
+                  quiet_hours_start: checked ? DEFAULT_COMPLIANCE_CONFIG.quiet_hours_start : null,
+                  quiet_hours_end: checked ? DEFAULT_COMPLIANCE_CONFIG.quiet_hours_end : null,
+                }))
+              }
+            />
+          </div>
+
+          {quietHoursEnabled && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">From</Label>
+                <Select
+                  value={String(config.quiet_hours_start)}
+                  onValueChange={(value) => setConfig((prev) => ({ ...prev, quiet_hours_start: Number(value) }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HOURS.map((h) => (
+                      <SelectItem key={h.value} value={h.value}>{h.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Until</Label>
+                <Select
+                  value={String(config.quiet_hours_end)}
+                  onValueChange={(value) => setConfig((prev) => ({ ...prev, quiet_hours_end: Number(value) }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HOURS.map((h) => (
+                      <SelectItem key={h.value} value={h.value}>{h.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Max messages per contact per day</Label>
+              <Input
+                type="number"
+                min={1}
+                value={dailyCap}
+                onChange={(e) => setDailyCap(e.target.value)}
+                placeholder="No limit"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Max messages per contact per week</Label>
+              <Input
+                type="number"
+                min={1}
+                value={weeklyCap}
+                onChange={(e) => setWeeklyCap(e.target.value)}
+                placeholder="No limit"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">Replies sent from a contact's conversation don't count toward caps.</p>
+
+          <Button size="sm" onClick={() => saveConfigMutation.mutate()} disabled={saveConfigMutation.isPending}>
+            {saveConfigMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save settings
+          </Button>
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <div>
+            <Label>Suppression list</Label>
+            <p className="text-xs text-muted-foreground">
+              STOP replies and email unsubscribes are added automatically. Nothing is sent to these addresses.
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              placeholder="Phone number or email"
+              className="flex-1"
+            />
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note (optional)"
+              className="flex-1"
+            />
+            <Button
+              variant="outline"
+              onClick={() => addMutation.mutate()}
+              disabled={!address.trim() || addMutation.isPending}
+            >
+              <Ban className="h-4 w-4 mr-2" />
+              Suppress
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="text-center text-sm text-muted-foreground py-4">Loading suppressions...</div>
+          ) : suppressions.length === 0 ? (
+            <div className="text-center text-sm text-muted-foreground py-4">No suppressed addresses</div>
+          ) : (
+            <div className="space-y-1">
+              {suppressions.map((row) => (
+                <div key={row.id} className="flex items-center gap-3 border rounded-lg px-3 py-2">
+                  {row.channel === "sms" ? (
+                    <Phone className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <Mail className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate">{row.address}</div>
+                    {row.source && <div className="text-xs text-muted-foreground truncate">{row.source}</div>}
+                  </div>
+                  <Badge variant="outline" className="text-xs">
+                    {REASON_LABELS[row.reason] ?? row.reason}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground w-24 text-right">
+                    {format(new Date(row.created_at), "MMM d, yyyy")}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => removeMutation.mutate(row.id)}
+                    disabled={removeMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
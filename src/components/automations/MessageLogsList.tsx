@@ -14,16 +14,30 @@ interface MessageLog {
   run_id: string | null;
   channel: string;
   provider: string;
+  provider_message_id: string | null;
   to_address: string;
   from_address: string | null;
   template: string | null;
   payload: Record<string, any>;
   status: string;
+  status_updated_at: string | null;
+  suppression_reason: string | null;
+  deferred_until: string | null;
   error_message: string | null;
   created_at: string;
   automation?: { name: string } | null;
 }
 
+const SUPPRESSION_REASON_LABELS: Record<string, string> = {
+  suppressed_opt_out_reply: 'Contact replied STOP',
+  suppressed_unsubscribe_link: 'Contact unsubscribed',
+  suppressed_manual: 'Address is on the suppression list',
+  contact_not_opted_in: 'Contact did not opt in',
+  daily_cap_reached: 'Daily message cap reached',
+  weekly_cap_reached: 'Weekly message cap reached',
+  quiet_hours: 'Quiet hours in the contact\'s timezone',
+};
+
 interface MessageLogsListProps {
   teamId: string;
 }
@@ -75,11 +89,21 @@ export function MessageLogsList({ teamId }: MessageLogsListProps) {
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'sent':
-        return <Badge variant="default" className="bg-green-500/20 text-green-400 border-green-500/30">Sent</Badge>;
+        return <Badge variant="default" className="bg-blue-500/20 text-blue-400 border-blue-500/30">Sent</Badge>;
+      case 'delivered':
+        return <Badge variant="default" className="bg-green-500/20 text-green-400 border-green-500/30">Delivered</Badge>;
       case 'failed':
         return <Badge variant="destructive">Failed</Badge>;
+      case 'bounced':
+        return <Badge variant="destructive">Bounced</Badge>;
       case 'queued':
         return <Badge variant="secondary">Queued</Badge>;
+      case 'suppressed':
+        return <Badge variant="outline" className="text-muted-foreground">Suppressed</Badge>;
+      case 'deferred':
+        return <Badge variant="default" className="bg-amber-500/20 text-amber-400 border-amber-500/30">Deferred</Badge>;
+      case 'cancelled':
+        return <Badge variant="outline" className="text-muted-foreground">Cancelled</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -146,7 +170,10 @@ export function MessageLogsList({ teamId }: MessageLogsListProps) {
                     <div className="flex-1 text-left">
                       <div className="font-medium text-sm">{log.to_address}</div>
                       <div className="text-xs text-muted-foreground">
-                        {log.automation?.name || `Automation ${log.automation_id?.slice(0, 8) || 'N/A'}`}
+                        {log.automation?.name ||
+                          (log.payload?.broadcastId
+                            ? 'Broadcast'
+                            : `Automation ${log.automation_id?.slice(0, 8) || 'N/A'}`)}
                       </div>
                     </div>
 
@@ -171,6 +198,16 @@ export function MessageLogsList({ teamId }: MessageLogsListProps) {
                       </div>
                     )}
 
+                    {log.suppression_reason && (
+                      <div className="text-sm">
+                        <span className="text-xs font-medium text-muted-foreground mr-2">
+                          {log.status === 'deferred' ? 'Deferred' : 'Not sent'}
+                        </span>
+                        {SUPPRESSION_REASON_LABELS[log.suppression_reason] ?? log.suppression_reason}
+                        {log.deferred_until && ` · sends ${format(new Date(log.deferred_until), 'MMM d, h:mm a')}`}
+                      </div>
+                    )}
+
                     {log.error_message && (
                       <div>
                         <div className="text-xs font-medium text-destructive mb-1 flex items-center gap-1">
@@ -191,6 +228,12 @@ export function MessageLogsList({ teamId }: MessageLogsListProps) {
                     </div>
 
                     <div className="flex gap-4 text-xs text-muted-foreground">
+                      {log.provider_message_id && (
+                        <span>Provider ID: {log.provider_message_id}</span>
+                      )}
+                      {log.status_updated_at && (
+                        <span>Status updated {format(new Date(log.status_updated_at), 'MMM d, h:mm a')}</span>
+                      )}
                       {log.run_id && (
                         <span>Run ID: {log.run_id.slice(0, 8)}...</span>
                       )}
@@ -0,0 +1,296 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Copy, Loader2, Mail, Phone, Plug } from "lucide-react";
+import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+
+interface ProviderField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  secret?: boolean;
+  optional?: boolean;
+}
+
+interface ProviderSpec {
+  type: "twilio" | "sendgrid" | "resend";
+  label: string;
+  channel: "sms" | "email";
+  fields: ProviderField[];
+}
+
+const PROVIDERS: ProviderSpec[] = [
+  {
+    type: "twilio",
+    label: "Twilio",
+    channel: "sms",
+    fields: [
+      { key: "account_sid", label: "Account SID", placeholder: "AC..." },
+      { key: "auth_token", label: "Auth token", secret: true },
+      { key: "from_phone", label: "From number", placeholder: "+15555550123", optional: true },
+      { key: "messaging_service_sid", label: "Messaging service SID", placeholder: "MG...", optional: true },
+    ],
+  },
+  {
+    type: "sendgrid",
+    label: "SendGrid",
+    channel: "email",
+    fields: [
+      { key: "api_key", label: "API key", placeholder: "SG...", secret: true },
+      { key: "from_email", label: "From email", placeholder: "team@yourdomain.com" },
+      { key: "from_name", label: "From name", optional: true },
+    ],
+  },
+  {
+    type: "resend",
+    label: "Resend",
+    channel: "email",
+    fields: [
+      { key: "api_key", label: "API key", placeholder: "re_...", secret: true },
+      { key: "from_email", label: "From email", placeholder: "team@yourdomain.com" },
+      { key: "from_name", label: "From name", optional: true },
+    ],
+  },
+];
+
+interface IntegrationRow {
+  id: string;
+  integration_type: string;
+  config: Record<string, unknown> | null;
+  is_connected: boolean | null;
+}
+
+interface MessagingProvidersCardProps {
+  teamId: string;
+}
+
+function getEventWebhookUrl(type: string, teamId: string, token: string): string {
+  const base = import.meta.env.VITE_SUPABASE_URL as string | undefined;
+  return `${base ?? ""}/functions/v1/message-status?provider=${type}&team_id=${teamId}&token=${token}`;
+}
+
+export function MessagingProvidersCard({ teamId }: MessagingProvidersCardProps) {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<ProviderSpec | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [priority, setPriority] = useState("1");
+
+  const { data: integrations = [] } = useQuery({
+    queryKey: ["messaging-integrations", teamId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("team_integrations")
+        .select("id, integration_type, config, is_connected")
+        .eq("team_id", teamId)
+        .in("integration_type", PROVIDERS.map((p) => p.type));
+
+      if (error) throw error;
+      return data as IntegrationRow[];
+    },
+  });
+
+  const getIntegration = (type: string) => integrations.find((i) => i.integration_type === type);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ spec, connect }: { spec: ProviderSpec; connect: boolean }) => {
+      const existing = getIntegration(spec.type);
+
+      if (!connect) {
+        if (!existing) return;
+        const { error } = await supabase
+          .from("team_integrations")
+          .update({ is_connected: false })
+          .eq("id", existing.id);
+        if (error) throw error;
+        return;
+      }
+
+      const missing = spec.fields.filter((f) => !f.optional && !values[f.key]?.trim());
+      if (missing.length > 0) {
+        throw new Error(`${missing.map((f) => f.label).join(", ")} required`);
+      }
+      if (spec.type === "twilio" && !values.from_phone?.trim() && !values.messaging_service_sid?.trim()) {
+        throw new Error("Twilio needs a from number or a messaging service SID");
+      }
+
+      const config: Record<string, unknown> = {
+        ...(existing?.config ?? {}),
+        ...Object.fromEntries(spec.fields.map((f) => [f.key, values[f.key]?.trim() || null])),
+        priority: Number(priority) || 1,
+      };
+      // Email providers post delivery events to a URL that carries this token
+      if (spec.channel === "email" && !config.webhook_token) {
+        config.webhook_token = crypto.randomUUID().replace(/-/g, "");
+      }
+
+      const row = {
+        config: config as Json,
+        is_connected: true,
+        connected_at: new Date().toISOString(),
+      };
+      const { error } = existing
+        ? await supabase.from("team_integrations").update(row).eq("id", existing.id)
+        : await supabase.from("team_integrations").insert({ ...row, team_id: teamId, integration_type: spec.type });
+      if (error) throw error;
+    },
+    onSuccess: (_data, { spec, connect }) => {
+      queryClient.invalidateQueries({ queryKey: ["messaging-integrations", teamId] });
+      queryClient.invalidateQueries({ queryKey: ["team-integrations", teamId] });
+      toast.success(connect ? `${spec.label} connected` : `${spec.label} disconnected`);
+      setEditing(null);
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to save provider");
+    },
+  });
+
+  const openEditor = (spec: ProviderSpec) => {
+    const config = getIntegration(spec.type)?.config ?? {};
+    setValues(Object.fromEntries(spec.fields.map((f) => [f.key, String(config[f.key] ?? "")])));
+    setPriority(String(config.priority ?? 1));
+    setEditing(spec);
+  };
+
+  const storedToken = editing?.channel === "email" ? getIntegration(editing.type)?.config?.webhook_token : null;
+  const editingToken = typeof storedToken === "string" ? storedToken : null;
+  const eventWebhookUrl = editing && editingToken ? getEventWebhookUrl(editing.type, teamId, editingToken) : null;
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast.success("Copied to clipboard");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Plug className="h-5 w-5" />
+          Messaging Providers
+        </CardTitle>
+        <CardDescription>
+          SMS and email from automations go out through these. When several providers serve a channel, the lowest
+          priority number is tried first and the others take over if it errors.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {PROVIDERS.map((spec) => {
+          const integration = getIntegration(spec.type);
+          const connected = !!integration?.is_connected;
+
+          return (
+            <div key={spec.type} className="flex items-center gap-3 border rounded-lg p-3">
+              {spec.channel === "sms" ? (
+                <Phone className="h-4 w-4 text-muted-foreground" />
+              ) : (
+                <Mail className="h-4 w-4 text-muted-foreground" />
+              )}
+              <div className="flex-1">
+                <div className="font-medium text-sm">{spec.label}</div>
+                <div className="text-xs text-muted-foreground uppercase">{spec.channel}</div>
+              </div>
+              {connected && (
+                <Badge variant="outline" className="text-xs">
+                  priority {String(integration?.config?.priority ?? 1)}
+                </Badge>
+              )}
+              {connected ? (
+                <Badge className="bg-green-500/20 text-green-400 border-green-500/30">Connected</Badge>
+              ) : (
+                <Badge variant="secondary">Not connected</Badge>
+              )}
+              <Button size="sm" variant="outline" onClick={() => openEditor(spec)}>
+                {connected ? "Edit" : "Connect"}
+              </Button>
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          {editing && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{editing.label}</DialogTitle>
+                <DialogDescription>Credentials are only used server-side when sending.</DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-3">
+                {editing.fields.map((field) => (
+                  <div key={field.key} className="space-y-1">
+                    <Label>
+                      {field.label}
+                      {field.optional && <span className="text-muted-foreground text-xs ml-1">(optional)</span>}
+                    </Label>
+                    <Input
+                      type={field.secret ? "password" : "text"}
+                      value={values[field.key] ?? ""}
+                      placeholder={field.placeholder}
+                      onChange={(e) => setValues((v) => ({ ...v, [field.key]: e.target.value }))}
+                    />
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  <Label>Priority</Label>
+                  <Input type="number" min={1} value={priority} onChange={(e) => setPriority(e.target.value)} />
+                </div>
+
+                {eventWebhookUrl && (
+                  <div className="space-y-1">
+                    <Label>Event webhook URL</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Add this in {editing.label} so deliveries and bounces show up in the message log.
+                    </p>
+                    <div className="flex gap-2">
+                      <Input readOnly className="font-mono text-xs" value={eventWebhookUrl} />
+                      <Button type="button" size="icon" variant="outline" onClick={() => copy(eventWebhookUrl)}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <DialogFooter>
+                {getIntegration(editing.type)?.is_connected && (
+                  <Button
+                    variant="ghost"
+                    className="sm:mr-auto text-destructive"
+                    disabled={saveMutation.isPending}
+                    onClick={() => saveMutation.mutate({ spec: editing, connect: false })}
+                  >
+                    Disconnect
+                  </Button>
+                )}
+                <Button variant="outline" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  disabled={saveMutation.isPending}
+                  onClick={() => saveMutation.mutate({ spec: editing, connect: true })}
+                >
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
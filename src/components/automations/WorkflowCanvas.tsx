@@ -0,0 +1,262 @@
+import type { RefObject } from "react";
+import { useDraggable, useDroppable } from "@dnd-kit/core";
+import { Clock, GitBranch, Zap, Play } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { CANVAS_NODE_HEIGHT, CANVAS_NODE_WIDTH } from "@/lib/workflows/canvas";
+import { ACTION_LABELS, TRIGGER_LABELS } from "@/lib/workflows/palette";
+import type { BranchLabel } from "@/lib/workflows/validation";
+import type { WorkflowDefinition, WorkflowEdge, WorkflowNode } from "@/lib/workflows/types";
+
+export const CANVAS_DROPPABLE_ID = "workflow-canvas";
+
+export type CanvasSelection = { type: "node"; id: string } | { type: "edge"; id: string } | null;
+
+export interface PendingConnection {
+  fromNodeId: string;
+  label?: BranchLabel;
+}
+
+interface WorkflowCanvasProps {
+  workflow: WorkflowDefinition;
+  viewportRef: RefObject<HTMLDivElement>;
+  selection: CanvasSelection;
+  /** Node ids with validation errors */
+  invalidNodeIds: Set<string>;
+  connecting: PendingConnection | null;
+  /** Offset of the node being dragged, so its edges follow it */
+  dragging: { nodeId: string; dx: number; dy: number } | null;
+  onSelect: (selection: CanvasSelection) => void;
+  onStartConnection: (connection: PendingConnection) => void;
+  onCompleteConnection: (toNodeId: string) => void;
+  onCancelConnection: () => void;
+}
+
+const CANVAS_MARGIN = 400;
+
+function nodeSubtitle(node: WorkflowNode): string {
+  if (node.kind === "trigger") return TRIGGER_LABELS[node.triggerType] ?? node.triggerType;
+  if (node.kind === "condition") {
+    const count = node.conditions?.length ?? 0;
+    return node.description || `${count} rule${count === 1 ? "" : "s"} · ${node.logicOperator ?? "AND"}`;
+  }
+  if (node.actionType === "time_delay") {
+    const { delayDays = 0, delayHours = 0, delayMinutes = 0 } = node.config ?? {};
+    const parts = [delayDays && `${delayDays}d`, delayHours && `${delayHours}h`, delayMinutes && `${delayMinutes}m`].filter(Boolean);
+    return parts.length ? `Wait ${parts.join(" ")}` : "Wait";
+  }
+  if (node.actionType === "send_message") {
+    return `${ACTION_LABELS.send_message} · ${String(node.config?.channel ?? "sms").toUpperCase()}`;
+  }
+  return ACTION_LABELS[node.actionType] ?? node.actionType;
+}
+
+function NodeIcon({ node }: { node: WorkflowNode }) {
+  if (node.kind === "trigger") return <Zap className="h-4 w-4 text-amber-500" />;
+  if (node.kind === "condition") return <GitBranch className="h-4 w-4 text-violet-500" />;
+  if (node.actionType === "time_delay") return <Clock className="h-4 w-4 text-sky-500" />;
+  return <Play className="h-4 w-4 text-emerald-500" />;
+}
+
+/** Where a node's outgoing connection leaves from; condition branches get their own side */
+function outputPoint(node: WorkflowNode, x: number, y: number, label?: string) {
+  if (node.kind !== "condition") return { x: x + CANVAS_NODE_WIDTH / 2, y: y + CANVAS_NODE_HEIGHT };
+  const offset = label?.trim().toLowerCase() === "false" ? 0.75 : 0.25;
+  return { x: x + CANVAS_NODE_WIDTH * offset, y: y + CANVAS_NODE_HEIGHT };
+}
+
+interface CanvasNodeProps {
+  node: WorkflowNode;
+  x: number;
+  y: number;
+  selected: boolean;
+  invalid: boolean;
+  connecting: PendingConnection | null;
+  onSelect: () => void;
+  onStartConnection: (label?: BranchLabel) => void;
+  onCompleteConnection: () => void;
+}
+
+function CanvasNode({
+  node,
+  x,
+  y,
+  selected,
+  invalid,
+  connecting,
+  onSelect,
+  onStartConnection,
+  onCompleteConnection,
+}: CanvasNodeProps) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: `node:${node.id}` });
+  const canReceive = !!connecting && connecting.fromNodeId !== node.id && node.kind !== "trigger";
+
+  const handles: Array<{ label?: BranchLabel; className: string }> =
+    node.kind === "condition"
+      ? [
+          { label: "true", className: "left-1/4 bg-emerald-500" },
+          { label: "false", className: "left-3/4 bg-rose-500" },
+        ]
+      : [{ className: "left-1/2 bg-primary" }];
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ left: x, top: y, width: CANVAS_NODE_WIDTH, height: CANVAS_NODE_HEIGHT }}
+      className={cn(
+        "absolute rounded-lg border bg-card shadow-sm select-none",
+        selected && "ring-2 ring-primary",
+        invalid && "border-destructive",
+        canReceive && "ring-2 ring-primary/40 cursor-crosshair",
+        isDragging && "opacity-80 shadow-lg z-10",
+      )}
+      onClick={(e) => {
+        e.stopPropagation();
+        if (canReceive) onCompleteConnection();
+        else onSelect();
+      }}
+    >
+      <div {...listeners} {...attributes} className="h-full px-3 py-2 cursor-grab active:cursor-grabbing">
+        <div className="flex items-center gap-2">
+          <NodeIcon node={node} />
+          <span className="text-sm font-medium truncate">{node.label || node.id}</span>
+        </div>
+        <p className="text-xs text-muted-foreground truncate mt-1">{nodeSubtitle(node)}</p>
+      </div>
+
+      {handles.map((handle) => (
+        <button
+          key={handle.label ?? "next"}
+          type="button"
+          title={handle.label ? `Connect "${handle.label}" branch` : "Connect to next step"}
+          className={cn(
+            "absolute -bottom-2 h-4 w-4 -translate-x-1/2 rounded-full border-2 border-background",
+            handle.className,
+            connecting?.fromNodeId === node.id && connecting.label === handle.label && "ring-2 ring-primary",
+          )}
+          onClick={(e) => {
+            e.stopPropagation();
+            onStartConnection(handle.label);
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function WorkflowCanvas({
+  workflow,
+  viewportRef,
+  selection,
+  invalidNodeIds,
+  connecting,
+  dragging,
+  onSelect,
+  onStartConnection,
+  onCompleteConnection,
+  onCancelConnection,
+}: WorkflowCanvasProps) {
+  const { setNodeRef, isOver } = useDroppable({ id: CANVAS_DROPPABLE_ID });
+
+  const positionOf = (node: WorkflowNode) => {
+    const offset = dragging?.nodeId === node.id ? dragging : { dx: 0, dy: 0 };
+    return { x: (node.x ?? 0) + offset.dx, y: (node.y ?? 0) + offset.dy };
+  };
+  const nodesById = new Map(workflow.nodes.map((n) => [n.id, n]));
+
+  const width = Math.max(1200, ...workflow.nodes.map((n) => (n.x ?? 0) + CANVAS_NODE_WIDTH + CANVAS_MARGIN));
+  const height = Math.max(800, ...workflow.nodes.map((n) => (n.y ?? 0) + CANVAS_NODE_HEIGHT + CANVAS_MARGIN));
+
+  const edgePath = (edge: WorkflowEdge) => {
+    const from = nodesById.get(edge.fromNodeId);
+    const to = nodesById.get(edge.toNodeId);
+    if (!from || !to) return null;
+    const start = outputPoint(from, positionOf(from).x, positionOf(from).y, edge.label);
+    const end = { x: positionOf(to).x + CANVAS_NODE_WIDTH / 2, y: positionOf(to).y };
+    const bend = Math.max(40, Math.abs(end.y - start.y) / 2);
+    return {
+      d: `M ${start.x} ${start.y} C ${start.x} ${start.y + bend}, ${end.x} ${end.y - bend}, ${end.x} ${end.y}`,
+      mid: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+    };
+  };
+
+  return (
+    <div
+      ref={viewportRef}
+      className="relative h-full overflow-auto bg-muted/30"
+      onClick={() => {
+        if (connecting) onCancelConnection();
+        else onSelect(null);
+      }}
+    >
+      <div
+        ref={setNodeRef}
+        className={cn("relative", isOver && "bg-primary/5")}
+        style={{
+          width,
+          height,
+          backgroundImage: "radial-gradient(circle, hsl(var(--muted-foreground) / 0.2) 1px, transparent 1px)",
+          backgroundSize: "20px 20px",
+        }}
+      >
+        <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+          <defs>
+            <marker id="workflow-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+              <path d="M 0 0 L 10 5 L 0 10 z" className="fill-muted-foreground" />
+            </marker>
+          </defs>
+          {workflow.edges.map((edge) => {
+            const path = edgePath(edge);
+            if (!path) return null;
+            const selected = selection?.type === "edge" && selection.id === edge.id;
+            return (
+              <g key={edge.id}>
+                {/* Wide transparent stroke so edges are easy to click */}
+                <path
+                  d={path.d}
+                  fill="none"
+                  stroke="transparent"
+                  strokeWidth={14}
+                  className="pointer-events-auto cursor-pointer"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onSelect({ type: "edge", id: edge.id });
+                  }}
+                />
+                <path
+                  d={path.d}
+                  fill="none"
+                  markerEnd="url(#workflow-arrow)"
+                  className={cn(selected ? "stroke-primary" : "stroke-muted-foreground")}
+                  strokeWidth={selected ? 2.5 : 1.5}
+                />
+                {edge.label && (
+                  <text x={path.mid.x + 6} y={path.mid.y} className="fill-muted-foreground text-[11px]">
+                    {edge.label}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+
+        {workflow.nodes.map((node) => {
+          const { x, y } = positionOf(node);
+          return (
+            <CanvasNode
+              key={node.id}
+              node={node}
+              x={x}
+              y={y}
+              selected={selection?.type === "node" && selection.id === node.id}
+              invalid={invalidNodeIds.has(node.id)}
+              connecting={connecting}
+              onSelect={() => onSelect({ type: "node", id: node.id })}
+              onStartConnection={(label) => onStartConnection({ fromNodeId: node.id, label })}
+              onCompleteConnection={() => onCompleteConnection(node.id)}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+}
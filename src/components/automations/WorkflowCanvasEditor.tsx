@@ -0,0 +1,358 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  DndContext,
+  DragOverlay,
+  PointerSensor,
+  useDraggable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragMoveEvent,
+  type DragStartEvent,
+} from "@dnd-kit/core";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, CheckCircle2, Loader2, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { saveWorkflow } from "@/lib/automations/registry";
+import {
+  addNode,
+  automationRowToWorkflow,
+  connectNodes,
+  createEmptyWorkflow,
+  layoutWorkflow,
+  moveNode,
+  removeEdge,
+  removeNode,
+  updateNode,
+  type AutomationRowLike,
+} from "@/lib/workflows/canvas";
+import { PALETTE_ITEMS, type PaletteGroup, type PaletteItem } from "@/lib/workflows/palette";
+import { sampleWorkflows } from "@/lib/workflows/sampleTemplates";
+import { validateWorkflow } from "@/lib/workflows/validation";
+import type { WorkflowDefinition, WorkflowNode } from "@/lib/workflows/types";
+import {
+  CANVAS_DROPPABLE_ID,
+  WorkflowCanvas,
+  type CanvasSelection,
+  type PendingConnection,
+} from "./WorkflowCanvas";
+import { WorkflowNodeInspector } from "./WorkflowNodeInspector";
+import { AutomationEnrollmentFields } from "./AutomationEnrollmentFields";
+
+interface WorkflowCanvasEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  /** Row to edit; null starts a new workflow */
+  automation?: AutomationRowLike | null;
+}
+
+const PALETTE_GROUPS: PaletteGroup[] = ["Triggers", "Actions", "Logic"];
+
+function PaletteEntry({ item }: { item: PaletteItem }) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: `palette:${item.key}` });
+  return (
+    <div
+      ref={setNodeRef}
+      {...listeners}
+      {...attributes}
+      className={`rounded-md border bg-card px-2.5 py-1.5 text-xs cursor-grab select-none hover:border-primary/50 ${
+        isDragging ? "opacity-50" : ""
+      }`}
+    >
+      {item.label}
+    </div>
+  );
+}
+
+export function WorkflowCanvasEditor({ open, onOpenChange, teamId, automation }: WorkflowCanvasEditorProps) {
+  const queryClient = useQueryClient();
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [workflow, setWorkflow] = useState<WorkflowDefinition>(() => createEmptyWorkflow(teamId));
+  const [selection, setSelection] = useState<CanvasSelection>(null);
+  const [connecting, setConnecting] = useState<PendingConnection | null>(null);
+  const [dragging, setDragging] = useState<{ nodeId: string; dx: number; dy: number } | null>(null);
+  // Palette items render in a DragOverlay so the sidebar's overflow doesn't clip them
+  const [draggingItem, setDraggingItem] = useState<PaletteItem | null>(null);
+
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 4 } }));
+
+  useEffect(() => {
+    if (!open) return;
+    setWorkflow(automation ? layoutWorkflow(automationRowToWorkflow(automation)) : createEmptyWorkflow(teamId));
+    setSelection(null);
+    setConnecting(null);
+  }, [automation, open, teamId]);
+
+  const errors = useMemo(() => validateWorkflow(workflow), [workflow]);
+  const invalidNodeIds = useMemo(
+    () => new Set(errors.map((e) => e.nodeId).filter((id): id is string => !!id)),
+    [errors],
+  );
+
+  const selectedNode = selection?.type === "node" ? workflow.nodes.find((n) => n.id === selection.id) : undefined;
+  const selectedEdge = selection?.type === "edge" ? workflow.edges.find((e) => e.id === selection.id) : undefined;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!workflow.name.trim()) throw new Error("Name is required");
+      const { id, errors: saveErrors } = await saveWorkflow({ ...workflow, teamId }, automation?.id);
+      if (saveErrors.length > 0) throw new Error(`Workflow is invalid: ${saveErrors[0].message}`);
+      if (!id) throw new Error("Failed to save workflow");
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["automations", teamId] });
+      toast.success(automation ? "Workflow updated" : "Workflow created");
+      onOpenChange(false);
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to save workflow");
+    },
+  });
+
+  const handleDragStart = (event: DragStartEvent) => {
+    const id = String(event.active.id);
+    setDraggingItem(PALETTE_ITEMS.find((p) => `palette:${p.key}` === id) ?? null);
+  };
+
+  const handleDragMove = (event: DragMoveEvent) => {
+    const id = String(event.active.id);
+    if (!id.startsWith("node:")) return;
+    setDragging({ nodeId: id.slice("node:".length), dx: event.delta.x, dy: event.delta.y });
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const id = String(event.active.id);
+    setDragging(null);
+    setDraggingItem(null);
+
+    if (id.startsWith("node:")) {
+      const nodeId = id.slice("node:".length);
+      const node = workflow.nodes.find((n) => n.id === nodeId);
+      if (!node) return;
+      setWorkflow((prev) =>
+        moveNode(prev, nodeId, {
+          x: Math.max(0, (node.x ?? 0) + event.delta.x),
+          y: Math.max(0, (node.y ?? 0) + event.delta.y),
+        }),
+      );
+      return;
+    }
+
+    // Dropped from the palette: place the node where it was released
+    const item = PALETTE_ITEMS.find((p) => `palette:${p.key}` === id);
+    const dropRect = event.active.rect.current.translated;
+    const viewport = viewportRef.current;
+    if (!item || event.over?.id !== CANVAS_DROPPABLE_ID || !dropRect || !viewport) return;
+
+    const bounds = viewport.getBoundingClientRect();
+    const position = {
+      x: Math.max(0, dropRect.left - bounds.left + viewport.scrollLeft),
+      y: Math.max(0, dropRect.top - bounds.top + viewport.scrollTop),
+    };
+    const { workflow: next, nodeId } = addNode(workflow, item, position);
+    setWorkflow(next);
+    setSelection({ type: "node", id: nodeId });
+  };
+
+  const loadSample = (sampleId: string) => {
+    const sample = sampleWorkflows.find((w) => w.id === sampleId);
+    if (!sample) return;
+    setWorkflow((prev) => layoutWorkflow({ ...sample, id: prev.id, teamId, createdAt: prev.createdAt }));
+    setSelection(null);
+  };
+
+  const deleteSelection = () => {
+    if (selection?.type === "node") setWorkflow((prev) => removeNode(prev, selection.id));
+    if (selection?.type === "edge") setWorkflow((prev) => removeEdge(prev, selection.id));
+    setSelection(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[95vw] w-[95vw] h-[90vh] flex flex-col p-0 gap-0">
+        <DialogHeader className="px-4 py-3 border-b space-y-0">
+          <div className="flex items-center gap-3 pr-8">
+            <DialogTitle className="text-base shrink-0">{automation ? "Edit Workflow" : "New Workflow"}</DialogTitle>
+            <Input
+              value={workflow.name}
+              onChange={(e) => setWorkflow((prev) => ({ ...prev, name: e.target.value }))}
+              className="h-8 max-w-xs"
+              placeholder="Workflow name"
+            />
+            {!automation && (
+              <Select onValueChange={loadSample}>
+                <SelectTrigger className="h-8 w-56">
+                  <SelectValue placeholder="Start from a template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sampleWorkflows.map((sample) => (
+                    <SelectItem key={sample.id} value={sample.id}>{sample.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <div className="ml-auto flex items-center gap-3">
+              {connecting && (
+                <span className="text-xs text-muted-foreground">
+                  Click a node to connect{connecting.label ? ` the "${connecting.label}" branch` : ""} · click the canvas to cancel
+                </span>
+              )}
+              {errors.length === 0 ? (
+                <Badge variant="outline" className="gap-1 text-emerald-600">
+                  <CheckCircle2 className="h-3 w-3" />
+                  Valid
+                </Badge>
+              ) : (
+                <Badge variant="destructive" className="gap-1">
+                  <AlertCircle className="h-3 w-3" />
+                  {errors.length} issue{errors.length === 1 ? "" : "s"}
+                </Badge>
+              )}
+              <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || errors.length > 0}>
+                {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <DndContext
+          sensors={sensors}
+          onDragStart={handleDragStart}
+          onDragMove={handleDragMove}
+          onDragEnd={handleDragEnd}
+          onDragCancel={() => {
+            setDragging(null);
+            setDraggingItem(null);
+          }}
+        >
+          <div className="flex flex-1 min-h-0">
+            <ScrollArea className="w-48 border-r shrink-0">
+              <div className="p-3 space-y-4">
+                {PALETTE_GROUPS.map((group) => (
+                  <div key={group} className="space-y-1.5">
+                    <p className="text-xs font-medium text-muted-foreground">{group}</p>
+                    {PALETTE_ITEMS.filter((item) => item.group === group).map((item) => (
+                      <PaletteEntry key={item.key} item={item} />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex-1 min-w-0">
+              <WorkflowCanvas
+                workflow={workflow}
+                viewportRef={viewportRef}
+                selection={selection}
+                invalidNodeIds={invalidNodeIds}
+                connecting={connecting}
+                dragging={dragging}
+                onSelect={setSelection}
+                onStartConnection={setConnecting}
+                onCompleteConnection={(toNodeId) => {
+                  if (!connecting) return;
+                  setWorkflow((prev) => connectNodes(prev, connecting.fromNodeId, toNodeId, connecting.label));
+                  setConnecting(null);
+                }}
+                onCancelConnection={() => setConnecting(null)}
+              />
+            </div>
+
+            <ScrollArea className="w-80 border-l shrink-0">
+              <div className="p-4 space-y-4">
+                {selectedNode ? (
+                  <WorkflowNodeInspector
+                    key={selectedNode.id}
+                    node={selectedNode}
+                    onChange={(patch: Partial<WorkflowNode>) =>
+                      setWorkflow((prev) => updateNode(prev, selectedNode.id, patch))
+                    }
+                    onDelete={deleteSelection}
+                  />
+                ) : selectedEdge ? (
+                  <div className="space-y-3">
+                    <p className="text-xs uppercase tracking-wide text-muted-foreground">Connection</p>
+                    <p className="text-sm">
+                      {workflow.nodes.find((n) => n.id === selectedEdge.fromNodeId)?.label ?? selectedEdge.fromNodeId}
+                      {" → "}
+                      {workflow.nodes.find((n) => n.id === selectedEdge.toNodeId)?.label ?? selectedEdge.toNodeId}
+                    </p>
+                    {selectedEdge.label && <Badge variant="outline">{selectedEdge.label}</Badge>}
+                    <Button variant="outline" size="sm" className="w-full text-destructive" onClick={deleteSelection}>
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Remove connection
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="space-y-1.5">
+                      <Label className="text-xs">Description</Label>
+                      <Textarea
+                        value={workflow.description ?? ""}
+                        onChange={(e) => setWorkflow((prev) => ({ ...prev, description: e.target.value }))}
+                        rows={3}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label className="text-xs">Active</Label>
+                      <Switch
+                        checked={workflow.isActive}
+                        onCheckedChange={(checked) => setWorkflow((prev) => ({ ...prev, isActive: checked }))}
+                      />
+                    </div>
+                    <div className="border-t pt-4">
+                      <AutomationEnrollmentFields
+                        value={workflow}
+                        onChange={(patch) => setWorkflow((prev) => ({ ...prev, ...patch }))}
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Drag steps from the left onto the canvas. Click a node's handle, then another node, to connect
+                      them.
+                    </p>
+                  </div>
+                )}
+
+                {errors.length > 0 && (
+                  <div className="space-y-1.5 border-t pt-4">
+                    <p className="text-xs font-medium text-destructive">Fix before saving</p>
+                    {errors.map((error, index) => (
+                      <button
+                        key={`${error.code}-${index}`}
+                        type="button"
+                        className="block w-full text-left text-xs text-muted-foreground hover:text-foreground"
+                        onClick={() => {
+                          if (error.nodeId) setSelection({ type: "node", id: error.nodeId });
+                          else if (error.edgeId) setSelection({ type: "edge", id: error.edgeId });
+                        }}
+                      >
+                        • {error.message}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+          <DragOverlay dropAnimation={null}>
+            {draggingItem && (
+              <div className="rounded-md border bg-card px-2.5 py-1.5 text-xs shadow-lg">{draggingItem.label}</div>
+            )}
+          </DragOverlay>
+        </DndContext>
+      </DialogContent>
+    </Dialog>
+  );
+}
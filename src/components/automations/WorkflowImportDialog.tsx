@@ -0,0 +1,288 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertCircle, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import {
+  findSecretFields,
+  findTeamReferences,
+  parseWorkflowExport,
+  type ReferenceMapping,
+  type SecretField,
+  type SecretValues,
+  type TeamReference,
+  type TeamReferenceKind,
+  type WorkflowExportFile,
+} from "@/lib/workflows/portable";
+import { fetchTeamReferenceOptions, importWorkflows, type TeamReferenceOptions } from "@/lib/workflows/transfer";
+
+interface WorkflowImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  /** Skip the paste/upload step, e.g. when installing from the template gallery */
+  file?: WorkflowExportFile | null;
+}
+
+/** Select value for "leave this field empty" (Radix selects can't use "") */
+const CLEAR_VALUE = "__clear__";
+
+const KIND_LABELS: Record<TeamReferenceKind, string> = {
+  user: "Team member",
+  stage: "Pipeline stage",
+  integration: "Integration",
+};
+
+function describeSecret(field: SecretField): string {
+  return field.name === "secret" ? "Signing secret" : `Header ${field.name.slice("header:".length)}`;
+}
+
+/** Same id in this team (re-importing a backup), else an option with the same label */
+function guessMapping(reference: TeamReference, options: TeamReferenceOptions): string | undefined {
+  const candidates = options[reference.kind];
+  if (candidates.some((o) => o.id === reference.id)) return reference.id;
+  const label = reference.label?.trim().toLowerCase();
+  return label ? candidates.find((o) => o.label.trim().toLowerCase() === label)?.id : undefined;
+}
+
+export function WorkflowImportDialog({ open, onOpenChange, teamId, file: providedFile }: WorkflowImportDialogProps) {
+  const queryClient = useQueryClient();
+  const [text, setText] = useState("");
+  const [parsed, setParsed] = useState<{ file: WorkflowExportFile | null; errors: string[] }>({ file: null, errors: [] });
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ReferenceMapping>({});
+  const [secrets, setSecrets] = useState<SecretValues>({});
+
+  const file = providedFile ?? parsed.file;
+
+  const { data: options, isLoading: optionsLoading } = useQuery({
+    queryKey: ["workflow-reference-options", teamId],
+    enabled: open,
+    queryFn: () => fetchTeamReferenceOptions(teamId),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setText("");
+    setParsed({ file: null, errors: [] });
+    setMapping({});
+    setSecrets({});
+  }, [open]);
+
+  useEffect(() => {
+    setSelectedKeys(file ? file.workflows.map((w) => w.key) : []);
+  }, [file]);
+
+  const references = useMemo(() => (file ? findTeamReferences(file, selectedKeys) : []), [file, selectedKeys]);
+  const secretFields = useMemo(() => (file ? findSecretFields(file, selectedKeys) : []), [file, selectedKeys]);
+
+  // Prefill references we can match; the user confirms the rest
+  useEffect(() => {
+    if (!options) return;
+    setMapping((prev) => {
+      const next = { ...prev };
+      for (const reference of references) {
+        if (next[reference.key] !== undefined) continue;
+        const guess = guessMapping(reference, options);
+        if (guess) next[reference.key] = guess;
+      }
+      return next;
+    });
+  }, [references, options]);
+
+  const unmapped = references.filter((r) => mapping[r.key] === undefined);
+
+  const handleText = (value: string) => {
+    setText(value);
+    setMapping({});
+    setSecrets({});
+    setParsed(value.trim() ? parseWorkflowExport(value) : { file: null, errors: [] });
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const upload = event.target.files?.[0];
+    event.target.value = "";
+    if (upload) handleText(await upload.text());
+  };
+
+  const importMutation = useMutation({
+    mutationFn: () => importWorkflows(teamId, file!, selectedKeys, mapping, secrets),
+    onSuccess: (results) => {
+      queryClient.invalidateQueries({ queryKey: ["automations", teamId] });
+      const failed = results.filter((r) => !r.id);
+      const imported = results.length - failed.length;
+      if (imported > 0) {
+        toast.success(`Imported ${imported} workflow${imported === 1 ? "" : "s"} (inactive until you turn them on)`);
+      }
+      for (const result of failed) {
+        toast.error(`"${result.name}" was not imported: ${result.errors[0]}`);
+      }
+      if (failed.length === 0) onOpenChange(false);
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : "Import failed"),
+  });
+
+  const toggleWorkflow = (key: string, checked: boolean) =>
+    setSelectedKeys((prev) => (checked ? [...prev, key] : prev.filter((k) => k !== key)));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{providedFile ? "Use template" : "Import workflows"}</DialogTitle>
+          <DialogDescription>
+            Imported workflows are created inactive. Team-specific references are mapped onto this team before saving.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1 min-h-0 -mx-6 px-6">
+          <div className="space-y-5 pb-1">
+            {!providedFile && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Export file</Label>
+                  <Button variant="outline" size="sm" asChild>
+                    <label className="cursor-pointer">
+                      <Upload className="h-4 w-4 mr-2" />
+                      Upload .json
+                      <input type="file" accept="application/json,.json" className="hidden" onChange={handleUpload} />
+                    </label>
+                  </Button>
+                </div>
+                <Textarea
+                  value={text}
+                  onChange={(e) => handleText(e.target.value)}
+                  placeholder='Paste an export, e.g. { "format": "workflow-export", "version": 1, ... }'
+                  className="font-mono text-xs min-h-[120px]"
+                />
+                {parsed.errors.length > 0 && (
+                  <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 space-y-1">
+                    {parsed.errors.map((error, i) => (
+                      <p key={i} className="text-xs text-destructive flex items-start gap-1.5">
+                        <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                        {error}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {file && (
+              <div className="space-y-2">
+                <Label>Workflows</Label>
+                {file.workflows.map((workflow) => (
+                  <label key={workflow.key} className="flex items-start gap-3 rounded-md border p-3 cursor-pointer">
+                    <Checkbox
+                      className="mt-0.5"
+                      checked={selectedKeys.includes(workflow.key)}
+                      onCheckedChange={(checked) => toggleWorkflow(workflow.key, checked === true)}
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">{workflow.name}</p>
+                      {workflow.description && <p className="text-xs text-muted-foreground">{workflow.description}</p>}
+                      <p className="text-xs text-muted-foreground">
+                        {workflow.nodes.length} node{workflow.nodes.length === 1 ? "" : "s"}
+                      </p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {file && references.length > 0 && (
+              <div className="space-y-2">
+                <Label>Map references</Label>
+                <p className="text-xs text-muted-foreground">
+                  These steps point at records from the team that made the file. Pick the matching record in this team.
+                </p>
+                {optionsLoading ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                ) : (
+                  references.map((reference) => (
+                    <div key={reference.key} className="grid grid-cols-[1fr_14rem] items-center gap-3 rounded-md border p-3">
+                      <div className="min-w-0">
+                        <p className="text-sm">
+                          {KIND_LABELS[reference.kind]}: <span className="font-medium">{reference.label ?? reference.id}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          Used by {reference.usages.map((u) => `${u.workflowName} → ${u.nodeLabel}`).join(", ")}
+                        </p>
+                      </div>
+                      <Select
+                        value={mapping[reference.key] === "" ? CLEAR_VALUE : mapping[reference.key]}
+                        onValueChange={(value) =>
+                          setMapping((prev) => ({ ...prev, [reference.key]: value === CLEAR_VALUE ? "" : value }))
+                        }
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue placeholder="Choose…" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(options?.[reference.kind] ?? []).map((option) => (
+                            <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                          ))}
+                          <SelectItem value={CLEAR_VALUE}>Leave empty (fix later)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+
+            {file && secretFields.length > 0 && (
+              <div className="space-y-2">
+                <Label>Webhook secrets</Label>
+                <p className="text-xs text-muted-foreground">
+                  Exports leave out webhook secrets and header values. Enter this team's, or leave a field empty to skip it.
+                </p>
+                {secretFields.map((field) => (
+                  <div key={field.key} className="grid grid-cols-[1fr_14rem] items-center gap-3 rounded-md border p-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">{describeSecret(field)}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        Used by {field.workflowName} → {field.nodeLabel}
+                      </p>
+                    </div>
+                    <Input
+                      type="password"
+                      className="h-8"
+                      value={secrets[field.key] ?? ""}
+                      onChange={(e) => setSecrets((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="items-center">
+          {unmapped.length > 0 && (
+            <span className="text-xs text-muted-foreground mr-auto">
+              {unmapped.length} reference{unmapped.length === 1 ? "" : "s"} left to map
+            </span>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={!file || selectedKeys.length === 0 || unmapped.length > 0 || importMutation.isPending}
+          >
+            {importMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import {selectedKeys.length > 0 ? selectedKeys.length : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,360 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { CONDITION_OPERATORS, isConditionGroup, validateConditions } from "@/lib/automations/conditions";
+import type { AutomationCondition, ConditionOperator, ConditionRule, TriggerType } from "@/lib/automations/types";
+import { getNodeKindLabel } from "@/lib/workflows/canvas";
+import { ACTION_LABELS, TRIGGER_LABELS } from "@/lib/workflows/palette";
+import type { WorkflowConditionNode, WorkflowNode } from "@/lib/workflows/types";
+
+interface WorkflowNodeInspectorProps {
+  node: WorkflowNode;
+  onChange: (patch: Partial<WorkflowNode>) => void;
+  onDelete: () => void;
+}
+
+/** Operators that take no value / a list / a number */
+const VALUELESS_OPERATORS: ConditionOperator[] = ["is_set", "is_not_set"];
+const LIST_OPERATORS: ConditionOperator[] = ["in", "not_in", "contains_any", "contains_all"];
+const NUMERIC_OPERATORS: ConditionOperator[] = [
+  "greater_than",
+  "greater_or_equal",
+  "less_than",
+  "less_or_equal",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "within_hours",
+  "within_next_hours",
+  "within_last_hours",
+];
+
+function formatRuleValue(rule: ConditionRule): string {
+  if (Array.isArray(rule.value)) return rule.value.join(", ");
+  return rule.value === undefined || rule.value === null ? "" : String(rule.value);
+}
+
+function parseRuleValue(operator: ConditionOperator, raw: string): ConditionRule["value"] {
+  if (VALUELESS_OPERATORS.includes(operator)) return undefined;
+  if (LIST_OPERATORS.includes(operator)) {
+    return raw.split(",").map((v) => v.trim()).filter(Boolean);
+  }
+  if (NUMERIC_OPERATORS.includes(operator) && raw.trim() !== "" && Number.isFinite(Number(raw))) {
+    return Number(raw);
+  }
+  return raw;
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-xs">{label}</Label>
+      {children}
+    </div>
+  );
+}
+
+function ConditionEditor({
+  node,
+  onChange,
+}: {
+  node: WorkflowConditionNode;
+  onChange: (patch: Partial<WorkflowConditionNode>) => void;
+}) {
+  const conditions = node.conditions ?? [];
+  const hasGroups = conditions.some((c) => isConditionGroup(c));
+  const [json, setJson] = useState(() => JSON.stringify(conditions, null, 2));
+  const [jsonError, setJsonError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setJson(JSON.stringify(node.conditions ?? [], null, 2));
+    setJsonError(null);
+  }, [node.id, node.conditions]);
+
+  const rules = conditions as ConditionRule[];
+  const setRule = (index: number, patch: Partial<ConditionRule>) =>
+    onChange({ conditions: rules.map((r, i) => (i === index ? { ...r, ...patch } : r)) });
+
+  return (
+    <div className="space-y-3">
+      <Field label="Match">
+        <Select
+          value={node.logicOperator ?? "AND"}
+          onValueChange={(value) => onChange({ logicOperator: value as "AND" | "OR" })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="AND">All rules (AND)</SelectItem>
+            <SelectItem value="OR">Any rule (OR)</SelectItem>
+          </SelectContent>
+        </Select>
+      </Field>
+
+      {hasGroups ? (
+        // Nested groups don't fit the row editor; edit them as JSON
+        <Field label="Rules (JSON)">
+          <Textarea
+            value={json}
+            onChange={(e) => setJson(e.target.value)}
+            onBlur={() => {
+              try {
+                const parsed = JSON.parse(json) as AutomationCondition[];
+                const problems = validateConditions(parsed);
+                if (problems.length > 0) {
+                  setJsonError(problems[0]);
+                  return;
+                }
+                setJsonError(null);
+                onChange({ conditions: parsed });
+              } catch {
+                setJsonError("Invalid JSON");
+              }
+            }}
+            rows={8}
+            className="font-mono text-xs"
+          />
+          {jsonError && <p className="text-xs text-destructive">{jsonError}</p>}
+        </Field>
+      ) : (
+        <div className="space-y-2">
+          <Label className="text-xs">Rules</Label>
+          {rules.map((rule, index) => (
+            <div key={index} className="space-y-1.5 rounded-md border p-2">
+              <div className="flex gap-1.5">
+                <Input
+                  value={rule.field}
+                  onChange={(e) => setRule(index, { field: e.target.value })}
+                  placeholder="lead.status"
+                  className="h-8 text-xs"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => onChange({ conditions: rules.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+              <Select
+                value={rule.operator}
+                onValueChange={(value) =>
+                  setRule(index, {
+                    operator: value as ConditionOperator,
+                    value: parseRuleValue(value as ConditionOperator, formatRuleValue(rule)),
+                  })
+                }
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONDITION_OPERATORS.map((op) => (
+                    <SelectItem key={op} value={op}>{op.replace(/_/g, " ")}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!VALUELESS_OPERATORS.includes(rule.operator) && (
+                <Input
+                  value={formatRuleValue(rule)}
+                  onChange={(e) => setRule(index, { value: parseRuleValue(rule.operator, e.target.value) })}
+                  placeholder={LIST_OPERATORS.includes(rule.operator) ? "a, b, c" : "value"}
+                  className="h-8 text-xs"
+                />
+              )}
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => onChange({ conditions: [...rules, { field: "", operator: "equals", value: "" }] })}
+          >
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add rule
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function WorkflowNodeInspector({ node, onChange, onDelete }: WorkflowNodeInspectorProps) {
+  const config = node.kind === "condition" ? {} : node.config ?? {};
+  const setConfig = (patch: Record<string, unknown>) => onChange({ config: { ...config, ...patch } } as Partial<WorkflowNode>);
+
+  const numberInput = (key: string, label: string) => (
+    <Field label={label}>
+      <Input
+        type="number"
+        min={0}
+        value={config[key] ?? ""}
+        onChange={(e) => setConfig({ [key]: e.target.value === "" ? undefined : Number(e.target.value) })}
+      />
+    </Field>
+  );
+  const textInput = (key: string, label: string, placeholder?: string) => (
+    <Field label={label}>
+      <Input value={config[key] ?? ""} onChange={(e) => setConfig({ [key]: e.target.value })} placeholder={placeholder} />
+    </Field>
+  );
+  const entitySelect = (
+    <Field label="Record">
+      <Select value={config.entity ?? "lead"} onValueChange={(value) => setConfig({ entity: value })}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="lead">Lead</SelectItem>
+          <SelectItem value="deal">Deal</SelectItem>
+        </SelectContent>
+      </Select>
+    </Field>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-muted-foreground">{getNodeKindLabel(node.kind)}</p>
+          <p className="text-xs text-muted-foreground font-mono">{node.id}</p>
+        </div>
+        <Button variant="ghost" size="sm" className="text-destructive" onClick={onDelete}>
+          <Trash2 className="h-4 w-4 mr-1" />
+          Delete
+        </Button>
+      </div>
+
+      <Field label="Label">
+        <Input value={node.label} onChange={(e) => onChange({ label: e.target.value })} />
+      </Field>
+
+      {node.kind === "trigger" && (
+        <Field label="When">
+          <Select
+            value={node.triggerType}
+            onValueChange={(value) => onChange({ triggerType: value as TriggerType } as Partial<WorkflowNode>)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.entries(TRIGGER_LABELS) as [TriggerType, string][]).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Field>
+      )}
+
+      {node.kind === "condition" && (
+        <>
+          <Field label="Description">
+            <Input
+              value={node.description ?? ""}
+              onChange={(e) => onChange({ description: e.target.value || undefined } as Partial<WorkflowNode>)}
+              placeholder="e.g. Lead showed up"
+            />
+          </Field>
+          <ConditionEditor node={node} onChange={(patch) => onChange(patch as Partial<WorkflowNode>)} />
+          <p className="text-xs text-muted-foreground">
+            Connect the green handle for when the rules pass and the red one for when they don't.
+          </p>
+        </>
+      )}
+
+      {node.kind === "action" && (
+        <>
+          <p className="text-xs text-muted-foreground">{ACTION_LABELS[node.actionType] ?? node.actionType}</p>
+
+          {node.actionType === "send_message" && (
+            <>
+              <Field label="Channel">
+                <Select value={config.channel ?? "sms"} onValueChange={(value) => setConfig({ channel: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="sms">SMS</SelectItem>
+                    <SelectItem value="email">Email</SelectItem>
+                  </SelectContent>
+                </Select>
+              </Field>
+              {config.channel === "email" && textInput("subject", "Subject")}
+              <Field label="Message">
+                <Textarea
+                  value={config.template ?? ""}
+                  onChange={(e) => setConfig({ template: e.target.value })}
+                  placeholder="Hey {{lead.first_name}}, ..."
+                  rows={5}
+                />
+              </Field>
+            </>
+          )}
+
+          {node.actionType === "time_delay" && (
+            <div className="grid grid-cols-3 gap-2">
+              {numberInput("delayDays", "Days")}
+              {numberInput("delayHours", "Hours")}
+              {numberInput("delayMinutes", "Minutes")}
+            </div>
+          )}
+
+          {node.actionType === "notify_team" && (
+            <Field label="Message">
+              <Textarea value={config.message ?? ""} onChange={(e) => setConfig({ message: e.target.value })} rows={4} />
+            </Field>
+          )}
+
+          {node.actionType === "add_task" && (
+            <>
+              <Field label="Task type">
+                <Select value={config.taskType ?? "follow_up"} onValueChange={(value) => setConfig({ taskType: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="follow_up">Follow up</SelectItem>
+                    <SelectItem value="call_confirmation">Call confirmation</SelectItem>
+                    <SelectItem value="reschedule">Reschedule</SelectItem>
+                  </SelectContent>
+                </Select>
+              </Field>
+              {numberInput("followUpInHours", "Due in (hours)")}
+              {textInput("reason", "Reason")}
+            </>
+          )}
+
+          {node.actionType === "add_tag" && textInput("tag", "Tag")}
+          {node.actionType === "enqueue_dialer" && (
+            <>
+              {textInput("queueName", "Dialer queue", "e.g. New leads")}
+              {numberInput("priority", "Priority")}
+              <p className="text-xs text-muted-foreground">Higher priority contacts are called first.</p>
+            </>
+          )}
+          {node.actionType === "assign_owner" && (
+            <>
+              {entitySelect}
+              {textInput("ownerId", "Owner user id")}
+            </>
+          )}
+          {node.actionType === "update_stage" && (
+            <>
+              {entitySelect}
+              {textInput("stageId", "Stage id")}
+            </>
+          )}
+          {node.actionType === "custom_webhook" && textInput("url", "URL", "https://...")}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { LayoutTemplate } from "lucide-react";
+import { workflowTemplates } from "@/lib/workflows/sampleTemplates";
+import { TRIGGER_LABELS } from "@/lib/workflows/palette";
+import type { WorkflowExportFile } from "@/lib/workflows/portable";
+import type { WorkflowTriggerNode } from "@/lib/workflows/types";
+import { WorkflowImportDialog } from "./WorkflowImportDialog";
+
+interface WorkflowTemplateGalleryProps {
+  teamId: string;
+}
+
+/** Starter workflows, installed through the same import flow as exported files. */
+export function WorkflowTemplateGallery({ teamId }: WorkflowTemplateGalleryProps) {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const categories = useMemo(() => {
+    const groups = new Map<string, WorkflowExportFile["workflows"]>();
+    for (const template of workflowTemplates.workflows) {
+      const category = template.category ?? "Other";
+      groups.set(category, [...(groups.get(category) ?? []), template]);
+    }
+    return [...groups.entries()];
+  }, []);
+
+  const selectedFile = useMemo<WorkflowExportFile | null>(() => {
+    const template = workflowTemplates.workflows.find((w) => w.key === selectedKey);
+    return template ? { ...workflowTemplates, workflows: [template] } : null;
+  }, [selectedKey]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <LayoutTemplate className="h-5 w-5" />
+          Template Gallery
+        </CardTitle>
+        <CardDescription>Start from a proven workflow. Templates are added inactive so you can review them first.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {categories.map(([category, templates]) => (
+          <div key={category} className="space-y-3">
+            <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{category}</p>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {templates.map((template) => {
+                const trigger = template.nodes.find((n): n is WorkflowTriggerNode => n.kind === "trigger");
+                const steps = template.nodes.filter((n) => n.kind !== "trigger").length;
+                return (
+                  <div key={template.key} className="rounded-lg border p-4 flex flex-col gap-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="font-medium text-sm">{template.name}</p>
+                      {trigger && (
+                        <Badge variant="secondary" className="shrink-0">
+                          {TRIGGER_LABELS[trigger.triggerType] ?? trigger.triggerType}
+                        </Badge>
+                      )}
+                    </div>
+                    {template.description && <p className="text-xs text-muted-foreground">{template.description}</p>}
+                    <div className="mt-auto flex items-center justify-between pt-2">
+                      <span className="text-xs text-muted-foreground">
+                        {steps} step{steps === 1 ? "" : "s"}
+                      </span>
+                      <Button size="sm" variant="outline" onClick={() => setSelectedKey(template.key)}>
+                        Use template
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <WorkflowImportDialog
+        open={!!selectedFile}
+        onOpenChange={(open) => !open && setSelectedKey(null)}
+        teamId={teamId}
+        file={selectedFile}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Check, Loader2, Search } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { PowerDialerClient } from "@/lib/integrations/powerDialer";
+import { searchDialableContacts, splitContactName, type DialerQueue } from "@/lib/dialer/queues";
+
+interface AddToDialerQueueDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  queue: DialerQueue;
+}
+
+interface ContactOption {
+  id: string;
+  name: string | null;
+  phone: string | null;
+  email: string | null;
+}
+
+export function AddToDialerQueueDialog({ open, onOpenChange, teamId, queue }: AddToDialerQueueDialogProps) {
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [selected, setSelected] = useState<ContactOption | null>(null);
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [priority, setPriority] = useState("0");
+
+  useEffect(() => {
+    if (!open) return;
+    setSearch("");
+    setDebouncedSearch("");
+    setSelected(null);
+    setName("");
+    setPhone("");
+    setPriority("0");
+  }, [open]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const { data: contacts = [], isFetching } = useQuery({
+    queryKey: ["dialable-contacts", teamId, debouncedSearch],
+    enabled: open,
+    queryFn: () => searchDialableContacts(teamId, debouncedSearch),
+  });
+
+  const client = useMemo(() => new PowerDialerClient({ teamId, queueId: queue.id }), [teamId, queue.id]);
+
+  const addMutation = useMutation({
+    mutationFn: () => {
+      const target = selected ?? { id: undefined, name, phone, email: null };
+      if (!target.phone?.trim()) throw new Error("Pick a contact or enter a phone number");
+
+      return client.pushContact({
+        phone: target.phone.trim(),
+        email: target.email ?? undefined,
+        ...splitContactName(target.name),
+        contactId: target.id,
+        priority: Number(priority) || 0,
+      });
+    },
+    onSuccess: (result) => {
+      if (result.skipped) {
+        toast.info(result.skipReason === "already_queued" ? "Already waiting in this queue" : "Contact wasn't added");
+        return;
+      }
+      if (result.push && !result.push.success) {
+        toast.warning("Added to the queue", { description: `Couldn't sync to the dialer: ${result.push.error}` });
+      } else {
+        toast.success(`Added to ${queue.name}`);
+      }
+      queryClient.invalidateQueries({ queryKey: ["dialer-queues", teamId] });
+      queryClient.invalidateQueries({ queryKey: ["dialer-queue-items", queue.id] });
+      onOpenChange(false);
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : "Failed to add contact"),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add to {queue.name}</DialogTitle>
+          <DialogDescription>Pick a contact, or enter a number to call.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search contacts by name, phone or email"
+              className="pl-9"
+            />
+          </div>
+          <div className="max-h-48 overflow-y-auto rounded-md border divide-y">
+            {isFetching && contacts.length === 0 ? (
+              <div className="p-3 text-sm text-muted-foreground">Searching...</div>
+            ) : contacts.length === 0 ? (
+              <div className="p-3 text-sm text-muted-foreground">No contacts with a phone number</div>
+            ) : (
+              contacts.map((contact) => (
+                <button
+                  key={contact.id}
+                  type="button"
+                  onClick={() => setSelected(selected?.id === contact.id ? null : contact)}
+                  className={cn(
+                    "w-full flex items-center gap-2 px-3 py-2 text-left text-sm hover:bg-muted/50",
+                    selected?.id === contact.id && "bg-muted",
+                  )}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">{contact.name || contact.phone}</div>
+                    <div className="text-xs text-muted-foreground truncate">{contact.phone}</div>
+                  </div>
+                  {selected?.id === contact.id && <Check className="h-4 w-4 text-primary" />}
+                </button>
+              ))
+            )}
+          </div>
+
+          {!selected && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label>Name</Label>
+                <Input value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Phone</Label>
+                <Input value={phone} onChange={(e) => setPhone(e.target.value)} placeholder="+15555550123" />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label>Priority</Label>
+            <Input type="number" value={priority} onChange={(e) => setPriority(e.target.value)} />
+            <p className="text-xs text-muted-foreground">Higher numbers are called first.</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={addMutation.isPending} onClick={() => addMutation.mutate()}>
+            {addMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Add to Queue
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
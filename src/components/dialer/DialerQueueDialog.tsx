@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  DIALER_PROVIDER_INTEGRATIONS,
+  DIALER_PROVIDER_LABELS,
+  saveDialerQueue,
+  type DialerQueue,
+  type DialerQueueProvider,
+} from "@/lib/dialer/queues";
+
+interface DialerQueueDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  /** Edit this queue; create a new one when omitted */
+  queue?: DialerQueue | null;
+  onSaved?: (queue: DialerQueue) => void;
+}
+
+const PROVIDERS = Object.keys(DIALER_PROVIDER_LABELS) as DialerQueueProvider[];
+
+export function DialerQueueDialog({ open, onOpenChange, teamId, queue, onSaved }: DialerQueueDialogProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [provider, setProvider] = useState<DialerQueueProvider>("in_app");
+  const [maxAttempts, setMaxAttempts] = useState("3");
+  const [isActive, setIsActive] = useState(true);
+  const [apiKey, setApiKey] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setName(queue?.name ?? "");
+    setDescription(queue?.description ?? "");
+    setProvider((queue?.provider as DialerQueueProvider) ?? "in_app");
+    setMaxAttempts(String(queue?.max_attempts ?? 3));
+    setIsActive(queue?.is_active ?? true);
+    setApiKey("");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, queue?.id]);
+
+  const credentialKey = DIALER_PROVIDER_INTEGRATIONS[provider];
+
+  const { data: integration } = useQuery({
+    queryKey: ["dialer-integration", teamId, provider],
+    enabled: open && !!credentialKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("team_integrations")
+        .select("id, config, is_connected")
+        .eq("team_id", teamId)
+        .eq("integration_type", provider)
+        .order("is_connected", { ascending: false, nullsFirst: false })
+        .order("updated_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+  const providerConnected = !!integration?.is_connected;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!name.trim()) throw new Error("Queue name is required");
+      if (credentialKey && !providerConnected && !apiKey.trim()) {
+        throw new Error(`Add your ${DIALER_PROVIDER_LABELS[provider]} API key to mirror this queue`);
+      }
+
+      // Credentials are only read server-side, by the power-dialer function
+      if (credentialKey && apiKey.trim()) {
+        const row = {
+          config: { ...((integration?.config as Record<string, Json>) ?? {}), [credentialKey]: apiKey.trim() },
+          is_connected: true,
+          connected_at: new Date().toISOString(),
+        };
+        const { error } = integration
+          ? await supabase.from("team_integrations").update(row).eq("id", integration.id)
+          : await supabase.from("team_integrations").insert({ ...row, team_id: teamId, integration_type: provider });
+        if (error) throw error;
+      }
+
+      return saveDialerQueue(
+        teamId,
+        {
+          id: queue?.id,
+          name,
+          description,
+          provider,
+          maxAttempts: Math.min(20, Math.max(1, Number(maxAttempts) || 3)),
+          isActive,
+        },
+        user?.id,
+      );
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["dialer-queues", teamId] });
+      queryClient.invalidateQueries({ queryKey: ["dialer-integration", teamId] });
+      toast.success(queue ? "Queue updated" : "Queue created");
+      onSaved?.(saved);
+      onOpenChange(false);
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : "Failed to save queue"),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{queue ? "Edit Queue" : "New Dialer Queue"}</DialogTitle>
+          <DialogDescription>
+            Automations add contacts with the "Add to Dialer" step using the queue name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label>Name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. New leads" />
+          </div>
+          <div className="space-y-1">
+            <Label>Description</Label>
+            <Textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Dialer</Label>
+              <Select value={provider} onValueChange={(v) => setProvider(v as DialerQueueProvider)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROVIDERS.map((p) => (
+                    <SelectItem key={p} value={p}>{DIALER_PROVIDER_LABELS[p]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Max attempts</Label>
+              <Input type="number" min={1} max={20} value={maxAttempts} onChange={(e) => setMaxAttempts(e.target.value)} />
+            </div>
+          </div>
+
+          {credentialKey && (
+            <div className="space-y-1">
+              <Label>
+                {DIALER_PROVIDER_LABELS[provider]} API key
+                {providerConnected && <span className="text-muted-foreground text-xs ml-1">(connected; leave blank to keep)</span>}
+              </Label>
+              <Input type="password" value={apiKey} onChange={(e) => setApiKey(e.target.value)} />
+              <p className="text-xs text-muted-foreground">
+                Contacts added to this queue are also created in {DIALER_PROVIDER_LABELS[provider]}.
+              </p>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="dialer-queue-active">Active</Label>
+            <Switch id="dialer-queue-active" checked={isActive} onCheckedChange={setIsActive} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,430 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow, format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useTeamRole } from "@/hooks/useTeamRole";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertTriangle,
+  CalendarCheck,
+  ExternalLink,
+  Loader2,
+  Pencil,
+  Phone,
+  PhoneCall,
+  PhoneForwarded,
+  Plus,
+  SkipForward,
+  Trash2,
+  Voicemail,
+} from "lucide-react";
+import { toast } from "sonner";
+import { NoAnswerDialog } from "@/components/appointments/NoAnswerDialog";
+import { PowerDialerClient } from "@/lib/integrations/powerDialer";
+import {
+  DIALER_DISPOSITIONS,
+  DIALER_PROVIDER_LABELS,
+  claimNextDialerItem,
+  listDialerQueues,
+  listItemCalls,
+  listQueueItems,
+  recordDialerDisposition,
+  removeDialerItem,
+  skipDialerItem,
+  type DialerDisposition,
+  type DialerQueueItem,
+  type DialerQueueProvider,
+} from "@/lib/dialer/queues";
+import { DialerQueueDialog } from "./DialerQueueDialog";
+import { AddToDialerQueueDialog } from "./AddToDialerQueueDialog";
+
+interface PowerDialerViewProps {
+  teamId: string;
+}
+
+const dispositionLabel = (value: string | null) =>
+  DIALER_DISPOSITIONS.find((d) => d.value === value)?.label ?? value;
+
+export function PowerDialerView({ teamId }: PowerDialerViewProps) {
+  const { user } = useAuth();
+  const { isAdmin } = useTeamRole(teamId);
+  const queryClient = useQueryClient();
+  const [queueId, setQueueId] = useState<string>("");
+  const [current, setCurrent] = useState<DialerQueueItem | null>(null);
+  const [autoAdvance, setAutoAdvance] = useState(true);
+  const [retryDialog, setRetryDialog] = useState<"no_answer" | "voicemail" | null>(null);
+  const [queueDialog, setQueueDialog] = useState<"new" | "edit" | null>(null);
+  const [showAdd, setShowAdd] = useState(false);
+
+  const { data: queues = [], isLoading } = useQuery({
+    queryKey: ["dialer-queues", teamId],
+    queryFn: () => listDialerQueues(teamId),
+  });
+
+  const { data: callbackOptions } = useQuery({
+    queryKey: ["no-answer-callback-options", teamId],
+    queryFn: async () => {
+      const { data } = await supabase.from("teams").select("no_answer_callback_options").eq("id", teamId).single();
+      const options = data?.no_answer_callback_options as number[] | null;
+      return Array.isArray(options) && options.length > 0 ? options : undefined;
+    },
+  });
+
+  const queue = queues.find((q) => q.id === queueId);
+
+  // Default to the first active queue once they load
+  useEffect(() => {
+    if (!queueId && queues.length > 0) {
+      setQueueId((queues.find((q) => q.is_active) ?? queues[0]).id);
+    }
+  }, [queues, queueId]);
+
+  const { data: upcoming = [] } = useQuery({
+    queryKey: ["dialer-queue-items", queueId],
+    enabled: !!queueId,
+    queryFn: () => listQueueItems(queueId),
+  });
+
+  const { data: calls = [] } = useQuery({
+    queryKey: ["dialer-item-calls", current?.id],
+    enabled: !!current,
+    queryFn: () => listItemCalls(current!.id),
+  });
+
+  const client = useMemo(() => (queueId ? new PowerDialerClient({ teamId, queueId }) : null), [teamId, queueId]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["dialer-queues", teamId] });
+    queryClient.invalidateQueries({ queryKey: ["dialer-queue-items", queueId] });
+  };
+
+  const nextMutation = useMutation({
+    mutationFn: () => claimNextDialerItem(queueId),
+    onSuccess: (item) => {
+      setCurrent(item);
+      if (!item) toast.info("Nothing due in this queue right now");
+      refresh();
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : "Couldn't load the next contact"),
+  });
+
+  const advance = () => {
+    if (autoAdvance) {
+      nextMutation.mutate();
+    } else {
+      setCurrent(null);
+      refresh();
+    }
+  };
+
+  const dispositionMutation = useMutation({
+    mutationFn: (params: { disposition: DialerDisposition; retryMinutes?: number; notes?: string }) =>
+      recordDialerDisposition({
+        teamId,
+        queue: queue!,
+        item: current!,
+        ...params,
+        userId: user!.id,
+        actorName: user?.user_metadata?.full_name || user?.email || undefined,
+      }),
+    onSuccess: (plan, { disposition }) => {
+      queryClient.invalidateQueries({ queryKey: ["dialer-item-calls", current?.id] });
+      const label = dispositionLabel(disposition);
+
+      if (plan.status === "in_progress") {
+        // Double dial: same contact, one more attempt on the clock
+        setCurrent((item) => item && { ...item, attempts: plan.attempts, last_disposition: disposition });
+        toast.success(`${label} logged – dial again`);
+        return;
+      }
+
+      if (plan.exhausted) {
+        toast.warning(`${label} logged`, { description: `No retries left after ${plan.attempts} attempts` });
+      } else if (plan.status === "pending" && plan.nextAttemptAt) {
+        toast.success(`${label} – call back at ${format(new Date(plan.nextAttemptAt), "h:mm a")}`);
+      } else {
+        toast.success(`${label} logged`);
+      }
+      advance();
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : "Failed to log the call"),
+  });
+
+  const skipMutation = useMutation({
+    mutationFn: ({ itemId, remove }: { itemId: string; remove: boolean }) =>
+      remove ? removeDialerItem(itemId) : skipDialerItem(itemId),
+    onSuccess: () => advance(),
+    onError: (err) => toast.error(err instanceof Error ? err.message : "Failed to update the queue"),
+  });
+
+  const sessionMutation = useMutation({
+    mutationFn: () => client!.startCallSession(),
+    onSuccess: (result) => {
+      if (result.sessionUrl) {
+        window.open(result.sessionUrl, "_blank", "noopener");
+      } else {
+        toast.success(`${DIALER_PROVIDER_LABELS[queue?.provider as DialerQueueProvider] ?? "Dialer"} session started`);
+      }
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : "Couldn't start the dial session"),
+  });
+
+  const busy = nextMutation.isPending || dispositionMutation.isPending || skipMutation.isPending;
+
+  const handleDisposition = (disposition: DialerDisposition) => {
+    if (disposition === "no_answer" || disposition === "voicemail") {
+      setRetryDialog(disposition);
+      return;
+    }
+    dispositionMutation.mutate({ disposition });
+  };
+
+  if (isLoading) {
+    return <div className="text-sm text-muted-foreground">Loading dialer...</div>;
+  }
+
+  if (queues.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-10 text-center space-y-3">
+          <PhoneCall className="h-8 w-8 mx-auto text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            No dialer queues yet.{" "}
+            {isAdmin ? "Create one, then add contacts by hand or with an automation." : "Ask an admin to create one."}
+          </p>
+          {isAdmin && (
+            <Button size="sm" onClick={() => setQueueDialog("new")}>
+              <Plus className="h-4 w-4 mr-1" />
+              New Queue
+            </Button>
+          )}
+        </CardContent>
+        <DialerQueueDialog open={queueDialog === "new"} onOpenChange={(open) => !open && setQueueDialog(null)} teamId={teamId} />
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={queueId}
+          onValueChange={(value) => {
+            setQueueId(value);
+            setCurrent(null);
+          }}
+        >
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder="Choose a queue" />
+          </SelectTrigger>
+          <SelectContent>
+            {queues.map((q) => (
+              <SelectItem key={q.id} value={q.id}>
+                {q.name} ({q.dueCount} due){!q.is_active && " – paused"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {queue && queue.provider !== "in_app" && (
+          <Badge variant="outline">{DIALER_PROVIDER_LABELS[queue.provider as DialerQueueProvider] ?? queue.provider}</Badge>
+        )}
+        <div className="flex items-center gap-2 ml-auto">
+          <Switch id="dialer-auto-advance" checked={autoAdvance} onCheckedChange={setAutoAdvance} />
+          <Label htmlFor="dialer-auto-advance" className="text-sm">Auto-advance</Label>
+        </div>
+        {queue && (
+          <Button size="sm" variant="outline" onClick={() => setShowAdd(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Contact
+          </Button>
+        )}
+        {isAdmin && (
+          <>
+            {queue && (
+              <Button size="sm" variant="ghost" onClick={() => setQueueDialog("edit")} title="Edit queue">
+                <Pencil className="h-4 w-4" />
+              </Button>
+            )}
+            <Button size="sm" variant="ghost" onClick={() => setQueueDialog("new")}>
+              New Queue
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-[1fr_320px]">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <PhoneCall className="h-5 w-5" />
+              {current ? current.name || current.phone : "Ready to dial"}
+            </CardTitle>
+            <CardDescription>
+              {queue ? `${queue.dueCount} due · ${queue.scheduledCount} waiting on a callback` : "Choose a queue"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!current ? (
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={() => nextMutation.mutate()} disabled={!queue || busy}>
+                  {nextMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <PhoneForwarded className="h-4 w-4 mr-2" />}
+                  Next Contact
+                </Button>
+                {queue && queue.provider !== "in_app" && queue.provider !== "close" && (
+                  <Button variant="outline" onClick={() => sessionMutation.mutate()} disabled={sessionMutation.isPending}>
+                    <ExternalLink className="h-4 w-4 mr-2" />
+                    Dial in {DIALER_PROVIDER_LABELS[queue.provider as DialerQueueProvider]}
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center gap-3">
+                  <a href={`tel:${current.phone}`} className="text-2xl font-semibold tracking-wide hover:underline">
+                    {current.phone}
+                  </a>
+                  <Button size="sm" asChild>
+                    <a href={`tel:${current.phone}`}>
+                      <Phone className="h-4 w-4 mr-1" />
+                      Call
+                    </a>
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                  {current.email && <span>{current.email}</span>}
+                  <span>
+                    Attempt {current.attempts + 1} of {queue?.max_attempts ?? "–"}
+                  </span>
+                  {current.last_disposition && <span>Last: {dispositionLabel(current.last_disposition)}</span>}
+                  {current.source === "automation" && <Badge variant="secondary" className="text-[10px]">From automation</Badge>}
+                </div>
+                {current.push_error && (
+                  <p className="flex items-start gap-1.5 text-xs text-amber-600">
+                    <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                    Not synced to the dialer: {current.push_error}
+                  </p>
+                )}
+
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  {DIALER_DISPOSITIONS.map((d) => (
+                    <Button
+                      key={d.value}
+                      variant={d.value === "booked" ? "default" : "outline"}
+                      disabled={busy}
+                      onClick={() => handleDisposition(d.value)}
+                    >
+                      {d.value === "voicemail" ? (
+                        <Voicemail className="h-4 w-4 mr-1" />
+                      ) : d.value === "booked" ? (
+                        <CalendarCheck className="h-4 w-4 mr-1" />
+                      ) : (
+                        <PhoneCall className="h-4 w-4 mr-1" />
+                      )}
+                      {d.label}
+                    </Button>
+                  ))}
+                </div>
+
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={busy}
+                    onClick={() => skipMutation.mutate({ itemId: current.id, remove: false })}
+                  >
+                    <SkipForward className="h-4 w-4 mr-1" />
+                    Skip
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-destructive"
+                    disabled={busy}
+                    onClick={() => skipMutation.mutate({ itemId: current.id, remove: true })}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Remove from Queue
+                  </Button>
+                </div>
+
+                {calls.length > 0 && (
+                  <div className="space-y-1 border-t pt-3">
+                    <p className="text-xs font-medium">Previous calls</p>
+                    {calls.map((call) => (
+                      <p key={call.id} className="text-xs text-muted-foreground">
+                        {dispositionLabel(call.disposition)} · {formatDistanceToNow(new Date(call.created_at), { addSuffix: true })}
+                        {call.notes && ` – ${call.notes}`}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">Up next</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {upcoming.filter((item) => item.id !== current?.id).length === 0 ? (
+              <p className="text-xs text-muted-foreground">The queue is empty.</p>
+            ) : (
+              upcoming
+                .filter((item) => item.id !== current?.id)
+                .slice(0, 15)
+                .map((item) => {
+                  const due = new Date(item.next_attempt_at) <= new Date();
+                  return (
+                    <div key={item.id} className="flex items-center gap-2 text-sm">
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate">{item.name || item.phone}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {item.status === "in_progress"
+                            ? "Being called"
+                            : due
+                              ? "Due now"
+                              : `Callback ${format(new Date(item.next_attempt_at), "h:mm a")}`}
+                          {item.attempts > 0 && ` · ${item.attempts} attempt${item.attempts === 1 ? "" : "s"}`}
+                        </div>
+                      </div>
+                      {item.priority > 0 && <Badge variant="secondary" className="text-[10px]">P{item.priority}</Badge>}
+                    </div>
+                  );
+                })
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <NoAnswerDialog
+        open={!!retryDialog}
+        onOpenChange={(open) => !open && setRetryDialog(null)}
+        dealName={current?.name || current?.phone || ""}
+        callbackOptions={callbackOptions}
+        outcomeLabel={dispositionLabel(retryDialog) ?? undefined}
+        onConfirm={(minutes, notes) => {
+          if (retryDialog) dispositionMutation.mutate({ disposition: retryDialog, retryMinutes: minutes, notes });
+          setRetryDialog(null);
+        }}
+      />
+
+      <DialerQueueDialog
+        open={!!queueDialog}
+        onOpenChange={(open) => !open && setQueueDialog(null)}
+        teamId={teamId}
+        queue={queueDialog === "edit" ? queue : null}
+        onSaved={(saved) => setQueueId(saved.id)}
+      />
+
+      {queue && <AddToDialerQueueDialog open={showAdd} onOpenChange={setShowAdd} teamId={teamId} queue={queue} />}
+    </div>
+  );
+}
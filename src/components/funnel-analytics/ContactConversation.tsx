@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Loader2, MessageSquare, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { getContactThread, sendContactReply } from '@/lib/messaging/conversations';
+
+interface ContactConversationProps {
+  teamId: string;
+  contact: { id: string; phone: string | null };
+}
+
+const INTENT_LABELS: Record<string, string> = {
+  confirm: 'Confirmed',
+  opt_out: 'Opted out',
+  reschedule: 'Wants to reschedule',
+};
+
+export function ContactConversation({ teamId, contact }: ContactConversationProps) {
+  const queryClient = useQueryClient();
+  const [reply, setReply] = useState('');
+
+  const { data: messages = [], isLoading } = useQuery({
+    queryKey: ['contact-thread', teamId, contact.id],
+    queryFn: () => getContactThread(teamId, contact),
+    refetchInterval: 15_000,
+  });
+
+  const optedOut = [...messages].reverse().find((m) => m.intent)?.intent === 'opt_out';
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const result = await sendContactReply(teamId, contact, reply.trim());
+      if (!result.success) throw new Error(result.error || 'Failed to send');
+    },
+    onSuccess: () => {
+      setReply('');
+      queryClient.invalidateQueries({ queryKey: ['contact-thread', teamId, contact.id] });
+    },
+    onError: (err) => {
+      toast({
+        title: 'Message not sent',
+        description: err instanceof Error ? err.message : undefined,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!contact.phone) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
+        <p className="text-sm">No phone number for this contact</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : messages.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">No messages yet</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {messages.map((message) => (
+            <div
+              key={`${message.direction}-${message.id}`}
+              className={cn('flex flex-col max-w-[85%]', message.direction === 'outbound' ? 'ml-auto items-end' : 'items-start')}
+            >
+              <div
+                className={cn(
+                  'rounded-2xl px-3 py-2 text-sm whitespace-pre-wrap',
+                  message.direction === 'outbound' ? 'bg-primary text-primary-foreground' : 'bg-muted',
+                )}
+              >
+                {message.body}
+              </div>
+              <div className="flex items-center gap-1.5 mt-1 text-[11px] text-muted-foreground">
+                <span>{format(new Date(message.createdAt), 'MMM d, h:mm a')}</span>
+                {message.automationName && <span>· {message.automationName}</span>}
+                {message.status && message.status !== 'sent' && <span>· {message.status}</span>}
+                {message.intent && (
+                  <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                    {INTENT_LABELS[message.intent] ?? message.intent}
+                  </Badge>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {optedOut ? (
+        <p className="text-xs text-muted-foreground text-center">This contact replied STOP and can't be messaged.</p>
+      ) : (
+        <div className="space-y-2 pt-2 border-t">
+          <Textarea
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder="Write a reply…"
+            rows={3}
+          />
+          <Button
+            className="w-full"
+            disabled={!reply.trim() || sendMutation.isPending}
+            onClick={() => sendMutation.mutate()}
+          >
+            {sendMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+            Send SMS
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,9 +15,11 @@ import {
   SheetContent,
   SheetHeader,
 } from '@/components/ui/sheet';
+import { ContactConversation } from './ContactConversation';
 
 interface Contact {
   id: string;
+  team_id: string;
   name: string | null;
   email: string | null;
   phone: string | null;
@@ -131,6 +133,12 @@ export function ContactDetailDrawer({ contact, open, onOpenChange }: ContactDeta
               >
                 Profile
               </TabsTrigger>
+              <TabsTrigger 
+                value="messages" 
+                className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent px-6 py-3"
+              >
+                Messages
+              </TabsTrigger>
               <TabsTrigger 
                 value="notes" 
                 className="rounded-none border-b-2 border-transparent data-[state=active]:border-primary data-[state=active]:bg-transparent px-6 py-3"
@@ -223,6 +231,10 @@ export function ContactDetailDrawer({ contact, open, onOpenChange }: ContactDeta
               </div>
             </TabsContent>
 
+            <TabsContent value="messages" className="p-6 mt-0">
+              <ContactConversation teamId={contact.team_id} contact={contact} />
+            </TabsContent>
+
             <TabsContent value="notes" className="p-6 mt-0">
               {funnelAnswers.length > 0 ? (
                 <div className="space-y-4">
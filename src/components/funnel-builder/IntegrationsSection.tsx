@@ -9,7 +9,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { 
   Plug, Plus, CheckCircle, AlertCircle, ExternalLink, 
   Trash2, Settings2, Zap, Webhook, Send, ChevronRight,
-  Copy, ArrowRight, Check, CircleDot
+  Copy, ArrowRight, Check, CircleDot, History, KeyRound
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { toast } from '@/hooks/use-toast';
@@ -20,6 +20,8 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { WebhookDeliveryLog } from './WebhookDeliveryLog';
+import { generateSigningSecret } from '@/lib/integrations/webhookDeliveries';
 
 // Import real logo assets
 import zapierLogo from '@/assets/integrations/zapier.svg';
@@ -50,6 +52,7 @@ export function IntegrationsSection({ teamId }: IntegrationsSectionProps) {
   const [newWebhookName, setNewWebhookName] = useState('');
   const [newWebhookUrl, setNewWebhookUrl] = useState('');
   const [isTesting, setIsTesting] = useState(false);
+  const [deliveryLogFor, setDeliveryLogFor] = useState<Integration | null>(null);
 
   // Fetch integrations
   const { data: integrations = [], isLoading } = useQuery({
@@ -73,8 +76,13 @@ export function IntegrationsSection({ teamId }: IntegrationsSectionProps) {
 
   // Connect integration mutation
   const connectMutation = useMutation({
-    mutationFn: async ({ type, config }: { type: string; config: Record<string, any> }) => {
+    mutationFn: async ({ type, config: baseConfig }: { type: string; config: Record<string, any> }) => {
       const existing = getIntegration(type);
+      // Outbound deliveries are signed with this; keep it stable across reconnects
+      const config = {
+        ...baseConfig,
+        signing_secret: existing?.config?.signing_secret || generateSigningSecret(),
+      };
       
       if (existing) {
         const { error } = await supabase
@@ -220,6 +228,16 @@ export function IntegrationsSection({ teamId }: IntegrationsSectionProps) {
     );
   };
 
+  const copySigningSecret = (integration: Integration) => {
+    const secret = integration.config?.signing_secret;
+    if (!secret) {
+      toast({ title: 'No signing secret yet', description: 'Reconnect this integration to generate one', variant: 'destructive' });
+      return;
+    }
+    navigator.clipboard.writeText(secret);
+    toast({ title: 'Signing secret copied', description: 'Verify the X-Webhook-Signature header with it' });
+  };
+
   const testWebhook = async (url: string, funnelName?: string) => {
     setIsTesting(true);
     try {
@@ -431,10 +449,33 @@ export function IntegrationsSection({ teamId }: IntegrationsSectionProps) {
               
               {integration.available ? (
                 integration.connected ? (
-                  <Badge className="bg-emerald-500/10 text-emerald-600 border-emerald-500/50">
-                    <CheckCircle className="h-3 w-3 mr-1" />
-                    Connected
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    <Badge className="bg-emerald-500/10 text-emerald-600 border-emerald-500/50">
+                      <CheckCircle className="h-3 w-3 mr-1" />
+                      Connected
+                    </Badge>
+                    {integration.integration && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => setDeliveryLogFor(integration.integration!)}
+                        >
+                          <History className="h-3 w-3 mr-1" /> Deliveries
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2"
+                          title="Copy signing secret"
+                          onClick={() => copySigningSecret(integration.integration!)}
+                        >
+                          <KeyRound className="h-3 w-3" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
                 ) : (
                   <Button 
                     variant="outline"
@@ -493,6 +534,22 @@ export function IntegrationsSection({ teamId }: IntegrationsSectionProps) {
                     checked={webhook.config?.active !== false} 
                     onCheckedChange={(checked) => toggleWebhookMutation.mutate({ id: webhook.id, active: checked })} 
                   />
+                  <Button 
+                    variant="ghost" 
+                    size="sm"
+                    title="Delivery log"
+                    onClick={() => setDeliveryLogFor(webhook)}
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
+                  <Button 
+                    variant="ghost" 
+                    size="sm"
+                    title="Copy signing secret"
+                    onClick={() => copySigningSecret(webhook)}
+                  >
+                    <KeyRound className="h-4 w-4" />
+                  </Button>
                   <Button 
                     variant="ghost" 
                     size="sm"
@@ -805,6 +862,19 @@ export function IntegrationsSection({ teamId }: IntegrationsSectionProps) {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Webhook Delivery Log */}
+      <Dialog open={!!deliveryLogFor} onOpenChange={(open) => !open && setDeliveryLogFor(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Webhook deliveries</DialogTitle>
+            <DialogDescription className="text-sm text-muted-foreground font-mono truncate">
+              {deliveryLogFor?.config?.webhook_url}
+            </DialogDescription>
+          </DialogHeader>
+          {deliveryLogFor && <WebhookDeliveryLog teamId={teamId} integrationId={deliveryLogFor.id} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ChevronDown, ChevronRight, RotateCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from '@/hooks/use-toast';
+import {
+  getWebhookDeliveries,
+  getWebhookDeliveryAttempts,
+  redeliverWebhook,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+} from '@/lib/integrations/webhookDeliveries';
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-muted text-muted-foreground' },
+  delivered: { label: 'Delivered', className: 'bg-emerald-500/10 text-emerald-600 border-emerald-500/50' },
+  retrying: { label: 'Retrying', className: 'bg-amber-500/10 text-amber-600 border-amber-500/50' },
+  dead_letter: { label: 'Failed', className: 'bg-destructive/10 text-destructive border-destructive/50' },
+};
+
+interface WebhookDeliveryLogProps {
+  teamId: string;
+  integrationId?: string;
+}
+
+function DeliveryAttempts({ delivery }: { delivery: WebhookDelivery }) {
+  const { data: attempts = [], isLoading } = useQuery({
+    queryKey: ['webhook-delivery-attempts', delivery.id, delivery.attempts],
+    queryFn: () => getWebhookDeliveryAttempts(delivery.teamId, delivery.id),
+  });
+
+  return (
+    <div className="space-y-3 px-4 pb-4">
+      <div>
+        <p className="text-xs font-medium text-muted-foreground mb-1">Request body</p>
+        <pre className="text-xs font-mono bg-muted/50 rounded p-3 overflow-x-auto max-h-48">
+          {JSON.stringify(delivery.requestBody, null, 2)}
+        </pre>
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-muted-foreground mb-1">Attempts</p>
+        {isLoading ? (
+          <p className="text-xs text-muted-foreground">Loading…</p>
+        ) : attempts.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No attempts yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {attempts.map((attempt) => (
+              <div key={attempt.id} className="border rounded p-2 text-xs space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">#{attempt.attempt}</span>
+                  <Badge
+                    variant="outline"
+                    className={cn(
+                      'text-[10px]',
+                      attempt.status === 'success' ? STATUS_STYLES.delivered.className : STATUS_STYLES.dead_letter.className,
+                    )}
+                  >
+                    {attempt.responseStatus ?? 'no response'}
+                  </Badge>
+                  {attempt.durationMs !== null && <span className="text-muted-foreground">{attempt.durationMs}ms</span>}
+                  <span className="text-muted-foreground ml-auto">
+                    {formatDistanceToNow(new Date(attempt.receivedAt), { addSuffix: true })}
+                  </span>
+                </div>
+                {attempt.error && <p className="text-destructive">{attempt.error}</p>}
+                {attempt.responseBody && (
+                  <pre className="font-mono bg-muted/50 rounded p-2 overflow-x-auto max-h-32">{attempt.responseBody}</pre>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function WebhookDeliveryLog({ teamId, integrationId }: WebhookDeliveryLogProps) {
+  const queryClient = useQueryClient();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: deliveries = [], isLoading } = useQuery({
+    queryKey: ['webhook-deliveries', teamId, integrationId],
+    queryFn: () => getWebhookDeliveries({ teamId, integrationId }),
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: redeliverWebhook,
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries', teamId] });
+      toast({
+        title: result?.status === 'delivered' ? 'Webhook redelivered' : 'Redelivery queued',
+        description: result?.error,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Redelivery failed',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground p-4">Loading deliveries…</p>;
+  }
+
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-muted-foreground p-4">No deliveries yet. They'll show up here after the next lead is submitted.</p>;
+  }
+
+  return (
+    <ScrollArea className="max-h-[60vh]">
+      <div className="divide-y border rounded-lg">
+        {deliveries.map((delivery) => {
+          const style = STATUS_STYLES[delivery.status] ?? STATUS_STYLES.pending;
+          const expanded = expandedId === delivery.id;
+
+          return (
+            <div key={delivery.id}>
+              <div className="flex items-center gap-3 p-3">
+                <button
+                  className="flex items-center gap-2 flex-1 min-w-0 text-left"
+                  onClick={() => setExpandedId(expanded ? null : delivery.id)}
+                >
+                  {expanded ? (
+                    <ChevronDown className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">{delivery.eventType}</span>
+                      <Badge variant="outline" className={cn('text-xs', style.className)}>
+                        {style.label}
+                      </Badge>
+                      {delivery.lastResponseStatus !== null && (
+                        <span className="text-xs text-muted-foreground">HTTP {delivery.lastResponseStatus}</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })} · {delivery.attempts}/
+                      {delivery.maxAttempts} attempts
+                      {delivery.status === 'retrying' && delivery.nextAttemptAt &&
+                        ` · next retry ${formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={redeliverMutation.isPending}
+                  onClick={() => redeliverMutation.mutate(delivery.id)}
+                >
+                  <RotateCw className="h-4 w-4 mr-1" /> Redeliver
+                </Button>
+              </div>
+              {expanded && <DeliveryAttempts delivery={delivery} />}
+            </div>
+          );
+        })}
+      </div>
+    </ScrollArea>
+  );
+}
@@ -47,6 +47,76 @@ export type Database = {
         }
         Relationships: []
       }
+      appointment_reminders: {
+        Row: {
+          appointment_id: string
+          channel: string
+          created_at: string
+          error_message: string | null
+          id: string
+          message_log_id: string | null
+          offset_minutes: number
+          send_at: string
+          sent_at: string | null
+          status: string
+          step_key: string
+          team_id: string
+          updated_at: string
+        }
+        Insert: {
+          appointment_id: string
+          channel: string
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          message_log_id?: string | null
+          offset_minutes: number
+          send_at: string
+          sent_at?: string | null
+          status?: string
+          step_key: string
+          team_id: string
+          updated_at?: string
+        }
+        Update: {
+          appointment_id?: string
+          channel?: string
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          message_log_id?: string | null
+          offset_minutes?: number
+          send_at?: string
+          sent_at?: string | null
+          status?: string
+          step_key?: string
+          team_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_reminders_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_reminders_message_log_id_fkey"
+            columns: ["message_log_id"]
+            isOneToOne: false
+            referencedRelation: "message_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_reminders_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       appointments: {
         Row: {
           assignment_source: string | null
@@ -88,6 +158,7 @@ export type Database = {
           start_at_utc: string
           status: Database["public"]["Enums"]["appointment_status"]
           team_id: string
+          timezone: string | null
           updated_at: string | null
         }
         Insert: {
@@ -130,6 +201,7 @@ export type Database = {
           start_at_utc: string
           status?: Database["public"]["Enums"]["appointment_status"]
           team_id: string
+          timezone?: string | null
           updated_at?: string | null
         }
         Update: {
@@ -172,6 +244,7 @@ export type Database = {
           start_at_utc?: string
           status?: Database["public"]["Enums"]["appointment_status"]
           team_id?: string
+          timezone?: string | null
           updated_at?: string | null
         }
         Relationships: [
@@ -251,9 +324,14 @@ export type Database = {
       automation_runs: {
         Row: {
           automation_id: string
+          automation_version_id: string | null
+          contact_key: string | null
           context_snapshot: Json | null
           created_at: string
           error_message: string | null
+          exclusion_group: string | null
+          exit_reason: string | null
+          exited_at: string | null
           id: string
           status: string
           steps_executed: Json
@@ -262,9 +340,14 @@ export type Database = {
         }
         Insert: {
           automation_id: string
+          automation_version_id?: string | null
+          contact_key?: string | null
           context_snapshot?: Json | null
           created_at?: string
           error_message?: string | null
+          exclusion_group?: string | null
+          exit_reason?: string | null
+          exited_at?: string | null
           id?: string
           status: string
           steps_executed?: Json
@@ -273,9 +356,14 @@ export type Database = {
         }
         Update: {
           automation_id?: string
+          automation_version_id?: string | null
+          contact_key?: string | null
           context_snapshot?: Json | null
           created_at?: string
           error_message?: string | null
+          exclusion_group?: string | null
+          exit_reason?: string | null
+          exited_at?: string | null
           id?: string
           status?: string
           steps_executed?: Json
@@ -290,6 +378,13 @@ export type Database = {
             referencedRelation: "automations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "automation_runs_automation_version_id_fkey"
+            columns: ["automation_version_id"]
+            isOneToOne: false
+            referencedRelation: "automation_versions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "automation_runs_team_id_fkey"
             columns: ["team_id"]
@@ -299,9 +394,74 @@ export type Database = {
           },
         ]
       }
+      automation_versions: {
+        Row: {
+          automation_id: string
+          created_at: string
+          created_by: string | null
+          definition: Json
+          description: string | null
+          id: string
+          name: string
+          restored_from_version_id: string | null
+          team_id: string
+          trigger_type: string
+          version_number: number
+        }
+        Insert: {
+          automation_id: string
+          created_at?: string
+          created_by?: string | null
+          definition?: Json
+          description?: string | null
+          id?: string
+          name: string
+          restored_from_version_id?: string | null
+          team_id: string
+          trigger_type: string
+          version_number: number
+        }
+        Update: {
+          automation_id?: string
+          created_at?: string
+          created_by?: string | null
+          definition?: Json
+          description?: string | null
+          id?: string
+          name?: string
+          restored_from_version_id?: string | null
+          team_id?: string
+          trigger_type?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "automation_versions_automation_id_fkey"
+            columns: ["automation_id"]
+            isOneToOne: false
+            referencedRelation: "automations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "automation_versions_restored_from_version_id_fkey"
+            columns: ["restored_from_version_id"]
+            isOneToOne: false
+            referencedRelation: "automation_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "automation_versions_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       automations: {
         Row: {
           created_at: string
+          current_version_id: string | null
           definition: Json
           description: string | null
           id: string
@@ -313,6 +473,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          current_version_id?: string | null
           definition?: Json
           description?: string | null
           id?: string
@@ -324,6 +485,7 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          current_version_id?: string | null
           definition?: Json
           description?: string | null
           id?: string
@@ -334,6 +496,13 @@ export type Database = {
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "automations_current_version_id_fkey"
+            columns: ["current_version_id"]
+            isOneToOne: false
+            referencedRelation: "automation_versions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "automations_team_id_fkey"
             columns: ["team_id"]
@@ -343,6 +512,231 @@ export type Database = {
           },
         ]
       }
+      broadcast_campaigns: {
+        Row: {
+          audience: Json
+          body: string
+          channel: string
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          delivered_count: number
+          error_message: string | null
+          failed_count: number
+          id: string
+          last_batch_at: string | null
+          name: string
+          opted_out_count: number
+          recipient_count: number
+          replied_count: number
+          scheduled_at: string | null
+          sent_count: number
+          started_at: string | null
+          status: string
+          subject: string | null
+          suppressed_count: number
+          team_id: string
+          throttle_per_minute: number
+          updated_at: string
+        }
+        Insert: {
+          audience?: Json
+          body?: string
+          channel: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          delivered_count?: number
+          error_message?: string | null
+          failed_count?: number
+          id?: string
+          last_batch_at?: string | null
+          name: string
+          opted_out_count?: number
+          recipient_count?: number
+          replied_count?: number
+          scheduled_at?: string | null
+          sent_count?: number
+          started_at?: string | null
+          status?: string
+          subject?: string | null
+          suppressed_count?: number
+          team_id: string
+          throttle_per_minute?: number
+          updated_at?: string
+        }
+        Update: {
+          audience?: Json
+          body?: string
+          channel?: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          delivered_count?: number
+          error_message?: string | null
+          failed_count?: number
+          id?: string
+          last_batch_at?: string | null
+          name?: string
+          opted_out_count?: number
+          recipient_count?: number
+          replied_count?: number
+          scheduled_at?: string | null
+          sent_count?: number
+          started_at?: string | null
+          status?: string
+          subject?: string | null
+          suppressed_count?: number
+          team_id?: string
+          throttle_per_minute?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "broadcast_campaigns_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      broadcast_recipients: {
+        Row: {
+          address_key: string
+          campaign_id: string
+          channel: string
+          contact_id: string | null
+          created_at: string
+          error_message: string | null
+          id: string
+          message_log_id: string | null
+          opted_out_at: string | null
+          replied_at: string | null
+          sent_at: string | null
+          status: string
+          team_id: string
+          to_address: string
+          updated_at: string
+        }
+        Insert: {
+          address_key: string
+          campaign_id: string
+          channel: string
+          contact_id?: string | null
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          message_log_id?: string | null
+          opted_out_at?: string | null
+          replied_at?: string | null
+          sent_at?: string | null
+          status?: string
+          team_id: string
+          to_address: string
+          updated_at?: string
+        }
+        Update: {
+          address_key?: string
+          campaign_id?: string
+          channel?: string
+          contact_id?: string | null
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          message_log_id?: string | null
+          opted_out_at?: string | null
+          replied_at?: string | null
+          sent_at?: string | null
+          status?: string
+          team_id?: string
+          to_address?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "broadcast_recipients_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "broadcast_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "broadcast_recipients_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "broadcast_recipients_message_log_id_fkey"
+            columns: ["message_log_id"]
+            isOneToOne: false
+            referencedRelation: "message_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "broadcast_recipients_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      builder_documents: {
+        Row: {
+          client_updated_at: number
+          created_at: string
+          created_by: string | null
+          document: Json
+          id: string
+          name: string
+          published_at: string | null
+          published_snapshot: Json | null
+          team_id: string
+          updated_at: string
+          updated_by: string | null
+          version: number
+        }
+        Insert: {
+          client_updated_at: number
+          created_at?: string
+          created_by?: string | null
+          document: Json
+          id: string
+          name: string
+          published_at?: string | null
+          published_snapshot?: Json | null
+          team_id: string
+          updated_at?: string
+          updated_by?: string | null
+          version: number
+        }
+        Update: {
+          client_updated_at?: number
+          created_at?: string
+          created_by?: string | null
+          document?: Json
+          id?: string
+          name?: string
+          published_at?: string | null
+          published_snapshot?: Json | null
+          team_id?: string
+          updated_at?: string
+          updated_by?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "builder_documents_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       client_asset_audit_logs: {
         Row: {
           action: string
@@ -732,6 +1126,7 @@ export type Database = {
           source: string | null
           tags: string[] | null
           team_id: string
+          timezone: string | null
           updated_at: string
         }
         Insert: {
@@ -747,6 +1142,7 @@ export type Database = {
           source?: string | null
           tags?: string[] | null
           team_id: string
+          timezone?: string | null
           updated_at?: string
         }
         Update: {
@@ -762,6 +1158,7 @@ export type Database = {
           source?: string | null
           tags?: string[] | null
           team_id?: string
+          timezone?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -813,30 +1210,249 @@ export type Database = {
           created_at: string
           details: Json | null
           id: string
-          issue_count: number
-          issue_type: string
-          resolved_at: string | null
-          resolved_by: string | null
+          issue_count: number
+          issue_type: string
+          resolved_at: string | null
+          resolved_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          details?: Json | null
+          id?: string
+          issue_count: number
+          issue_type: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          details?: Json | null
+          id?: string
+          issue_count?: number
+          issue_type?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+        }
+        Relationships: []
+      }
+      dialer_calls: {
+        Row: {
+          callback_at: string | null
+          caller_id: string | null
+          created_at: string
+          disposition: string
+          id: string
+          item_id: string
+          notes: string | null
+          queue_id: string
+          team_id: string
+        }
+        Insert: {
+          callback_at?: string | null
+          caller_id?: string | null
+          created_at?: string
+          disposition: string
+          id?: string
+          item_id: string
+          notes?: string | null
+          queue_id: string
+          team_id: string
+        }
+        Update: {
+          callback_at?: string | null
+          caller_id?: string | null
+          created_at?: string
+          disposition?: string
+          id?: string
+          item_id?: string
+          notes?: string | null
+          queue_id?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dialer_calls_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "dialer_queue_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dialer_calls_queue_id_fkey"
+            columns: ["queue_id"]
+            isOneToOne: false
+            referencedRelation: "dialer_queues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dialer_calls_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dialer_queue_items: {
+        Row: {
+          added_by: string | null
+          appointment_id: string | null
+          attempts: number
+          automation_id: string | null
+          claimed_at: string | null
+          claimed_by: string | null
+          contact_id: string | null
+          created_at: string
+          email: string | null
+          external_id: string | null
+          id: string
+          last_called_at: string | null
+          last_disposition: string | null
+          name: string | null
+          next_attempt_at: string
+          phone: string
+          priority: number
+          push_error: string | null
+          queue_id: string
+          source: string
+          status: string
+          team_id: string
+          updated_at: string
+        }
+        Insert: {
+          added_by?: string | null
+          appointment_id?: string | null
+          attempts?: number
+          automation_id?: string | null
+          claimed_at?: string | null
+          claimed_by?: string | null
+          contact_id?: string | null
+          created_at?: string
+          email?: string | null
+          external_id?: string | null
+          id?: string
+          last_called_at?: string | null
+          last_disposition?: string | null
+          name?: string | null
+          next_attempt_at?: string
+          phone: string
+          priority?: number
+          push_error?: string | null
+          queue_id: string
+          source?: string
+          status?: string
+          team_id: string
+          updated_at?: string
+        }
+        Update: {
+          added_by?: string | null
+          appointment_id?: string | null
+          attempts?: number
+          automation_id?: string | null
+          claimed_at?: string | null
+          claimed_by?: string | null
+          contact_id?: string | null
+          created_at?: string
+          email?: string | null
+          external_id?: string | null
+          id?: string
+          last_called_at?: string | null
+          last_disposition?: string | null
+          name?: string | null
+          next_attempt_at?: string
+          phone?: string
+          priority?: number
+          push_error?: string | null
+          queue_id?: string
+          source?: string
+          status?: string
+          team_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dialer_queue_items_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dialer_queue_items_automation_id_fkey"
+            columns: ["automation_id"]
+            isOneToOne: false
+            referencedRelation: "automations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dialer_queue_items_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dialer_queue_items_queue_id_fkey"
+            columns: ["queue_id"]
+            isOneToOne: false
+            referencedRelation: "dialer_queues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dialer_queue_items_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dialer_queues: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          max_attempts: number
+          name: string
+          provider: string
+          team_id: string
+          updated_at: string
         }
         Insert: {
           created_at?: string
-          details?: Json | null
+          created_by?: string | null
+          description?: string | null
           id?: string
-          issue_count: number
-          issue_type: string
-          resolved_at?: string | null
-          resolved_by?: string | null
+          is_active?: boolean
+          max_attempts?: number
+          name: string
+          provider?: string
+          team_id: string
+          updated_at?: string
         }
         Update: {
           created_at?: string
-          details?: Json | null
+          created_by?: string | null
+          description?: string | null
           id?: string
-          issue_count?: number
-          issue_type?: string
-          resolved_at?: string | null
-          resolved_by?: string | null
+          is_active?: boolean
+          max_attempts?: number
+          name?: string
+          provider?: string
+          team_id?: string
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "dialer_queues_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       email_aliases: {
         Row: {
@@ -1207,48 +1823,133 @@ export type Database = {
           },
         ]
       }
+      inbound_messages: {
+        Row: {
+          appointment_id: string | null
+          body: string
+          channel: string
+          contact_id: string | null
+          created_at: string
+          from_address: string
+          id: string
+          intent: string | null
+          payload: Json
+          provider: string
+          provider_message_id: string | null
+          team_id: string
+          to_address: string | null
+        }
+        Insert: {
+          appointment_id?: string | null
+          body?: string
+          channel?: string
+          contact_id?: string | null
+          created_at?: string
+          from_address: string
+          id?: string
+          intent?: string | null
+          payload?: Json
+          provider: string
+          provider_message_id?: string | null
+          team_id: string
+          to_address?: string | null
+        }
+        Update: {
+          appointment_id?: string | null
+          body?: string
+          channel?: string
+          contact_id?: string | null
+          created_at?: string
+          from_address?: string
+          id?: string
+          intent?: string | null
+          payload?: Json
+          provider?: string
+          provider_message_id?: string | null
+          team_id?: string
+          to_address?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inbound_messages_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inbound_messages_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inbound_messages_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       message_logs: {
         Row: {
           automation_id: string | null
+          broadcast_recipient_id: string | null
           channel: string
           created_at: string
+          deferred_until: string | null
           error_message: string | null
           from_address: string | null
           id: string
           payload: Json
           provider: string
+          provider_message_id: string | null
           run_id: string | null
           status: string
+          status_updated_at: string | null
+          suppression_reason: string | null
           team_id: string
           template: string | null
           to_address: string
         }
         Insert: {
           automation_id?: string | null
+          broadcast_recipient_id?: string | null
           channel: string
           created_at?: string
+          deferred_until?: string | null
           error_message?: string | null
           from_address?: string | null
           id?: string
           payload?: Json
           provider: string
+          provider_message_id?: string | null
           run_id?: string | null
           status?: string
+          status_updated_at?: string | null
+          suppression_reason?: string | null
           team_id: string
           template?: string | null
           to_address: string
         }
         Update: {
           automation_id?: string | null
+          broadcast_recipient_id?: string | null
           channel?: string
           created_at?: string
+          deferred_until?: string | null
           error_message?: string | null
           from_address?: string | null
           id?: string
           payload?: Json
           provider?: string
+          provider_message_id?: string | null
           run_id?: string | null
           status?: string
+          status_updated_at?: string | null
+          suppression_reason?: string | null
           team_id?: string
           template?: string | null
           to_address?: string
@@ -1270,6 +1971,47 @@ export type Database = {
           },
         ]
       }
+      message_suppressions: {
+        Row: {
+          address: string
+          channel: string
+          created_at: string
+          created_by: string | null
+          id: string
+          reason: string
+          source: string | null
+          team_id: string
+        }
+        Insert: {
+          address: string
+          channel: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          reason: string
+          source?: string | null
+          team_id: string
+        }
+        Update: {
+          address?: string
+          channel?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          reason?: string
+          source?: string | null
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_suppressions_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       mrr_commissions: {
         Row: {
           appointment_id: string | null
@@ -1667,6 +2409,82 @@ export type Database = {
           },
         ]
       }
+      scheduled_automation_jobs: {
+        Row: {
+          attempts: number
+          automation_id: string
+          completed_at: string | null
+          created_at: string
+          id: string
+          last_error: string | null
+          max_attempts: number
+          payload: Json
+          resume_step_id: string | null
+          run_at: string
+          run_id: string | null
+          status: string
+          team_id: string
+          trigger_type: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          automation_id: string
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          payload?: Json
+          resume_step_id?: string | null
+          run_at: string
+          run_id?: string | null
+          status?: string
+          team_id: string
+          trigger_type: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          automation_id?: string
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          payload?: Json
+          resume_step_id?: string | null
+          run_at?: string
+          run_id?: string | null
+          status?: string
+          team_id?: string
+          trigger_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_automation_jobs_automation_id_fkey"
+            columns: ["automation_id"]
+            isOneToOne: false
+            referencedRelation: "automations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_automation_jobs_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "automation_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_automation_jobs_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       setter_rotation_settings: {
         Row: {
           created_at: string
@@ -2121,6 +2939,7 @@ export type Database = {
         Row: {
           action_pipeline_mappings: Json | null
           allow_setter_pipeline_updates: boolean
+          appointment_reminder_config: Json
           asset_categories: Json | null
           auto_create_tasks: boolean | null
           calendly_access_token: string | null
@@ -2145,6 +2964,7 @@ export type Database = {
           id: string
           last_task_assignment: Json | null
           logo_url: string | null
+          message_compliance_config: Json
           minimum_booking_notice_hours: number | null
           mrr_task_assignment: string | null
           name: string
@@ -2153,11 +2973,13 @@ export type Database = {
           overdue_threshold_minutes: number | null
           setter_commission_percentage: number | null
           task_routing_config: Json | null
+          timezone: string | null
           updated_at: string | null
         }
         Insert: {
           action_pipeline_mappings?: Json | null
           allow_setter_pipeline_updates?: boolean
+          appointment_reminder_config?: Json
           asset_categories?: Json | null
           auto_create_tasks?: boolean | null
           calendly_access_token?: string | null
@@ -2182,6 +3004,7 @@ export type Database = {
           id?: string
           last_task_assignment?: Json | null
           logo_url?: string | null
+          message_compliance_config?: Json
           minimum_booking_notice_hours?: number | null
           mrr_task_assignment?: string | null
           name: string
@@ -2190,11 +3013,13 @@ export type Database = {
           overdue_threshold_minutes?: number | null
           setter_commission_percentage?: number | null
           task_routing_config?: Json | null
+          timezone?: string | null
           updated_at?: string | null
         }
         Update: {
           action_pipeline_mappings?: Json | null
           allow_setter_pipeline_updates?: boolean
+          appointment_reminder_config?: Json
           asset_categories?: Json | null
           auto_create_tasks?: boolean | null
           calendly_access_token?: string | null
@@ -2219,6 +3044,7 @@ export type Database = {
           id?: string
           last_task_assignment?: Json | null
           logo_url?: string | null
+          message_compliance_config?: Json
           minimum_booking_notice_hours?: number | null
           mrr_task_assignment?: string | null
           name?: string
@@ -2227,6 +3053,7 @@ export type Database = {
           overdue_threshold_minutes?: number | null
           setter_commission_percentage?: number | null
           task_routing_config?: Json | null
+          timezone?: string | null
           updated_at?: string | null
         }
         Relationships: [
@@ -2290,6 +3117,87 @@ export type Database = {
         }
         Relationships: []
       }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          event_type: string
+          id: string
+          integration_id: string | null
+          last_error: string | null
+          last_response_body: string | null
+          last_response_status: number | null
+          max_attempts: number
+          next_attempt_at: string | null
+          request_body: Json
+          request_headers: Json
+          signing_secret: string | null
+          source: string
+          status: string
+          team_id: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          event_type: string
+          id?: string
+          integration_id?: string | null
+          last_error?: string | null
+          last_response_body?: string | null
+          last_response_status?: number | null
+          max_attempts?: number
+          next_attempt_at?: string | null
+          request_body?: Json
+          request_headers?: Json
+          signing_secret?: string | null
+          source: string
+          status?: string
+          team_id: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          event_type?: string
+          id?: string
+          integration_id?: string | null
+          last_error?: string | null
+          last_response_body?: string | null
+          last_response_status?: number | null
+          max_attempts?: number
+          next_attempt_at?: string | null
+          request_body?: Json
+          request_headers?: Json
+          signing_secret?: string | null
+          source?: string
+          status?: string
+          team_id?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_integration_id_fkey"
+            columns: ["integration_id"]
+            isOneToOne: false
+            referencedRelation: "team_integrations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -2319,6 +3227,40 @@ export type Database = {
         }[]
       }
       check_overdue_tasks: { Args: never; Returns: undefined }
+      claim_next_dialer_item: {
+        Args: { p_queue_id: string }
+        Returns: {
+          added_by: string | null
+          appointment_id: string | null
+          attempts: number
+          automation_id: string | null
+          claimed_at: string | null
+          claimed_by: string | null
+          contact_id: string | null
+          created_at: string
+          email: string | null
+          external_id: string | null
+          id: string
+          last_called_at: string | null
+          last_disposition: string | null
+          name: string | null
+          next_attempt_at: string
+          phone: string
+          priority: number
+          push_error: string | null
+          queue_id: string
+          source: string
+          status: string
+          team_id: string
+          updated_at: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "dialer_queue_items"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
       cleanup_appointment_tasks: {
         Args: { appt_id: string }
         Returns: undefined
@@ -2450,6 +3392,32 @@ export type Database = {
           updated_count: number
         }[]
       }
+      resolve_broadcast_audience: {
+        Args: { p_audience: Json; p_channel: string; p_team_id: string }
+        Returns: {
+          calendly_booked_at: string | null
+          created_at: string
+          custom_fields: Json | null
+          email: string | null
+          funnel_lead_id: string | null
+          id: string
+          name: string | null
+          opt_in: boolean | null
+          phone: string | null
+          source: string | null
+          tags: string[] | null
+          team_id: string
+          timezone: string | null
+          updated_at: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "contacts"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      rollback_automation: { Args: { p_version_id: string }; Returns: string }
       validate_creator_code: { Args: { p_code: string }; Returns: boolean }
     }
     Enums: {
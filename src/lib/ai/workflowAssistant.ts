@@ -1,4 +1,5 @@
 // src/lib/ai/workflowAssistant.ts
+import { supabase } from '@/integrations/supabase/client';
 import type {
   AiWorkflowSuggestionRequest,
   AiWorkflowSuggestionResponse,
@@ -7,58 +8,134 @@ import type {
   AiRewriteTemplateRequest,
   AiRewriteTemplateResponse,
 } from './types';
+import type { AutomationDefinition } from '../automations/types';
+import { compileWorkflow } from '../workflows/serializer';
+import type { WorkflowDefinition } from '../workflows/types';
 
 /**
- * This file DOES NOT talk directly to OpenAI.
-* Instead, call a backend route you create later (keeps API keys off the client).
- *
- * That way we don't leak API keys in the browser and your build stays safe.
+ * This file DOES NOT talk directly to a model provider.
+ * Requests go to the ai-workflow-assistant edge function, which holds the API
+ * keys and falls back to a deterministic stub when none are configured.
  */
 
-async function postJson<TReq, TRes>(url: string, body: TReq): Promise<TRes> {
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`AI request failed (${res.status}): ${text}`);
+async function invokeAssistant<TReq, TRes>(route: 'suggest' | 'explain' | 'rewrite-template', body: TReq): Promise<TRes> {
+  const { data, error } = await supabase.functions.invoke(`ai-workflow-assistant/${route}`, { body });
+
+  if (error) {
+    // Non-2xx responses carry { error } in the body
+    const details = await (error as { context?: Response }).context?.json?.().catch(() => null);
+    throw new Error(`AI request failed: ${details?.error ?? error.message}`);
   }
 
-  return (await res.json()) as TRes;
+  return data as TRes;
+}
+
+export interface ValidatedWorkflowSuggestion extends AiWorkflowSuggestionResponse {
+  /** The suggestion as a workflow graph, ready for the canvas or the JSON editor */
+  workflowDefinition: WorkflowDefinition;
+  /** Compiled through workflowToAutomation, so it is known to save and run */
+  automation: AutomationDefinition;
 }
 
 // --- Public helpers you can call from React components --- //
 
+/**
+ * Asks for a workflow and checks it compiles before handing it back, so the
+ * UI never offers a suggestion that couldn't be saved.
+ */
 export async function requestWorkflowSuggestion(
   payload: AiWorkflowSuggestionRequest,
-): Promise<AiWorkflowSuggestionResponse> {
-  // Later, point this at your real backend endpoint:
-  // e.g. "/api/ai/workflows/suggest"
-  return postJson<AiWorkflowSuggestionRequest, AiWorkflowSuggestionResponse>(
-    '/api/ai/workflows/suggest',
+): Promise<ValidatedWorkflowSuggestion> {
+  const suggestion = await invokeAssistant<AiWorkflowSuggestionRequest, AiWorkflowSuggestionResponse>(
+    'suggest',
     payload,
   );
+  if (!suggestion.workflow || suggestion.suggestedSteps.length === 0) {
+    throw new Error('The assistant did not suggest any usable steps; try describing the goal differently.');
+  }
+
+  const now = new Date().toISOString();
+  const workflowDefinition = {
+    id: '',
+    teamId: payload.teamId,
+    name: suggestion.title,
+    description: suggestion.description,
+    isActive: true,
+    createdAt: now,
+    updatedAt: now,
+    nodes: suggestion.workflow.nodes,
+    edges: suggestion.workflow.edges,
+  } as WorkflowDefinition;
+
+  const { automation, errors } = compileWorkflow(workflowDefinition);
+  if (!automation) {
+    throw new Error(`The suggested workflow is invalid: ${errors.map((e) => e.message).join(' ')}`);
+  }
+
+  return { ...suggestion, workflowDefinition, automation };
 }
 
 export async function requestWorkflowExplanation(
   payload: AiExplainWorkflowRequest,
 ): Promise<AiExplainWorkflowResponse> {
-  return postJson<AiExplainWorkflowRequest, AiExplainWorkflowResponse>(
-    '/api/ai/workflows/explain',
-    payload,
-  );
+  return invokeAssistant<AiExplainWorkflowRequest, AiExplainWorkflowResponse>('explain', payload);
 }
 
 export async function requestTemplateRewrite(
   payload: AiRewriteTemplateRequest,
 ): Promise<AiRewriteTemplateResponse> {
-  return postJson<AiRewriteTemplateRequest, AiRewriteTemplateResponse>(
-    '/api/ai/workflows/rewrite-template',
-    payload,
-  );
+  return invokeAssistant<AiRewriteTemplateRequest, AiRewriteTemplateResponse>('rewrite-template', payload);
+}
+
+export interface MessageTemplateRef {
+  /** Step id, or node id for workflow graphs */
+  id: string;
+  label: string;
+  channel: 'sms' | 'email';
+  template: string;
+}
+
+type DefinitionItem = Record<string, unknown> & { config?: Record<string, unknown> };
+
+function listItems(value: unknown): DefinitionItem[] {
+  return Array.isArray(value) ? value.filter((item): item is DefinitionItem => !!item && typeof item === 'object') : [];
+}
+
+/** send_message templates in a definition (steps or workflow nodes), for "rewrite this message" */
+export function findMessageTemplates(definition: Record<string, unknown>): MessageTemplateRef[] {
+  const items = Array.isArray(definition?.nodes)
+    ? listItems(definition.nodes).map((n) => ({ id: String(n.id), label: n.label, type: n.actionType, config: n.config }))
+    : listItems(definition?.steps).map((s) => ({
+        id: String(s.id),
+        label: s.config?.label,
+        type: s.type,
+        config: s.config,
+      }));
+
+  return items
+    .filter((item) => item.type === 'send_message' && typeof item.config?.template === 'string')
+    .map((item) => ({
+      id: item.id,
+      label: typeof item.label === 'string' && item.label ? item.label : item.id,
+      channel: item.config!.channel === 'email' ? 'email' : 'sms',
+      template: item.config!.template as string,
+    }));
+}
+
+/** Copy of the definition with one message's template replaced */
+export function replaceMessageTemplate(
+  definition: Record<string, unknown>,
+  id: string,
+  template: string,
+): Record<string, unknown> {
+  const replace = (item: unknown) => {
+    const value = item as DefinitionItem | null;
+    return value?.id === id ? { ...value, config: { ...value.config, template } } : item;
+  };
+
+  return {
+    ...definition,
+    ...(Array.isArray(definition.nodes) ? { nodes: definition.nodes.map(replace) } : {}),
+    ...(Array.isArray(definition.steps) ? { steps: definition.steps.map(replace) } : {}),
+  };
 }
@@ -1,6 +1,16 @@
 // src/lib/automations/actions.ts
+import { supabase } from "@/integrations/supabase/client";
 import type { AutomationActionConfig } from "./types";
 import { dispatchMessage } from "../messaging/dispatcher";
+import { renderTemplate } from "./templateUtils";
+import { runAutomationsForEvent } from "./triggerHelper";
+import { buildSignedHeaders } from "../../../supabase/functions/_shared/webhookSignature";
+import { PowerDialerClient } from "../integrations/powerDialer";
+import { splitContactName } from "../dialer/queues";
+
+/** Same limit as the automation-trigger edge function */
+const MAX_AUTOMATION_DEPTH = 3;
+const WEBHOOK_TIMEOUT_MS = 10_000;
 
 interface RunActionParams {
   teamId: string;
@@ -44,34 +54,158 @@ export async function runAction({ teamId, automationId, actionConfig, eventPaylo
       }
 
       case "enqueue_dialer": {
-        await dispatchMessage({
-          teamId,
-          channel: "voice",
-          toPhone: params.toPhone ?? eventPayload.lead?.phone ?? eventPayload.appointment?.phone,
-          text: params.script ?? "",
-          metadata: {
-            ...params.metadata,
-            automationId,
-            mode: "dialer_queue",
-            leadId: eventPayload.lead?.id,
-            appointmentId: eventPayload.appointment?.id,
-          },
+        const queueName = String(params.queueName ?? "").trim();
+        const phone = params.toPhone ?? eventPayload.lead?.phone ?? eventPayload.appointment?.lead_phone;
+        if (!queueName || !phone) {
+          console.warn("[automations] enqueue_dialer skipped – missing queue or phone", { automationId, queueName });
+          break;
+        }
+
+        const { data: queue, error: queueError } = await supabase
+          .from("dialer_queues")
+          .select("id")
+          .eq("team_id", teamId)
+          .eq("name", queueName)
+          .maybeSingle();
+        if (queueError) throw queueError;
+        if (!queue) {
+          console.warn("[automations] enqueue_dialer skipped – queue not found", { automationId, queueName });
+          break;
+        }
+
+        const result = await new PowerDialerClient({ teamId, queueId: queue.id }).pushContact({
+          phone,
+          email: eventPayload.lead?.email ?? eventPayload.appointment?.lead_email,
+          ...splitContactName(eventPayload.lead?.name ?? eventPayload.appointment?.lead_name),
+          contactId: eventPayload.lead?.id,
+          appointmentId: eventPayload.appointment?.id,
+          priority: Number(params.priority) || 0,
+          automationId,
         });
 
         console.log("[automations] enqueue_dialer executed", {
           automationId,
+          queueName,
+          skipped: result.skipReason,
         });
 
         break;
       }
 
-      // These we’ll wire into tasks / tags / team notifications later
-      case "add_task":
-      case "add_tag":
-      case "notify_team":
-      case "custom_webhook":
-        console.info("[automations] stub action type", type, params);
+      case "add_task": {
+        const appointmentId = params.appointmentId ?? eventPayload.appointment?.id;
+        if (!appointmentId) {
+          console.warn("[automations] add_task skipped – no appointment in payload", { automationId });
+          break;
+        }
+
+        const followUpDate = params.followUpInHours
+          ? new Date(Date.now() + Number(params.followUpInHours) * 60 * 60 * 1000).toISOString()
+          : params.followUpDate;
+
+        const { error } = await supabase.rpc("create_task_with_assignment", {
+          p_team_id: teamId,
+          p_appointment_id: appointmentId,
+          p_task_type: params.taskType ?? "follow_up",
+          p_preferred_role: params.preferredRole,
+          p_follow_up_date: followUpDate,
+          p_follow_up_reason: params.reason ? renderTemplate(params.reason, eventPayload) : undefined,
+        });
+        if (error) throw error;
+
+        console.log("[automations] add_task executed", { automationId, appointmentId });
         break;
+      }
+
+      case "add_tag": {
+        const tag = renderTemplate(String(params.tag ?? ""), eventPayload).trim();
+        const leadId = eventPayload.lead?.id;
+        if (!tag || !leadId) {
+          console.warn("[automations] add_tag skipped – missing tag or lead", { automationId, tag, leadId });
+          break;
+        }
+
+        const { data: contact, error: fetchError } = await supabase
+          .from("contacts")
+          .select("tags")
+          .eq("id", leadId)
+          .single();
+        if (fetchError) throw fetchError;
+
+        const tags = contact?.tags ?? [];
+        if (tags.some((t) => t.toLowerCase() === tag.toLowerCase())) break;
+
+        const nextTags = [...tags, tag];
+        const { error } = await supabase.from("contacts").update({ tags: nextTags }).eq("id", leadId);
+        if (error) throw error;
+
+        // Loop protection mirrors the edge function: carry the chain of
+        // automations and stop once it gets too deep.
+        const chain = [...(eventPayload.meta?.automationChain ?? []), automationId];
+        if (chain.length <= MAX_AUTOMATION_DEPTH) {
+          await runAutomationsForEvent({
+            triggerType: "lead_tag_added",
+            teamId,
+            eventPayload: {
+              lead: { ...eventPayload.lead, tags: nextTags },
+              meta: { tag, automationChain: chain },
+            },
+          });
+        }
+
+        console.log("[automations] add_tag executed", { automationId, tag });
+        break;
+      }
+
+      case "notify_team": {
+        const message = renderTemplate(params.message ?? params.template ?? "", eventPayload);
+        if (!message.trim()) break;
+
+        let userId: string | undefined = params.userId;
+        if (!userId) {
+          const { data: team } = await supabase.from("teams").select("created_by").eq("id", teamId).single();
+          userId = team?.created_by;
+        }
+
+        const { error } = await supabase
+          .from("team_messages")
+          .insert({ team_id: teamId, user_id: userId, message });
+        if (error) throw error;
+
+        console.log("[automations] notify_team executed", { automationId });
+        break;
+      }
+
+      case "custom_webhook": {
+        if (!params.url) {
+          console.warn("[automations] custom_webhook skipped – no url", { automationId });
+          break;
+        }
+
+        const body = JSON.stringify({
+          event: eventPayload.triggerType,
+          automationId,
+          teamId,
+          sentAt: new Date().toISOString(),
+          data: eventPayload,
+        });
+
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+        try {
+          const res = await fetch(params.url, {
+            method: params.method ?? "POST",
+            headers: await buildSignedHeaders(body, params.secret, params.headers ?? {}),
+            body,
+            signal: controller.signal,
+          });
+
+          console.log("[automations] custom_webhook executed", { automationId, status: res.status });
+        } finally {
+          clearTimeout(timeout);
+        }
+        break;
+      }
 
       default:
         console.warn("[automations] unknown action type", type);
@@ -0,0 +1,544 @@
+// src/lib/automations/analytics.ts
+//
+// Per-automation analytics built from what runs already record: the step
+// logs in automation_runs.steps_executed, the automation's message_logs rows,
+// inbound replies, and the appointments / payments that followed an
+// enrollment. Outcomes are attributed last-touch: each booking or payment
+// counts toward the latest run of this automation for the same contact that
+// started within the attribution window before it.
+import { supabase } from '@/integrations/supabase/client';
+import type { AutomationStep } from './types';
+import { ACTION_LABELS } from '@/lib/workflows/palette';
+
+export const ATTRIBUTION_WINDOW_OPTIONS = [1, 3, 7, 14, 30] as const;
+/** Same reply window broadcasts use */
+export const REPLY_WINDOW_DAYS = 7;
+/** Most runs loaded for one report */
+const MAX_RUNS = 5000;
+/** Most rows loaded from each of the other tables */
+const MAX_ROWS = MAX_RUNS * 4;
+const PAGE_SIZE = 1000;
+/** Ids per .in() filter, to keep the request URL short */
+const IN_CHUNK_SIZE = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AnalyticsRun {
+  id: string;
+  status: string;
+  created_at: string;
+  contact_key: string | null;
+  error_message: string | null;
+  steps_executed: unknown;
+  context_snapshot: {
+    lead?: { id?: string; email?: string | null; phone?: string | null };
+    appointment?: { lead_email?: string | null; lead_phone?: string | null };
+  } | null;
+}
+
+export interface AnalyticsMessage {
+  id: string;
+  run_id: string | null;
+  channel: string;
+  status: string;
+  to_address: string;
+  error_message: string | null;
+  created_at: string;
+}
+
+export interface AnalyticsReply {
+  from_address: string;
+  channel: string;
+  created_at: string;
+}
+
+export interface AnalyticsAppointment {
+  id: string;
+  lead_email: string | null;
+  lead_phone: string | null;
+  status: string;
+  created_at: string | null;
+}
+
+export interface AnalyticsPayment {
+  id: string;
+  amount: number;
+  type: string;
+  lead_id: string | null;
+  appointment_id: string | null;
+  processed_at: string;
+}
+
+export interface StepFunnelRow {
+  stepId: string;
+  label: string;
+  type: string;
+  /** Runs that got to this step */
+  reached: number;
+  completed: number;
+  skippedByConditions: number;
+  skippedOther: number;
+  failed: number;
+  /** No longer in the current definition; only older runs have it */
+  removed: boolean;
+}
+
+export interface MessageStats {
+  total: number;
+  /** Accepted by a provider (sent or delivered) */
+  sent: number;
+  delivered: number;
+  failed: number;
+  suppressed: number;
+  /** Distinct SMS recipients, and how many of them replied within REPLY_WINDOW_DAYS */
+  smsRecipients: number;
+  replied: number;
+  deliveryRate: number | null;
+  replyRate: number | null;
+}
+
+export interface OutcomeStats {
+  windowDays: number;
+  /** Runs followed by a booking / show / payment */
+  bookedRuns: number;
+  showedRuns: number;
+  paidRuns: number;
+  appointmentsBooked: number;
+  appointmentsShowed: number;
+  /** Net of refunds */
+  revenue: number;
+  revenuePerEnrollment: number | null;
+}
+
+export interface FailureGroup {
+  message: string;
+  /** Step id, "run" for run-level errors, or the message channel */
+  source: string;
+  count: number;
+  lastSeen: string;
+  exampleRunId: string | null;
+}
+
+/** The tables a report reads; a source is listed as truncated when it hit its row limit */
+export type AnalyticsSource = 'runs' | 'messages' | 'replies' | 'appointments' | 'payments';
+
+export interface AutomationAnalytics {
+  entered: number;
+  uniqueContacts: number;
+  statusCounts: Record<string, number>;
+  steps: StepFunnelRow[];
+  messages: MessageStats;
+  outcomes: OutcomeStats;
+  failures: FailureGroup[];
+}
+
+interface StepLog {
+  stepId?: string;
+  actionType?: string;
+  skipped?: boolean;
+  skipReason?: string;
+  error?: string;
+}
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : null);
+
+function phoneKey(phone: string | null | undefined): string | null {
+  const digits = String(phone ?? '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : null;
+}
+
+function emailKey(email: string | null | undefined): string | null {
+  const value = String(email ?? '').trim().toLowerCase();
+  return value ? value : null;
+}
+
+/** Every way a run's contact can be recognised: email, phone and lead id */
+function runIdentity(run: AnalyticsRun): string[] {
+  const ctx = run.context_snapshot ?? {};
+  const keys = [
+    run.contact_key,
+    emailKey(ctx.lead?.email ?? ctx.appointment?.lead_email) && `email:${emailKey(ctx.lead?.email ?? ctx.appointment?.lead_email)}`,
+    phoneKey(ctx.lead?.phone ?? ctx.appointment?.lead_phone) && `phone:${phoneKey(ctx.lead?.phone ?? ctx.appointment?.lead_phone)}`,
+    ctx.lead?.id && `lead:${ctx.lead.id}`,
+  ];
+  return [...new Set(keys.filter((k): k is string => !!k))];
+}
+
+function appointmentIdentity(appointment: AnalyticsAppointment): string[] {
+  const email = emailKey(appointment.lead_email);
+  const phone = phoneKey(appointment.lead_phone);
+  return [email && `email:${email}`, phone && `phone:${phone}`].filter((k): k is string => !!k);
+}
+
+function getStepLogs(run: AnalyticsRun): StepLog[] {
+  return Array.isArray(run.steps_executed) ? (run.steps_executed as StepLog[]) : [];
+}
+
+function stepLabel(type: string | undefined): string {
+  return (ACTION_LABELS as Record<string, string>)[type ?? ''] ?? type ?? 'Unknown step';
+}
+
+/**
+ * Finds the run an outcome belongs to: the latest run for one of `keys` that
+ * started no more than `windowMs` before `at`.
+ */
+function createRunMatcher(runs: AnalyticsRun[], windowMs: number) {
+  const byKey = new Map<string, AnalyticsRun[]>();
+  for (const run of runs) {
+    for (const key of runIdentity(run)) {
+      byKey.set(key, [...(byKey.get(key) ?? []), run]);
+    }
+  }
+
+  return (keys: string[], at: string | null): AnalyticsRun | null => {
+    if (!at) return null;
+    const time = new Date(at).getTime();
+    let match: AnalyticsRun | null = null;
+
+    for (const key of keys) {
+      for (const run of byKey.get(key) ?? []) {
+        const started = new Date(run.created_at).getTime();
+        if (started > time || time - started > windowMs) continue;
+        if (!match || started > new Date(match.created_at).getTime()) match = run;
+      }
+    }
+    return match;
+  };
+}
+
+function buildStepFunnel(runs: AnalyticsRun[], steps: AutomationStep[]): StepFunnelRow[] {
+  const ordered = [...steps].sort((a, b) => a.order - b.order);
+  const rows = new Map<string, StepFunnelRow>(
+    ordered.map((step) => [
+      step.id,
+      {
+        stepId: step.id,
+        label: stepLabel(step.type),
+        type: step.type,
+        reached: 0,
+        completed: 0,
+        skippedByConditions: 0,
+        skippedOther: 0,
+        failed: 0,
+        removed: false,
+      },
+    ]),
+  );
+
+  for (const run of runs) {
+    // One outcome per step per run; a resumed run can log a step again
+    const seen = new Map<string, StepLog>();
+    for (const log of getStepLogs(run)) {
+      if (log.stepId) seen.set(log.stepId, log);
+    }
+
+    for (const [stepId, log] of seen) {
+      let row = rows.get(stepId);
+      if (!row) {
+        row = {
+          stepId,
+          label: stepLabel(log.actionType),
+          type: log.actionType ?? 'unknown',
+          reached: 0,
+          completed: 0,
+          skippedByConditions: 0,
+          skippedOther: 0,
+          failed: 0,
+          removed: true,
+        };
+        rows.set(stepId, row);
+      }
+
+      row.reached++;
+      if (log.error) row.failed++;
+      else if (log.skipped && log.skipReason === 'conditions_not_met') row.skippedByConditions++;
+      else if (log.skipped) row.skippedOther++;
+      else row.completed++;
+    }
+  }
+
+  return [...rows.values()];
+}
+
+function buildMessageStats(messages: AnalyticsMessage[], replies: AnalyticsReply[]): MessageStats {
+  const sent = messages.filter((m) => m.status === 'sent' || m.status === 'delivered').length;
+  const delivered = messages.filter((m) => m.status === 'delivered').length;
+  const failed = messages.filter((m) => m.status === 'failed' || m.status === 'bounced').length;
+  const suppressed = messages.filter((m) => m.status === 'suppressed').length;
+
+  // First accepted SMS per number; a reply after it (within the window) counts once
+  const firstSms = new Map<string, number>();
+  for (const message of messages) {
+    if (message.channel !== 'sms' || (message.status !== 'sent' && message.status !== 'delivered')) continue;
+    const key = phoneKey(message.to_address);
+    if (!key) continue;
+    const time = new Date(message.created_at).getTime();
+    if (!firstSms.has(key) || time < firstSms.get(key)!) firstSms.set(key, time);
+  }
+
+  const repliedNumbers = new Set<string>();
+  for (const reply of replies) {
+    if (reply.channel !== 'sms') continue;
+    const key = phoneKey(reply.from_address);
+    const sentAt = key ? firstSms.get(key) : undefined;
+    if (sentAt === undefined) continue;
+    const time = new Date(reply.created_at).getTime();
+    if (time >= sentAt && time - sentAt <= REPLY_WINDOW_DAYS * DAY_MS) repliedNumbers.add(key!);
+  }
+
+  return {
+    total: messages.length,
+    sent,
+    delivered,
+    failed,
+    suppressed,
+    smsRecipients: firstSms.size,
+    replied: repliedNumbers.size,
+    // Only email and Twilio-with-callbacks report delivery, so this is a floor
+    deliveryRate: ratio(delivered, sent + failed),
+    replyRate: ratio(repliedNumbers.size, firstSms.size),
+  };
+}
+
+function buildOutcomes(
+  runs: AnalyticsRun[],
+  appointments: AnalyticsAppointment[],
+  payments: AnalyticsPayment[],
+  windowDays: number,
+): OutcomeStats {
+  const matchRun = createRunMatcher(runs, windowDays * DAY_MS);
+  const booked = new Set<string>();
+  const showed = new Set<string>();
+  const paid = new Set<string>();
+  let appointmentsBooked = 0;
+  let appointmentsShowed = 0;
+  let revenue = 0;
+
+  const appointmentKeys = new Map(appointments.map((a) => [a.id, appointmentIdentity(a)]));
+
+  for (const appointment of appointments) {
+    const run = matchRun(appointmentKeys.get(appointment.id) ?? [], appointment.created_at);
+    if (!run) continue;
+    appointmentsBooked++;
+    booked.add(run.id);
+    if (appointment.status === 'SHOWED' || appointment.status === 'CLOSED') {
+      appointmentsShowed++;
+      showed.add(run.id);
+    }
+  }
+
+  for (const payment of payments) {
+    const keys = [
+      ...(payment.lead_id ? [`lead:${payment.lead_id}`] : []),
+      ...(payment.appointment_id ? (appointmentKeys.get(payment.appointment_id) ?? []) : []),
+    ];
+    const run = matchRun(keys, payment.processed_at);
+    if (!run) continue;
+    const amount = Number(payment.amount) || 0;
+    revenue += payment.type === 'refund' ? -Math.abs(amount) : amount;
+    if (payment.type !== 'refund') paid.add(run.id);
+  }
+
+  return {
+    windowDays,
+    bookedRuns: booked.size,
+    showedRuns: showed.size,
+    paidRuns: paid.size,
+    appointmentsBooked,
+    appointmentsShowed,
+    revenue,
+    revenuePerEnrollment: runs.length > 0 ? revenue / runs.length : null,
+  };
+}
+
+function buildFailures(runs: AnalyticsRun[], messages: AnalyticsMessage[]): FailureGroup[] {
+  const groups = new Map<string, FailureGroup>();
+  const add = (source: string, message: string, at: string, runId: string | null) => {
+    const key = `${source}\u0000${message}`;
+    const group = groups.get(key);
+    if (!group) {
+      groups.set(key, { source, message, count: 1, lastSeen: at, exampleRunId: runId });
+      return;
+    }
+    group.count++;
+    if (at > group.lastSeen) {
+      group.lastSeen = at;
+      group.exampleRunId = runId ?? group.exampleRunId;
+    }
+  };
+
+  for (const run of runs) {
+    const stepErrors = getStepLogs(run).filter((log) => log.error);
+    for (const log of stepErrors) add(log.stepId ?? 'step', log.error!, run.created_at, run.id);
+    // Run-level errors that aren't just a repeat of a step error
+    if (run.error_message && !stepErrors.some((log) => log.error === run.error_message)) {
+      add('run', run.error_message, run.created_at, run.id);
+    }
+  }
+  for (const message of messages) {
+    if ((message.status === 'failed' || message.status === 'bounced') && message.error_message) {
+      add(message.channel, message.error_message, message.created_at, message.run_id);
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen));
+}
+
+export function computeAutomationAnalytics(
+  input: {
+    runs: AnalyticsRun[];
+    steps: AutomationStep[];
+    messages: AnalyticsMessage[];
+    replies: AnalyticsReply[];
+    appointments: AnalyticsAppointment[];
+    payments: AnalyticsPayment[];
+  },
+  options: { windowDays: number },
+): AutomationAnalytics {
+  const statusCounts: Record<string, number> = {};
+  for (const run of input.runs) statusCounts[run.status] = (statusCounts[run.status] ?? 0) + 1;
+
+  return {
+    entered: input.runs.length,
+    uniqueContacts: new Set(input.runs.map((run) => runIdentity(run)[0] ?? run.id)).size,
+    statusCounts,
+    steps: buildStepFunnel(input.runs, input.steps),
+    messages: buildMessageStats(input.messages, input.replies),
+    outcomes: buildOutcomes(input.runs, input.appointments, input.payments, options.windowDays),
+    failures: buildFailures(input.runs, input.messages),
+  };
+}
+
+/**
+ * Pages through a query past the API's 1000-row limit. `truncated` is set
+ * when `max` rows came back, so there may be more.
+ */
+async function fetchAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>,
+  max: number,
+): Promise<{ rows: T[]; truncated: boolean }> {
+  const rows: T[] = [];
+  for (let from = 0; from < max; from += PAGE_SIZE) {
+    const { data, error } = await page(from, Math.min(from + PAGE_SIZE, max) - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return { rows, truncated: false };
+  }
+  return { rows, truncated: rows.length >= max };
+}
+
+/**
+ * Loads and computes analytics for runs that started in [since, now]. Outcome
+ * tables are read up to the window past `since` so late conversions count.
+ */
+export async function loadAutomationAnalytics(params: {
+  teamId: string;
+  automationId: string;
+  steps: AutomationStep[];
+  since: Date;
+  windowDays: number;
+}): Promise<AutomationAnalytics & { truncated: AnalyticsSource[] }> {
+  const { teamId, automationId, since, windowDays } = params;
+  const sinceIso = since.toISOString();
+
+  const runRows = await fetchAllRows(
+    (from, to) =>
+      supabase
+        .from('automation_runs')
+        .select('id, status, created_at, contact_key, error_message, steps_executed, context_snapshot')
+        .eq('automation_id', automationId)
+        .gte('created_at', sinceIso)
+        .order('created_at', { ascending: false })
+        .range(from, to),
+    MAX_RUNS,
+  );
+  const runs: AnalyticsRun[] = runRows.rows.map((row) => ({
+    ...row,
+    context_snapshot: row.context_snapshot as AnalyticsRun['context_snapshot'],
+  }));
+
+  const [messages, replies, appointments, payments] = await Promise.all([
+    fetchAllRows<AnalyticsMessage>(
+      (from, to) =>
+        supabase
+          .from('message_logs')
+          .select('id, run_id, channel, status, to_address, error_message, created_at')
+          .eq('automation_id', automationId)
+          .gte('created_at', sinceIso)
+          .order('created_at', { ascending: false })
+          .range(from, to),
+      MAX_ROWS,
+    ),
+    fetchAllRows<AnalyticsReply>(
+      (from, to) =>
+        supabase
+          .from('inbound_messages')
+          .select('from_address, channel, created_at')
+          .eq('team_id', teamId)
+          .eq('channel', 'sms')
+          .gte('created_at', sinceIso)
+          .order('created_at', { ascending: false })
+          .range(from, to),
+      MAX_ROWS,
+    ),
+    fetchAllRows<AnalyticsAppointment>(
+      (from, to) =>
+        supabase
+          .from('appointments')
+          .select('id, lead_email, lead_phone, status, created_at')
+          .eq('team_id', teamId)
+          .gte('created_at', sinceIso)
+          .order('created_at', { ascending: false })
+          .range(from, to),
+      MAX_ROWS,
+    ),
+    fetchAllRows<AnalyticsPayment>(
+      (from, to) =>
+        supabase
+          .from('payments')
+          .select('id, amount, type, lead_id, appointment_id, processed_at')
+          .eq('team_id', teamId)
+          .gte('processed_at', sinceIso)
+          .order('processed_at', { ascending: false })
+          .range(from, to),
+      MAX_ROWS,
+    ),
+  ]);
+
+  // Payments on appointments booked before the range still need their contact
+  const knownAppointments = new Set(appointments.rows.map((a) => a.id));
+  const missingIds = [
+    ...new Set(payments.rows.map((p) => p.appointment_id).filter((id): id is string => !!id && !knownAppointments.has(id))),
+  ];
+  for (let i = 0; i < missingIds.length; i += IN_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('id, lead_email, lead_phone, status, created_at')
+      .in('id', missingIds.slice(i, i + IN_CHUNK_SIZE));
+    if (error) throw error;
+    // Counted for payment matching only; created_at before the range never matches a run
+    appointments.rows.push(...(data ?? []));
+  }
+
+  const sources: Record<AnalyticsSource, { truncated: boolean }> = {
+    runs: runRows,
+    messages,
+    replies,
+    appointments,
+    payments,
+  };
+
+  return {
+    ...computeAutomationAnalytics(
+      {
+        runs,
+        steps: params.steps,
+        messages: messages.rows,
+        replies: replies.rows,
+        appointments: appointments.rows,
+        payments: payments.rows,
+      },
+      { windowDays },
+    ),
+    truncated: (Object.keys(sources) as AnalyticsSource[]).filter((source) => sources[source].truncated),
+  };
+}
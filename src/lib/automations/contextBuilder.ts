@@ -16,6 +16,8 @@ export interface AutomationContext extends AutomationContextBase {
   payment?: Record<string, any> | null;
   deal?: Record<string, any> | null;
   meta?: Record<string, any> | null;
+  /** Team name / timezone, used by templates to render dates */
+  team?: { id: string; name: string; timezone: string | null } | null;
 }
 
 /**
@@ -40,5 +42,6 @@ export function buildAutomationContext(
     payment: payload.payment ?? null,
     deal: payload.deal ?? null,
     meta: payload.meta ?? null,
+    team: payload.team ?? null,
   };
 }
@@ -1,6 +1,7 @@
 // src/lib/automations/engine.ts
-import { type AutomationDefinition, type AutomationCondition, type TriggerType } from "./types";
+import { type AutomationDefinition, type AutomationStep, type TriggerType } from "./types";
 import { runAction } from "./actions";
+import { evaluateConditions, type ConditionContext } from "./conditions";
 
 interface RunAutomationsParams {
   teamId: string;
@@ -34,7 +35,8 @@ export async function runAutomationsForTrigger({ teamId, triggerType, eventPaylo
 
       // Execute steps (new structure) or legacy actions
       if (automation.steps && automation.steps.length > 0) {
-        for (const step of automation.steps) {
+        for (const step of orderStepsForExecution(automation, eventPayload ?? {})) {
+          if (step.type === "condition") continue;
           await runAction({
             teamId,
             automationId: automation.id,
@@ -101,31 +103,36 @@ async function fetchAutomationsForTeamAndTrigger(
   return [];
 }
 
-function evaluateConditions(conditions: AutomationCondition[], payload: Record<string, any>): boolean {
-  if (!conditions.length) return true;
+/**
+ * Resolves the steps to run, in order.
+ * Graph automations (compiled from a workflow) are walked from `entryStepId`,
+ * following `next` and picking a condition step's branch as we go.
+ * Legacy automations just run every step by `order`.
+ */
+function orderStepsForExecution(
+  automation: AutomationDefinition,
+  payload: ConditionContext,
+): AutomationStep[] {
+  if (!automation.entryStepId) {
+    return [...automation.steps].sort((a, b) => a.order - b.order);
+  }
 
-  return conditions.every((cond) => {
-    const value = get(payload, cond.field);
+  const stepsById = new Map(automation.steps.map((s) => [s.id, s]));
+  const path: AutomationStep[] = [];
+  let current = stepsById.get(automation.entryStepId);
 
-    switch (cond.operator) {
-      case "equals":
-        return value === cond.value;
-      case "not_equals":
-        return value !== cond.value;
-      case "contains":
-        return typeof value === "string" && String(value).includes(String(cond.value));
-      case "gt":
-        return Number(value) > Number(cond.value);
-      case "lt":
-        return Number(value) < Number(cond.value);
-      case "in":
-        return Array.isArray(cond.value) && cond.value.includes(value);
-      default:
-        return false;
+  // Validation rejects cycles at save time; the cap guards against hand-edited definitions.
+  while (current && path.length <= automation.steps.length) {
+    path.push(current);
+
+    if (current.type === "condition") {
+      const passed = evaluateConditions(current.conditions ?? [], payload, current.logicOperator);
+      const nextId = passed ? current.branches?.true : current.branches?.false;
+      current = nextId ? stepsById.get(nextId) : undefined;
+    } else {
+      current = current.next ? stepsById.get(current.next) : undefined;
     }
-  });
-}
+  }
 
-function get(obj: any, path: string): any {
-  return path.split(".").reduce((acc, key) => (acc != null ? acc[key] : undefined), obj);
+  return path;
 }
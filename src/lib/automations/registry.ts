@@ -1,12 +1,13 @@
 // src/lib/automations/registry.ts
 import { supabase } from '@/integrations/supabase/client';
 import type { AutomationDefinition, TriggerType } from './types';
-import { sampleWorkflows } from '../workflows/sampleTemplates';
-import { workflowToAutomation } from '../workflows/serializer';
+import { compileWorkflow } from '../workflows/serializer';
+import type { WorkflowDefinition, WorkflowValidationError } from '../workflows/types';
 
 /**
  * Registry for automations.
- * Reads from Supabase `automations` table, with fallback to sample templates.
+ * Reads from Supabase `automations` table. Templates are never run implicitly;
+ * teams install them from the template gallery.
  */
 
 // In-memory cache for fallback (used by edge function which can't import supabase client)
@@ -30,23 +31,7 @@ export function getAutomationsForTeam(teamId: string): AutomationDefinition[] {
 }
 
 /**
- * Get default template automations for a team (fallback when no DB automations exist).
- */
-export function getDefaultTemplateAutomations(teamId: string): AutomationDefinition[] {
-  return sampleWorkflows
-    .map((workflow) => {
-      const automation = workflowToAutomation({
-        ...workflow,
-        teamId, // Override template teamId with actual teamId
-      });
-      return automation;
-    })
-    .filter((a): a is AutomationDefinition => a !== null);
-}
-
-/**
- * Fetches automations from the database for a specific team and trigger type.
- * Falls back to sample templates if no automations exist.
+ * Fetches active automations from the database for a specific team and trigger type.
  */
 export async function getAutomationsForTrigger(
   teamId: string,
@@ -62,41 +47,29 @@ export async function getAutomationsForTrigger(
 
     if (error) {
       console.error('[Registry] Error fetching automations:', error);
-      // Fall back to templates on error
-      return getDefaultTemplateAutomations(teamId).filter(
-        (a) => a.trigger?.type === triggerType || a.triggerType === triggerType
-      );
-    }
-
-    if (data && data.length > 0) {
-      // Map DB rows to AutomationDefinition
-      return data.map((row) => {
-        const definition = row.definition as Record<string, any>;
-        return {
-          id: row.id,
-          teamId: row.team_id,
-          name: row.name,
-          description: row.description || '',
-          isActive: row.is_active,
-          trigger: definition.trigger || { type: row.trigger_type, config: {} },
-          triggerType: row.trigger_type as TriggerType,
-          steps: definition.steps || [],
-          conditions: definition.conditions,
-          actions: definition.actions,
-        } as AutomationDefinition;
-      });
+      return [];
     }
 
-    // No automations found - fall back to templates
-    console.log('[Registry] No automations found for team, using templates');
-    return getDefaultTemplateAutomations(teamId).filter(
-      (a) => a.trigger?.type === triggerType || a.triggerType === triggerType
-    );
+    // Map DB rows to AutomationDefinition
+    return (data ?? []).map((row) => {
+      const definition = row.definition as Record<string, any>;
+      return {
+        id: row.id,
+        teamId: row.team_id,
+        name: row.name,
+        description: row.description || '',
+        isActive: row.is_active,
+        trigger: definition.trigger || { type: row.trigger_type, config: {} },
+        triggerType: row.trigger_type as TriggerType,
+        steps: definition.steps || [],
+        entryStepId: definition.entryStepId ?? null,
+        conditions: definition.conditions,
+        actions: definition.actions,
+      } as AutomationDefinition;
+    });
   } catch (err) {
     console.error('[Registry] Unexpected error:', err);
-    return getDefaultTemplateAutomations(teamId).filter(
-      (a) => a.trigger?.type === triggerType || a.triggerType === triggerType
-    );
+    return [];
   }
 }
 
@@ -117,8 +90,14 @@ export async function saveAutomation(
   const definition = JSON.parse(JSON.stringify({
     trigger: automation.trigger,
     steps: automation.steps,
+    entryStepId: automation.entryStepId ?? null,
+    nodes: automation.nodes,
+    edges: automation.edges,
     conditions: automation.conditions,
     actions: automation.actions,
+    enrollment: automation.enrollment,
+    goals: automation.goals,
+    exclusionGroup: automation.exclusionGroup,
   }));
 
   const payload = {
@@ -158,6 +137,26 @@ export async function saveAutomation(
   }
 }
 
+/**
+ * Validates and compiles a workflow graph, then saves it as an automation.
+ * Invalid workflows (cycles, unreachable nodes, multiple triggers, ...) are
+ * not saved; the validation errors are returned instead.
+ */
+export async function saveWorkflow(
+  workflow: WorkflowDefinition,
+  automationId?: string,
+): Promise<{ id: string | null; errors: WorkflowValidationError[] }> {
+  const { automation, errors } = compileWorkflow(workflow);
+  if (!automation) {
+    console.warn('[Registry] Workflow failed validation:', errors);
+    return { id: null, errors };
+  }
+
+  // Pass an existing automations.id to update in place; omit it to insert a new row.
+  const saved = await saveAutomation({ ...automation, id: automationId });
+  return { id: saved?.id ?? null, errors: [] };
+}
+
 /**
  * Deletes an automation from the database.
  */
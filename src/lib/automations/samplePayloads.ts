@@ -0,0 +1,162 @@
+// src/lib/automations/samplePayloads.ts
+import { supabase } from "@/integrations/supabase/client";
+import type { AutomationTriggerPayload } from "./triggerHelper";
+import type { TriggerType } from "./types";
+
+type EventPayload = AutomationTriggerPayload["eventPayload"];
+
+const SAMPLE_LEAD = {
+  id: "sample-lead",
+  name: "Jamie Sample",
+  first_name: "Jamie",
+  email: "jamie@example.com",
+  phone: "+15555550123",
+  status: "new",
+  tags: ["webinar"],
+  source: "Funnel: Sample Funnel",
+};
+
+/**
+ * Fake but realistic event payload for a trigger, used to test automations
+ * before they go live.
+ */
+export function getSamplePayload(triggerType: TriggerType): EventPayload {
+  const inTwoDays = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString();
+  const appointment = {
+    id: "sample-appointment",
+    lead_name: SAMPLE_LEAD.name,
+    lead_email: SAMPLE_LEAD.email,
+    lead_phone: SAMPLE_LEAD.phone,
+    start_at_utc: inTwoDays,
+    status: "NEW",
+    event_type_name: "Strategy Call",
+  };
+
+  switch (triggerType) {
+    case "lead_created":
+      return { lead: SAMPLE_LEAD };
+    case "lead_tag_added":
+      return { lead: SAMPLE_LEAD, meta: { tag: "webinar" } };
+    case "appointment_no_show":
+      return { lead: SAMPLE_LEAD, appointment: { ...appointment, status: "NO_SHOW" } };
+    case "appointment_completed":
+      return { lead: SAMPLE_LEAD, appointment: { ...appointment, status: "CLOSED" } };
+    case "appointment_cancelled":
+      return {
+        lead: SAMPLE_LEAD,
+        appointment: { ...appointment, status: "CANCELLED", pipeline_stage: "canceled" },
+        meta: { previous_status: "NEW" },
+      };
+    case "appointment_rescheduled":
+      return {
+        lead: SAMPLE_LEAD,
+        appointment: { ...appointment, reschedule_count: 1 },
+        meta: { previous_start_at_utc: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString() },
+      };
+    case "pipeline_stage_changed":
+      return {
+        lead: SAMPLE_LEAD,
+        appointment: { ...appointment, pipeline_stage: "showed" },
+        meta: { from_stage: "booked", to_stage: "showed" },
+      };
+    case "task_overdue":
+      return {
+        lead: SAMPLE_LEAD,
+        appointment,
+        meta: {
+          task: {
+            id: "sample-task",
+            task_type: "call_confirmation",
+            status: "pending",
+            due_at: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+          },
+        },
+      };
+    case "message_received":
+      return {
+        lead: SAMPLE_LEAD,
+        appointment,
+        meta: {
+          message: { id: "sample-message", body: "YES", from: SAMPLE_LEAD.phone, channel: "sms" },
+          intent: "confirm",
+        },
+      };
+    case "payment_received":
+    case "deposit_collected":
+      return {
+        lead: SAMPLE_LEAD,
+        payment: {
+          id: "sample-payment",
+          amount: triggerType === "deposit_collected" ? 500 : 3000,
+          currency: "usd",
+          type: triggerType === "deposit_collected" ? "deposit" : "initial",
+        },
+        deal: { id: "sample-appointment", cc_collected: 3000 },
+      };
+    default:
+      return { lead: SAMPLE_LEAD, appointment };
+  }
+}
+
+/**
+ * Most recent contacts of a team as automation payloads (for "test with a real lead").
+ */
+export async function getRecentLeadPayloads(
+  teamId: string,
+  limit = 10,
+): Promise<Array<{ id: string; label: string; payload: EventPayload }>> {
+  const { data, error } = await supabase
+    .from("contacts")
+    .select("id, name, email, phone, tags, source, custom_fields, opt_in, created_at")
+    .eq("team_id", teamId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("[samplePayloads] Failed to load contacts:", error);
+    return [];
+  }
+
+  return (data ?? []).map((contact) => ({
+    id: contact.id,
+    label: contact.name || contact.email || contact.phone || contact.id,
+    payload: {
+      lead: { ...contact, first_name: contact.name?.split(" ")[0] ?? null },
+    },
+  }));
+}
+
+/**
+ * Most recent appointments of a team as automation payloads, with the lead
+ * fields copied from the appointment.
+ */
+export async function getRecentAppointmentPayloads(
+  teamId: string,
+  limit = 10,
+): Promise<Array<{ id: string; label: string; payload: EventPayload }>> {
+  const { data, error } = await supabase
+    .from("appointments")
+    .select("*")
+    .eq("team_id", teamId)
+    .order("start_at_utc", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("[samplePayloads] Failed to load appointments:", error);
+    return [];
+  }
+
+  return (data ?? []).map((appointment) => ({
+    id: appointment.id,
+    label: `${appointment.lead_name} – ${new Date(appointment.start_at_utc).toLocaleString()}`,
+    payload: {
+      appointment,
+      lead: {
+        name: appointment.lead_name,
+        first_name: appointment.lead_name?.split(" ")[0] ?? null,
+        email: appointment.lead_email,
+        phone: appointment.lead_phone,
+      },
+    },
+  }));
+}
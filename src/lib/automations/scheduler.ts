@@ -1,36 +1,83 @@
 // src/lib/automations/scheduler.ts
+import { supabase } from '@/integrations/supabase/client';
 import type { TriggerType } from './types';
-import { runAutomationsForTrigger } from './engine';
+
+export type ScheduledAutomationJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
 
 export interface ScheduledAutomationJob {
   id: string;
   teamId: string;
+  automationId: string;
+  runId: string | null;
   triggerType: TriggerType;
   runAt: string; // ISO
+  /** Step the paused run continues from */
+  resumeStepId: string | null;
+  /** { context, eventId } captured when the run paused */
   payload: Record<string, any>;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: ScheduledAutomationJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+}
+
+type ScheduledAutomationJobRow = {
+  id: string;
+  team_id: string;
+  automation_id: string;
+  run_id: string | null;
+  trigger_type: string;
+  run_at: string;
+  resume_step_id: string | null;
+  payload: unknown;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+};
+
+function toScheduledJob(row: ScheduledAutomationJobRow): ScheduledAutomationJob {
+  return {
+    id: row.id,
+    teamId: row.team_id,
+    automationId: row.automation_id,
+    runId: row.run_id,
+    triggerType: row.trigger_type as TriggerType,
+    runAt: row.run_at,
+    resumeStepId: row.resume_step_id,
+    payload: (row.payload as ScheduledAutomationJob['payload']) ?? {},
+    status: row.status as ScheduledAutomationJobStatus,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    lastError: row.last_error,
+  };
 }
 
 /**
- * Time-based / delayed automations.
- * Later this will query a scheduled_automation_jobs table.
+ * Pending / running jobs for the given automation runs, keyed by run id.
+ * Used to show "waiting until …" next to paused runs.
  */
-export async function processDueAutomationJobs() {
-  console.warn('[scheduler] processDueAutomationJobs stub called');
-
-  const jobs: ScheduledAutomationJob[] = [];
-
-  for (const job of jobs) {
-    try {
-      await runAutomationsForTrigger({
-        teamId: job.teamId,
-        triggerType: job.triggerType,
-        eventPayload: job.payload,
-      });
-      // TODO: mark job as completed
-    } catch (error) {
-      console.error('[scheduler] job failed', { jobId: job.id, error });
-      // TODO: mark job as failed
-    }
+export async function getOpenJobsForRuns(
+  runIds: string[],
+): Promise<Record<string, ScheduledAutomationJob>> {
+  if (runIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('scheduled_automation_jobs')
+    .select('*')
+    .in('run_id', runIds)
+    .in('status', ['pending', 'running'])
+    .order('run_at', { ascending: true });
+
+  if (error) {
+    console.error('[scheduler] Error fetching scheduled jobs:', error);
+    return {};
+  }
+
+  const byRun: Record<string, ScheduledAutomationJob> = {};
+  for (const row of data ?? []) {
+    const job = toScheduledJob(row);
+    if (job.runId && !byRun[job.runId]) byRun[job.runId] = job;
   }
+  return byRun;
 }
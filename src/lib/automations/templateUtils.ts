@@ -1,27 +1,23 @@
 // src/lib/automations/templateUtils.ts
+//
+// Merge-field templates for automation messages. The engine lives in
+// supabase/functions/_shared so previews in the app render exactly what the
+// automation-trigger edge function sends.
+//
+// Example: "Hey {{lead.first_name | default: "there"}}, see you {{appointment.start_at_utc | datetime}}"
+export {
+  DATE_PRESETS,
+  TEMPLATE_CONFIG_KEYS,
+  TEMPLATE_FILTERS,
+  TEMPLATE_VARIABLES,
+  formatDate,
+  getTemplateValue,
+  getTemplateVariables,
+  isKnownTemplateVariable,
+  renderTemplate,
+  resolveTimeZone,
+  validateStepTemplates,
+  validateTemplate,
+} from '../../../supabase/functions/_shared/templateEngine';
 
-/**
- * Tiny merge-field engine for message templates.
- * Example: "Hey {{lead.first_name}}" with context { lead: { first_name: 'Joao' } }
- */
-
-export function renderTemplate(
-  template: string,
-  context: Record<string, any>,
-): string {
-  if (!template) return '';
-
-  return template.replace(/{{\s*([^}]+)\s*}}/g, (_, rawKey) => {
-    const key = String(rawKey).trim();
-    const value = get(context, key);
-
-    if (value === undefined || value === null) return '';
-    return String(value);
-  });
-}
-
-function get(obj: any, path: string): any {
-  return path
-    .split('.')
-    .reduce((acc, key) => (acc != null ? acc[key] : undefined), obj);
-}
+export type { TemplateIssue, TemplateIssueCode } from '../../../supabase/functions/_shared/templateEngine';
@@ -1,6 +1,7 @@
 // src/lib/automations/triggerHelper.ts
 import { supabase } from "@/integrations/supabase/client";
-import type { TriggerType } from "./types";
+import type { AutomationDefinition, TriggerType } from "./types";
+import type { ConditionGroupTrace } from "./conditions";
 
 export interface AutomationTriggerPayload {
   triggerType: TriggerType;
@@ -22,6 +23,22 @@ export interface StepExecutionLog {
   templateVariables?: Record<string, any>;
   skipped: boolean;
   skipReason?: string;
+  /** Set on condition steps of branching workflows */
+  branchTaken?: "true" | "false";
+  /** What the step's conditions compared, with the actual context values */
+  conditionTrace?: ConditionGroupTrace;
+  to?: string;
+  renderedBody?: string;
+  tag?: string;
+  entity?: "lead" | "deal";
+  ownerId?: string;
+  stageId?: string;
+  waitUntil?: string;
+  /** send_message held back by quiet hours until this time */
+  deferredUntil?: string;
+  error?: string;
+  /** Set on every step of a dry run; nothing was sent or written */
+  dryRun?: boolean;
 }
 
 export interface AutomationTriggerResponse {
@@ -46,16 +63,6 @@ export interface AutomationTriggerResponse {
  *   }
  * });
  *
- * @example
- * // When an appointment is booked
- * await runAutomationsForEvent({
- *   triggerType: 'appointment_booked',
- *   teamId: 'uuid-here',
- *   eventPayload: {
- *     lead: { name: 'John Doe', email: 'john@example.com' },
- *     appointment: { id: '...', start_at_utc: '2025-01-15T10:00:00Z' }
- *   }
- * });
  */
 export async function runAutomationsForEvent(
   payload: AutomationTriggerPayload
@@ -90,7 +97,45 @@ export async function runAutomationsForEvent(
 }
 
 /**
- * Convenience helpers for common trigger types
+ * Simulates an automation against a sample or real payload without sending
+ * or writing anything, and returns the step-by-step trace.
+ *
+ * Pass the (possibly unsaved) definition from the editor, or the id of a
+ * saved automation. Inactive automations can be tested too.
+ */
+export async function dryRunAutomation(params: {
+  teamId: string;
+  triggerType: TriggerType;
+  automation?: AutomationDefinition;
+  automationId?: string;
+  eventPayload: AutomationTriggerPayload["eventPayload"];
+}): Promise<AutomationTriggerResponse> {
+  const { data, error } = await supabase.functions.invoke("automation-trigger", {
+    body: { ...params, dryRun: true },
+  });
+
+  if (error) {
+    console.error("[dryRunAutomation] Edge function error:", error);
+    return {
+      status: "error",
+      triggerType: params.triggerType,
+      automationsRun: [],
+      stepsExecuted: [],
+      error: error.message,
+    };
+  }
+
+  return data as AutomationTriggerResponse;
+}
+
+/**
+ * Convenience helpers for events that only happen in the app.
+ *
+ * Appointment, pipeline, task and payment triggers (appointment_booked,
+ * appointment_rescheduled, appointment_cancelled, appointment_no_show,
+ * appointment_completed, pipeline_stage_changed, task_overdue,
+ * payment_received, deposit_collected) are emitted by database triggers
+ * whenever the underlying row changes, so don't invoke them from the client.
  */
 export const AutomationTriggers = {
   /**
@@ -112,74 +157,4 @@ export const AutomationTriggers = {
       teamId,
       eventPayload: { lead, meta: { tag } },
     }),
-
-  /**
-   * Trigger automations when an appointment is booked
-   */
-  onAppointmentBooked: (
-    teamId: string,
-    appointment: Record<string, any>,
-    lead?: Record<string, any>
-  ) =>
-    runAutomationsForEvent({
-      triggerType: "appointment_booked",
-      teamId,
-      eventPayload: { appointment, lead },
-    }),
-
-  /**
-   * Trigger automations when an appointment is rescheduled
-   */
-  onAppointmentRescheduled: (
-    teamId: string,
-    appointment: Record<string, any>,
-    lead?: Record<string, any>
-  ) =>
-    runAutomationsForEvent({
-      triggerType: "appointment_rescheduled",
-      teamId,
-      eventPayload: { appointment, lead },
-    }),
-
-  /**
-   * Trigger automations when a no-show occurs
-   */
-  onAppointmentNoShow: (
-    teamId: string,
-    appointment: Record<string, any>,
-    lead?: Record<string, any>
-  ) =>
-    runAutomationsForEvent({
-      triggerType: "appointment_no_show",
-      teamId,
-      eventPayload: { appointment, lead },
-    }),
-
-  /**
-   * Trigger automations when an appointment is completed
-   */
-  onAppointmentCompleted: (
-    teamId: string,
-    appointment: Record<string, any>,
-    lead?: Record<string, any>
-  ) =>
-    runAutomationsForEvent({
-      triggerType: "appointment_completed",
-      teamId,
-      eventPayload: { appointment, lead },
-    }),
-
-  /**
-   * Trigger automations when a payment is received
-   */
-  onPaymentReceived: (
-    teamId: string,
-    payment: Record<string, any>,
-    deal?: Record<string, any>
-  ) =>
-    runAutomationsForEvent({
-      triggerType: "payment_received",
-      teamId,
-      eventPayload: { payment, deal },
-    }),
 };
@@ -1,4 +1,7 @@
 // src/lib/automations/types.ts
+import type { AutomationCondition } from '../../../supabase/functions/_shared/automationRules';
+import type { AutomationEnrollmentSettings } from '../../../supabase/functions/_shared/automationEnrollment';
+import type { WorkflowEdge, WorkflowNode } from '../workflows/types';
 
 export type TriggerType =
   | 'lead_created'
@@ -7,7 +10,12 @@ export type TriggerType =
   | 'appointment_rescheduled'
   | 'appointment_no_show'
   | 'appointment_completed'
+  | 'appointment_cancelled'
+  | 'pipeline_stage_changed'
+  | 'task_overdue'
   | 'payment_received'
+  | 'deposit_collected'
+  | 'message_received'
   | 'time_delay';
 
 export type ActionType =
@@ -33,11 +41,24 @@ export interface UpdateStageConfig {
   stageId: string;
 }
 
-export interface AutomationCondition {
-  field: string; // e.g. 'lead.status'
-  operator: 'equals' | 'not_equals' | 'contains' | 'gt' | 'lt' | 'in';
-  value: string | number | string[];
-}
+// Conditions are a rule (field / operator / value) or a nested AND/OR group.
+// See supabase/functions/_shared/automationRules.ts for the supported operators.
+export type {
+  AutomationCondition,
+  ConditionGroup,
+  ConditionOperator,
+  ConditionRule,
+  ConditionValue,
+} from '../../../supabase/functions/_shared/automationRules';
+
+// Enrollment policy, goals and exclusion group; see
+// supabase/functions/_shared/automationEnrollment.ts.
+export type {
+  AutomationEnrollmentSettings,
+  AutomationGoal,
+  EnrollmentMode,
+  EnrollmentPolicy,
+} from '../../../supabase/functions/_shared/automationEnrollment';
 
 export interface AutomationActionConfig {
   type: ActionType;
@@ -49,15 +70,31 @@ export interface AutomationTrigger {
   config: Record<string, any>;
 }
 
+/** Step types the executor understands: every action plus branching condition steps. */
+export type StepType = ActionType | 'condition';
+
+export interface AutomationBranches {
+  /** Step to run when the condition passes (null ends the run) */
+  true: string | null;
+  /** Step to run when the condition fails (null ends the run) */
+  false: string | null;
+}
+
 export interface AutomationStep {
   id: string;
   order: number;
-  type: ActionType;
+  type: StepType;
   config: Record<string, any>;
   conditions?: AutomationCondition[];
+  /** Only used by condition steps */
+  logicOperator?: 'AND' | 'OR';
+  /** Graph wiring: the step that follows this one (null = end of branch) */
+  next?: string | null;
+  /** Graph wiring for condition steps */
+  branches?: AutomationBranches;
 }
 
-export interface AutomationDefinition {
+export interface AutomationDefinition extends AutomationEnrollmentSettings {
   id: string;
   teamId: string;
   name: string;
@@ -65,6 +102,18 @@ export interface AutomationDefinition {
   isActive: boolean;
   trigger: AutomationTrigger;
   steps: AutomationStep[];
+  /**
+   * Set when the automation was compiled from a branching workflow graph.
+   * The executor walks `next` / `branches` from this step instead of
+   * iterating `steps` by order.
+   */
+  entryStepId?: string | null;
+  /**
+   * Source graph of a compiled workflow, stored next to the steps so the
+   * canvas reopens it exactly as it was drawn. The executor ignores it.
+   */
+  nodes?: WorkflowNode[];
+  edges?: WorkflowEdge[];
   // Legacy fields for backwards compatibility
   triggerType?: TriggerType;
   triggerConfig?: Record<string, any>;
@@ -0,0 +1,165 @@
+// src/lib/automations/versions.ts
+//
+// Automation versions are recorded by the database on every save
+// (record_automation_version trigger), so nothing here writes them directly.
+// The app lists them, diffs two of them and rolls back to an older one.
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { AutomationCondition, AutomationDefinition, AutomationStep } from './types';
+import { isConditionGroup } from '../../../supabase/functions/_shared/automationRules';
+
+export type AutomationVersion = Database['public']['Tables']['automation_versions']['Row'];
+
+export interface FieldChange {
+  /** e.g. "name", "trigger.config.tag", "config.template", "branches.true" */
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface StepDiff {
+  stepId: string;
+  kind: 'added' | 'removed' | 'changed';
+  /** Step type after the change (before it, for removed steps) */
+  type: string;
+  changes: FieldChange[];
+}
+
+export interface AutomationVersionDiff {
+  /** name / description */
+  details: FieldChange[];
+  /** trigger type and config */
+  trigger: FieldChange[];
+  steps: StepDiff[];
+  /** Entry step, enrollment policy, goals, exclusion group */
+  settings: FieldChange[];
+  hasChanges: boolean;
+}
+
+/** JSON with sorted keys, so key order doesn't count as a change */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+function compareFields(before: object, after: object, keys: string[], prefix = ''): FieldChange[] {
+  const read = (value: object, key: string) => (value as Record<string, unknown> | null)?.[key];
+  return keys
+    .filter((key) => !isSame(read(before, key), read(after, key)))
+    .map((key) => ({ path: `${prefix}${key}`, before: read(before, key), after: read(after, key) }));
+}
+
+/** Every key of a config object, on either side */
+function compareObjects(before: object | undefined, after: object | undefined, prefix: string) {
+  const keys = [...new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])].sort();
+  return compareFields(before ?? {}, after ?? {}, keys, prefix);
+}
+
+function diffStep(before: AutomationStep, after: AutomationStep, ordered: boolean): FieldChange[] {
+  return [
+    ...compareFields(before, after, ['type', 'logicOperator', 'next']),
+    ...(ordered ? compareFields(before, after, ['order']) : []),
+    ...compareObjects(before.branches, after.branches, 'branches.'),
+    ...compareObjects(before.config, after.config, 'config.'),
+    ...(isSame(before.conditions ?? [], after.conditions ?? [])
+      ? []
+      : [{ path: 'conditions', before: before.conditions ?? [], after: after.conditions ?? [] }]),
+  ];
+}
+
+/**
+ * Structured diff between two versions. Steps are matched by id, which is
+ * stable across edits (node ids for workflows, step ids for JSON definitions).
+ */
+export function diffAutomationVersions(
+  from: Pick<AutomationVersion, 'name' | 'description' | 'trigger_type' | 'definition'>,
+  to: Pick<AutomationVersion, 'name' | 'description' | 'trigger_type' | 'definition'>,
+): AutomationVersionDiff {
+  const a = (from.definition ?? {}) as Partial<AutomationDefinition>;
+  const b = (to.definition ?? {}) as Partial<AutomationDefinition>;
+
+  const details = compareFields(from, to, ['name', 'description']);
+  const trigger = [
+    ...compareFields({ type: from.trigger_type }, { type: to.trigger_type }, ['type'], 'trigger.'),
+    ...compareObjects(a.trigger?.config, b.trigger?.config, 'trigger.config.'),
+  ];
+
+  // Linear definitions run by order, so moving a step is a real change there
+  const ordered = !a.entryStepId && !b.entryStepId;
+  const beforeSteps = new Map<string, AutomationStep>((a.steps ?? []).map((s) => [s.id, s]));
+  const afterSteps = new Map<string, AutomationStep>((b.steps ?? []).map((s) => [s.id, s]));
+  const steps: StepDiff[] = [];
+
+  for (const [id, step] of beforeSteps) {
+    if (!afterSteps.has(id)) steps.push({ stepId: id, kind: 'removed', type: step.type, changes: [] });
+  }
+  for (const [id, step] of afterSteps) {
+    const previous = beforeSteps.get(id);
+    if (!previous) {
+      steps.push({ stepId: id, kind: 'added', type: step.type, changes: [] });
+      continue;
+    }
+    const changes = diffStep(previous, step, ordered);
+    if (changes.length > 0) steps.push({ stepId: id, kind: 'changed', type: step.type, changes });
+  }
+
+  const settings = compareFields(a, b, ['entryStepId', 'enrollment', 'goals', 'exclusionGroup']);
+
+  return {
+    details,
+    trigger,
+    steps,
+    settings,
+    hasChanges: details.length + trigger.length + steps.length + settings.length > 0,
+  };
+}
+
+function formatCondition(condition: AutomationCondition): string {
+  if (isConditionGroup(condition)) {
+    return `(${condition.conditions.map(formatCondition).join(` ${condition.logic} `)})`;
+  }
+  const value = condition.value === undefined ? '' : ` ${JSON.stringify(condition.value)}`;
+  return `${condition.field} ${condition.operator}${value}`;
+}
+
+/** A diff value as one readable line; conditions read like "lead.source equals "ads"". */
+export function formatDiffValue(path: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (path === 'conditions' && Array.isArray(value)) {
+    return value.length > 0 ? (value as AutomationCondition[]).map(formatCondition).join(' AND ') : '—';
+  }
+  if (typeof value === 'string') return value;
+  return stableStringify(value);
+}
+
+export async function listAutomationVersions(automationId: string): Promise<AutomationVersion[]> {
+  const { data, error } = await supabase
+    .from('automation_versions')
+    .select('*')
+    .eq('automation_id', automationId)
+    .order('version_number', { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Makes an older version current again. The rollback is itself saved as a
+ * new version, so it can be undone the same way. Admins only.
+ */
+export async function rollbackAutomation(versionId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('rollback_automation', { p_version_id: versionId });
+  if (error) throw error;
+  return data;
+}
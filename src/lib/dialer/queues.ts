@@ -0,0 +1,263 @@
+// src/lib/dialer/queues.ts
+//
+// Working a power dialer queue from the app: claim the next contact, log the
+// call's disposition, skip or remove. Adding contacts goes through
+// PowerDialerClient so queues mirrored to an external dialer get the push too.
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { getActionPipelineMappings } from '../actionPipelineMappings';
+import {
+  DIALER_DISPOSITIONS,
+  planDisposition,
+  type DialerDisposition,
+  type DialerQueueProvider,
+  type DispositionPlan,
+} from '../../../supabase/functions/_shared/powerDialer';
+
+export {
+  DIALER_DISPOSITIONS,
+  DIALER_PROVIDER_LABELS,
+  DIALER_PROVIDER_INTEGRATIONS,
+  planDisposition,
+  splitContactName,
+  type DialerDisposition,
+  type DialerQueueProvider,
+  type DialerItemStatus,
+  type DispositionPlan,
+} from '../../../supabase/functions/_shared/powerDialer';
+
+export type DialerQueue = Database['public']['Tables']['dialer_queues']['Row'];
+export type DialerQueueItem = Database['public']['Tables']['dialer_queue_items']['Row'];
+export type DialerCall = Database['public']['Tables']['dialer_calls']['Row'];
+
+export interface DialerQueueWithCounts extends DialerQueue {
+  /** Pending items whose next attempt is due */
+  dueCount: number;
+  /** Pending items waiting on a callback time */
+  scheduledCount: number;
+  inProgressCount: number;
+}
+
+export async function listDialerQueues(teamId: string): Promise<DialerQueueWithCounts[]> {
+  const [{ data: queues, error }, { data: openItems, error: itemsError }] = await Promise.all([
+    supabase.from('dialer_queues').select('*').eq('team_id', teamId).order('name'),
+    supabase
+      .from('dialer_queue_items')
+      .select('queue_id, status, next_attempt_at')
+      .eq('team_id', teamId)
+      .in('status', ['pending', 'in_progress']),
+  ]);
+  if (error) throw error;
+  if (itemsError) throw itemsError;
+
+  const now = Date.now();
+  return (queues ?? []).map((queue) => {
+    const items = (openItems ?? []).filter((item) => item.queue_id === queue.id);
+    const pending = items.filter((item) => item.status === 'pending');
+    const due = pending.filter((item) => new Date(item.next_attempt_at).getTime() <= now);
+    return {
+      ...queue,
+      dueCount: due.length,
+      scheduledCount: pending.length - due.length,
+      inProgressCount: items.length - pending.length,
+    };
+  });
+}
+
+export async function saveDialerQueue(
+  teamId: string,
+  values: { id?: string; name: string; description?: string | null; provider: DialerQueueProvider; maxAttempts: number; isActive?: boolean },
+  userId?: string,
+): Promise<DialerQueue> {
+  const row = {
+    name: values.name.trim(),
+    description: values.description?.trim() || null,
+    provider: values.provider,
+    max_attempts: values.maxAttempts,
+    is_active: values.isActive ?? true,
+  };
+
+  const { data, error } = values.id
+    ? await supabase.from('dialer_queues').update(row).eq('id', values.id).select('*').single()
+    : await supabase
+        .from('dialer_queues')
+        .insert({ ...row, team_id: teamId, created_by: userId ?? null })
+        .select('*')
+        .single();
+
+  if (error) {
+    if (error.code === '23505') throw new Error(`A queue named "${row.name}" already exists`);
+    throw error;
+  }
+  return data;
+}
+
+/** Open items in a queue, in the order they'll be called */
+export async function listQueueItems(queueId: string, limit = 50): Promise<DialerQueueItem[]> {
+  const { data, error } = await supabase
+    .from('dialer_queue_items')
+    .select('*')
+    .eq('queue_id', queueId)
+    .in('status', ['pending', 'in_progress'])
+    .order('priority', { ascending: false })
+    .order('next_attempt_at', { ascending: true })
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** The caller's current item, or the next due one; null when nothing is due */
+export async function claimNextDialerItem(queueId: string): Promise<DialerQueueItem | null> {
+  const { data, error } = await supabase.rpc('claim_next_dialer_item', { p_queue_id: queueId });
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+/** Not now: back into the queue behind everything that's already due */
+export async function skipDialerItem(itemId: string): Promise<void> {
+  const { error } = await supabase
+    .from('dialer_queue_items')
+    .update({ status: 'pending', claimed_by: null, claimed_at: null, next_attempt_at: new Date().toISOString() })
+    .eq('id', itemId);
+  if (error) throw error;
+}
+
+/** Out of the queue for good, without a call */
+export async function removeDialerItem(itemId: string): Promise<void> {
+  const { error } = await supabase
+    .from('dialer_queue_items')
+    .update({ status: 'skipped', claimed_by: null, claimed_at: null })
+    .eq('id', itemId);
+  if (error) throw error;
+}
+
+export async function listItemCalls(itemId: string): Promise<DialerCall[]> {
+  const { data, error } = await supabase
+    .from('dialer_calls')
+    .select('*')
+    .eq('item_id', itemId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
+
+function describeCall(disposition: DialerDisposition, plan: DispositionPlan, notes: string): string {
+  const label = DIALER_DISPOSITIONS.find((d) => d.value === disposition)?.label ?? disposition;
+  let note = `${label} (power dialer)`;
+
+  if (plan.exhausted) {
+    note = `${label} - no retries left after ${plan.attempts} attempts`;
+  } else if (plan.status === 'in_progress') {
+    note = `${label} - double dial`;
+  } else if (plan.status === 'pending' && plan.nextAttemptAt) {
+    note = `${label} - retry scheduled for ${format(new Date(plan.nextAttemptAt), 'h:mm a')}`;
+  }
+  return notes ? `${note}: ${notes}` : note;
+}
+
+interface RecordDispositionParams {
+  teamId: string;
+  queue: Pick<DialerQueue, 'id' | 'max_attempts'>;
+  item: DialerQueueItem;
+  disposition: DialerDisposition;
+  /** From NoAnswerDialog for no answer / voicemail; 0 is a double dial */
+  retryMinutes?: number;
+  notes?: string;
+  userId: string;
+  actorName?: string;
+}
+
+/**
+ * Logs the call, moves the item on per planDisposition and, when the contact
+ * has an appointment, adds an activity_logs entry the same way the task views
+ * do for No Answer (including the team's no_answer pipeline mapping).
+ */
+export async function recordDialerDisposition({
+  teamId,
+  queue,
+  item,
+  disposition,
+  retryMinutes,
+  notes = '',
+  userId,
+  actorName = 'Team Member',
+}: RecordDispositionParams): Promise<DispositionPlan> {
+  const plan = planDisposition({
+    disposition,
+    attempts: item.attempts,
+    maxAttempts: queue.max_attempts,
+    retryMinutes,
+  });
+  const now = new Date().toISOString();
+
+  const { error: callError } = await supabase.from('dialer_calls').insert({
+    team_id: teamId,
+    queue_id: queue.id,
+    item_id: item.id,
+    caller_id: userId,
+    disposition,
+    notes: notes || null,
+    callback_at: plan.status === 'completed' ? null : plan.nextAttemptAt,
+  });
+  if (callError) throw callError;
+
+  const { error: itemError } = await supabase
+    .from('dialer_queue_items')
+    .update({
+      status: plan.status,
+      attempts: plan.attempts,
+      last_disposition: disposition,
+      last_called_at: now,
+      ...(plan.nextAttemptAt ? { next_attempt_at: plan.nextAttemptAt } : {}),
+      // A double dial stays with the caller
+      claimed_by: plan.status === 'in_progress' ? userId : null,
+      claimed_at: plan.status === 'in_progress' ? now : null,
+    })
+    .eq('id', item.id);
+  if (itemError) throw itemError;
+
+  if (item.appointment_id) {
+    if (disposition === 'no_answer') {
+      const mappings = await getActionPipelineMappings(teamId);
+      if (mappings.no_answer) {
+        await supabase
+          .from('appointments')
+          .update({ pipeline_stage: mappings.no_answer })
+          .eq('id', item.appointment_id);
+      }
+    }
+
+    const { error: logError } = await supabase.from('activity_logs').insert({
+      team_id: teamId,
+      appointment_id: item.appointment_id,
+      actor_id: userId,
+      actor_name: actorName,
+      action_type: DIALER_DISPOSITIONS.find((d) => d.value === disposition)?.label ?? disposition,
+      note: describeCall(disposition, plan, notes),
+    });
+    if (logError) console.error('[Dialer] Failed to log activity:', logError);
+  }
+
+  return plan;
+}
+
+/** Contacts with a phone number, for adding to a queue by hand */
+export async function searchDialableContacts(teamId: string, term: string) {
+  let query = supabase
+    .from('contacts')
+    .select('id, name, phone, email')
+    .eq('team_id', teamId)
+    .not('phone', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(20);
+
+  const search = term.trim().replace(/[%,()]/g, '');
+  if (search) query = query.or(`name.ilike.%${search}%,phone.ilike.%${search}%,email.ilike.%${search}%`);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data ?? [];
+}
@@ -1,43 +1,75 @@
 // src/lib/integrations/powerDialer.ts
+//
+// The dialer adapters (PhoneBurner, Close, mock) live in
+// supabase/functions/_shared so the power-dialer edge function can use the
+// team's credentials. The client below goes through that function; never
+// construct an adapter in the browser with a real API key.
+import { supabase } from '@/integrations/supabase/client';
+import type {
+  DialerContact,
+  DialerSessionResult,
+  EnqueueDialerResult,
+} from '../../../supabase/functions/_shared/powerDialer';
 
-export interface PowerDialerConfig {
-  provider: 'none' | 'phoneburner' | 'close' | 'custom' | string;
-  apiKey?: string;
-  baseUrl?: string;
+export {
+  PhoneBurnerAdapter,
+  CloseAdapter,
+  MockDialerAdapter,
+  createDialerAdapter,
+  type PowerDialerAdapter,
+  type PowerDialerConfig,
+  type DialerContact,
+  type DialerPushResult,
+  type DialerSessionResult,
+  type EnqueueDialerResult,
+} from '../../../supabase/functions/_shared/powerDialer';
+
+export interface PowerDialerClientOptions {
+  teamId: string;
+  queueId: string;
 }
 
-export interface DialerContact {
-  id?: string;
-  firstName?: string;
-  lastName?: string;
-  phone: string;
-  email?: string;
-  tags?: string[];
-  meta?: Record<string, any>;
+async function invokeDialer<T>(route: 'enqueue' | 'start-session', body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(`power-dialer/${route}`, { body });
+
+  if (error) {
+    // Non-2xx responses carry { error } in the body
+    const details = await (error as { context?: Response }).context?.json?.().catch(() => null);
+    throw new Error(details?.error ?? error.message);
+  }
+
+  return data as T;
 }
 
+/** One queue's dialer: in-app, or mirrored to the queue's external provider. */
 export class PowerDialerClient {
-  private cfg: PowerDialerConfig;
+  private opts: PowerDialerClientOptions;
 
-  constructor(cfg: PowerDialerConfig) {
-    this.cfg = cfg;
+  constructor(opts: PowerDialerClientOptions) {
+    this.opts = opts;
   }
 
-  async pushContact(contact: DialerContact): Promise<void> {
-    console.info('[PowerDialerClient] pushContact stub', {
-      provider: this.cfg.provider,
-      contact,
+  async pushContact(
+    contact: DialerContact & { contactId?: string; appointmentId?: string; priority?: number; automationId?: string },
+  ): Promise<EnqueueDialerResult> {
+    return invokeDialer<EnqueueDialerResult>('enqueue', {
+      teamId: this.opts.teamId,
+      queueId: this.opts.queueId,
+      phone: contact.phone,
+      name: [contact.firstName, contact.lastName].filter(Boolean).join(' ') || undefined,
+      email: contact.email,
+      contactId: contact.contactId,
+      appointmentId: contact.appointmentId,
+      priority: contact.priority,
+      automationId: contact.automationId,
     });
-
-    // TODO: implement provider-specific API call.
   }
 
-  async startCallSession(contactIds: string[]): Promise<void> {
-    console.info('[PowerDialerClient] startCallSession stub', {
-      provider: this.cfg.provider,
-      contactIds,
+  /** Opens the external dialer with the queue's due contacts (PhoneBurner, mock). */
+  async startCallSession(): Promise<DialerSessionResult> {
+    return invokeDialer<DialerSessionResult>('start-session', {
+      teamId: this.opts.teamId,
+      queueId: this.opts.queueId,
     });
-
-    // TODO: implement provider-specific API call.
   }
 }
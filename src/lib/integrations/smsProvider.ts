@@ -1,4 +1,5 @@
 // src/lib/integrations/smsProvider.ts
+import { dispatchMessage } from '../messaging/dispatcher';
 
 export type SmsProviderType = 'stub' | 'twilio' | string;
 
@@ -45,6 +46,29 @@ class StubSmsProvider implements SmsProvider {
   }
 }
 
+/**
+ * Sends through the team's Twilio integration via the send-message edge
+ * function; the credentials never reach the browser
+ */
+class TeamSmsProvider implements SmsProvider {
+  async sendSms(payload: SmsPayload): Promise<SmsSendResult> {
+    const result = await dispatchMessage({
+      teamId: payload.meta?.teamId ?? '',
+      channel: 'sms',
+      toPhone: payload.to,
+      text: payload.body,
+      metadata: payload.meta,
+    });
+
+    return {
+      provider: result.providerId ?? 'twilio',
+      messageId: result.providerMessageId ?? '',
+      status: result.success ? 'sent' : 'failed',
+      error: result.error,
+    };
+  }
+}
+
 /**
  * Build an SMS provider based on config
  * Easily extensible: just add new provider implementations
@@ -55,9 +79,7 @@ export function buildSmsProvider(config: SmsProviderConfig): SmsProvider {
       return new StubSmsProvider();
     
     case 'twilio':
-      // Placeholder for future Twilio implementation
-      console.warn('[SmsProvider] Twilio not implemented, falling back to stub');
-      return new StubSmsProvider();
+      return new TeamSmsProvider();
     
     default:
       console.warn(`[SmsProvider] Unknown provider "${config.provider}", using stub`);
@@ -1,31 +1,11 @@
 // src/lib/integrations/smsTwilio.ts
-
-export interface TwilioConfig {
-  accountSid: string;
-  authToken: string;
-  fromPhone: string;
-}
-
-/**
- * This is a LIGHTWEIGHT stub. It doesn't actually hit Twilio yet.
- * You can later replace the body of sendSms() with a real API call
- * from your backend / edge function.
- */
-export class TwilioClient {
-  private cfg: TwilioConfig;
-
-  constructor(cfg: TwilioConfig) {
-    this.cfg = cfg;
-  }
-
-  async sendSms(params: { to: string; body: string }): Promise<void> {
-    console.info('[TwilioClient] sendSms stub', {
-      from: this.cfg.fromPhone,
-      to: params.to,
-      body: params.body,
-    });
-
-    // TODO: implement real Twilio call via your server.
-    // Keep this empty on the front-end so builds never break.
-  }
-}
+//
+// The Twilio provider lives in supabase/functions/_shared so the edge
+// functions can send with the team's credentials. Never construct it in the
+// browser with a real auth token; send through dispatchMessage instead.
+export {
+  TwilioSmsProvider,
+  verifyTwilioSignature,
+  mapTwilioStatus,
+  type TwilioConfig,
+} from '../../../supabase/functions/_shared/messageProviders';
@@ -0,0 +1,148 @@
+// src/lib/integrations/webhookDeliveries.ts
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type {
+  WebhookAttemptResult,
+  WebhookDeliveryStatus,
+} from '../../../supabase/functions/_shared/webhookDelivery';
+
+export { generateSigningSecret } from '../../../supabase/functions/_shared/webhookDelivery';
+export type { WebhookAttemptResult, WebhookDeliveryStatus };
+
+export interface WebhookDelivery {
+  id: string;
+  teamId: string;
+  integrationId: string | null;
+  source: string;
+  eventType: string;
+  url: string;
+  requestBody: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  lastResponseStatus: number | null;
+  lastResponseBody: string | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+export interface WebhookDeliveryAttempt {
+  id: string;
+  attempt: number;
+  status: 'success' | 'error';
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  receivedAt: string;
+}
+
+// signing_secret is not readable by clients, so never select('*') here
+const DELIVERY_COLUMNS =
+  'id, team_id, integration_id, source, event_type, url, request_body, status, attempts, max_attempts, next_attempt_at, last_response_status, last_response_body, last_error, delivered_at, created_at';
+
+type DeliveryRow = Omit<
+  Database['public']['Tables']['webhook_deliveries']['Row'],
+  'request_headers' | 'signing_secret' | 'updated_at'
+>;
+
+function mapDelivery(row: DeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    teamId: row.team_id,
+    integrationId: row.integration_id,
+    source: row.source,
+    eventType: row.event_type,
+    url: row.url,
+    requestBody: row.request_body,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastResponseStatus: row.last_response_status,
+    lastResponseBody: row.last_response_body,
+    lastError: row.last_error,
+    deliveredAt: row.delivered_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Most recent deliveries for a team, optionally narrowed to one integration.
+ */
+export async function getWebhookDeliveries(params: {
+  teamId: string;
+  integrationId?: string;
+  limit?: number;
+}): Promise<WebhookDelivery[]> {
+  let query = supabase
+    .from('webhook_deliveries')
+    .select(DELIVERY_COLUMNS)
+    .eq('team_id', params.teamId)
+    .order('created_at', { ascending: false })
+    .limit(params.limit ?? 50);
+
+  if (params.integrationId) {
+    query = query.eq('integration_id', params.integrationId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('[webhookDeliveries] Failed to load deliveries:', error);
+    return [];
+  }
+  return (data ?? []).map(mapDelivery);
+}
+
+/**
+ * Individual HTTP attempts for a delivery, oldest first (from webhook_audit_logs).
+ */
+export async function getWebhookDeliveryAttempts(teamId: string, deliveryId: string): Promise<WebhookDeliveryAttempt[]> {
+  const { data, error } = await supabase
+    .from('webhook_audit_logs')
+    .select('id, status, details, received_at')
+    .eq('team_id', teamId)
+    .eq('event_type', 'webhook_delivery')
+    .eq('details->>delivery_id', deliveryId)
+    .order('received_at', { ascending: true });
+
+  if (error) {
+    console.error('[webhookDeliveries] Failed to load attempts:', error);
+    return [];
+  }
+
+  return (data ?? []).map((row) => {
+    const details = (row.details ?? {}) as {
+      attempt?: number;
+      response_status?: number | null;
+      response_body?: string | null;
+      error?: string | null;
+      duration_ms?: number | null;
+    };
+    return {
+      id: row.id,
+      attempt: details.attempt ?? 0,
+      status: row.status === 'success' ? 'success' : 'error',
+      responseStatus: details.response_status ?? null,
+      responseBody: details.response_body ?? null,
+      error: details.error ?? null,
+      durationMs: details.duration_ms ?? null,
+      receivedAt: row.received_at,
+    };
+  });
+}
+
+/**
+ * Re-sends a delivery right away (with a fresh retry budget).
+ */
+export async function redeliverWebhook(deliveryId: string): Promise<WebhookAttemptResult | null> {
+  const { data, error } = await supabase.functions.invoke('webhook-deliveries', {
+    body: { action: 'redeliver', deliveryId },
+  });
+
+  if (error) throw error;
+  if (data?.status !== 'ok') throw new Error(data?.error || 'Redelivery failed');
+  return data.result ?? null;
+}
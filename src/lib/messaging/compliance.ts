@@ -0,0 +1,40 @@
+// src/lib/messaging/compliance.ts
+//
+// The compliance guard itself runs server-side in sendTeamMessage; the app
+// manages the suppression list and the team's quiet hours / caps.
+import { supabase } from "@/integrations/supabase/client";
+import { normalizeAddress } from "../../../supabase/functions/_shared/messageCompliance";
+
+export {
+  DEFAULT_COMPLIANCE_CONFIG,
+  addressVariants,
+  normalizeAddress,
+  resolveComplianceConfig,
+} from "../../../supabase/functions/_shared/messageCompliance";
+export type { MessageComplianceConfig } from "../../../supabase/functions/_shared/messageCompliance";
+
+/**
+ * Adds a manual entry. Email addresses suppress email, anything else is
+ * treated as a phone number; both are normalized the way the guard looks
+ * them up.
+ */
+export async function addManualSuppression(teamId: string, rawAddress: string, note?: string): Promise<void> {
+  const channel = rawAddress.includes("@") ? "email" : "sms";
+  const address = normalizeAddress(channel, rawAddress);
+  if (channel === "sms" && address.length < 7) throw new Error("Enter a phone number or email address");
+
+  const { data: userData } = await supabase.auth.getUser();
+  const { error } = await supabase.from("message_suppressions").insert({
+    team_id: teamId,
+    channel,
+    address,
+    reason: "manual",
+    source: note?.trim() || null,
+    created_by: userData?.user?.id ?? null,
+  });
+
+  if (error) {
+    if (error.code === "23505") throw new Error("That address is already suppressed");
+    throw error;
+  }
+}
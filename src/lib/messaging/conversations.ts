@@ -0,0 +1,92 @@
+// src/lib/messaging/conversations.ts
+import { supabase } from "@/integrations/supabase/client";
+import { dispatchMessage } from "./dispatcher";
+import { addressVariants } from "./compliance";
+import type { MessageResult } from "./types";
+
+export interface ThreadMessage {
+  id: string;
+  direction: "inbound" | "outbound";
+  body: string;
+  createdAt: string;
+  /** Delivery status of outbound messages */
+  status?: string;
+  /** Keyword intent detected on inbound replies */
+  intent?: string | null;
+  /** Automation that sent an outbound message */
+  automationName?: string | null;
+}
+
+interface ThreadContact {
+  id: string;
+  phone: string | null;
+}
+
+/**
+ * A contact's SMS conversation: replies from inbound_messages merged with
+ * what automations and setters sent (message_logs), oldest first.
+ */
+export async function getContactThread(teamId: string, contact: ThreadContact): Promise<ThreadMessage[]> {
+  const variants = contact.phone ? addressVariants("sms", contact.phone) : [];
+  const quoted = variants.map((v) => `"${v}"`).join(",");
+
+  const inboundQuery = supabase
+    .from("inbound_messages")
+    .select("id, body, intent, created_at")
+    .eq("team_id", teamId)
+    .or(variants.length ? `contact_id.eq.${contact.id},from_address.in.(${quoted})` : `contact_id.eq.${contact.id}`)
+    .order("created_at", { ascending: false })
+    .limit(100);
+
+  const outboundQuery = variants.length
+    ? supabase
+        .from("message_logs")
+        .select("id, payload, status, created_at, automation:automations(name)")
+        .eq("team_id", teamId)
+        .eq("channel", "sms")
+        .in("to_address", variants)
+        .order("created_at", { ascending: false })
+        .limit(100)
+    : null;
+
+  const [inbound, outbound] = await Promise.all([inboundQuery, outboundQuery]);
+
+  if (inbound.error) console.error("[conversations] Failed to load inbound messages:", inbound.error);
+  if (outbound?.error) console.error("[conversations] Failed to load sent messages:", outbound.error);
+
+  const messages: ThreadMessage[] = [
+    ...(inbound.data ?? []).map((m) => ({
+      id: m.id,
+      direction: "inbound" as const,
+      body: m.body,
+      createdAt: m.created_at,
+      intent: m.intent,
+    })),
+    ...(outbound?.data ?? []).map((m) => ({
+      id: m.id,
+      direction: "outbound" as const,
+      body: String((m.payload as { body?: unknown } | null)?.body ?? ""),
+      createdAt: m.created_at,
+      status: m.status,
+      automationName: (m.automation as { name: string } | null)?.name ?? null,
+    })),
+  ];
+
+  return messages.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Manual reply from the contact drawer. Goes through the team's SMS
+ * providers like automation messages do, so it shows up in the thread.
+ */
+export async function sendContactReply(teamId: string, contact: ThreadContact, text: string): Promise<MessageResult> {
+  if (!contact.phone) return { success: false, error: "Contact has no phone number" };
+
+  return dispatchMessage({
+    teamId,
+    channel: "sms",
+    toPhone: contact.phone,
+    text,
+    metadata: { contactId: contact.id, source: "conversation" },
+  });
+}
@@ -1,10 +1,12 @@
 // src/lib/messaging/dispatcher.ts
+import { supabase } from "@/integrations/supabase/client";
 import type { OutboundMessage, MessageResult, MessageChannel } from "./types";
 import { getProvidersForChannel, registerMessageProvider } from "./providers";
 
 /**
  * Main entry to send messages from the rest of the app.
- * Uses the first configured provider for that channel.
+ * Tries the channel's providers in order and fails over to the next one when
+ * a provider errors.
  */
 export async function dispatchMessage(message: OutboundMessage): Promise<MessageResult> {
   const providers = getProvidersForChannel(message.channel);
@@ -17,15 +19,54 @@ export async function dispatchMessage(message: OutboundMessage): Promise<Message
     };
   }
 
-  return providers[0].send(message);
+  const errors: string[] = [];
+  for (const provider of providers) {
+    let result: MessageResult;
+    try {
+      result = await provider.send(message);
+    } catch (err) {
+      result = { success: false, providerId: provider.id, error: err instanceof Error ? err.message : "Unknown error" };
+    }
+
+    if (result.success) return result;
+
+    console.warn(`[dispatcher] ${provider.id} failed, trying next provider`, result.error);
+    errors.push(`${provider.id}: ${result.error}`);
+  }
+
+  return {
+    success: false,
+    providerId: providers[providers.length - 1].id,
+    error: errors.join("; "),
+  };
+}
+
+/**
+ * Sends through the team's own providers (Twilio, SendGrid, Resend, ...)
+ * configured in team_integrations. Credentials stay server-side; the
+ * send-message edge function does its own per-provider failover and writes
+ * message_logs.
+ */
+class TeamIntegrationsProvider {
+  id = "team_integrations";
+  channels: MessageChannel[] = ["sms", "email"];
+
+  async send(message: OutboundMessage): Promise<MessageResult> {
+    const { data, error } = await supabase.functions.invoke("send-message", { body: message });
+
+    if (error) {
+      return { success: false, providerId: this.id, error: error.message };
+    }
+    return data as MessageResult;
+  }
 }
 
 /**
- * Default "no-op" provider so nothing explodes in dev before you plug real APIs.
+ * Default "no-op" provider for channels without a real integration yet.
  */
 class NoopProvider {
   id = "noop";
-  channels: MessageChannel[] = ["sms", "email", "voice", "in_app"];
+  channels: MessageChannel[] = ["voice", "in_app"];
 
   async send(): Promise<MessageResult> {
     return {
@@ -35,5 +76,6 @@ class NoopProvider {
   }
 }
 
+registerMessageProvider(new TeamIntegrationsProvider());
 // Register noop provider immediately so automations don't crash in dev.
 registerMessageProvider(new NoopProvider());
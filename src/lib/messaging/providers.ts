@@ -1,17 +1,11 @@
 // src/lib/messaging/providers.ts
-import type { MessageChannel, OutboundMessage, MessageResult } from './types';
+import type { MessageChannel } from './types';
+import type { MessageProvider } from '../../../supabase/functions/_shared/messageProviders';
 
-export type MessageProviderId = string;
-
-export interface MessageProvider {
-  id: MessageProviderId;
-  label?: string;
-  channels: MessageChannel[];
-
-  send(message: OutboundMessage): Promise<MessageResult>;
-
-  sendBatch?(messages: OutboundMessage[]): Promise<MessageResult[]>;
-}
+export type {
+  MessageProvider,
+  MessageProviderId,
+} from '../../../supabase/functions/_shared/messageProviders';
 
 const registry: Partial<Record<MessageChannel, MessageProvider[]>> = {};
 
@@ -25,6 +19,10 @@ export function registerMessageProvider(provider: MessageProvider) {
   }
 }
 
+/**
+ * Registered providers for a channel, in registration order. The dispatcher
+ * treats the first as primary and fails over to the rest.
+ */
 export function getProvidersForChannel(
   channel: MessageChannel,
 ): MessageProvider[] {
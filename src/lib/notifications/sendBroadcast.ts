@@ -1,42 +1,205 @@
 // src/lib/notifications/sendBroadcast.ts
-import { dispatchMessage } from '../messaging/dispatcher';
-import type { MessageChannel } from '../messaging/types';
+//
+// Broadcast campaigns: an SMS or email with merge fields sent to a contact
+// audience, now or on a schedule. Delivery happens server-side in throttled
+// batches (supabase/functions/_shared/broadcastCampaigns.ts); the app edits
+// campaigns, previews the audience and reads back the totals.
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { isKnownTemplateVariable, renderTemplate, validateTemplate } from '../automations/templateUtils';
+import {
+  buildBroadcastContext,
+  type BroadcastAudience,
+  type BroadcastChannel,
+  type BroadcastContact,
+} from '../../../supabase/functions/_shared/broadcastCampaigns';
 
-export interface BroadcastRecipient {
-  leadId?: string;
-  toPhone?: string | null;
-  toEmail?: string | null;
-}
+export { buildBroadcastContext } from '../../../supabase/functions/_shared/broadcastCampaigns';
+export type {
+  BroadcastAudience,
+  BroadcastCampaignStatus,
+  BroadcastChannel,
+} from '../../../supabase/functions/_shared/broadcastCampaigns';
+
+export type BroadcastCampaign = Database['public']['Tables']['broadcast_campaigns']['Row'];
 
-export interface BroadcastConfig {
-  id: string;
-  teamId: string;
-  channel: MessageChannel; // 'sms' or 'email' for now
+export interface BroadcastDraft {
+  name: string;
+  channel: BroadcastChannel;
   subject?: string;
-  text: string;
-  html?: string;
-}
-
-/**
- * Sends a one-off or saved broadcast to a list of recipients.
- */
-export async function sendBroadcastToRecipients(
-  config: BroadcastConfig,
-  recipients: BroadcastRecipient[],
-) {
-  for (const rec of recipients) {
-    await dispatchMessage({
-      teamId: config.teamId,
-      channel: config.channel,
-      toPhone: rec.toPhone ?? undefined,
-      toEmail: rec.toEmail ?? undefined,
-      subject: config.subject,
-      text: config.text,
-      html: config.html,
-      metadata: {
-        broadcastId: config.id,
-        leadId: rec.leadId,
-      },
-    });
+  body: string;
+  audience: BroadcastAudience;
+  throttlePerMinute: number;
+}
+
+export interface AudiencePreview {
+  count: number;
+  sample: BroadcastContact[];
+}
+
+/** Merge fields a broadcast can use; there is no appointment or payment behind a recipient */
+export const BROADCAST_MERGE_FIELDS = [
+  'lead.first_name',
+  'lead.last_name',
+  'lead.name',
+  'lead.email',
+  'lead.phone',
+  'lead.source',
+  'team.name',
+];
+
+const AUDIENCE_SAMPLE_SIZE = 5;
+
+function isBroadcastVariable(path: string): boolean {
+  return (path.startsWith('lead.') || path.startsWith('team.') || path === 'now') && isKnownTemplateVariable(path);
+}
+
+/** Problems that block saving; empty when the draft is fine. */
+export function validateBroadcastDraft(draft: BroadcastDraft): string[] {
+  const problems: string[] = [];
+  if (!draft.name.trim()) problems.push('Give the campaign a name.');
+  if (!draft.body.trim()) problems.push('Write a message.');
+  if (draft.channel === 'email' && !draft.subject?.trim()) problems.push('Emails need a subject.');
+  if (!Number.isFinite(draft.throttlePerMinute) || draft.throttlePerMinute < 1 || draft.throttlePerMinute > 1000) {
+    problems.push('Send rate must be between 1 and 1000 per minute.');
+  }
+
+  const templates = draft.channel === 'email' ? [draft.subject, draft.body] : [draft.body];
+  for (const template of templates) {
+    for (const issue of validateTemplate(template, { isKnownVariable: isBroadcastVariable })) {
+      problems.push(issue.message);
+    }
   }
+  return problems;
+}
+
+/** The message as the first matching contact would get it. */
+export function renderBroadcastPreview(
+  draft: Pick<BroadcastDraft, 'subject' | 'body'>,
+  contact: BroadcastContact | null,
+  team: { id: string; name: string | null; timezone: string | null } | null,
+): { subject: string; body: string } {
+  const context = buildBroadcastContext(
+    contact ?? {
+      id: '',
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      phone: '+15555550100',
+      tags: [],
+      source: null,
+      opt_in: true,
+      timezone: null,
+      custom_fields: null,
+      created_at: new Date().toISOString(),
+    },
+    team,
+  );
+  return { subject: renderTemplate(draft.subject, context), body: renderTemplate(draft.body, context) };
+}
+
+export async function previewBroadcastAudience(
+  teamId: string,
+  channel: BroadcastChannel,
+  audience: BroadcastAudience,
+): Promise<AudiencePreview> {
+  const { data, count, error } = await supabase
+    .rpc(
+      'resolve_broadcast_audience',
+      { p_team_id: teamId, p_channel: channel, p_audience: audience as unknown as Json },
+      { count: 'exact' },
+    )
+    .select('id, name, email, phone, tags, source, opt_in, timezone, custom_fields, created_at')
+    .limit(AUDIENCE_SAMPLE_SIZE);
+
+  if (error) throw error;
+  return { count: count ?? 0, sample: (data ?? []) as BroadcastContact[] };
+}
+
+export async function listBroadcastCampaigns(teamId: string): Promise<BroadcastCampaign[]> {
+  const { data, error } = await supabase
+    .from('broadcast_campaigns')
+    .select('*')
+    .eq('team_id', teamId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** Creates or updates a draft / scheduled campaign. */
+export async function saveBroadcastCampaign(
+  teamId: string,
+  draft: BroadcastDraft,
+  campaignId?: string,
+): Promise<BroadcastCampaign> {
+  const row = {
+    name: draft.name.trim(),
+    channel: draft.channel,
+    subject: draft.channel === 'email' ? draft.subject?.trim() || null : null,
+    body: draft.body,
+    audience: draft.audience as unknown as Json,
+    throttle_per_minute: Math.round(draft.throttlePerMinute),
+  };
+
+  if (campaignId) {
+    const { data, error } = await supabase
+      .from('broadcast_campaigns')
+      .update(row)
+      .eq('id', campaignId)
+      .in('status', ['draft', 'scheduled'])
+      .select('*')
+      .single();
+    if (error) throw error;
+    return data;
+  }
+
+  const { data: userData } = await supabase.auth.getUser();
+  const { data, error } = await supabase
+    .from('broadcast_campaigns')
+    .insert({ ...row, team_id: teamId, created_by: userData?.user?.id ?? null })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/** Queues the campaign for process-automation-jobs; null moves it back to draft. */
+export async function scheduleBroadcastCampaign(campaignId: string, scheduledAt: Date | null): Promise<void> {
+  if (scheduledAt && scheduledAt.getTime() <= Date.now()) {
+    throw new Error('Pick a time in the future, or send now');
+  }
+
+  const { error } = await supabase
+    .from('broadcast_campaigns')
+    .update(
+      scheduledAt
+        ? { status: 'scheduled', scheduled_at: scheduledAt.toISOString() }
+        : { status: 'draft', scheduled_at: null },
+    )
+    .eq('id', campaignId)
+    .in('status', ['draft', 'scheduled']);
+  if (error) throw error;
+}
+
+/** Starts the campaign immediately; the first batch goes out before this resolves. */
+export async function sendBroadcastNow(campaignId: string): Promise<{ status: string; sent: number }> {
+  const { data, error } = await supabase.functions.invoke('send-broadcast', { body: { campaignId } });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to send campaign');
+  return { status: data.status, sent: data.sent ?? 0 };
+}
+
+/** Stops a scheduled or sending campaign; recipients not yet messaged are dropped. */
+export async function cancelBroadcastCampaign(campaignId: string): Promise<void> {
+  const { error } = await supabase
+    .from('broadcast_campaigns')
+    .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+    .eq('id', campaignId)
+    .in('status', ['scheduled', 'sending']);
+  if (error) throw error;
+}
+
+export async function deleteBroadcastCampaign(campaignId: string): Promise<void> {
+  const { error } = await supabase.from('broadcast_campaigns').delete().eq('id', campaignId);
+  if (error) throw error;
 }
@@ -1,66 +1,130 @@
 // src/lib/notifications/sendReminder.ts
-import { dispatchMessage } from '../messaging/dispatcher';
-import type { MessageChannel } from '../messaging/types';
+//
+// Appointment reminder sequences. Reminders are planned, re-timed and sent
+// server-side (supabase/functions/_shared/appointmentReminders.ts); the app
+// edits the team's sequence and shows what is still due for an appointment.
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { isKnownTemplateVariable, renderTemplate, validateTemplate } from '../automations/templateUtils';
+import {
+  buildReminderContext,
+  resolveReminderConfig,
+  type AppointmentReminderConfig,
+  type ReminderStep,
+} from '../../../supabase/functions/_shared/appointmentReminders';
 
-export interface ReminderContext {
-  teamId: string;
-  leadId?: string;
-  appointmentId?: string;
-  toPhone?: string | null;
-  toEmail?: string | null;
-  startsAt?: string; // ISO timestamp
-  label?: string; // e.g. 'strategy call'
+export {
+  DEFAULT_REMINDER_CONFIG,
+  describeReminderOffset,
+  resolveReminderConfig,
+} from '../../../supabase/functions/_shared/appointmentReminders';
+export type {
+  AppointmentReminderConfig,
+  AppointmentReminderStatus,
+  ReminderStep,
+} from '../../../supabase/functions/_shared/appointmentReminders';
+
+export type AppointmentReminder = Database['public']['Tables']['appointment_reminders']['Row'];
+
+function isReminderVariable(path: string): boolean {
+  return (
+    (path.startsWith('appointment.') || path.startsWith('lead.') || path.startsWith('team.') || path === 'now') &&
+    isKnownTemplateVariable(path)
+  );
+}
+
+/** Problems that block saving; empty when the sequence is fine. */
+export function validateReminderConfig(config: AppointmentReminderConfig): string[] {
+  const problems: string[] = [];
+  const offsets = new Set<number>();
+
+  config.steps.forEach((step, index) => {
+    const label = `Reminder ${index + 1}`;
+    if (!Number.isFinite(step.offsetMinutes) || step.offsetMinutes < 1) {
+      problems.push(`${label}: send it at least a minute before the call.`);
+    } else if (offsets.has(step.offsetMinutes)) {
+      problems.push(`${label}: another reminder already goes out at that time.`);
+    }
+    offsets.add(step.offsetMinutes);
+
+    if (!step.template.trim()) problems.push(`${label}: write a message.`);
+    const templates = step.channel === 'email' ? [step.subject ?? '', step.template] : [step.template];
+    for (const template of templates) {
+      for (const issue of validateTemplate(template, { isKnownVariable: isReminderVariable })) {
+        problems.push(`${label}: ${issue.message}`);
+      }
+    }
+  });
+
+  return problems;
+}
+
+/** A step key that isn't taken yet, e.g. "t-2h" or "t-2h-2". */
+export function createReminderStepKey(offsetMinutes: number, steps: ReminderStep[]): string {
+  const base = offsetMinutes % 60 === 0 ? `t-${offsetMinutes / 60}h` : `t-${offsetMinutes}m`;
+  const taken = new Set(steps.map((s) => s.key));
+  let key = base;
+  for (let n = 2; taken.has(key); n++) key = `${base}-${n}`;
+  return key;
+}
+
+/** The reminder as a sample invitee would get it. */
+export function renderReminderPreview(
+  step: Pick<ReminderStep, 'template'>,
+  team: { id: string; name: string | null; timezone: string | null } | null,
+): string {
+  const startAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  startAt.setMinutes(0, 0, 0);
+  const context = buildReminderContext(
+    {
+      id: '',
+      team_id: team?.id ?? '',
+      lead_name: 'Jane Doe',
+      lead_email: 'jane@example.com',
+      lead_phone: '+15555550100',
+      start_at_utc: startAt.toISOString(),
+      event_type_name: 'Strategy Call',
+      meeting_link: 'https://zoom.us/j/123456789',
+      reschedule_url: 'https://calendly.com/reschedulings/example',
+      timezone: null,
+    },
+    team,
+  );
+  return renderTemplate(step.template, context);
+}
+
+export async function getTeamReminderConfig(teamId: string): Promise<AppointmentReminderConfig> {
+  const { data, error } = await supabase
+    .from('teams')
+    .select('appointment_reminder_config')
+    .eq('id', teamId)
+    .single();
+
+  if (error) throw error;
+  return resolveReminderConfig(data.appointment_reminder_config);
 }
 
 /**
- * Generic reminder sender. You can use this for:
- * - appointment reminders
- * - payment reminders
- * - onboarding reminders, etc.
+ * Added steps only apply to appointments booked from now on. Removed or
+ * re-timed steps also affect reminders already scheduled, since the worker
+ * reads the current sequence before sending.
  */
-export async function sendReminder(
-  channel: MessageChannel,
-  ctx: ReminderContext,
-) {
-  const text =
-    ctx.label && ctx.startsAt
-      ? `Reminder: your ${ctx.label} is scheduled at ${ctx.startsAt}.`
-      : `Reminder about your upcoming call.`;
-
-  if (channel === 'sms') {
-    if (!ctx.toPhone) return;
-    await dispatchMessage({
-      teamId: ctx.teamId,
-      channel: 'sms',
-      toPhone: ctx.toPhone,
-      text,
-      metadata: {
-        type: 'reminder',
-        leadId: ctx.leadId,
-        appointmentId: ctx.appointmentId,
-      },
-    });
-    return;
-  }
+export async function saveTeamReminderConfig(teamId: string, config: AppointmentReminderConfig): Promise<void> {
+  const { error } = await supabase
+    .from('teams')
+    .update({ appointment_reminder_config: config as unknown as Json })
+    .eq('id', teamId);
+  if (error) throw error;
+}
 
-  if (channel === 'email') {
-    if (!ctx.toEmail) return;
-    await dispatchMessage({
-      teamId: ctx.teamId,
-      channel: 'email',
-      toEmail: ctx.toEmail,
-      subject: 'Reminder for your upcoming call',
-      text,
-      html: `<p>${text}</p>`,
-      metadata: {
-        type: 'reminder',
-        leadId: ctx.leadId,
-        appointmentId: ctx.appointmentId,
-      },
-    });
-    return;
-  }
+/** Reminders for one appointment, soonest first. */
+export async function getAppointmentReminders(appointmentId: string): Promise<AppointmentReminder[]> {
+  const { data, error } = await supabase
+    .from('appointment_reminders')
+    .select('*')
+    .eq('appointment_id', appointmentId)
+    .order('send_at', { ascending: true });
 
-  // voice / in_app can be wired later
-  console.info('[sendReminder] unsupported channel for now', channel);
+  if (error) throw error;
+  return data ?? [];
 }
@@ -0,0 +1,268 @@
+// src/lib/workflows/canvas.ts
+//
+// Graph editing helpers for the workflow canvas. Everything here is pure:
+// functions take a WorkflowDefinition and return a new one.
+import type { ActionType, AutomationDefinition, AutomationStep, TriggerType } from '../automations/types';
+import type { BranchLabel } from './validation';
+import type {
+  WorkflowActionNode,
+  WorkflowConditionNode,
+  WorkflowDefinition,
+  WorkflowEdge,
+  WorkflowNode,
+  WorkflowNodeKind,
+  WorkflowTriggerNode,
+} from './types';
+
+export const CANVAS_NODE_WIDTH = 220;
+export const CANVAS_NODE_HEIGHT = 76;
+const COLUMN_GAP = 60;
+const ROW_GAP = 56;
+
+export interface CanvasPosition {
+  x: number;
+  y: number;
+}
+
+/** Row shape of the automations table the canvas loads from */
+export interface AutomationRowLike {
+  id: string;
+  team_id: string;
+  name: string;
+  description: string | null;
+  trigger_type: string;
+  is_active: boolean;
+  definition: Partial<AutomationDefinition> | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function uniqueId(prefix: string, taken: Set<string>, separator = '-'): string {
+  let i = taken.size + 1;
+  while (taken.has(`${prefix}${separator}${i}`)) i++;
+  return `${prefix}${separator}${i}`;
+}
+
+export type NewNodeSpec =
+  | { kind: 'trigger'; triggerType: TriggerType; label: string }
+  | { kind: 'action'; actionType: ActionType; label: string; config?: WorkflowActionNode['config'] }
+  | { kind: 'condition'; label: string };
+
+/** Adds a node at the given position; ids follow the sampleWorkflows style (action-3, e4). */
+export function addNode(
+  workflow: WorkflowDefinition,
+  spec: NewNodeSpec,
+  position: CanvasPosition,
+): { workflow: WorkflowDefinition; nodeId: string } {
+  const id = uniqueId(spec.kind, new Set(workflow.nodes.map((n) => n.id)));
+  const base = { id, label: spec.label, x: Math.round(position.x), y: Math.round(position.y) };
+
+  let node: WorkflowNode;
+  if (spec.kind === 'trigger') {
+    node = { ...base, kind: 'trigger', triggerType: spec.triggerType } satisfies WorkflowTriggerNode;
+  } else if (spec.kind === 'action') {
+    node = { ...base, kind: 'action', actionType: spec.actionType, config: spec.config ?? {} } satisfies WorkflowActionNode;
+  } else {
+    node = { ...base, kind: 'condition', conditions: [], logicOperator: 'AND' } satisfies WorkflowConditionNode;
+  }
+
+  return { workflow: { ...workflow, nodes: [...workflow.nodes, node] }, nodeId: id };
+}
+
+export function updateNode(
+  workflow: WorkflowDefinition,
+  nodeId: string,
+  patch: Partial<WorkflowNode>,
+): WorkflowDefinition {
+  return {
+    ...workflow,
+    nodes: workflow.nodes.map((n) => (n.id === nodeId ? ({ ...n, ...patch } as WorkflowNode) : n)),
+  };
+}
+
+export function moveNode(workflow: WorkflowDefinition, nodeId: string, position: CanvasPosition): WorkflowDefinition {
+  return updateNode(workflow, nodeId, { x: Math.round(position.x), y: Math.round(position.y) });
+}
+
+/** Removes a node and every connection touching it. */
+export function removeNode(workflow: WorkflowDefinition, nodeId: string): WorkflowDefinition {
+  return {
+    ...workflow,
+    nodes: workflow.nodes.filter((n) => n.id !== nodeId),
+    edges: workflow.edges.filter((e) => e.fromNodeId !== nodeId && e.toNodeId !== nodeId),
+  };
+}
+
+export function removeEdge(workflow: WorkflowDefinition, edgeId: string): WorkflowDefinition {
+  return { ...workflow, edges: workflow.edges.filter((e) => e.id !== edgeId) };
+}
+
+/**
+ * Connects two nodes. Triggers and actions have a single outgoing
+ * connection and conditions one per branch, so an existing connection from
+ * the same output is replaced rather than duplicated. Returns the workflow
+ * unchanged for connections validation would reject outright (self loops,
+ * into a trigger).
+ */
+export function connectNodes(
+  workflow: WorkflowDefinition,
+  fromNodeId: string,
+  toNodeId: string,
+  label?: BranchLabel,
+): WorkflowDefinition {
+  const from = workflow.nodes.find((n) => n.id === fromNodeId);
+  const to = workflow.nodes.find((n) => n.id === toNodeId);
+  if (!from || !to || from.id === to.id || to.kind === 'trigger') return workflow;
+
+  const branch = from.kind === 'condition' ? label ?? 'true' : undefined;
+  const replaced = workflow.edges.filter(
+    (e) => !(e.fromNodeId === fromNodeId && (branch ? e.label?.trim().toLowerCase() === branch : true)),
+  );
+
+  const edge: WorkflowEdge = {
+    id: uniqueId('e', new Set(workflow.edges.map((e) => e.id)), ''),
+    fromNodeId,
+    toNodeId,
+    ...(branch ? { label: branch } : {}),
+  };
+  return { ...workflow, edges: [...replaced, edge] };
+}
+
+/**
+ * Gives nodes without coordinates a position: columns by distance from the
+ * trigger, condition branches side by side. Nodes that already have x / y
+ * keep them.
+ */
+export function layoutWorkflow(workflow: WorkflowDefinition): WorkflowDefinition {
+  if (workflow.nodes.every((n) => typeof n.x === 'number' && typeof n.y === 'number')) return workflow;
+
+  const depth = new Map<string, number>();
+  const trigger = workflow.nodes.find((n) => n.kind === 'trigger');
+  const queue = trigger ? [trigger.id] : [];
+  if (trigger) depth.set(trigger.id, 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const edge of workflow.edges.filter((e) => e.fromNodeId === id)) {
+      if (depth.has(edge.toNodeId)) continue;
+      depth.set(edge.toNodeId, depth.get(id)! + 1);
+      queue.push(edge.toNodeId);
+    }
+  }
+
+  // Unconnected nodes go below the graph
+  const maxDepth = Math.max(0, ...depth.values());
+  const rows = new Map<number, number>();
+  const nodes = workflow.nodes.map((node) => {
+    if (typeof node.x === 'number' && typeof node.y === 'number') return node;
+    const level = depth.get(node.id) ?? maxDepth + 1;
+    const column = rows.get(level) ?? 0;
+    rows.set(level, column + 1);
+    return {
+      ...node,
+      x: 40 + column * (CANVAS_NODE_WIDTH + COLUMN_GAP),
+      y: 40 + level * (CANVAS_NODE_HEIGHT + ROW_GAP),
+    };
+  });
+
+  return { ...workflow, nodes };
+}
+
+/**
+ * Rebuilds a graph from compiled steps, for automations created before the
+ * canvas (JSON editor, templates) that only stored trigger + steps.
+ */
+function stepsToGraph(
+  definition: Partial<AutomationDefinition>,
+  triggerType: string,
+): Pick<WorkflowDefinition, 'nodes' | 'edges'> {
+  const steps: AutomationStep[] = [...(definition.steps ?? [])].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  const trigger: WorkflowTriggerNode = {
+    id: 'trigger-1',
+    kind: 'trigger',
+    label: 'Trigger',
+    triggerType: (definition.trigger?.type ?? triggerType) as TriggerType,
+    ...(definition.trigger?.config && Object.keys(definition.trigger.config).length > 0
+      ? { config: definition.trigger.config }
+      : {}),
+  };
+
+  const nodes: WorkflowNode[] = [trigger];
+  const edges: WorkflowEdge[] = [];
+  const addEdge = (fromNodeId: string, toNodeId: string | null | undefined, label?: string) => {
+    if (!toNodeId) return;
+    edges.push({ id: `e${edges.length + 1}`, fromNodeId, toNodeId, ...(label ? { label } : {}) });
+  };
+
+  const isGraph = definition.entryStepId !== undefined && definition.entryStepId !== null;
+  for (const [index, step] of steps.entries()) {
+    if (step.type === 'condition') {
+      nodes.push({
+        id: step.id,
+        kind: 'condition',
+        label: step.config?.label ?? 'Condition',
+        ...(step.config?.description ? { description: step.config.description } : {}),
+        conditions: step.conditions ?? [],
+        logicOperator: step.logicOperator ?? 'AND',
+      });
+      addEdge(step.id, step.branches?.true, 'true');
+      addEdge(step.id, step.branches?.false, 'false');
+      continue;
+    }
+
+    const config = { ...step.config };
+    if (step.conditions && !config.conditions) config.conditions = step.conditions;
+    nodes.push({ id: step.id, kind: 'action', label: step.config?.label ?? step.type, actionType: step.type, config });
+    // Linear (legacy) definitions run in order
+    addEdge(step.id, isGraph ? step.next : steps[index + 1]?.id);
+  }
+
+  addEdge(trigger.id, isGraph ? definition.entryStepId : steps[0]?.id);
+  return { nodes, edges };
+}
+
+/**
+ * The workflow for an automations row. Rows saved from the canvas (or a
+ * workflow JSON) carry their nodes / edges in the definition and come back
+ * exactly as saved; older rows are rebuilt from their steps. Nodes may lack
+ * coordinates; run layoutWorkflow before drawing.
+ */
+export function automationRowToWorkflow(row: AutomationRowLike): WorkflowDefinition {
+  const definition = row.definition ?? {};
+  const graph =
+    Array.isArray(definition.nodes) && Array.isArray(definition.edges)
+      ? { nodes: definition.nodes as WorkflowNode[], edges: definition.edges as WorkflowEdge[] }
+      : stepsToGraph(definition, row.trigger_type);
+
+  return {
+    id: row.id,
+    teamId: row.team_id,
+    name: row.name,
+    ...(row.description ? { description: row.description } : {}),
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    ...graph,
+    ...(definition.enrollment ? { enrollment: definition.enrollment } : {}),
+    ...(Array.isArray(definition.goals) ? { goals: definition.goals } : {}),
+    ...(definition.exclusionGroup ? { exclusionGroup: definition.exclusionGroup } : {}),
+  };
+}
+
+/** An empty workflow with just a trigger, for "New workflow" on the canvas */
+export function createEmptyWorkflow(teamId: string): WorkflowDefinition {
+  const now = new Date().toISOString();
+  return {
+    id: '',
+    teamId,
+    name: 'Untitled workflow',
+    isActive: true,
+    createdAt: now,
+    updatedAt: now,
+    nodes: [{ id: 'trigger-1', kind: 'trigger', label: 'New Lead Created', triggerType: 'lead_created', x: 40, y: 40 }],
+    edges: [],
+  };
+}
+
+export function getNodeKindLabel(kind: WorkflowNodeKind): string {
+  return kind === 'trigger' ? 'Trigger' : kind === 'condition' ? 'Condition' : 'Action';
+}
@@ -0,0 +1,78 @@
+// src/lib/workflows/palette.ts
+//
+// What can be dropped on the workflow canvas, with the config a fresh node
+// starts from.
+import type { ActionType, TriggerType } from '../automations/types';
+import type { NewNodeSpec } from './canvas';
+import type { WorkflowActionNode } from './types';
+
+export type PaletteGroup = 'Triggers' | 'Actions' | 'Logic';
+
+export type PaletteItem = NewNodeSpec & { key: string; group: PaletteGroup };
+
+export const TRIGGER_LABELS: Record<TriggerType, string> = {
+  lead_created: 'New Lead Created',
+  lead_tag_added: 'Lead Tag Added',
+  appointment_booked: 'Appointment Booked',
+  appointment_rescheduled: 'Appointment Rescheduled',
+  appointment_no_show: 'Appointment No Show',
+  appointment_completed: 'Appointment Completed',
+  appointment_cancelled: 'Appointment Cancelled',
+  pipeline_stage_changed: 'Pipeline Stage Changed',
+  task_overdue: 'Task Overdue',
+  payment_received: 'Payment Received',
+  deposit_collected: 'Deposit Collected',
+  message_received: 'Message Received',
+  time_delay: 'Time Delay',
+};
+
+export const ACTION_LABELS: Record<ActionType, string> = {
+  send_message: 'Send Message',
+  add_task: 'Add Task',
+  add_tag: 'Add Tag',
+  notify_team: 'Notify Team',
+  enqueue_dialer: 'Add to Dialer',
+  time_delay: 'Wait',
+  custom_webhook: 'Webhook',
+  assign_owner: 'Assign Owner',
+  update_stage: 'Update Stage',
+};
+
+const ACTION_ITEMS: Array<{ actionType: ActionType; label: string; config: WorkflowActionNode['config'] }> = [
+  { actionType: 'send_message', label: 'Send SMS', config: { channel: 'sms', template: '' } },
+  { actionType: 'send_message', label: 'Send Email', config: { channel: 'email', subject: '', template: '' } },
+  { actionType: 'notify_team', label: 'Notify Team', config: { message: '' } },
+  { actionType: 'add_task', label: 'Add Task', config: { taskType: 'follow_up', followUpInHours: 24 } },
+  { actionType: 'add_tag', label: 'Add Tag', config: { tag: '' } },
+  { actionType: 'assign_owner', label: 'Assign Owner', config: { entity: 'lead', ownerId: '' } },
+  { actionType: 'update_stage', label: 'Update Stage', config: { entity: 'lead', stageId: '' } },
+  { actionType: 'enqueue_dialer', label: 'Add to Dialer', config: { queueName: '' } },
+  { actionType: 'custom_webhook', label: 'Webhook', config: { url: '' } },
+];
+
+export const PALETTE_ITEMS: PaletteItem[] = [
+  ...(Object.entries(TRIGGER_LABELS) as [TriggerType, string][])
+    .filter(([triggerType]) => triggerType !== 'time_delay')
+    .map(([triggerType, label]): PaletteItem => ({
+      key: `trigger:${triggerType}`,
+      group: 'Triggers',
+      kind: 'trigger',
+      triggerType,
+      label,
+    })),
+  ...ACTION_ITEMS.map((item, index): PaletteItem => ({
+    key: `action:${item.actionType}:${index}`,
+    group: 'Actions',
+    kind: 'action',
+    ...item,
+  })),
+  { key: 'condition', group: 'Logic', kind: 'condition', label: 'Condition' },
+  {
+    key: 'delay',
+    group: 'Logic',
+    kind: 'action',
+    actionType: 'time_delay',
+    label: 'Wait 1 hour',
+    config: { delayHours: 1 },
+  },
+];
@@ -0,0 +1,338 @@
+// src/lib/workflows/portable.ts
+//
+// Portable JSON format for sharing and backing up workflows, and for the
+// template gallery. A file holds one or more workflows:
+//
+//   {
+//     "format": "workflow-export",
+//     "version": 1,
+//     "exportedAt": "2026-01-26T09:00:00.000Z",
+//     "workflows": [
+//       { "key": "new-lead-nurture", "name": "...", "nodes": [...], "edges": [...],
+//         "enrollment": {...}, "goals": [...], "exclusionGroup": "..." }
+//     ],
+//     "references": [{ "kind": "user", "id": "8c1f...", "label": "Jane Doe" }]
+//   }
+//
+// Workflows carry no team, id, active flag or timestamps; those are set when
+// importing, and imports always start inactive. Step configs can still point
+// at team-specific records (see TEAM_REFERENCE_FIELDS). `references` lists
+// them with a readable label so the importing team can map each one onto
+// its own users, stages and integrations. Webhook credentials never leave
+// the team: a custom_webhook step's "secret" and header values are exported
+// as "" and the importer asks for them again (see findSecretFields).
+//
+// Bump WORKFLOW_EXPORT_VERSION when the shape changes and teach
+// parseWorkflowExport to upgrade older files.
+import type { ActionType } from '../automations/types';
+import type { WorkflowActionNode, WorkflowDefinition, WorkflowNode } from './types';
+import { validateWorkflow } from './validation';
+
+export const WORKFLOW_EXPORT_FORMAT = 'workflow-export';
+export const WORKFLOW_EXPORT_VERSION = 1;
+
+export type PortableWorkflow = Omit<WorkflowDefinition, 'id' | 'teamId' | 'isActive' | 'createdAt' | 'updatedAt'> & {
+  /** Unique within the file; the original workflow id or a template slug */
+  key: string;
+  /** Groups templates in the gallery */
+  category?: string;
+};
+
+export type TeamReferenceKind = 'user' | 'stage' | 'integration';
+
+export interface ExportedReference {
+  kind: TeamReferenceKind;
+  id: string;
+  label?: string;
+}
+
+export interface WorkflowExportFile {
+  format: typeof WORKFLOW_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  workflows: PortableWorkflow[];
+  references?: ExportedReference[];
+}
+
+/** Step config keys that hold an id only meaningful inside one team */
+export const TEAM_REFERENCE_FIELDS: Array<{ actionType: ActionType; configKey: string; kind: TeamReferenceKind }> = [
+  { actionType: 'assign_owner', configKey: 'ownerId', kind: 'user' },
+  { actionType: 'notify_team', configKey: 'userId', kind: 'user' },
+  { actionType: 'update_stage', configKey: 'stageId', kind: 'stage' },
+  { actionType: 'custom_webhook', configKey: 'integrationId', kind: 'integration' },
+];
+
+export interface TeamReference extends ExportedReference {
+  /** `${kind}:${id}`, the key used in a ReferenceMapping */
+  key: string;
+  usages: Array<{ workflowKey: string; workflowName: string; nodeId: string; nodeLabel: string }>;
+}
+
+/** Reference key → id in the importing team; '' leaves the field empty */
+export type ReferenceMapping = Record<string, string>;
+
+/** A webhook credential blanked on export */
+export interface SecretField {
+  /** `${workflowKey}:${nodeId}:${name}`, the key used in SecretValues */
+  key: string;
+  workflowKey: string;
+  workflowName: string;
+  nodeId: string;
+  nodeLabel: string;
+  /** 'secret' for the signing secret, else `header:<header name>` */
+  name: string;
+}
+
+/** Secret field key → value for the importing team; '' leaves it out */
+export type SecretValues = Record<string, string>;
+
+export function getReferenceKey(kind: TeamReferenceKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+function referenceFieldsFor(node: WorkflowNode) {
+  if (node.kind !== 'action') return [];
+  return TEAM_REFERENCE_FIELDS.filter((field) => field.actionType === node.actionType);
+}
+
+function isWebhookNode(node: WorkflowNode): node is WorkflowActionNode {
+  return node.kind === 'action' && node.actionType === 'custom_webhook';
+}
+
+function webhookHeaders(config: Record<string, unknown>): Record<string, unknown> | null {
+  const headers = config.headers;
+  return headers && typeof headers === 'object' && !Array.isArray(headers) ? (headers as Record<string, unknown>) : null;
+}
+
+/** Keeps which credentials a webhook step uses, without their values */
+function redactWebhookSecrets(node: WorkflowNode): WorkflowNode {
+  if (!isWebhookNode(node) || !node.config) return node;
+  const config = { ...node.config };
+  if (typeof config.secret === 'string' && config.secret) config.secret = '';
+  const headers = webhookHeaders(config);
+  if (headers) config.headers = Object.fromEntries(Object.keys(headers).map((name) => [name, '']));
+  return { ...node, config };
+}
+
+function collectReferences(
+  workflows: Array<Pick<PortableWorkflow, 'key' | 'name' | 'nodes'>>,
+  labels: ExportedReference[] = [],
+): TeamReference[] {
+  const found = new Map<string, TeamReference>();
+  for (const workflow of workflows) {
+    for (const node of workflow.nodes ?? []) {
+      for (const field of referenceFieldsFor(node)) {
+        const id = (node as WorkflowActionNode).config?.[field.configKey];
+        if (typeof id !== 'string' || !id.trim()) continue;
+
+        const key = getReferenceKey(field.kind, id);
+        const reference = found.get(key) ?? {
+          key,
+          kind: field.kind,
+          id,
+          label: labels.find((l) => l.kind === field.kind && l.id === id)?.label,
+          usages: [],
+        };
+        reference.usages.push({
+          workflowKey: workflow.key,
+          workflowName: workflow.name,
+          nodeId: node.id,
+          nodeLabel: node.label,
+        });
+        found.set(key, reference);
+      }
+    }
+  }
+  return [...found.values()];
+}
+
+/**
+ * Builds an export file. `describeReference` supplies readable labels for the
+ * team ids found in step configs (owner names, stage labels, ...).
+ */
+export function exportWorkflows(
+  workflows: WorkflowDefinition[],
+  describeReference?: (kind: TeamReferenceKind, id: string) => string | undefined,
+): WorkflowExportFile {
+  const portable = workflows.map((workflow): PortableWorkflow => {
+    const { id, teamId: _teamId, isActive: _isActive, createdAt: _createdAt, updatedAt: _updatedAt, ...rest } = workflow;
+    const nodes = (rest.nodes ?? []).map(redactWebhookSecrets);
+    return JSON.parse(JSON.stringify({ key: id || rest.name, ...rest, nodes }));
+  });
+
+  // Keys must be unique for the importer to tell workflows apart
+  const seen = new Set<string>();
+  for (const workflow of portable) {
+    let key = workflow.key;
+    for (let n = 2; seen.has(key); n++) key = `${workflow.key}-${n}`;
+    workflow.key = key;
+    seen.add(key);
+  }
+
+  const references = collectReferences(portable).map(({ kind, id }): ExportedReference => {
+    const label = describeReference?.(kind, id);
+    return label ? { kind, id, label } : { kind, id };
+  });
+
+  return {
+    format: WORKFLOW_EXPORT_FORMAT,
+    version: WORKFLOW_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    workflows: portable,
+    ...(references.length > 0 ? { references } : {}),
+  };
+}
+
+export function serializeWorkflowExport(file: WorkflowExportFile): string {
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads an export file. Returns null with the problems when the file isn't
+ * in the format, comes from a newer version, or holds invalid workflows.
+ */
+export function parseWorkflowExport(text: string): { file: WorkflowExportFile | null; errors: string[] } {
+  let raw: { [K in keyof WorkflowExportFile]?: unknown } | null;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { file: null, errors: ['The file is not valid JSON.'] };
+  }
+
+  if (!raw || typeof raw !== 'object' || raw.format !== WORKFLOW_EXPORT_FORMAT) {
+    return { file: null, errors: ['This is not a workflow export file.'] };
+  }
+  if (typeof raw.version !== 'number' || raw.version > WORKFLOW_EXPORT_VERSION) {
+    return { file: null, errors: [`Export version ${raw.version} is newer than this app supports; update and try again.`] };
+  }
+  if (!Array.isArray(raw.workflows) || raw.workflows.length === 0) {
+    return { file: null, errors: ['The file has no workflows.'] };
+  }
+
+  const errors: string[] = [];
+  const keys = new Set<string>();
+  const workflows = raw.workflows as Array<Partial<PortableWorkflow> | null>;
+  workflows.forEach((workflow, index) => {
+    const name = typeof workflow?.name === 'string' && workflow.name.trim() ? workflow.name : `Workflow ${index + 1}`;
+    if (!Array.isArray(workflow?.nodes) || !Array.isArray(workflow?.edges)) {
+      errors.push(`"${name}": missing nodes or edges.`);
+      return;
+    }
+    if (typeof workflow.key !== 'string' || !workflow.key || keys.has(workflow.key)) {
+      errors.push(`"${name}": every workflow needs its own "key".`);
+      return;
+    }
+    keys.add(workflow.key);
+    const checked = workflow as PortableWorkflow;
+    for (const problem of validateWorkflow({ ...checked, id: checked.key, teamId: '', isActive: false, createdAt: '', updatedAt: '' })) {
+      errors.push(`"${name}": ${problem.message}`);
+    }
+  });
+
+  if (errors.length > 0) return { file: null, errors };
+  return {
+    file: {
+      format: WORKFLOW_EXPORT_FORMAT,
+      version: raw.version,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      workflows: workflows as PortableWorkflow[],
+      references: Array.isArray(raw.references) ? (raw.references as ExportedReference[]) : [],
+    },
+    errors: [],
+  };
+}
+
+/** Team-specific ids used by the given workflows of a file, one entry per distinct id */
+export function findTeamReferences(file: WorkflowExportFile, workflowKeys?: string[]): TeamReference[] {
+  const workflows = workflowKeys ? file.workflows.filter((w) => workflowKeys.includes(w.key)) : file.workflows;
+  return collectReferences(workflows, file.references);
+}
+
+/** Webhook credentials the given workflows of a file need filled in */
+export function findSecretFields(file: WorkflowExportFile, workflowKeys?: string[]): SecretField[] {
+  const workflows = workflowKeys ? file.workflows.filter((w) => workflowKeys.includes(w.key)) : file.workflows;
+  const fields: SecretField[] = [];
+  for (const workflow of workflows) {
+    for (const node of workflow.nodes ?? []) {
+      if (!isWebhookNode(node) || !node.config) continue;
+      const names = [
+        ...(node.config.secret === '' ? ['secret'] : []),
+        ...Object.entries(webhookHeaders(node.config) ?? {})
+          .filter(([, value]) => value === '')
+          .map(([header]) => `header:${header}`),
+      ];
+      for (const name of names) {
+        fields.push({
+          key: `${workflow.key}:${node.id}:${name}`,
+          workflowKey: workflow.key,
+          workflowName: workflow.name,
+          nodeId: node.id,
+          nodeLabel: node.label,
+          name,
+        });
+      }
+    }
+  }
+  return fields;
+}
+
+/** Fills blanked webhook credentials from `secrets`; ones still empty are dropped */
+function restoreWebhookSecrets(node: WorkflowNode, workflowKey: string, secrets: SecretValues): WorkflowNode {
+  if (!isWebhookNode(node) || !node.config) return node;
+  const config = { ...node.config };
+  if (config.secret === '') {
+    const secret = secrets[`${workflowKey}:${node.id}:secret`];
+    if (secret) config.secret = secret;
+    else delete config.secret;
+  }
+  const headers = webhookHeaders(config);
+  if (headers) {
+    config.headers = Object.fromEntries(
+      Object.entries(headers)
+        .map(([header, value]) => [header, value === '' ? secrets[`${workflowKey}:${node.id}:header:${header}`] ?? '' : value])
+        .filter(([, value]) => value !== ''),
+    );
+  }
+  return { ...node, config };
+}
+
+/**
+ * A new, inactive WorkflowDefinition for the team, with team references
+ * swapped through `mapping` and webhook credentials filled from `secrets`.
+ * References missing from the mapping keep their original id, which is right
+ * when re-importing into the same team.
+ */
+export function instantiateWorkflow(
+  workflow: PortableWorkflow,
+  teamId: string,
+  mapping: ReferenceMapping = {},
+  secrets: SecretValues = {},
+): WorkflowDefinition {
+  const { key, category: _category, ...rest } = JSON.parse(JSON.stringify(workflow)) as PortableWorkflow;
+  const now = new Date().toISOString();
+
+  const nodes = rest.nodes.map((original) => {
+    const node = restoreWebhookSecrets(original, key, secrets);
+    const fields = referenceFieldsFor(node);
+    if (fields.length === 0) return node;
+
+    const config = { ...(node as WorkflowActionNode).config };
+    for (const field of fields) {
+      const id = config[field.configKey];
+      if (typeof id !== 'string' || !id) continue;
+      const mapped = mapping[getReferenceKey(field.kind, id)];
+      if (mapped !== undefined) config[field.configKey] = mapped;
+    }
+    return { ...node, config } as WorkflowNode;
+  });
+
+  return {
+    ...rest,
+    id: '',
+    teamId,
+    isActive: false,
+    createdAt: now,
+    updatedAt: now,
+    nodes,
+  };
+}
@@ -1,61 +1,208 @@
 // src/lib/workflows/sampleTemplates.ts
 import type { WorkflowDefinition } from './types';
+import { WORKFLOW_EXPORT_FORMAT, WORKFLOW_EXPORT_VERSION, type WorkflowExportFile } from './portable';
 
 /**
- * Opinionated starter workflows you can show in the UI
- * when a new team/workspace joins.
+ * Opinionated starter workflows for the template gallery, in the same
+ * portable format teams export and import. Installing one goes through the
+ * import flow, so stage references are remapped like any other file.
  */
+export const workflowTemplates: WorkflowExportFile = {
+  format: WORKFLOW_EXPORT_FORMAT,
+  version: WORKFLOW_EXPORT_VERSION,
+  exportedAt: '2026-01-26T00:00:00.000Z',
+  workflows: [
+    {
+      key: 'lead-nurture-new-lead',
+      category: 'Lead nurture',
+      name: 'New Lead – 2-Day Nurture',
+      description: 'Sends a welcome SMS and a follow-up reminder for new leads.',
+      nodes: [
+        {
+          id: 'trigger-1',
+          kind: 'trigger',
+          label: 'New Lead Created',
+          triggerType: 'lead_created',
+        },
+        {
+          id: 'action-1',
+          kind: 'action',
+          label: 'Send welcome SMS',
+          actionType: 'send_message',
+          config: {
+            channel: 'sms',
+            template: "Hey {{lead.first_name}}, it's {{team.name}}. Got your info – reply YES to confirm.",
+          },
+        },
+        {
+          id: 'action-2',
+          kind: 'action',
+          label: 'Follow-up after 1 day',
+          actionType: 'time_delay',
+          config: {
+            delayHours: 24,
+          },
+        },
+        {
+          id: 'action-3',
+          kind: 'action',
+          label: 'Second SMS',
+          actionType: 'send_message',
+          config: {
+            channel: 'sms',
+            template: "Still interested in working with us, {{lead.first_name}}?",
+          },
+        },
+      ],
+      edges: [
+        { id: 'e1', fromNodeId: 'trigger-1', toNodeId: 'action-1' },
+        { id: 'e2', fromNodeId: 'action-1', toNodeId: 'action-2' },
+        { id: 'e3', fromNodeId: 'action-2', toNodeId: 'action-3' },
+      ],
+      goals: [{ trigger: 'appointment_booked' }],
+    },
+    {
+      key: 'no-show-recovery',
+      category: 'Appointments',
+      name: 'No-Show Recovery',
+      description: 'Moves the deal to No-Show and texts the lead a rebooking link, twice.',
+      nodes: [
+        {
+          id: 'trigger-1',
+          kind: 'trigger',
+          label: 'Appointment No Show',
+          triggerType: 'appointment_no_show',
+        },
+        {
+          id: 'action-1',
+          kind: 'action',
+          label: 'Move deal to No-Show',
+          actionType: 'update_stage',
+          config: { entity: 'deal', stageId: 'no_show' },
+        },
+        {
+          id: 'action-2',
+          kind: 'action',
+          label: 'Rebook SMS',
+          actionType: 'send_message',
+          config: {
+            channel: 'sms',
+            template: 'Hey {{lead.first_name}}, sorry we missed you! Want to grab another time?',
+          },
+        },
+        {
+          id: 'action-3',
+          kind: 'action',
+          label: 'Wait 2 days',
+          actionType: 'time_delay',
+          config: { delayDays: 2 },
+        },
+        {
+          id: 'action-4',
+          kind: 'action',
+          label: 'Last-chance SMS',
+          actionType: 'send_message',
+          config: {
+            channel: 'sms',
+            template: "Last check-in from {{team.name}} – reply here and we'll find a time that works.",
+          },
+        },
+      ],
+      edges: [
+        { id: 'e1', fromNodeId: 'trigger-1', toNodeId: 'action-1' },
+        { id: 'e2', fromNodeId: 'action-1', toNodeId: 'action-2' },
+        { id: 'e3', fromNodeId: 'action-2', toNodeId: 'action-3' },
+        { id: 'e4', fromNodeId: 'action-3', toNodeId: 'action-4' },
+      ],
+      enrollment: { mode: 'once_per_period', periodDays: 30 },
+      goals: [{ trigger: 'appointment_booked' }, { trigger: 'appointment_rescheduled' }],
+    },
+    {
+      key: 'booking-confirmation',
+      category: 'Appointments',
+      name: 'Booking Confirmation',
+      description: 'Emails the lead a confirmation and lets the team know a call was booked.',
+      nodes: [
+        {
+          id: 'trigger-1',
+          kind: 'trigger',
+          label: 'Appointment Booked',
+          triggerType: 'appointment_booked',
+        },
+        {
+          id: 'action-1',
+          kind: 'action',
+          label: 'Confirmation email',
+          actionType: 'send_message',
+          config: {
+            channel: 'email',
+            subject: "You're booked with {{team.name}}",
+            template: 'Hi {{lead.first_name}}, your call is confirmed. Reply to this email if anything changes.',
+          },
+        },
+        {
+          id: 'action-2',
+          kind: 'action',
+          label: 'Notify team',
+          actionType: 'notify_team',
+          config: { message: 'New call booked: {{lead.first_name}} {{lead.last_name}}' },
+        },
+      ],
+      edges: [
+        { id: 'e1', fromNodeId: 'trigger-1', toNodeId: 'action-1' },
+        { id: 'e2', fromNodeId: 'action-1', toNodeId: 'action-2' },
+      ],
+    },
+    {
+      key: 'payment-closed-won',
+      category: 'Sales',
+      name: 'Payment → Closed',
+      description: 'Marks the deal as closed when a payment comes in and thanks the customer.',
+      nodes: [
+        {
+          id: 'trigger-1',
+          kind: 'trigger',
+          label: 'Payment Received',
+          triggerType: 'payment_received',
+        },
+        {
+          id: 'action-1',
+          kind: 'action',
+          label: 'Move deal to Closed',
+          actionType: 'update_stage',
+          config: { entity: 'deal', stageId: 'won' },
+        },
+        {
+          id: 'action-2',
+          kind: 'action',
+          label: 'Thank-you SMS',
+          actionType: 'send_message',
+          config: {
+            channel: 'sms',
+            template: "Thanks {{lead.first_name}}! Payment received – welcome aboard from everyone at {{team.name}}.",
+          },
+        },
+      ],
+      edges: [
+        { id: 'e1', fromNodeId: 'trigger-1', toNodeId: 'action-1' },
+        { id: 'e2', fromNodeId: 'action-1', toNodeId: 'action-2' },
+      ],
+    },
+  ],
+  references: [
+    { kind: 'stage', id: 'no_show', label: 'No-Show' },
+    { kind: 'stage', id: 'won', label: 'Closed' },
+  ],
+};
 
-export const sampleWorkflows: WorkflowDefinition[] = [
-  {
-    id: 'lead-nurture-new-lead',
+/** The templates as plain WorkflowDefinitions, for the canvas "Start from a template" picker. */
+export const sampleWorkflows: WorkflowDefinition[] = workflowTemplates.workflows.map(
+  ({ key, category: _category, ...workflow }) => ({
+    ...workflow,
+    id: key,
     teamId: 'TEMPLATE',
-    name: 'New Lead – 2-Day Nurture',
-    description: 'Sends a welcome SMS and a follow-up reminder for new leads.',
     isActive: true,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-    nodes: [
-      {
-        id: 'trigger-1',
-        kind: 'trigger',
-        label: 'New Lead Created',
-        triggerType: 'lead_created',
-      },
-      {
-        id: 'action-1',
-        kind: 'action',
-        label: 'Send welcome SMS',
-        actionType: 'send_message',
-        config: {
-          channel: 'sms',
-          template: "Hey {{lead.first_name}}, it's {{team.name}}. Got your info – reply YES to confirm.",
-        },
-      },
-      {
-        id: 'action-2',
-        kind: 'action',
-        label: 'Follow-up after 1 day',
-        actionType: 'time_delay',
-        config: {
-          delayHours: 24,
-        },
-      },
-      {
-        id: 'action-3',
-        kind: 'action',
-        label: 'Second SMS',
-        actionType: 'send_message',
-        config: {
-          channel: 'sms',
-          template: "Still interested in working with us, {{lead.first_name}}?",
-        },
-      },
-    ],
-    edges: [
-      { id: 'e1', fromNodeId: 'trigger-1', toNodeId: 'action-1' },
-      { id: 'e2', fromNodeId: 'action-1', toNodeId: 'action-2' },
-      { id: 'e3', fromNodeId: 'action-2', toNodeId: 'action-3' },
-    ],
-  },
-];
+    createdAt: workflowTemplates.exportedAt,
+    updatedAt: workflowTemplates.exportedAt,
+  }),
+);
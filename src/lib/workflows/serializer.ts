@@ -1,64 +1,127 @@
 // src/lib/workflows/serializer.ts
-import type { WorkflowDefinition, WorkflowNode } from './types';
+import type {
+  WorkflowDefinition,
+  WorkflowNode,
+  WorkflowTriggerNode,
+  WorkflowValidationError,
+} from './types';
 import type {
   AutomationDefinition,
   AutomationStep,
   AutomationCondition,
 } from '../automations/types';
+import { getOutgoingEdges, validateWorkflow } from './validation';
+
+export interface CompiledWorkflow {
+  automation: AutomationDefinition | null;
+  errors: WorkflowValidationError[];
+}
 
 /**
  * Finds the first trigger node in a workflow.
- * Right now we assume a single trigger per workflow.
+ * Validation guarantees there is exactly one before we compile.
  */
-function findTriggerNode(nodes: WorkflowNode[]): WorkflowNode | undefined {
-  return nodes.find((n) => n.kind === 'trigger');
+function findTriggerNode(nodes: WorkflowNode[]): WorkflowTriggerNode | undefined {
+  return nodes.find((n): n is WorkflowTriggerNode => n.kind === 'trigger');
 }
 
 /**
- * Naive transformer that maps a WorkflowDefinition into
- * a single AutomationDefinition the engine can execute.
+ * Validates and compiles a WorkflowDefinition graph into an AutomationDefinition.
  *
- * Later you can make this more advanced (branching, multiple steps, etc.)
+ * Every action / condition node becomes a step whose id is the node id.
+ * Steps are wired together through `next` (actions) and `branches`
+ * (conditions), and `entryStepId` points at the node the trigger connects to.
+ * `order` follows a breadth-first walk from the trigger so linear workflows
+ * still read top-to-bottom.
  */
-export function workflowToAutomation(
-  workflow: WorkflowDefinition,
-): AutomationDefinition | null {
-  const triggerNode = findTriggerNode(workflow.nodes);
-  if (!triggerNode || triggerNode.kind !== 'trigger') return null;
+export function compileWorkflow(workflow: WorkflowDefinition): CompiledWorkflow {
+  const errors = validateWorkflow(workflow);
+  if (errors.length > 0) return { automation: null, errors };
 
-  const baseAutomation: AutomationDefinition = {
-    id: workflow.id,
-    teamId: workflow.teamId,
-    name: workflow.name,
-    description: workflow.description ?? '',
-    isActive: workflow.isActive,
-    trigger: {
-      type: triggerNode.triggerType,
-      config: triggerNode.config ?? {},
-    },
-    steps: [],
-  };
+  const triggerNode = findTriggerNode(workflow.nodes)!;
+  const nodesById = new Map(workflow.nodes.map((n) => [n.id, n]));
+  const outgoing = getOutgoingEdges(workflow.edges ?? []);
+
+  const firstTarget = (nodeId: string): string | null => outgoing.get(nodeId)?.[0]?.toNodeId ?? null;
+  const branchTarget = (nodeId: string, label: 'true' | 'false'): string | null =>
+    outgoing.get(nodeId)?.find((e) => e.label?.trim().toLowerCase() === label)?.toNodeId ?? null;
+
+  const entryStepId = firstTarget(triggerNode.id);
+  const steps: AutomationStep[] = [];
+  const visited = new Set<string>();
+  const queue = entryStepId ? [entryStepId] : [];
 
-  // For now we simply turn every action node into a linear AutomationStep.
-  const actionNodes = workflow.nodes.filter((n) => n.kind === 'action');
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (visited.has(nodeId)) continue;
+    visited.add(nodeId);
 
-  const steps: AutomationStep[] = actionNodes.map((node, index) => {
-    const actionConfig = (node as any).config ?? {};
+    const node = nodesById.get(nodeId);
+    if (!node || node.kind === 'trigger') continue;
 
-    const stepConditions: AutomationCondition[] | undefined =
-      (actionConfig.conditions as AutomationCondition[]) ?? undefined;
+    if (node.kind === 'condition') {
+      const branches = {
+        true: branchTarget(node.id, 'true'),
+        false: branchTarget(node.id, 'false'),
+      };
+      steps.push({
+        id: node.id,
+        order: steps.length,
+        type: 'condition',
+        config: { label: node.label, description: node.description },
+        conditions: node.conditions ?? [],
+        logicOperator: node.logicOperator ?? 'AND',
+        branches,
+      });
+      if (branches.true) queue.push(branches.true);
+      if (branches.false) queue.push(branches.false);
+      continue;
+    }
 
-    return {
-      id: `${workflow.id}_step_${index}`,
-      order: index,
+    const actionConfig = node.config ?? {};
+    const next = firstTarget(node.id);
+
+    steps.push({
+      id: node.id,
+      order: steps.length,
       type: node.actionType,
       config: actionConfig,
-      conditions: stepConditions,
-    };
-  });
+      conditions: (actionConfig.conditions as AutomationCondition[]) ?? undefined,
+      next,
+    });
+    if (next) queue.push(next);
+  }
 
   return {
-    ...baseAutomation,
-    steps,
+    automation: {
+      id: workflow.id,
+      teamId: workflow.teamId,
+      name: workflow.name,
+      description: workflow.description ?? '',
+      isActive: workflow.isActive,
+      trigger: {
+        type: triggerNode.triggerType,
+        config: triggerNode.config ?? {},
+      },
+      steps,
+      entryStepId,
+      nodes: workflow.nodes,
+      edges: workflow.edges,
+      ...(workflow.enrollment ? { enrollment: workflow.enrollment } : {}),
+      ...(workflow.goals?.length ? { goals: workflow.goals } : {}),
+      ...(workflow.exclusionGroup ? { exclusionGroup: workflow.exclusionGroup } : {}),
+    },
+    errors: [],
   };
 }
+
+/**
+ * Maps a WorkflowDefinition into a single AutomationDefinition the engine can execute.
+ * Returns null when the workflow fails validation; use `compileWorkflow`
+ * when you need the reasons.
+ */
+export function workflowToAutomation(
+  workflow: WorkflowDefinition,
+): AutomationDefinition | null {
+  return compileWorkflow(workflow).automation;
+}
@@ -0,0 +1,105 @@
+// src/lib/workflows/transfer.ts
+//
+// Export / import of a team's automations through the portable format in
+// ./portable. Lookups for mapping team references live here so portable.ts
+// stays free of Supabase.
+import { supabase } from '@/integrations/supabase/client';
+import { saveWorkflow } from '../automations/registry';
+import type { AutomationDefinition } from '../automations/types';
+import { automationRowToWorkflow } from './canvas';
+import {
+  exportWorkflows,
+  instantiateWorkflow,
+  serializeWorkflowExport,
+  type ReferenceMapping,
+  type SecretValues,
+  type TeamReferenceKind,
+  type WorkflowExportFile,
+} from './portable';
+
+export interface TeamReferenceOption {
+  id: string;
+  label: string;
+}
+
+export type TeamReferenceOptions = Record<TeamReferenceKind, TeamReferenceOption[]>;
+
+/** Users, pipeline stages and integrations a reference can be mapped onto */
+export async function fetchTeamReferenceOptions(teamId: string): Promise<TeamReferenceOptions> {
+  const [membersRes, stagesRes, integrationsRes] = await Promise.all([
+    supabase.from('team_members').select('user_id, profiles(full_name, email)').eq('team_id', teamId).eq('is_active', true),
+    supabase.from('team_pipeline_stages').select('stage_id, stage_label').eq('team_id', teamId).order('order_index'),
+    supabase.from('team_integrations').select('id, integration_type, config').eq('team_id', teamId),
+  ]);
+
+  if (membersRes.error) console.error('[WorkflowTransfer] Failed to load team members:', membersRes.error);
+  if (stagesRes.error) console.error('[WorkflowTransfer] Failed to load pipeline stages:', stagesRes.error);
+  if (integrationsRes.error) console.error('[WorkflowTransfer] Failed to load integrations:', integrationsRes.error);
+
+  return {
+    user: (membersRes.data ?? []).map((m) => {
+      const profile = m.profiles as { full_name: string | null; email: string | null } | null;
+      return { id: m.user_id, label: profile?.full_name || profile?.email || m.user_id };
+    }),
+    stage: (stagesRes.data ?? []).map((s) => ({ id: s.stage_id, label: s.stage_label })),
+    integration: (integrationsRes.data ?? []).map((i) => ({
+      id: i.id,
+      label: (i.config as { name?: string } | null)?.name || i.integration_type,
+    })),
+  };
+}
+
+/** Export file for the given automations (all of the team's when omitted) */
+export async function exportTeamAutomations(teamId: string, automationIds?: string[]): Promise<WorkflowExportFile> {
+  let query = supabase.from('automations').select('*').eq('team_id', teamId).order('created_at');
+  if (automationIds) query = query.in('id', automationIds);
+
+  const [{ data, error }, options] = await Promise.all([query, fetchTeamReferenceOptions(teamId)]);
+  if (error) throw error;
+
+  const workflows = (data ?? []).map((row) =>
+    automationRowToWorkflow({ ...row, definition: row.definition as Partial<AutomationDefinition> | null }),
+  );
+  return exportWorkflows(workflows, (kind, id) => options[kind].find((o) => o.id === id)?.label);
+}
+
+export function downloadWorkflowExport(file: WorkflowExportFile, filename: string): void {
+  const blob = new Blob([serializeWorkflowExport(file)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export interface ImportResult {
+  key: string;
+  name: string;
+  id: string | null;
+  errors: string[];
+}
+
+/**
+ * Creates the selected workflows of a file as new, inactive automations.
+ * Each one is saved on its own, so one failing doesn't stop the rest.
+ */
+export async function importWorkflows(
+  teamId: string,
+  file: WorkflowExportFile,
+  workflowKeys: string[],
+  mapping: ReferenceMapping,
+  secrets: SecretValues = {},
+): Promise<ImportResult[]> {
+  const results: ImportResult[] = [];
+  for (const portable of file.workflows.filter((w) => workflowKeys.includes(w.key))) {
+    const { id, errors } = await saveWorkflow(instantiateWorkflow(portable, teamId, mapping, secrets));
+    results.push({
+      key: portable.key,
+      name: portable.name,
+      id,
+      errors: id ? [] : errors.length > 0 ? errors.map((e) => e.message) : ['Failed to save'],
+    });
+  }
+  return results;
+}
@@ -1,5 +1,10 @@
 // src/lib/workflows/types.ts
-import type { TriggerType, ActionType } from '../automations/types';
+import type {
+  TriggerType,
+  ActionType,
+  AutomationCondition,
+  AutomationEnrollmentSettings,
+} from '../automations/types';
 
 export type WorkflowNodeKind = 'trigger' | 'action' | 'condition';
 
@@ -27,8 +32,8 @@ export interface WorkflowConditionNode extends WorkflowNodeBase {
   kind: 'condition';
   /** High-level description like "lead.status equals 'show-up'" */
   description?: string;
-  /** Raw conditions that map into AutomationCondition[] later */
-  conditions?: Record<string, any>[];
+  /** Evaluated at runtime; outgoing edges labelled "true" / "false" pick the branch */
+  conditions?: AutomationCondition[];
   logicOperator?: 'AND' | 'OR';
 }
 
@@ -45,7 +50,8 @@ export interface WorkflowEdge {
   label?: string;
 }
 
-export interface WorkflowDefinition {
+/** Enrollment settings ride along with the graph and are copied onto the compiled automation */
+export interface WorkflowDefinition extends AutomationEnrollmentSettings {
   id: string;
   teamId: string;
   name: string;
@@ -57,3 +63,24 @@ export interface WorkflowDefinition {
   nodes: WorkflowNode[];
   edges: WorkflowEdge[];
 }
+
+export type WorkflowValidationCode =
+  | 'missing_trigger'
+  | 'multiple_triggers'
+  | 'duplicate_node_id'
+  | 'unknown_node'
+  | 'trigger_has_incoming'
+  | 'multiple_outgoing'
+  | 'invalid_branch_label'
+  | 'duplicate_branch'
+  | 'cycle'
+  | 'unreachable_node'
+  | 'invalid_condition'
+  | 'invalid_template';
+
+export interface WorkflowValidationError {
+  code: WorkflowValidationCode;
+  message: string;
+  nodeId?: string;
+  edgeId?: string;
+}
@@ -0,0 +1,223 @@
+// src/lib/workflows/validation.ts
+import type {
+  WorkflowDefinition,
+  WorkflowEdge,
+  WorkflowNode,
+  WorkflowValidationError,
+} from './types';
+import { validateConditions } from '../automations/conditions';
+import { validateStepTemplates } from '../automations/templateUtils';
+
+export const BRANCH_LABELS = ['true', 'false'] as const;
+export type BranchLabel = (typeof BRANCH_LABELS)[number];
+
+/**
+ * Groups edges by their source node.
+ */
+export function getOutgoingEdges(edges: WorkflowEdge[]): Map<string, WorkflowEdge[]> {
+  const outgoing = new Map<string, WorkflowEdge[]>();
+  for (const edge of edges) {
+    const list = outgoing.get(edge.fromNodeId) ?? [];
+    list.push(edge);
+    outgoing.set(edge.fromNodeId, list);
+  }
+  return outgoing;
+}
+
+function describeNode(node: WorkflowNode): string {
+  return node.label ? `"${node.label}"` : `"${node.id}"`;
+}
+
+/**
+ * Structural checks for a workflow graph before it is compiled/saved.
+ *
+ * A valid workflow has exactly one trigger, every node is reachable from it,
+ * there are no cycles, trigger/action nodes have at most one outgoing edge and
+ * condition nodes only branch through edges labelled "true" / "false".
+ *
+ * Returns an empty array when the workflow is valid.
+ */
+export function validateWorkflow(workflow: WorkflowDefinition): WorkflowValidationError[] {
+  const errors: WorkflowValidationError[] = [];
+  const nodes = workflow.nodes ?? [];
+  const edges = workflow.edges ?? [];
+
+  const nodesById = new Map<string, WorkflowNode>();
+  for (const node of nodes) {
+    if (nodesById.has(node.id)) {
+      errors.push({
+        code: 'duplicate_node_id',
+        message: `More than one node uses the id "${node.id}".`,
+        nodeId: node.id,
+      });
+      continue;
+    }
+    nodesById.set(node.id, node);
+  }
+
+  const triggers = nodes.filter((n) => n.kind === 'trigger');
+  if (triggers.length === 0) {
+    errors.push({
+      code: 'missing_trigger',
+      message: 'Add a trigger so the workflow knows when to start.',
+    });
+  } else if (triggers.length > 1) {
+    for (const extra of triggers.slice(1)) {
+      errors.push({
+        code: 'multiple_triggers',
+        message: `Only one trigger is allowed per workflow; remove ${describeNode(extra)}.`,
+        nodeId: extra.id,
+      });
+    }
+  }
+
+  // Edges must point at real nodes; drop broken ones from the remaining checks.
+  const validEdges: WorkflowEdge[] = [];
+  for (const edge of edges) {
+    const missing = [edge.fromNodeId, edge.toNodeId].find((id) => !nodesById.has(id));
+    if (missing) {
+      errors.push({
+        code: 'unknown_node',
+        message: `Connection "${edge.id}" points to a node that does not exist ("${missing}").`,
+        edgeId: edge.id,
+      });
+      continue;
+    }
+    if (nodesById.get(edge.toNodeId)?.kind === 'trigger') {
+      errors.push({
+        code: 'trigger_has_incoming',
+        message: `Trigger ${describeNode(nodesById.get(edge.toNodeId)!)} cannot have incoming connections.`,
+        nodeId: edge.toNodeId,
+        edgeId: edge.id,
+      });
+      continue;
+    }
+    validEdges.push(edge);
+  }
+
+  const outgoing = getOutgoingEdges(validEdges);
+
+  for (const node of nodesById.values()) {
+    const out = outgoing.get(node.id) ?? [];
+
+    const conditions = node.kind === 'condition' ? node.conditions : node.config?.conditions;
+    for (const problem of validateConditions(conditions)) {
+      errors.push({
+        code: 'invalid_condition',
+        message: `${describeNode(node)} – ${problem}`,
+        nodeId: node.id,
+      });
+    }
+
+    if (node.kind === 'action') {
+      for (const problem of validateStepTemplates(node.actionType, node.config)) {
+        errors.push({
+          code: 'invalid_template',
+          message: `${describeNode(node)} – ${problem}`,
+          nodeId: node.id,
+        });
+      }
+    }
+
+    if (node.kind === 'condition') {
+      const seen = new Set<string>();
+      for (const edge of out) {
+        const label = edge.label?.trim().toLowerCase();
+        if (!label || !(BRANCH_LABELS as readonly string[]).includes(label)) {
+          errors.push({
+            code: 'invalid_branch_label',
+            message: `Connections leaving condition ${describeNode(node)} must be labelled "true" or "false".`,
+            nodeId: node.id,
+            edgeId: edge.id,
+          });
+          continue;
+        }
+        if (seen.has(label)) {
+          errors.push({
+            code: 'duplicate_branch',
+            message: `Condition ${describeNode(node)} has more than one "${label}" branch.`,
+            nodeId: node.id,
+            edgeId: edge.id,
+          });
+        }
+        seen.add(label);
+      }
+    } else if (out.length > 1) {
+      errors.push({
+        code: 'multiple_outgoing',
+        message: `${describeNode(node)} has ${out.length} outgoing connections; use a condition node to branch.`,
+        nodeId: node.id,
+      });
+    }
+  }
+
+  // Cycle detection (iterative DFS with colouring so large graphs don't blow the stack)
+  const WHITE = 0;
+  const GREY = 1;
+  const BLACK = 2;
+  const colour = new Map<string, number>();
+  const reportedCycles = new Set<string>();
+
+  for (const start of nodesById.keys()) {
+    if ((colour.get(start) ?? WHITE) !== WHITE) continue;
+
+    const stack: Array<{ id: string; index: number }> = [{ id: start, index: 0 }];
+    colour.set(start, GREY);
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const out = outgoing.get(frame.id) ?? [];
+
+      if (frame.index >= out.length) {
+        colour.set(frame.id, BLACK);
+        stack.pop();
+        continue;
+      }
+
+      const edge = out[frame.index++];
+      const nextColour = colour.get(edge.toNodeId) ?? WHITE;
+
+      if (nextColour === GREY) {
+        if (!reportedCycles.has(edge.toNodeId)) {
+          reportedCycles.add(edge.toNodeId);
+          errors.push({
+            code: 'cycle',
+            message: `Connection "${edge.id}" loops back to ${describeNode(nodesById.get(edge.toNodeId)!)}; workflows cannot contain cycles.`,
+            nodeId: edge.toNodeId,
+            edgeId: edge.id,
+          });
+        }
+      } else if (nextColour === WHITE) {
+        colour.set(edge.toNodeId, GREY);
+        stack.push({ id: edge.toNodeId, index: 0 });
+      }
+    }
+  }
+
+  // Reachability from the (first) trigger
+  const trigger = triggers[0];
+  if (trigger) {
+    const reachable = new Set<string>([trigger.id]);
+    const queue = [trigger.id];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const edge of outgoing.get(id) ?? []) {
+        if (!reachable.has(edge.toNodeId)) {
+          reachable.add(edge.toNodeId);
+          queue.push(edge.toNodeId);
+        }
+      }
+    }
+
+    for (const node of nodesById.values()) {
+      if (node.kind === 'trigger' || reachable.has(node.id)) continue;
+      errors.push({
+        code: 'unreachable_node',
+        message: `${describeNode(node)} is not connected to the trigger and would never run.`,
+        nodeId: node.id,
+      });
+    }
+  }
+
+  return errors;
+}
@@ -26,6 +26,7 @@ import { extractDocument, type EditorDocument } from '@/builder_v2/state/persist
 import { PAGE_TEMPLATES, type PageTemplate } from '@/builder_v2/templates/pageTemplates';
 import { SectionPicker } from '@/builder_v2/components/SectionPicker';
 import { PagesList } from '@/builder_v2/components/PagesList';
+import { PageFlowMap } from '@/builder_v2/components/PageFlowMap';
 import { EditorHeader } from '@/builder_v2/components/EditorHeader';
 import { PropertyEditor } from '@/builder_v2/inspector/PropertyEditor';
 import type { Page, CanvasNode } from '@/builder_v2/types';
@@ -320,14 +321,25 @@ function EditorContent({
             {/* Sidebar content */}
             <div className="flex-1 overflow-hidden">
               {sidebarTab === 'pages' && (
-                <PagesList
-                  pages={pages}
-                  activePageId={activePageId}
-                  onSelectPage={setActivePage}
-                  onAddPage={handleAddPage}
-                  onDeletePage={handleDeletePage}
-                  onRenamePage={handleRenamePage}
-                />
+                <div className="flex h-full flex-col">
+                  <div className="flex-1 min-h-0">
+                    <PagesList
+                      pages={pages}
+                      activePageId={activePageId}
+                      onSelectPage={setActivePage}
+                      onAddPage={handleAddPage}
+                      onDeletePage={handleDeletePage}
+                      onRenamePage={handleRenamePage}
+                    />
+                  </div>
+                  <div className="flex max-h-[50%] flex-col">
+                    <PageFlowMap
+                      pages={pages}
+                      activePageId={activePageId}
+                      onSelectPage={setActivePage}
+                    />
+                  </div>
+                </div>
               )}
               {sidebarTab === 'add' && (
                 <SectionPicker onAddSection={handleAddSection} />
@@ -361,12 +373,13 @@ function EditorContent({
           </DeviceFrame>
         </main>
         
-        {/* Right panel - Property editor */}
-        {mode === 'edit' && activeTab === 'funnel' && selectedNode && (
+        {/* Right panel - Property editor (page settings and routing when nothing is selected) */}
+        {mode === 'edit' && activeTab === 'funnel' && (selectedNode || activePage) && (
           <aside className="w-72 shrink-0 border-l border-slate-200 bg-white overflow-hidden">
             <PropertyEditor 
               selectedNode={selectedNode} 
               selectedPage={activePage ?? null} 
+              pages={pages}
               onUpdateNode={updateNodeProps} 
               onUpdatePage={(id, updates) => updatePageProps(id, updates)} 
               onDeleteNode={deleteNode} 
@@ -440,7 +453,12 @@ export default function FunnelEditor() {
       const { error } = await supabase
         .from('funnels')
         .update({ 
-          published_document_snapshot: { ...document, publishedAt: Date.now() } as unknown as Json, 
+          // The runtime submits leads to metadata.funnelId
+          published_document_snapshot: {
+            ...document,
+            publishedAt: Date.now(),
+            metadata: { funnelId },
+          } as unknown as Json, 
           status: 'published', 
           updated_at: new Date().toISOString() 
         })
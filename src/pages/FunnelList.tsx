@@ -112,6 +112,7 @@ interface FunnelStep {
 
 interface Contact {
   id: string;
+  team_id: string;
   name: string | null;
   email: string | null;
   phone: string | null;
@@ -1,12 +1,17 @@
 import { useParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { Zap, GitBranch, Workflow, Bot, History, MessageSquare } from "lucide-react";
+import { Zap, GitBranch, Workflow, Bot, History, MessageSquare, Megaphone, LayoutTemplate } from "lucide-react";
 import { TaskFlowBuilder } from "@/components/TaskFlowBuilder";
 import { FollowUpSettings } from "@/components/FollowUpSettings";
 import { ActionPipelineMappings } from "@/components/ActionPipelineMappings";
 import { AutomationsList } from "@/components/automations/AutomationsList";
+import { WorkflowTemplateGallery } from "@/components/automations/WorkflowTemplateGallery";
 import AutomationRunsList from "@/components/automations/AutomationRunsList";
 import { MessageLogsList } from "@/components/automations/MessageLogsList";
+import { MessagingProvidersCard } from "@/components/automations/MessagingProvidersCard";
+import { MessageComplianceCard } from "@/components/automations/MessageComplianceCard";
+import { BroadcastCampaignsList } from "@/components/automations/BroadcastCampaignsList";
+import { AppointmentRemindersCard } from "@/components/automations/AppointmentRemindersCard";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 export default function Workflows() {
@@ -33,6 +38,10 @@ export default function Workflows() {
             <Bot className="h-4 w-4" />
             Automations
           </TabsTrigger>
+          <TabsTrigger value="templates" className="gap-2">
+            <LayoutTemplate className="h-4 w-4" />
+            Templates
+          </TabsTrigger>
           <TabsTrigger value="history" className="gap-2">
             <History className="h-4 w-4" />
             History
@@ -41,6 +50,10 @@ export default function Workflows() {
             <MessageSquare className="h-4 w-4" />
             Messages
           </TabsTrigger>
+          <TabsTrigger value="broadcasts" className="gap-2">
+            <Megaphone className="h-4 w-4" />
+            Broadcasts
+          </TabsTrigger>
           <TabsTrigger value="confirmations" className="gap-2">
             <Zap className="h-4 w-4" />
             Call Confirmations
@@ -60,6 +73,11 @@ export default function Workflows() {
           <AutomationsList teamId={teamId} />
         </TabsContent>
 
+        {/* Templates Tab */}
+        <TabsContent value="templates" className="space-y-4">
+          <WorkflowTemplateGallery teamId={teamId} />
+        </TabsContent>
+
         {/* History Tab */}
         <TabsContent value="history" className="space-y-4">
           <AutomationRunsList teamId={teamId} />
@@ -67,9 +85,16 @@ export default function Workflows() {
 
         {/* Messages Tab */}
         <TabsContent value="messages" className="space-y-4">
+          <MessagingProvidersCard teamId={teamId} />
+          <MessageComplianceCard teamId={teamId} />
           <MessageLogsList teamId={teamId} />
         </TabsContent>
 
+        {/* Broadcasts Tab */}
+        <TabsContent value="broadcasts" className="space-y-4">
+          <BroadcastCampaignsList teamId={teamId} />
+        </TabsContent>
+
         {/* Call Confirmation Flow */}
         <TabsContent value="confirmations" className="space-y-4">
           <Card>
@@ -83,6 +108,7 @@ export default function Workflows() {
               <TaskFlowBuilder teamId={teamId} />
             </CardContent>
           </Card>
+          <AppointmentRemindersCard teamId={teamId} />
         </TabsContent>
 
         {/* Follow-Up Flows */}
@@ -0,0 +1,364 @@
+// supabase/functions/_shared/appointmentReminders.ts
+//
+// Reminder sequences relative to appointments.start_at_utc (T-24h, T-1h,
+// T-10m by default). Each step becomes an appointment_reminders row when the
+// appointment is booked; a trigger on appointments
+// (plan_appointment_reminders) re-times them when it moves and cancels them
+// when it's cancelled or rescheduled. The worker checks the anchor again
+// before sending, in case the team's steps changed in between.
+import type { MessageChannel, OutboundMessage } from './messageProviders.ts';
+import { renderTemplate } from './templateEngine.ts';
+import { sendTeamMessage, type SendTeamMessageOptions } from './teamMessaging.ts';
+import type { DbClient } from './supabaseClient.ts';
+
+export interface ReminderStep {
+  /** Stable id; one reminder per step per appointment */
+  key: string;
+  /** Minutes before the appointment starts */
+  offsetMinutes: number;
+  channel: Extract<MessageChannel, 'sms' | 'email'>;
+  subject?: string;
+  template: string;
+}
+
+export interface AppointmentReminderConfig {
+  enabled: boolean;
+  steps: ReminderStep[];
+}
+
+export type AppointmentReminderStatus = 'scheduled' | 'sending' | 'sent' | 'failed' | 'cancelled' | 'skipped';
+
+/** The appointments columns reminders read; templates can use any other column */
+export interface ReminderAppointment {
+  id: string;
+  team_id: string;
+  start_at_utc: string;
+  status: string;
+  lead_name: string | null;
+  lead_email: string | null;
+  lead_phone: string | null;
+  timezone?: string | null;
+  [column: string]: unknown;
+}
+
+type ReminderTeam = { id: string; name: string | null; timezone: string | null };
+
+/** appointment_reminders columns the worker reads */
+interface DueReminderRow {
+  id: string;
+  team_id: string;
+  appointment_id: string;
+  step_key: string;
+  send_at: string;
+}
+
+export const DEFAULT_REMINDER_CONFIG: AppointmentReminderConfig = {
+  enabled: false,
+  steps: [
+    {
+      key: 't-24h',
+      offsetMinutes: 24 * 60,
+      channel: 'sms',
+      template:
+        'Hi {{lead.first_name | default: "there"}}, a reminder that your {{appointment.event_type_name | default: "call"}} ' +
+        'with {{team.name}} is {{appointment.start_at_utc | datetime}}.' +
+        '{{#if appointment.reschedule_url}} Need another time? {{appointment.reschedule_url}}{{/if}}',
+    },
+    {
+      key: 't-1h',
+      offsetMinutes: 60,
+      channel: 'sms',
+      template:
+        'Your call with {{team.name}} starts in 1 hour ({{appointment.start_at_utc | time}}).' +
+        '{{#if appointment.meeting_link}} Join: {{appointment.meeting_link}}{{/if}}',
+    },
+    {
+      key: 't-10m',
+      offsetMinutes: 10,
+      channel: 'sms',
+      template:
+        'Starting in 10 minutes!{{#if appointment.meeting_link}} Join here: {{appointment.meeting_link}}{{/if}}',
+    },
+  ],
+};
+
+/** Appointment statuses that should not be reminded about */
+const INACTIVE_APPOINTMENT_STATUSES = ['CANCELLED', 'RESCHEDULED', 'NO_SHOW', 'SHOWED', 'CLOSED'];
+
+/** How many due reminders one worker run sends */
+const REMINDER_BATCH_SIZE = 50;
+
+/** A send time that moved more than this means the appointment was moved */
+const ANCHOR_TOLERANCE_MS = 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+/** Reminders left in "sending" longer than this are assumed orphaned by a crashed worker */
+const STALE_SENDING_MS = 15 * MINUTE_MS;
+
+const DEFAULT_EMAIL_SUBJECT = 'Reminder: {{appointment.event_type_name | default: "your call"}} {{appointment.start_at_utc | datetime}}';
+
+/** The team's stored config with defaults for anything missing or malformed. */
+export function resolveReminderConfig(raw: unknown): AppointmentReminderConfig {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as { enabled?: unknown; steps?: unknown };
+  const steps = Array.isArray(value.steps)
+    ? (value.steps as Array<Partial<ReminderStep> | null>).filter(
+        (s): s is ReminderStep =>
+          !!s &&
+          typeof s.key === 'string' &&
+          Number.isFinite(s.offsetMinutes) &&
+          s.offsetMinutes > 0 &&
+          (s.channel === 'sms' || s.channel === 'email') &&
+          typeof s.template === 'string',
+      )
+    : DEFAULT_REMINDER_CONFIG.steps;
+  return { enabled: value.enabled === true, steps };
+}
+
+export function getReminderSendAt(startAtUtc: string, step: Pick<ReminderStep, 'offsetMinutes'>): Date {
+  return new Date(new Date(startAtUtc).getTime() - step.offsetMinutes * MINUTE_MS);
+}
+
+/** Steps whose send time is still ahead, with that time. Earlier steps of a late booking are dropped. */
+export function planReminders(
+  startAtUtc: string,
+  steps: ReminderStep[],
+  now: Date = new Date(),
+): Array<{ step: ReminderStep; sendAt: Date }> {
+  return steps
+    .map((step) => ({ step, sendAt: getReminderSendAt(startAtUtc, step) }))
+    .filter(({ sendAt }) => sendAt.getTime() > now.getTime())
+    .sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime());
+}
+
+/** "24h before", "1h 30m before", "10m before" */
+export function describeReminderOffset(offsetMinutes: number): string {
+  const days = Math.floor(offsetMinutes / 1440);
+  const hours = Math.floor((offsetMinutes % 1440) / 60);
+  const minutes = offsetMinutes % 60;
+  if (days > 0 && hours === 0 && minutes === 0) return days === 1 ? '24h before' : `${days} days before`;
+  const parts = [days * 24 + hours > 0 ? `${days * 24 + hours}h` : '', minutes > 0 ? `${minutes}m` : ''].filter(Boolean);
+  return `${parts.join(' ')} before`;
+}
+
+/** Template context for a reminder: the appointment, the invitee as {{lead.*}} and the team. */
+export function buildReminderContext(
+  appointment: Partial<ReminderAppointment>,
+  team: ReminderTeam | null,
+): Record<string, unknown> {
+  const [firstName = '', ...rest] = String(appointment.lead_name ?? '').trim().split(/\s+/);
+  return {
+    teamId: appointment.team_id,
+    triggerType: 'appointment_reminder',
+    now: new Date().toISOString(),
+    // Invitee's own timezone first, so "tomorrow at 3 PM" is their 3 PM
+    timezone: appointment.timezone ?? undefined,
+    appointment,
+    lead: {
+      name: appointment.lead_name,
+      first_name: firstName,
+      last_name: rest.join(' '),
+      email: appointment.lead_email,
+      phone: appointment.lead_phone,
+      timezone: appointment.timezone ?? null,
+    },
+    team,
+  };
+}
+
+async function loadReminderConfig(supabase: DbClient, teamId: string): Promise<AppointmentReminderConfig> {
+  const { data, error } = await supabase
+    .from('teams')
+    .select('appointment_reminder_config')
+    .eq('id', teamId)
+    .maybeSingle();
+  if (error) console.error('[appointmentReminders] Failed to load reminder config:', error);
+  return resolveReminderConfig((data as { appointment_reminder_config: unknown } | null)?.appointment_reminder_config);
+}
+
+async function finishReminder(
+  supabase: DbClient,
+  reminderId: string,
+  status: AppointmentReminderStatus,
+  fields: Record<string, unknown> = {},
+): Promise<void> {
+  const { error } = await supabase
+    .from('appointment_reminders')
+    .update({ status, ...fields })
+    .eq('id', reminderId);
+  if (error) console.error('[appointmentReminders] Failed to update reminder:', error);
+}
+
+/** How a reminder ends when its message was logged but the worker died before recording it */
+function reminderFieldsForLog(log: { id: string; status: string; created_at: string }): Record<string, unknown> {
+  if (log.status === 'failed') return { status: 'failed', message_log_id: log.id };
+  if (log.status === 'suppressed') return { status: 'skipped', message_log_id: log.id };
+  return { status: 'sent', message_log_id: log.id, sent_at: log.created_at };
+}
+
+/**
+ * Releases reminders a crashed worker left in "sending": ones whose message
+ * was logged are marked sent, the rest go back to scheduled.
+ */
+async function releaseStaleReminders(supabase: DbClient): Promise<void> {
+  const staleBefore = new Date(Date.now() - STALE_SENDING_MS).toISOString();
+  const { data: stale, error } = await supabase
+    .from('appointment_reminders')
+    .select('id')
+    .eq('status', 'sending')
+    .lt('updated_at', staleBefore);
+  if (error) {
+    console.error('[appointmentReminders] Failed to load stale reminders:', error);
+    return;
+  }
+
+  for (const reminder of (stale ?? []) as Array<{ id: string }>) {
+    const { data } = await supabase
+      .from('message_logs')
+      .select('id, status, created_at')
+      .eq('payload->>reminderId', reminder.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    const log = data as { id: string; status: string; created_at: string } | null;
+
+    const { error: updateError } = await supabase
+      .from('appointment_reminders')
+      .update(log ? reminderFieldsForLog(log) : { status: 'scheduled' })
+      .eq('id', reminder.id)
+      .eq('status', 'sending');
+    if (updateError) console.error('[appointmentReminders] Failed to release reminder:', updateError);
+  }
+}
+
+/**
+ * Sends due reminders. Each row is claimed (scheduled → sending) first so
+ * overlapping runs don't double-send. A reminder whose appointment was
+ * cancelled, moved or removed from the sequence is not sent.
+ */
+export async function sendDueAppointmentReminders(
+  supabase: DbClient,
+  options: Pick<SendTeamMessageOptions, 'supabaseUrl' | 'unsubscribeSecret'>,
+): Promise<{ sent: number; failed: number; skipped: number }> {
+  const counts = { sent: 0, failed: 0, skipped: 0 };
+
+  await releaseStaleReminders(supabase);
+
+  const { data: due, error } = await supabase
+    .from('appointment_reminders')
+    .select('id, team_id, appointment_id, step_key, send_at')
+    .eq('status', 'scheduled')
+    .lte('send_at', new Date().toISOString())
+    .order('send_at', { ascending: true })
+    .limit(REMINDER_BATCH_SIZE);
+
+  if (error) {
+    console.error('[appointmentReminders] Failed to load due reminders:', error);
+    return counts;
+  }
+
+  const configs = new Map<string, AppointmentReminderConfig>();
+  const teams = new Map<string, ReminderTeam | null>();
+
+  for (const reminder of (due ?? []) as DueReminderRow[]) {
+    const { data: claimed } = await supabase
+      .from('appointment_reminders')
+      .update({ status: 'sending' })
+      .eq('id', reminder.id)
+      .eq('status', 'scheduled')
+      .select('id')
+      .maybeSingle();
+    if (!claimed) continue;
+
+    const { data: appointmentRow } = await supabase
+      .from('appointments')
+      .select('*')
+      .eq('id', reminder.appointment_id)
+      .maybeSingle();
+    const appointment = appointmentRow as ReminderAppointment | null;
+
+    if (!configs.has(reminder.team_id)) configs.set(reminder.team_id, await loadReminderConfig(supabase, reminder.team_id));
+    const config = configs.get(reminder.team_id)!;
+    const step = config.steps.find((s) => s.key === reminder.step_key);
+
+    if (!appointment || INACTIVE_APPOINTMENT_STATUSES.includes(appointment.status)) {
+      await finishReminder(supabase, reminder.id, 'cancelled', { error_message: 'Appointment is no longer active' });
+      counts.skipped++;
+      continue;
+    }
+    if (!config.enabled || !step) {
+      await finishReminder(supabase, reminder.id, 'skipped', { error_message: 'Reminder step was turned off' });
+      counts.skipped++;
+      continue;
+    }
+
+    // Planned for another start time or offset: the step changed since, or the trigger couldn't re-time it
+    const expected = getReminderSendAt(appointment.start_at_utc, step);
+    if (Math.abs(expected.getTime() - new Date(reminder.send_at).getTime()) > ANCHOR_TOLERANCE_MS) {
+      const stillAhead = expected.getTime() > Date.now();
+      await finishReminder(
+        supabase,
+        reminder.id,
+        stillAhead ? 'scheduled' : 'skipped',
+        stillAhead ? { send_at: expected.toISOString() } : { error_message: 'Appointment moved; send time passed' },
+      );
+      if (!stillAhead) counts.skipped++;
+      continue;
+    }
+    if (new Date(appointment.start_at_utc).getTime() <= Date.now()) {
+      await finishReminder(supabase, reminder.id, 'skipped', { error_message: 'Appointment already started' });
+      counts.skipped++;
+      continue;
+    }
+
+    const address = step.channel === 'email' ? appointment.lead_email : appointment.lead_phone;
+    if (!address) {
+      await finishReminder(supabase, reminder.id, 'skipped', {
+        error_message: step.channel === 'email' ? 'No email address' : 'No phone number',
+      });
+      counts.skipped++;
+      continue;
+    }
+
+    if (!teams.has(reminder.team_id)) {
+      const { data: team } = await supabase
+        .from('teams')
+        .select('id, name, timezone')
+        .eq('id', reminder.team_id)
+        .maybeSingle();
+      teams.set(reminder.team_id, (team as ReminderTeam | null) ?? null);
+    }
+
+    const context = buildReminderContext(appointment, teams.get(reminder.team_id) ?? null);
+    const message: OutboundMessage = {
+      teamId: reminder.team_id,
+      channel: step.channel,
+      ...(step.channel === 'email' ? { toEmail: address } : { toPhone: address }),
+      subject: step.channel === 'email' ? renderTemplate(step.subject || DEFAULT_EMAIL_SUBJECT, context) : undefined,
+      text: renderTemplate(step.template, context),
+      metadata: {
+        source: 'appointment_reminder',
+        appointmentId: appointment.id,
+        timezone: appointment.timezone ?? undefined,
+      },
+    };
+
+    const result = await sendTeamMessage(supabase, message, {
+      ...options,
+      template: step.template,
+      logPayload: { appointmentId: appointment.id, reminderId: reminder.id, reminderStep: step.key },
+    });
+
+    const suppressed = result.compliance.action === 'suppress';
+    await finishReminder(supabase, reminder.id, result.success ? 'sent' : suppressed ? 'skipped' : 'failed', {
+      message_log_id: result.logId,
+      sent_at: result.success ? new Date().toISOString() : null,
+      error_message: result.success ? null : result.error ?? null,
+    });
+    if (result.success) counts.sent++;
+    else if (suppressed) counts.skipped++;
+    else counts.failed++;
+  }
+
+  return counts;
+}
@@ -0,0 +1,226 @@
+// supabase/functions/_shared/automationEnrollment.ts
+//
+// Who may enter an automation, and when they leave it early. Settings live on
+// the automation definition next to its steps:
+//
+//   enrollment      – every_event (default), once_per_contact or
+//                     once_per_period (at most once every `periodDays`)
+//   goals           – events that end the contact's waiting run, e.g. a
+//                     no-show nurture stops on appointment_booked
+//   exclusionGroup  – automations sharing a group never have the same
+//                     contact in two active runs at once
+//
+// Runs are tied to a contact through automation_runs.contact_key (email,
+// else phone, else lead id) so events from appointments, payments and leads
+// for the same person line up.
+import { getFieldValue, traceConditions, type AutomationCondition, type ConditionContext } from './automationRules.ts';
+import type { DbClient } from './supabaseClient.ts';
+
+export type EnrollmentMode = 'every_event' | 'once_per_contact' | 'once_per_period';
+
+export interface EnrollmentPolicy {
+  mode: EnrollmentMode;
+  /** once_per_period only */
+  periodDays?: number;
+}
+
+export interface AutomationGoal {
+  /** Trigger type of the event that meets the goal */
+  trigger: string;
+  /** Optional filter on that event, e.g. pipeline_stage_changed to "won" */
+  conditions?: AutomationCondition[];
+  logicOperator?: 'AND' | 'OR';
+}
+
+export interface AutomationEnrollmentSettings {
+  enrollment?: EnrollmentPolicy;
+  goals?: AutomationGoal[];
+  exclusionGroup?: string | null;
+}
+
+export type EnrollmentDecision =
+  | { allowed: true }
+  | { allowed: false; reason: 'already_enrolled' | 'enrolled_recently' | 'exclusion_group_active'; runId: string };
+
+export const DEFAULT_ENROLLMENT_POLICY: EnrollmentPolicy = { mode: 'every_event' };
+
+interface WaitingRunRow {
+  id: string;
+  automation_id: string;
+  automations: { definition: AutomationEnrollmentSettings | null } | null;
+}
+
+/** Run statuses that mean the contact is still in the automation */
+const ACTIVE_RUN_STATUSES = ['running', 'waiting'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function resolveEnrollmentPolicy(raw: unknown): EnrollmentPolicy {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof EnrollmentPolicy, unknown>>;
+  if (value.mode === 'once_per_contact') return { mode: 'once_per_contact' };
+  if (value.mode === 'once_per_period') {
+    const periodDays = Number(value.periodDays);
+    return { mode: 'once_per_period', periodDays: Number.isFinite(periodDays) && periodDays > 0 ? periodDays : 30 };
+  }
+  return DEFAULT_ENROLLMENT_POLICY;
+}
+
+/** Trimmed group name, or null when the automation isn't in one. */
+export function normalizeExclusionGroup(raw: unknown): string | null {
+  return typeof raw === 'string' && raw.trim() ? raw.trim().toLowerCase() : null;
+}
+
+export function describeEnrollmentPolicy(policy: EnrollmentPolicy): string {
+  switch (policy.mode) {
+    case 'once_per_contact':
+      return 'Once per contact';
+    case 'once_per_period':
+      return `At most once every ${policy.periodDays} day${policy.periodDays === 1 ? '' : 's'}`;
+    default:
+      return 'Every time the trigger fires';
+  }
+}
+
+/** Stable id for the person an event is about; null when the event has no contact. */
+export function getContactKey(context: ConditionContext): string | null {
+  const email = getFieldValue(context, 'lead.email') ?? getFieldValue(context, 'appointment.lead_email');
+  if (typeof email === 'string' && email.trim()) return `email:${email.trim().toLowerCase()}`;
+
+  const phone = String(getFieldValue(context, 'lead.phone') ?? getFieldValue(context, 'appointment.lead_phone') ?? '').replace(/\D/g, '');
+  if (phone.length >= 7) return `phone:${phone.slice(-10)}`;
+
+  const leadId = getFieldValue(context, 'lead.id');
+  return leadId ? `lead:${leadId}` : null;
+}
+
+/** The first goal the event meets, or null. */
+export function findMetGoal(
+  goals: AutomationGoal[] | undefined | null,
+  triggerType: string,
+  context: ConditionContext,
+): AutomationGoal | null {
+  for (const goal of goals ?? []) {
+    if (goal?.trigger !== triggerType) continue;
+    if (traceConditions(goal.conditions, context, goal.logicOperator).passed) return goal;
+  }
+  return null;
+}
+
+/**
+ * Whether a contact may start a new run of an automation. Fails open: when
+ * the event has no contact or the lookup errors, the run goes ahead.
+ */
+export async function checkEnrollment(
+  supabase: DbClient,
+  params: {
+    teamId: string;
+    automationId: string;
+    contactKey: string | null;
+    settings: AutomationEnrollmentSettings;
+  },
+): Promise<EnrollmentDecision> {
+  if (!params.contactKey) return { allowed: true };
+  const policy = resolveEnrollmentPolicy(params.settings.enrollment);
+
+  if (policy.mode !== 'every_event') {
+    let query = supabase
+      .from('automation_runs')
+      .select('id')
+      .eq('automation_id', params.automationId)
+      .eq('contact_key', params.contactKey)
+      .neq('status', 'error');
+    if (policy.mode === 'once_per_period') {
+      query = query.gte('created_at', new Date(Date.now() - policy.periodDays! * DAY_MS).toISOString());
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(1);
+    const previous = (data as { id: string }[] | null)?.[0];
+    if (error) {
+      console.error('[automationEnrollment] Enrollment check failed:', error);
+    } else if (previous) {
+      return {
+        allowed: false,
+        reason: policy.mode === 'once_per_contact' ? 'already_enrolled' : 'enrolled_recently',
+        runId: previous.id,
+      };
+    }
+  }
+
+  const group = normalizeExclusionGroup(params.settings.exclusionGroup);
+  if (group) {
+    const { data, error } = await supabase
+      .from('automation_runs')
+      .select('id')
+      .eq('team_id', params.teamId)
+      .eq('contact_key', params.contactKey)
+      .eq('exclusion_group', group)
+      .neq('automation_id', params.automationId)
+      .in('status', ACTIVE_RUN_STATUSES)
+      .limit(1);
+    const active = (data as { id: string }[] | null)?.[0];
+    if (error) {
+      console.error('[automationEnrollment] Exclusion group check failed:', error);
+    } else if (active) {
+      return { allowed: false, reason: 'exclusion_group_active', runId: active.id };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Ends the contact's waiting runs whose automation has a goal this event
+ * meets. Their pending resume jobs are cancelled so no further steps run.
+ * Returns the ids of the runs that were exited.
+ */
+export async function exitRunsForGoals(
+  supabase: DbClient,
+  params: { teamId: string; triggerType: string; context: ConditionContext },
+): Promise<string[]> {
+  const contactKey = getContactKey(params.context);
+  if (!contactKey) return [];
+
+  const { data: runs, error } = await supabase
+    .from('automation_runs')
+    .select('id, automation_id, automations(definition)')
+    .eq('team_id', params.teamId)
+    .eq('contact_key', contactKey)
+    .eq('status', 'waiting');
+
+  if (error) {
+    console.error('[automationEnrollment] Failed to load waiting runs:', error);
+    return [];
+  }
+
+  const exited: string[] = [];
+  for (const run of (runs ?? []) as WaitingRunRow[]) {
+    const goal = findMetGoal(run.automations?.definition?.goals, params.triggerType, params.context);
+    if (!goal) continue;
+
+    const { data: updated, error: updateError } = await supabase
+      .from('automation_runs')
+      .update({
+        status: 'exited',
+        exit_reason: `Goal met: ${params.triggerType}`,
+        exited_at: new Date().toISOString(),
+      })
+      .eq('id', run.id)
+      .eq('status', 'waiting')
+      .select('id')
+      .maybeSingle();
+    if (updateError) {
+      console.error('[automationEnrollment] Failed to exit run:', updateError);
+      continue;
+    }
+    if (!updated) continue;
+
+    await supabase
+      .from('scheduled_automation_jobs')
+      .update({ status: 'cancelled', last_error: `Run exited: goal ${params.triggerType} met` })
+      .eq('run_id', run.id)
+      .eq('status', 'pending');
+    exited.push(run.id);
+  }
+
+  return exited;
+}
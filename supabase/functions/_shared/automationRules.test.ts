@@ -0,0 +1,216 @@
+import { describe, expect, it } from 'vitest';
+import {
+  evaluateCondition,
+  evaluateConditions,
+  traceConditions,
+  validateConditions,
+  type AutomationCondition,
+  type ConditionRule,
+} from './automationRules.ts';
+
+const NOW = '2026-03-10T12:00:00.000Z';
+
+const context = {
+  now: NOW,
+  lead: {
+    status: 'qualified',
+    email: 'Jane.Doe@Example.com',
+    score: '42',
+    tags: ['VIP', 'webinar'],
+    source: null,
+  },
+  appointment: {
+    start_at_utc: '2026-03-10T15:00:00.000Z',
+    created_at: '2026-03-09T20:00:00.000Z',
+  },
+  deal: { amount: 1500, min_amount: 1000 },
+};
+
+const rule = (field: string, operator: ConditionRule['operator'], value?: ConditionRule['value']): ConditionRule => ({
+  field,
+  operator,
+  value,
+});
+
+describe('operators', () => {
+  it('compares equality loosely across numbers and numeric strings', () => {
+    expect(evaluateCondition(rule('lead.score', 'equals', 42), context)).toBe(true);
+    expect(evaluateCondition(rule('lead.status', 'equals', 'qualified'), context)).toBe(true);
+    expect(evaluateCondition(rule('lead.status', 'not_equals', 'new'), context)).toBe(true);
+    expect(evaluateCondition(rule('lead.score', 'equals', '42.5'), context)).toBe(false);
+  });
+
+  it('checks list membership case-insensitively', () => {
+    expect(evaluateCondition(rule('lead.status', 'in', ['New', 'Qualified']), context)).toBe(true);
+    expect(evaluateCondition(rule('lead.status', 'not_in', ['new', 'lost']), context)).toBe(true);
+    expect(evaluateCondition(rule('lead.status', 'in', []), context)).toBe(false);
+  });
+
+  it('matches string and array contents', () => {
+    expect(evaluateCondition(rule('lead.email', 'contains', 'example.com'), context)).toBe(true);
+    expect(evaluateCondition(rule('lead.tags', 'contains', 'vip'), context)).toBe(true);
+    expect(evaluateCondition(rule('lead.tags', 'not_contains', 'churned'), context)).toBe(true);
+    expect(evaluateCondition(rule('lead.email', 'starts_with', 'jane'), context)).toBe(true);
+    expect(evaluateCondition(rule('lead.email', 'ends_with', '.org'), context)).toBe(false);
+  });
+
+  it('compares numbers with both long and short operator names', () => {
+    expect(evaluateCondition(rule('lead.score', 'greater_than', 40), context)).toBe(true);
+    expect(evaluateCondition(rule('lead.score', 'gte', '42'), context)).toBe(true);
+    expect(evaluateCondition(rule('lead.score', 'less_than', 42), context)).toBe(false);
+    expect(evaluateCondition(rule('lead.score', 'lte', 42), context)).toBe(true);
+    expect(evaluateCondition(rule('lead.status', 'gt', 1), context)).toBe(false);
+  });
+
+  it('treats null, empty strings and empty arrays as not set', () => {
+    expect(evaluateCondition(rule('lead.source', 'is_not_set'), context)).toBe(true);
+    expect(evaluateCondition(rule('lead.missing', 'is_not_set'), context)).toBe(true);
+    expect(evaluateCondition(rule('lead.tags', 'is_set'), context)).toBe(true);
+    expect(evaluateCondition(rule('lead.tags', 'is_set'), { lead: { tags: [] } })).toBe(false);
+  });
+
+  it('compares against another field with valueField', () => {
+    const condition: ConditionRule = { field: 'deal.amount', operator: 'gte', valueField: 'deal.min_amount' };
+    expect(evaluateCondition(condition, context)).toBe(true);
+  });
+
+  it('fails closed on unknown operators', () => {
+    const condition = { field: 'lead.status', operator: 'sounds_like', value: 'qualified' } as unknown as ConditionRule;
+    expect(evaluateCondition(condition, context)).toBe(false);
+  });
+});
+
+describe('date windows', () => {
+  it('compares dates with before / after, including "now"', () => {
+    expect(evaluateCondition(rule('appointment.start_at_utc', 'after', 'now'), context)).toBe(true);
+    expect(evaluateCondition(rule('appointment.created_at', 'before', NOW), context)).toBe(true);
+    expect(evaluateCondition(rule('appointment.start_at_utc', 'before', 'not a date'), context)).toBe(false);
+  });
+
+  it('checks hour windows around now', () => {
+    expect(evaluateCondition(rule('appointment.start_at_utc', 'within_next_hours', 3), context)).toBe(true);
+    expect(evaluateCondition(rule('appointment.start_at_utc', 'within_next_hours', 2), context)).toBe(false);
+    expect(evaluateCondition(rule('appointment.start_at_utc', 'within_last_hours', 24), context)).toBe(false);
+    expect(evaluateCondition(rule('appointment.created_at', 'within_last_hours', 16), context)).toBe(true);
+    expect(evaluateCondition(rule('appointment.created_at', 'within_hours', 15), context)).toBe(false);
+  });
+
+  it('uses valueField as the reference time for hour windows', () => {
+    const condition: ConditionRule = {
+      field: 'appointment.created_at',
+      operator: 'within_hours',
+      value: 19,
+      valueField: 'appointment.start_at_utc',
+    };
+    expect(evaluateCondition(condition, context)).toBe(true);
+    expect(evaluateCondition({ ...condition, value: 18 }, context)).toBe(false);
+  });
+
+  it('fails when the hours value is not a number', () => {
+    expect(evaluateCondition(rule('appointment.start_at_utc', 'within_hours', 'soon'), context)).toBe(false);
+  });
+});
+
+describe('regex', () => {
+  it('treats bare patterns as case-insensitive', () => {
+    expect(evaluateCondition(rule('lead.email', 'matches_regex', '^jane\\.'), context)).toBe(true);
+  });
+
+  it('keeps the flags of /pattern/flags literals', () => {
+    expect(evaluateCondition(rule('lead.email', 'matches_regex', '/^jane/'), context)).toBe(false);
+    expect(evaluateCondition(rule('lead.email', 'matches_regex', '/^jane/i'), context)).toBe(true);
+  });
+
+  it('fails on invalid patterns and missing values', () => {
+    expect(evaluateCondition(rule('lead.email', 'matches_regex', '(unclosed'), context)).toBe(false);
+    expect(evaluateCondition(rule('lead.missing', 'matches_regex', '.*'), context)).toBe(false);
+  });
+});
+
+describe('any-of / all-of', () => {
+  it('passes contains_any when one value overlaps', () => {
+    expect(evaluateCondition(rule('lead.tags', 'contains_any', ['vip', 'partner']), context)).toBe(true);
+    expect(evaluateCondition(rule('lead.tags', 'contains_any', ['partner']), context)).toBe(false);
+    expect(evaluateCondition(rule('lead.status', 'contains_any', ['qualified']), context)).toBe(true);
+  });
+
+  it('needs every value for contains_all, and at least one', () => {
+    expect(evaluateCondition(rule('lead.tags', 'contains_all', ['vip', 'WEBINAR']), context)).toBe(true);
+    expect(evaluateCondition(rule('lead.tags', 'contains_all', ['vip', 'partner']), context)).toBe(false);
+    expect(evaluateCondition(rule('lead.tags', 'contains_all', []), context)).toBe(false);
+  });
+});
+
+describe('groups', () => {
+  const nested: AutomationCondition[] = [
+    rule('lead.status', 'equals', 'qualified'),
+    {
+      logic: 'OR',
+      conditions: [
+        rule('lead.tags', 'contains', 'partner'),
+        {
+          logic: 'AND',
+          conditions: [rule('lead.score', 'gt', 40), rule('lead.email', 'ends_with', 'example.com')],
+        },
+      ],
+    },
+  ];
+
+  it('passes an empty list', () => {
+    expect(evaluateConditions([], context)).toBe(true);
+    expect(evaluateConditions(null, context, 'OR')).toBe(true);
+  });
+
+  it('evaluates nested AND / OR groups', () => {
+    expect(evaluateConditions(nested, context)).toBe(true);
+    expect(evaluateConditions(nested, { ...context, lead: { ...context.lead, score: 10 } })).toBe(false);
+    expect(evaluateConditions([rule('lead.status', 'equals', 'new'), rule('lead.score', 'gt', 1)], context, 'OR')).toBe(
+      true,
+    );
+  });
+
+  it('records what was compared at every level', () => {
+    const trace = traceConditions(nested, context);
+    expect(trace.passed).toBe(true);
+    expect(trace.results[0]).toEqual({
+      field: 'lead.status',
+      operator: 'equals',
+      expected: 'qualified',
+      actual: 'qualified',
+      passed: true,
+    });
+    expect(trace.results[1]).toMatchObject({
+      logic: 'OR',
+      passed: true,
+      results: [{ passed: false }, { logic: 'AND', passed: true }],
+    });
+  });
+});
+
+describe('validateConditions', () => {
+  it('accepts valid conditions', () => {
+    expect(validateConditions([rule('lead.email', 'matches_regex', '^jane'), rule('a.b', 'within_hours', '2')])).toEqual(
+      [],
+    );
+  });
+
+  it('reports problems with their position', () => {
+    const problems = validateConditions([
+      rule('', 'equals', 'x'),
+      {
+        logic: 'AND',
+        conditions: [
+          rule('lead.email', 'matches_regex', '(unclosed'),
+          { field: 'lead.status', operator: 'sounds_like' } as unknown as ConditionRule,
+        ],
+      },
+      rule('appointment.start_at_utc', 'within_next_hours', 'soon'),
+    ]);
+    expect(problems).toEqual([
+      'Condition 1: field is required.',
+      'Condition 2.1: "(unclosed" is not a valid regular expression.',
+      'Condition 2.2: unknown operator "sounds_like".',
+      'Condition 3: "within_next_hours" needs a number of hours as its value.',
+    ]);
+  });
+});
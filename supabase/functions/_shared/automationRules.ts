@@ -0,0 +1,392 @@
+// supabase/functions/_shared/automationRules.ts
+//
+// The one condition/rule engine for automations. Imported by the edge
+// functions (Deno) and by src/lib/automations (Vite), so it must stay free of
+// runtime-specific APIs and of imports without a ".ts" extension.
+
+export type ConditionOperator =
+  // equality
+  | 'equals'
+  | 'not_equals'
+  | 'in'
+  | 'not_in'
+  // strings / arrays
+  | 'contains'
+  | 'not_contains'
+  | 'starts_with'
+  | 'ends_with'
+  | 'matches_regex'
+  | 'contains_any'
+  | 'contains_all'
+  // numbers (legacy short aliases kept for stored definitions)
+  | 'greater_than'
+  | 'greater_or_equal'
+  | 'less_than'
+  | 'less_or_equal'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  // presence
+  | 'is_set'
+  | 'is_not_set'
+  // dates
+  | 'before'
+  | 'after'
+  | 'within_hours'
+  | 'within_next_hours'
+  | 'within_last_hours';
+
+export type ConditionValue = string | number | boolean | null | Array<string | number>;
+
+export interface ConditionRule {
+  field: string; // e.g. 'lead.status'
+  operator: ConditionOperator;
+  value?: ConditionValue;
+  /**
+   * Compare against another context path instead of the literal `value`.
+   * For the `within_*` operators this is the reference time
+   * (e.g. 'appointment.start_at_utc'); it defaults to `now`.
+   */
+  valueField?: string;
+}
+
+export interface ConditionGroup {
+  logic: 'AND' | 'OR';
+  conditions: AutomationCondition[];
+}
+
+export type AutomationCondition = ConditionRule | ConditionGroup;
+
+export interface ConditionRuleTrace {
+  field: string;
+  operator: ConditionOperator;
+  expected: unknown;
+  actual: unknown;
+  passed: boolean;
+}
+
+export interface ConditionGroupTrace {
+  logic: 'AND' | 'OR';
+  passed: boolean;
+  results: ConditionTrace[];
+}
+
+export type ConditionTrace = ConditionRuleTrace | ConditionGroupTrace;
+
+export const CONDITION_OPERATORS: readonly ConditionOperator[] = [
+  'equals',
+  'not_equals',
+  'in',
+  'not_in',
+  'contains',
+  'not_contains',
+  'starts_with',
+  'ends_with',
+  'matches_regex',
+  'contains_any',
+  'contains_all',
+  'greater_than',
+  'greater_or_equal',
+  'less_than',
+  'less_or_equal',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'is_set',
+  'is_not_set',
+  'before',
+  'after',
+  'within_hours',
+  'within_next_hours',
+  'within_last_hours',
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** The event data rules read fields from: lead, appointment, meta, now... */
+export type ConditionContext = object;
+
+export function isConditionGroup(condition: AutomationCondition): condition is ConditionGroup {
+  return !!condition && Array.isArray((condition as ConditionGroup).conditions);
+}
+
+/**
+ * Safely pulls a nested value from the context using dot notation.
+ * Example: getFieldValue(ctx, "lead.first_name")
+ */
+export function getFieldValue(context: ConditionContext, path?: string | null): unknown {
+  if (!path) return undefined;
+  let current: unknown = context;
+
+  for (const segment of path.split('.')) {
+    if (current == null) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/** Numbers and numeric strings compare as numbers; anything else is NaN. */
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+}
+
+/** Accepts Date, epoch ms, ISO strings and the literal "now". */
+function toTimestamp(value: unknown, now: number): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    if (value.trim().toLowerCase() === 'now') return now;
+    return Date.parse(value);
+  }
+  return NaN;
+}
+
+function looseEquals(actual: unknown, expected: unknown): boolean {
+  if (actual === expected) return true;
+  // "5" and 5 are the same thing once they've been through a form or JSON column
+  if (
+    (typeof actual === 'number' || typeof actual === 'string') &&
+    (typeof expected === 'number' || typeof expected === 'string')
+  ) {
+    const a = toNumber(actual);
+    const b = toNumber(expected);
+    return !Number.isNaN(a) && !Number.isNaN(b) && a === b;
+  }
+  return false;
+}
+
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (isBlank(value)) return [];
+  return [value];
+}
+
+function listIncludes(list: unknown[], item: unknown): boolean {
+  return list.some((entry) =>
+    typeof entry === 'string' && typeof item === 'string'
+      ? entry.toLowerCase() === item.toLowerCase()
+      : looseEquals(entry, item),
+  );
+}
+
+/** "/^foo/i" style literals keep their flags; bare patterns are case-insensitive. */
+function toRegExp(pattern: unknown): RegExp | null {
+  if (typeof pattern !== 'string' || pattern === '') return null;
+  try {
+    const literal = pattern.match(/^\/(.+)\/([gimsuy]*)$/);
+    return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+function compareNumbers(actual: unknown, expected: unknown, compare: (a: number, b: number) => boolean): boolean {
+  const a = toNumber(actual);
+  const b = toNumber(expected);
+  if (Number.isNaN(a) || Number.isNaN(b)) return false;
+  return compare(a, b);
+}
+
+function getNow(context: ConditionContext): number {
+  const now = (context as { now?: unknown } | null)?.now;
+  const fromContext = typeof now === 'string' ? Date.parse(now) : NaN;
+  return Number.isNaN(fromContext) ? Date.now() : fromContext;
+}
+
+function applyOperator(
+  operator: ConditionOperator,
+  actual: unknown,
+  expected: unknown,
+  rule: ConditionRule,
+  context: ConditionContext,
+): boolean {
+  switch (operator) {
+    case 'equals':
+      return looseEquals(actual, expected);
+    case 'not_equals':
+      return !looseEquals(actual, expected);
+    case 'in':
+      return listIncludes(toList(expected), actual);
+    case 'not_in':
+      return !listIncludes(toList(expected), actual);
+
+    case 'contains':
+      if (typeof actual === 'string') return actual.toLowerCase().includes(String(expected ?? '').toLowerCase());
+      if (Array.isArray(actual)) return listIncludes(actual, expected);
+      return false;
+    case 'not_contains':
+      return !applyOperator('contains', actual, expected, rule, context);
+    case 'starts_with':
+      return typeof actual === 'string' && actual.toLowerCase().startsWith(String(expected ?? '').toLowerCase());
+    case 'ends_with':
+      return typeof actual === 'string' && actual.toLowerCase().endsWith(String(expected ?? '').toLowerCase());
+    case 'matches_regex': {
+      const regex = toRegExp(expected);
+      return !!regex && actual != null && regex.test(String(actual));
+    }
+    case 'contains_any': {
+      const list = toList(actual);
+      return toList(expected).some((item) => listIncludes(list, item));
+    }
+    case 'contains_all': {
+      const list = toList(actual);
+      const wanted = toList(expected);
+      return wanted.length > 0 && wanted.every((item) => listIncludes(list, item));
+    }
+
+    case 'greater_than':
+    case 'gt':
+      return compareNumbers(actual, expected, (a, b) => a > b);
+    case 'greater_or_equal':
+    case 'gte':
+      return compareNumbers(actual, expected, (a, b) => a >= b);
+    case 'less_than':
+    case 'lt':
+      return compareNumbers(actual, expected, (a, b) => a < b);
+    case 'less_or_equal':
+    case 'lte':
+      return compareNumbers(actual, expected, (a, b) => a <= b);
+
+    case 'is_set':
+      return !isBlank(actual);
+    case 'is_not_set':
+      return isBlank(actual);
+
+    case 'before':
+    case 'after': {
+      const now = getNow(context);
+      const a = toTimestamp(actual, now);
+      const b = toTimestamp(expected, now);
+      if (Number.isNaN(a) || Number.isNaN(b)) return false;
+      return operator === 'before' ? a < b : a > b;
+    }
+    case 'within_hours':
+    case 'within_next_hours':
+    case 'within_last_hours': {
+      const now = getNow(context);
+      const hours = toNumber(rule.value);
+      const at = toTimestamp(actual, now);
+      const reference = rule.valueField ? toTimestamp(getFieldValue(context, rule.valueField), now) : now;
+      if (Number.isNaN(hours) || Number.isNaN(at) || Number.isNaN(reference)) return false;
+
+      const diff = at - reference;
+      const window = hours * HOUR_MS;
+      if (operator === 'within_next_hours') return diff >= 0 && diff <= window;
+      if (operator === 'within_last_hours') return diff <= 0 && -diff <= window;
+      return Math.abs(diff) <= window;
+    }
+
+    default:
+      // Unknown operator – fail closed instead of blowing up the runtime
+      console.warn('[automations] Unknown operator', operator, 'for condition', rule);
+      return false;
+  }
+}
+
+/**
+ * Expected value for a rule: another context field when `valueField` is set
+ * (except for the `within_*` operators, where it is the reference time).
+ */
+function resolveExpected(rule: ConditionRule, context: ConditionContext): unknown {
+  if (rule.valueField && !rule.operator.startsWith('within_')) {
+    return getFieldValue(context, rule.valueField);
+  }
+  return rule.value;
+}
+
+/**
+ * Evaluates a rule or group and records what was compared at every level.
+ * Use this when you need to show why a condition passed or failed.
+ */
+export function traceCondition(condition: AutomationCondition, context: ConditionContext): ConditionTrace {
+  if (isConditionGroup(condition)) {
+    return traceConditions(condition.conditions, context, condition.logic);
+  }
+
+  const actual = getFieldValue(context, condition.field);
+  const expected = resolveExpected(condition, context);
+
+  return {
+    field: condition.field,
+    operator: condition.operator,
+    expected,
+    actual,
+    passed: applyOperator(condition.operator, actual, expected, condition, context),
+  };
+}
+
+/**
+ * Evaluates a list of conditions joined by `logic`, returning the full trace.
+ * An empty list passes (no filters).
+ */
+export function traceConditions(
+  conditions: AutomationCondition[] | undefined | null,
+  context: ConditionContext,
+  logic: 'AND' | 'OR' = 'AND',
+): ConditionGroupTrace {
+  const results = (conditions ?? []).map((c) => traceCondition(c, context));
+
+  const passed =
+    results.length === 0 ||
+    (logic === 'OR' ? results.some((r) => r.passed) : results.every((r) => r.passed));
+
+  return { logic, passed, results };
+}
+
+export function evaluateCondition(condition: AutomationCondition, context: ConditionContext): boolean {
+  return traceCondition(condition, context).passed;
+}
+
+/**
+ * Evaluates an array of conditions with the given boolean operator.
+ * If no conditions are provided, returns true (no filters).
+ */
+export function evaluateConditions(
+  conditions: AutomationCondition[] | undefined | null,
+  context: ConditionContext,
+  logic: 'AND' | 'OR' = 'AND',
+): boolean {
+  return traceConditions(conditions, context, logic).passed;
+}
+
+/**
+ * Save-time checks: unknown operators, missing fields, bad regexes and
+ * non-numeric hour windows. Returns human readable problems (empty = valid).
+ */
+export function validateConditions(conditions: AutomationCondition[] | undefined | null): string[] {
+  const problems: string[] = [];
+
+  const visit = (condition: AutomationCondition, path: string) => {
+    if (isConditionGroup(condition)) {
+      if (condition.logic !== 'AND' && condition.logic !== 'OR') {
+        problems.push(`${path}: group logic must be "AND" or "OR".`);
+      }
+      condition.conditions.forEach((c, i) => visit(c, `${path}.${i + 1}`));
+      return;
+    }
+
+    if (!condition?.field) problems.push(`${path}: field is required.`);
+    if (!CONDITION_OPERATORS.includes(condition?.operator)) {
+      problems.push(`${path}: unknown operator "${condition?.operator}".`);
+      return;
+    }
+    if (condition.operator === 'matches_regex' && !toRegExp(condition.value)) {
+      problems.push(`${path}: "${String(condition.value)}" is not a valid regular expression.`);
+    }
+    if (condition.operator.startsWith('within_') && Number.isNaN(toNumber(condition.value))) {
+      problems.push(`${path}: "${condition.operator}" needs a number of hours as its value.`);
+    }
+  };
+
+  (conditions ?? []).forEach((c, i) => visit(c, `Condition ${i + 1}`));
+  return problems;
+}
@@ -0,0 +1,412 @@
+// supabase/functions/_shared/broadcastCampaigns.ts
+//
+// Delivery of broadcast campaigns. A due campaign's audience is resolved from
+// contacts into broadcast_recipients once, then sent in throttled batches
+// (throttle_per_minute per worker run) through sendTeamMessageBatch, so the
+// compliance guard, failover and message_logs apply as for any other send.
+// Recipient status and the campaign totals are kept up to date by database
+// triggers on message_logs, inbound_messages and message_suppressions.
+import type { MessageChannel, OutboundMessage } from './messageProviders.ts';
+import { normalizeAddress } from './messageCompliance.ts';
+import { renderTemplate } from './templateEngine.ts';
+import { sendTeamMessageBatch, type SendTeamMessageResult } from './teamMessaging.ts';
+import type { DbClient } from './supabaseClient.ts';
+
+export type BroadcastChannel = Extract<MessageChannel, 'sms' | 'email'>;
+
+export type BroadcastCampaignStatus = 'draft' | 'scheduled' | 'sending' | 'sent' | 'cancelled' | 'failed';
+
+/** Contact filters; empty lists match everyone */
+export interface BroadcastAudience {
+  tags?: string[];
+  sources?: string[];
+  /** Default not_opted_out: everyone except contacts who said no */
+  optIn?: 'any' | 'opted_in' | 'not_opted_out';
+  funnelIds?: string[];
+  /** Contacts with at least one appointment in one of these statuses */
+  appointmentStatuses?: string[];
+}
+
+export interface BroadcastCampaignRow {
+  id: string;
+  team_id: string;
+  name: string;
+  channel: BroadcastChannel;
+  subject: string | null;
+  body: string;
+  audience: BroadcastAudience | null;
+  status: BroadcastCampaignStatus;
+  scheduled_at: string | null;
+  throttle_per_minute: number;
+  last_batch_at: string | null;
+}
+
+export interface BroadcastContact {
+  id: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  tags: string[] | null;
+  source: string | null;
+  opt_in: boolean | null;
+  timezone: string | null;
+  custom_fields: Record<string, unknown> | null;
+  created_at: string;
+}
+
+interface BroadcastTeam {
+  id: string;
+  name: string | null;
+  timezone: string | null;
+}
+
+interface ClaimedRecipientRow {
+  id: string;
+  contact_id: string | null;
+  to_address: string;
+  contacts: BroadcastContact | null;
+}
+
+export interface ProcessBroadcastsOptions {
+  supabaseUrl: string;
+  unsubscribeSecret?: string;
+  /** Only this campaign (the "Send now" kick-off); otherwise every due one */
+  campaignId?: string;
+}
+
+export interface BroadcastBatchResult {
+  campaignId: string;
+  attempted: number;
+  completed: boolean;
+}
+
+const CAMPAIGN_COLUMNS =
+  'id, team_id, name, channel, subject, body, audience, status, scheduled_at, throttle_per_minute, last_batch_at';
+
+/** Campaigns one worker run advances */
+const CAMPAIGNS_PER_RUN = 10;
+/** Page size when copying the audience into broadcast_recipients */
+const AUDIENCE_PAGE_SIZE = 1000;
+/**
+ * A campaign gets at most one batch per this window, so a "Send now" kick-off
+ * followed by the scheduled worker doesn't double the rate. Slightly under a
+ * minute to absorb worker jitter.
+ */
+const BATCH_INTERVAL_MS = 50 * 1000;
+
+export function getContactAddress(contact: Pick<BroadcastContact, 'email' | 'phone'>, channel: BroadcastChannel) {
+  const address = channel === 'email' ? contact.email?.trim() : contact.phone?.trim();
+  return address || null;
+}
+
+/** Template context for one recipient: the contact as {{lead.*}} plus {{team.*}}. */
+export function buildBroadcastContext(
+  contact: BroadcastContact,
+  team: BroadcastTeam | null,
+): Record<string, unknown> {
+  const [firstName = '', ...rest] = (contact.name ?? '').trim().split(/\s+/);
+  return {
+    teamId: team?.id,
+    now: new Date().toISOString(),
+    timezone: contact.timezone ?? team?.timezone ?? undefined,
+    lead: {
+      ...contact,
+      first_name: firstName,
+      last_name: rest.join(' '),
+    },
+    team,
+  };
+}
+
+export async function loadBroadcastCampaign(supabase: DbClient, campaignId: string): Promise<BroadcastCampaignRow | null> {
+  const { data, error } = await supabase
+    .from('broadcast_campaigns')
+    .select(CAMPAIGN_COLUMNS)
+    .eq('id', campaignId)
+    .maybeSingle();
+  if (error) console.error('[broadcastCampaigns] Failed to load campaign:', error);
+  return (data as BroadcastCampaignRow | null) ?? null;
+}
+
+/**
+ * Copies the campaign audience into broadcast_recipients. Contacts sharing an
+ * address get one message.
+ */
+async function materializeRecipients(supabase: DbClient, campaign: BroadcastCampaignRow): Promise<number> {
+  let added = 0;
+
+  for (let from = 0; ; from += AUDIENCE_PAGE_SIZE) {
+    const { data: contacts, error } = await supabase
+      .rpc('resolve_broadcast_audience', {
+        p_team_id: campaign.team_id,
+        p_channel: campaign.channel,
+        p_audience: campaign.audience ?? {},
+      })
+      .select('id, email, phone')
+      .range(from, from + AUDIENCE_PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to resolve audience: ${error.message}`);
+
+    const page = (contacts ?? []) as Array<Pick<BroadcastContact, 'id' | 'email' | 'phone'>>;
+    const rows = new Map<string, Record<string, unknown>>();
+    for (const contact of page) {
+      const address = getContactAddress(contact, campaign.channel);
+      if (!address) continue;
+      const addressKey = normalizeAddress(campaign.channel, address);
+      if (!addressKey || rows.has(addressKey)) continue;
+      rows.set(addressKey, {
+        campaign_id: campaign.id,
+        team_id: campaign.team_id,
+        contact_id: contact.id,
+        channel: campaign.channel,
+        to_address: address,
+        address_key: addressKey,
+      });
+    }
+
+    if (rows.size > 0) {
+      const { error: insertError } = await supabase
+        .from('broadcast_recipients')
+        .upsert([...rows.values()], { onConflict: 'campaign_id,address_key', ignoreDuplicates: true });
+      if (insertError) throw new Error(`Failed to add recipients: ${insertError.message}`);
+      added += rows.size;
+    }
+
+    if (page.length < AUDIENCE_PAGE_SIZE) break;
+  }
+
+  return added;
+}
+
+/**
+ * Moves due scheduled campaigns to sending and builds their recipient list.
+ * The status filter makes the claim a compare-and-swap across workers.
+ */
+async function startDueCampaigns(supabase: DbClient, campaignId?: string): Promise<void> {
+  let query = supabase
+    .from('broadcast_campaigns')
+    .select(CAMPAIGN_COLUMNS)
+    .eq('status', 'scheduled')
+    .lte('scheduled_at', new Date().toISOString())
+    .order('scheduled_at', { ascending: true })
+    .limit(CAMPAIGNS_PER_RUN);
+  if (campaignId) query = query.eq('id', campaignId);
+
+  const { data: due, error } = await query;
+  if (error) {
+    console.error('[broadcastCampaigns] Failed to load due campaigns:', error);
+    return;
+  }
+
+  for (const campaign of (due ?? []) as BroadcastCampaignRow[]) {
+    const { data: claimed } = await supabase
+      .from('broadcast_campaigns')
+      .update({ status: 'sending', started_at: new Date().toISOString(), error_message: null })
+      .eq('id', campaign.id)
+      .eq('status', 'scheduled')
+      .select('id')
+      .maybeSingle();
+    if (!claimed) continue;
+
+    try {
+      const count = await materializeRecipients(supabase, campaign);
+      console.log(`[broadcastCampaigns] Campaign ${campaign.id} started with ${count} recipient(s)`);
+    } catch (err) {
+      console.error(`[broadcastCampaigns] Campaign ${campaign.id} failed to start:`, err);
+      await supabase
+        .from('broadcast_campaigns')
+        .update({
+          status: 'failed',
+          completed_at: new Date().toISOString(),
+          error_message: err instanceof Error ? err.message : 'Failed to build audience',
+        })
+        .eq('id', campaign.id);
+    }
+  }
+}
+
+async function finishIfDone(supabase: DbClient, campaign: BroadcastCampaignRow): Promise<boolean> {
+  const { count, error } = await supabase
+    .from('broadcast_recipients')
+    .select('id', { count: 'exact', head: true })
+    .eq('campaign_id', campaign.id)
+    .in('status', ['pending', 'queued', 'deferred']);
+  if (error || (count ?? 0) > 0) return false;
+
+  await supabase
+    .from('broadcast_campaigns')
+    .update({ status: 'sent', completed_at: new Date().toISOString() })
+    .eq('id', campaign.id)
+    .eq('status', 'sending');
+  return true;
+}
+
+/**
+ * Sends the next throttle_per_minute pending recipients of a sending
+ * campaign. Recipients are claimed (pending → queued) first so overlapping
+ * runs never message anyone twice.
+ */
+export async function sendBroadcastBatch(
+  supabase: DbClient,
+  campaign: BroadcastCampaignRow,
+  options: ProcessBroadcastsOptions,
+): Promise<BroadcastBatchResult> {
+  const result: BroadcastBatchResult = { campaignId: campaign.id, attempted: 0, completed: false };
+
+  if (campaign.last_batch_at && Date.now() - new Date(campaign.last_batch_at).getTime() < BATCH_INTERVAL_MS) {
+    return result;
+  }
+  // Claim the slot: only one worker moves last_batch_at on from the value it read
+  let slotQuery = supabase
+    .from('broadcast_campaigns')
+    .update({ last_batch_at: new Date().toISOString() })
+    .eq('id', campaign.id)
+    .eq('status', 'sending');
+  slotQuery = campaign.last_batch_at
+    ? slotQuery.eq('last_batch_at', campaign.last_batch_at)
+    : slotQuery.is('last_batch_at', null);
+  const { data: slot } = await slotQuery.select('id').maybeSingle();
+  if (!slot) return result;
+
+  const { data: pendingRows, error } = await supabase
+    .from('broadcast_recipients')
+    .select('id')
+    .eq('campaign_id', campaign.id)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(campaign.throttle_per_minute);
+  if (error) {
+    console.error('[broadcastCampaigns] Failed to load recipients:', error);
+    return result;
+  }
+  const pending = (pendingRows ?? []) as Array<{ id: string }>;
+  if (pending.length === 0) {
+    result.completed = await finishIfDone(supabase, campaign);
+    return result;
+  }
+
+  const { data: claimedRows, error: claimError } = await supabase
+    .from('broadcast_recipients')
+    .update({ status: 'queued' })
+    .in('id', pending.map((r) => r.id))
+    .eq('status', 'pending')
+    .select('id, contact_id, to_address, contacts(id, name, email, phone, tags, source, opt_in, timezone, custom_fields, created_at)');
+  if (claimError) {
+    console.error('[broadcastCampaigns] Failed to claim recipients:', claimError);
+    return result;
+  }
+  const claimed = (claimedRows ?? []) as ClaimedRecipientRow[];
+
+  const { data: team } = await supabase
+    .from('teams')
+    .select('id, name, timezone')
+    .eq('id', campaign.team_id)
+    .maybeSingle();
+
+  const items = claimed.map((recipient) => {
+    const contact: BroadcastContact = recipient.contacts ?? {
+      id: recipient.contact_id,
+      name: null,
+      email: campaign.channel === 'email' ? recipient.to_address : null,
+      phone: campaign.channel === 'sms' ? recipient.to_address : null,
+      tags: null,
+      source: null,
+      opt_in: null,
+      timezone: null,
+      custom_fields: null,
+      created_at: new Date().toISOString(),
+    };
+    const context = buildBroadcastContext(contact, (team as BroadcastTeam | null) ?? null);
+    const message: OutboundMessage = {
+      teamId: campaign.team_id,
+      channel: campaign.channel,
+      ...(campaign.channel === 'email' ? { toEmail: recipient.to_address } : { toPhone: recipient.to_address }),
+      subject: campaign.channel === 'email' ? renderTemplate(campaign.subject, context) : undefined,
+      text: renderTemplate(campaign.body, context),
+      metadata: { broadcastId: campaign.id, contactId: recipient.contact_id, timezone: contact.timezone ?? undefined },
+    };
+    return {
+      message,
+      options: {
+        supabaseUrl: options.supabaseUrl,
+        unsubscribeSecret: options.unsubscribeSecret,
+        template: campaign.body,
+        broadcastRecipientId: recipient.id,
+        logPayload: { broadcastId: campaign.id, contactId: recipient.contact_id },
+      },
+    };
+  });
+
+  let sent: SendTeamMessageResult[];
+  try {
+    sent = await sendTeamMessageBatch(supabase, campaign.team_id, campaign.channel, items, options.supabaseUrl);
+  } catch (err) {
+    // Recipients whose log was written have moved on; hand the rest to the next batch
+    console.error(`[broadcastCampaigns] Batch send for ${campaign.id} failed:`, err);
+    const { error: releaseError } = await supabase
+      .from('broadcast_recipients')
+      .update({ status: 'pending' })
+      .in('id', claimed.map((r) => r.id))
+      .eq('status', 'queued');
+    if (releaseError) {
+      console.error('[broadcastCampaigns] Failed to release recipients:', releaseError);
+    }
+    return result;
+  }
+  result.attempted = items.length;
+
+  // The message_logs trigger moves recipients along; only a failed log write leaves one queued
+  for (const [i, recipient] of claimed.entries()) {
+    const outcome = sent[i];
+    if (outcome?.logId) continue;
+    console.warn(`[broadcastCampaigns] Recipient ${recipient.id} of ${campaign.id} has no message log`);
+    await supabase
+      .from('broadcast_recipients')
+      .update({
+        status: outcome?.success ? 'sent' : 'failed',
+        error_message: outcome?.error ?? null,
+        ...(outcome?.success ? { sent_at: new Date().toISOString() } : {}),
+      })
+      .eq('id', recipient.id);
+  }
+
+  if (pending.length < campaign.throttle_per_minute) {
+    result.completed = await finishIfDone(supabase, campaign);
+  }
+  return result;
+}
+
+/**
+ * Worker entry point: starts due campaigns, then sends one batch for each
+ * campaign that is sending. Never throws.
+ */
+export async function processBroadcastCampaigns(
+  supabase: DbClient,
+  options: ProcessBroadcastsOptions,
+): Promise<BroadcastBatchResult[]> {
+  await startDueCampaigns(supabase, options.campaignId);
+
+  let query = supabase
+    .from('broadcast_campaigns')
+    .select(CAMPAIGN_COLUMNS)
+    .eq('status', 'sending')
+    .order('started_at', { ascending: true })
+    .limit(CAMPAIGNS_PER_RUN);
+  if (options.campaignId) query = query.eq('id', options.campaignId);
+
+  const { data: sending, error } = await query;
+  if (error) {
+    console.error('[broadcastCampaigns] Failed to load sending campaigns:', error);
+    return [];
+  }
+
+  const results: BroadcastBatchResult[] = [];
+  for (const campaign of (sending ?? []) as BroadcastCampaignRow[]) {
+    try {
+      results.push(await sendBroadcastBatch(supabase, campaign, options));
+    } catch (err) {
+      console.error(`[broadcastCampaigns] Batch for campaign ${campaign.id} failed:`, err);
+    }
+  }
+  return results;
+}
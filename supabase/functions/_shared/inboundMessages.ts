@@ -0,0 +1,183 @@
+// supabase/functions/_shared/inboundMessages.ts
+//
+// Inbound SMS replies: keyword intent detection, matching the sender to the
+// team's contacts / appointments, applying the intent and storing the message
+// in inbound_messages. Callers pass a service-role Supabase client.
+import { addSuppression } from './messageCompliance.ts';
+import type { DbClient } from './supabaseClient.ts';
+
+export type InboundIntent = 'confirm' | 'opt_out' | 'reschedule';
+
+/** First word of the reply → intent. Carrier opt-out words are honoured too. */
+export const INTENT_KEYWORDS: Record<InboundIntent, readonly string[]> = {
+  confirm: ['YES', 'Y', 'CONFIRM', 'CONFIRMED'],
+  opt_out: ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'END', 'QUIT'],
+  reschedule: ['RESCHEDULE'],
+};
+
+export interface InboundMessage {
+  teamId: string;
+  provider: string;
+  providerMessageId?: string | null;
+  from: string;
+  to?: string | null;
+  body: string;
+  raw?: Record<string, unknown>;
+}
+
+/** A contacts row matched by phone */
+export interface InboundContact {
+  id: string;
+  name?: string | null;
+  opt_in?: boolean | null;
+  [column: string]: unknown;
+}
+
+/** The sender's most relevant appointments row */
+export interface InboundAppointment {
+  id: string;
+  team_id: string;
+  status: string;
+  lead_name?: string | null;
+  [column: string]: unknown;
+}
+
+export interface InboundMessageResult {
+  inboundId: string | null;
+  /** The provider already delivered this message; nothing was applied again */
+  duplicate: boolean;
+  intent: InboundIntent | null;
+  contact: InboundContact | null;
+  appointment: InboundAppointment | null;
+}
+
+export function detectIntent(body: string): InboundIntent | null {
+  const firstWord = body.trim().toUpperCase().replace(/[^A-Z\s]/g, '').split(/\s+/)[0] ?? '';
+  for (const [intent, keywords] of Object.entries(INTENT_KEYWORDS) as [InboundIntent, readonly string[]][]) {
+    if (keywords.includes(firstWord)) return intent;
+  }
+  return null;
+}
+
+async function logAppointmentActivity(supabase: DbClient, appointment: InboundAppointment, actionType: string, note: string) {
+  const { error } = await supabase.from('activity_logs').insert({
+    team_id: appointment.team_id,
+    appointment_id: appointment.id,
+    actor_name: appointment.lead_name || 'Lead',
+    action_type: actionType,
+    note,
+  });
+  if (error) console.error('[inboundMessages] Failed to log activity:', error);
+}
+
+/** Idempotent, and throws so a failed opt-out is retried rather than lost */
+async function recordOptOut(supabase: DbClient, message: InboundMessage, contacts: InboundContact[]): Promise<void> {
+  // The number goes on the suppression list even when it matches no contact
+  await addSuppression(supabase, {
+    teamId: message.teamId,
+    channel: 'sms',
+    address: message.from,
+    reason: 'opt_out_reply',
+    source: message.body.trim().slice(0, 100),
+  });
+  // Every contact record with this number stops receiving messages
+  if (contacts.length > 0) {
+    const { error } = await supabase
+      .from('contacts')
+      .update({ opt_in: false })
+      .in('id', contacts.map((c) => c.id));
+    if (error) throw new Error(`Failed to opt out contacts: ${error.message}`);
+    for (const contact of contacts) contact.opt_in = false;
+  }
+}
+
+async function applyIntent(
+  supabase: DbClient,
+  intent: InboundIntent,
+  message: InboundMessage,
+  contacts: InboundContact[],
+  appointment: InboundAppointment | null,
+): Promise<void> {
+  switch (intent) {
+    case 'confirm': {
+      if (!appointment) return;
+      if (appointment.status === 'NEW') {
+        const { error } = await supabase.from('appointments').update({ status: 'CONFIRMED' }).eq('id', appointment.id);
+        if (error) console.error('[inboundMessages] Failed to confirm appointment:', error);
+        else appointment.status = 'CONFIRMED';
+      }
+      await logAppointmentActivity(supabase, appointment, 'Confirmed via SMS', `Lead replied "${message.body.trim()}"`);
+      return;
+    }
+    case 'opt_out': {
+      await recordOptOut(supabase, message, contacts);
+      if (appointment) {
+        await logAppointmentActivity(supabase, appointment, 'Opted out via SMS', `Lead replied "${message.body.trim()}"`);
+      }
+      return;
+    }
+    case 'reschedule': {
+      if (appointment) {
+        await logAppointmentActivity(
+          supabase,
+          appointment,
+          'Reschedule requested via SMS',
+          `Lead replied "${message.body.trim()}"`,
+        );
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Stores an inbound message against the sender's contact / appointment and
+ * applies its keyword intent. Duplicate webhook deliveries are detected by
+ * provider message id and not applied twice, except that an opt-out is
+ * recorded again: the delivery that stored the message may have failed to.
+ * Throws when an opt-out can't be recorded, so the webhook is retried.
+ */
+export async function handleInboundMessage(supabase: DbClient, message: InboundMessage): Promise<InboundMessageResult> {
+  const [{ data: contacts, error: contactError }, { data: appointments, error: appointmentError }] = await Promise.all([
+    supabase.rpc('find_contacts_by_phone', { p_team_id: message.teamId, p_phone: message.from }),
+    supabase.rpc('find_appointments_by_phone', { p_team_id: message.teamId, p_phone: message.from }),
+  ]);
+  if (contactError) console.error('[inboundMessages] Contact lookup failed:', contactError);
+  if (appointmentError) console.error('[inboundMessages] Appointment lookup failed:', appointmentError);
+
+  const matchedContacts = (contacts ?? []) as InboundContact[];
+  const contact = matchedContacts[0] ?? null;
+  const appointment = ((appointments ?? []) as InboundAppointment[])[0] ?? null;
+  const intent = detectIntent(message.body);
+
+  const { data: inserted, error } = await supabase
+    .from('inbound_messages')
+    .insert({
+      team_id: message.teamId,
+      contact_id: contact?.id ?? null,
+      appointment_id: appointment?.id ?? null,
+      channel: 'sms',
+      provider: message.provider,
+      provider_message_id: message.providerMessageId ?? null,
+      from_address: message.from,
+      to_address: message.to ?? null,
+      body: message.body,
+      intent,
+      payload: message.raw ?? {},
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    // Unique violation on (provider, provider_message_id): a webhook retry
+    if (error.code === '23505') {
+      if (intent === 'opt_out') await recordOptOut(supabase, message, matchedContacts);
+      return { inboundId: null, duplicate: true, intent, contact, appointment };
+    }
+    throw new Error(`Failed to store inbound message: ${error.message}`);
+  }
+
+  if (intent) await applyIntent(supabase, intent, message, matchedContacts, appointment);
+
+  return { inboundId: (inserted as { id: string }).id, duplicate: false, intent, contact, appointment };
+}
@@ -0,0 +1,328 @@
+// supabase/functions/_shared/messageCompliance.ts
+//
+// Compliance guard in front of every outbound SMS / email:
+//   1. team suppression list (STOP replies, unsubscribe links, manual entries)
+//   2. contacts.opt_in explicitly false
+//   3. per-contact daily / weekly caps
+//   4. quiet hours in the contact's timezone – deferred, never dropped
+//
+// The pure helpers run anywhere; evaluateCompliance needs a service-role
+// Supabase client.
+import type { MessageChannel, OutboundMessage } from './messageProviders.ts';
+import type { DbClient } from './supabaseClient.ts';
+
+export interface MessageComplianceConfig {
+  /** Local hour (0-23) quiet hours start; null disables quiet hours */
+  quiet_hours_start: number | null;
+  /** Local hour (0-23) quiet hours end */
+  quiet_hours_end: number | null;
+  /** Max messages per contact in 24h; null disables */
+  daily_cap: number | null;
+  /** Max messages per contact in 7 days; null disables */
+  weekly_cap: number | null;
+}
+
+export const DEFAULT_COMPLIANCE_CONFIG: MessageComplianceConfig = {
+  quiet_hours_start: 21,
+  quiet_hours_end: 8,
+  daily_cap: 6,
+  weekly_cap: 20,
+};
+
+export type SuppressionReason =
+  | 'suppressed_opt_out_reply'
+  | 'suppressed_unsubscribe_link'
+  | 'suppressed_manual'
+  | 'contact_not_opted_in'
+  | 'daily_cap_reached'
+  | 'weekly_cap_reached';
+
+export type ComplianceDecision =
+  | { action: 'send' }
+  | { action: 'suppress'; reason: SuppressionReason | string }
+  | { action: 'defer'; reason: 'quiet_hours'; deferUntil: string; timeZone: string };
+
+/** Message sources that are replies to the lead and skip frequency caps */
+const CAP_EXEMPT_SOURCES = ['conversation'];
+
+/** Appointment reminders are for a time the lead picked; deferring them would land after the call */
+const QUIET_HOURS_EXEMPT_SOURCES = ['appointment_reminder'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getMessageAddress(message: Pick<OutboundMessage, 'channel' | 'toPhone' | 'toEmail'>): string {
+  return (message.channel === 'email' ? message.toEmail : message.toPhone) || '';
+}
+
+/**
+ * Key a suppression is stored under: lowercase email, or the last 10 digits
+ * of a phone number (same as the phone_match_key SQL function).
+ */
+export function normalizeAddress(channel: MessageChannel, address: string): string {
+  if (channel === 'email') return address.trim().toLowerCase();
+  return address.replace(/\D/g, '').slice(-10);
+}
+
+/** The same number / email as it may appear in message_logs.to_address */
+export function addressVariants(channel: MessageChannel, address: string): string[] {
+  if (channel === 'email') return [...new Set([address, address.trim().toLowerCase()])].filter(Boolean);
+
+  const digits = address.replace(/\D/g, '');
+  const variants = new Set([address, digits, `+${digits}`]);
+  if (digits.length === 10) variants.add(`+1${digits}`);
+  return [...variants].filter(Boolean);
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function localMinutes(now: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const hour = Number(parts.find((p) => p.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find((p) => p.type === 'minute')?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+/**
+ * When quiet hours are in effect at `now` in the time zone, the moment they
+ * end; otherwise null. Windows may wrap midnight (21 → 8).
+ */
+export function getQuietHoursEnd(
+  now: Date,
+  timeZone: string,
+  config: Pick<MessageComplianceConfig, 'quiet_hours_start' | 'quiet_hours_end'>,
+): Date | null {
+  const { quiet_hours_start: start, quiet_hours_end: end } = config;
+  if (start === null || end === null || start === end) return null;
+
+  const minutes = localMinutes(now, isValidTimeZone(timeZone) ? timeZone : 'UTC');
+  const startMin = start * 60;
+  const endMin = end * 60;
+  const inQuietHours = startMin < endMin
+    ? minutes >= startMin && minutes < endMin
+    : minutes >= startMin || minutes < endMin;
+  if (!inQuietHours) return null;
+
+  const minutesUntilEnd = (endMin - minutes + 24 * 60) % (24 * 60);
+  const endsAt = new Date(now.getTime() + minutesUntilEnd * 60 * 1000);
+  endsAt.setUTCSeconds(0, 0);
+  return endsAt;
+}
+
+export function resolveComplianceConfig(raw: unknown): MessageComplianceConfig {
+  const value = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const pick = (key: keyof MessageComplianceConfig) =>
+    key in value ? (value[key] === null ? null : Number(value[key])) : DEFAULT_COMPLIANCE_CONFIG[key];
+  return {
+    quiet_hours_start: pick('quiet_hours_start'),
+    quiet_hours_end: pick('quiet_hours_end'),
+    daily_cap: pick('daily_cap'),
+    weekly_cap: pick('weekly_cap'),
+  };
+}
+
+async function findContacts(supabase: DbClient, teamId: string, channel: MessageChannel, address: string) {
+  if (channel === 'email') {
+    const { data } = await supabase
+      .from('contacts')
+      .select('id, opt_in, timezone')
+      .eq('team_id', teamId)
+      .ilike('email', address.trim());
+    return (data ?? []) as Array<{ id: string; opt_in: boolean | null; timezone: string | null }>;
+  }
+  const { data } = await supabase.rpc('find_contacts_by_phone', { p_team_id: teamId, p_phone: address });
+  return (data ?? []) as Array<{ id: string; opt_in: boolean | null; timezone: string | null }>;
+}
+
+async function countRecentMessages(
+  supabase: DbClient,
+  teamId: string,
+  channel: MessageChannel,
+  address: string,
+  since: Date,
+): Promise<number> {
+  const { count, error } = await supabase
+    .from('message_logs')
+    .select('id', { count: 'exact', head: true })
+    .eq('team_id', teamId)
+    .eq('channel', channel)
+    .in('to_address', addressVariants(channel, address))
+    .in('status', ['sent', 'delivered'])
+    .gte('created_at', since.toISOString());
+
+  if (error) {
+    console.error('[messageCompliance] Failed to count recent messages:', error);
+    return 0;
+  }
+  return count ?? 0;
+}
+
+/**
+ * Decides whether a message may go out now, must be suppressed, or has to
+ * wait for quiet hours to end. Only SMS and email are checked.
+ */
+export async function evaluateCompliance(
+  supabase: DbClient,
+  message: OutboundMessage,
+  now: Date = new Date(),
+): Promise<ComplianceDecision> {
+  if (message.channel !== 'sms' && message.channel !== 'email') return { action: 'send' };
+
+  const address = getMessageAddress(message);
+  if (!address) return { action: 'send' };
+
+  const normalized = normalizeAddress(message.channel, address);
+  const [{ data: suppressionRow }, { data: teamRow }, contacts] = await Promise.all([
+    supabase
+      .from('message_suppressions')
+      .select('reason')
+      .eq('team_id', message.teamId)
+      .eq('address', normalized)
+      .eq('channel', message.channel)
+      .maybeSingle(),
+    supabase.from('teams').select('timezone, message_compliance_config').eq('id', message.teamId).maybeSingle(),
+    findContacts(supabase, message.teamId, message.channel, address),
+  ]);
+  const suppression = suppressionRow as { reason: string } | null;
+  const team = teamRow as { timezone: string | null; message_compliance_config: unknown } | null;
+
+  if (suppression) return { action: 'suppress', reason: `suppressed_${suppression.reason}` };
+  if (contacts.some((c) => c.opt_in === false)) return { action: 'suppress', reason: 'contact_not_opted_in' };
+
+  const config = resolveComplianceConfig(team?.message_compliance_config);
+
+  if (!CAP_EXEMPT_SOURCES.includes(message.metadata?.source)) {
+    if (config.daily_cap !== null) {
+      const sentToday = await countRecentMessages(supabase, message.teamId, message.channel, address, new Date(now.getTime() - DAY_MS));
+      if (sentToday >= config.daily_cap) return { action: 'suppress', reason: 'daily_cap_reached' };
+    }
+    if (config.weekly_cap !== null) {
+      const sentThisWeek = await countRecentMessages(supabase, message.teamId, message.channel, address, new Date(now.getTime() - 7 * DAY_MS));
+      if (sentThisWeek >= config.weekly_cap) return { action: 'suppress', reason: 'weekly_cap_reached' };
+    }
+  }
+
+  if (QUIET_HOURS_EXEMPT_SOURCES.includes(message.metadata?.source)) return { action: 'send' };
+
+  const timeZone = contacts.find((c) => c.timezone)?.timezone || message.metadata?.timezone || team?.timezone || 'UTC';
+  const quietUntil = getQuietHoursEnd(now, timeZone, config);
+  if (quietUntil) {
+    return { action: 'defer', reason: 'quiet_hours', deferUntil: quietUntil.toISOString(), timeZone };
+  }
+
+  return { action: 'send' };
+}
+
+/**
+ * Adds an address to the team's suppression list. Re-suppressing an address
+ * is a no-op; throws when the write fails.
+ */
+export async function addSuppression(
+  supabase: DbClient,
+  params: {
+    teamId: string;
+    channel: MessageChannel;
+    address: string;
+    reason: 'opt_out_reply' | 'unsubscribe_link' | 'manual';
+    source?: string | null;
+  },
+): Promise<void> {
+  const { error } = await supabase.from('message_suppressions').upsert(
+    {
+      team_id: params.teamId,
+      channel: params.channel,
+      address: normalizeAddress(params.channel, params.address),
+      reason: params.reason,
+      source: params.source ?? null,
+    },
+    { onConflict: 'team_id,channel,address', ignoreDuplicates: true },
+  );
+  if (error) throw new Error(`Failed to add suppression: ${error.message}`);
+}
+
+// --- Email unsubscribe links ---
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function hmacSha256(secret: string, data: string): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(data)));
+}
+
+/** Signed `<payload>.<signature>` token identifying a team + email address */
+export async function signUnsubscribeToken(secret: string, teamId: string, email: string): Promise<string> {
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify({ t: teamId, e: normalizeAddress('email', email) })));
+  return `${payload}.${toBase64Url(await hmacSha256(secret, payload))}`;
+}
+
+export async function verifyUnsubscribeToken(
+  secret: string,
+  token: string,
+): Promise<{ teamId: string; email: string } | null> {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = toBase64Url(await hmacSha256(secret, payload));
+  if (expected.length !== signature.length) return null;
+  let mismatch = 0;
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  if (mismatch !== 0) return null;
+
+  try {
+    const { t, e } = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    return typeof t === 'string' && typeof e === 'string' ? { teamId: t, email: e } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getUnsubscribeUrl(supabaseUrl: string, token: string): string {
+  return `${supabaseUrl}/functions/v1/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Appends the unsubscribe link to an email's text / html body and sets the
+ * List-Unsubscribe headers mail clients show as a one-click button.
+ */
+export function withUnsubscribeLink(message: OutboundMessage, unsubscribeUrl: string): OutboundMessage {
+  return {
+    ...message,
+    text: `${message.text}\n\nUnsubscribe: ${unsubscribeUrl}`,
+    ...(message.html
+      ? { html: `${message.html}<p style="font-size:12px;color:#888"><a href="${unsubscribeUrl}">Unsubscribe</a></p>` }
+      : {}),
+    headers: {
+      ...message.headers,
+      'List-Unsubscribe': `<${unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  };
+}
@@ -0,0 +1,540 @@
+// supabase/functions/_shared/messageProviders.ts
+//
+// Real SMS / email providers behind the MessageProvider interface, plus
+// per-channel failover and the mapping of provider delivery callbacks onto
+// message_logs statuses. Only uses fetch and Web Crypto, so the same code runs
+// in the edge functions (Deno) and type-checks in the app (Vite).
+//
+// Credentials come from team_integrations rows (one per provider):
+//   twilio   { account_sid, auth_token, from_phone?, messaging_service_sid?, priority? }
+//   sendgrid { api_key, from_email, from_name?, webhook_token?, priority? }
+//   resend   { api_key, from_email, from_name?, webhook_token?, priority? }
+
+export type MessageChannel = 'sms' | 'email' | 'voice' | 'in_app';
+
+export interface OutboundMessage {
+  teamId: string;
+  channel: MessageChannel;
+
+  // Destinations (only some used depending on channel)
+  toPhone?: string;
+  toEmail?: string;
+
+  subject?: string;
+  text: string;
+  html?: string;
+  /** Extra email headers (e.g. List-Unsubscribe); ignored for SMS */
+  headers?: Record<string, string>;
+  metadata?: OutboundMessageMetadata;
+}
+
+/** Free-form context kept with a message; the compliance guard reads source and timezone */
+export interface OutboundMessageMetadata {
+  source?: string;
+  timezone?: string;
+  /** Set when an automation step sends the message */
+  automationId?: string;
+  [key: string]: unknown;
+}
+
+export interface MessageResult {
+  success: boolean;
+  providerId?: string;
+  providerMessageId?: string;
+  error?: string;
+}
+
+export type MessageProviderId = string;
+
+export interface MessageProvider {
+  id: MessageProviderId;
+  label?: string;
+  channels: MessageChannel[];
+
+  send(message: OutboundMessage): Promise<MessageResult>;
+
+  sendBatch?(messages: OutboundMessage[]): Promise<MessageResult[]>;
+}
+
+/** Statuses a message_logs row moves through */
+export type MessageDeliveryStatus = 'queued' | 'sent' | 'delivered' | 'failed' | 'bounced';
+
+export interface ProviderAttempt {
+  providerId: string;
+  success: boolean;
+  providerMessageId?: string;
+  error?: string;
+}
+
+export interface FailoverResult extends MessageResult {
+  attempts: ProviderAttempt[];
+  /** From address of the provider that sent it */
+  fromAddress?: string;
+}
+
+export const PROVIDER_TIMEOUT_MS = 10_000;
+/** Most emails Resend accepts in one batch request */
+export const RESEND_BATCH_LIMIT = 100;
+
+/** integration_type → channel it sends on */
+export const MESSAGE_PROVIDER_INTEGRATIONS: Record<string, MessageChannel> = {
+  twilio: 'sms',
+  sendgrid: 'email',
+  resend: 'email',
+};
+
+async function fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PROVIDER_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function describeError(err: unknown): string {
+  if (err instanceof Error) return err.name === 'AbortError' ? 'Provider timed out' : err.message;
+  return 'Unknown error';
+}
+
+function formatFrom(email: string, name?: string): string {
+  return name ? `${name} <${email}>` : email;
+}
+
+// --- Twilio (SMS) ---
+
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  fromPhone?: string;
+  messagingServiceSid?: string;
+  /** Twilio posts delivery updates here */
+  statusCallbackUrl?: string;
+}
+
+export class TwilioSmsProvider implements MessageProvider {
+  id = 'twilio';
+  label = 'Twilio';
+  channels: MessageChannel[] = ['sms'];
+  private cfg: TwilioConfig;
+
+  constructor(cfg: TwilioConfig) {
+    this.cfg = cfg;
+  }
+
+  get fromAddress(): string | undefined {
+    return this.cfg.fromPhone || this.cfg.messagingServiceSid;
+  }
+
+  async send(message: OutboundMessage): Promise<MessageResult> {
+    if (!message.toPhone) {
+      return { success: false, providerId: this.id, error: 'Missing destination phone number' };
+    }
+
+    const form = new URLSearchParams({ To: message.toPhone, Body: message.text });
+    if (this.cfg.messagingServiceSid) {
+      form.set('MessagingServiceSid', this.cfg.messagingServiceSid);
+    } else if (this.cfg.fromPhone) {
+      form.set('From', this.cfg.fromPhone);
+    } else {
+      return { success: false, providerId: this.id, error: 'Twilio needs a from number or messaging service' };
+    }
+    if (this.cfg.statusCallbackUrl) form.set('StatusCallback', this.cfg.statusCallbackUrl);
+
+    try {
+      const res = await fetchWithTimeout(
+        `https://api.twilio.com/2010-04-01/Accounts/${this.cfg.accountSid}/Messages.json`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Basic ${btoa(`${this.cfg.accountSid}:${this.cfg.authToken}`)}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: form.toString(),
+        },
+      );
+      const body = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        return {
+          success: false,
+          providerId: this.id,
+          error: `Twilio ${body?.code ?? res.status}: ${body?.message ?? res.statusText}`,
+        };
+      }
+      return { success: true, providerId: this.id, providerMessageId: body.sid };
+    } catch (err) {
+      return { success: false, providerId: this.id, error: describeError(err) };
+    }
+  }
+}
+
+// --- Transactional email ---
+
+export interface EmailProviderConfig {
+  apiKey: string;
+  fromEmail: string;
+  fromName?: string;
+}
+
+export class SendgridEmailProvider implements MessageProvider {
+  id = 'sendgrid';
+  label = 'SendGrid';
+  channels: MessageChannel[] = ['email'];
+  private cfg: EmailProviderConfig;
+
+  constructor(cfg: EmailProviderConfig) {
+    this.cfg = cfg;
+  }
+
+  get fromAddress(): string {
+    return this.cfg.fromEmail;
+  }
+
+  async send(message: OutboundMessage): Promise<MessageResult> {
+    if (!message.toEmail) {
+      return { success: false, providerId: this.id, error: 'Missing destination email' };
+    }
+
+    const content = [{ type: 'text/plain', value: message.text }];
+    if (message.html) content.push({ type: 'text/html', value: message.html });
+
+    try {
+      const res = await fetchWithTimeout('https://api.sendgrid.com/v3/mail/send', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.cfg.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          personalizations: [{ to: [{ email: message.toEmail }] }],
+          from: { email: this.cfg.fromEmail, ...(this.cfg.fromName ? { name: this.cfg.fromName } : {}) },
+          subject: message.subject || '(no subject)',
+          content,
+          ...(message.headers ? { headers: message.headers } : {}),
+        }),
+      });
+
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        return {
+          success: false,
+          providerId: this.id,
+          error: `SendGrid ${res.status}: ${body?.errors?.[0]?.message ?? res.statusText}`,
+        };
+      }
+      // Event webhooks report sg_message_id as "<X-Message-Id>.<suffix>"
+      return { success: true, providerId: this.id, providerMessageId: res.headers.get('X-Message-Id') ?? undefined };
+    } catch (err) {
+      return { success: false, providerId: this.id, error: describeError(err) };
+    }
+  }
+}
+
+export class ResendEmailProvider implements MessageProvider {
+  id = 'resend';
+  label = 'Resend';
+  channels: MessageChannel[] = ['email'];
+  private cfg: EmailProviderConfig;
+
+  constructor(cfg: EmailProviderConfig) {
+    this.cfg = cfg;
+  }
+
+  get fromAddress(): string {
+    return this.cfg.fromEmail;
+  }
+
+  private toEmailBody(message: OutboundMessage) {
+    return {
+      from: formatFrom(this.cfg.fromEmail, this.cfg.fromName),
+      to: [message.toEmail],
+      subject: message.subject || '(no subject)',
+      text: message.text,
+      ...(message.html ? { html: message.html } : {}),
+      ...(message.headers ? { headers: message.headers } : {}),
+    };
+  }
+
+  async send(message: OutboundMessage): Promise<MessageResult> {
+    if (!message.toEmail) {
+      return { success: false, providerId: this.id, error: 'Missing destination email' };
+    }
+
+    try {
+      const res = await fetchWithTimeout('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.cfg.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(this.toEmailBody(message)),
+      });
+      const body = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        return { success: false, providerId: this.id, error: `Resend ${res.status}: ${body?.message ?? res.statusText}` };
+      }
+      return { success: true, providerId: this.id, providerMessageId: body.id };
+    } catch (err) {
+      return { success: false, providerId: this.id, error: describeError(err) };
+    }
+  }
+
+  /** Up to RESEND_BATCH_LIMIT emails per request; the batch succeeds or fails as a whole. */
+  async sendBatch(messages: OutboundMessage[]): Promise<MessageResult[]> {
+    const results: MessageResult[] = [];
+
+    for (let i = 0; i < messages.length; i += RESEND_BATCH_LIMIT) {
+      const chunk = messages.slice(i, i + RESEND_BATCH_LIMIT);
+      const sendable = chunk.filter((m) => m.toEmail);
+      let chunkError: string | null = null;
+      let ids: string[] = [];
+
+      if (sendable.length > 0) {
+        try {
+          const res = await fetchWithTimeout('https://api.resend.com/emails/batch', {
+            method: 'POST',
+            headers: {
+              Authorization: `Bearer ${this.cfg.apiKey}`,
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(sendable.map((m) => this.toEmailBody(m))),
+          });
+          const body = await res.json().catch(() => ({}));
+          if (res.ok) ids = (body?.data ?? []).map((d: { id: string }) => d.id);
+          else chunkError = `Resend ${res.status}: ${body?.message ?? res.statusText}`;
+        } catch (err) {
+          chunkError = describeError(err);
+        }
+      }
+
+      let next = 0;
+      for (const message of chunk) {
+        if (!message.toEmail) {
+          results.push({ success: false, providerId: this.id, error: 'Missing destination email' });
+        } else if (chunkError) {
+          results.push({ success: false, providerId: this.id, error: chunkError });
+        } else {
+          results.push({ success: true, providerId: this.id, providerMessageId: ids[next++] });
+        }
+      }
+    }
+
+    return results;
+  }
+}
+
+// --- Building providers from team_integrations ---
+
+/** team_integrations.config of a messaging provider (see the header for which keys each uses) */
+export interface MessageProviderConfig {
+  account_sid?: string;
+  auth_token?: string;
+  from_phone?: string;
+  messaging_service_sid?: string;
+  api_key?: string;
+  from_email?: string;
+  from_name?: string;
+  webhook_token?: string;
+  priority?: number | string;
+}
+
+export interface MessageProviderIntegration {
+  integration_type: string;
+  config: MessageProviderConfig | null;
+  is_connected: boolean | null;
+}
+
+export type ConfiguredMessageProvider = MessageProvider & { fromAddress?: string };
+
+/**
+ * Provider for a team_integrations row, or null when the row is not a
+ * messaging provider or is missing credentials.
+ */
+export function buildMessageProvider(
+  integration: MessageProviderIntegration,
+  options: { statusCallbackUrl?: string } = {},
+): ConfiguredMessageProvider | null {
+  const config = integration.config ?? {};
+  if (!integration.is_connected) return null;
+
+  switch (integration.integration_type) {
+    case 'twilio':
+      if (!config.account_sid || !config.auth_token) return null;
+      return new TwilioSmsProvider({
+        accountSid: config.account_sid,
+        authToken: config.auth_token,
+        fromPhone: config.from_phone,
+        messagingServiceSid: config.messaging_service_sid,
+        statusCallbackUrl: options.statusCallbackUrl,
+      });
+    case 'sendgrid':
+      if (!config.api_key || !config.from_email) return null;
+      return new SendgridEmailProvider({ apiKey: config.api_key, fromEmail: config.from_email, fromName: config.from_name });
+    case 'resend':
+      if (!config.api_key || !config.from_email) return null;
+      return new ResendEmailProvider({ apiKey: config.api_key, fromEmail: config.from_email, fromName: config.from_name });
+    default:
+      return null;
+  }
+}
+
+/** Connected providers for a channel, primary first (lowest config.priority). */
+export function selectChannelIntegrations<T extends MessageProviderIntegration>(
+  integrations: T[],
+  channel: MessageChannel,
+): T[] {
+  return integrations
+    .filter((i) => i.is_connected && MESSAGE_PROVIDER_INTEGRATIONS[i.integration_type] === channel)
+    .sort((a, b) => Number(a.config?.priority ?? 100) - Number(b.config?.priority ?? 100));
+}
+
+/**
+ * Tries each provider in order until one accepts the message. Every attempt
+ * is returned so the log shows why the primary was skipped.
+ */
+export async function sendWithFailover(
+  providers: ConfiguredMessageProvider[],
+  message: OutboundMessage,
+): Promise<FailoverResult> {
+  const attempts: ProviderAttempt[] = [];
+
+  for (const provider of providers) {
+    let result: MessageResult;
+    try {
+      result = await provider.send(message);
+    } catch (err) {
+      result = { success: false, providerId: provider.id, error: describeError(err) };
+    }
+
+    attempts.push({
+      providerId: provider.id,
+      success: result.success,
+      providerMessageId: result.providerMessageId,
+      error: result.error,
+    });
+
+    if (result.success) {
+      return { ...result, providerId: provider.id, fromAddress: provider.fromAddress, attempts };
+    }
+    console.warn(`[messageProviders] ${provider.id} failed for ${message.channel}: ${result.error}`);
+  }
+
+  if (attempts.length === 0) {
+    return { success: false, error: `no_provider_for_${message.channel}`, attempts };
+  }
+
+  const last = attempts[attempts.length - 1];
+  return {
+    success: false,
+    providerId: last.providerId,
+    error: attempts.map((a) => `${a.providerId}: ${a.error}`).join('; '),
+    attempts,
+  };
+}
+
+// --- Delivery status callbacks ---
+
+const STATUS_RANK: Record<MessageDeliveryStatus, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  failed: 2,
+  bounced: 2,
+};
+
+/**
+ * Callbacks arrive out of order (Twilio may report "sent" after
+ * "delivered"); a status only replaces one that is less final.
+ */
+export function shouldApplyStatus(current: string, next: MessageDeliveryStatus): boolean {
+  const currentRank = STATUS_RANK[current as MessageDeliveryStatus] ?? 0;
+  return STATUS_RANK[next] > currentRank;
+}
+
+export function mapTwilioStatus(status: string | null | undefined): MessageDeliveryStatus | null {
+  switch (status) {
+    case 'queued':
+    case 'accepted':
+    case 'scheduled':
+      return 'queued';
+    case 'sending':
+    case 'sent':
+      return 'sent';
+    case 'delivered':
+      return 'delivered';
+    case 'undelivered':
+    case 'failed':
+    case 'canceled':
+      return 'failed';
+    default:
+      return null;
+  }
+}
+
+export function mapSendgridEvent(event: string | null | undefined): MessageDeliveryStatus | null {
+  switch (event) {
+    case 'processed':
+      return 'sent';
+    case 'delivered':
+      return 'delivered';
+    case 'bounce':
+      return 'bounced';
+    case 'dropped':
+      return 'failed';
+    default:
+      return null;
+  }
+}
+
+export function mapResendEvent(type: string | null | undefined): MessageDeliveryStatus | null {
+  switch (type) {
+    case 'email.sent':
+      return 'sent';
+    case 'email.delivered':
+      return 'delivered';
+    case 'email.bounced':
+      return 'bounced';
+    case 'email.failed':
+      return 'failed';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validates X-Twilio-Signature: base64 HMAC-SHA1 of the callback URL followed
+ * by every POST parameter (sorted by name) as name+value.
+ */
+export async function verifyTwilioSignature(
+  authToken: string,
+  url: string,
+  params: Record<string, string>,
+  signature: string | null,
+): Promise<boolean> {
+  if (!signature) return false;
+
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(authToken),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign'],
+  );
+  const digest = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(data)));
+  const expected = btoa(String.fromCharCode(...digest));
+
+  if (expected.length !== signature.length) return false;
+  let mismatch = 0;
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
@@ -0,0 +1,486 @@
+// supabase/functions/_shared/powerDialer.ts
+//
+// Power dialer queues: adding contacts (from automations and setters), the
+// disposition rules that decide when a contact comes back up, and the
+// external dialers a queue can mirror its contacts to. Only uses fetch, so
+// the same code runs in the edge functions (Deno) and type-checks in the app.
+//
+// Credentials come from team_integrations rows (one per provider):
+//   phoneburner { access_token }
+//   close       { api_key }
+// The mock provider needs none; it records what it was sent for local testing.
+import type { DbClient } from './supabaseClient.ts';
+
+export type DialerQueueProvider = 'in_app' | 'phoneburner' | 'close' | 'mock';
+export type DialerItemStatus = 'pending' | 'in_progress' | 'completed' | 'skipped';
+export type DialerDisposition = 'connected' | 'no_answer' | 'voicemail' | 'booked';
+
+export const DIALER_DISPOSITIONS: { value: DialerDisposition; label: string; retries: boolean }[] = [
+  { value: 'connected', label: 'Connected', retries: false },
+  { value: 'no_answer', label: 'No Answer', retries: true },
+  { value: 'voicemail', label: 'Voicemail', retries: true },
+  { value: 'booked', label: 'Booked', retries: false },
+];
+
+export const DIALER_PROVIDER_LABELS: Record<DialerQueueProvider, string> = {
+  in_app: 'In-app',
+  phoneburner: 'PhoneBurner',
+  close: 'Close',
+  mock: 'Mock (testing)',
+};
+
+/** team_integrations.integration_type → config key holding the credential */
+export const DIALER_PROVIDER_INTEGRATIONS: Record<string, string> = {
+  phoneburner: 'access_token',
+  close: 'api_key',
+};
+
+export const DIALER_TIMEOUT_MS = 10_000;
+
+export interface PowerDialerConfig {
+  provider: 'none' | 'phoneburner' | 'close' | 'mock' | string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export interface DialerContact {
+  /** Our dialer_queue_items id, or the provider's id once pushed */
+  id?: string;
+  firstName?: string;
+  lastName?: string;
+  phone: string;
+  email?: string;
+  tags?: string[];
+  meta?: Record<string, unknown>;
+}
+
+export interface DialerPushResult {
+  success: boolean;
+  providerId: string;
+  /** The provider's id for the contact */
+  externalId?: string;
+  error?: string;
+}
+
+/** The team_integrations columns an adapter is built from */
+export interface DialerIntegration {
+  config: Record<string, string | undefined> | null;
+  is_connected: boolean | null;
+}
+
+interface DialerQueueRow {
+  id: string;
+  name: string;
+  provider: DialerQueueProvider;
+  is_active: boolean;
+}
+
+interface DialerQueueItemRow {
+  id: string;
+  name: string | null;
+  phone: string;
+  email: string | null;
+  external_id: string | null;
+}
+
+export interface DialerSessionResult {
+  success: boolean;
+  providerId: string;
+  /** Where the setter continues in the provider's dialer */
+  sessionUrl?: string;
+  error?: string;
+}
+
+export interface PowerDialerAdapter {
+  id: string;
+  label: string;
+
+  pushContact(contact: DialerContact, options?: { listName?: string }): Promise<DialerPushResult>;
+
+  /** Only for providers that can start a dial session over the API */
+  startCallSession?(contacts: DialerContact[]): Promise<DialerSessionResult>;
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DIALER_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function describeError(err: unknown): string {
+  if (err instanceof Error) return err.name === 'AbortError' ? 'Dialer timed out' : err.message;
+  return 'Unknown error';
+}
+
+/** "Jane van Dyke" → { firstName: "Jane", lastName: "van Dyke" } */
+export function splitContactName(name: string | null | undefined): { firstName?: string; lastName?: string } {
+  const parts = (name ?? '').trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return {};
+  return { firstName: parts[0], lastName: parts.slice(1).join(' ') || undefined };
+}
+
+// --- PhoneBurner ---
+
+export class PhoneBurnerAdapter implements PowerDialerAdapter {
+  id = 'phoneburner';
+  label = 'PhoneBurner';
+  private cfg: PowerDialerConfig;
+
+  constructor(cfg: PowerDialerConfig) {
+    this.cfg = cfg;
+  }
+
+  private get baseUrl(): string {
+    return this.cfg.baseUrl || 'https://www.phoneburner.com/rest/1';
+  }
+
+  private request(path: string, body: Record<string, unknown>): Promise<Response> {
+    return fetchWithTimeout(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.cfg.apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async pushContact(contact: DialerContact, options: { listName?: string } = {}): Promise<DialerPushResult> {
+    try {
+      const res = await this.request('/contacts', {
+        first_name: contact.firstName ?? '',
+        last_name: contact.lastName ?? '',
+        phone: contact.phone,
+        email: contact.email,
+        tags: [...(contact.tags ?? []), ...(options.listName ? [options.listName] : [])],
+      });
+      const body = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        return { success: false, providerId: this.id, error: `PhoneBurner ${res.status}: ${body?.message ?? res.statusText}` };
+      }
+      const created = body?.contacts?.contacts;
+      return { success: true, providerId: this.id, externalId: String(created?.contact_user_id ?? created?.id ?? '') || undefined };
+    } catch (err) {
+      return { success: false, providerId: this.id, error: describeError(err) };
+    }
+  }
+
+  async startCallSession(contacts: DialerContact[]): Promise<DialerSessionResult> {
+    try {
+      const res = await this.request('/dialsession', {
+        contacts: contacts.map((c) => ({
+          first_name: c.firstName ?? '',
+          last_name: c.lastName ?? '',
+          phone: c.phone,
+          email: c.email,
+          ...(c.id ? { contact_user_id: c.id } : {}),
+        })),
+      });
+      const body = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        return { success: false, providerId: this.id, error: `PhoneBurner ${res.status}: ${body?.message ?? res.statusText}` };
+      }
+      return { success: true, providerId: this.id, sessionUrl: body?.dialsessions?.redirect_url };
+    } catch (err) {
+      return { success: false, providerId: this.id, error: describeError(err) };
+    }
+  }
+}
+
+// --- Close ---
+
+/** Close has no API to start a dial session; setters run its Power Dialer from a Smart View. */
+export class CloseAdapter implements PowerDialerAdapter {
+  id = 'close';
+  label = 'Close';
+  private cfg: PowerDialerConfig;
+
+  constructor(cfg: PowerDialerConfig) {
+    this.cfg = cfg;
+  }
+
+  async pushContact(contact: DialerContact, options: { listName?: string } = {}): Promise<DialerPushResult> {
+    const name = [contact.firstName, contact.lastName].filter(Boolean).join(' ') || contact.phone;
+
+    try {
+      const res = await fetchWithTimeout(`${this.cfg.baseUrl || 'https://api.close.com/api/v1'}/lead/`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${btoa(`${this.cfg.apiKey}:`)}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name,
+          ...(options.listName ? { description: `Dialer queue: ${options.listName}` } : {}),
+          contacts: [
+            {
+              name,
+              phones: [{ phone: contact.phone, type: 'mobile' }],
+              ...(contact.email ? { emails: [{ email: contact.email, type: 'office' }] } : {}),
+            },
+          ],
+        }),
+      });
+      const body = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        return { success: false, providerId: this.id, error: `Close ${res.status}: ${body?.error ?? res.statusText}` };
+      }
+      return { success: true, providerId: this.id, externalId: body?.id };
+    } catch (err) {
+      return { success: false, providerId: this.id, error: describeError(err) };
+    }
+  }
+}
+
+// --- Mock ---
+
+/** Accepts everything (except contacts without a phone) and keeps what it was sent. */
+export class MockDialerAdapter implements PowerDialerAdapter {
+  id = 'mock';
+  label = 'Mock dialer';
+  pushed: DialerContact[] = [];
+  sessions: DialerContact[][] = [];
+
+  async pushContact(contact: DialerContact): Promise<DialerPushResult> {
+    if (!contact.phone) {
+      return { success: false, providerId: this.id, error: 'Missing phone number' };
+    }
+    this.pushed.push(contact);
+    return { success: true, providerId: this.id, externalId: `mock-${this.pushed.length}` };
+  }
+
+  async startCallSession(contacts: DialerContact[]): Promise<DialerSessionResult> {
+    this.sessions.push(contacts);
+    return { success: true, providerId: this.id };
+  }
+}
+
+export function createDialerAdapter(cfg: PowerDialerConfig): PowerDialerAdapter | null {
+  switch (cfg.provider) {
+    case 'phoneburner':
+      return cfg.apiKey ? new PhoneBurnerAdapter(cfg) : null;
+    case 'close':
+      return cfg.apiKey ? new CloseAdapter(cfg) : null;
+    case 'mock':
+      return new MockDialerAdapter();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Adapter for a queue's provider using the team's integration row, or null
+ * for in-app queues and providers that aren't connected.
+ */
+export function buildDialerAdapter(
+  provider: DialerQueueProvider,
+  integration: DialerIntegration | null,
+): PowerDialerAdapter | null {
+  if (provider === 'in_app') return null;
+  if (provider === 'mock') return createDialerAdapter({ provider });
+  if (!integration?.is_connected) return null;
+
+  const config = integration.config ?? {};
+  return createDialerAdapter({
+    provider,
+    apiKey: config[DIALER_PROVIDER_INTEGRATIONS[provider]],
+    baseUrl: config.base_url,
+  });
+}
+
+// --- Dispositions ---
+
+export interface DispositionPlan {
+  status: DialerItemStatus;
+  attempts: number;
+  /** When the item comes back up; null once it's closed */
+  nextAttemptAt: string | null;
+  /** Closed because max_attempts calls went unanswered */
+  exhausted: boolean;
+}
+
+/**
+ * What happens to a queue item after a call. No answer and voicemail come back
+ * after `retryMinutes` (from NoAnswerDialog) until the queue's max attempts;
+ * 0 is a double dial, so the caller keeps the item.
+ */
+export function planDisposition(params: {
+  disposition: DialerDisposition;
+  attempts: number;
+  maxAttempts: number;
+  retryMinutes?: number;
+  now?: Date;
+}): DispositionPlan {
+  const attempts = params.attempts + 1;
+  const now = params.now ?? new Date();
+  const retries = DIALER_DISPOSITIONS.find((d) => d.value === params.disposition)?.retries ?? false;
+
+  if (!retries) {
+    return { status: 'completed', attempts, nextAttemptAt: null, exhausted: false };
+  }
+  if (attempts >= params.maxAttempts) {
+    return { status: 'completed', attempts, nextAttemptAt: null, exhausted: true };
+  }
+
+  const minutes = Math.max(0, params.retryMinutes ?? 0);
+  return {
+    status: minutes === 0 ? 'in_progress' : 'pending',
+    attempts,
+    nextAttemptAt: new Date(now.getTime() + minutes * 60_000).toISOString(),
+    exhausted: false,
+  };
+}
+
+// --- Queue writes (service role or RLS-scoped client) ---
+
+export interface EnqueueDialerParams {
+  teamId: string;
+  queueId: string;
+  phone: string;
+  name?: string | null;
+  email?: string | null;
+  contactId?: string | null;
+  appointmentId?: string | null;
+  priority?: number;
+  source?: 'manual' | 'automation';
+  automationId?: string | null;
+  addedBy?: string | null;
+}
+
+export interface EnqueueDialerResult {
+  itemId?: string;
+  skipped?: boolean;
+  skipReason?: 'queue_not_found' | 'queue_inactive' | 'no_phone' | 'already_queued';
+  error?: string;
+  push?: DialerPushResult;
+}
+
+/** The team's integration for a dialer: the connected one, most recently updated first */
+async function loadDialerIntegration(supabase: DbClient, teamId: string, provider: string): Promise<DialerIntegration | null> {
+  const { data } = await supabase
+    .from('team_integrations')
+    .select('config, is_connected')
+    .eq('team_id', teamId)
+    .eq('integration_type', provider)
+    .order('is_connected', { ascending: false, nullsFirst: false })
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data as DialerIntegration | null;
+}
+
+/**
+ * Adds a contact to a queue and, when the queue mirrors to an external
+ * dialer, pushes it there too. A push failure is kept on the item
+ * (push_error) rather than failing the enqueue; the in-app queue still works.
+ */
+export async function enqueueDialerContact(supabase: DbClient, params: EnqueueDialerParams): Promise<EnqueueDialerResult> {
+  const phone = params.phone?.trim();
+  if (!phone) return { skipped: true, skipReason: 'no_phone' };
+
+  const { data: queueRow } = await supabase
+    .from('dialer_queues')
+    .select('id, name, provider, is_active')
+    .eq('id', params.queueId)
+    .eq('team_id', params.teamId)
+    .maybeSingle();
+  const queue = queueRow as DialerQueueRow | null;
+
+  if (!queue) return { skipped: true, skipReason: 'queue_not_found' };
+  if (!queue.is_active) return { skipped: true, skipReason: 'queue_inactive' };
+
+  const { data: itemRow, error } = await supabase
+    .from('dialer_queue_items')
+    .insert({
+      queue_id: queue.id,
+      team_id: params.teamId,
+      phone,
+      name: params.name ?? null,
+      email: params.email ?? null,
+      contact_id: params.contactId ?? null,
+      appointment_id: params.appointmentId ?? null,
+      priority: params.priority ?? 0,
+      source: params.source ?? 'manual',
+      automation_id: params.automationId ?? null,
+      added_by: params.addedBy ?? null,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    // idx_dialer_queue_items_open_phone: the number is already waiting in this queue
+    if (error.code === '23505') return { skipped: true, skipReason: 'already_queued' };
+    return { error: error.message };
+  }
+  const item = itemRow as { id: string };
+
+  if (queue.provider === 'in_app') return { itemId: item.id };
+
+  const integration = await loadDialerIntegration(supabase, params.teamId, queue.provider);
+  const adapter = buildDialerAdapter(queue.provider, integration);
+  const push: DialerPushResult = adapter
+    ? await adapter.pushContact(
+        { id: item.id, phone, email: params.email ?? undefined, ...splitContactName(params.name) },
+        { listName: queue.name },
+      )
+    : { success: false, providerId: queue.provider, error: `${DIALER_PROVIDER_LABELS[queue.provider] ?? queue.provider} is not connected` };
+
+  await supabase
+    .from('dialer_queue_items')
+    .update({ external_id: push.externalId ?? null, push_error: push.success ? null : push.error })
+    .eq('id', item.id);
+
+  return { itemId: item.id, push };
+}
+
+/** Starts a session in the queue's external dialer with its due, pushed contacts. */
+export async function startDialerSession(
+  supabase: DbClient,
+  params: { teamId: string; queueId: string; limit?: number },
+): Promise<DialerSessionResult> {
+  const { data: queueRow } = await supabase
+    .from('dialer_queues')
+    .select('id, provider')
+    .eq('id', params.queueId)
+    .eq('team_id', params.teamId)
+    .maybeSingle();
+  const queue = queueRow as Pick<DialerQueueRow, 'id' | 'provider'> | null;
+
+  if (!queue) return { success: false, providerId: 'unknown', error: 'Queue not found' };
+
+  const integration = await loadDialerIntegration(supabase, params.teamId, queue.provider);
+  const adapter = buildDialerAdapter(queue.provider, integration);
+  if (!adapter?.startCallSession) {
+    return {
+      success: false,
+      providerId: queue.provider,
+      error: queue.provider === 'in_app' ? 'In-app queues are worked from the dialer view' : `Sessions can't be started for ${queue.provider}`,
+    };
+  }
+
+  const { data: itemRows } = await supabase
+    .from('dialer_queue_items')
+    .select('id, name, phone, email, external_id')
+    .eq('queue_id', queue.id)
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('priority', { ascending: false })
+    .order('next_attempt_at', { ascending: true })
+    .limit(params.limit ?? 100);
+
+  const items = (itemRows ?? []) as DialerQueueItemRow[];
+  if (!items.length) return { success: false, providerId: adapter.id, error: 'No contacts are due in this queue' };
+
+  return adapter.startCallSession(
+    items.map((item) => ({
+      id: item.external_id ?? undefined,
+      phone: item.phone,
+      email: item.email ?? undefined,
+      ...splitContactName(item.name),
+    })),
+  );
+}
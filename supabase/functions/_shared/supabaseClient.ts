@@ -0,0 +1,50 @@
+// supabase/functions/_shared/supabaseClient.ts
+//
+// The part of the Supabase client the shared modules use. Edge functions pass
+// their service-role client; the generated Database types aren't importable
+// from Deno, so rows come back as unknown and each module declares the
+// columns it reads.
+
+export interface DbError {
+  message: string;
+  code?: string;
+}
+
+export interface DbResponse {
+  data: unknown;
+  error: DbError | null;
+  count?: number | null;
+}
+
+/** A query after its verb: filters, modifiers and awaiting the response */
+export interface DbQuery extends PromiseLike<DbResponse> {
+  select(columns?: string): DbQuery;
+  eq(column: string, value: unknown): DbQuery;
+  neq(column: string, value: unknown): DbQuery;
+  gt(column: string, value: unknown): DbQuery;
+  gte(column: string, value: unknown): DbQuery;
+  lt(column: string, value: unknown): DbQuery;
+  lte(column: string, value: unknown): DbQuery;
+  in(column: string, values: readonly unknown[]): DbQuery;
+  is(column: string, value: null | boolean): DbQuery;
+  ilike(column: string, pattern: string): DbQuery;
+  order(column: string, options?: { ascending?: boolean; nullsFirst?: boolean }): DbQuery;
+  limit(count: number): DbQuery;
+  range(from: number, to: number): DbQuery;
+  single(): PromiseLike<DbResponse>;
+  maybeSingle(): PromiseLike<DbResponse>;
+}
+
+/** What from(table) returns: pick the verb first */
+export interface DbTable {
+  select(columns?: string, options?: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean }): DbQuery;
+  insert(values: object | object[]): DbQuery;
+  upsert(values: object | object[], options?: { onConflict?: string; ignoreDuplicates?: boolean }): DbQuery;
+  update(values: object): DbQuery;
+  delete(): DbQuery;
+}
+
+export interface DbClient {
+  from(table: string): DbTable;
+  rpc(fn: string, args?: Record<string, unknown>): DbQuery;
+}
@@ -0,0 +1,473 @@
+// supabase/functions/_shared/teamMessaging.ts
+//
+// Sends a message through the team's configured providers (with failover)
+// after the compliance guard, records it in message_logs and applies delivery
+// status callbacks to those rows. Callers pass a service-role Supabase client.
+import {
+  MESSAGE_PROVIDER_INTEGRATIONS,
+  buildMessageProvider,
+  selectChannelIntegrations,
+  sendWithFailover,
+  shouldApplyStatus,
+  type ConfiguredMessageProvider,
+  type MessageProviderConfig,
+  type MessageProviderIntegration,
+  type FailoverResult,
+  type MessageChannel,
+  type MessageResult,
+  type MessageDeliveryStatus,
+  type OutboundMessage,
+} from './messageProviders.ts';
+import {
+  evaluateCompliance,
+  getMessageAddress,
+  getUnsubscribeUrl,
+  signUnsubscribeToken,
+  withUnsubscribeLink,
+  type ComplianceDecision,
+} from './messageCompliance.ts';
+import type { DbClient } from './supabaseClient.ts';
+
+export interface SendTeamMessageOptions {
+  /** Project URL; Twilio status callbacks are built from it */
+  supabaseUrl: string;
+  automationId?: string | null;
+  runId?: string | null;
+  template?: string | null;
+  /** Extra fields stored in message_logs.payload */
+  logPayload?: Record<string, unknown>;
+  /** Secret for signing email unsubscribe links; emails go out without one when unset */
+  unsubscribeSecret?: string;
+  /** Existing message_logs row to update instead of inserting (deferred sends) */
+  logId?: string | null;
+  /** broadcast_recipients row the message was sent for; its status follows the log */
+  broadcastRecipientId?: string | null;
+}
+
+export interface SendTeamMessageResult extends FailoverResult {
+  logId: string | null;
+  /** Outcome of the compliance guard; suppressed / deferred messages were not sent */
+  compliance: ComplianceDecision;
+}
+
+/** message_logs columns sendDeferredMessages reads */
+interface DeferredMessageRow {
+  id: string;
+  automation_id: string | null;
+  run_id: string | null;
+  broadcast_recipient_id: string | null;
+  template: string | null;
+  payload: { deferredMessage?: OutboundMessage; logPayload?: Record<string, unknown> | null } | null;
+}
+
+/** How many due deferred messages one worker run sends */
+const DEFERRED_BATCH_SIZE = 50;
+
+export function getStatusCallbackUrl(supabaseUrl: string, provider: string, teamId: string): string {
+  return `${supabaseUrl}/functions/v1/message-status?provider=${provider}&team_id=${teamId}`;
+}
+
+/**
+ * Config of the team's connected integration of one type, for verifying its
+ * webhooks. A team can have several rows per type; the most recently updated
+ * connected one wins. Throws when the integrations can't be read.
+ */
+export async function getConnectedIntegrationConfig(
+  supabase: DbClient,
+  teamId: string,
+  integrationType: string,
+): Promise<MessageProviderConfig | null> {
+  const { data, error } = await supabase
+    .from('team_integrations')
+    .select('config')
+    .eq('team_id', teamId)
+    .eq('integration_type', integrationType)
+    .eq('is_connected', true)
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load ${integrationType} integration: ${error.message}`);
+  return (data as { config: MessageProviderConfig | null } | null)?.config ?? null;
+}
+
+/**
+ * The team's connected providers for a channel, primary first. Throws when
+ * the integrations can't be read, so callers don't mistake it for a team
+ * without providers.
+ */
+export async function getTeamMessageProviders(
+  supabase: DbClient,
+  teamId: string,
+  channel: MessageChannel,
+  supabaseUrl: string,
+): Promise<ConfiguredMessageProvider[]> {
+  const { data, error } = await supabase
+    .from('team_integrations')
+    .select('integration_type, config, is_connected')
+    .eq('team_id', teamId)
+    .in('integration_type', Object.keys(MESSAGE_PROVIDER_INTEGRATIONS));
+
+  if (error) {
+    console.error('[teamMessaging] Failed to load team integrations:', error);
+    throw new Error(`Failed to load team integrations: ${error.message}`);
+  }
+
+  return selectChannelIntegrations((data ?? []) as MessageProviderIntegration[], channel)
+    .map((integration) =>
+      buildMessageProvider(integration, {
+        statusCallbackUrl: getStatusCallbackUrl(supabaseUrl, integration.integration_type, teamId),
+      }),
+    )
+    .filter((provider): provider is ConfiguredMessageProvider => provider !== null);
+}
+
+async function writeMessageLog(
+  supabase: DbClient,
+  logId: string | null | undefined,
+  row: Record<string, unknown>,
+): Promise<string | null> {
+  const query = logId
+    ? supabase.from('message_logs').update(row).eq('id', logId)
+    : supabase.from('message_logs').insert(row);
+  const { data, error } = await query.select('id').single();
+
+  if (error) {
+    console.error('[teamMessaging] Failed to log message:', error);
+    return logId ?? null;
+  }
+  return (data as { id: string } | null)?.id ?? null;
+}
+
+type PreparedMessage =
+  | { kind: 'done'; result: SendTeamMessageResult }
+  | { kind: 'ready'; outbound: OutboundMessage; compliance: ComplianceDecision };
+
+function getBaseLog(message: OutboundMessage, options: SendTeamMessageOptions) {
+  const toAddress = getMessageAddress(message);
+  return {
+    row: {
+      team_id: message.teamId,
+      automation_id: options.automationId ?? null,
+      run_id: options.runId ?? null,
+      broadcast_recipient_id: options.broadcastRecipientId ?? null,
+      channel: message.channel,
+      to_address: toAddress,
+      template: options.template ?? null,
+      status_updated_at: new Date().toISOString(),
+    },
+    payload: { to: toAddress, subject: message.subject, body: message.text, ...options.logPayload },
+  };
+}
+
+/**
+ * Compliance guard for one message. Suppressed and deferred messages are
+ * logged here and come back finished; anything else comes back ready to send
+ * (emails with their unsubscribe link).
+ */
+async function prepareTeamMessage(
+  supabase: DbClient,
+  message: OutboundMessage,
+  options: SendTeamMessageOptions,
+): Promise<PreparedMessage> {
+  const base = getBaseLog(message, options);
+  const compliance = await evaluateCompliance(supabase, message);
+
+  if (compliance.action === 'suppress') {
+    const logId = await writeMessageLog(supabase, options.logId, {
+      ...base.row,
+      provider: 'none',
+      payload: base.payload,
+      status: 'suppressed',
+      suppression_reason: compliance.reason,
+      deferred_until: null,
+    });
+    return {
+      kind: 'done',
+      result: { success: false, error: `suppressed:${compliance.reason}`, attempts: [], logId, compliance },
+    };
+  }
+
+  if (compliance.action === 'defer') {
+    const logId = await writeMessageLog(supabase, options.logId, {
+      ...base.row,
+      provider: 'none',
+      // Everything needed to send it later
+      payload: { ...base.payload, deferredMessage: message, logPayload: options.logPayload ?? null },
+      status: 'deferred',
+      suppression_reason: compliance.reason,
+      deferred_until: compliance.deferUntil,
+    });
+    return { kind: 'done', result: { success: true, attempts: [], logId, compliance } };
+  }
+
+  let outbound = message;
+  if (message.channel === 'email' && message.toEmail && options.unsubscribeSecret) {
+    const token = await signUnsubscribeToken(options.unsubscribeSecret, message.teamId, message.toEmail);
+    outbound = withUnsubscribeLink(message, getUnsubscribeUrl(options.supabaseUrl, token));
+  }
+  return { kind: 'ready', outbound, compliance };
+}
+
+async function logSendResult(
+  supabase: DbClient,
+  message: OutboundMessage,
+  options: SendTeamMessageOptions,
+  result: FailoverResult,
+): Promise<string | null> {
+  const base = getBaseLog(message, options);
+  return writeMessageLog(supabase, options.logId, {
+    ...base.row,
+    provider: result.providerId ?? 'none',
+    provider_message_id: result.providerMessageId ?? null,
+    from_address: result.fromAddress ?? null,
+    payload: {
+      ...base.payload,
+      ...(result.attempts.length > 1 ? { providerAttempts: result.attempts } : {}),
+    },
+    status: result.success ? 'sent' : 'failed',
+    error_message: result.success ? null : result.error ?? null,
+    suppression_reason: null,
+    deferred_until: null,
+  });
+}
+
+/** Outcome recorded when the team's providers couldn't be loaded; nothing was sent */
+function providerLookupFailure(err: unknown): FailoverResult {
+  return {
+    success: false,
+    error: `provider_lookup_failed: ${err instanceof Error ? err.message : String(err)}`,
+    attempts: [],
+  };
+}
+
+/**
+ * Runs the compliance guard, then sends via the team's providers (failing
+ * over in priority order) and writes the outcome to message_logs. Suppressed
+ * sends are logged with their reason; quiet-hours sends are logged as
+ * deferred and picked up by sendDeferredMessages. A team without a provider
+ * for the channel gets a failed log (no_provider_for_<channel>). Never throws;
+ * failures come back in the result.
+ */
+export async function sendTeamMessage(
+  supabase: DbClient,
+  message: OutboundMessage,
+  options: SendTeamMessageOptions,
+): Promise<SendTeamMessageResult> {
+  const prepared = await prepareTeamMessage(supabase, message, options);
+  if (prepared.kind === 'done') return prepared.result;
+
+  let result: FailoverResult;
+  try {
+    const providers = await getTeamMessageProviders(supabase, message.teamId, message.channel, options.supabaseUrl);
+    result = await sendWithFailover(providers, prepared.outbound);
+  } catch (err) {
+    result = providerLookupFailure(err);
+  }
+  const logId = await logSendResult(supabase, message, options, result);
+
+  return { ...result, logId, compliance: prepared.compliance };
+}
+
+export interface TeamMessageBatchItem {
+  message: OutboundMessage;
+  options: SendTeamMessageOptions;
+}
+
+/**
+ * sendTeamMessage for many messages of one team and channel. Messages that
+ * pass the compliance guard go out in one call when the primary provider has
+ * sendBatch; any it rejects (or all of them, without sendBatch) are sent one
+ * by one with failover. Results are in input order.
+ */
+export async function sendTeamMessageBatch(
+  supabase: DbClient,
+  teamId: string,
+  channel: MessageChannel,
+  items: TeamMessageBatchItem[],
+  supabaseUrl: string,
+): Promise<SendTeamMessageResult[]> {
+  const results: Array<SendTeamMessageResult | undefined> = new Array(items.length);
+  const ready: Array<{ index: number; outbound: OutboundMessage; compliance: ComplianceDecision }> = [];
+
+  for (const [index, item] of items.entries()) {
+    const prepared = await prepareTeamMessage(supabase, item.message, item.options);
+    if (prepared.kind === 'done') results[index] = prepared.result;
+    else ready.push({ index, outbound: prepared.outbound, compliance: prepared.compliance });
+  }
+  if (ready.length === 0) return results as SendTeamMessageResult[];
+
+  let providers: ConfiguredMessageProvider[];
+  try {
+    providers = await getTeamMessageProviders(supabase, teamId, channel, supabaseUrl);
+  } catch (err) {
+    for (const entry of ready) {
+      const item = items[entry.index];
+      const result = providerLookupFailure(err);
+      const logId = await logSendResult(supabase, item.message, item.options, result);
+      results[entry.index] = { ...result, logId, compliance: entry.compliance };
+    }
+    return results as SendTeamMessageResult[];
+  }
+  const primary = providers[0];
+
+  let batchResults: MessageResult[] = [];
+  if (primary?.sendBatch && ready.length > 1) {
+    try {
+      batchResults = await primary.sendBatch(ready.map((r) => r.outbound));
+    } catch (err) {
+      console.error(`[teamMessaging] ${primary.id} batch send failed:`, err);
+    }
+  }
+
+  for (const [position, entry] of ready.entries()) {
+    const batched = batchResults[position];
+    let result: FailoverResult;
+    if (batched?.success) {
+      result = {
+        ...batched,
+        providerId: primary.id,
+        fromAddress: primary.fromAddress,
+        attempts: [{ providerId: primary.id, success: true, providerMessageId: batched.providerMessageId }],
+      };
+    } else {
+      result = await sendWithFailover(providers, entry.outbound);
+    }
+
+    const item = items[entry.index];
+    const logId = await logSendResult(supabase, item.message, item.options, result);
+    results[entry.index] = { ...result, logId, compliance: entry.compliance };
+  }
+
+  return results as SendTeamMessageResult[];
+}
+
+/** Whether the broadcast a deferred message belongs to was cancelled while it waited */
+async function isBroadcastCancelled(supabase: DbClient, broadcastRecipientId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('broadcast_recipients')
+    .select('broadcast_campaigns(status)')
+    .eq('id', broadcastRecipientId)
+    .maybeSingle();
+  const recipient = data as { broadcast_campaigns: { status: string } | null } | null;
+  return recipient?.broadcast_campaigns?.status === 'cancelled';
+}
+
+/**
+ * Sends deferred messages whose quiet hours have ended. Each row is claimed
+ * (deferred → queued) before sending so overlapping runs don't double-send,
+ * and goes through the compliance guard again: the lead may have opted out
+ * overnight. Messages from a broadcast cancelled in the meantime are dropped.
+ */
+export async function sendDeferredMessages(
+  supabase: DbClient,
+  options: Pick<SendTeamMessageOptions, 'supabaseUrl' | 'unsubscribeSecret'>,
+): Promise<{ sent: number; failed: number; suppressed: number; deferred: number; cancelled: number }> {
+  const counts = { sent: 0, failed: 0, suppressed: 0, deferred: 0, cancelled: 0 };
+
+  const { data: rows, error } = await supabase
+    .from('message_logs')
+    .select('id, automation_id, run_id, broadcast_recipient_id, template, payload')
+    .eq('status', 'deferred')
+    .lte('deferred_until', new Date().toISOString())
+    .order('deferred_until', { ascending: true })
+    .limit(DEFERRED_BATCH_SIZE);
+
+  if (error) {
+    console.error('[teamMessaging] Failed to load deferred messages:', error);
+    return counts;
+  }
+
+  for (const row of (rows ?? []) as DeferredMessageRow[]) {
+    const { data: claimed } = await supabase
+      .from('message_logs')
+      .update({ status: 'queued', status_updated_at: new Date().toISOString() })
+      .eq('id', row.id)
+      .eq('status', 'deferred')
+      .select('id')
+      .maybeSingle();
+    if (!claimed) continue;
+
+    if (row.broadcast_recipient_id && (await isBroadcastCancelled(supabase, row.broadcast_recipient_id))) {
+      await supabase
+        .from('message_logs')
+        .update({ status: 'cancelled', deferred_until: null, status_updated_at: new Date().toISOString() })
+        .eq('id', row.id);
+      counts.cancelled++;
+      continue;
+    }
+
+    const message = row.payload?.deferredMessage;
+    if (!message) {
+      await supabase
+        .from('message_logs')
+        .update({ status: 'failed', error_message: 'Deferred message payload missing', status_updated_at: new Date().toISOString() })
+        .eq('id', row.id);
+      counts.failed++;
+      continue;
+    }
+
+    const result = await sendTeamMessage(supabase, message, {
+      ...options,
+      automationId: row.automation_id,
+      runId: row.run_id,
+      broadcastRecipientId: row.broadcast_recipient_id,
+      template: row.template,
+      logPayload: row.payload?.logPayload ?? undefined,
+      logId: row.id,
+    });
+
+    if (result.compliance.action === 'suppress') counts.suppressed++;
+    else if (result.compliance.action === 'defer') counts.deferred++;
+    else if (result.success) counts.sent++;
+    else counts.failed++;
+  }
+
+  return counts;
+}
+
+/**
+ * Moves the message_logs row for a provider message to a new delivery status.
+ * Returns false when no row matches or the row already has a more final status.
+ */
+export async function applyDeliveryStatus(
+  supabase: DbClient,
+  params: {
+    teamId: string;
+    provider: string;
+    providerMessageId: string;
+    status: MessageDeliveryStatus;
+    error?: string | null;
+  },
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('message_logs')
+    .select('id, status')
+    .eq('team_id', params.teamId)
+    .eq('provider', params.provider)
+    .eq('provider_message_id', params.providerMessageId)
+    .maybeSingle();
+  const row = data as { id: string; status: string } | null;
+
+  if (error) {
+    console.error('[teamMessaging] Failed to look up message log:', error);
+    return false;
+  }
+  if (!row || !shouldApplyStatus(row.status, params.status)) return false;
+
+  const { error: updateError } = await supabase
+    .from('message_logs')
+    .update({
+      status: params.status,
+      status_updated_at: new Date().toISOString(),
+      ...(params.error ? { error_message: params.error } : {}),
+    })
+    .eq('id', row.id)
+    .eq('status', row.status);
+
+  if (updateError) {
+    console.error('[teamMessaging] Failed to update message status:', updateError);
+    return false;
+  }
+  return true;
+}
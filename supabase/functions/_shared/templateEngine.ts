@@ -0,0 +1,479 @@
+// supabase/functions/_shared/templateEngine.ts
+//
+// Merge-field templates for automation messages. Shared by the edge functions
+// (Deno) and src/lib/automations (Vite), so it must stay free of
+// runtime-specific APIs and of imports without a ".ts" extension.
+//
+// Syntax:
+//   {{lead.first_name}}
+//   {{lead.first_name | default: "there" | capitalize}}
+//   {{appointment.start_at_utc | datetime}}            – in the lead's / team's timezone
+//   {{appointment.start_at_utc | date: "dddd MMM D" | truncate: 20}}
+//   {{appointment.start_at_utc | timezone: "America/New_York" | time}}
+//   {{#if appointment.meeting_link}}Join: {{appointment.meeting_link}}{{else}}We'll call you.{{/if}}
+//   {{#unless lead.opt_in}}...{{/unless}}
+//
+// Missing values render as an empty string; use `default` for a fallback.
+
+export type TemplateIssueCode = 'syntax' | 'unknown_variable' | 'unknown_filter' | 'invalid_filter_argument';
+
+export interface TemplateIssue {
+  code: TemplateIssueCode;
+  message: string;
+  variable?: string;
+}
+
+type FilterArg = string | number;
+
+interface FilterCall {
+  name: string;
+  args: FilterArg[];
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; path: string; filters: FilterCall[] }
+  | { type: 'if'; negate: boolean; path: string; filters: FilterCall[]; then: TemplateNode[]; else: TemplateNode[] };
+
+interface ParseResult {
+  nodes: TemplateNode[];
+  issues: TemplateIssue[];
+}
+
+/**
+ * Fields a template may reference. `*` accepts anything below that prefix
+ * (free-form JSON such as meta or custom fields).
+ */
+export const TEMPLATE_VARIABLES: Record<string, readonly string[]> = {
+  lead: [
+    'id', 'name', 'first_name', 'last_name', 'email', 'phone', 'status', 'tags', 'source',
+    'opt_in', 'timezone', 'created_at', 'answers.*', 'custom_fields.*',
+  ],
+  appointment: [
+    'id', 'lead_name', 'lead_email', 'lead_phone', 'start_at_utc', 'status', 'event_type_name',
+    'closer_name', 'setter_name', 'meeting_link', 'reschedule_url', 'cancel_url', 'booking_code',
+    'product_name', 'pipeline_stage', 'revenue', 'cc_collected', 'mrr_amount', 'mrr_months',
+    'reschedule_count', 'timezone', 'created_at',
+  ],
+  payment: ['id', 'amount', 'currency', 'type', 'payment_method', 'processed_at', 'created_at', 'metadata.*'],
+  deal: ['*'],
+  meta: ['*'],
+  team: ['id', 'name', 'timezone'],
+};
+
+/** Top-level context keys that are plain values */
+const SCALAR_VARIABLES = ['now', 'teamId', 'triggerType', 'timezone'];
+
+const TAG_PATTERN = /{{\s*([\s\S]*?)\s*}}/g;
+
+// --- Parsing ---
+
+function splitOutsideQuotes(input: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of input) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseArg(raw: string): FilterArg {
+  const trimmed = raw.trim();
+  const quoted = trimmed.match(/^(["'])([\s\S]*)\1$/);
+  if (quoted) return quoted[2];
+  const num = Number(trimmed);
+  return trimmed !== '' && !Number.isNaN(num) ? num : trimmed;
+}
+
+function parseExpression(expression: string): { path: string; filters: FilterCall[] } {
+  const [pathPart, ...filterParts] = splitOutsideQuotes(expression, '|');
+  const filters = filterParts.map((part) => {
+    const colon = part.indexOf(':');
+    if (colon === -1) return { name: part.trim(), args: [] };
+    return {
+      name: part.slice(0, colon).trim(),
+      args: splitOutsideQuotes(part.slice(colon + 1), ',').map(parseArg),
+    };
+  });
+  return { path: pathPart.trim(), filters };
+}
+
+/**
+ * Turns a template into a tree of text / variable / conditional nodes.
+ * Never throws: problems are collected as issues and the parser recovers
+ * (stray tags render as text, unclosed blocks close at the end).
+ */
+function parseTemplate(template: string): ParseResult {
+  const issues: TemplateIssue[] = [];
+  const root: TemplateNode[] = [];
+  type Frame = { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean; tag: 'if' | 'unless' };
+  const stack: Frame[] = [];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.else : top.node.then;
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) target().push({ type: 'text', value: template.slice(lastIndex, index) });
+    lastIndex = index + match[0].length;
+
+    const body = match[1];
+    const open = body.match(/^#(if|unless)\s+([\s\S]+)$/);
+
+    if (open) {
+      const { path, filters } = parseExpression(open[2]);
+      const node: TemplateNode = { type: 'if', negate: open[1] === 'unless', path, filters, then: [], else: [] };
+      target().push(node);
+      stack.push({ node, inElse: false, tag: open[1] as 'if' | 'unless' });
+    } else if (body === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        issues.push({ code: 'syntax', message: '{{else}} without a matching {{#if}}.' });
+        target().push({ type: 'text', value: match[0] });
+      } else {
+        top.inElse = true;
+      }
+    } else if (/^\/(if|unless)$/.test(body)) {
+      const top = stack[stack.length - 1];
+      if (!top || `/${top.tag}` !== body) {
+        issues.push({ code: 'syntax', message: `{{${body}}} without a matching opening block.` });
+        target().push({ type: 'text', value: match[0] });
+      } else {
+        stack.pop();
+      }
+    } else if (body.startsWith('#') || body.startsWith('/')) {
+      issues.push({ code: 'syntax', message: `Unknown block {{${body}}}.` });
+      target().push({ type: 'text', value: match[0] });
+    } else if (!body) {
+      issues.push({ code: 'syntax', message: 'Empty {{ }} tag.' });
+    } else {
+      const { path, filters } = parseExpression(body);
+      target().push({ type: 'var', path, filters });
+    }
+  }
+
+  if (lastIndex < template.length) target().push({ type: 'text', value: template.slice(lastIndex) });
+
+  for (const frame of stack.reverse()) {
+    issues.push({ code: 'syntax', message: `{{#${frame.tag} ${frame.node.path}}} is never closed with {{/${frame.tag}}}.` });
+  }
+
+  return { nodes: root, issues };
+}
+
+// --- Values ---
+
+/** The data a template renders against: lead, appointment, team, now... */
+export type TemplateContext = object;
+
+export function getTemplateValue(context: TemplateContext, path: string): unknown {
+  let current: unknown = context;
+  for (const segment of path.split('.')) {
+    if (current == null) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function isBlank(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Explicit context.timezone, then the lead's, the appointment's and the team's; UTC otherwise. */
+export function resolveTimeZone(context: TemplateContext): string {
+  const candidates = ['timezone', 'lead.timezone', 'appointment.timezone', 'team.timezone'].map((path) =>
+    getTemplateValue(context, path),
+  );
+  for (const candidate of candidates) {
+    if (typeof candidate === 'string' && candidate && isValidTimeZone(candidate)) return candidate;
+  }
+  return 'UTC';
+}
+
+// --- Dates ---
+
+const DATE_TOKEN_PATTERN = /\[([^\]]*)\]|YYYY|MMMM|MMM|MM|M|dddd|ddd|DD|D|HH|H|hh|h|mm|A|a|z/g;
+
+export const DATE_PRESETS = {
+  date: 'ddd, MMM D',
+  time: 'h:mm A z',
+  datetime: 'ddd, MMM D [at] h:mm A z',
+} as const;
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'number' || typeof value === 'string') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+/**
+ * Formats a date in a timezone with moment-style tokens
+ * (YYYY, MMMM, MMM, MM, M, dddd, ddd, DD, D, HH, H, hh, h, mm, A, a, z).
+ * Text in [brackets] is kept literally.
+ */
+export function formatDate(value: unknown, format: string, timeZone = 'UTC'): string {
+  const date = toDate(value);
+  if (!date) return toText(value);
+  const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+
+  const partsOf = (options: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat('en-US', { timeZone: zone, ...options }).formatToParts(date);
+  const named = (type: Intl.DateTimeFormatPartTypes, options: Intl.DateTimeFormatOptions) =>
+    partsOf(options).find((p) => p.type === type)?.value ?? '';
+
+  const numeric: Record<string, number> = {};
+  for (const part of partsOf({
+    year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', hourCycle: 'h23',
+  })) {
+    if (part.type !== 'literal') numeric[part.type] = Number(part.value);
+  }
+  const num = (type: string) => numeric[type] ?? 0;
+
+  const hours24 = num('hour') % 24;
+  const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
+  const pad = (n: number) => String(n).padStart(2, '0');
+
+  return format.replace(DATE_TOKEN_PATTERN, (token, literal) => {
+    if (literal !== undefined) return literal;
+    switch (token) {
+      case 'YYYY': return String(num('year'));
+      case 'MMMM': return named('month', { month: 'long' });
+      case 'MMM': return named('month', { month: 'short' });
+      case 'MM': return pad(num('month'));
+      case 'M': return String(num('month'));
+      case 'dddd': return named('weekday', { weekday: 'long' });
+      case 'ddd': return named('weekday', { weekday: 'short' });
+      case 'DD': return pad(num('day'));
+      case 'D': return String(num('day'));
+      case 'HH': return pad(hours24);
+      case 'H': return String(hours24);
+      case 'hh': return pad(hours12);
+      case 'h': return String(hours12);
+      case 'mm': return pad(num('minute'));
+      case 'A': return hours24 < 12 ? 'AM' : 'PM';
+      case 'a': return hours24 < 12 ? 'am' : 'pm';
+      case 'z': return named('timeZoneName', { timeZoneName: 'short' });
+      default: return token;
+    }
+  });
+}
+
+// --- Filters ---
+
+interface FilterEnv {
+  timeZone: string;
+}
+
+type FilterFn = (value: unknown, args: FilterArg[], env: FilterEnv) => unknown;
+
+const FILTERS: Record<string, FilterFn> = {
+  default: (value, [fallback = '']) => (isBlank(value) ? fallback : value),
+  upcase: (value) => toText(value).toUpperCase(),
+  upper: (value) => toText(value).toUpperCase(),
+  downcase: (value) => toText(value).toLowerCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  capitalize: (value) => {
+    const text = toText(value);
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  },
+  titlecase: (value) => toText(value).toLowerCase().replace(/(^|[\s-])(\p{L})/gu, (_, sep, c) => sep + c.toUpperCase()),
+  first_word: (value) => toText(value).trim().split(/\s+/)[0] ?? '',
+  truncate: (value, [length = 50, suffix = '…']) => {
+    const text = toText(value);
+    const max = Number(length);
+    return text.length > max ? text.slice(0, Math.max(max - String(suffix).length, 0)) + suffix : text;
+  },
+  timezone: (value, [zone], env) => {
+    if (typeof zone === 'string' && isValidTimeZone(zone)) env.timeZone = zone;
+    return value;
+  },
+  date: (value, [format = DATE_PRESETS.date], env) => formatDate(value, String(format), env.timeZone),
+  time: (value, [format = DATE_PRESETS.time], env) => formatDate(value, String(format), env.timeZone),
+  datetime: (value, [format = DATE_PRESETS.datetime], env) => formatDate(value, String(format), env.timeZone),
+};
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+function applyFilters(value: unknown, filters: FilterCall[], context: TemplateContext): unknown {
+  const env: FilterEnv = { timeZone: resolveTimeZone(context) };
+  let result = value;
+  for (const filter of filters) {
+    const fn = FILTERS[filter.name];
+    // Unknown filters are reported by validateTemplate; at send time skip them
+    if (fn) result = fn(result, filter.args, env);
+  }
+  return result;
+}
+
+// --- Rendering ---
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext): string {
+  let out = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      out += node.value;
+    } else if (node.type === 'var') {
+      out += toText(applyFilters(getTemplateValue(context, node.path), node.filters, context));
+    } else {
+      const value = applyFilters(getTemplateValue(context, node.path), node.filters, context);
+      const truthy = !isBlank(value) && value !== false && value !== 0;
+      out += renderNodes(truthy !== node.negate ? node.then : node.else, context);
+    }
+  }
+  return out;
+}
+
+/**
+ * Renders a template against an automation context.
+ * Example: "Hey {{lead.first_name | default: "there"}}" → "Hey there"
+ */
+export function renderTemplate(template: string | null | undefined, context: TemplateContext): string {
+  if (!template) return '';
+  return renderNodes(parseTemplate(template).nodes, context);
+}
+
+// --- Introspection / validation ---
+
+function collectPaths(nodes: TemplateNode[], into: Set<string>): Set<string> {
+  for (const node of nodes) {
+    if (node.type === 'var') into.add(node.path);
+    if (node.type === 'if') {
+      into.add(node.path);
+      collectPaths(node.then, into);
+      collectPaths(node.else, into);
+    }
+  }
+  return into;
+}
+
+/** Every variable path a template references (including {{#if}} conditions). */
+export function getTemplateVariables(template: string | null | undefined): string[] {
+  if (!template) return [];
+  return [...collectPaths(parseTemplate(template).nodes, new Set())];
+}
+
+export function isKnownTemplateVariable(path: string): boolean {
+  if (SCALAR_VARIABLES.includes(path)) return true;
+  const [root, ...rest] = path.split('.');
+  const fields = TEMPLATE_VARIABLES[root];
+  if (!fields) return false;
+  if (rest.length === 0) return false;
+  const field = rest.join('.');
+  return fields.some((known) =>
+    known === '*' ||
+    known === field ||
+    (known.endsWith('.*') && field.startsWith(known.slice(0, -1))),
+  );
+}
+
+function collectFilters(nodes: TemplateNode[], into: FilterCall[]): FilterCall[] {
+  for (const node of nodes) {
+    if (node.type === 'var') into.push(...node.filters);
+    if (node.type === 'if') {
+      into.push(...node.filters);
+      collectFilters(node.then, into);
+      collectFilters(node.else, into);
+    }
+  }
+  return into;
+}
+
+/**
+ * Save-time checks: broken blocks, unknown variables and filters, bad filter
+ * arguments. Returns an empty array when the template is fine.
+ */
+export function validateTemplate(
+  template: string | null | undefined,
+  options: { isKnownVariable?: (path: string) => boolean } = {},
+): TemplateIssue[] {
+  if (!template) return [];
+  const isKnown = options.isKnownVariable ?? isKnownTemplateVariable;
+  const { nodes, issues } = parseTemplate(template);
+
+  for (const path of collectPaths(nodes, new Set())) {
+    if (!isKnown(path)) {
+      issues.push({ code: 'unknown_variable', message: `Unknown variable "{{${path}}}".`, variable: path });
+    }
+  }
+
+  for (const filter of collectFilters(nodes, [])) {
+    if (!FILTERS[filter.name]) {
+      issues.push({ code: 'unknown_filter', message: `Unknown filter "${filter.name}".` });
+    } else if (filter.name === 'truncate' && filter.args.length > 0 && typeof filter.args[0] !== 'number') {
+      issues.push({ code: 'invalid_filter_argument', message: '"truncate" needs a number, e.g. truncate: 40.' });
+    } else if (filter.name === 'timezone' && !isValidTimeZone(String(filter.args[0] ?? ''))) {
+      issues.push({
+        code: 'invalid_filter_argument',
+        message: `"${String(filter.args[0] ?? '')}" is not a valid timezone.`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/** Step config keys that hold templates, per action type. */
+export const TEMPLATE_CONFIG_KEYS: Record<string, readonly string[]> = {
+  send_message: ['template', 'body', 'subject'],
+  notify_team: ['message', 'template'],
+  add_task: ['reason'],
+  add_tag: ['tag'],
+};
+
+/**
+ * Validates every template field of an action step's config and returns
+ * readable problems (empty = valid).
+ */
+export function validateStepTemplates(actionType: string, config: Record<string, unknown> | null | undefined): string[] {
+  const problems: string[] = [];
+  for (const key of TEMPLATE_CONFIG_KEYS[actionType] ?? []) {
+    const value = config?.[key];
+    if (typeof value !== 'string') continue;
+    for (const issue of validateTemplate(value)) {
+      problems.push(`${key}: ${issue.message}`);
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,286 @@
+// supabase/functions/_shared/webhookDelivery.ts
+//
+// Outbound webhook delivery: every delivery is persisted in webhook_deliveries,
+// signed with the integration's secret, retried with exponential backoff on
+// 5xx / timeouts and dead-lettered once it runs out of attempts. Each HTTP
+// attempt is written to webhook_audit_logs so the UI can show request and
+// response bodies.
+//
+// Callers pass a service-role Supabase client.
+import { buildSignedHeaders } from './webhookSignature.ts';
+import type { DbClient } from './supabaseClient.ts';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'retrying' | 'dead_letter';
+
+export type WebhookDeliverySource = 'funnel_lead' | 'automation' | 'test';
+
+export interface WebhookDeliveryRequest {
+  teamId: string;
+  source: WebhookDeliverySource;
+  eventType: string;
+  /** team_integrations row the URL and signing secret come from */
+  integrationId?: string | null;
+  url: string;
+  payload: unknown;
+  /** Only needed when there is no integration to read the secret from */
+  secret?: string | null;
+  headers?: Record<string, string>;
+  maxAttempts?: number;
+}
+
+export interface WebhookAttemptResult {
+  deliveryId: string;
+  status: WebhookDeliveryStatus;
+  attempt: number;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  durationMs: number;
+  nextAttemptAt?: string | null;
+}
+
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+const RESPONSE_BODY_LIMIT = 4_000;
+const BASE_RETRY_MS = 60 * 1000;
+const MAX_RETRY_MS = 6 * 60 * 60 * 1000;
+// If the process dies mid-attempt the worker picks the delivery up again after this
+const ATTEMPT_LEASE_MS = 2 * 60 * 1000;
+
+/** 1m, 2m, 4m, 8m, ... capped at 6h */
+export function getRetryDelayMs(attempt: number): number {
+  return Math.min(BASE_RETRY_MS * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_MS);
+}
+
+/**
+ * Network errors / timeouts (no status), 5xx, 408 and 429 are worth retrying.
+ * Any other 4xx means the receiver rejected the payload; retrying won't help.
+ */
+export function isRetryableStatus(status?: number): boolean {
+  if (status === undefined) return true;
+  return status >= 500 || status === 408 || status === 429;
+}
+
+/** The webhook_deliveries columns an attempt reads */
+interface WebhookDeliveryRow {
+  id: string;
+  team_id: string;
+  integration_id: string | null;
+  source: string;
+  event_type: string;
+  url: string;
+  request_headers: Record<string, string> | null;
+  request_body: unknown;
+  signing_secret: string | null;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  max_attempts: number;
+}
+
+/** Random hex secret for new integrations. */
+export function generateSigningSecret(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return `whsec_${Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+export async function enqueueWebhookDelivery(supabase: DbClient, request: WebhookDeliveryRequest): Promise<string> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .insert([
+      {
+        team_id: request.teamId,
+        integration_id: request.integrationId ?? null,
+        source: request.source,
+        event_type: request.eventType,
+        url: request.url,
+        request_headers: request.headers ?? {},
+        request_body: request.payload ?? {},
+        signing_secret: request.integrationId ? null : request.secret ?? null,
+        status: 'pending',
+        max_attempts: request.maxAttempts ?? 6,
+        next_attempt_at: new Date().toISOString(),
+      },
+    ])
+    .select('id')
+    .single();
+
+  if (error) throw new Error(`Failed to enqueue webhook delivery: ${error.message}`);
+  return (data as { id: string }).id;
+}
+
+async function resolveSecret(supabase: DbClient, delivery: WebhookDeliveryRow): Promise<string | null> {
+  if (!delivery.integration_id) return delivery.signing_secret ?? null;
+
+  const { data } = await supabase
+    .from('team_integrations')
+    .select('config')
+    .eq('id', delivery.integration_id)
+    .single();
+
+  return (data as { config: { signing_secret?: string } | null } | null)?.config?.signing_secret ?? null;
+}
+
+async function recordAttempt(supabase: DbClient, delivery: WebhookDeliveryRow, result: WebhookAttemptResult): Promise<void> {
+  const { error } = await supabase.from('webhook_audit_logs').insert({
+    team_id: delivery.team_id,
+    event_type: 'webhook_delivery',
+    status: result.status === 'delivered' ? 'success' : 'error',
+    received_at: new Date().toISOString(),
+    details: {
+      delivery_id: delivery.id,
+      integration_id: delivery.integration_id,
+      source: delivery.source,
+      webhook_event: delivery.event_type,
+      url: delivery.url,
+      attempt: result.attempt,
+      response_status: result.responseStatus ?? null,
+      response_body: result.responseBody ?? null,
+      error: result.error ?? null,
+      duration_ms: result.durationMs,
+    },
+  });
+
+  if (error) {
+    console.error('[webhookDelivery] Failed to write audit log:', error);
+  }
+}
+
+/**
+ * Performs one HTTP attempt for a delivery and moves it to delivered,
+ * retrying (with next_attempt_at) or dead_letter.
+ *
+ * The attempts counter doubles as a lock: the update only succeeds if nobody
+ * else attempted the delivery in the meantime, so the worker and an inline
+ * first attempt can't both send it.
+ */
+export async function attemptWebhookDelivery(supabase: DbClient, deliveryId: string): Promise<WebhookAttemptResult | null> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('id', deliveryId)
+    .single();
+
+  if (error || !data) throw new Error(`Webhook delivery ${deliveryId} not found`);
+  const delivery = data as WebhookDeliveryRow;
+  if (delivery.status === 'delivered' || delivery.status === 'dead_letter') return null;
+
+  const attempt = delivery.attempts + 1;
+  const { data: claimed } = await supabase
+    .from('webhook_deliveries')
+    .update({ attempts: attempt, next_attempt_at: new Date(Date.now() + ATTEMPT_LEASE_MS).toISOString() })
+    .eq('id', deliveryId)
+    .eq('attempts', delivery.attempts)
+    .select('id');
+
+  if (!claimed || (claimed as { id: string }[]).length === 0) return null;
+
+  const body = JSON.stringify(delivery.request_body ?? {});
+  const secret = await resolveSecret(supabase, delivery);
+  const headers = await buildSignedHeaders(body, secret, {
+    ...(delivery.request_headers ?? {}),
+    'X-Webhook-Id': delivery.id,
+    'X-Webhook-Event': delivery.event_type,
+    'X-Webhook-Attempt': String(attempt),
+  });
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  const startedAt = Date.now();
+
+  let responseStatus: number | undefined;
+  let responseBody: string | undefined;
+  let errorMessage: string | undefined;
+
+  try {
+    const res = await fetch(delivery.url, { method: 'POST', headers, body, signal: controller.signal });
+    responseStatus = res.status;
+    responseBody = (await res.text().catch(() => '')).slice(0, RESPONSE_BODY_LIMIT);
+    if (!res.ok) errorMessage = `Receiver responded ${res.status}`;
+  } catch (err) {
+    errorMessage =
+      err instanceof Error && err.name === 'AbortError'
+        ? `Timed out after ${WEBHOOK_TIMEOUT_MS}ms`
+        : err instanceof Error
+          ? err.message
+          : 'Unknown error';
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  const delivered = !errorMessage;
+  const canRetry = !delivered && isRetryableStatus(responseStatus) && attempt < delivery.max_attempts;
+  const status: WebhookDeliveryStatus = delivered ? 'delivered' : canRetry ? 'retrying' : 'dead_letter';
+  const nextAttemptAt = canRetry ? new Date(Date.now() + getRetryDelayMs(attempt)).toISOString() : null;
+
+  const result: WebhookAttemptResult = {
+    deliveryId,
+    status,
+    attempt,
+    responseStatus,
+    responseBody,
+    error: errorMessage,
+    durationMs: Date.now() - startedAt,
+    nextAttemptAt,
+  };
+
+  await supabase
+    .from('webhook_deliveries')
+    .update({
+      status,
+      next_attempt_at: nextAttemptAt,
+      last_response_status: responseStatus ?? null,
+      last_response_body: responseBody ?? null,
+      last_error: errorMessage ?? null,
+      delivered_at: delivered ? new Date().toISOString() : null,
+    })
+    .eq('id', deliveryId);
+
+  await recordAttempt(supabase, delivery, result);
+  return result;
+}
+
+/** Persists a delivery and makes the first attempt right away. */
+export async function deliverWebhook(supabase: DbClient, request: WebhookDeliveryRequest): Promise<WebhookAttemptResult | null> {
+  const deliveryId = await enqueueWebhookDelivery(supabase, request);
+  return attemptWebhookDelivery(supabase, deliveryId);
+}
+
+/**
+ * Puts a delivery back in the queue with a fresh attempt budget and sends it
+ * immediately (used by the "Redeliver" button).
+ */
+export async function redeliverWebhook(supabase: DbClient, deliveryId: string): Promise<WebhookAttemptResult | null> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('attempts, max_attempts')
+    .eq('id', deliveryId)
+    .single();
+
+  if (error || !data) throw new Error(`Webhook delivery ${deliveryId} not found`);
+  const delivery = data as Pick<WebhookDeliveryRow, 'attempts' | 'max_attempts'>;
+
+  await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: 'pending',
+      max_attempts: Math.max(delivery.max_attempts, delivery.attempts + 1),
+      next_attempt_at: new Date().toISOString(),
+    })
+    .eq('id', deliveryId);
+
+  return attemptWebhookDelivery(supabase, deliveryId);
+}
+
+/** Deliveries whose next attempt is due (for the retry worker). */
+export async function getDueWebhookDeliveries(supabase: DbClient, limit = 25): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('id')
+    .in('status', ['pending', 'retrying'])
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to load due webhook deliveries: ${error.message}`);
+  return ((data ?? []) as { id: string }[]).map((row) => row.id);
+}
@@ -0,0 +1,53 @@
+// supabase/functions/_shared/webhookSignature.ts
+//
+// HMAC-SHA256 signing for outbound webhooks. Uses Web Crypto only, so it runs
+// in the edge functions (Deno) and in the browser (Vite).
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Hex HMAC-SHA256 of `${timestamp}.${body}`. Including the timestamp lets
+ * receivers reject replays of old deliveries.
+ */
+export async function signWebhookPayload(secret: string, timestamp: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return toHex(signature);
+}
+
+/**
+ * Headers for a signed JSON delivery. Without a secret the request is sent
+ * unsigned (only the timestamp header is added).
+ */
+export async function buildSignedHeaders(
+  body: string,
+  secret?: string | null,
+  extra: Record<string, string> = {},
+): Promise<Record<string, string>> {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...extra,
+    [TIMESTAMP_HEADER]: timestamp,
+  };
+
+  if (secret) {
+    headers[SIGNATURE_HEADER] = `sha256=${await signWebhookPayload(secret, timestamp, body)}`;
+  }
+
+  return headers;
+}
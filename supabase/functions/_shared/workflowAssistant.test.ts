@@ -0,0 +1,265 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AI_ACTION_TYPES,
+  AI_TRIGGER_TYPES,
+  StubWorkflowProvider,
+  normalizeExplanation,
+  normalizeRewrite,
+  normalizeSuggestion,
+  runWorkflowAssistantTask,
+  type AiExplainWorkflowResponse,
+  type AiRewriteTemplateResponse,
+  type AiWorkflowSuggestionResponse,
+} from './workflowAssistant.ts';
+
+const stub = new StubWorkflowProvider();
+
+describe('normalizeSuggestion', () => {
+  it('drops unsupported triggers and falls back to lead_created', () => {
+    const result = normalizeSuggestion({ suggestedTriggers: ['form_abandoned'], suggestedSteps: [] });
+    expect(result.suggestedTriggers).toEqual(['lead_created']);
+    expect(result.warnings).toEqual([
+      'Dropped unsupported trigger "form_abandoned".',
+      'No supported trigger was suggested; starting from "lead_created".',
+    ]);
+  });
+
+  it('drops unsupported actions, incomplete settings and broken templates', () => {
+    const result = normalizeSuggestion({
+      title: '  Rebook  ',
+      suggestedTriggers: ['appointment_no_show'],
+      suggestedSteps: [
+        { label: 'Assign', actionType: 'assign_owner', config: { userId: 'u1' } },
+        { label: 'Empty SMS', actionType: 'send_message', config: { channel: 'sms' } },
+        { label: 'Wait', actionType: 'time_delay', config: { delayHours: 0 } },
+        { label: 'Bad SMS', actionType: 'send_message', config: { template: 'Hi {{lead.shoe_size}}' } },
+        { label: 'Rebook SMS', actionType: 'send_message', explanation: 'Ask', config: { template: 'Hi {{lead.first_name}}' } },
+        'not a step',
+      ],
+    });
+
+    expect(result.title).toBe('Rebook');
+    expect(result.suggestedSteps).toEqual([
+      { label: 'Rebook SMS', actionType: 'send_message', explanation: 'Ask', config: { template: 'Hi {{lead.first_name}}' } },
+    ]);
+    expect(result.warnings).toEqual([
+      'Dropped "Assign": action "assign_owner" can\'t be suggested.',
+      'Dropped "Empty SMS": its settings are incomplete.',
+      'Dropped "Wait": its settings are incomplete.',
+      'Dropped "Bad SMS": template: Unknown variable "{{lead.shoe_size}}".',
+      'Dropped "": action "" can\'t be suggested.',
+    ]);
+  });
+
+  it('builds a linear graph from the first trigger and the kept steps', () => {
+    const result = normalizeSuggestion({
+      suggestedTriggers: ['payment_received', 'deposit_collected'],
+      suggestedSteps: [
+        { label: 'Tag', actionType: 'add_tag', config: { tag: 'customer' } },
+        { label: 'Task', actionType: 'add_task' },
+      ],
+    });
+
+    expect(result.title).toBe('Suggested workflow');
+    expect(result.warnings).toBeUndefined();
+    expect(result.workflow?.nodes.map((node) => [node.id, node.kind, node.triggerType ?? node.actionType])).toEqual([
+      ['trigger-1', 'trigger', 'payment_received'],
+      ['action-1', 'action', 'add_tag'],
+      ['action-2', 'action', 'add_task'],
+    ]);
+    expect(result.workflow?.nodes[0].label).toBe('Payment Received');
+    expect(result.workflow?.edges).toEqual([
+      { id: 'e1', fromNodeId: 'trigger-1', toNodeId: 'action-1' },
+      { id: 'e2', fromNodeId: 'action-1', toNodeId: 'action-2' },
+    ]);
+  });
+
+  it('treats anything that is not an object as an empty suggestion', () => {
+    const result = normalizeSuggestion('nope');
+    expect(result.suggestedSteps).toEqual([]);
+    expect(result.workflow?.nodes).toHaveLength(1);
+  });
+});
+
+describe('normalizeExplanation', () => {
+  it('keeps only non-empty strings', () => {
+    expect(normalizeExplanation({ summary: ' Sends one SMS ', pros: ['Fast', '', 3], risks: 'none' })).toEqual({
+      summary: 'Sends one SMS',
+      pros: ['Fast'],
+      risks: [],
+      suggestions: [],
+    });
+  });
+});
+
+describe('normalizeRewrite', () => {
+  it('trims the template and rationale', () => {
+    expect(normalizeRewrite({ improvedTemplate: ' Hi {{lead.first_name}} ', rationale: ' Shorter ' })).toEqual({
+      improvedTemplate: 'Hi {{lead.first_name}}',
+      rationale: 'Shorter',
+    });
+  });
+
+  it('throws on an empty or invalid template', () => {
+    expect(() => normalizeRewrite({ improvedTemplate: '  ' })).toThrow('The assistant returned an empty template');
+    expect(() => normalizeRewrite(null)).toThrow('The assistant returned an empty template');
+    expect(() => normalizeRewrite({ improvedTemplate: 'Hi {{lead.nickname}}' })).toThrow(
+      'The rewritten template is invalid: Unknown variable "{{lead.nickname}}".',
+    );
+  });
+});
+
+describe('StubWorkflowProvider', () => {
+  it('picks the trigger from the goal and suggests only supported, valid steps', async () => {
+    const cases: Array<[string, string]> = [
+      ['cut down no-shows', 'appointment_no_show'],
+      ['win back cancellations', 'appointment_cancelled'],
+      ['onboard new clients after checkout', 'payment_received'],
+      ['respond to inbound texts', 'message_received'],
+      ['remind people so they show up', 'appointment_booked'],
+      ['book more calls', 'lead_created'],
+    ];
+
+    for (const [goal, trigger] of cases) {
+      const raw = await stub.suggestWorkflow({ task: 'suggest_workflow', teamId: 't1', niche: 'coaching', goal });
+      const result = normalizeSuggestion(raw);
+
+      expect(result.suggestedTriggers).toEqual([trigger]);
+      expect(AI_TRIGGER_TYPES).toContain(trigger);
+      expect(result.warnings).toBeUndefined();
+      expect(result.suggestedSteps).toHaveLength(raw.suggestedSteps.length);
+      for (const step of result.suggestedSteps) expect(AI_ACTION_TYPES).toContain(step.actionType);
+    }
+  });
+
+  it('strips template syntax from free text', async () => {
+    const raw = await stub.suggestWorkflow({
+      task: 'suggest_workflow',
+      teamId: 't1',
+      niche: '{{lead.ssn}} roofing',
+      goal: 'get {{replies}}',
+    });
+    expect(raw.description).toBe('Starter flow for lead.ssn roofing aimed at: get replies.');
+    expect(normalizeSuggestion(raw).warnings).toBeUndefined();
+  });
+
+  it('explains a workflow graph', async () => {
+    const explanation = await stub.explainWorkflow({
+      task: 'explain_workflow',
+      workflowJson: {
+        nodes: [
+          { id: 'trigger-1', kind: 'trigger', triggerType: 'lead_created' },
+          { id: 'a1', kind: 'action', actionType: 'send_message', config: { template: 'Hi {{lead.first_name}}' } },
+          { id: 'a2', kind: 'action', actionType: 'send_message', config: { template: 'Still there?' } },
+        ],
+        edges: [],
+      },
+    });
+
+    expect(explanation.summary).toBe('When "Lead Created" fires, this workflow sends 2 messages.');
+    expect(explanation.pros).toEqual(['Messages are personalized with the lead’s first name.']);
+    expect(explanation.risks).toEqual(['Two messages go out back to back with no delay in between.']);
+    expect(explanation.suggestions).toEqual([
+      'Add a wait step between touches.',
+      'Add a task so a person follows up if messages go unanswered.',
+    ]);
+  });
+
+  it('explains a compiled definition in step order', async () => {
+    const explanation = await stub.explainWorkflow({
+      task: 'explain_workflow',
+      workflowJson: {
+        trigger: { type: 'appointment_booked' },
+        steps: [
+          { order: 2, type: 'send_message', config: { template: 'See you {{lead.bogus}}' } },
+          { order: 1, type: 'time_delay', config: { delayHours: 1 } },
+        ],
+      },
+    });
+
+    expect(explanation.summary).toBe('When "Appointment Booked" fires, this workflow sends 1 message, waits 1 time.');
+    expect(explanation.risks).toEqual(['A message template has problems: template: Unknown variable "{{lead.bogus}}".']);
+    expect(explanation.suggestions[0]).toMatch(/^Add a goal/);
+  });
+
+  it('flags an empty workflow', async () => {
+    const explanation = await stub.explainWorkflow({ task: 'explain_workflow', workflowJson: null });
+    expect(explanation.summary).toBe('When "Unknown" fires, this workflow does nothing.');
+    expect(explanation.risks).toEqual(['The workflow has no steps, so nothing happens when it fires.']);
+  });
+
+  it('rewrites a template with a greeting and a closer for the tone', async () => {
+    const rewrite = await stub.rewriteTemplate({
+      task: 'rewrite_message_template',
+      channel: 'sms',
+      tone: 'casual',
+      currentTemplate: '  Your   call is tomorrow.  ',
+      targetAvatarDescription: 'busy {{parents}}',
+    });
+
+    expect(rewrite.improvedTemplate).toBe('Hey {{lead.first_name}}! Your call is tomorrow. Just reply here!');
+    expect(rewrite.rationale).toBe(
+      'Rewritten in a casual tone: opened with a relaxed, first-name greeting and ended with a clear next step. ' +
+        'Written for busy parents.',
+    );
+    expect(normalizeRewrite(rewrite)).toEqual(rewrite);
+  });
+
+  it('leaves a template that already greets and asks alone', async () => {
+    const rewrite = await stub.rewriteTemplate({
+      task: 'rewrite_message_template',
+      channel: 'email',
+      tone: 'aggressive',
+      currentTemplate: 'Hi there, ready to start?',
+      targetAvatarDescription: '',
+    });
+    expect(rewrite.improvedTemplate).toBe('Hi there, ready to start?');
+    expect(rewrite.rationale).toBe('Already reads in an aggressive tone; only whitespace was tidied.');
+  });
+});
+
+describe('runWorkflowAssistantTask', () => {
+  it('normalizes each task through the provider', async () => {
+    const suggestion = (await runWorkflowAssistantTask(stub, {
+      task: 'suggest_workflow',
+      teamId: 't1',
+      niche: '',
+      goal: '',
+    })) as AiWorkflowSuggestionResponse;
+    expect(suggestion.title).toBe('Lead Created – follow-up');
+    expect(suggestion.workflow?.nodes).toHaveLength(suggestion.suggestedSteps.length + 1);
+
+    const explanation = (await runWorkflowAssistantTask(stub, {
+      task: 'explain_workflow',
+      workflowJson: suggestion.workflow,
+    })) as AiExplainWorkflowResponse;
+    expect(explanation.summary).toMatch(/^When "Lead Created" fires/);
+
+    const rewrite = (await runWorkflowAssistantTask(stub, {
+      task: 'rewrite_message_template',
+      channel: 'sms',
+      tone: 'professional',
+      currentTemplate: 'Call booked',
+      targetAvatarDescription: '',
+    })) as AiRewriteTemplateResponse;
+    expect(rewrite.improvedTemplate).toBe('Hi {{lead.first_name}}, Call booked. Reply to this message with any questions.');
+  });
+
+  it('rejects a provider rewrite with an unknown variable', async () => {
+    const provider = new StubWorkflowProvider();
+    provider.rewriteTemplate = async () => ({ improvedTemplate: 'Hi {{lead.nickname}}', rationale: '' });
+    await expect(
+      runWorkflowAssistantTask(provider, {
+        task: 'rewrite_message_template',
+        channel: 'sms',
+        tone: 'soft',
+        currentTemplate: 'Hi',
+        targetAvatarDescription: '',
+      }),
+    ).rejects.toThrow('The rewritten template is invalid');
+  });
+
+  it('throws on an unknown task', async () => {
+    await expect(runWorkflowAssistantTask(stub, { task: 'translate' } as never)).rejects.toThrow('Unknown task "translate"');
+  });
+});
@@ -0,0 +1,559 @@
+// supabase/functions/_shared/workflowAssistant.ts
+//
+// The AI workflow assistant: suggest a workflow for a goal, explain an
+// existing one, rewrite a message template. Each task goes through an
+// AiWorkflowProvider so the model behind it can be swapped:
+//
+//   StubWorkflowProvider    – deterministic rules, no network; the default,
+//                             and what development and tests run against
+//   OpenAiCompatibleProvider – any OpenAI-style /chat/completions endpoint
+//
+// Whatever a provider returns is normalized here before it reaches the app:
+// suggestions keep only triggers and actions the engine supports, steps with
+// broken templates are dropped, and the result comes with a linear workflow
+// graph (trigger → steps) the app compiles through workflowToAutomation.
+// Only uses fetch, so it runs in the edge function and type-checks in the app.
+import { validateStepTemplates, validateTemplate } from './templateEngine.ts';
+
+export type AiTaskType =
+  | 'suggest_workflow'
+  | 'explain_workflow'
+  | 'rewrite_message_template';
+
+export interface AiWorkflowSuggestionRequest {
+  task: 'suggest_workflow';
+  teamId: string;
+  niche: string; // e.g. "fitness coaching", "real estate", etc.
+  goal: string;  // e.g. "book more qualified calls"
+  currentStack?: string[];
+}
+
+export interface AiSuggestedStep {
+  label: string;
+  actionType: string;
+  explanation: string;
+  config?: Record<string, unknown>;
+}
+
+/** Same shape as a WorkflowDefinition's nodes and edges */
+export interface AiSuggestedWorkflow {
+  nodes: Array<{
+    id: string;
+    kind: 'trigger' | 'action';
+    label: string;
+    triggerType?: string;
+    actionType?: string;
+    config?: Record<string, unknown>;
+  }>;
+  edges: Array<{ id: string; fromNodeId: string; toNodeId: string }>;
+}
+
+export interface AiWorkflowSuggestionResponse {
+  title: string;
+  description: string;
+  suggestedTriggers: string[];
+  suggestedSteps: AiSuggestedStep[];
+  /** Built from the first trigger and the steps, in order */
+  workflow?: AiSuggestedWorkflow;
+  /** Steps or triggers that were dropped while normalizing */
+  warnings?: string[];
+}
+
+export interface AiExplainWorkflowRequest {
+  task: 'explain_workflow';
+  workflowJson: unknown;
+}
+
+export interface AiExplainWorkflowResponse {
+  summary: string;
+  pros: string[];
+  risks: string[];
+  suggestions: string[];
+}
+
+export interface AiRewriteTemplateRequest {
+  task: 'rewrite_message_template';
+  channel: 'sms' | 'email';
+  tone: 'casual' | 'professional' | 'aggressive' | 'soft';
+  currentTemplate: string;
+  targetAvatarDescription: string;
+}
+
+export interface AiRewriteTemplateResponse {
+  improvedTemplate: string;
+  rationale: string;
+}
+
+export type AiWorkflowRequest =
+  | AiWorkflowSuggestionRequest
+  | AiExplainWorkflowRequest
+  | AiRewriteTemplateRequest;
+
+export interface AiWorkflowProvider {
+  id: string;
+  suggestWorkflow(request: AiWorkflowSuggestionRequest): Promise<AiWorkflowSuggestionResponse>;
+  explainWorkflow(request: AiExplainWorkflowRequest): Promise<AiExplainWorkflowResponse>;
+  rewriteTemplate(request: AiRewriteTemplateRequest): Promise<AiRewriteTemplateResponse>;
+}
+
+/** Triggers a suggestion may start from (time_delay is a step, not an event) */
+export const AI_TRIGGER_TYPES = [
+  'lead_created',
+  'lead_tag_added',
+  'appointment_booked',
+  'appointment_rescheduled',
+  'appointment_no_show',
+  'appointment_completed',
+  'appointment_cancelled',
+  'pipeline_stage_changed',
+  'task_overdue',
+  'payment_received',
+  'deposit_collected',
+  'message_received',
+] as const;
+
+/**
+ * Actions a suggestion may use. assign_owner, update_stage, custom_webhook and
+ * enqueue_dialer need team-specific ids a model can't know, so they're left
+ * for the user to add.
+ */
+export const AI_ACTION_TYPES = ['send_message', 'add_task', 'add_tag', 'notify_team', 'time_delay'] as const;
+
+export const AI_PROVIDER_TIMEOUT_MS = 30_000;
+
+const SMS_SEGMENT_LENGTH = 160;
+
+// --- Normalizing provider output ---
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+}
+
+function asString(value: unknown, fallback = ''): string {
+  return typeof value === 'string' ? value.trim() : fallback;
+}
+
+function asStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map((v) => asString(v)).filter(Boolean) : [];
+}
+
+function isConfigUsable(actionType: string, config: Record<string, unknown>): boolean {
+  if (actionType === 'send_message') return !!asString(config.template ?? config.body);
+  if (actionType === 'notify_team') return !!asString(config.message ?? config.template);
+  if (actionType === 'add_tag') return !!asString(config.tag);
+  if (actionType === 'time_delay') {
+    return ['delayMinutes', 'delayHours', 'delayDays'].some((key) => Number(config[key]) > 0);
+  }
+  return true;
+}
+
+/** Linear graph: trigger-1 → action-1 → action-2 … */
+export function buildSuggestedWorkflow(triggerType: string, triggerLabel: string, steps: AiSuggestedStep[]): AiSuggestedWorkflow {
+  const nodes: AiSuggestedWorkflow['nodes'] = [
+    { id: 'trigger-1', kind: 'trigger', label: triggerLabel, triggerType },
+    ...steps.map((step, index) => ({
+      id: `action-${index + 1}`,
+      kind: 'action' as const,
+      label: step.label,
+      actionType: step.actionType,
+      config: step.config ?? {},
+    })),
+  ];
+  const edges = nodes.slice(1).map((node, index) => ({
+    id: `e${index + 1}`,
+    fromNodeId: nodes[index].id,
+    toNodeId: node.id,
+  }));
+  return { nodes, edges };
+}
+
+export function normalizeSuggestion(raw: unknown): AiWorkflowSuggestionResponse {
+  const value = asRecord(raw);
+  const warnings: string[] = [];
+
+  const triggers = asStringList(value.suggestedTriggers);
+  const supportedTriggers = triggers.filter((t) => (AI_TRIGGER_TYPES as readonly string[]).includes(t));
+  for (const trigger of triggers) {
+    if (!supportedTriggers.includes(trigger)) warnings.push(`Dropped unsupported trigger "${trigger}".`);
+  }
+  if (supportedTriggers.length === 0) {
+    supportedTriggers.push('lead_created');
+    warnings.push('No supported trigger was suggested; starting from "lead_created".');
+  }
+
+  const steps: AiSuggestedStep[] = [];
+  for (const rawStep of Array.isArray(value.suggestedSteps) ? value.suggestedSteps.map(asRecord) : []) {
+    const actionType = asString(rawStep.actionType);
+    const label = asString(rawStep.label, actionType) || actionType;
+    const config = asRecord(rawStep.config);
+
+    if (!(AI_ACTION_TYPES as readonly string[]).includes(actionType)) {
+      warnings.push(`Dropped "${label}": action "${actionType}" can't be suggested.`);
+      continue;
+    }
+    if (!isConfigUsable(actionType, config)) {
+      warnings.push(`Dropped "${label}": its settings are incomplete.`);
+      continue;
+    }
+    const templateProblems = validateStepTemplates(actionType, config);
+    if (templateProblems.length > 0) {
+      warnings.push(`Dropped "${label}": ${templateProblems[0]}`);
+      continue;
+    }
+    steps.push({ label, actionType, explanation: asString(rawStep.explanation), config });
+  }
+
+  const title = asString(value.title, 'Suggested workflow') || 'Suggested workflow';
+  return {
+    title,
+    description: asString(value.description),
+    suggestedTriggers: supportedTriggers,
+    suggestedSteps: steps,
+    workflow: buildSuggestedWorkflow(supportedTriggers[0], humanizeTrigger(supportedTriggers[0]), steps),
+    ...(warnings.length > 0 ? { warnings } : {}),
+  };
+}
+
+export function normalizeExplanation(raw: unknown): AiExplainWorkflowResponse {
+  const value = asRecord(raw);
+  return {
+    summary: asString(value.summary),
+    pros: asStringList(value.pros),
+    risks: asStringList(value.risks),
+    suggestions: asStringList(value.suggestions),
+  };
+}
+
+/** Throws when the rewrite is empty or uses variables the template engine doesn't know. */
+export function normalizeRewrite(raw: unknown): AiRewriteTemplateResponse {
+  const value = asRecord(raw);
+  const improvedTemplate = asString(value.improvedTemplate);
+  if (!improvedTemplate) throw new Error('The assistant returned an empty template');
+
+  const issues = validateTemplate(improvedTemplate);
+  if (issues.length > 0) throw new Error(`The rewritten template is invalid: ${issues[0].message}`);
+
+  return { improvedTemplate, rationale: asString(value.rationale) };
+}
+
+/** Runs one task on a provider and normalizes the result. */
+export async function runWorkflowAssistantTask(
+  provider: AiWorkflowProvider,
+  request: AiWorkflowRequest,
+): Promise<AiWorkflowSuggestionResponse | AiExplainWorkflowResponse | AiRewriteTemplateResponse> {
+  switch (request.task) {
+    case 'suggest_workflow':
+      return normalizeSuggestion(await provider.suggestWorkflow(request));
+    case 'explain_workflow':
+      return normalizeExplanation(await provider.explainWorkflow(request));
+    case 'rewrite_message_template':
+      return normalizeRewrite(await provider.rewriteTemplate(request));
+    default:
+      throw new Error(`Unknown task "${(request as { task?: string }).task}"`);
+  }
+}
+
+// --- Deterministic stub ---
+
+function humanizeTrigger(triggerType: string): string {
+  return triggerType.split('_').map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+}
+
+/** Free text is placed into templates, so template syntax is stripped from it */
+function plain(text: string): string {
+  return text.replace(/[{}]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+const TRIGGER_RULES: Array<{ pattern: RegExp; trigger: string }> = [
+  { pattern: /no[\s-]?show|missed/i, trigger: 'appointment_no_show' },
+  { pattern: /cancel/i, trigger: 'appointment_cancelled' },
+  { pattern: /deposit/i, trigger: 'deposit_collected' },
+  { pattern: /pay|purchase|checkout|invoice|onboard/i, trigger: 'payment_received' },
+  { pattern: /repl|inbound|respond/i, trigger: 'message_received' },
+  { pattern: /remind|show[\s-]?up|attend|confirm/i, trigger: 'appointment_booked' },
+];
+
+function stubSteps(trigger: string, niche: string): AiSuggestedStep[] {
+  const sms = (label: string, template: string, explanation: string): AiSuggestedStep => ({
+    label,
+    actionType: 'send_message',
+    explanation,
+    config: { channel: 'sms', template },
+  });
+  const wait = (hours: number, explanation: string): AiSuggestedStep => ({
+    label: hours >= 24 ? `Wait ${hours / 24} day${hours === 24 ? '' : 's'}` : `Wait ${hours} hours`,
+    actionType: 'time_delay',
+    explanation,
+    config: hours >= 24 ? { delayDays: hours / 24 } : { delayHours: hours },
+  });
+  const about = niche ? ` about ${niche}` : '';
+
+  switch (trigger) {
+    case 'appointment_no_show':
+      return [
+        sms('Rebook SMS', "Hey {{lead.first_name}}, sorry we missed you! Want to grab another time?", 'Reach out while the intent is still fresh.'),
+        wait(48, 'Give them room before the last nudge.'),
+        sms('Last-chance SMS', "Last check-in from {{team.name}} – reply and we'll find a time that works.", 'One final, low-pressure follow-up.'),
+        { label: 'Tag as no-show', actionType: 'add_tag', explanation: 'Lets you segment repeat no-shows.', config: { tag: 'no-show' } },
+      ];
+    case 'appointment_cancelled':
+      return [
+        sms('Rebook SMS', 'Hi {{lead.first_name}}, no problem on the cancellation. Want to pick a new time?', 'Most cancellations are timing, not interest.'),
+        { label: 'Follow-up task', actionType: 'add_task', explanation: 'A setter calls if they do not rebook.', config: { taskType: 'follow_up', followUpInHours: 24 } },
+      ];
+    case 'payment_received':
+    case 'deposit_collected':
+      return [
+        sms('Thank-you SMS', "Thanks {{lead.first_name}}! You're all set with {{team.name}}.", 'Confirms the payment and sets expectations.'),
+        { label: 'Notify team', actionType: 'notify_team', explanation: 'The team can start onboarding right away.', config: { message: 'Payment in from {{lead.first_name}} {{lead.last_name}}' } },
+        { label: 'Tag as customer', actionType: 'add_tag', explanation: 'Keeps customers out of prospect nurtures.', config: { tag: 'customer' } },
+      ];
+    case 'message_received':
+      return [
+        { label: 'Notify team', actionType: 'notify_team', explanation: 'Replies go cold fast; alert whoever is on.', config: { message: '{{lead.first_name}} replied – jump in.' } },
+        { label: 'Reply task', actionType: 'add_task', explanation: 'Makes sure someone owns the reply.', config: { taskType: 'follow_up', followUpInHours: 1 } },
+      ];
+    case 'appointment_booked':
+      return [
+        sms('Confirmation SMS', `You're booked, {{lead.first_name}}! Looking forward to chatting${about}.`, 'Confirms the booking and builds commitment.'),
+        { label: 'Notify team', actionType: 'notify_team', explanation: 'Gives the closer a heads-up.', config: { message: 'New call booked: {{lead.first_name}} {{lead.last_name}}' } },
+      ];
+    default:
+      return [
+        sms('Welcome SMS', `Hey {{lead.first_name}}, it's {{team.name}}. Thanks for reaching out${about} – when's a good time to talk?`, 'Speed to lead: the first message goes out right away.'),
+        wait(24, 'A day between touches keeps it friendly.'),
+        sms('Follow-up SMS', 'Still interested, {{lead.first_name}}? Reply YES and we will get you booked.', 'A simple yes/no reply is easy to answer.'),
+        { label: 'Call task', actionType: 'add_task', explanation: 'If texts go unanswered, a setter calls.', config: { taskType: 'follow_up', followUpInHours: 24 } },
+      ];
+  }
+}
+
+interface ExplainedStep {
+  type: string;
+  config: Record<string, unknown>;
+}
+
+/** Action steps in run order, from either a compiled definition or a workflow graph */
+function readSteps(workflow: Record<string, unknown>): { trigger: string; steps: ExplainedStep[] } {
+  if (Array.isArray(workflow.nodes)) {
+    const nodes = workflow.nodes.map(asRecord);
+    const trigger = nodes.find((n) => n.kind === 'trigger');
+    return {
+      trigger: asString(trigger?.triggerType, 'unknown'),
+      steps: nodes
+        .filter((n) => n.kind !== 'trigger')
+        .map((n) => ({ type: n.kind === 'condition' ? 'condition' : asString(n.actionType), config: asRecord(n.config) })),
+    };
+  }
+  const steps = Array.isArray(workflow.steps) ? workflow.steps.map(asRecord) : [];
+  steps.sort((a, b) => (Number(a.order) || 0) - (Number(b.order) || 0));
+  return {
+    trigger: asString(asRecord(workflow.trigger).type ?? workflow.triggerType, 'unknown'),
+    steps: steps.map((s) => ({ type: asString(s.type), config: asRecord(s.config) })),
+  };
+}
+
+const GREETING = /^(hi|hey|hello|dear|good (morning|afternoon|evening))\b/i;
+
+const TONES: Record<AiRewriteTemplateRequest['tone'], { greeting: string; closer: string; note: string }> = {
+  casual: { greeting: 'Hey {{lead.first_name}}!', closer: 'Just reply here!', note: 'a relaxed, first-name greeting' },
+  professional: { greeting: 'Hi {{lead.first_name}},', closer: 'Reply to this message with any questions.', note: 'a clear, polite structure' },
+  soft: { greeting: "Hi {{lead.first_name}}, hope you're doing well.", closer: 'No pressure – reply whenever suits you.', note: 'a gentle, no-pressure close' },
+  aggressive: { greeting: '{{lead.first_name}},', closer: 'Spots are limited – reply now to lock yours in.', note: 'urgency and a direct call to action' },
+};
+
+/** Rule-based answers for every task; same input, same output, no network. */
+export class StubWorkflowProvider implements AiWorkflowProvider {
+  id = 'stub';
+
+  async suggestWorkflow(request: AiWorkflowSuggestionRequest): Promise<AiWorkflowSuggestionResponse> {
+    const niche = plain(request.niche ?? '');
+    const goal = plain(request.goal ?? '');
+    const trigger = TRIGGER_RULES.find((rule) => rule.pattern.test(goal))?.trigger ?? 'lead_created';
+
+    return {
+      title: `${humanizeTrigger(trigger)} – ${goal || 'follow-up'}`.slice(0, 80),
+      description: `Starter flow${niche ? ` for ${niche}` : ''} aimed at: ${goal || 'following up consistently'}.`,
+      suggestedTriggers: [trigger],
+      suggestedSteps: stubSteps(trigger, niche),
+    };
+  }
+
+  async explainWorkflow(request: AiExplainWorkflowRequest): Promise<AiExplainWorkflowResponse> {
+    const workflow = asRecord(request.workflowJson);
+    const { trigger, steps } = readSteps(workflow);
+    const messages = steps.filter((s) => s.type === 'send_message');
+    const delays = steps.filter((s) => s.type === 'time_delay');
+    const hasGoals = Array.isArray(workflow.goals) && workflow.goals.length > 0;
+
+    const pros: string[] = [];
+    const risks: string[] = [];
+    const suggestions: string[] = [];
+
+    if (messages.some((m) => /\{\{\s*lead\.first_name/.test(asString(m.config.template)))) {
+      pros.push('Messages are personalized with the lead’s first name.');
+    }
+    if (delays.length > 0) pros.push('Touches are spaced out with delays.');
+    if (steps.some((s) => s.type === 'condition')) pros.push('Branches on conditions instead of messaging everyone the same way.');
+    if (hasGoals) pros.push('Stops early once the goal is reached.');
+
+    for (let i = 1; i < steps.length; i++) {
+      if (steps[i].type === 'send_message' && steps[i - 1].type === 'send_message') {
+        risks.push('Two messages go out back to back with no delay in between.');
+        break;
+      }
+    }
+    if (messages.length > 3) risks.push(`${messages.length} messages in one flow can feel like spam.`);
+    for (const message of messages) {
+      const template = asString(message.config.template ?? message.config.body);
+      if (message.config.channel !== 'email' && template.length > SMS_SEGMENT_LENGTH * 2) {
+        risks.push(`An SMS is ${template.length} characters, which sends as ${Math.ceil(template.length / SMS_SEGMENT_LENGTH)} segments.`);
+      }
+      const problems = validateStepTemplates('send_message', message.config);
+      if (problems.length > 0) risks.push(`A message template has problems: ${problems[0]}`);
+    }
+    if (steps.length === 0) risks.push('The workflow has no steps, so nothing happens when it fires.');
+
+    if (!hasGoals && delays.length > 0) {
+      suggestions.push('Add a goal (e.g. "Books an appointment") so leads stop getting follow-ups once they convert.');
+    }
+    if (messages.length > 0 && delays.length === 0) suggestions.push('Add a wait step between touches.');
+    if (!steps.some((s) => s.type === 'add_task') && messages.length > 1) {
+      suggestions.push('Add a task so a person follows up if messages go unanswered.');
+    }
+
+    const parts = [
+      messages.length ? `sends ${messages.length} message${messages.length === 1 ? '' : 's'}` : null,
+      delays.length ? `waits ${delays.length} time${delays.length === 1 ? '' : 's'}` : null,
+      steps.length - messages.length - delays.length > 0
+        ? `runs ${steps.length - messages.length - delays.length} other step${steps.length - messages.length - delays.length === 1 ? '' : 's'}`
+        : null,
+    ].filter(Boolean);
+
+    return {
+      summary: `When "${humanizeTrigger(trigger)}" fires, this workflow ${parts.length ? parts.join(', ') : 'does nothing'}.`,
+      pros,
+      risks,
+      suggestions,
+    };
+  }
+
+  async rewriteTemplate(request: AiRewriteTemplateRequest): Promise<AiRewriteTemplateResponse> {
+    const tone = TONES[request.tone] ?? TONES.professional;
+    const changes: string[] = [];
+    let text = asString(request.currentTemplate).replace(/\s+/g, ' ');
+
+    if (!GREETING.test(text) && !/\{\{\s*lead\.first_name/.test(text)) {
+      text = `${tone.greeting} ${text}`;
+      changes.push(`opened with ${tone.note}`);
+    }
+    if (!/[?!]\s*$/.test(text)) {
+      text = `${text.replace(/[.\s]*$/, '.')} ${tone.closer}`;
+      changes.push('ended with a clear next step');
+    }
+
+    const audience = plain(request.targetAvatarDescription ?? '');
+    const toneLabel = `${request.tone === 'aggressive' ? 'an' : 'a'} ${request.tone} tone`;
+    const rationale = [
+      changes.length ? `Rewritten in ${toneLabel}: ${changes.join(' and ')}.` : `Already reads in ${toneLabel}; only whitespace was tidied.`,
+      audience ? `Written for ${audience}.` : null,
+      request.channel === 'sms' && text.length > SMS_SEGMENT_LENGTH
+        ? `At ${text.length} characters this sends as ${Math.ceil(text.length / SMS_SEGMENT_LENGTH)} SMS segments; trim it to stay in one.`
+        : null,
+    ].filter(Boolean).join(' ');
+
+    return { improvedTemplate: text, rationale };
+  }
+}
+
+// --- OpenAI-compatible chat completions ---
+
+export interface OpenAiCompatibleConfig {
+  apiKey: string;
+  model?: string;
+  /** e.g. https://api.openai.com/v1 or any gateway with the same API */
+  baseUrl?: string;
+}
+
+const SYSTEM_PROMPT =
+  'You help sales teams build messaging automations. Answer with a single JSON object only, no prose. ' +
+  'Message templates use {{lead.first_name}}, {{lead.last_name}}, {{lead.email}}, {{team.name}}, ' +
+  '{{appointment.start_at_utc | datetime}}, {{appointment.meeting_link}} and {{appointment.reschedule_url}}; ' +
+  'use no other variables.';
+
+export class OpenAiCompatibleProvider implements AiWorkflowProvider {
+  id: string;
+  private readonly model: string;
+  private readonly baseUrl: string;
+
+  constructor(private readonly config: OpenAiCompatibleConfig) {
+    this.model = config.model || 'gpt-4o-mini';
+    this.baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.id = `openai:${this.model}`;
+  }
+
+  private async complete(prompt: string): Promise<unknown> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), AI_PROVIDER_TIMEOUT_MS);
+    try {
+      const res = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${this.config.apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.model,
+          temperature: 0.4,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: prompt },
+          ],
+        }),
+        signal: controller.signal,
+      });
+      if (!res.ok) throw new Error(`Model request failed (${res.status}): ${(await res.text()).slice(0, 200)}`);
+
+      const data = await res.json();
+      const content = data?.choices?.[0]?.message?.content;
+      try {
+        return JSON.parse(content);
+      } catch {
+        throw new Error('Model did not return JSON');
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  async suggestWorkflow(request: AiWorkflowSuggestionRequest): Promise<AiWorkflowSuggestionResponse> {
+    return (await this.complete(
+      [
+        `Suggest one automation for a ${request.niche} business whose goal is: ${request.goal}.`,
+        request.currentStack?.length ? `They use: ${request.currentStack.join(', ')}.` : '',
+        `Return {"title","description","suggestedTriggers":[...],"suggestedSteps":[{"label","actionType","explanation","config"}]}.`,
+        `suggestedTriggers: one or more of ${AI_TRIGGER_TYPES.join(', ')}.`,
+        `actionType: one of ${AI_ACTION_TYPES.join(', ')}. Configs: send_message {channel:"sms"|"email",template,subject?}, ` +
+          'time_delay {delayHours|delayDays}, add_tag {tag}, notify_team {message}, add_task {taskType:"follow_up",followUpInHours}.',
+        'Keep it to 2–6 steps in run order.',
+      ].filter(Boolean).join('\n'),
+    )) as AiWorkflowSuggestionResponse;
+  }
+
+  async explainWorkflow(request: AiExplainWorkflowRequest): Promise<AiExplainWorkflowResponse> {
+    return (await this.complete(
+      'Explain this automation to a non-technical sales manager. ' +
+        'Return {"summary","pros":[...],"risks":[...],"suggestions":[...]}.\n' +
+        JSON.stringify(request.workflowJson).slice(0, 12_000),
+    )) as AiExplainWorkflowResponse;
+  }
+
+  async rewriteTemplate(request: AiRewriteTemplateRequest): Promise<AiRewriteTemplateResponse> {
+    return (await this.complete(
+      [
+        `Rewrite this ${request.channel} message in a ${request.tone} tone for: ${request.targetAvatarDescription || 'the team’s leads'}.`,
+        request.channel === 'sms' ? `Stay under ${SMS_SEGMENT_LENGTH} characters if you can.` : '',
+        'Keep every {{variable}} that is already there. Return {"improvedTemplate","rationale"}.',
+        `Message: ${request.currentTemplate}`,
+      ].filter(Boolean).join('\n'),
+    )) as AiRewriteTemplateResponse;
+  }
+}
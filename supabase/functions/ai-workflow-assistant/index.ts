@@ -0,0 +1,124 @@
+// supabase/functions/ai-workflow-assistant/index.ts
+// Backend for the AI workflow assistant (src/lib/ai/workflowAssistant.ts).
+//
+//   POST /ai-workflow-assistant/suggest           AiWorkflowSuggestionRequest
+//   POST /ai-workflow-assistant/explain           AiExplainWorkflowRequest
+//   POST /ai-workflow-assistant/rewrite-template  AiRewriteTemplateRequest
+//
+// The model is picked by AI_PROVIDER: "openai" uses OPENAI_API_KEY (plus
+// optional AI_MODEL and AI_BASE_URL for compatible gateways); anything else,
+// or a missing key, uses the deterministic stub. Callers must be signed in,
+// and suggestions are only made for teams the caller belongs to.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  OpenAiCompatibleProvider,
+  StubWorkflowProvider,
+  runWorkflowAssistantTask,
+  type AiTaskType,
+  type AiWorkflowProvider,
+  type AiWorkflowRequest,
+} from "../_shared/workflowAssistant.ts";
+import type { DbClient } from "../_shared/supabaseClient.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const ROUTES: Record<string, AiTaskType> = {
+  suggest: "suggest_workflow",
+  explain: "explain_workflow",
+  "rewrite-template": "rewrite_message_template",
+};
+
+function getSupabaseClient() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function getProvider(): AiWorkflowProvider {
+  const apiKey = Deno.env.get("OPENAI_API_KEY");
+  if (Deno.env.get("AI_PROVIDER") === "openai" && apiKey) {
+    return new OpenAiCompatibleProvider({
+      apiKey,
+      model: Deno.env.get("AI_MODEL") ?? undefined,
+      baseUrl: Deno.env.get("AI_BASE_URL") ?? undefined,
+    });
+  }
+  return new StubWorkflowProvider();
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function isTeamMember(supabase: DbClient, userId: string, teamId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from("team_members")
+    .select("id")
+    .eq("team_id", teamId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  return !!data;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  const supabase = getSupabaseClient();
+
+  try {
+    const route = new URL(req.url).pathname.split("/").filter(Boolean).pop() ?? "";
+    const task = ROUTES[route];
+    if (!task) {
+      return json({ error: `Unknown route "${route}"; use suggest, explain or rewrite-template` }, 404);
+    }
+
+    const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+    if (!body) return json({ error: "Request body must be JSON" }, 400);
+    if (body.task && body.task !== task) {
+      return json({ error: `Task "${body.task}" does not match route "${route}"` }, 400);
+    }
+    const request = { ...body, task } as AiWorkflowRequest;
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    const { data: userData } = await supabase.auth.getUser(token);
+    if (!userData?.user) return json({ error: "Not signed in" }, 401);
+
+    if (request.task === "suggest_workflow") {
+      if (!request.teamId || !request.goal) return json({ error: "teamId and goal are required" }, 400);
+      if (!(await isTeamMember(supabase, userData.user.id, request.teamId))) {
+        return json({ error: "Not a member of this team" }, 403);
+      }
+    } else if (request.task === "explain_workflow") {
+      if (!request.workflowJson || typeof request.workflowJson !== "object") {
+        return json({ error: "workflowJson is required" }, 400);
+      }
+    } else if (!request.currentTemplate?.trim()) {
+      return json({ error: "currentTemplate is required" }, 400);
+    }
+
+    const provider = getProvider();
+    try {
+      const result = await runWorkflowAssistantTask(provider, request);
+      console.log(`[ai-workflow-assistant] ${task} via ${provider.id}`);
+      return json(result);
+    } catch (error) {
+      // Provider or normalization failure: the request was fine, the answer wasn't
+      console.error(`[ai-workflow-assistant] ${task} via ${provider.id} failed:`, error);
+      return json({ error: error instanceof Error ? error.message : "Assistant failed" }, 502);
+    }
+  } catch (error) {
+    console.error("[ai-workflow-assistant] Error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
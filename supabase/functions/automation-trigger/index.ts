@@ -1,5 +1,24 @@
 // supabase/functions/automation-trigger/index.ts
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  getFieldValue,
+  traceConditions,
+  type AutomationCondition,
+  type ConditionGroupTrace,
+} from "../_shared/automationRules.ts";
+import { deliverWebhook } from "../_shared/webhookDelivery.ts";
+import { getTemplateVariables, renderTemplate } from "../_shared/templateEngine.ts";
+import { getTeamMessageProviders, sendTeamMessage } from "../_shared/teamMessaging.ts";
+import { evaluateCompliance } from "../_shared/messageCompliance.ts";
+import {
+  checkEnrollment,
+  exitRunsForGoals,
+  getContactKey,
+  normalizeExclusionGroup,
+  type AutomationEnrollmentSettings,
+} from "../_shared/automationEnrollment.ts";
+import { enqueueDialerContact } from "../_shared/powerDialer.ts";
+import type { OutboundMessage } from "../_shared/messageProviders.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -14,7 +33,12 @@ type TriggerType =
   | "appointment_rescheduled"
   | "appointment_no_show"
   | "appointment_completed"
+  | "appointment_cancelled"
+  | "pipeline_stage_changed"
+  | "task_overdue"
   | "payment_received"
+  | "deposit_collected"
+  | "message_received"
   | "time_delay";
 
 type ActionType =
@@ -30,21 +54,20 @@ type ActionType =
 
 type CrmEntity = "lead" | "deal";
 
-interface AutomationCondition {
-  field: string;
-  operator: "equals" | "not_equals" | "contains" | "gt" | "lt" | "in";
-  value: string | number | string[];
-}
+type StepType = ActionType | "condition";
 
 interface AutomationStep {
   id: string;
   order: number;
-  type: ActionType;
+  type: StepType;
   config: Record<string, any>;
   conditions?: AutomationCondition[];
+  logicOperator?: "AND" | "OR";
+  next?: string | null;
+  branches?: { true: string | null; false: string | null };
 }
 
-interface AutomationDefinition {
+interface AutomationDefinition extends AutomationEnrollmentSettings {
   id: string;
   teamId: string;
   name: string;
@@ -55,7 +78,10 @@ interface AutomationDefinition {
     config: Record<string, any>;
   };
   steps: AutomationStep[];
+  entryStepId?: string | null;
   triggerType?: TriggerType;
+  /** automation_versions row the definition came from */
+  versionId?: string | null;
 }
 
 interface AutomationContext {
@@ -67,17 +93,29 @@ interface AutomationContext {
   payment?: Record<string, any> | null;
   deal?: Record<string, any> | null;
   meta?: Record<string, any> | null;
+  /** Team name / timezone for templates; loaded by the handler */
+  team?: { id: string; name: string; timezone: string | null } | null;
 }
 
 interface TriggerRequest {
   triggerType: TriggerType;
   teamId: string;
   eventPayload: Record<string, any>;
+  /** Set by process-automation-jobs to continue a run paused on a delay */
+  resumeJobId?: string;
+  /**
+   * Simulate instead of run: nothing is sent or written and the full step
+   * trace is returned. Tests `automation` (an unsaved definition) or the
+   * saved `automationId`, regardless of is_active.
+   */
+  dryRun?: boolean;
+  automation?: Partial<AutomationDefinition>;
+  automationId?: string;
 }
 
 interface StepExecutionLog {
   stepId: string;
-  actionType: ActionType;
+  actionType: StepType;
   channel?: string;
   provider?: string;
   templateVariables?: Record<string, any>;
@@ -90,6 +128,26 @@ interface StepExecutionLog {
   to?: string;
   messageId?: string;
   renderedBody?: string;
+  branchTaken?: "true" | "false";
+  waitUntil?: string;
+  /** send_message held back by quiet hours; message_logs sends it at this time */
+  deferredUntil?: string;
+  jobId?: string;
+  taskId?: string;
+  queueItemId?: string;
+  tag?: string;
+  deliveryId?: string;
+  response?: { status: number; ok: boolean; body?: string; durationMs: number };
+  /** What the step's conditions (or a condition node) compared, with actual values */
+  conditionTrace?: ConditionGroupTrace;
+  /** Set on every step of a dry run; side effects were skipped */
+  dryRun?: boolean;
+}
+
+interface AutomationExecutionResult {
+  logs: StepExecutionLog[];
+  /** Set when the run paused on a time_delay step */
+  waitingUntil: string | null;
 }
 
 interface TriggerResponse {
@@ -97,7 +155,13 @@ interface TriggerResponse {
   triggerType: TriggerType;
   automationsRun: string[];
   stepsExecuted: StepExecutionLog[];
+  /** Automations that matched the trigger but didn't start a run, and why */
+  automationsSkipped?: { automationId: string; reason: string }[];
+  /** Waiting runs this event ended by meeting their automation's goal */
+  runsExited?: string[];
   error?: string;
+  /** False when a resumed run failed partway; retrying would repeat its earlier steps */
+  retryable?: boolean;
 }
 
 // --- Supabase Client ---
@@ -107,6 +171,8 @@ function getSupabaseClient() {
   return createClient(supabaseUrl, supabaseServiceKey);
 }
 
+type SupabaseClient = ReturnType<typeof getSupabaseClient>;
+
 // --- Context Builder ---
 function buildAutomationContext(triggerType: TriggerType, payload: Record<string, any>): AutomationContext {
   const { teamId } = payload;
@@ -122,49 +188,43 @@ function buildAutomationContext(triggerType: TriggerType, payload: Record<string
   };
 }
 
-// --- Condition Evaluator ---
-function getFieldValue(context: Record<string, any>, path: string): any {
-  const keys = path.split(".");
-  let value: any = context;
-  for (const key of keys) {
-    if (value == null) return undefined;
-    value = value[key];
+async function getTeamContext(supabase: SupabaseClient, teamId: string): Promise<AutomationContext["team"]> {
+  const { data, error } = await supabase.from("teams").select("id, name, timezone").eq("id", teamId).maybeSingle();
+  if (error) {
+    console.error("[Automation Trigger] Error loading team:", error);
+    return null;
   }
-  return value;
+  return data ?? null;
 }
 
-function evaluateCondition(condition: AutomationCondition, context: Record<string, any>): boolean {
-  const actual = getFieldValue(context, condition.field);
-  const expected = condition.value;
-
-  switch (condition.operator) {
-    case "equals":
-      return actual === expected;
-    case "not_equals":
-      return actual !== expected;
-    case "contains":
-      return typeof actual === "string" && actual.includes(String(expected));
-    case "gt":
-      return typeof actual === "number" && actual > Number(expected);
-    case "lt":
-      return typeof actual === "number" && actual < Number(expected);
-    case "in":
-      return Array.isArray(expected) && expected.includes(actual);
-    default:
-      return false;
-  }
+interface AutomationRow {
+  id: string;
+  team_id: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  trigger_type: string;
+  current_version_id?: string | null;
+  definition: Partial<AutomationDefinition> | null;
 }
 
-function evaluateConditions(
-  conditions: AutomationCondition[] | undefined,
-  context: Record<string, any>,
-  logic: "AND" | "OR" = "AND",
-): boolean {
-  if (!conditions || conditions.length === 0) return true;
-  if (logic === "AND") {
-    return conditions.every((c) => evaluateCondition(c, context));
-  }
-  return conditions.some((c) => evaluateCondition(c, context));
+function toAutomationDefinition(row: AutomationRow): AutomationDefinition {
+  const definition = row.definition || {};
+  return {
+    id: row.id,
+    teamId: row.team_id,
+    name: row.name,
+    description: row.description || "",
+    isActive: row.is_active,
+    trigger: definition.trigger || { type: row.trigger_type, config: {} },
+    triggerType: row.trigger_type as TriggerType,
+    steps: definition.steps || [],
+    entryStepId: definition.entryStepId ?? null,
+    enrollment: definition.enrollment,
+    goals: definition.goals,
+    exclusionGroup: definition.exclusionGroup ?? null,
+    versionId: row.current_version_id ?? null,
+  } as AutomationDefinition;
 }
 
 // --- Get Automations from DB ONLY (no templates to prevent duplicates) ---
@@ -188,19 +248,7 @@ async function getAutomationsForTrigger(
 
     if (data && data.length > 0) {
       console.log(`[Automation Trigger] Found ${data.length} DB automations for ${triggerType}`);
-      return data.map((row: any) => {
-        const definition = row.definition || {};
-        return {
-          id: row.id,
-          teamId: row.team_id,
-          name: row.name,
-          description: row.description || "",
-          isActive: row.is_active,
-          trigger: definition.trigger || { type: row.trigger_type, config: {} },
-          triggerType: row.trigger_type as TriggerType,
-          steps: definition.steps || [],
-        } as AutomationDefinition;
-      });
+      return data.map(toAutomationDefinition);
     }
 
     console.log(`[Automation Trigger] No DB automations found for ${triggerType}`);
@@ -260,6 +308,9 @@ async function createAutomationRun(
     context?: AutomationContext;
     eventId: string;
     automationKey: string;
+    contactKey: string | null;
+    exclusionGroup: string | null;
+    automationVersionId: string | null;
   },
 ): Promise<string | null> {
   try {
@@ -280,6 +331,9 @@ async function createAutomationRun(
           status: "running",
           steps_executed: [],
           context_snapshot: contextSnapshot,
+          contact_key: params.contactKey,
+          exclusion_group: params.exclusionGroup,
+          automation_version_id: params.automationVersionId,
         },
       ])
       .select("id")
@@ -302,7 +356,7 @@ async function updateAutomationRun(
   supabase: any,
   runId: string,
   params: {
-    status: "success" | "error";
+    status: "success" | "error" | "waiting";
     errorMessage?: string;
     stepsExecuted: StepExecutionLog[];
   },
@@ -325,262 +379,915 @@ async function updateAutomationRun(
   }
 }
 
-// --- Log Message to message_logs ---
-async function logMessage(
+// --- Tag loop protection ---
+// add_tag fires lead_tag_added, which can run automations that add more tags.
+// Each hop carries the chain of automations that led to it; we stop at a fixed
+// depth and never re-enter an automation that is already in the chain.
+const MAX_AUTOMATION_DEPTH = 3;
+
+const WEBHOOK_RESPONSE_LOG_LIMIT = 2_000;
+
+function getAutomationChain(context: AutomationContext): string[] {
+  const chain = context.meta?.automationChain;
+  return Array.isArray(chain) ? chain : [];
+}
+
+async function emitTagAdded(automation: AutomationDefinition, context: AutomationContext, tag: string): Promise<void> {
+  const chain = [...getAutomationChain(context), automation.id];
+  if (chain.length > MAX_AUTOMATION_DEPTH) {
+    console.warn(`[Automation] Not firing lead_tag_added for "${tag}" – max depth reached`, chain);
+    return;
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  try {
+    const res = await fetch(`${supabaseUrl}/functions/v1/automation-trigger`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${supabaseServiceKey}`,
+      },
+      body: JSON.stringify({
+        triggerType: "lead_tag_added",
+        teamId: context.teamId,
+        eventId: `lead_tag_added:${context.lead?.id}:${tag.toLowerCase()}`,
+        eventPayload: {
+          lead: context.lead,
+          appointment: context.appointment,
+          meta: { tag, automationChain: chain },
+        },
+      }),
+    });
+    if (!res.ok) {
+      console.error(`[Automation] lead_tag_added trigger responded ${res.status}`);
+    }
+  } catch (err) {
+    console.error("[Automation] Failed to fire lead_tag_added:", err);
+  }
+}
+
+// --- Delays / scheduled jobs ---
+function getDelayMs(config: Record<string, unknown>): number {
+  const minutes = Number(config.delayMinutes) || 0;
+  const hours = Number(config.delayHours) || 0;
+  const days = Number(config.delayDays) || 0;
+  return ((days * 24 + hours) * 60 + minutes) * 60 * 1000;
+}
+
+async function scheduleResumeJob(
   supabase: any,
   params: {
-    teamId: string;
-    automationId: string;
+    automation: AutomationDefinition;
+    context: AutomationContext;
     runId: string | null;
-    channel: string;
-    provider: string;
-    toAddress: string;
-    fromAddress?: string;
-    template?: string;
-    payload: Record<string, any>;
-    status: "queued" | "sent" | "failed";
-    errorMessage?: string;
+    resumeStepId: string;
+    runAt: string;
+    eventId: string;
   },
-): Promise<void> {
-  try {
-    const { error } = await supabase.from("message_logs").insert([
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("scheduled_automation_jobs")
+    .insert([
       {
-        team_id: params.teamId,
-        automation_id: params.automationId,
+        team_id: params.context.teamId,
+        automation_id: params.automation.id,
         run_id: params.runId,
-        channel: params.channel,
-        provider: params.provider,
-        to_address: params.toAddress,
-        from_address: params.fromAddress || null,
-        template: params.template || null,
-        payload: params.payload,
-        status: params.status,
-        error_message: params.errorMessage || null,
+        trigger_type: params.context.triggerType,
+        run_at: params.runAt,
+        resume_step_id: params.resumeStepId,
+        payload: {
+          context: JSON.parse(JSON.stringify(params.context)),
+          eventId: params.eventId,
+        },
+        status: "pending",
       },
-    ]);
+    ])
+    .select("id")
+    .single();
 
-    if (error) {
-      console.error("[Automation Trigger] Error logging message:", error);
-    }
-  } catch (err) {
-    console.error("[Automation Trigger] Unexpected error logging message:", err);
+  if (error) {
+    throw new Error(`Failed to schedule delayed step: ${error.message}`);
   }
+
+  return data?.id ?? null;
 }
 
 // --- Template Variable Extraction (for logging) ---
 function extractTemplateVariables(template: string, context: AutomationContext): Record<string, any> {
-  const matches = template.match(/\{\{([^}]+)\}\}/g) || [];
   const variables: Record<string, any> = {};
-  for (const match of matches) {
-    const path = match.replace(/\{\{|\}\}/g, "").trim();
+  for (const path of getTemplateVariables(template)) {
     variables[path] = getFieldValue(context, path);
   }
   return variables;
 }
 
-// --- Render Template ---
-function renderTemplate(template: string, context: AutomationContext): string {
-  return template.replace(/\{\{([^}]+)\}\}/g, (match, path) => {
-    const value = getFieldValue(context, path.trim());
-    return value !== undefined ? String(value) : match;
-  });
-}
-
 // --- Run Automation ---
 async function runAutomation(
   automation: AutomationDefinition,
   context: AutomationContext,
   supabase: any,
   runId: string | null,
-): Promise<StepExecutionLog[]> {
-  const logs: StepExecutionLog[] = [];
+  options: {
+    eventId: string;
+    startStepId?: string | null;
+    dryRun?: boolean;
+    /** Caller-owned log array, so steps that already ran survive a throw */
+    logs?: StepExecutionLog[];
+  },
+): Promise<AutomationExecutionResult> {
+  const logs: StepExecutionLog[] = options.logs ?? [];
 
   console.log(`[Automation] Running "${automation.name}" (${automation.id})`);
 
-  for (const step of automation.steps.sort((a, b) => a.order - b.order)) {
-    const conditionsMet = evaluateConditions(step.conditions, context);
+  // A time_delay step with something after it pauses the run: the rest is
+  // persisted as a scheduled job and picked up by process-automation-jobs.
+  const pauseAt = async (log: StepExecutionLog, step: AutomationStep, nextStepId: string | null) => {
+    if (log.skipped || step.type !== "time_delay" || !nextStepId) return null;
+    const delayMs = getDelayMs(step.config);
+    if (delayMs <= 0) return null;
+
+    const runAt = new Date(Date.now() + delayMs).toISOString();
+    log.waitUntil = runAt;
+    // A dry run reports when it would resume and carries straight on
+    if (options.dryRun) return null;
+
+    log.jobId =
+      (await scheduleResumeJob(supabase, {
+        automation,
+        context,
+        runId,
+        resumeStepId: nextStepId,
+        runAt,
+        eventId: options.eventId,
+      })) ?? undefined;
+    return runAt;
+  };
+
+  // Legacy automations run every step in order; graph automations (compiled
+  // from a workflow) are walked from entryStepId following next / branches.
+  if (!automation.entryStepId) {
+    const ordered = [...automation.steps].sort((a, b) => a.order - b.order);
+    const startIndex = options.startStepId ? ordered.findIndex((s) => s.id === options.startStepId) : 0;
+    if (startIndex < 0) {
+      throw new Error(`Resume step ${options.startStepId} no longer exists in automation ${automation.id}`);
+    }
+
+    for (let i = startIndex; i < ordered.length; i++) {
+      const step = ordered[i];
+      const log = await runStep(step, automation, context, supabase, runId, options);
+      logs.push(log);
 
-    if (!conditionsMet) {
+      const waitingUntil = await pauseAt(log, step, ordered[i + 1]?.id ?? null);
+      if (waitingUntil) return { logs, waitingUntil };
+    }
+    return { logs, waitingUntil: null };
+  }
+
+  const stepsById = new Map(automation.steps.map((s) => [s.id, s]));
+  let current = stepsById.get(options.startStepId ?? automation.entryStepId);
+  if (options.startStepId && !current) {
+    throw new Error(`Resume step ${options.startStepId} no longer exists in automation ${automation.id}`);
+  }
+
+  // Cycles are rejected at save time; the cap guards against hand-edited definitions.
+  while (current && logs.length <= automation.steps.length) {
+    if (current.type === "condition") {
+      const trace = traceConditions(current.conditions, context, current.logicOperator);
+      const branch = trace.passed ? "true" : "false";
       logs.push({
-        stepId: step.id,
-        actionType: step.type,
-        skipped: true,
-        skipReason: "conditions_not_met",
+        stepId: current.id,
+        actionType: "condition",
+        skipped: false,
+        branchTaken: branch,
+        conditionTrace: trace,
+        ...(options.dryRun ? { dryRun: true } : {}),
       });
+      const nextId = current.branches?.[branch];
+      current = nextId ? stepsById.get(nextId) : undefined;
       continue;
     }
 
-    const log: StepExecutionLog = {
+    const log = await runStep(current, automation, context, supabase, runId, options);
+    logs.push(log);
+
+    const waitingUntil = await pauseAt(log, current, current.next ?? null);
+    if (waitingUntil) return { logs, waitingUntil };
+
+    current = current.next ? stepsById.get(current.next) : undefined;
+  }
+
+  return { logs, waitingUntil: null };
+}
+
+// --- Run a single action step ---
+async function runStep(
+  step: AutomationStep,
+  automation: AutomationDefinition,
+  context: AutomationContext,
+  supabase: SupabaseClient,
+  runId: string | null,
+  options: { dryRun?: boolean } = {},
+): Promise<StepExecutionLog> {
+  const dryRun = !!options.dryRun;
+  const trace = step.conditions?.length ? traceConditions(step.conditions, context) : undefined;
+
+  if (trace && !trace.passed) {
+    return {
       stepId: step.id,
       actionType: step.type,
-      skipped: false,
+      skipped: true,
+      skipReason: "conditions_not_met",
+      conditionTrace: trace,
+      ...(dryRun ? { dryRun: true } : {}),
     };
+  }
 
-    switch (step.type) {
-      case "send_message": {
-        const channel = step.config.channel || "sms";
-        const template = step.config.template || step.config.body || "";
-        const provider = "stub";
-        const toPhone = context.lead?.phone || context.appointment?.lead_phone || step.config.to || "";
-        const renderedBody = renderTemplate(template, context);
-        const messageId = `stub_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-
-        log.channel = channel;
-        log.provider = provider;
-        log.to = toPhone;
-        log.messageId = messageId;
-        log.renderedBody = renderedBody;
-        log.templateVariables = extractTemplateVariables(template, context);
-
-        if (channel === "sms" && toPhone) {
-          try {
-            await logMessage(supabase, {
-              teamId: context.teamId,
-              automationId: automation.id,
-              runId,
-              channel: "sms",
-              provider,
-              toAddress: toPhone,
-              template,
-              payload: {
-                to: toPhone,
-                body: renderedBody,
-                templateVariables: log.templateVariables,
-                leadId: context.lead?.id,
-                appointmentId: context.appointment?.id,
-              },
-              status: "sent",
-            });
-          } catch (msgErr) {
-            console.error("[Automation] Error logging SMS to message_logs:", msgErr);
-          }
+  const log: StepExecutionLog = {
+    stepId: step.id,
+    actionType: step.type,
+    skipped: false,
+    ...(trace ? { conditionTrace: trace } : {}),
+    ...(dryRun ? { dryRun: true } : {}),
+  };
+
+  switch (step.type) {
+    case "send_message": {
+      const channel = step.config.channel || "sms";
+      const template = step.config.template || step.config.body || "";
+      const toAddress =
+        channel === "email"
+          ? context.lead?.email || context.appointment?.lead_email || step.config.to || ""
+          : context.lead?.phone || context.appointment?.lead_phone || step.config.to || "";
+      const renderedBody = renderTemplate(template, context);
+      const subject = step.config.subject ? renderTemplate(step.config.subject, context) : undefined;
+
+      log.channel = channel;
+      log.to = toAddress;
+      log.renderedBody = renderedBody;
+      log.templateVariables = extractTemplateVariables(template, context);
+
+      if (channel !== "sms" && channel !== "email") break;
+      if (!toAddress) {
+        log.skipped = true;
+        log.skipReason = "no_recipient";
+        break;
+      }
+
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const message: OutboundMessage = {
+        teamId: context.teamId,
+        channel,
+        toPhone: channel === "sms" ? toAddress : undefined,
+        toEmail: channel === "email" ? toAddress : undefined,
+        subject,
+        text: renderedBody,
+        metadata: { timezone: context.lead?.timezone ?? undefined },
+      };
+
+      if (dryRun) {
+        const providers = await getTeamMessageProviders(supabase, context.teamId, channel, supabaseUrl).catch(
+          () => null,
+        );
+        log.provider = providers ? providers.map((p) => p.id).join(" → ") || "none" : "unavailable";
+        const compliance = await evaluateCompliance(supabase, message);
+        if (compliance.action === "suppress") {
+          log.skipped = true;
+          log.skipReason = `suppressed:${compliance.reason}`;
+        } else if (compliance.action === "defer") {
+          log.deferredUntil = compliance.deferUntil;
         }
         break;
       }
 
-      case "time_delay": {
-        const delayHours = step.config.delayHours || 0;
-        log.templateVariables = { delayHours };
+      const result = await sendTeamMessage(supabase, message, {
+        supabaseUrl,
+        automationId: automation.id,
+        runId,
+        template,
+        unsubscribeSecret: Deno.env.get("UNSUBSCRIBE_SECRET") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+        logPayload: {
+          templateVariables: log.templateVariables,
+          leadId: context.lead?.id,
+          appointmentId: context.appointment?.id,
+        },
+      });
+
+      if (result.compliance.action === "suppress") {
+        log.skipped = true;
+        log.skipReason = `suppressed:${result.compliance.reason}`;
+        break;
+      }
+      if (result.compliance.action === "defer") {
+        log.deferredUntil = result.compliance.deferUntil;
+        break;
+      }
+
+      log.provider = result.providerId;
+      log.messageId = result.providerMessageId;
+      if (!result.success) log.error = result.error;
+      break;
+    }
+
+    case "time_delay": {
+      // The pause itself is handled by runAutomation, which knows the next step
+      log.templateVariables = {
+        delayMinutes: step.config.delayMinutes || 0,
+        delayHours: step.config.delayHours || 0,
+        delayDays: step.config.delayDays || 0,
+      };
+      break;
+    }
+
+    case "notify_team": {
+      const template = step.config.message || step.config.template || "";
+      const message = renderTemplate(template, context);
+      log.channel = "in_app";
+      log.templateVariables = extractTemplateVariables(template, context);
+      log.renderedBody = message;
+
+      if (!message.trim()) {
+        log.skipped = true;
+        log.skipReason = "empty_message";
+        break;
+      }
+      if (dryRun) break;
+
+      try {
+        // team_messages needs an author; default to the team owner
+        let userId = step.config.userId as string | undefined;
+        if (!userId) {
+          const { data: team } = await supabase.from("teams").select("created_by").eq("id", context.teamId).single();
+          userId = team?.created_by;
+        }
+
+        const { data, error } = await supabase
+          .from("team_messages")
+          .insert([{ team_id: context.teamId, user_id: userId, message }])
+          .select("id")
+          .single();
+
+        if (error) {
+          log.error = error.message;
+        } else {
+          log.messageId = data?.id;
+        }
+      } catch (err) {
+        log.error = err instanceof Error ? err.message : "Unknown error";
+      }
+      break;
+    }
+
+    case "add_task": {
+      const appointmentId = step.config.appointmentId || context.appointment?.id;
+      log.templateVariables = step.config;
+
+      if (!appointmentId) {
+        log.skipped = true;
+        log.skipReason = "no_appointment_id_in_context";
         break;
       }
 
-      case "notify_team": {
-        const message = step.config.message || "";
-        log.channel = "in_app";
-        log.templateVariables = extractTemplateVariables(message, context);
+      const followUpDate = step.config.followUpInHours
+        ? new Date(Date.now() + Number(step.config.followUpInHours) * 60 * 60 * 1000).toISOString()
+        : step.config.followUpDate;
+
+      if (dryRun) {
+        log.renderedBody = step.config.reason ? renderTemplate(step.config.reason, context) : undefined;
+        log.waitUntil = followUpDate || undefined;
         break;
       }
 
-      case "add_task": {
-        log.templateVariables = step.config;
+      try {
+        const { data: taskId, error } = await supabase.rpc("create_task_with_assignment", {
+          p_team_id: context.teamId,
+          p_appointment_id: appointmentId,
+          p_task_type: step.config.taskType || "follow_up",
+          p_preferred_role: step.config.preferredRole || null,
+          p_follow_up_date: followUpDate || null,
+          p_follow_up_reason: step.config.reason ? renderTemplate(step.config.reason, context) : null,
+        });
+
+        if (error) {
+          log.error = error.message;
+        } else {
+          log.taskId = taskId;
+        }
+      } catch (err) {
+        log.error = err instanceof Error ? err.message : "Unknown error";
+      }
+      break;
+    }
+
+    case "add_tag": {
+      const tag = renderTemplate(String(step.config.tag || ""), context).trim();
+      const leadId = context.lead?.id;
+      log.tag = tag;
+
+      if (!tag) {
+        log.skipped = true;
+        log.skipReason = "no_tag_configured";
+        break;
+      }
+      if (!leadId) {
+        log.skipped = true;
+        log.skipReason = "no_lead_id_in_context";
         break;
       }
 
-      case "add_tag": {
-        log.templateVariables = step.config;
+      if (dryRun) {
+        // Later steps of the simulation should still see the tag
+        const tags: string[] = context.lead?.tags ?? [];
+        if (tags.some((t) => t.toLowerCase() === tag.toLowerCase())) {
+          log.skipped = true;
+          log.skipReason = "tag_already_present";
+        } else {
+          context.lead = { ...context.lead, tags: [...tags, tag] };
+        }
         break;
       }
 
-      case "enqueue_dialer": {
-        log.channel = "voice";
-        log.provider = "power_dialer";
-        log.templateVariables = step.config;
+      try {
+        const { data: contact, error: fetchError } = await supabase
+          .from("contacts")
+          .select("tags")
+          .eq("id", leadId)
+          .eq("team_id", context.teamId)
+          .single();
+
+        if (fetchError) {
+          log.error = fetchError.message;
+          break;
+        }
+
+        const tags: string[] = contact?.tags ?? [];
+        if (tags.some((t) => t.toLowerCase() === tag.toLowerCase())) {
+          log.skipped = true;
+          log.skipReason = "tag_already_present";
+          break;
+        }
+
+        const nextTags = [...tags, tag];
+        const { error } = await supabase
+          .from("contacts")
+          .update({ tags: nextTags })
+          .eq("id", leadId)
+          .eq("team_id", context.teamId);
+        if (error) {
+          log.error = error.message;
+          break;
+        }
+
+        // Later steps in this run should see the new tag
+        context.lead = { ...context.lead, tags: nextTags };
+        await emitTagAdded(automation, context, tag);
+      } catch (err) {
+        log.error = err instanceof Error ? err.message : "Unknown error";
+      }
+      break;
+    }
+
+    case "enqueue_dialer": {
+      // Named queue (portable between teams) or a queue id
+      const queueName = typeof step.config.queueName === "string" ? step.config.queueName.trim() : "";
+      const queueId = step.config.queueId as string | undefined;
+      const phone = context.lead?.phone || context.appointment?.lead_phone || "";
+      log.channel = "voice";
+      log.provider = "power_dialer";
+      log.templateVariables = step.config;
+      log.to = phone || undefined;
+
+      if (!queueName && !queueId) {
+        log.skipped = true;
+        log.skipReason = "no_queue";
         break;
       }
 
-      case "custom_webhook": {
-        log.templateVariables = step.config;
+      try {
+        let query = supabase.from("dialer_queues").select("id, provider").eq("team_id", context.teamId);
+        query = queueId ? query.eq("id", queueId) : query.eq("name", queueName);
+        const { data: queue } = await query.maybeSingle();
+
+        if (!queue) {
+          log.skipped = true;
+          log.skipReason = "queue_not_found";
+          break;
+        }
+        log.provider = queue.provider === "in_app" ? "power_dialer" : queue.provider;
+        if (dryRun) break;
+
+        const result = await enqueueDialerContact(supabase, {
+          teamId: context.teamId,
+          queueId: queue.id,
+          phone,
+          name: context.lead?.name || context.appointment?.lead_name,
+          email: context.lead?.email || context.appointment?.lead_email,
+          contactId: context.lead?.id,
+          appointmentId: context.appointment?.id,
+          priority: Number(step.config.priority) || 0,
+          source: "automation",
+          automationId: automation.id,
+        });
+
+        if (result.skipped) {
+          log.skipped = true;
+          log.skipReason = result.skipReason;
+        } else if (result.error) {
+          log.error = result.error;
+        } else {
+          log.queueItemId = result.itemId;
+          // The contact is queued in-app either way; a failed push only shows in the log
+          if (result.push && !result.push.success) log.error = result.push.error;
+        }
+      } catch (err) {
+        log.error = err instanceof Error ? err.message : "Unknown error";
+      }
+      break;
+    }
+
+    case "custom_webhook": {
+      // Either a saved integration (URL + signing secret live in team_integrations)
+      // or an inline URL/secret on the step.
+      let url = step.config.url as string | undefined;
+      const integrationId = (step.config.integrationId as string | undefined) ?? null;
+
+      if (integrationId) {
+        const { data: integration } = await supabase
+          .from("team_integrations")
+          .select("config, is_connected")
+          .eq("id", integrationId)
+          .eq("team_id", context.teamId)
+          .maybeSingle();
+
+        if (!integration?.is_connected || integration.config?.active === false) {
+          log.skipped = true;
+          log.skipReason = "integration_inactive";
+          break;
+        }
+        url = integration.config?.webhook_url;
+      }
+
+      log.channel = "webhook";
+      log.to = url;
+
+      if (!url) {
+        log.skipped = true;
+        log.skipReason = "no_webhook_url";
         break;
       }
+      if (dryRun) break;
 
-      case "assign_owner": {
-        const entity = step.config.entity as CrmEntity;
-        const ownerId = step.config.ownerId as string;
-        log.entity = entity;
-        log.ownerId = ownerId;
-
-        if (entity === "lead") {
-          const leadId = context.lead?.id;
-          if (!leadId) {
-            log.skipped = true;
-            log.skipReason = "no_lead_id_in_context";
-          } else {
-            try {
-              const { error } = await supabase.from("contacts").update({ owner_id: ownerId }).eq("id", leadId);
-              if (error) {
-                log.error = error.message;
-              }
-            } catch (err) {
-              log.error = err instanceof Error ? err.message : "Unknown error";
+      try {
+        const result = await deliverWebhook(supabase, {
+          teamId: context.teamId,
+          source: "automation",
+          eventType: context.triggerType,
+          integrationId,
+          url,
+          secret: step.config.secret ?? null,
+          headers: step.config.headers ?? {},
+          payload: {
+            event: context.triggerType,
+            automationId: automation.id,
+            runId,
+            stepId: step.id,
+            teamId: context.teamId,
+            sentAt: new Date().toISOString(),
+            data: {
+              lead: context.lead,
+              appointment: context.appointment,
+              payment: context.payment,
+              deal: context.deal,
+              meta: context.meta,
+            },
+          },
+        });
+
+        if (result) {
+          log.deliveryId = result.deliveryId;
+          if (result.responseStatus !== undefined) {
+            log.response = {
+              status: result.responseStatus,
+              ok: result.status === "delivered",
+              body: result.responseBody?.slice(0, WEBHOOK_RESPONSE_LOG_LIMIT),
+              durationMs: result.durationMs,
+            };
+          }
+          // Retryable failures stay queued; the step itself doesn't fail the run
+          if (result.status === "dead_letter") {
+            log.error = result.error ?? "Webhook delivery failed";
+          }
+        }
+      } catch (err) {
+        log.error = err instanceof Error ? err.message : "Unknown error";
+      }
+      break;
+    }
+
+    case "assign_owner": {
+      const entity = step.config.entity as CrmEntity;
+      const ownerId = step.config.ownerId as string;
+      log.entity = entity;
+      log.ownerId = ownerId;
+      if (dryRun) break;
+
+      if (entity === "lead") {
+        const leadId = context.lead?.id;
+        if (!leadId) {
+          log.skipped = true;
+          log.skipReason = "no_lead_id_in_context";
+        } else {
+          try {
+            const { error } = await supabase.from("contacts").update({ owner_id: ownerId }).eq("id", leadId);
+            if (error) {
+              log.error = error.message;
             }
+          } catch (err) {
+            log.error = err instanceof Error ? err.message : "Unknown error";
           }
-        } else if (entity === "deal") {
-          const dealId = context.deal?.id || context.appointment?.id;
-          if (!dealId) {
-            log.skipped = true;
-            log.skipReason = "no_deal_id_in_context";
-          } else {
-            try {
-              const { error } = await supabase.from("appointments").update({ closer_id: ownerId }).eq("id", dealId);
-              if (error) {
-                log.error = error.message;
-              }
-            } catch (err) {
-              log.error = err instanceof Error ? err.message : "Unknown error";
+        }
+      } else if (entity === "deal") {
+        const dealId = context.deal?.id || context.appointment?.id;
+        if (!dealId) {
+          log.skipped = true;
+          log.skipReason = "no_deal_id_in_context";
+        } else {
+          try {
+            const { error } = await supabase.from("appointments").update({ closer_id: ownerId }).eq("id", dealId);
+            if (error) {
+              log.error = error.message;
             }
+          } catch (err) {
+            log.error = err instanceof Error ? err.message : "Unknown error";
           }
         }
-        break;
       }
+      break;
+    }
 
-      case "update_stage": {
-        const entity = step.config.entity as CrmEntity;
-        const stageId = step.config.stageId as string;
-        log.entity = entity;
-        log.stageId = stageId;
-
-        if (entity === "lead") {
-          const leadId = context.lead?.id;
-          if (!leadId) {
-            log.skipped = true;
-            log.skipReason = "no_lead_id_in_context";
-          } else {
-            try {
-              const { error } = await supabase.from("contacts").update({ stage_id: stageId }).eq("id", leadId);
-              if (error) {
-                log.error = error.message;
-              }
-            } catch (err) {
-              log.error = err instanceof Error ? err.message : "Unknown error";
+    case "update_stage": {
+      const entity = step.config.entity as CrmEntity;
+      const stageId = step.config.stageId as string;
+      log.entity = entity;
+      log.stageId = stageId;
+      if (dryRun) break;
+
+      if (entity === "lead") {
+        const leadId = context.lead?.id;
+        if (!leadId) {
+          log.skipped = true;
+          log.skipReason = "no_lead_id_in_context";
+        } else {
+          try {
+            const { error } = await supabase.from("contacts").update({ stage_id: stageId }).eq("id", leadId);
+            if (error) {
+              log.error = error.message;
             }
+          } catch (err) {
+            log.error = err instanceof Error ? err.message : "Unknown error";
           }
-        } else if (entity === "deal") {
-          const dealId = context.deal?.id || context.appointment?.id;
-          if (!dealId) {
-            log.skipped = true;
-            log.skipReason = "no_deal_id_in_context";
-          } else {
-            try {
-              const { error } = await supabase.from("appointments").update({ pipeline_stage: stageId }).eq("id", dealId);
-              if (error) {
-                log.error = error.message;
-              }
-            } catch (err) {
-              log.error = err instanceof Error ? err.message : "Unknown error";
+        }
+      } else if (entity === "deal") {
+        const dealId = context.deal?.id || context.appointment?.id;
+        if (!dealId) {
+          log.skipped = true;
+          log.skipReason = "no_deal_id_in_context";
+        } else {
+          try {
+            const { error } = await supabase.from("appointments").update({ pipeline_stage: stageId }).eq("id", dealId);
+            if (error) {
+              log.error = error.message;
             }
+          } catch (err) {
+            log.error = err instanceof Error ? err.message : "Unknown error";
           }
         }
-        break;
       }
+      break;
+    }
 
-      default:
-        console.log(`[Automation] Unknown action type: ${step.type}`);
+    default:
+      console.log(`[Automation] Unknown action type: ${step.type}`);
+  }
+
+  return log;
+}
+
+// --- Resume a run paused on a time_delay step ---
+// Called by process-automation-jobs after it has claimed the job (status = running).
+// Throwing lets the worker record the failure and retry with backoff.
+async function resumeScheduledJob(supabase: SupabaseClient, jobId: string): Promise<TriggerResponse> {
+  const { data: job, error: jobError } = await supabase
+    .from("scheduled_automation_jobs")
+    .select("*")
+    .eq("id", jobId)
+    .single();
+
+  if (jobError || !job) {
+    throw new Error(`Scheduled job ${jobId} not found`);
+  }
+  if (job.status !== "running") {
+    throw new Error(`Scheduled job ${jobId} is ${job.status}, expected running`);
+  }
+
+  const { data: row, error: automationError } = await supabase
+    .from("automations")
+    .select("*")
+    .eq("id", job.automation_id)
+    .single();
+
+  if (automationError || !row) {
+    throw new Error(`Automation ${job.automation_id} for job ${jobId} not found`);
+  }
+
+  let previousSteps: StepExecutionLog[] = [];
+  let automation = toAutomationDefinition(row);
+  if (job.run_id) {
+    const { data: run } = await supabase
+      .from("automation_runs")
+      .select("status, steps_executed, automation_version_id")
+      .eq("id", job.run_id)
+      .single();
+    previousSteps = (run?.steps_executed as StepExecutionLog[]) ?? [];
+
+    // Finish on the version the run started with; later edits apply to new runs
+    if (run?.automation_version_id && run.automation_version_id !== row.current_version_id) {
+      const { data: version } = await supabase
+        .from("automation_versions")
+        .select("id, name, description, trigger_type, definition")
+        .eq("id", run.automation_version_id)
+        .maybeSingle();
+      if (version) {
+        automation = toAutomationDefinition({
+          ...row,
+          name: version.name,
+          description: version.description,
+          trigger_type: version.trigger_type,
+          definition: version.definition,
+          current_version_id: version.id,
+        });
+      }
     }
 
-    logs.push(log);
+    // A goal was met after the worker claimed the job
+    if (run?.status === "exited") {
+      console.log(`[Automation Trigger] Run ${job.run_id} exited on a goal; not resuming (job ${jobId})`);
+      return { status: "ok", triggerType: job.trigger_type, automationsRun: [], stepsExecuted: [] };
+    }
+  }
+
+  const context = job.payload?.context as AutomationContext;
+  const eventId = job.payload?.eventId ?? `resume:${jobId}`;
+
+  // Deactivating an automation stops its waiting runs at their next step
+  if (!automation.isActive) {
+    const logs: StepExecutionLog[] = [
+      {
+        stepId: job.resume_step_id,
+        actionType: "time_delay",
+        skipped: true,
+        skipReason: "automation_inactive",
+      },
+    ];
+    if (job.run_id) {
+      await updateAutomationRun(supabase, job.run_id, {
+        status: "success",
+        stepsExecuted: [...previousSteps, ...logs],
+      });
+    }
+    return { status: "ok", triggerType: job.trigger_type, automationsRun: [], stepsExecuted: logs };
+  }
+
+  // The step was removed after the run paused; retrying can't bring it back
+  if (!automation.steps.some((step) => step.id === job.resume_step_id)) {
+    const message = `Resume step ${job.resume_step_id} no longer exists in automation ${automation.id}`;
+    console.error(`[Automation Trigger] ${message} (job ${jobId})`);
+    if (job.run_id) {
+      await updateAutomationRun(supabase, job.run_id, {
+        status: "error",
+        errorMessage: message,
+        stepsExecuted: previousSteps,
+      });
+    }
+    return { status: "ok", triggerType: job.trigger_type, automationsRun: [], stepsExecuted: [] };
   }
 
-  return logs;
+  console.log(`[Automation Trigger] Resuming run ${job.run_id} at step ${job.resume_step_id} (job ${jobId})`);
+
+  const logs: StepExecutionLog[] = [];
+  let result: AutomationExecutionResult;
+  try {
+    result = await runAutomation(automation, context, supabase, job.run_id, {
+      eventId,
+      startStepId: job.resume_step_id,
+      logs,
+    });
+  } catch (err) {
+    // Steps before the failure already ran, so retrying from the same step
+    // would repeat them. Close the run with whatever ran and the job with it.
+    const message = err instanceof Error ? err.message : "Unknown error";
+    console.error(`[Automation Trigger] Resumed run ${job.run_id} failed (job ${jobId}):`, message);
+    if (job.run_id) {
+      await updateAutomationRun(supabase, job.run_id, {
+        status: "error",
+        errorMessage: message,
+        stepsExecuted: [...previousSteps, ...logs],
+      });
+    }
+    return {
+      status: "error",
+      triggerType: job.trigger_type,
+      automationsRun: [automation.id],
+      stepsExecuted: logs,
+      error: message,
+      retryable: false,
+    };
+  }
+
+  if (job.run_id) {
+    await updateAutomationRun(supabase, job.run_id, {
+      status: result.waitingUntil ? "waiting" : "success",
+      stepsExecuted: [...previousSteps, ...result.logs],
+    });
+  }
+
+  return {
+    status: "ok",
+    triggerType: job.trigger_type,
+    automationsRun: [automation.id],
+    stepsExecuted: result.logs,
+  };
+}
+
+// --- Caller checks ---
+type CallerAccess = "allowed" | "unauthenticated" | "forbidden";
+
+// The service role (database emitters, other edge functions) may act for any
+// team; a signed-in user only for a team they belong to.
+async function checkTeamCaller(supabase: SupabaseClient, req: Request, teamId: string): Promise<CallerAccess> {
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  if (!token) return "unauthenticated";
+  if (token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) return "allowed";
+
+  const { data: userData } = await supabase.auth.getUser(token);
+  if (!userData?.user) return "unauthenticated";
+
+  const { data: membership } = await supabase
+    .from("team_members")
+    .select("id")
+    .eq("team_id", teamId)
+    .eq("user_id", userData.user.id)
+    .maybeSingle();
+  return membership ? "allowed" : "forbidden";
+}
+
+// --- Dry run ---
+// Only team members may simulate; the trace exposes automation config and
+// whatever the payload resolves to.
+async function canSimulateForTeam(supabase: SupabaseClient, req: Request, teamId: string): Promise<boolean> {
+  return (await checkTeamCaller(supabase, req, teamId)) === "allowed";
+}
+
+async function runDryRun(supabase: SupabaseClient, body: TriggerRequest): Promise<TriggerResponse> {
+  let automation: AutomationDefinition;
+
+  if (body.automation) {
+    automation = {
+      ...(body.automation as AutomationDefinition),
+      id: body.automation.id || "dry-run",
+      teamId: body.teamId,
+      steps: body.automation.steps ?? [],
+      trigger: body.automation.trigger ?? { type: body.triggerType, config: {} },
+    };
+  } else {
+    const { data: row, error } = await supabase
+      .from("automations")
+      .select("*")
+      .eq("id", body.automationId)
+      .eq("team_id", body.teamId)
+      .single();
+    if (error || !row) throw new Error(`Automation ${body.automationId} not found`);
+    automation = toAutomationDefinition(row);
+  }
+
+  const triggerType = automation.trigger?.type || body.triggerType;
+  const context = buildAutomationContext(triggerType, { teamId: body.teamId, ...body.eventPayload });
+  context.team = await getTeamContext(supabase, body.teamId);
+
+  console.log(`[Automation Trigger] Dry run of "${automation.name}" (${automation.id})`);
+
+  const result = await runAutomation(automation, context, supabase, null, {
+    eventId: `dry_run:${Date.now()}`,
+    dryRun: true,
+  });
+
+  return {
+    status: "ok",
+    triggerType,
+    automationsRun: [automation.id],
+    stepsExecuted: result.logs,
+  };
 }
 
 // --- Main Handler ---
@@ -594,6 +1301,41 @@ Deno.serve(async (req) => {
   try {
     const body: TriggerRequest = await req.json();
 
+    if (body.resumeJobId) {
+      // Only the job worker resumes runs
+      const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+      if (token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+        return new Response(
+          JSON.stringify({ status: "error", error: "Resuming a job requires the service role" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+      const response = await resumeScheduledJob(supabase, body.resumeJobId);
+      return new Response(JSON.stringify(response), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (body.dryRun) {
+      if (!body.teamId || (!body.automation && !body.automationId)) {
+        return new Response(
+          JSON.stringify({ status: "error", error: "Dry run needs teamId and an automation or automationId" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+      if (!(await canSimulateForTeam(supabase, req, body.teamId))) {
+        return new Response(
+          JSON.stringify({ status: "error", error: "Not a member of this team" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+
+      const response = await runDryRun(supabase, body);
+      return new Response(JSON.stringify(response), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     const { triggerType, teamId, eventPayload, eventId } = body as any;
     console.log("[automation-trigger] incoming", {
       triggerType,
@@ -609,6 +1351,16 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Real runs send messages and write to the team's records
+    const access = await checkTeamCaller(supabase, req, teamId);
+    if (access !== "allowed") {
+      const unauthenticated = access === "unauthenticated";
+      return new Response(
+        JSON.stringify({ status: "error", error: unauthenticated ? "Missing or invalid credentials" : "Not a member of this team" }),
+        { status: unauthenticated ? 401 : 403, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
     // Compute stable eventId from request or derive from lead/appointment
     // This is the canonical event identifier for idempotency
     const stableEventId: string =
@@ -625,6 +1377,13 @@ Deno.serve(async (req) => {
       teamId,
       ...eventPayload,
     });
+    context.team = await getTeamContext(supabase, teamId);
+
+    // Goals first: an event that ends one sequence may start another below
+    const runsExited = await exitRunsForGoals(supabase, { teamId, triggerType, context });
+    if (runsExited.length > 0) {
+      console.log(`[Automation Trigger] Goal met by ${triggerType}; exited runs ${runsExited.join(", ")}`);
+    }
 
     // Get matching automations from DB ONLY (no templates - prevents duplicates)
     const automations = await getAutomationsForTrigger(supabase, teamId, triggerType);
@@ -632,7 +1391,7 @@ Deno.serve(async (req) => {
     if (automations.length === 0) {
       console.log(`[Automation Trigger] No matching automations, exiting`);
       return new Response(
-        JSON.stringify({ status: "ok", automationsRun: [], stepsExecuted: [] }),
+        JSON.stringify({ status: "ok", automationsRun: [], stepsExecuted: [], runsExited }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } },
       );
     }
@@ -640,11 +1399,20 @@ Deno.serve(async (req) => {
     console.log(`[Automation Trigger] Found ${automations.length} matching automations`);
 
     const automationsRun: string[] = [];
-    const automationsSkipped: string[] = [];
+    const automationsSkipped: { automationId: string; reason: string }[] = [];
+    const contactKey = getContactKey(context);
     const allStepsExecuted: StepExecutionLog[] = [];
 
     // Run each automation with PER-AUTOMATION idempotency check
+    const automationChain = getAutomationChain(context);
+
     for (const automation of automations) {
+      if (automationChain.includes(automation.id)) {
+        console.log(`[Automation Trigger] SKIPPED automation ${automation.id} - already in trigger chain`);
+        automationsSkipped.push({ automationId: automation.id, reason: "in_trigger_chain" });
+        continue;
+      }
+
       // Generate automationKey: unique identifier for this automation
       // For DB automations, use the database ID
       const automationKey = `db:${automation.id}`;
@@ -664,7 +1432,22 @@ Deno.serve(async (req) => {
         console.log(
           `[Automation Trigger] SKIPPED automation ${automation.id} - already ran for event ${stableEventId} (run ${existingRunId})`,
         );
-        automationsSkipped.push(automation.id);
+        automationsSkipped.push({ automationId: automation.id, reason: "duplicate_event" });
+        continue;
+      }
+
+      // Enrollment policy and exclusion group, per contact
+      const enrollment = await checkEnrollment(supabase, {
+        teamId,
+        automationId: automation.id,
+        contactKey,
+        settings: automation,
+      });
+      if (!enrollment.allowed) {
+        console.log(
+          `[Automation Trigger] SKIPPED automation ${automation.id} - ${enrollment.reason} (run ${enrollment.runId})`,
+        );
+        automationsSkipped.push({ automationId: automation.id, reason: enrollment.reason });
         continue;
       }
 
@@ -676,6 +1459,9 @@ Deno.serve(async (req) => {
         context,
         eventId: stableEventId,
         automationKey,
+        contactKey,
+        exclusionGroup: normalizeExclusionGroup(automation.exclusionGroup),
+        automationVersionId: automation.versionId ?? null,
       });
 
       if (!runId) {
@@ -685,18 +1471,23 @@ Deno.serve(async (req) => {
 
       automationsRun.push(automation.id);
 
-      let status: "success" | "error" = "success";
+      let status: "success" | "error" | "waiting" = "success";
       let errorMessage: string | undefined;
-      let stepLogs: StepExecutionLog[] = [];
+      // Filled as steps run, so a throw part-way still records what happened
+      const stepLogs: StepExecutionLog[] = [];
 
       try {
-        stepLogs = await runAutomation(automation, context, supabase, runId);
-        allStepsExecuted.push(...stepLogs);
+        const result = await runAutomation(automation, context, supabase, runId, {
+          eventId: stableEventId,
+          logs: stepLogs,
+        });
+        if (result.waitingUntil) status = "waiting";
       } catch (err) {
         status = "error";
         errorMessage = err instanceof Error ? err.message : "Unknown error";
         console.error(`[Automation Trigger] Error running automation ${automation.id}:`, err);
       }
+      allStepsExecuted.push(...stepLogs);
 
       // Update the automation run with final status and steps
       await updateAutomationRun(supabase, runId, {
@@ -711,6 +1502,8 @@ Deno.serve(async (req) => {
       triggerType,
       automationsRun,
       stepsExecuted: allStepsExecuted,
+      automationsSkipped,
+      runsExited,
     };
 
     console.log(`[Automation Trigger] Complete: ran=${automationsRun.length}, skipped=${automationsSkipped.length}`);
@@ -0,0 +1,67 @@
+// supabase/functions/builder-document/index.ts
+// Public read endpoint for builder_v2 documents, used by /runtime/:documentId.
+// Only the published snapshot leaves the server; drafts stay behind RLS.
+//
+//   GET  /builder-document?documentId=doc-...
+//   POST /builder-document  { documentId }
+//
+// 404 when the document doesn't exist; { snapshot: null } when it exists but
+// isn't published.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function getSupabaseClient() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "GET" && req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const documentId =
+      req.method === "GET"
+        ? new URL(req.url).searchParams.get("documentId")
+        : ((await req.json().catch(() => null)) as { documentId?: string } | null)?.documentId;
+    if (!documentId) return json({ error: "documentId is required" }, 400);
+
+    const { data, error } = await getSupabaseClient()
+      .from("builder_documents")
+      .select("id, name, published_snapshot, published_at")
+      .eq("id", documentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[builder-document] Lookup failed:", error);
+      return json({ error: "Document lookup failed" }, 500);
+    }
+    if (!data) return json({ error: "Document not found" }, 404);
+
+    return json({
+      documentId: data.id,
+      name: data.name,
+      snapshot: data.published_snapshot ?? null,
+      publishedAt: data.published_at,
+    });
+  } catch (error) {
+    console.error("[builder-document] Error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -49,6 +49,8 @@ const webhookPayloadSchema = z.object({
     name: z.string().min(1).max(255),
     email: z.string().email().max(255),
     status: z.string().optional(),
+    // Invitee's IANA timezone, used to render reminders
+    timezone: z.string().max(100).optional(),
     questions_and_answers: z.array(z.object({
       question: z.string().optional(),
       answer: z.string().optional(),
@@ -818,6 +820,7 @@ serve(async (req) => {
         cancel_url: cancelUrl,
         calendly_invitee_uri: calendlyInviteeUri,
         meeting_link: meetingLink,
+        timezone: inviteeData.timezone || null,
         assignment_source: appointmentData.setter_id ? 'booking_link' : null,
         // Rebooking context fields
         original_appointment_id: (appointmentData as any).original_appointment_id || null,
@@ -1313,6 +1316,7 @@ serve(async (req) => {
         reschedule_url: newRescheduleUrl,
         cancel_url: newCancelUrl,
         calendly_invitee_uri: newCalendlyInviteeUri,
+        timezone: inviteeData.timezone || null,
         // Preserve setter and closer from old appointment
         setter_id: oldAppointment.setter_id,
         setter_name: oldAppointment.setter_name,
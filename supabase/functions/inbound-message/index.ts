@@ -0,0 +1,133 @@
+// supabase/functions/inbound-message/index.ts
+// Inbound SMS webhook. Configure it as the "A message comes in" URL of the
+// team's Twilio number:
+//   <project>/functions/v1/inbound-message?provider=twilio&team_id=<team id>
+//
+// Stores the reply, applies keyword intents (YES / STOP / RESCHEDULE) and
+// fires the message_received automation trigger.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifyTwilioSignature } from "../_shared/messageProviders.ts";
+import { handleInboundMessage, type InboundContact, type InboundMessageResult } from "../_shared/inboundMessages.ts";
+import { getConnectedIntegrationConfig } from "../_shared/teamMessaging.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-twilio-signature",
+};
+
+function getSupabaseClient() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/** Empty TwiML: acknowledge without an auto-reply (automations do the replying) */
+function twiml(): Response {
+  return new Response("<?xml version=\"1.0\" encoding=\"UTF-8\"?><Response></Response>", {
+    headers: { ...corsHeaders, "Content-Type": "text/xml" },
+  });
+}
+
+function toLeadPayload(contact: InboundContact | null, from: string): Record<string, unknown> {
+  if (!contact) return { phone: from };
+  return {
+    ...contact,
+    first_name: contact.name?.split(" ")[0] ?? null,
+  };
+}
+
+async function emitMessageReceived(
+  supabase: ReturnType<typeof getSupabaseClient>,
+  teamId: string,
+  messageSid: string,
+  body: string,
+  from: string,
+  result: InboundMessageResult,
+) {
+  const { error } = await supabase.functions.invoke("automation-trigger", {
+    body: {
+      triggerType: "message_received",
+      teamId,
+      eventId: `message_received:${messageSid}`,
+      eventPayload: {
+        lead: toLeadPayload(result.contact, from),
+        appointment: result.appointment,
+        meta: {
+          message: { id: result.inboundId, body, from, channel: "sms" },
+          intent: result.intent,
+        },
+      },
+    },
+  });
+  if (error) console.error("[inbound-message] Failed to invoke automation-trigger:", error);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = getSupabaseClient();
+
+  try {
+    const url = new URL(req.url);
+    const provider = url.searchParams.get("provider") ?? "twilio";
+    const teamId = url.searchParams.get("team_id") ?? "";
+    if (provider !== "twilio") return json({ status: "error", error: `Unsupported provider ${provider}` }, 400);
+    if (!teamId) return json({ status: "error", error: "team_id is required" }, 400);
+
+    const config = await getConnectedIntegrationConfig(supabase, teamId, "twilio");
+    if (!config?.auth_token) return json({ status: "error", error: "Twilio is not connected" }, 404);
+
+    const params = Object.fromEntries(new URLSearchParams(await req.text()));
+    // Twilio signs the public URL it called, not the internal one the runtime sees
+    const publicUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/inbound-message${url.search}`;
+    const valid = await verifyTwilioSignature(
+      config.auth_token,
+      publicUrl,
+      params,
+      req.headers.get("X-Twilio-Signature"),
+    );
+    if (!valid) return json({ status: "error", error: "Invalid signature" }, 403);
+
+    if (!params.From || !params.MessageSid) return json({ status: "error", error: "Not an SMS webhook" }, 400);
+
+    const body = params.Body ?? "";
+    const result = await handleInboundMessage(supabase, {
+      teamId,
+      provider: "twilio",
+      providerMessageId: params.MessageSid,
+      from: params.From,
+      to: params.To,
+      body,
+      raw: params,
+    });
+
+    console.log("[inbound-message] stored", {
+      teamId,
+      inboundId: result.inboundId,
+      duplicate: result.duplicate,
+      intent: result.intent,
+      contactId: result.contact?.id,
+      appointmentId: result.appointment?.id,
+    });
+
+    if (!result.duplicate) {
+      await emitMessageReceived(supabase, teamId, params.MessageSid, body, params.From, result);
+    }
+
+    return twiml();
+  } catch (error) {
+    console.error("[inbound-message] Error:", error);
+    // A 5xx marks the delivery failed so it can be retried; a retry is stored as
+    // a duplicate and records an opt-out again
+    return json({ status: "error", error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
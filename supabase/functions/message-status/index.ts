@@ -0,0 +1,131 @@
+// supabase/functions/message-status/index.ts
+// Delivery status callbacks from messaging providers. Moves message_logs rows
+// to delivered / failed / bounced.
+//
+// - ?provider=twilio&team_id=…   – per-message StatusCallback, verified with
+//   the team's Twilio auth token (X-Twilio-Signature).
+// - ?provider=sendgrid|resend&team_id=…&token=… – event webhook configured in
+//   the provider's dashboard; token must match the integration's webhook_token.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  mapResendEvent,
+  mapSendgridEvent,
+  mapTwilioStatus,
+  type MessageProviderConfig,
+  verifyTwilioSignature,
+} from "../_shared/messageProviders.ts";
+import { applyDeliveryStatus, getConnectedIntegrationConfig } from "../_shared/teamMessaging.ts";
+import type { DbClient } from "../_shared/supabaseClient.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-twilio-signature",
+};
+
+function getSupabaseClient() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function handleTwilio(supabase: DbClient, req: Request, teamId: string, config: MessageProviderConfig) {
+  const params = Object.fromEntries(new URLSearchParams(await req.text()));
+
+  // Twilio signs the public URL it called, not the internal one the runtime sees
+  const publicUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/message-status${new URL(req.url).search}`;
+  const valid = await verifyTwilioSignature(
+    config.auth_token ?? "",
+    publicUrl,
+    params,
+    req.headers.get("X-Twilio-Signature"),
+  );
+  if (!valid) return json({ status: "error", error: "Invalid signature" }, 403);
+
+  const status = mapTwilioStatus(params.MessageStatus);
+  if (!status || !params.MessageSid) return json({ status: "ignored" });
+
+  const updated = await applyDeliveryStatus(supabase, {
+    teamId,
+    provider: "twilio",
+    providerMessageId: params.MessageSid,
+    status,
+    error: params.ErrorCode ? `Twilio error ${params.ErrorCode}` : null,
+  });
+  return json({ status: "ok", updated });
+}
+
+async function handleSendgrid(supabase: DbClient, req: Request, teamId: string) {
+  const events = await req.json().catch(() => []);
+  let updated = 0;
+
+  for (const event of Array.isArray(events) ? events : []) {
+    const status = mapSendgridEvent(event?.event);
+    const messageId = typeof event?.sg_message_id === "string" ? event.sg_message_id.split(".")[0] : null;
+    if (!status || !messageId) continue;
+
+    const applied = await applyDeliveryStatus(supabase, {
+      teamId,
+      provider: "sendgrid",
+      providerMessageId: messageId,
+      status,
+      error: status === "bounced" || status === "failed" ? event.reason ?? event.type ?? null : null,
+    });
+    if (applied) updated++;
+  }
+
+  return json({ status: "ok", updated });
+}
+
+async function handleResend(supabase: DbClient, req: Request, teamId: string) {
+  const event = await req.json().catch(() => ({}));
+  const status = mapResendEvent(event?.type);
+  const messageId = event?.data?.email_id;
+  if (!status || !messageId) return json({ status: "ignored" });
+
+  const updated = await applyDeliveryStatus(supabase, {
+    teamId,
+    provider: "resend",
+    providerMessageId: messageId,
+    status,
+    error: status === "bounced" ? event.data?.bounce?.message ?? "Bounced" : null,
+  });
+  return json({ status: "ok", updated });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = getSupabaseClient();
+
+  try {
+    const url = new URL(req.url);
+    const provider = url.searchParams.get("provider") ?? "";
+    const teamId = url.searchParams.get("team_id") ?? "";
+    if (!provider || !teamId) return json({ status: "error", error: "provider and team_id are required" }, 400);
+
+    const config = await getConnectedIntegrationConfig(supabase, teamId, provider);
+    if (!config) return json({ status: "error", error: "Unknown integration" }, 404);
+
+    if (provider === "twilio") return await handleTwilio(supabase, req, teamId, config);
+
+    if (!config.webhook_token || url.searchParams.get("token") !== config.webhook_token) {
+      return json({ status: "error", error: "Invalid token" }, 403);
+    }
+    if (provider === "sendgrid") return await handleSendgrid(supabase, req, teamId);
+    if (provider === "resend") return await handleResend(supabase, req, teamId);
+
+    return json({ status: "error", error: `Unsupported provider ${provider}` }, 400);
+  } catch (error) {
+    console.error("[message-status] Error:", error);
+    return json({ status: "error", error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,96 @@
+// supabase/functions/power-dialer/index.ts
+// Server side of PowerDialerClient (src/lib/integrations/powerDialer.ts); the
+// external dialers' credentials never reach the browser.
+//
+//   POST /power-dialer/enqueue        { teamId, queueId, phone, name?, email?, contactId?, appointmentId?, priority?, automationId? }
+//   POST /power-dialer/start-session  { teamId, queueId }
+//
+// Callers must be signed in members of the team.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enqueueDialerContact, startDialerSession, type EnqueueDialerParams } from "../_shared/powerDialer.ts";
+import type { DbClient } from "../_shared/supabaseClient.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function getSupabaseClient() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function isTeamMember(supabase: DbClient, userId: string, teamId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from("team_members")
+    .select("id")
+    .eq("team_id", teamId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  return !!data;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  const supabase = getSupabaseClient();
+
+  try {
+    const route = new URL(req.url).pathname.split("/").filter(Boolean).pop() ?? "";
+    if (route !== "enqueue" && route !== "start-session") {
+      return json({ error: `Unknown route "${route}"; use enqueue or start-session` }, 404);
+    }
+
+    const body = (await req.json().catch(() => null)) as (Partial<EnqueueDialerParams> & { priority?: unknown }) | null;
+    if (!body?.teamId || !body?.queueId) return json({ error: "teamId and queueId are required" }, 400);
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    const { data: userData } = await supabase.auth.getUser(token);
+    if (!userData?.user) return json({ error: "Not signed in" }, 401);
+    if (!(await isTeamMember(supabase, userData.user.id, body.teamId))) {
+      return json({ error: "Not a member of this team" }, 403);
+    }
+
+    if (route === "start-session") {
+      const result = await startDialerSession(supabase, { teamId: body.teamId, queueId: body.queueId });
+      if (!result.success) console.error("[power-dialer] start-session failed:", result.error);
+      return json(result, result.success ? 200 : 400);
+    }
+
+    const result = await enqueueDialerContact(supabase, {
+      teamId: body.teamId,
+      queueId: body.queueId,
+      phone: body.phone,
+      name: body.name,
+      email: body.email,
+      contactId: body.contactId,
+      appointmentId: body.appointmentId,
+      priority: Number(body.priority) || 0,
+      // Set when an automation running in the app adds the contact
+      source: body.automationId ? "automation" : "manual",
+      automationId: body.automationId ?? null,
+      addedBy: userData.user.id,
+    });
+    if (result.error) return json({ error: result.error }, 500);
+    if (result.push && !result.push.success) {
+      console.error(`[power-dialer] push to ${result.push.providerId} failed:`, result.push.error);
+    }
+    return json(result);
+  } catch (error) {
+    console.error("[power-dialer] Error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
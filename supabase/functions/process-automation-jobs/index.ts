@@ -0,0 +1,261 @@
+// supabase/functions/process-automation-jobs/index.ts
+// Worker for scheduled_automation_jobs: resumes automation runs that paused on
+// a time_delay step once their run_at has passed. Also flags overdue
+// confirmation tasks, which emits task_overdue from the database, sends
+// messages deferred by quiet hours, sends due appointment reminders and
+// advances broadcast campaigns. Meant to be invoked on a schedule (e.g. every
+// minute) with the service role key.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendDeferredMessages } from "../_shared/teamMessaging.ts";
+import { processBroadcastCampaigns } from "../_shared/broadcastCampaigns.ts";
+import { sendDueAppointmentReminders } from "../_shared/appointmentReminders.ts";
+import type { DbClient } from "../_shared/supabaseClient.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BATCH_SIZE = 25;
+// Jobs stuck in "running" longer than this are assumed orphaned by a crashed worker
+const STALE_RUNNING_MS = 15 * 60 * 1000;
+const BASE_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+interface ScheduledJobRow {
+  id: string;
+  team_id: string;
+  automation_id: string;
+  run_id: string | null;
+  status: "pending" | "running" | "completed" | "failed";
+  attempts: number;
+  max_attempts: number;
+}
+
+interface JobResult {
+  jobId: string;
+  status: "completed" | "retrying" | "failed" | "skipped";
+  error?: string;
+  nextRunAt?: string;
+}
+
+function getSupabaseClient() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+/** 1m, 2m, 4m, ... capped at 1h */
+function getBackoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+async function releaseStaleJobs(supabase: DbClient): Promise<void> {
+  const staleBefore = new Date(Date.now() - STALE_RUNNING_MS).toISOString();
+  const { error } = await supabase
+    .from("scheduled_automation_jobs")
+    .update({ status: "pending" })
+    .eq("status", "running")
+    .lt("updated_at", staleBefore);
+
+  if (error) {
+    console.error("[process-automation-jobs] Failed to release stale jobs:", error);
+  }
+}
+
+/**
+ * Moves a job from pending to running. The status filter makes this a
+ * compare-and-swap, so two overlapping workers never resume the same job.
+ */
+async function claimJob(supabase: DbClient, job: ScheduledJobRow): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("scheduled_automation_jobs")
+    .update({ status: "running", attempts: job.attempts + 1 })
+    .eq("id", job.id)
+    .eq("status", "pending")
+    .select("id");
+
+  if (error) {
+    console.error(`[process-automation-jobs] Failed to claim job ${job.id}:`, error);
+    return false;
+  }
+  return Array.isArray(data) && data.length > 0;
+}
+
+/** Flags overdue confirmation tasks; the database emits task_overdue for each one. */
+async function checkOverdueTasks(supabase: DbClient): Promise<void> {
+  const { error } = await supabase.rpc("check_overdue_tasks");
+  if (error) {
+    console.error("[process-automation-jobs] Failed to check overdue tasks:", error);
+  }
+}
+
+/** Sends SMS / email held back by quiet hours once the contact's morning comes. */
+async function sendDueDeferredMessages(supabase: DbClient): Promise<void> {
+  const counts = await sendDeferredMessages(supabase, {
+    supabaseUrl: Deno.env.get("SUPABASE_URL")!,
+    unsubscribeSecret: Deno.env.get("UNSUBSCRIBE_SECRET") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  });
+  if (counts.sent + counts.failed + counts.suppressed + counts.deferred + counts.cancelled > 0) {
+    console.log("[process-automation-jobs] Deferred messages:", counts);
+  }
+}
+
+/** T-24h / T-1h / ... reminders whose send time has come. */
+async function sendAppointmentReminders(supabase: DbClient): Promise<void> {
+  const counts = await sendDueAppointmentReminders(supabase, {
+    supabaseUrl: Deno.env.get("SUPABASE_URL")!,
+    unsubscribeSecret: Deno.env.get("UNSUBSCRIBE_SECRET") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  });
+  if (counts.sent + counts.failed + counts.skipped > 0) {
+    console.log("[process-automation-jobs] Appointment reminders:", counts);
+  }
+}
+
+async function sendBroadcastBatches(supabase: DbClient): Promise<void> {
+  const batches = await processBroadcastCampaigns(supabase, {
+    supabaseUrl: Deno.env.get("SUPABASE_URL")!,
+    unsubscribeSecret: Deno.env.get("UNSUBSCRIBE_SECRET") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  });
+  for (const batch of batches.filter((b) => b.attempted > 0 || b.completed)) {
+    console.log(
+      `[process-automation-jobs] Broadcast ${batch.campaignId}: sent ${batch.attempted}${batch.completed ? ", finished" : ""}`,
+    );
+  }
+}
+
+interface ResumeFailure {
+  error: string;
+  /** False once the run failed partway; retrying would repeat its earlier steps */
+  retryable: boolean;
+}
+
+/** Resumes the job's run through automation-trigger; returns why it failed, or null */
+async function resumeJob(jobId: string): Promise<ResumeFailure | null> {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  const res = await fetch(`${supabaseUrl}/functions/v1/automation-trigger`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${supabaseServiceKey}`,
+    },
+    body: JSON.stringify({ resumeJobId: jobId }),
+  });
+
+  const body = await res.json().catch(() => null);
+  if (res.ok && body?.status === "ok") return null;
+  return { error: body?.error || `automation-trigger responded ${res.status}`, retryable: body?.retryable !== false };
+}
+
+async function processJob(supabase: DbClient, job: ScheduledJobRow): Promise<JobResult> {
+  if (!(await claimJob(supabase, job))) {
+    return { jobId: job.id, status: "skipped" };
+  }
+
+  const attempts = job.attempts + 1;
+
+  let failure: ResumeFailure | null;
+  try {
+    failure = await resumeJob(job.id);
+  } catch (err) {
+    failure = { error: err instanceof Error ? err.message : "Unknown error", retryable: true };
+  }
+
+  if (!failure) {
+    await supabase
+      .from("scheduled_automation_jobs")
+      .update({ status: "completed", completed_at: new Date().toISOString(), last_error: null })
+      .eq("id", job.id);
+
+    return { jobId: job.id, status: "completed" };
+  }
+
+  const message = failure.error;
+  console.error(`[process-automation-jobs] Job ${job.id} attempt ${attempts} failed:`, message);
+
+  // Dead-letter: give up and surface the failure on the run. A run that
+  // failed partway was already closed by automation-trigger.
+  if (!failure.retryable || attempts >= job.max_attempts) {
+    await supabase
+      .from("scheduled_automation_jobs")
+      .update({ status: "failed", last_error: message })
+      .eq("id", job.id);
+
+    if (job.run_id && failure.retryable) {
+      await supabase
+        .from("automation_runs")
+        .update({ status: "error", error_message: `Delayed step failed after ${attempts} attempts: ${message}` })
+        .eq("id", job.run_id);
+    }
+
+    return { jobId: job.id, status: "failed", error: message };
+  }
+
+  const nextRunAt = new Date(Date.now() + getBackoffMs(attempts)).toISOString();
+  await supabase
+    .from("scheduled_automation_jobs")
+    .update({ status: "pending", run_at: nextRunAt, last_error: message })
+    .eq("id", job.id);
+
+  return { jobId: job.id, status: "retrying", error: message, nextRunAt };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // A valid user JWT passes the gateway; only the scheduler may run the worker
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  if (token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+    return new Response(JSON.stringify({ status: "error", error: "Service role required" }), {
+      status: 403,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = getSupabaseClient();
+
+  try {
+    await releaseStaleJobs(supabase);
+    await checkOverdueTasks(supabase);
+    await sendDueDeferredMessages(supabase);
+    await sendAppointmentReminders(supabase);
+    await sendBroadcastBatches(supabase);
+
+    const { data: dueJobs, error } = await supabase
+      .from("scheduled_automation_jobs")
+      .select("id, team_id, automation_id, run_id, status, attempts, max_attempts")
+      .eq("status", "pending")
+      .lte("run_at", new Date().toISOString())
+      .order("run_at", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) throw error;
+
+    const results: JobResult[] = [];
+    for (const job of (dueJobs ?? []) as ScheduledJobRow[]) {
+      results.push(await processJob(supabase, job));
+    }
+
+    console.log(
+      `[process-automation-jobs] Processed ${results.length} job(s):`,
+      results.map((r) => `${r.jobId}=${r.status}`).join(", "),
+    );
+
+    return new Response(JSON.stringify({ status: "ok", processed: results.length, results }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("[process-automation-jobs] Error:", error);
+    return new Response(
+      JSON.stringify({
+        status: "error",
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
@@ -0,0 +1,80 @@
+// supabase/functions/send-broadcast/index.ts
+// "Send now" for a broadcast campaign: starts it and sends the first batch
+// right away instead of waiting for the next process-automation-jobs run,
+// which sends the rest at the campaign's throttle. The caller must be an
+// admin of the campaign's team.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { loadBroadcastCampaign, processBroadcastCampaigns } from "../_shared/broadcastCampaigns.ts";
+import type { DbClient } from "../_shared/supabaseClient.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function getSupabaseClient() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function isTeamAdmin(supabase: DbClient, userId: string, teamId: string): Promise<boolean> {
+  const { data } = await supabase.rpc("is_team_admin", { _user_id: userId, _team_id: teamId });
+  return data === true;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = getSupabaseClient();
+
+  try {
+    const { campaignId } = await req.json();
+    if (!campaignId) {
+      return json({ success: false, error: "campaignId is required" }, 400);
+    }
+
+    const campaign = await loadBroadcastCampaign(supabase, campaignId);
+    if (!campaign) {
+      return json({ success: false, error: "Campaign not found" }, 404);
+    }
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    const { data: userData } = await supabase.auth.getUser(token);
+    if (!userData?.user || !(await isTeamAdmin(supabase, userData.user.id, campaign.team_id))) {
+      return json({ success: false, error: "Only team admins can send campaigns" }, 403);
+    }
+
+    if (campaign.status !== "draft" && campaign.status !== "scheduled") {
+      return json({ success: false, error: `Campaign is already ${campaign.status}` }, 409);
+    }
+
+    const { error: scheduleError } = await supabase
+      .from("broadcast_campaigns")
+      .update({ status: "scheduled", scheduled_at: new Date().toISOString() })
+      .eq("id", campaign.id)
+      .eq("status", campaign.status);
+    if (scheduleError) throw scheduleError;
+
+    const [batch] = await processBroadcastCampaigns(supabase, {
+      supabaseUrl: Deno.env.get("SUPABASE_URL")!,
+      unsubscribeSecret: Deno.env.get("UNSUBSCRIBE_SECRET") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      campaignId: campaign.id,
+    });
+
+    const updated = await loadBroadcastCampaign(supabase, campaign.id);
+    return json({ success: true, status: updated?.status ?? "sending", sent: batch?.attempted ?? 0 });
+  } catch (error) {
+    console.error("[send-broadcast] Error:", error);
+    return json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,80 @@
+// supabase/functions/send-message/index.ts
+// Sends one SMS / email through the team's configured providers on behalf of
+// the app (the message dispatcher). Provider credentials never leave the
+// server. The caller must be a member of the message's team.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { OutboundMessage } from "../_shared/messageProviders.ts";
+import { sendTeamMessage } from "../_shared/teamMessaging.ts";
+import type { DbClient } from "../_shared/supabaseClient.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function getSupabaseClient() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function isTeamMember(supabase: DbClient, userId: string, teamId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from("team_members")
+    .select("id")
+    .eq("team_id", teamId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  return !!data;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = getSupabaseClient();
+
+  try {
+    const message = (await req.json()) as OutboundMessage;
+    if (!message?.teamId || !message.channel) {
+      return json({ success: false, error: "teamId and channel are required" }, 400);
+    }
+    if (message.channel !== "sms" && message.channel !== "email") {
+      return json({ success: false, error: `Channel ${message.channel} is not supported` }, 400);
+    }
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    if (token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+      const { data: userData } = await supabase.auth.getUser(token);
+      if (!userData?.user || !(await isTeamMember(supabase, userData.user.id, message.teamId))) {
+        return json({ success: false, error: "Not a member of this team" }, 403);
+      }
+    }
+
+    const result = await sendTeamMessage(supabase, message, {
+      supabaseUrl: Deno.env.get("SUPABASE_URL")!,
+      automationId: message.metadata?.automationId ?? null,
+      unsubscribeSecret: Deno.env.get("UNSUBSCRIBE_SECRET") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      logPayload: { metadata: message.metadata ?? {} },
+    });
+
+    return json({
+      success: result.success,
+      providerId: result.providerId,
+      providerMessageId: result.providerMessageId,
+      error: result.error,
+      compliance: result.compliance,
+    });
+  } catch (error) {
+    console.error("[send-message] Error:", error);
+    return json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
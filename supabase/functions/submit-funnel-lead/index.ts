@@ -7,6 +7,8 @@
 
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { attemptWebhookDelivery, enqueueWebhookDelivery } from "../_shared/webhookDelivery.ts";
+import type { DbClient } from "../_shared/supabaseClient.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -19,6 +21,111 @@ type SubmitMode = "draft" | "submit";
 type StepIntent = "capture" | "collect" | "schedule" | "complete";
 type ConsentMode = "explicit" | "implicit";
 
+// Integrations that receive every submitted lead as a signed webhook
+const LEAD_WEBHOOK_INTEGRATIONS = ["ghl", "zapier", "custom_webhook"];
+
+interface LeadWebhookFunnel {
+  id: string;
+  team_id: string;
+  name: string;
+}
+
+interface LeadWebhookLead {
+  id: string;
+  contact_id?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  name?: string | null;
+  opt_in_status?: boolean | null;
+  opt_in_timestamp?: string | null;
+  answers?: Record<string, unknown> | null;
+  calendly_booking_data?: unknown;
+}
+
+interface LeadWebhookIntegration {
+  id: string;
+  integration_type: string;
+  config: { webhook_url?: string; active?: boolean } | null;
+}
+
+/**
+ * Queues a lead_submitted delivery for each connected webhook integration and
+ * makes the first attempt in the background. The rows are written before we
+ * respond, so anything that doesn't go out now is picked up by the
+ * webhook-deliveries worker.
+ */
+async function queueLeadWebhooks(
+  supabase: DbClient,
+  funnel: LeadWebhookFunnel,
+  lead: LeadWebhookLead,
+): Promise<void> {
+  const { data: integrations, error } = await supabase
+    .from("team_integrations")
+    .select("id, integration_type, config")
+    .eq("team_id", funnel.team_id)
+    .eq("is_connected", true)
+    .in("integration_type", LEAD_WEBHOOK_INTEGRATIONS);
+
+  if (error) {
+    console.error("[submit-funnel-lead] Failed loading integrations:", error);
+    return;
+  }
+
+  const targets = ((integrations ?? []) as LeadWebhookIntegration[]).filter(
+    (i) => i.config?.webhook_url && i.config?.active !== false,
+  );
+  if (targets.length === 0) return;
+
+  // Same 10s window as the lead dedupe: a double submit shouldn't deliver twice
+  const since = new Date(Date.now() - 10_000).toISOString();
+  const { data: recent } = await supabase
+    .from("webhook_deliveries")
+    .select("integration_id")
+    .eq("team_id", funnel.team_id)
+    .eq("event_type", "lead_submitted")
+    .eq("request_body->>lead_id", lead.id)
+    .gte("created_at", since);
+  const alreadyQueued = new Set(((recent ?? []) as { integration_id: string }[]).map((r) => r.integration_id));
+
+  const payload = {
+    event: "lead_submitted",
+    lead_id: lead.id,
+    contact_id: lead.contact_id ?? null,
+    email: lead.email ?? null,
+    phone: lead.phone ?? null,
+    name: lead.name ?? null,
+    source: `Funnel: ${funnel.name}`,
+    funnel_id: funnel.id,
+    funnel_name: funnel.name,
+    opt_in: lead.opt_in_status ?? null,
+    opt_in_timestamp: lead.opt_in_timestamp ?? null,
+    custom_fields: lead.answers ?? {},
+    calendly_booked: !!lead.calendly_booking_data,
+    calendly_booking_data: lead.calendly_booking_data ?? null,
+    submitted_at: new Date().toISOString(),
+  };
+
+  for (const integration of targets) {
+    if (alreadyQueued.has(integration.id)) continue;
+    try {
+      const deliveryId = await enqueueWebhookDelivery(supabase, {
+        teamId: funnel.team_id,
+        source: "funnel_lead",
+        eventType: "lead_submitted",
+        integrationId: integration.id,
+        url: integration.config.webhook_url,
+        payload,
+      });
+
+      attemptWebhookDelivery(supabase, deliveryId).catch((err) => {
+        console.error("[submit-funnel-lead] Webhook delivery attempt failed:", err);
+      });
+    } catch (err) {
+      console.error("[submit-funnel-lead] Failed to queue webhook delivery:", err);
+    }
+  }
+}
+
 // Canonical default intent derivation (mirrors frontend stepDefinitions.ts)
 function getDefaultIntent(stepType: string): StepIntent {
   switch (stepType) {
@@ -783,6 +890,8 @@ serve(async (req) => {
         .catch((err: any) => {
           console.error("Failed to invoke automation-trigger:", err);
         });
+
+      await queueLeadWebhooks(supabase, funnel, lead);
     } else {
       console.log(
         `[submit-funnel-lead] effectiveSubmitMode=${effectiveSubmitMode}, skipping automation-trigger`,
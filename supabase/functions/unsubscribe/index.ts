@@ -0,0 +1,64 @@
+// supabase/functions/unsubscribe/index.ts
+// Target of the unsubscribe link appended to every automation email.
+//   GET  ?token=...  -> suppresses the address and shows a confirmation page
+//   POST ?token=...  -> RFC 8058 one-click unsubscribe from the mail client
+// The token is signed by sendTeamMessage, so it can't be forged for other
+// addresses or teams.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { addSuppression, verifyUnsubscribeToken } from "../_shared/messageCompliance.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function getSupabaseClient() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function page(title: string, message: string, status = 200): Response {
+  const html = `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>${title}</title></head>` +
+    `<body style="font-family:system-ui,sans-serif;max-width:480px;margin:80px auto;padding:0 16px;text-align:center">` +
+    `<h1 style="font-size:20px">${title}</h1><p style="color:#555">${message}</p></body></html>`;
+  return new Response(html, { status, headers: { ...corsHeaders, "Content-Type": "text/html; charset=utf-8" } });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get("token") ?? "";
+    const secret = Deno.env.get("UNSUBSCRIBE_SECRET") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const recipient = token ? await verifyUnsubscribeToken(secret, token) : null;
+    if (!recipient) {
+      return page("Link not valid", "This unsubscribe link is invalid or incomplete.", 400);
+    }
+
+    const supabase = getSupabaseClient();
+    await addSuppression(supabase, {
+      teamId: recipient.teamId,
+      channel: "email",
+      address: recipient.email,
+      reason: "unsubscribe_link",
+      source: req.method === "POST" ? "one_click" : "link",
+    });
+
+    console.log("[unsubscribe] suppressed", { teamId: recipient.teamId, method: req.method });
+
+    if (req.method === "POST") {
+      return new Response(null, { status: 204, headers: corsHeaders });
+    }
+    return page("You're unsubscribed", `${escapeHtml(recipient.email)} won't receive these emails anymore.`);
+  } catch (error) {
+    console.error("[unsubscribe] Error:", error);
+    return page("Something went wrong", "Please try the link again later.", 500);
+  }
+});
@@ -0,0 +1,119 @@
+// supabase/functions/webhook-deliveries/index.ts
+// Outbound webhook worker and manual redelivery.
+//
+// - { action: "process" }  – retries due deliveries. Meant to be invoked on a
+//   schedule (e.g. every minute) with the service role key.
+// - { action: "redeliver", deliveryId } – "Redeliver" button in the delivery
+//   log; the caller must be an admin / offer owner of the delivery's team.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  attemptWebhookDelivery,
+  getDueWebhookDeliveries,
+  redeliverWebhook,
+  type WebhookAttemptResult,
+} from "../_shared/webhookDelivery.ts";
+import type { DbClient } from "../_shared/supabaseClient.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BATCH_SIZE = 25;
+
+function getSupabaseClient() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function processDueDeliveries(supabase: DbClient): Promise<WebhookAttemptResult[]> {
+  const results: WebhookAttemptResult[] = [];
+
+  for (const deliveryId of await getDueWebhookDeliveries(supabase, BATCH_SIZE)) {
+    try {
+      const result = await attemptWebhookDelivery(supabase, deliveryId);
+      if (result) results.push(result);
+    } catch (err) {
+      console.error(`[webhook-deliveries] Delivery ${deliveryId} failed:`, err);
+    }
+  }
+
+  return results;
+}
+
+// Same roles as the "Admins can view webhook deliveries" RLS policy
+async function canManageTeam(supabase: DbClient, userId: string, teamId: string): Promise<boolean> {
+  const { data: membership } = await supabase
+    .from("team_members")
+    .select("role")
+    .eq("team_id", teamId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  return !!membership && ["admin", "offer_owner"].includes((membership as { role: string }).role);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = getSupabaseClient();
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    const isServiceRole = token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (body.action === "redeliver") {
+      if (!body.deliveryId) return json({ status: "error", error: "deliveryId is required" }, 400);
+
+      const { data: delivery } = await supabase
+        .from("webhook_deliveries")
+        .select("id, team_id")
+        .eq("id", body.deliveryId)
+        .maybeSingle();
+
+      if (!delivery) return json({ status: "error", error: "Delivery not found" }, 404);
+
+      if (!isServiceRole) {
+        const { data: userData } = await supabase.auth.getUser(token);
+        if (!userData?.user || !(await canManageTeam(supabase, userData.user.id, delivery.team_id))) {
+          return json({ status: "error", error: "Only team admins can redeliver webhooks" }, 403);
+        }
+      }
+
+      const result = await redeliverWebhook(supabase, delivery.id);
+      return json({ status: "ok", result });
+    }
+
+    if (!isServiceRole) {
+      return json({ status: "error", error: "Processing deliveries requires the service role" }, 403);
+    }
+
+    const results = await processDueDeliveries(supabase);
+    console.log(
+      `[webhook-deliveries] Processed ${results.length} delivery(s):`,
+      results.map((r) => `${r.deliveryId}=${r.status}`).join(", "),
+    );
+
+    return json({ status: "ok", processed: results.length, results });
+  } catch (error) {
+    console.error("[webhook-deliveries] Error:", error);
+    return json(
+      {
+        status: "error",
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      500,
+    );
+  }
+});
@@ -0,0 +1,46 @@
+-- Durable queue for paused automation runs (time_delay steps)
+CREATE TABLE IF NOT EXISTS public.scheduled_automation_jobs (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  automation_id uuid NOT NULL REFERENCES public.automations(id) ON DELETE CASCADE,
+  run_id uuid REFERENCES public.automation_runs(id) ON DELETE CASCADE,
+  trigger_type text NOT NULL,
+  run_at timestamp with time zone NOT NULL,
+  -- Step the run continues from once the delay has elapsed
+  resume_step_id text,
+  -- Serialized AutomationContext + eventId captured when the run paused
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  last_error text,
+  completed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_automation_jobs_due
+  ON public.scheduled_automation_jobs(run_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_scheduled_automation_jobs_run
+  ON public.scheduled_automation_jobs(run_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_automation_jobs_team
+  ON public.scheduled_automation_jobs(team_id, created_at DESC);
+
+ALTER TABLE public.scheduled_automation_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are written by the automation-trigger / process-automation-jobs edge
+-- functions (service role); team members can only read them.
+CREATE POLICY "Team members can view scheduled automation jobs"
+ON public.scheduled_automation_jobs FOR SELECT
+USING (is_team_member(auth.uid(), team_id));
+
+CREATE TRIGGER update_scheduled_automation_jobs_updated_at
+BEFORE UPDATE ON public.scheduled_automation_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Runs paused on a delay step sit in 'waiting' until their job resumes them
+ALTER TABLE public.automation_runs DROP CONSTRAINT IF EXISTS automation_runs_status_check;
+ALTER TABLE public.automation_runs ADD CONSTRAINT automation_runs_status_check
+  CHECK (status = ANY (ARRAY['success'::text, 'error'::text, 'running'::text, 'waiting'::text]));
@@ -0,0 +1,58 @@
+-- Outbound webhook deliveries (funnel lead webhooks, automation custom_webhook steps).
+-- Every HTTP attempt is also written to webhook_audit_logs (event_type = 'webhook_delivery')
+-- with the request/response details.
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  integration_id uuid REFERENCES public.team_integrations(id) ON DELETE SET NULL,
+  source text NOT NULL,
+  event_type text NOT NULL,
+  url text NOT NULL,
+  request_headers jsonb NOT NULL DEFAULT '{}'::jsonb,
+  request_body jsonb NOT NULL DEFAULT '{}'::jsonb,
+  -- Only set for deliveries that are not tied to an integration (inline automation secrets)
+  signing_secret text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'retrying', 'dead_letter')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 6,
+  next_attempt_at timestamp with time zone DEFAULT now(),
+  last_response_status integer,
+  last_response_body text,
+  last_error text,
+  delivered_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON public.webhook_deliveries(next_attempt_at)
+  WHERE status IN ('pending', 'retrying');
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_team
+  ON public.webhook_deliveries(team_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_integration
+  ON public.webhook_deliveries(integration_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_audit_logs_delivery
+  ON public.webhook_audit_logs((details->>'delivery_id'))
+  WHERE event_type = 'webhook_delivery';
+
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view webhook deliveries"
+ON public.webhook_deliveries FOR SELECT
+USING (
+  is_team_member(auth.uid(), team_id) AND
+  (has_team_role(auth.uid(), team_id, 'admin'::text) OR has_team_role(auth.uid(), team_id, 'offer_owner'::text))
+);
+
+-- Never expose inline signing secrets to the client
+REVOKE SELECT ON public.webhook_deliveries FROM anon, authenticated;
+GRANT SELECT (
+  id, team_id, integration_id, source, event_type, url, request_headers, request_body,
+  status, attempts, max_attempts, next_attempt_at, last_response_status, last_response_body,
+  last_error, delivered_at, created_at, updated_at
+) ON public.webhook_deliveries TO authenticated;
+
+CREATE TRIGGER update_webhook_deliveries_updated_at
+BEFORE UPDATE ON public.webhook_deliveries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
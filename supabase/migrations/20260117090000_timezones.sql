@@ -0,0 +1,4 @@
+-- IANA timezones used to render dates in automation messages
+-- ({{appointment.start_at_utc | datetime}}). The lead's timezone wins over the team's.
+ALTER TABLE public.teams ADD COLUMN IF NOT EXISTS timezone text;
+ALTER TABLE public.contacts ADD COLUMN IF NOT EXISTS timezone text;
@@ -0,0 +1,291 @@
+-- Emit automation triggers from the database so lifecycle events fire no
+-- matter which UI, RPC or webhook caused the change. pg_net queues the request
+-- and only sends it once the surrounding transaction commits, so rolled back
+-- changes (e.g. a failed close_deal_transaction) never trigger automations.
+
+-- Posts one event to the automation-trigger edge function. The eventId is the
+-- idempotency key automation-trigger uses, so re-emitting the same event is
+-- harmless.
+CREATE OR REPLACE FUNCTION public.emit_automation_event(
+  p_team_id uuid,
+  p_trigger_type text,
+  p_event_id text,
+  p_event_payload jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  webhook_url TEXT;
+  request_id BIGINT;
+BEGIN
+  webhook_url := current_setting('app.settings.api_url', true) || '/functions/v1/automation-trigger';
+
+  IF webhook_url IS NULL OR webhook_url = '' THEN
+    webhook_url := 'https://inbvluddkutyfhsxfqco.supabase.co/functions/v1/automation-trigger';
+  END IF;
+
+  SELECT INTO request_id net.http_post(
+    url := webhook_url,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key', true)
+    ),
+    body := jsonb_build_object(
+      'triggerType', p_trigger_type,
+      'teamId', p_team_id,
+      'eventId', p_event_id,
+      'eventPayload', p_event_payload
+    )
+  );
+EXCEPTION WHEN OTHERS THEN
+  -- Never block the write that caused the event
+  RAISE WARNING 'Failed to emit automation event % (%): %', p_trigger_type, p_event_id, SQLERRM;
+END;
+$$;
+
+-- Lead object for automation context, enriched from the matching contact
+CREATE OR REPLACE FUNCTION public.automation_lead_payload(
+  p_team_id uuid,
+  p_name text,
+  p_email text,
+  p_phone text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contact record;
+BEGIN
+  -- Always SELECT INTO so v_contact is assigned (all NULL when nothing matches)
+  SELECT id, tags, opt_in, timezone, source, custom_fields
+  INTO v_contact
+  FROM contacts
+  WHERE team_id = p_team_id
+    AND NULLIF(p_email, '') IS NOT NULL
+    AND lower(email) = lower(p_email)
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  RETURN jsonb_strip_nulls(jsonb_build_object(
+    'id', v_contact.id,
+    'name', p_name,
+    'first_name', NULLIF(split_part(COALESCE(p_name, ''), ' ', 1), ''),
+    'email', p_email,
+    'phone', p_phone,
+    'tags', v_contact.tags,
+    'opt_in', v_contact.opt_in,
+    'timezone', v_contact.timezone,
+    'source', v_contact.source,
+    'custom_fields', v_contact.custom_fields
+  ));
+END;
+$$;
+
+-- appointment_booked / appointment_rescheduled / appointment_cancelled /
+-- appointment_no_show / appointment_completed / pipeline_stage_changed
+CREATE OR REPLACE FUNCTION public.emit_appointment_automation_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payload jsonb;
+  v_changed_at text := extract(epoch from clock_timestamp())::text;
+BEGIN
+  v_payload := jsonb_build_object(
+    'appointment', to_jsonb(NEW),
+    'lead', automation_lead_payload(NEW.team_id, NEW.lead_name, NEW.lead_email, NEW.lead_phone)
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    -- Calendly reschedules create a new appointment linked to the old one
+    IF NEW.status = 'RESCHEDULED' OR NEW.rebooking_type = 'reschedule' THEN
+      PERFORM emit_automation_event(
+        NEW.team_id, 'appointment_rescheduled', 'appointment_rescheduled:' || NEW.id,
+        v_payload || jsonb_build_object('meta', jsonb_build_object(
+          'previous_appointment_id', NEW.original_appointment_id,
+          'previous_start_at_utc', NEW.original_booking_date
+        ))
+      );
+    ELSE
+      PERFORM emit_automation_event(
+        NEW.team_id, 'appointment_booked', 'appointment_booked:' || NEW.id, v_payload
+      );
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Moved in place (rescheduled within the app)
+  IF NEW.start_at_utc IS DISTINCT FROM OLD.start_at_utc AND NEW.status <> 'CANCELLED' THEN
+    PERFORM emit_automation_event(
+      NEW.team_id, 'appointment_rescheduled',
+      'appointment_rescheduled:' || NEW.id || ':' || extract(epoch from NEW.start_at_utc)::text,
+      v_payload || jsonb_build_object('meta', jsonb_build_object(
+        'previous_start_at_utc', OLD.start_at_utc
+      ))
+    );
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'CANCELLED' THEN
+      PERFORM emit_automation_event(
+        NEW.team_id, 'appointment_cancelled', 'appointment_cancelled:' || NEW.id,
+        v_payload || jsonb_build_object('meta', jsonb_build_object('previous_status', OLD.status))
+      );
+    ELSIF NEW.status = 'NO_SHOW' THEN
+      PERFORM emit_automation_event(
+        NEW.team_id, 'appointment_no_show', 'appointment_no_show:' || NEW.id,
+        v_payload || jsonb_build_object('meta', jsonb_build_object('previous_status', OLD.status))
+      );
+    ELSIF NEW.status IN ('SHOWED', 'CLOSED') THEN
+      -- SHOWED followed by CLOSED is still one completed appointment
+      PERFORM emit_automation_event(
+        NEW.team_id, 'appointment_completed', 'appointment_completed:' || NEW.id,
+        v_payload || jsonb_build_object(
+          'deal', CASE WHEN NEW.status = 'CLOSED' THEN to_jsonb(NEW) ELSE NULL END,
+          'meta', jsonb_build_object('previous_status', OLD.status)
+        )
+      );
+    END IF;
+    -- RESCHEDULED on an existing row only retires it; the new appointment
+    -- emits appointment_rescheduled on insert.
+  END IF;
+
+  IF NEW.pipeline_stage IS DISTINCT FROM OLD.pipeline_stage AND NEW.pipeline_stage IS NOT NULL THEN
+    PERFORM emit_automation_event(
+      NEW.team_id, 'pipeline_stage_changed',
+      'pipeline_stage_changed:' || NEW.id || ':' || NEW.pipeline_stage || ':' || v_changed_at,
+      v_payload || jsonb_build_object('meta', jsonb_build_object(
+        'from_stage', OLD.pipeline_stage,
+        'to_stage', NEW.pipeline_stage
+      ))
+    );
+  END IF;
+
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'Failed to emit appointment automation events: %', SQLERRM;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_emit_appointment_automation_events ON public.appointments;
+CREATE TRIGGER trigger_emit_appointment_automation_events
+  AFTER INSERT OR UPDATE OF status, pipeline_stage, start_at_utc ON public.appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.emit_appointment_automation_events();
+
+-- payment_received for every non-refund payment, plus deposit_collected for deposits
+CREATE OR REPLACE FUNCTION public.emit_payment_automation_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment record;
+  v_payload jsonb;
+BEGIN
+  IF NEW.type = 'refund' THEN
+    RETURN NEW;
+  END IF;
+
+  v_payload := jsonb_build_object('payment', to_jsonb(NEW));
+
+  IF NEW.appointment_id IS NOT NULL THEN
+    SELECT * INTO v_appointment FROM appointments WHERE id = NEW.appointment_id;
+    IF FOUND THEN
+      v_payload := v_payload || jsonb_build_object(
+        'appointment', to_jsonb(v_appointment),
+        'deal', to_jsonb(v_appointment),
+        'lead', automation_lead_payload(
+          v_appointment.team_id, v_appointment.lead_name, v_appointment.lead_email, v_appointment.lead_phone
+        )
+      );
+    END IF;
+  END IF;
+
+  PERFORM emit_automation_event(
+    NEW.team_id, 'payment_received', 'payment_received:' || NEW.id, v_payload
+  );
+
+  IF NEW.type = 'deposit' THEN
+    PERFORM emit_automation_event(
+      NEW.team_id, 'deposit_collected', 'deposit_collected:' || NEW.id, v_payload
+    );
+  END IF;
+
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'Failed to emit payment automation events: %', SQLERRM;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_emit_payment_automation_events ON public.payments;
+CREATE TRIGGER trigger_emit_payment_automation_events
+  AFTER INSERT ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.emit_payment_automation_events();
+
+-- task_overdue when check_overdue_tasks (or anything else) flags a task
+CREATE OR REPLACE FUNCTION public.emit_task_overdue_automation_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment record;
+  v_payload jsonb;
+BEGIN
+  v_payload := jsonb_build_object('meta', jsonb_build_object(
+    'task', jsonb_build_object(
+      'id', NEW.id,
+      'task_type', NEW.task_type,
+      'status', NEW.status,
+      'due_at', NEW.due_at,
+      'assigned_to', NEW.assigned_to,
+      'assigned_role', NEW.assigned_role
+    )
+  ));
+
+  SELECT * INTO v_appointment FROM appointments WHERE id = NEW.appointment_id;
+  IF FOUND THEN
+    v_payload := v_payload || jsonb_build_object(
+      'appointment', to_jsonb(v_appointment),
+      'lead', automation_lead_payload(
+        v_appointment.team_id, v_appointment.lead_name, v_appointment.lead_email, v_appointment.lead_phone
+      )
+    );
+  END IF;
+
+  PERFORM emit_automation_event(
+    NEW.team_id, 'task_overdue', 'task_overdue:' || NEW.id || ':' || extract(epoch from NEW.due_at)::text,
+    v_payload
+  );
+
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'Failed to emit task_overdue automation event: %', SQLERRM;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_emit_task_overdue_automation_event ON public.confirmation_tasks;
+CREATE TRIGGER trigger_emit_task_overdue_automation_event
+  AFTER UPDATE OF is_overdue ON public.confirmation_tasks
+  FOR EACH ROW
+  WHEN (NEW.is_overdue = true AND OLD.is_overdue IS DISTINCT FROM true)
+  EXECUTE FUNCTION public.emit_task_overdue_automation_event();
+
+-- Only the database itself should emit events
+REVOKE EXECUTE ON FUNCTION public.emit_automation_event(uuid, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.automation_lead_payload(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,12 @@
+-- Real providers report delivery asynchronously: keep the provider's message id
+-- so status callbacks (message-status edge function) can find the log row.
+ALTER TABLE public.message_logs ADD COLUMN IF NOT EXISTS provider_message_id text;
+ALTER TABLE public.message_logs ADD COLUMN IF NOT EXISTS status_updated_at timestamp with time zone;
+
+ALTER TABLE public.message_logs DROP CONSTRAINT IF EXISTS message_logs_status_check;
+ALTER TABLE public.message_logs ADD CONSTRAINT message_logs_status_check
+  CHECK (status IN ('queued', 'sent', 'delivered', 'failed', 'bounced'));
+
+CREATE INDEX IF NOT EXISTS idx_message_logs_provider_message
+  ON public.message_logs(provider, provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
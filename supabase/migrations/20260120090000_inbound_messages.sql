@@ -0,0 +1,77 @@
+-- Inbound SMS replies. Outbound messages stay in message_logs; a contact's
+-- conversation thread is both tables merged by time.
+CREATE TABLE IF NOT EXISTS public.inbound_messages (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  contact_id uuid REFERENCES public.contacts(id) ON DELETE SET NULL,
+  appointment_id uuid REFERENCES public.appointments(id) ON DELETE SET NULL,
+  channel text NOT NULL DEFAULT 'sms',
+  provider text NOT NULL,
+  provider_message_id text,
+  from_address text NOT NULL,
+  to_address text,
+  body text NOT NULL DEFAULT '',
+  -- Keyword intent detected in the body (confirm / opt_out / reschedule)
+  intent text CHECK (intent IN ('confirm', 'opt_out', 'reschedule')),
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Providers retry webhooks; the same message must only be stored once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inbound_messages_provider_message
+  ON public.inbound_messages(provider, provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_inbound_messages_contact
+  ON public.inbound_messages(team_id, contact_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inbound_messages_from
+  ON public.inbound_messages(team_id, from_address, created_at DESC);
+
+ALTER TABLE public.inbound_messages ENABLE ROW LEVEL SECURITY;
+
+-- Written by the inbound-message edge function (service role)
+CREATE POLICY "Team members can view inbound messages"
+ON public.inbound_messages FOR SELECT
+USING (is_team_member(auth.uid(), team_id));
+
+-- Phone numbers are stored in whatever format the lead typed; compare the
+-- last 10 digits.
+CREATE OR REPLACE FUNCTION public.phone_match_key(p_phone text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(right(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g'), 10), '');
+$$;
+
+CREATE OR REPLACE FUNCTION public.find_contacts_by_phone(p_team_id uuid, p_phone text)
+RETURNS SETOF public.contacts
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM contacts
+  WHERE team_id = p_team_id
+    AND phone_match_key(phone) = phone_match_key(p_phone)
+  ORDER BY created_at DESC;
+$$;
+
+-- Upcoming appointments first (soonest), then past ones (most recent)
+CREATE OR REPLACE FUNCTION public.find_appointments_by_phone(p_team_id uuid, p_phone text)
+RETURNS SETOF public.appointments
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM appointments
+  WHERE team_id = p_team_id
+    AND phone_match_key(lead_phone) = phone_match_key(p_phone)
+    AND status NOT IN ('CANCELLED', 'RESCHEDULED')
+  ORDER BY (start_at_utc >= now()) DESC,
+           CASE WHEN start_at_utc >= now() THEN start_at_utc END ASC,
+           start_at_utc DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_contacts_by_phone(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.find_appointments_by_phone(uuid, text) FROM PUBLIC, anon;
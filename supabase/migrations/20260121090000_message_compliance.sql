@@ -0,0 +1,53 @@
+-- Compliance guard for outbound SMS / email (see _shared/messageCompliance.ts):
+-- a team-wide suppression list, quiet hours and per-contact frequency caps.
+CREATE TABLE IF NOT EXISTS public.message_suppressions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  channel text NOT NULL CHECK (channel IN ('sms', 'email')),
+  -- Lowercased email, or the last 10 digits of a phone number (phone_match_key)
+  address text NOT NULL,
+  reason text NOT NULL CHECK (reason IN ('opt_out_reply', 'unsubscribe_link', 'manual')),
+  -- The STOP reply text, 'link' / 'one_click', or a note for manual entries
+  source text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (team_id, channel, address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_suppressions_address
+  ON public.message_suppressions(team_id, address);
+
+ALTER TABLE public.message_suppressions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view suppressions"
+ON public.message_suppressions FOR SELECT
+USING (is_team_member(auth.uid(), team_id));
+
+-- Anyone on the team can honour a "don't contact me" request
+CREATE POLICY "Team members can add suppressions"
+ON public.message_suppressions FOR INSERT
+WITH CHECK (is_team_member(auth.uid(), team_id) AND reason = 'manual');
+
+CREATE POLICY "Team admins can remove suppressions"
+ON public.message_suppressions FOR DELETE
+USING (is_team_admin(auth.uid(), team_id));
+
+-- Quiet hours (local hour of the contact) and caps per contact; null disables
+ALTER TABLE public.teams ADD COLUMN IF NOT EXISTS message_compliance_config jsonb NOT NULL
+  DEFAULT '{"quiet_hours_start": 21, "quiet_hours_end": 8, "daily_cap": 6, "weekly_cap": 20}'::jsonb;
+
+-- Suppressed and deferred sends are logged too, with the reason
+ALTER TABLE public.message_logs ADD COLUMN IF NOT EXISTS suppression_reason text;
+ALTER TABLE public.message_logs ADD COLUMN IF NOT EXISTS deferred_until timestamp with time zone;
+
+ALTER TABLE public.message_logs DROP CONSTRAINT IF EXISTS message_logs_status_check;
+ALTER TABLE public.message_logs ADD CONSTRAINT message_logs_status_check
+  CHECK (status IN ('queued', 'sent', 'delivered', 'failed', 'bounced', 'suppressed', 'deferred'));
+
+CREATE INDEX IF NOT EXISTS idx_message_logs_deferred
+  ON public.message_logs(deferred_until)
+  WHERE status = 'deferred';
+
+-- Frequency caps count recent sends to an address
+CREATE INDEX IF NOT EXISTS idx_message_logs_recipient
+  ON public.message_logs(team_id, channel, to_address, created_at DESC);
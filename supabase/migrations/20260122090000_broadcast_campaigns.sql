@@ -0,0 +1,310 @@
+-- Broadcast campaigns: one SMS / email sent to an audience of contacts,
+-- now or at a scheduled time, in throttled batches (see
+-- _shared/broadcastCampaigns.ts). Per-recipient rows follow their message_logs
+-- row; the campaign keeps running totals for reporting.
+CREATE TABLE IF NOT EXISTS public.broadcast_campaigns (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  channel text NOT NULL CHECK (channel IN ('sms', 'email')),
+  subject text,
+  -- Template with merge fields ({{lead.first_name}}, {{team.name}}, ...)
+  body text NOT NULL DEFAULT '',
+  -- Contact filters: { tags, sources, optIn, funnelIds, appointmentStatuses }
+  audience jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'scheduled', 'sending', 'sent', 'cancelled', 'failed')),
+  scheduled_at timestamp with time zone,
+  throttle_per_minute integer NOT NULL DEFAULT 60 CHECK (throttle_per_minute BETWEEN 1 AND 1000),
+  started_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  last_batch_at timestamp with time zone,
+  error_message text,
+  recipient_count integer NOT NULL DEFAULT 0,
+  sent_count integer NOT NULL DEFAULT 0,
+  delivered_count integer NOT NULL DEFAULT 0,
+  failed_count integer NOT NULL DEFAULT 0,
+  suppressed_count integer NOT NULL DEFAULT 0,
+  replied_count integer NOT NULL DEFAULT 0,
+  opted_out_count integer NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_campaigns_team
+  ON public.broadcast_campaigns(team_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_broadcast_campaigns_due
+  ON public.broadcast_campaigns(scheduled_at)
+  WHERE status IN ('scheduled', 'sending');
+
+CREATE TRIGGER update_broadcast_campaigns_updated_at
+  BEFORE UPDATE ON public.broadcast_campaigns
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.broadcast_campaigns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view broadcast campaigns"
+ON public.broadcast_campaigns FOR SELECT
+USING (is_team_member(auth.uid(), team_id));
+
+CREATE POLICY "Team admins can manage broadcast campaigns"
+ON public.broadcast_campaigns FOR ALL
+USING (is_team_admin(auth.uid(), team_id))
+WITH CHECK (is_team_admin(auth.uid(), team_id));
+
+CREATE TABLE IF NOT EXISTS public.broadcast_recipients (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id uuid NOT NULL REFERENCES public.broadcast_campaigns(id) ON DELETE CASCADE,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  contact_id uuid REFERENCES public.contacts(id) ON DELETE SET NULL,
+  channel text NOT NULL CHECK (channel IN ('sms', 'email')),
+  to_address text NOT NULL,
+  -- Lowercased email or phone_match_key; one message per address per campaign
+  address_key text NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'queued', 'sent', 'delivered', 'failed', 'bounced', 'suppressed', 'deferred', 'cancelled')),
+  message_log_id uuid REFERENCES public.message_logs(id) ON DELETE SET NULL,
+  error_message text,
+  sent_at timestamp with time zone,
+  replied_at timestamp with time zone,
+  opted_out_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (campaign_id, address_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_recipients_pending
+  ON public.broadcast_recipients(campaign_id, created_at)
+  WHERE status = 'pending';
+-- Replies and opt-outs are credited to the latest campaign sent to an address
+CREATE INDEX IF NOT EXISTS idx_broadcast_recipients_address
+  ON public.broadcast_recipients(team_id, channel, address_key, sent_at DESC);
+
+CREATE TRIGGER update_broadcast_recipients_updated_at
+  BEFORE UPDATE ON public.broadcast_recipients
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.broadcast_recipients ENABLE ROW LEVEL SECURITY;
+
+-- Written by the campaign worker (service role) and the triggers below
+CREATE POLICY "Team members can view broadcast recipients"
+ON public.broadcast_recipients FOR SELECT
+USING (is_team_member(auth.uid(), team_id));
+
+ALTER TABLE public.message_logs ADD COLUMN IF NOT EXISTS broadcast_recipient_id uuid
+  REFERENCES public.broadcast_recipients(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_message_logs_broadcast_recipient
+  ON public.message_logs(broadcast_recipient_id)
+  WHERE broadcast_recipient_id IS NOT NULL;
+
+-- Deferred sends of a cancelled campaign are cancelled with it
+ALTER TABLE public.message_logs DROP CONSTRAINT IF EXISTS message_logs_status_check;
+ALTER TABLE public.message_logs ADD CONSTRAINT message_logs_status_check
+  CHECK (status IN ('queued', 'sent', 'delivered', 'failed', 'bounced', 'suppressed', 'deferred', 'cancelled'));
+
+-- Contacts matching a campaign audience that can be reached on the channel.
+-- Runs with the caller's rights, so the app only ever counts its own team.
+CREATE OR REPLACE FUNCTION public.resolve_broadcast_audience(p_team_id uuid, p_channel text, p_audience jsonb)
+RETURNS SETOF public.contacts
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT c.*
+  FROM contacts c
+  LEFT JOIN funnel_leads fl ON fl.id = c.funnel_lead_id
+  WHERE c.team_id = p_team_id
+    AND CASE WHEN p_channel = 'email' THEN NULLIF(trim(c.email), '') IS NOT NULL
+             ELSE phone_match_key(c.phone) IS NOT NULL END
+    AND (COALESCE(jsonb_array_length(p_audience->'tags'), 0) = 0
+         OR c.tags && ARRAY(SELECT jsonb_array_elements_text(p_audience->'tags')))
+    AND (COALESCE(jsonb_array_length(p_audience->'sources'), 0) = 0
+         OR c.source = ANY(ARRAY(SELECT jsonb_array_elements_text(p_audience->'sources'))))
+    AND CASE COALESCE(p_audience->>'optIn', 'not_opted_out')
+          WHEN 'any' THEN true
+          WHEN 'opted_in' THEN c.opt_in IS TRUE
+          ELSE c.opt_in IS DISTINCT FROM false
+        END
+    AND (COALESCE(jsonb_array_length(p_audience->'funnelIds'), 0) = 0
+         OR fl.funnel_id = ANY(ARRAY(SELECT jsonb_array_elements_text(p_audience->'funnelIds'))::uuid[]))
+    AND (COALESCE(jsonb_array_length(p_audience->'appointmentStatuses'), 0) = 0
+         OR EXISTS (
+           SELECT 1
+           FROM appointments a
+           WHERE a.team_id = c.team_id
+             AND (lower(a.lead_email) = lower(c.email)
+                  OR phone_match_key(a.lead_phone) = phone_match_key(c.phone))
+             AND a.status::text = ANY(ARRAY(SELECT jsonb_array_elements_text(p_audience->'appointmentStatuses')))
+         ))
+  ORDER BY c.created_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_broadcast_audience(uuid, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.resolve_broadcast_audience(uuid, text, jsonb) TO authenticated;
+
+-- Recipient rows mirror their message_logs row (sent → delivered / bounced,
+-- deferred → sent, ...), including the first write of the row.
+CREATE OR REPLACE FUNCTION public.sync_broadcast_recipient_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE broadcast_recipients
+  SET status = NEW.status,
+      message_log_id = NEW.id,
+      error_message = NEW.error_message,
+      sent_at = CASE
+        WHEN sent_at IS NULL AND NEW.status IN ('sent', 'delivered', 'bounced') THEN now()
+        ELSE sent_at
+      END
+  WHERE id = NEW.broadcast_recipient_id
+    AND status IS DISTINCT FROM NEW.status;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_broadcast_recipient_status
+  AFTER INSERT OR UPDATE OF status ON public.message_logs
+  FOR EACH ROW
+  WHEN (NEW.broadcast_recipient_id IS NOT NULL)
+  EXECUTE FUNCTION public.sync_broadcast_recipient_status();
+
+-- Campaign totals move with each recipient row. "sent" counts every message
+-- that reached a provider, so a later delivered / bounced doesn't undo it.
+CREATE OR REPLACE FUNCTION public.update_broadcast_campaign_stats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_new broadcast_recipients;
+  v_old broadcast_recipients;
+  v_campaign_id uuid;
+BEGIN
+  IF TG_OP <> 'DELETE' THEN v_new := NEW; END IF;
+  IF TG_OP <> 'INSERT' THEN v_old := OLD; END IF;
+  v_campaign_id := COALESCE(v_new.campaign_id, v_old.campaign_id);
+
+  UPDATE broadcast_campaigns
+  SET recipient_count = recipient_count
+        + (v_new.id IS NOT NULL)::int - (v_old.id IS NOT NULL)::int,
+      sent_count = sent_count
+        + (v_new.sent_at IS NOT NULL)::int - (v_old.sent_at IS NOT NULL)::int,
+      delivered_count = delivered_count
+        + COALESCE(v_new.status = 'delivered', false)::int - COALESCE(v_old.status = 'delivered', false)::int,
+      failed_count = failed_count
+        + COALESCE(v_new.status IN ('failed', 'bounced'), false)::int
+        - COALESCE(v_old.status IN ('failed', 'bounced'), false)::int,
+      suppressed_count = suppressed_count
+        + COALESCE(v_new.status = 'suppressed', false)::int - COALESCE(v_old.status = 'suppressed', false)::int,
+      replied_count = replied_count
+        + (v_new.replied_at IS NOT NULL)::int - (v_old.replied_at IS NOT NULL)::int,
+      opted_out_count = opted_out_count
+        + (v_new.opted_out_at IS NOT NULL)::int - (v_old.opted_out_at IS NOT NULL)::int
+  WHERE id = v_campaign_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_broadcast_campaign_stats
+  AFTER INSERT OR UPDATE OR DELETE ON public.broadcast_recipients
+  FOR EACH ROW EXECUTE FUNCTION public.update_broadcast_campaign_stats();
+
+-- An SMS reply within a week counts toward the latest campaign sent to that number
+CREATE OR REPLACE FUNCTION public.record_broadcast_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE broadcast_recipients
+  SET replied_at = NEW.created_at
+  WHERE id = (
+    SELECT id
+    FROM broadcast_recipients
+    WHERE team_id = NEW.team_id
+      AND channel = 'sms'
+      AND address_key = phone_match_key(NEW.from_address)
+      AND sent_at BETWEEN NEW.created_at - interval '7 days' AND NEW.created_at
+    ORDER BY sent_at DESC
+    LIMIT 1
+  )
+    AND replied_at IS NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_broadcast_reply
+  AFTER INSERT ON public.inbound_messages
+  FOR EACH ROW EXECUTE FUNCTION public.record_broadcast_reply();
+
+-- STOP replies and unsubscribe links land in message_suppressions
+CREATE OR REPLACE FUNCTION public.record_broadcast_opt_out()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.reason = 'manual' THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE broadcast_recipients
+  SET opted_out_at = NEW.created_at
+  WHERE id = (
+    SELECT id
+    FROM broadcast_recipients
+    WHERE team_id = NEW.team_id
+      AND channel = NEW.channel
+      AND address_key = NEW.address
+      AND sent_at BETWEEN NEW.created_at - interval '7 days' AND NEW.created_at
+    ORDER BY sent_at DESC
+    LIMIT 1
+  )
+    AND opted_out_at IS NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_broadcast_opt_out
+  AFTER INSERT ON public.message_suppressions
+  FOR EACH ROW EXECUTE FUNCTION public.record_broadcast_opt_out();
+
+-- Cancelling a campaign drops whatever it hasn't sent yet
+CREATE OR REPLACE FUNCTION public.cancel_pending_broadcast_recipients()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE broadcast_recipients
+  SET status = 'cancelled'
+  WHERE campaign_id = NEW.id
+    AND status = 'pending';
+
+  -- Messages held for quiet hours; sync_broadcast_recipient_status moves
+  -- their recipient rows to cancelled as well
+  UPDATE message_logs ml
+  SET status = 'cancelled', deferred_until = NULL, status_updated_at = now()
+  FROM broadcast_recipients br
+  WHERE ml.broadcast_recipient_id = br.id
+    AND br.campaign_id = NEW.id
+    AND ml.status = 'deferred';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cancel_pending_broadcast_recipients
+  AFTER UPDATE OF status ON public.broadcast_campaigns
+  FOR EACH ROW
+  WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+  EXECUTE FUNCTION public.cancel_pending_broadcast_recipients();
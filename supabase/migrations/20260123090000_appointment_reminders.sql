@@ -0,0 +1,67 @@
+-- Appointment reminder sequences (see _shared/appointmentReminders.ts): steps
+-- relative to start_at_utc, one appointment_reminders row per step, sent by
+-- process-automation-jobs and re-planned by calendly-webhook on reschedules.
+
+-- The invitee's IANA timezone from Calendly; reminders render in it
+ALTER TABLE public.appointments ADD COLUMN IF NOT EXISTS timezone text;
+
+-- Off until a team turns it on; the default steps are T-24h, T-1h and T-10m
+ALTER TABLE public.teams ADD COLUMN IF NOT EXISTS appointment_reminder_config jsonb NOT NULL
+  DEFAULT '{
+  "enabled": false,
+  "steps": [
+    {
+      "key": "t-24h",
+      "offsetMinutes": 1440,
+      "channel": "sms",
+      "template": "Hi {{lead.first_name | default: \"there\"}}, a reminder that your {{appointment.event_type_name | default: \"call\"}} with {{team.name}} is {{appointment.start_at_utc | datetime}}.{{#if appointment.reschedule_url}} Need another time? {{appointment.reschedule_url}}{{/if}}"
+    },
+    {
+      "key": "t-1h",
+      "offsetMinutes": 60,
+      "channel": "sms",
+      "template": "Your call with {{team.name}} starts in 1 hour ({{appointment.start_at_utc | time}}).{{#if appointment.meeting_link}} Join: {{appointment.meeting_link}}{{/if}}"
+    },
+    {
+      "key": "t-10m",
+      "offsetMinutes": 10,
+      "channel": "sms",
+      "template": "Starting in 10 minutes!{{#if appointment.meeting_link}} Join here: {{appointment.meeting_link}}{{/if}}"
+    }
+  ]
+}'::jsonb;
+
+CREATE TABLE IF NOT EXISTS public.appointment_reminders (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  appointment_id uuid NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+  -- ReminderStep.key in the team's config
+  step_key text NOT NULL,
+  offset_minutes integer NOT NULL CHECK (offset_minutes > 0),
+  channel text NOT NULL CHECK (channel IN ('sms', 'email')),
+  send_at timestamp with time zone NOT NULL,
+  status text NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'sending', 'sent', 'failed', 'cancelled', 'skipped')),
+  message_log_id uuid REFERENCES public.message_logs(id) ON DELETE SET NULL,
+  -- Why it failed, or why it was cancelled / skipped
+  error_message text,
+  sent_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (appointment_id, step_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_reminders_due
+  ON public.appointment_reminders(send_at)
+  WHERE status = 'scheduled';
+
+CREATE TRIGGER update_appointment_reminders_updated_at
+  BEFORE UPDATE ON public.appointment_reminders
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.appointment_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Written by calendly-webhook and the reminder worker (service role)
+CREATE POLICY "Team members can view appointment reminders"
+ON public.appointment_reminders FOR SELECT
+USING (is_team_member(auth.uid(), team_id));
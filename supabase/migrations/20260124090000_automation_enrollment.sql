@@ -0,0 +1,25 @@
+-- Enrollment policies, goals and exclusion groups (see
+-- _shared/automationEnrollment.ts). The settings live in automations.definition;
+-- runs record who they are for so policies can be checked per contact.
+
+ALTER TABLE public.automation_runs
+  -- email:… / phone:… / lead:… for the contact the run is about
+  ADD COLUMN IF NOT EXISTS contact_key text,
+  -- Copied from the automation when the run starts
+  ADD COLUMN IF NOT EXISTS exclusion_group text,
+  ADD COLUMN IF NOT EXISTS exit_reason text,
+  ADD COLUMN IF NOT EXISTS exited_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS idx_automation_runs_contact
+  ON public.automation_runs(team_id, contact_key, created_at DESC)
+  WHERE contact_key IS NOT NULL;
+
+-- 'exited': a goal was met while the run was waiting on a delay
+ALTER TABLE public.automation_runs DROP CONSTRAINT IF EXISTS automation_runs_status_check;
+ALTER TABLE public.automation_runs ADD CONSTRAINT automation_runs_status_check
+  CHECK (status = ANY (ARRAY['success'::text, 'error'::text, 'running'::text, 'waiting'::text, 'exited'::text]));
+
+-- Resume jobs of exited runs are cancelled rather than run
+ALTER TABLE public.scheduled_automation_jobs DROP CONSTRAINT IF EXISTS scheduled_automation_jobs_status_check;
+ALTER TABLE public.scheduled_automation_jobs ADD CONSTRAINT scheduled_automation_jobs_status_check
+  CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled'));
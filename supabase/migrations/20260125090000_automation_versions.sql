@@ -0,0 +1,138 @@
+-- Immutable automation versions. Every insert into automations, and every
+-- update that changes its definition / name / description / trigger, records
+-- a new automation_versions row and points automations.current_version_id at
+-- it. Runs store the version they started on, so history shows exactly which
+-- flow produced them and paused runs resume on the same version.
+
+CREATE TABLE IF NOT EXISTS public.automation_versions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  automation_id uuid NOT NULL REFERENCES public.automations(id) ON DELETE CASCADE,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  -- 1, 2, 3… per automation
+  version_number integer NOT NULL,
+  name text NOT NULL,
+  description text,
+  trigger_type text NOT NULL,
+  definition jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Set when this version was created by rolling back to an older one
+  restored_from_version_id uuid REFERENCES public.automation_versions(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (automation_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_versions_automation
+  ON public.automation_versions(automation_id, version_number DESC);
+
+ALTER TABLE public.automation_versions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by record_automation_version(); never updated or deleted
+CREATE POLICY "Team members can view automation versions"
+ON public.automation_versions FOR SELECT
+USING (is_team_member(auth.uid(), team_id));
+
+ALTER TABLE public.automations
+  ADD COLUMN IF NOT EXISTS current_version_id uuid REFERENCES public.automation_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.automation_runs
+  ADD COLUMN IF NOT EXISTS automation_version_id uuid REFERENCES public.automation_versions(id) ON DELETE SET NULL;
+
+-- Existing automations start at version 1
+INSERT INTO public.automation_versions (automation_id, team_id, version_number, name, description, trigger_type, definition, created_at)
+SELECT a.id, a.team_id, 1, a.name, a.description, a.trigger_type, a.definition, a.updated_at
+FROM public.automations a
+WHERE NOT EXISTS (SELECT 1 FROM public.automation_versions v WHERE v.automation_id = a.id);
+
+UPDATE public.automations a
+SET current_version_id = v.id
+FROM public.automation_versions v
+WHERE v.automation_id = a.id
+  AND v.version_number = 1
+  AND a.current_version_id IS NULL;
+
+CREATE OR REPLACE FUNCTION public.record_automation_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version_id uuid;
+  -- Set by rollback_automation() for the duration of its transaction
+  v_restored_from uuid := NULLIF(current_setting('app.automation_restored_from', true), '')::uuid;
+BEGIN
+  -- Toggling is_active and other bookkeeping updates aren't new versions
+  IF TG_OP = 'UPDATE'
+     AND NEW.definition IS NOT DISTINCT FROM OLD.definition
+     AND NEW.name IS NOT DISTINCT FROM OLD.name
+     AND NEW.description IS NOT DISTINCT FROM OLD.description
+     AND NEW.trigger_type IS NOT DISTINCT FROM OLD.trigger_type THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO automation_versions (
+    automation_id, team_id, version_number, name, description, trigger_type, definition,
+    created_by, restored_from_version_id
+  )
+  VALUES (
+    NEW.id,
+    NEW.team_id,
+    COALESCE((SELECT max(version_number) FROM automation_versions WHERE automation_id = NEW.id), 0) + 1,
+    NEW.name,
+    NEW.description,
+    NEW.trigger_type,
+    NEW.definition,
+    auth.uid(),
+    v_restored_from
+  )
+  RETURNING id INTO v_version_id;
+
+  -- Only current_version_id changes, so this doesn't fire the trigger again
+  UPDATE automations SET current_version_id = v_version_id WHERE id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_automation_version ON public.automations;
+CREATE TRIGGER record_automation_version
+AFTER INSERT OR UPDATE OF definition, name, description, trigger_type ON public.automations
+FOR EACH ROW
+EXECUTE FUNCTION public.record_automation_version();
+
+-- Restores an older version by saving its content as a new version. Runs as
+-- the caller, so the automations RLS policy limits it to team admins.
+CREATE OR REPLACE FUNCTION public.rollback_automation(p_version_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_version automation_versions%ROWTYPE;
+  v_current_id uuid;
+BEGIN
+  SELECT * INTO v_version FROM automation_versions WHERE id = p_version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Automation version % not found', p_version_id;
+  END IF;
+
+  PERFORM set_config('app.automation_restored_from', p_version_id::text, true);
+
+  UPDATE automations
+  SET definition = v_version.definition,
+      name = v_version.name,
+      description = v_version.description,
+      trigger_type = v_version.trigger_type,
+      updated_at = now()
+  WHERE id = v_version.automation_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only team admins can roll back automations';
+  END IF;
+
+  PERFORM set_config('app.automation_restored_from', '', true);
+
+  SELECT current_version_id INTO v_current_id FROM automations WHERE id = v_version.automation_id;
+  RETURN v_current_id;
+END;
+$$;
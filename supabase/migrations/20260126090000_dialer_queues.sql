@@ -0,0 +1,168 @@
+-- Power dialer: named call queues that automations (enqueue_dialer) and
+-- setters add contacts to, worked one contact at a time with next / skip.
+-- Every call gets a disposition in dialer_calls; no answer and voicemail put
+-- the item back in the queue after the chosen callback delay (see
+-- _shared/powerDialer.ts). Queues can also mirror their contacts to an
+-- external dialer (PhoneBurner, Close) using the team's team_integrations row.
+CREATE TABLE IF NOT EXISTS public.dialer_queues (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  provider text NOT NULL DEFAULT 'in_app'
+    CHECK (provider IN ('in_app', 'phoneburner', 'close', 'mock')),
+  -- Calls without a connection before the item is closed as exhausted
+  max_attempts integer NOT NULL DEFAULT 3 CHECK (max_attempts BETWEEN 1 AND 20),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (team_id, name)
+);
+
+CREATE TRIGGER update_dialer_queues_updated_at
+  BEFORE UPDATE ON public.dialer_queues
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.dialer_queues ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view dialer queues"
+ON public.dialer_queues FOR SELECT
+USING (is_team_member(auth.uid(), team_id));
+
+CREATE POLICY "Team admins can manage dialer queues"
+ON public.dialer_queues FOR ALL
+USING (is_team_admin(auth.uid(), team_id))
+WITH CHECK (is_team_admin(auth.uid(), team_id));
+
+CREATE TABLE IF NOT EXISTS public.dialer_queue_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  queue_id uuid NOT NULL REFERENCES public.dialer_queues(id) ON DELETE CASCADE,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  contact_id uuid REFERENCES public.contacts(id) ON DELETE SET NULL,
+  appointment_id uuid REFERENCES public.appointments(id) ON DELETE SET NULL,
+  name text,
+  phone text NOT NULL,
+  email text,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'in_progress', 'completed', 'skipped')),
+  -- Higher is called first
+  priority integer NOT NULL DEFAULT 0,
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamp with time zone NOT NULL DEFAULT now(),
+  last_disposition text
+    CHECK (last_disposition IN ('connected', 'no_answer', 'voicemail', 'booked')),
+  last_called_at timestamp with time zone,
+  claimed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  claimed_at timestamp with time zone,
+  source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'automation')),
+  automation_id uuid REFERENCES public.automations(id) ON DELETE SET NULL,
+  added_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Set when the queue mirrors to an external dialer
+  external_id text,
+  push_error text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- A number is only queued once until it's worked
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dialer_queue_items_open_phone
+  ON public.dialer_queue_items(queue_id, phone)
+  WHERE status IN ('pending', 'in_progress');
+CREATE INDEX IF NOT EXISTS idx_dialer_queue_items_next
+  ON public.dialer_queue_items(queue_id, priority DESC, next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE TRIGGER update_dialer_queue_items_updated_at
+  BEFORE UPDATE ON public.dialer_queue_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.dialer_queue_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view dialer queue items"
+ON public.dialer_queue_items FOR SELECT
+USING (is_team_member(auth.uid(), team_id));
+
+CREATE POLICY "Team members can add dialer queue items"
+ON public.dialer_queue_items FOR INSERT
+WITH CHECK (is_team_member(auth.uid(), team_id));
+
+CREATE POLICY "Team members can work dialer queue items"
+ON public.dialer_queue_items FOR UPDATE
+USING (is_team_member(auth.uid(), team_id));
+
+CREATE POLICY "Team admins can delete dialer queue items"
+ON public.dialer_queue_items FOR DELETE
+USING (is_team_admin(auth.uid(), team_id));
+
+CREATE TABLE IF NOT EXISTS public.dialer_calls (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  queue_id uuid NOT NULL REFERENCES public.dialer_queues(id) ON DELETE CASCADE,
+  item_id uuid NOT NULL REFERENCES public.dialer_queue_items(id) ON DELETE CASCADE,
+  caller_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  disposition text NOT NULL CHECK (disposition IN ('connected', 'no_answer', 'voicemail', 'booked')),
+  notes text,
+  -- When the item comes back up (no answer / voicemail)
+  callback_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dialer_calls_item ON public.dialer_calls(item_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_dialer_calls_team ON public.dialer_calls(team_id, created_at DESC);
+
+ALTER TABLE public.dialer_calls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view dialer calls"
+ON public.dialer_calls FOR SELECT
+USING (is_team_member(auth.uid(), team_id));
+
+CREATE POLICY "Team members can log their dialer calls"
+ON public.dialer_calls FOR INSERT
+WITH CHECK (is_team_member(auth.uid(), team_id) AND caller_id = auth.uid());
+
+-- Hands the caller the next contact to dial. Their own unfinished item comes
+-- back first (e.g. after a page reload); otherwise the highest-priority due
+-- item is locked so two setters never get the same contact. Items left
+-- in_progress for 30 minutes are treated as abandoned.
+CREATE OR REPLACE FUNCTION public.claim_next_dialer_item(p_queue_id uuid)
+RETURNS SETOF public.dialer_queue_items
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_item_id uuid;
+BEGIN
+  SELECT id INTO v_item_id
+  FROM dialer_queue_items
+  WHERE queue_id = p_queue_id
+    AND status = 'in_progress'
+    AND claimed_by = auth.uid()
+  ORDER BY claimed_at
+  LIMIT 1;
+
+  IF v_item_id IS NULL THEN
+    SELECT id INTO v_item_id
+    FROM dialer_queue_items
+    WHERE queue_id = p_queue_id
+      AND (
+        (status = 'pending' AND next_attempt_at <= now())
+        OR (status = 'in_progress' AND claimed_at < now() - interval '30 minutes')
+      )
+    ORDER BY priority DESC, next_attempt_at, created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF v_item_id IS NULL THEN
+      RETURN;
+    END IF;
+
+    UPDATE dialer_queue_items
+    SET status = 'in_progress', claimed_by = auth.uid(), claimed_at = now()
+    WHERE id = v_item_id;
+  END IF;
+
+  RETURN QUERY SELECT * FROM dialer_queue_items WHERE id = v_item_id;
+END;
+$$;
@@ -0,0 +1,50 @@
+-- Builder V2 documents stored per team. Until now EditorDocuments only lived
+-- in the author's localStorage (multiDocPersistence.ts), so /runtime/:documentId
+-- could not be opened by anyone else. localStorage stays as an offline cache;
+-- multiDocStore pushes drafts here and reconciles on load / reconnect using
+-- the document's own updatedAt (client_updated_at).
+--
+-- Visitors never read this table directly: the builder-document edge function
+-- serves published_snapshot only.
+CREATE TABLE IF NOT EXISTS public.builder_documents (
+  -- EditorDocument.id ("doc-...") so cached and server copies share an id
+  id text NOT NULL PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  version integer NOT NULL,
+  -- Full EditorDocument, draft pages plus the published snapshot
+  document jsonb NOT NULL,
+  published_snapshot jsonb,
+  published_at timestamp with time zone,
+  client_updated_at bigint NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_builder_documents_team
+  ON public.builder_documents(team_id, client_updated_at DESC);
+
+CREATE TRIGGER update_builder_documents_updated_at
+  BEFORE UPDATE ON public.builder_documents
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.builder_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view builder documents"
+ON public.builder_documents FOR SELECT
+USING (is_team_member(auth.uid(), team_id));
+
+CREATE POLICY "Team members can create builder documents"
+ON public.builder_documents FOR INSERT
+WITH CHECK (is_team_member(auth.uid(), team_id));
+
+CREATE POLICY "Team members can update builder documents"
+ON public.builder_documents FOR UPDATE
+USING (is_team_member(auth.uid(), team_id))
+WITH CHECK (is_team_member(auth.uid(), team_id));
+
+CREATE POLICY "Team members can delete builder documents"
+ON public.builder_documents FOR DELETE
+USING (is_team_member(auth.uid(), team_id));
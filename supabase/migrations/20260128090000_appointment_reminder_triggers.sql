@@ -0,0 +1,100 @@
+-- Plan appointment reminders from the database, so appointments booked,
+-- moved or cancelled from any UI, RPC or sync get the same reminders as
+-- Calendly bookings. Replaces the scheduling calls in calendly-webhook; the
+-- step rules mirror resolveReminderConfig / planReminders in
+-- _shared/appointmentReminders.ts.
+
+-- The team's valid reminder steps with their send time for an appointment
+CREATE OR REPLACE FUNCTION public.appointment_reminder_plan(p_team_id uuid, p_start_at_utc timestamptz)
+RETURNS TABLE (step_key text, offset_minutes integer, channel text, send_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s->>'key',
+    round((s->>'offsetMinutes')::numeric)::integer,
+    s->>'channel',
+    p_start_at_utc - make_interval(secs => (s->>'offsetMinutes')::numeric * 60)
+  FROM teams t
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(t.appointment_reminder_config->'steps') = 'array'
+      THEN t.appointment_reminder_config->'steps'
+      ELSE '[]'::jsonb
+    END
+  ) s
+  WHERE t.id = p_team_id
+    AND t.appointment_reminder_config->>'enabled' = 'true'
+    AND jsonb_typeof(s->'key') = 'string'
+    AND jsonb_typeof(s->'offsetMinutes') = 'number'
+    AND (s->>'offsetMinutes')::numeric > 0
+    AND s->>'channel' IN ('sms', 'email')
+    AND jsonb_typeof(s->'template') = 'string';
+$$;
+
+-- Creates, re-times or cancels an appointment's reminders. Sent reminders are
+-- left alone; scheduled ones move with start_at_utc and are skipped once
+-- their time has passed or their step is gone.
+CREATE OR REPLACE FUNCTION public.plan_appointment_reminders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('CANCELLED', 'RESCHEDULED', 'NO_SHOW', 'SHOWED', 'CLOSED') THEN
+    UPDATE appointment_reminders
+    SET status = 'cancelled',
+        error_message = CASE NEW.status
+          WHEN 'CANCELLED' THEN 'Appointment cancelled'
+          WHEN 'RESCHEDULED' THEN 'Appointment rescheduled'
+          ELSE 'Appointment is no longer active'
+        END
+    WHERE appointment_id = NEW.id AND status = 'scheduled';
+    RETURN NEW;
+  END IF;
+
+  IF NEW.start_at_utc IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO appointment_reminders (team_id, appointment_id, step_key, offset_minutes, channel, send_at)
+  SELECT NEW.team_id, NEW.id, p.step_key, p.offset_minutes, p.channel, p.send_at
+  FROM appointment_reminder_plan(NEW.team_id, NEW.start_at_utc) p
+  WHERE p.send_at > now()
+  ON CONFLICT (appointment_id, step_key) DO NOTHING;
+
+  UPDATE appointment_reminders r
+  SET send_at = p.send_at, offset_minutes = p.offset_minutes, channel = p.channel
+  FROM appointment_reminder_plan(NEW.team_id, NEW.start_at_utc) p
+  WHERE r.appointment_id = NEW.id
+    AND r.step_key = p.step_key
+    AND r.status = 'scheduled'
+    AND p.send_at > now();
+
+  UPDATE appointment_reminders r
+  SET status = 'skipped', error_message = 'Send time already passed'
+  WHERE r.appointment_id = NEW.id
+    AND r.status = 'scheduled'
+    AND NOT EXISTS (
+      SELECT 1
+      FROM appointment_reminder_plan(NEW.team_id, NEW.start_at_utc) p
+      WHERE p.step_key = r.step_key AND p.send_at > now()
+    );
+
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  -- Never block the appointment write; the worker re-checks reminders before sending
+  RAISE WARNING 'Failed to plan reminders for appointment %: %', NEW.id, SQLERRM;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_plan_appointment_reminders ON public.appointments;
+CREATE TRIGGER trigger_plan_appointment_reminders
+  AFTER INSERT OR UPDATE OF start_at_utc, status ON public.appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.plan_appointment_reminders();
+
+REVOKE EXECUTE ON FUNCTION public.appointment_reminder_plan(uuid, timestamptz) FROM PUBLIC, anon, authenticated;